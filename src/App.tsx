@@ -6,6 +6,8 @@ import { ResetPasswordForm } from './components/auth/ResetPasswordForm';
 import { ForcePasswordChangeModal } from './components/auth/ForcePasswordChangeModal';
 import { Dashboard } from './components/dashboard/Dashboard';
 import { SuperAdminDashboard } from './components/dashboard/SuperAdminDashboard';
+import { IssueTrackingPortal } from './components/issues/IssueTrackingPortal';
+import { parseTrackingToken } from './lib/issues/tracking-utils';
 
 type AuthView = 'login' | 'forgot-password' | 'reset-password';
 
@@ -14,6 +16,7 @@ function App() {
   const [isSuperAdmin, setIsSuperAdmin] = useState<boolean>(false);
   const [authView, setAuthView] = useState<AuthView>('login');
   const [isResettingPassword, setIsResettingPassword] = useState(false);
+  const [trackingToken] = useState(() => parseTrackingToken(window.location.hash));
   const [passwordChangeRequired, setPasswordChangeRequired] = useState<{
     userId: string;
     reason: 'first_login' | 'expired' | 'admin_forced';
@@ -146,6 +149,10 @@ function App() {
     isResettingPassword
   });
 
+  if (trackingToken) {
+    return <IssueTrackingPortal token={trackingToken} />;
+  }
+
   if (isAuthenticated === null) {
     console.log('[APP] Rendering loading spinner (isAuthenticated=null)');
     return (
@@ -12,6 +12,7 @@ import { ModulesManager } from '../organization/ModulesManager';
 import { RolesManager } from '../organization/RolesManager';
 import { LeadStatusesManager } from '../organization/LeadStatusesManager';
 import { LeadRanksManager } from '../organization/LeadRanksManager';
+import { LeadScoringRulesManager } from '../organization/LeadScoringRulesManager';
 import { IssueStatusesManager } from '../organization/IssueStatusesManager';
 import { IssueCategoriesManager } from '../organization/IssueCategoriesManager';
 import { MyTeamDashboard } from '../team/MyTeamDashboard';
@@ -204,6 +205,8 @@ export function Dashboard() {
           return <LeadStatusesManager />;
         case 'lead_ranks':
           return <LeadRanksManager />;
+        case 'lead_scoring':
+          return <LeadScoringRulesManager orgId={user.org_id} />;
         case 'issue_statuses':
           return <IssueStatusesManager />;
         case 'issue_categories':
@@ -3,7 +3,11 @@ import { X, User, FileText, Loader, MapPin, AlertCircle } from 'lucide-react';
 import type { Form, FormField } from '../../lib/forms/types';
 import { FormService } from '../../lib/forms/form-service';
 import { applyInputMask, getMaskPlaceholder } from '../../lib/forms/input-mask-utils';
+import { resolveFieldLogic, findMissingRequiredField, pruneHiddenFields } from '../../lib/forms/field-logic-utils';
+import { applyCalculatedFields, computeCalculatedFields, formatCalculatedValue } from '../../lib/forms/calculation-utils';
 import { supabase } from '../../lib/supabase/client';
+import { FileUploadField } from './FileUploadField';
+import { RepeatableGroupField } from './RepeatableGroupField';
 
 interface Customer {
   id: string;
@@ -90,11 +94,10 @@ export function AddFormResponseModal({ form, onClose, onSuccess }: AddFormRespon
       return false;
     }
 
-    for (const field of form.form_schema) {
-      if (field.required && !formData[field.id]) {
-        setError(`${field.label} is required`);
-        return false;
-      }
+    const missingField = findMissingRequiredField(form.form_schema, formData);
+    if (missingField) {
+      setError(`${missingField.label} is required`);
+      return false;
     }
 
     return true;
@@ -127,7 +130,7 @@ export function AddFormResponseModal({ form, onClose, onSuccess }: AddFormRespon
       const result = await FormService.submitForm({
         form_id: form.id,
         agent_id: selectedCustomerId,
-        submission_data: formData
+        submission_data: pruneHiddenFields(form.form_schema, applyCalculatedFields(form.form_schema, formData))
       });
 
       if (result.success) {
@@ -163,6 +166,8 @@ export function AddFormResponseModal({ form, onClose, onSuccess }: AddFormRespon
     }
   };
 
+  const calculatedValues = computeCalculatedFields(form.form_schema, formData);
+
   const renderField = (field: FormField) => {
     const value = formData[field.id] || '';
     const maskPlaceholder = getMaskPlaceholder(field.inputMask);
@@ -281,44 +286,34 @@ export function AddFormResponseModal({ form, onClose, onSuccess }: AddFormRespon
         );
 
       case 'image':
+      case 'file':
         return (
-          <div className="space-y-3">
-            <input
-              type="file"
-              accept="image/*"
-              onChange={(e) => {
-                const file = e.target.files?.[0];
-                if (file) {
-                  const reader = new FileReader();
-                  reader.onloadend = () => {
-                    handleFieldChange(field.id, {
-                      filename: file.name,
-                      data: reader.result,
-                      type: file.type,
-                      size: file.size
-                    });
-                  };
-                  reader.readAsDataURL(file);
-                }
-              }}
-              required={field.required}
-              className="w-full px-4 py-3 border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-semibold file:bg-[#015324] file:text-white hover:file:bg-[#014a20] file:cursor-pointer"
-            />
-            {value?.data && (
-              <div className="relative">
-                <img
-                  src={value.data}
-                  alt="Preview"
-                  className="max-w-full h-auto max-h-64 rounded-lg border-2 border-slate-200 object-contain"
-                />
-                <div className="mt-2 text-xs text-slate-500">
-                  {value.filename} ({(value.size / 1024).toFixed(2)} KB)
-                </div>
-              </div>
-            )}
+          <FileUploadField
+            field={field}
+            value={formData[field.id]}
+            onChange={(uploads) => handleFieldChange(field.id, uploads)}
+            onError={(message) => setError(message)}
+            inputClassName="w-full px-4 py-3 border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all"
+          />
+        );
+
+      case 'calculated':
+        return (
+          <div className="w-full px-4 py-3 bg-slate-50 border-2 border-slate-200 rounded-xl font-semibold text-slate-800">
+            {formatCalculatedValue(field, calculatedValues[field.id])}
           </div>
         );
 
+      case 'group':
+        return (
+          <RepeatableGroupField
+            field={field}
+            value={formData[field.id]}
+            onChange={(entries) => handleFieldChange(field.id, entries)}
+            inputClassName={baseInputClass}
+          />
+        );
+
       default:
         return (
           <input
@@ -346,6 +341,8 @@ export function AddFormResponseModal({ form, onClose, onSuccess }: AddFormRespon
     customer.customer_code.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  const fieldLogic = resolveFieldLogic(form.form_schema, formData);
+
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-md flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
       <div className="bg-white rounded-3xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto animate-in slide-in-from-bottom-4 duration-300">
@@ -439,7 +436,16 @@ export function AddFormResponseModal({ form, onClose, onSuccess }: AddFormRespon
             <div className="space-y-4">
               {form.form_schema
                 .sort((a, b) => a.order - b.order)
-                .map((field) => (
+                .filter((field) => fieldLogic.visible.has(field.id))
+                .map((field) => ({ ...field, required: fieldLogic.required.has(field.id) }))
+                .map((field) => field.type === 'section' ? (
+                  <div key={field.id} className="pt-4 border-t border-slate-200">
+                    <h5 className="text-base font-bold text-slate-800">{field.label}</h5>
+                    {field.description && (
+                      <p className="text-sm text-slate-600 mt-1">{field.description}</p>
+                    )}
+                  </div>
+                ) : (
                   <div key={field.id}>
                     <label className="block text-sm font-bold text-slate-700 mb-2">
                       {field.label}
@@ -1,16 +1,27 @@
-import { useState, useEffect } from 'react';
-import { FileText, Clock, CheckCircle, XCircle, Send } from 'lucide-react';
-import type { Form, FormVisibility, FormField } from '../../lib/forms/types';
+import { useState, useEffect, useRef } from 'react';
+import { FileText, Clock, CheckCircle, XCircle, Send, ChevronLeft, ChevronRight, MapPin, CornerUpLeft } from 'lucide-react';
+import type { Form, FormVisibility, FormField, FormSubmission } from '../../lib/forms/types';
 import { FormService } from '../../lib/forms/form-service';
+import { FormOutboxService } from '../../lib/forms/form-outbox-service';
 import { applyInputMask, getMaskPlaceholder } from '../../lib/forms/input-mask-utils';
+import { resolveFieldLogic, findMissingRequiredField, getVisibleFields, pruneHiddenFields } from '../../lib/forms/field-logic-utils';
+import { applyCalculatedFields, computeCalculatedFields, formatCalculatedValue } from '../../lib/forms/calculation-utils';
+import { splitIntoPages } from '../../lib/forms/form-layout-utils';
+import { getCurrentPosition, isLocationCheckEnabled } from '../../lib/forms/geofence-utils';
 import { useToast } from '../../contexts/ToastContext';
+import { OutboxStatusBar } from './OutboxStatusBar';
+import { FileUploadField } from './FileUploadField';
+import { RepeatableGroupField } from './RepeatableGroupField';
+import { TodaysVisits } from '../visits/TodaysVisits';
+import { VisitPlanService } from '../../lib/visits/visit-plan-service';
+import type { TodayVisit } from '../../lib/visits/types';
 
 interface AgentFormViewProps {
   agentId: string;
 }
 
 export function AgentFormView({ agentId }: AgentFormViewProps) {
-  const { showSuccess, showError } = useToast();
+  const { showSuccess, showError, showWarning, showInfo } = useToast();
   const [availableForms, setAvailableForms] = useState<{ form: Form; visibility: FormVisibility }[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedForm, setSelectedForm] = useState<Form | null>(null);
@@ -18,6 +29,16 @@ export function AgentFormView({ agentId }: AgentFormViewProps) {
   const [submitting, setSubmitting] = useState(false);
   const [formStartTime, setFormStartTime] = useState<Date | null>(null);
   const [geolocation, setGeolocation] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(null);
+  const [currentPage, setCurrentPage] = useState(0);
+  const [returnedSubmissions, setReturnedSubmissions] = useState<FormSubmission[]>([]);
+  const [correcting, setCorrecting] = useState<FormSubmission | null>(null);
+  const [todaysVisits, setTodaysVisits] = useState<TodayVisit[]>([]);
+  const [activeVisit, setActiveVisit] = useState<TodayVisit | null>(null);
+  const pendingSyncCount = useRef(0);
+
+  // Planned visits are filled in against the visited customer
+  const submissionAgentId = activeVisit?.stop.customer_id || agentId;
 
   useEffect(() => {
     loadAvailableForms();
@@ -25,10 +46,49 @@ export function AgentFormView({ agentId }: AgentFormViewProps) {
     return () => clearInterval(interval);
   }, [agentId]);
 
+  useEffect(() => {
+    FormOutboxService.startAutoSync();
+    return FormOutboxService.subscribe((state) => {
+      // Refresh cycle counts once queued submissions have reached the server
+      if (state.entries.length < pendingSyncCount.current && state.online) {
+        loadAvailableForms();
+      }
+      pendingSyncCount.current = state.entries.length;
+    });
+  }, [agentId]);
+
+  useEffect(() => {
+    if (!selectedForm || correcting || Object.keys(formData).length === 0) return;
+
+    const timeout = setTimeout(async () => {
+      await FormOutboxService.saveDraft({
+        form_id: selectedForm.id,
+        agent_id: submissionAgentId,
+        form_data: formData,
+        form_started_at: formStartTime?.toISOString()
+      });
+      setDraftSavedAt(new Date());
+    }, 500);
+
+    return () => clearTimeout(timeout);
+  }, [formData, selectedForm, correcting, submissionAgentId, formStartTime]);
+
   const loadAvailableForms = async () => {
     try {
-      const forms = await FormService.getAvailableForms(agentId);
+      if (!FormOutboxService.isOnline()) {
+        setAvailableForms(await FormOutboxService.getCachedAvailableForms(agentId));
+        return;
+      }
+
+      const [forms, returned, visits] = await Promise.all([
+        FormService.getAvailableForms(agentId),
+        FormService.getReturnedSubmissions(),
+        VisitPlanService.getTodaysVisits(agentId)
+      ]);
       setAvailableForms(forms);
+      setReturnedSubmissions(returned);
+      setTodaysVisits(visits);
+      await FormOutboxService.cacheAvailableForms(agentId, forms);
     } catch (error) {
       console.error('Error loading available forms:', error);
     } finally {
@@ -40,6 +100,8 @@ export function AgentFormView({ agentId }: AgentFormViewProps) {
     setFormData(prev => ({ ...prev, [fieldId]: value }));
   };
 
+  const calculatedValues = selectedForm ? computeCalculatedFields(selectedForm.form_schema, formData) : {};
+
   const renderField = (field: FormField) => {
     const value = formData[field.id] || '';
 
@@ -212,70 +274,122 @@ export function AgentFormView({ agentId }: AgentFormViewProps) {
         );
 
       case 'image':
+      case 'file':
         return (
-          <div className="space-y-3">
-            <input
-              type="file"
-              accept="image/*"
-              onChange={(e) => {
-                const file = e.target.files?.[0];
-                if (file) {
-                  const reader = new FileReader();
-                  reader.onloadend = () => {
-                    handleFieldChange(field.id, {
-                      filename: file.name,
-                      data: reader.result,
-                      type: file.type,
-                      size: file.size
-                    });
-                  };
-                  reader.readAsDataURL(file);
-                }
-              }}
-              required={field.required}
-              className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-transparent file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-semibold file:bg-[#015324] file:text-white hover:file:bg-[#014a20] file:cursor-pointer"
-            />
-            {value?.data && (
-              <div className="relative">
-                <img
-                  src={value.data}
-                  alt="Preview"
-                  className="max-w-full h-auto max-h-64 rounded-lg border-2 border-slate-200 object-contain"
-                />
-                <div className="mt-2 text-xs text-slate-500">
-                  {value.filename} ({(value.size / 1024).toFixed(2)} KB)
-                </div>
-              </div>
-            )}
+          <FileUploadField
+            field={field}
+            value={formData[field.id]}
+            onChange={(uploads) => handleFieldChange(field.id, uploads)}
+            onError={(message) => showError('Upload Failed', message)}
+            inputClassName="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-transparent"
+          />
+        );
+
+      case 'calculated':
+        return (
+          <div className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-lg font-semibold text-slate-800">
+            {formatCalculatedValue(field, calculatedValues[field.id])}
           </div>
         );
 
+      case 'group':
+        return (
+          <RepeatableGroupField
+            field={field}
+            value={formData[field.id]}
+            onChange={(entries) => handleFieldChange(field.id, entries)}
+            inputClassName="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-transparent"
+          />
+        );
+
       default:
         return <div className="text-slate-500">Unsupported field type: {field.type}</div>;
     }
   };
 
-  const captureGeolocation = () => {
-    if (navigator.geolocation) {
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          setGeolocation({
-            latitude: position.coords.latitude,
-            longitude: position.coords.longitude
-          });
-        },
-        (error) => {
-          console.error('Error getting geolocation:', error);
-        }
-      );
+  const captureGeolocation = async () => {
+    const position = await getCurrentPosition();
+    if (position) {
+      setGeolocation(position);
+    }
+    return position;
+  };
+
+  const handleFormSelect = async (form: Form, visit: TodayVisit | null = null) => {
+    const draft = await FormOutboxService.getDraft(form.id, visit?.stop.customer_id || agentId);
+
+    setSelectedForm(form);
+    setActiveVisit(visit);
+    setDraftSavedAt(null);
+    setCurrentPage(0);
+    captureGeolocation();
+
+    if (draft) {
+      setFormData(draft.form_data);
+      setFormStartTime(draft.form_started_at ? new Date(draft.form_started_at) : new Date());
+      showInfo('Draft Restored', 'Continuing from where you left off');
+    } else {
+      setFormData({});
+      setFormStartTime(new Date());
     }
   };
 
-  const handleFormSelect = (form: Form) => {
+  const handleCorrectSubmission = async (submission: FormSubmission) => {
+    const form = await FormService.getForm(submission.form_id);
+    if (!form) {
+      showError('Form Unavailable', 'This form could not be loaded. Please try again.');
+      return;
+    }
+
     setSelectedForm(form);
+    setCorrecting(submission);
+    setFormData(submission.submission_data);
+    setDraftSavedAt(null);
+    setCurrentPage(0);
+  };
+
+  const handleVisitFormSelect = async (visit: TodayVisit, formId: string) => {
+    const form = availableForms.find(f => f.form.id === formId)?.form || await FormService.getForm(formId);
+    if (!form) {
+      showError('Form Unavailable', 'This form could not be loaded. Please try again.');
+      return;
+    }
+    handleFormSelect(form, visit);
+  };
+
+  const closeForm = () => {
+    setSelectedForm(null);
+    setCorrecting(null);
+    setActiveVisit(null);
     setFormData({});
-    setFormStartTime(new Date());
-    captureGeolocation();
+  };
+
+  const handleResubmit = async () => {
+    if (!selectedForm || !correcting) return;
+
+    if (!FormOutboxService.isOnline()) {
+      showWarning('Offline', 'Corrections can only be resubmitted while online');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const result = await FormService.resubmitSubmission(
+        correcting,
+        pruneHiddenFields(selectedForm.form_schema, applyCalculatedFields(selectedForm.form_schema, formData))
+      );
+
+      if (!result.success) {
+        showError('Resubmission Failed', result.error || 'Failed to resubmit form');
+        return;
+      }
+
+      closeForm();
+      showSuccess('Form Resubmitted', 'Your corrections have been sent for review');
+      loadAvailableForms();
+    } finally {
+      setSubmitting(false);
+    }
   };
 
   const calculateTimeSpent = (): string => {
@@ -288,37 +402,96 @@ export function AgentFormView({ agentId }: AgentFormViewProps) {
     return `${minutes} minutes ${seconds} seconds`;
   };
 
+  const goToNextPage = () => {
+    if (!selectedForm) return;
+
+    const pages = splitIntoPages(getVisibleFields(selectedForm.form_schema, formData));
+    const page = pages[Math.min(currentPage, pages.length - 1)];
+    const missingField = findMissingRequiredField(
+      selectedForm.form_schema,
+      formData,
+      new Set(page.fields.map(f => f.id))
+    );
+    if (missingField) {
+      showWarning('Required Field', `${missingField.label} is required`);
+      return;
+    }
+
+    setCurrentPage(Math.min(currentPage + 1, pages.length - 1));
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!selectedForm) return;
 
+    const pages = splitIntoPages(getVisibleFields(selectedForm.form_schema, formData));
+    if (currentPage < pages.length - 1) {
+      goToNextPage();
+      return;
+    }
+
+    const missingField = findMissingRequiredField(selectedForm.form_schema, formData);
+    if (missingField) {
+      showWarning('Required Field', `${missingField.label} is required`);
+      return;
+    }
+
+    if (correcting) {
+      await handleResubmit();
+      return;
+    }
+
     setSubmitting(true);
     try {
+      const position = geolocation || (isLocationCheckEnabled(selectedForm) ? await captureGeolocation() : null);
+      if (!position && selectedForm.attach_to_customer && selectedForm.require_location) {
+        showWarning('Location Required', 'Turn on location services and allow access to submit this form');
+        return;
+      }
+
       // Get supervisor info from the current user's data
-      const { data: userData } = await FormService.getCurrentUserData();
+      const { data: userData } = FormOutboxService.isOnline()
+        ? await FormService.getCurrentUserData()
+        : { data: null };
 
-      const result = await FormService.submitForm({
+      // Persist to the outbox before sending so nothing is lost if the request fails
+      const entry = await FormOutboxService.enqueue({
         form_id: selectedForm.id,
-        agent_id: agentId,
-        submission_data: formData,
-        latitude: geolocation?.latitude,
-        longitude: geolocation?.longitude,
+        agent_id: submissionAgentId,
+        submission_data: pruneHiddenFields(
+          selectedForm.form_schema,
+          applyCalculatedFields(selectedForm.form_schema, formData)
+        ),
+        latitude: position?.latitude,
+        longitude: position?.longitude,
         time_spent: calculateTimeSpent(),
         supervisor_name: userData?.supervisor_name,
         supervisor_code: userData?.supervisor_code,
         form_started_at: formStartTime?.toISOString()
-      });
+      }, selectedForm.title);
+
+      await FormOutboxService.clearDraft(selectedForm.id, submissionAgentId);
+      setSelectedForm(null);
+      setActiveVisit(null);
+      setFormData({});
+      setFormStartTime(null);
+      setGeolocation(null);
+      setDraftSavedAt(null);
+
+      const result = (await FormOutboxService.flush()).get(entry.id);
 
-      if (result.success) {
+      if (result?.success && result.geofence_status === 'outside') {
+        showWarning('Submitted Outside Outlet', `Form submitted, but you were ${result.distance_m} m from the customer. It has been flagged for review.`);
+        loadAvailableForms();
+      } else if (result?.success) {
         showSuccess('Form Submitted', `Form submitted successfully! ${result.frozen_until ? `Next submission available after ${new Date(result.frozen_until).toLocaleString()}` : ''}`);
-        setSelectedForm(null);
-        setFormData({});
-        setFormStartTime(null);
-        setGeolocation(null);
         loadAvailableForms();
+      } else if (result && result.error !== 'network_error') {
+        showError('Submission Failed', `Failed to submit form: ${result.message || result.error}. It is kept in your outbox.`);
       } else {
-        showError('Submission Failed', `Failed to submit form: ${result.error}`);
+        showInfo('Saved Offline', 'Your submission is queued and will be sent when your connection returns');
       }
     } catch (error) {
       console.error('Error submitting form:', error);
@@ -337,68 +510,166 @@ export function AgentFormView({ agentId }: AgentFormViewProps) {
   }
 
   if (selectedForm) {
+    const fieldLogic = resolveFieldLogic(selectedForm.form_schema, formData);
+    const pages = splitIntoPages(
+      selectedForm.form_schema
+        .filter((field) => fieldLogic.visible.has(field.id))
+        .map((field) => ({ ...field, required: fieldLogic.required.has(field.id) }))
+    );
+    const pageIndex = Math.min(currentPage, pages.length - 1);
+    const page = pages[pageIndex];
+    const isLastPage = pageIndex === pages.length - 1;
+
     return (
       <div className="max-w-3xl mx-auto">
         <button
-          onClick={() => {
-            setSelectedForm(null);
-            setFormData({});
-          }}
+          onClick={closeForm}
           className="mb-4 text-[#015324] hover:underline"
         >
           ← Back to forms list
         </button>
 
         <div className="bg-white rounded-xl shadow-lg p-8">
-          <h2 className="text-2xl font-bold text-slate-800 mb-2">{selectedForm.title}</h2>
+          <div className="flex items-start justify-between gap-4 mb-2">
+            <h2 className="text-2xl font-bold text-slate-800">{selectedForm.title}</h2>
+            {draftSavedAt && (
+              <span className="text-xs text-slate-500 whitespace-nowrap mt-2">
+                Draft saved {draftSavedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </span>
+            )}
+          </div>
           {selectedForm.description && (
             <p className="text-slate-600 mb-6">{selectedForm.description}</p>
           )}
 
+          {activeVisit && (
+            <div className="flex items-center gap-3 mb-6 p-4 bg-[#015324]/5 border border-[#015324]/20 rounded-lg">
+              <MapPin className="w-5 h-5 text-[#015324]" />
+              <p className="text-sm text-slate-700">
+                Planned visit to <span className="font-semibold">{activeVisit.stop.customer?.customer_name || 'customer'}</span>
+                <span className="text-slate-500"> · {activeVisit.plan_name}</span>
+              </p>
+            </div>
+          )}
+
+          {correcting && (
+            <div className="flex items-start gap-3 mb-6 p-4 bg-orange-50 border border-orange-200 rounded-lg">
+              <CornerUpLeft className="w-5 h-5 text-orange-600 mt-0.5" />
+              <div>
+                <p className="text-sm font-semibold text-orange-900">Returned for correction</p>
+                {correcting.review_notes && (
+                  <p className="text-sm text-orange-800 mt-1">{correcting.review_notes}</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {!correcting && isLocationCheckEnabled(selectedForm) && (
+            <div className={`flex items-center gap-2 mb-6 px-3 py-2 rounded-lg text-sm ${
+              geolocation ? 'bg-green-50 text-green-700' : 'bg-amber-50 text-amber-700'
+            }`}>
+              <MapPin className="w-4 h-4" />
+              {geolocation ? 'Location captured' : 'Waiting for GPS location…'}
+              {!geolocation && (
+                <button
+                  type="button"
+                  onClick={captureGeolocation}
+                  className="ml-auto text-xs font-semibold underline"
+                >
+                  Retry
+                </button>
+              )}
+            </div>
+          )}
+
+          {pages.length > 1 && (
+            <div className="mb-6">
+              <div className="flex items-center justify-between text-sm mb-2">
+                <span className="font-medium text-slate-700">
+                  Step {pageIndex + 1} of {pages.length}
+                </span>
+                <span className="text-slate-500">
+                  {Math.round(((pageIndex + 1) / pages.length) * 100)}%
+                </span>
+              </div>
+              <div className="w-full h-2 bg-slate-200 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-[#015324] rounded-full transition-all duration-300"
+                  style={{ width: `${((pageIndex + 1) / pages.length) * 100}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {page.section && (
+            <div className="mb-6 pb-4 border-b border-slate-200">
+              <h3 className="text-lg font-semibold text-slate-800">{page.section.label}</h3>
+              {page.section.description && (
+                <p className="text-sm text-slate-600 mt-1">{page.section.description}</p>
+              )}
+            </div>
+          )}
+
           <form onSubmit={handleSubmit} className="space-y-6">
-            {selectedForm.form_schema
-              .sort((a, b) => a.order - b.order)
-              .map((field) => (
-                <div key={field.id}>
-                  {field.type !== 'checkbox' && (
-                    <label className="block text-sm font-medium text-slate-700 mb-2">
-                      {field.label}
-                      {field.required && <span className="text-red-500 ml-1">*</span>}
-                    </label>
-                  )}
-                  {renderField(field)}
-                </div>
-              ))}
+            {page.fields.map((field) => (
+              <div key={field.id}>
+                {field.type !== 'checkbox' && (
+                  <label className="block text-sm font-medium text-slate-700 mb-2">
+                    {field.label}
+                    {field.required && <span className="text-red-500 ml-1">*</span>}
+                  </label>
+                )}
+                {renderField(field)}
+              </div>
+            ))}
 
             <div className="flex items-center justify-end gap-3 pt-6 border-t border-slate-200">
+              {pageIndex > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setCurrentPage(pageIndex - 1)}
+                  disabled={submitting}
+                  className="flex items-center gap-2 px-6 py-3 mr-auto border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50"
+                >
+                  <ChevronLeft className="w-5 h-5" />
+                  Back
+                </button>
+              )}
               <button
                 type="button"
-                onClick={() => {
-                  setSelectedForm(null);
-                  setFormData({});
-                }}
+                onClick={closeForm}
                 disabled={submitting}
                 className="px-6 py-3 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50"
               >
                 Cancel
               </button>
-              <button
-                type="submit"
-                disabled={submitting}
-                className="flex items-center gap-2 px-6 py-3 bg-[#015324] text-white rounded-lg hover:bg-[#014a20] transition-colors disabled:opacity-50"
-              >
-                {submitting ? (
-                  <>
-                    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                    Submitting...
-                  </>
-                ) : (
-                  <>
-                    <Send className="w-5 h-5" />
-                    Submit Form
-                  </>
-                )}
-              </button>
+              {!isLastPage ? (
+                <button
+                  type="submit"
+                  className="flex items-center gap-2 px-6 py-3 bg-[#015324] text-white rounded-lg hover:bg-[#014a20] transition-colors"
+                >
+                  Next
+                  <ChevronRight className="w-5 h-5" />
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="flex items-center gap-2 px-6 py-3 bg-[#015324] text-white rounded-lg hover:bg-[#014a20] transition-colors disabled:opacity-50"
+                >
+                  {submitting ? (
+                    <>
+                      <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                      Submitting...
+                    </>
+                  ) : (
+                    <>
+                      <Send className="w-5 h-5" />
+                      {correcting ? 'Resubmit Form' : 'Submit Form'}
+                    </>
+                  )}
+                </button>
+              )}
             </div>
           </form>
         </div>
@@ -413,6 +684,42 @@ export function AgentFormView({ agentId }: AgentFormViewProps) {
         <p className="text-slate-600 mt-1">Complete your assigned forms</p>
       </div>
 
+      <OutboxStatusBar />
+
+      {todaysVisits.length > 0 && (
+        <TodaysVisits visits={todaysVisits} onStartForm={handleVisitFormSelect} />
+      )}
+
+      {returnedSubmissions.length > 0 && (
+        <div className="bg-orange-50 border-2 border-orange-200 rounded-xl p-4">
+          <h3 className="flex items-center gap-2 text-sm font-bold text-orange-900 mb-3">
+            <CornerUpLeft className="w-4 h-4" />
+            Returned for Correction ({returnedSubmissions.length})
+          </h3>
+          <div className="space-y-2">
+            {returnedSubmissions.map(submission => (
+              <div key={submission.id} className="flex items-center justify-between gap-4 bg-white rounded-lg border border-orange-200 px-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold text-slate-800">
+                    {availableForms.find(f => f.form.id === submission.form_id)?.form.title || 'Form submission'}
+                    <span className="text-slate-500 font-normal"> · Cycle {submission.cycle_number}</span>
+                  </p>
+                  {submission.review_notes && (
+                    <p className="text-xs text-orange-800 mt-0.5 line-clamp-2">{submission.review_notes}</p>
+                  )}
+                </div>
+                <button
+                  onClick={() => handleCorrectSubmission(submission)}
+                  className="flex-shrink-0 px-4 py-2 text-sm font-medium bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors"
+                >
+                  Correct
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {availableForms.length === 0 ? (
         <div className="text-center py-12 bg-slate-50 rounded-xl border-2 border-dashed border-slate-300">
           <FileText className="w-16 h-16 text-slate-400 mx-auto mb-4" />
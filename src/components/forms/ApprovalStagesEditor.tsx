@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, ListChecks, Plus, Trash2 } from 'lucide-react';
+import type { ApprovalStage, ApprovalStageApproverType } from '../../lib/forms/types';
+import { RoleService, type Role } from '../../lib/roles/role-service';
+
+interface ApprovalStagesEditorProps {
+  stages: ApprovalStage[];
+  onChange: (stages: ApprovalStage[]) => void;
+}
+
+export function ApprovalStagesEditor({ stages, onChange }: ApprovalStagesEditorProps) {
+  const [roles, setRoles] = useState<Role[]>([]);
+
+  useEffect(() => {
+    loadRoles();
+  }, []);
+
+  const loadRoles = async () => {
+    try {
+      const data = await RoleService.getAllRoles();
+      setRoles(data.filter(r => r.name !== 'super_admin'));
+    } catch (error) {
+      console.error('Error loading roles:', error);
+    }
+  };
+
+  const updateStage = (id: string, updates: Partial<ApprovalStage>) => {
+    onChange(stages.map(s => s.id === id ? { ...s, ...updates } : s));
+  };
+
+  const addStage = () => {
+    onChange([
+      ...stages,
+      { id: `stage_${Date.now()}`, name: '', approver_type: 'role' }
+    ]);
+  };
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= stages.length) return;
+    const next = [...stages];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const levels = [...new Set(roles.map(r => r.level))].sort((a, b) => a - b);
+  const inputClass = "w-full px-3 py-2.5 text-sm bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200 placeholder-slate-400";
+
+  return (
+    <div className="bg-gradient-to-br from-slate-50 to-slate-100/50 rounded-xl p-5 border-2 border-slate-200 space-y-4">
+      <div>
+        <p className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+          <ListChecks className="w-4 h-4" />
+          Approval Workflow
+        </p>
+        <p className="text-xs text-slate-500 mt-1">
+          {stages.length === 0
+            ? 'Submissions need a single review by anyone other than the submitter. Add stages to require a chain of approvals.'
+            : 'Submissions move through these stages in order. Any stage can return a submission to the agent for correction.'}
+        </p>
+      </div>
+
+      {stages.map((stage, index) => (
+        <div key={stage.id} className="flex items-start gap-3 bg-white rounded-xl p-3 border border-slate-200">
+          <div className="flex flex-col items-center gap-1">
+            <button
+              type="button"
+              onClick={() => moveStage(index, -1)}
+              disabled={index === 0}
+              className="p-1 text-slate-400 hover:text-[#015324] rounded disabled:opacity-20 disabled:cursor-not-allowed"
+              title="Move up"
+            >
+              <ChevronUp className="w-4 h-4" />
+            </button>
+            <div className="w-6 h-6 rounded-full bg-[#015324] text-white text-xs font-bold flex items-center justify-center">
+              {index + 1}
+            </div>
+            <button
+              type="button"
+              onClick={() => moveStage(index, 1)}
+              disabled={index === stages.length - 1}
+              className="p-1 text-slate-400 hover:text-[#015324] rounded disabled:opacity-20 disabled:cursor-not-allowed"
+              title="Move down"
+            >
+              <ChevronDown className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="flex-1 grid grid-cols-3 gap-3">
+            <input
+              type="text"
+              value={stage.name}
+              onChange={(e) => updateStage(stage.id, { name: e.target.value })}
+              className={inputClass}
+              placeholder="e.g., Branch Manager Review"
+            />
+            <select
+              value={stage.approver_type}
+              onChange={(e) => updateStage(stage.id, {
+                approver_type: e.target.value as ApprovalStageApproverType,
+                role_name: undefined,
+                max_level: undefined
+              })}
+              className={inputClass}
+            >
+              <option value="role">Specific role</option>
+              <option value="level">Hierarchy level</option>
+            </select>
+            {stage.approver_type === 'role' ? (
+              <select
+                value={stage.role_name || ''}
+                onChange={(e) => updateStage(stage.id, { role_name: e.target.value || undefined })}
+                className={inputClass}
+              >
+                <option value="">Select role</option>
+                {roles.map(role => (
+                  <option key={role.id} value={role.name}>{role.display_name}</option>
+                ))}
+              </select>
+            ) : (
+              <select
+                value={stage.max_level ?? ''}
+                onChange={(e) => updateStage(stage.id, { max_level: e.target.value ? parseInt(e.target.value) : undefined })}
+                className={inputClass}
+              >
+                <option value="">Select level</option>
+                {levels.map(level => (
+                  <option key={level} value={level}>
+                    Level {level} or above ({roles.filter(r => r.level === level).map(r => r.display_name).join(', ')})
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <button
+            type="button"
+            onClick={() => onChange(stages.filter(s => s.id !== stage.id))}
+            className="p-2 text-red-600 hover:bg-red-100 rounded-xl transition-all duration-200"
+            title="Remove stage"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addStage}
+        className="flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-[#015324] bg-[#015324]/5 hover:bg-[#015324]/10 rounded-xl transition-all duration-200 w-full justify-center border-2 border-dashed border-[#015324]/30"
+      >
+        <Plus className="w-4 h-4" />
+        Add Approval Stage
+      </button>
+    </div>
+  );
+}
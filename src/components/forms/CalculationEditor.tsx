@@ -0,0 +1,107 @@
+import { Calculator } from 'lucide-react';
+import type { FormField, FormFieldCalculation } from '../../lib/forms/types';
+import { FORMULA_FUNCTIONS, isScorableField, validateFormula } from '../../lib/forms/calculation-utils';
+
+interface CalculationEditorProps {
+  field: FormField;
+  sourceFields: FormField[];
+  onChange: (updates: Partial<FormField>) => void;
+}
+
+export function CalculationEditor({ field, sourceFields, onChange }: CalculationEditorProps) {
+  const calculation: FormFieldCalculation = field.calculation || { formula: '' };
+  const scorableFields = sourceFields.filter(isScorableField);
+  const formulaError = calculation.formula ? validateFormula(calculation.formula, sourceFields) : null;
+
+  const update = (updates: Partial<FormFieldCalculation>) => {
+    onChange({ calculation: { ...calculation, ...updates } });
+  };
+
+  const insertReference = (fieldId: string) => {
+    const formula = calculation.formula.trimEnd();
+    const needsSeparator = formula && !/[(,+\-*/]$/.test(formula);
+    update({ formula: `${formula}${needsSeparator ? ', ' : ''}{${fieldId}}` });
+  };
+
+  return (
+    <div className="bg-slate-50/50 rounded-xl p-4 border border-slate-200 space-y-3">
+      <label className="flex items-center gap-2 text-xs font-semibold text-slate-600">
+        <Calculator className="w-3.5 h-3.5" />
+        Calculation
+      </label>
+
+      <div>
+        <textarea
+          value={calculation.formula}
+          onChange={(e) => update({ formula: e.target.value })}
+          rows={2}
+          className={`w-full px-3 py-2.5 text-sm font-mono bg-white border-2 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200 placeholder-slate-400 ${
+            formulaError ? 'border-red-300' : 'border-slate-200'
+          }`}
+          placeholder="e.g. PERCENT({field_123}, {field_456})"
+        />
+        {formulaError && (
+          <p className="text-xs text-red-600 mt-1">{formulaError}</p>
+        )}
+      </div>
+
+      {scorableFields.length > 0 ? (
+        <div>
+          <p className="text-xs font-medium text-slate-600 mb-1.5">Insert a field</p>
+          <div className="flex flex-wrap gap-1.5">
+            {scorableFields.map(source => (
+              <button
+                key={source.id}
+                type="button"
+                onClick={() => insertReference(source.id)}
+                className="px-2.5 py-1 text-xs font-medium text-[#015324] bg-[#015324]/5 hover:bg-[#015324]/10 rounded-lg border border-[#015324]/20 transition-all duration-200"
+                title={`{${source.id}}`}
+              >
+                {source.label || 'Untitled field'}
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-400">
+          Add number or choice fields above this one to use them in the formula.
+        </p>
+      )}
+
+      <p className="text-xs text-slate-400">
+        Use + − × ÷ and parentheses, or {FORMULA_FUNCTIONS.map(f => f.name).join(', ')}.
+        PERCENT scores choice answers by their option weights and skips answers without one.
+      </p>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1.5">
+            Display As
+          </label>
+          <select
+            value={calculation.format || 'number'}
+            onChange={(e) => update({ format: e.target.value as FormFieldCalculation['format'] })}
+            className="w-full px-3 py-2.5 text-sm bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200"
+          >
+            <option value="number">Number</option>
+            <option value="percent">Percentage</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1.5">
+            Decimal Places
+          </label>
+          <input
+            type="number"
+            min={0}
+            max={6}
+            value={calculation.decimals ?? ''}
+            onChange={(e) => update({ decimals: e.target.value ? parseInt(e.target.value) : undefined })}
+            className="w-full px-3 py-2.5 text-sm bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200 placeholder-slate-400"
+            placeholder="2"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { Plus, X, GitBranch } from 'lucide-react';
+import type { FormField, FieldCondition, FieldConditionGroup, FieldConditionOperator } from '../../lib/forms/types';
+import { CONDITION_OPERATORS, operatorNeedsValue } from '../../lib/forms/field-logic-utils';
+
+interface FieldLogicEditorProps {
+  field: FormField;
+  sourceFields: FormField[];
+  onChange: (updates: Partial<FormField>) => void;
+}
+
+interface ConditionGroupEditorProps {
+  title: string;
+  description: string;
+  group?: FieldConditionGroup;
+  sourceFields: FormField[];
+  onChange: (group: FieldConditionGroup | undefined) => void;
+}
+
+function ConditionGroupEditor({ title, description, group, sourceFields, onChange }: ConditionGroupEditorProps) {
+  const conditions = group?.conditions || [];
+
+  const updateCondition = (index: number, updates: Partial<FieldCondition>) => {
+    const next = conditions.map((c, i) => i === index ? { ...c, ...updates } : c);
+    onChange({ match: group?.match || 'all', conditions: next });
+  };
+
+  const removeCondition = (index: number) => {
+    const next = conditions.filter((_, i) => i !== index);
+    onChange(next.length > 0 ? { match: group?.match || 'all', conditions: next } : undefined);
+  };
+
+  const addCondition = () => {
+    const source = sourceFields[0];
+    if (!source) return;
+    onChange({
+      match: group?.match || 'all',
+      conditions: [...conditions, { fieldId: source.id, operator: 'equals', value: source.options?.[0] || '' }]
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-xs font-medium text-slate-700">{title}</p>
+          <p className="text-xs text-slate-400">{description}</p>
+        </div>
+        {conditions.length > 1 && (
+          <select
+            value={group?.match || 'all'}
+            onChange={(e) => onChange({ match: e.target.value as 'all' | 'any', conditions })}
+            className="px-2 py-1.5 text-xs bg-white border-2 border-slate-200 rounded-lg focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324]"
+          >
+            <option value="all">Match all</option>
+            <option value="any">Match any</option>
+          </select>
+        )}
+      </div>
+
+      {conditions.map((condition, index) => {
+        const source = sourceFields.find(f => f.id === condition.fieldId);
+        const hasOptions = !!source?.options && source.options.length > 0;
+
+        return (
+          <div key={index} className="flex items-center gap-2">
+            <select
+              value={condition.fieldId}
+              onChange={(e) => updateCondition(index, { fieldId: e.target.value, value: '' })}
+              className="flex-1 min-w-0 px-3 py-2 text-sm bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200"
+            >
+              {!source && <option value={condition.fieldId}>Unknown field</option>}
+              {sourceFields.map(f => (
+                <option key={f.id} value={f.id}>
+                  {f.label || 'Untitled field'}
+                </option>
+              ))}
+            </select>
+            <select
+              value={condition.operator}
+              onChange={(e) => updateCondition(index, { operator: e.target.value as FieldConditionOperator })}
+              className="w-40 px-3 py-2 text-sm bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200"
+            >
+              {CONDITION_OPERATORS.map(op => (
+                <option key={op.value} value={op.value}>
+                  {op.label}
+                </option>
+              ))}
+            </select>
+            {operatorNeedsValue(condition.operator) && (
+              hasOptions ? (
+                <select
+                  value={condition.value || ''}
+                  onChange={(e) => updateCondition(index, { value: e.target.value })}
+                  className="flex-1 min-w-0 px-3 py-2 text-sm bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200"
+                >
+                  <option value="">Select a value</option>
+                  {source!.options!.map(option => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  value={condition.value || ''}
+                  onChange={(e) => updateCondition(index, { value: e.target.value })}
+                  className="flex-1 min-w-0 px-3 py-2 text-sm bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200 placeholder-slate-400"
+                  placeholder={source?.type === 'checkbox' && !hasOptions ? 'true or false' : 'Value'}
+                />
+              )
+            )}
+            <button
+              onClick={() => removeCondition(index)}
+              className="p-2 text-red-600 hover:bg-red-100 rounded-xl transition-all duration-200"
+              title="Remove condition"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+
+      <button
+        onClick={addCondition}
+        className="flex items-center gap-2 px-3 py-2 text-xs font-medium text-[#015324] bg-[#015324]/5 hover:bg-[#015324]/10 rounded-xl transition-all duration-200 border-2 border-dashed border-[#015324]/30"
+      >
+        <Plus className="w-3.5 h-3.5" />
+        Add Condition
+      </button>
+    </div>
+  );
+}
+
+export function FieldLogicEditor({ field, sourceFields, onChange }: FieldLogicEditorProps) {
+  if (sourceFields.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-slate-50/50 rounded-xl p-4 border border-slate-200 space-y-4">
+      <label className="flex items-center gap-2 text-xs font-semibold text-slate-600">
+        <GitBranch className="w-3.5 h-3.5" />
+        Conditional Logic (optional)
+      </label>
+      <ConditionGroupEditor
+        title="Show this field when"
+        description="Leave empty to always show. Hidden answers are not submitted."
+        group={field.showWhen}
+        sourceFields={sourceFields}
+        onChange={(showWhen) => onChange({ showWhen })}
+      />
+      {!field.required && field.type !== 'calculated' && field.type !== 'section' && (
+        <ConditionGroupEditor
+          title="Require this field when"
+          description="Makes the field mandatory only when these conditions match."
+          group={field.requiredWhen}
+          sourceFields={sourceFields}
+          onChange={(requiredWhen) => onChange({ requiredWhen })}
+        />
+      )}
+    </div>
+  );
+}
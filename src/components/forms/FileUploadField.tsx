@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { X, FileText, Loader } from 'lucide-react';
+import type { FormField, FormUploadValue } from '../../lib/forms/types';
+import { FormUploadService, getUploadSettings, isPendingUpload, isStoredUpload, toUploadList } from '../../lib/forms/form-upload-service';
+
+interface FileUploadFieldProps {
+  field: FormField;
+  value: unknown;
+  onChange: (value: FormUploadValue[]) => void;
+  onError: (message: string) => void;
+  inputClassName: string;
+}
+
+function previewSource(upload: FormUploadValue, signedUrls: Record<string, string>): string | undefined {
+  if (!upload.type.startsWith('image/')) return undefined;
+  if (isPendingUpload(upload)) return upload.thumbnail || upload.data;
+  return (upload.thumbnail_path && signedUrls[upload.thumbnail_path]) || signedUrls[upload.path];
+}
+
+export function FileUploadField({ field, value, onChange, onError, inputClassName }: FileUploadFieldProps) {
+  const [processing, setProcessing] = useState(false);
+  const [signedUrls, setSignedUrls] = useState<Record<string, string>>({});
+  const settings = getUploadSettings(field);
+  const uploads = toUploadList(value);
+  const canAddMore = uploads.length < settings.maxFiles;
+  const storedPathKey = uploads.filter(isStoredUpload).map(upload => upload.path).join('|');
+
+  useEffect(() => {
+    const stored = uploads.filter(isStoredUpload);
+    if (stored.length === 0) return;
+    FormUploadService.getSignedUrls(stored).then(setSignedUrls);
+  }, [storedPathKey]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    const selected = Array.from(files).slice(0, settings.maxFiles - uploads.length);
+    setProcessing(true);
+    try {
+      const prepared: FormUploadValue[] = [];
+      for (const file of selected) {
+        try {
+          prepared.push(await FormUploadService.prepareFile(file, field));
+        } catch (error) {
+          onError(error instanceof Error ? error.message : `Could not add ${file.name}`);
+        }
+      }
+      if (prepared.length > 0) {
+        onChange([...uploads, ...prepared]);
+      }
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {canAddMore && (
+        <input
+          type="file"
+          accept={settings.allowedTypes.join(',')}
+          multiple={settings.maxFiles > 1}
+          disabled={processing}
+          onChange={(e) => {
+            handleFiles(e.target.files);
+            e.target.value = '';
+          }}
+          required={field.required && uploads.length === 0}
+          className={inputClassName + " file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-semibold file:bg-[#015324] file:text-white hover:file:bg-[#014a20] file:cursor-pointer"}
+        />
+      )}
+      <p className="text-xs text-slate-500">
+        Up to {settings.maxFiles} file{settings.maxFiles !== 1 ? 's' : ''}, {settings.maxSizeMB} MB each
+      </p>
+
+      {processing && (
+        <div className="flex items-center gap-2 text-sm text-slate-500">
+          <Loader className="w-4 h-4 animate-spin" />
+          Preparing file...
+        </div>
+      )}
+
+      {uploads.length > 0 && (
+        <div className="grid grid-cols-3 gap-3">
+          {uploads.map((upload) => {
+            const preview = previewSource(upload, signedUrls);
+            return (
+              <div key={upload.id} className="relative border-2 border-slate-200 rounded-lg overflow-hidden bg-slate-50">
+                {preview ? (
+                  <img src={preview} alt={upload.filename} className="w-full h-28 object-cover" />
+                ) : (
+                  <div className="w-full h-28 flex items-center justify-center">
+                    <FileText className="w-10 h-10 text-slate-400" />
+                  </div>
+                )}
+                <div className="px-2 py-1 text-xs text-slate-500 truncate">
+                  {upload.filename} ({(upload.size / 1024).toFixed(0)} KB)
+                </div>
+                <button
+                  type="button"
+                  onClick={() => onChange(uploads.filter(u => u.id !== upload.id))}
+                  className="absolute top-1 right-1 p-1 bg-white/90 text-red-600 rounded-full hover:bg-red-100 transition-colors"
+                  title="Remove"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,18 @@
 import { useState, useEffect, useRef } from 'react';
 import { Plus, Trash2, GripVertical, Save, X, ChevronUp, ChevronDown, FileText, Shield } from 'lucide-react';
-import type { FormField, CreateFormData, InputMaskType } from '../../lib/forms/types';
+import type { FormField, CreateFormData, InputMaskType, GeofenceAction, ApprovalStage } from '../../lib/forms/types';
 import { FormService } from '../../lib/forms/form-service';
 import { INPUT_MASK_PRESETS } from '../../lib/forms/input-mask-utils';
+import { removeConditionsReferencing } from '../../lib/forms/field-logic-utils';
+import { getUploadSettings } from '../../lib/forms/form-upload-service';
+import { validateFormula } from '../../lib/forms/calculation-utils';
+import { DEFAULT_GEOFENCE_RADIUS_M } from '../../lib/forms/geofence-utils';
+import { validateApprovalStages } from '../../lib/forms/approval-utils';
+import { FieldLogicEditor } from './FieldLogicEditor';
+import { CalculationEditor } from './CalculationEditor';
+import { GroupFieldsEditor } from './GroupFieldsEditor';
+import { ApprovalStagesEditor } from './ApprovalStagesEditor';
+import { FormVersionHistory } from './FormVersionHistory';
 import { supabase } from '../../lib/supabase/client';
 import { useToast } from '../../contexts/ToastContext';
 
@@ -23,6 +33,11 @@ export function FormBuilder({ orgId, formId, onClose, onSave }: FormBuilderProps
   const [cyclesPerMonth, setCyclesPerMonth] = useState<1 | 2 | 3 | 4>(1);
   const [enableFreeze, setEnableFreeze] = useState(false);
   const [freezeDuration, setFreezeDuration] = useState('1 day');
+  const [requireLocation, setRequireLocation] = useState(false);
+  const [enableGeofence, setEnableGeofence] = useState(false);
+  const [geofenceRadius, setGeofenceRadius] = useState(DEFAULT_GEOFENCE_RADIUS_M);
+  const [geofenceAction, setGeofenceAction] = useState<GeofenceAction>('flag');
+  const [approvalStages, setApprovalStages] = useState<ApprovalStage[]>([]);
   const [saving, setSaving] = useState(false);
   const [loading, setLoading] = useState(false);
   const [departments, setDepartments] = useState<{ id: string; name: string }[]>([]);
@@ -60,6 +75,11 @@ export function FormBuilder({ orgId, formId, onClose, onSave }: FormBuilderProps
         setCyclesPerMonth(form.cycles_per_month);
         setEnableFreeze(form.enable_freeze);
         setFreezeDuration(form.cycle_freeze_duration || '1 day');
+        setRequireLocation(form.require_location);
+        setEnableGeofence(!!form.geofence_radius_m);
+        setGeofenceRadius(form.geofence_radius_m || DEFAULT_GEOFENCE_RADIUS_M);
+        setGeofenceAction(form.geofence_action || 'flag');
+        setApprovalStages(form.approval_stages || []);
       }
     } catch (error) {
       console.error('Error loading form data:', error);
@@ -81,6 +101,10 @@ export function FormBuilder({ orgId, formId, onClose, onSave }: FormBuilderProps
     { value: 'checkbox', label: 'Checkbox' },
     { value: 'radio', label: 'Radio' },
     { value: 'image', label: 'Image' },
+    { value: 'file', label: 'File Upload' },
+    { value: 'calculated', label: 'Calculated' },
+    { value: 'section', label: 'Section / Page Break' },
+    { value: 'group', label: 'Repeatable Group' },
   ];
 
   const addField = () => {
@@ -95,13 +119,50 @@ export function FormBuilder({ orgId, formId, onClose, onSave }: FormBuilderProps
   };
 
   const removeField = (id: string) => {
-    setFields(fields.filter(f => f.id !== id));
+    setFields(fields
+      .filter(f => f.id !== id)
+      .map(f => removeConditionsReferencing(f, id)));
   };
 
   const updateField = (id: string, updates: Partial<FormField>) => {
     setFields(fields.map(f => f.id === id ? { ...f, ...updates } : f));
   };
 
+  const renameOption = (field: FormField, optIndex: number, value: string) => {
+    const previous = (field.options || [])[optIndex];
+    const newOptions = [...(field.options || [])];
+    newOptions[optIndex] = value;
+
+    let optionScores = field.optionScores;
+    if (optionScores && previous in optionScores) {
+      optionScores = Object.fromEntries(
+        Object.entries(optionScores).map(([option, weight]) => [option === previous ? value : option, weight])
+      );
+    }
+    updateField(field.id, { options: newOptions, optionScores });
+  };
+
+  const removeOption = (field: FormField, optIndex: number) => {
+    const removed = (field.options || [])[optIndex];
+    const newOptions = (field.options || []).filter((_, i) => i !== optIndex);
+
+    let optionScores = field.optionScores;
+    if (optionScores && removed in optionScores && !newOptions.includes(removed)) {
+      optionScores = Object.fromEntries(Object.entries(optionScores).filter(([option]) => option !== removed));
+    }
+    updateField(field.id, { options: newOptions, optionScores });
+  };
+
+  const setOptionScore = (field: FormField, option: string, value: string) => {
+    const optionScores = { ...(field.optionScores || {}) };
+    if (value === '' || isNaN(parseFloat(value))) {
+      delete optionScores[option];
+    } else {
+      optionScores[option] = parseFloat(value);
+    }
+    updateField(field.id, { optionScores: Object.keys(optionScores).length > 0 ? optionScores : undefined });
+  };
+
   const moveFieldUp = (index: number) => {
     if (index === 0) return;
     const newFields = [...fields];
@@ -133,6 +194,32 @@ export function FormBuilder({ orgId, formId, onClose, onSave }: FormBuilderProps
       return;
     }
 
+    const emptyGroup = fields.find(f => f.type === 'group' && !f.fields?.some(sub => sub.label.trim()));
+    if (emptyGroup) {
+      showWarning('Empty Group', `${emptyGroup.label || 'Repeatable group'} needs at least one field`);
+      return;
+    }
+
+    if (attachToCustomer && enableGeofence && !(geofenceRadius > 0)) {
+      showWarning('Invalid Geofence', 'Please enter a geofence radius greater than 0 metres');
+      return;
+    }
+
+    const approvalError = validateApprovalStages(approvalStages);
+    if (approvalError) {
+      showWarning('Incomplete Approval Workflow', approvalError);
+      return;
+    }
+
+    for (const [index, field] of fields.entries()) {
+      if (field.type !== 'calculated') continue;
+      const formulaError = validateFormula(field.calculation?.formula || '', fields.slice(0, index));
+      if (formulaError) {
+        showWarning('Invalid Calculation', `${field.label || 'Calculated field'}: ${formulaError}`);
+        return;
+      }
+    }
+
     setSaving(true);
     try {
       const formData: CreateFormData = {
@@ -143,7 +230,11 @@ export function FormBuilder({ orgId, formId, onClose, onSave }: FormBuilderProps
         attach_to_customer: attachToCustomer,
         cycles_per_month: cyclesPerMonth,
         enable_freeze: enableFreeze,
-        cycle_freeze_duration: enableFreeze ? freezeDuration : undefined
+        cycle_freeze_duration: enableFreeze ? freezeDuration : undefined,
+        require_location: attachToCustomer && requireLocation,
+        geofence_radius_m: attachToCustomer && enableGeofence ? geofenceRadius : null,
+        geofence_action: geofenceAction,
+        approval_stages: approvalStages
       };
 
       if (formId) {
@@ -295,6 +386,71 @@ export function FormBuilder({ orgId, formId, onClose, onSave }: FormBuilderProps
                   </div>
                 </div>
 
+                {attachToCustomer && (
+                  <div className="bg-gradient-to-br from-slate-50 to-slate-100/50 rounded-xl p-5 border-2 border-slate-200 space-y-4">
+                    <label className="flex items-center gap-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={requireLocation}
+                        onChange={(e) => setRequireLocation(e.target.checked)}
+                        className="w-5 h-5 text-[#015324] border-slate-300 rounded focus:ring-2 focus:ring-[#015324]"
+                      />
+                      <span className="text-sm font-semibold text-slate-700">
+                        Require GPS Location on Submission
+                      </span>
+                    </label>
+
+                    <label className="flex items-center gap-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={enableGeofence}
+                        onChange={(e) => setEnableGeofence(e.target.checked)}
+                        className="w-5 h-5 text-[#015324] border-slate-300 rounded focus:ring-2 focus:ring-[#015324]"
+                      />
+                      <span className="text-sm font-semibold text-slate-700">
+                        Check Distance to Customer Location
+                      </span>
+                    </label>
+
+                    {enableGeofence && (
+                      <div className="pl-8 grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-sm font-semibold text-slate-700 mb-2">
+                            Allowed Radius (metres)
+                          </label>
+                          <input
+                            type="number"
+                            min={1}
+                            value={geofenceRadius || ''}
+                            onChange={(e) => setGeofenceRadius(e.target.value ? parseInt(e.target.value) : 0)}
+                            className="w-full px-4 py-3 bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200 text-slate-800 placeholder-slate-400"
+                            placeholder={String(DEFAULT_GEOFENCE_RADIUS_M)}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-semibold text-slate-700 mb-2">
+                            Outside the Radius
+                          </label>
+                          <select
+                            value={geofenceAction}
+                            onChange={(e) => setGeofenceAction(e.target.value as GeofenceAction)}
+                            className="w-full px-4 py-3 bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200 text-slate-800"
+                          >
+                            <option value="flag">Accept and flag for review</option>
+                            <option value="block">Block the submission</option>
+                          </select>
+                        </div>
+                        <p className="col-span-2 text-xs text-slate-500 flex items-center gap-1.5">
+                          <span className="w-1 h-1 rounded-full bg-slate-400"></span>
+                          Customers without coordinates are never blocked; their submissions show "Outlet not mapped".
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <ApprovalStagesEditor stages={approvalStages} onChange={setApprovalStages} />
+
                 <div className="bg-gradient-to-br from-slate-50 to-slate-100/50 rounded-xl p-5 border-2 border-slate-200">
                   <label className="flex items-center gap-3 cursor-pointer">
                     <input
@@ -384,7 +540,10 @@ export function FormBuilder({ orgId, formId, onClose, onSave }: FormBuilderProps
                             </label>
                             <select
                               value={field.type}
-                              onChange={(e) => updateField(field.id, { type: e.target.value as any })}
+                              onChange={(e) => updateField(field.id, {
+                                type: e.target.value as any,
+                                ...(e.target.value === 'calculated' || e.target.value === 'section' ? { required: false, requiredWhen: undefined } : {})
+                              })}
                               className="w-full px-3 py-2.5 text-sm bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200"
                             >
                               {fieldTypes.map(type => (
@@ -409,18 +568,33 @@ export function FormBuilder({ orgId, formId, onClose, onSave }: FormBuilderProps
                           </div>
                         </div>
 
-                        <div>
-                          <label className="block text-xs font-semibold text-slate-600 mb-2">
-                            Placeholder (optional)
-                          </label>
-                          <input
-                            type="text"
-                            value={field.placeholder || ''}
-                            onChange={(e) => updateField(field.id, { placeholder: e.target.value })}
-                            className="w-full px-3 py-2.5 text-sm bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200 placeholder-slate-400"
-                            placeholder="Hint text for the field"
-                          />
-                        </div>
+                        {field.type === 'section' ? (
+                          <div>
+                            <label className="block text-xs font-semibold text-slate-600 mb-2">
+                              Description (optional)
+                            </label>
+                            <textarea
+                              value={field.description || ''}
+                              onChange={(e) => updateField(field.id, { description: e.target.value || undefined })}
+                              rows={2}
+                              className="w-full px-3 py-2.5 text-sm bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200 placeholder-slate-400"
+                              placeholder="Shown under the step title. Fields below this start a new page."
+                            />
+                          </div>
+                        ) : field.type !== 'group' && (
+                          <div>
+                            <label className="block text-xs font-semibold text-slate-600 mb-2">
+                              Placeholder (optional)
+                            </label>
+                            <input
+                              type="text"
+                              value={field.placeholder || ''}
+                              onChange={(e) => updateField(field.id, { placeholder: e.target.value })}
+                              className="w-full px-3 py-2.5 text-sm bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200 placeholder-slate-400"
+                              placeholder="Hint text for the field"
+                            />
+                          </div>
+                        )}
 
                         {['text', 'phone', 'number', 'textarea', 'email'].includes(field.type) && (
                           <div className="bg-slate-50/50 rounded-xl p-4 border border-slate-200">
@@ -529,19 +703,21 @@ export function FormBuilder({ orgId, formId, onClose, onSave }: FormBuilderProps
                                   <input
                                     type="text"
                                     value={option}
-                                    onChange={(e) => {
-                                      const newOptions = [...(field.options || [])];
-                                      newOptions[optIndex] = e.target.value;
-                                      updateField(field.id, { options: newOptions });
-                                    }}
+                                    onChange={(e) => renameOption(field, optIndex, e.target.value)}
                                     className="flex-1 px-3 py-2.5 text-sm bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200 placeholder-slate-400"
                                     placeholder={`Option ${optIndex + 1}`}
                                   />
+                                  <input
+                                    type="number"
+                                    step="any"
+                                    value={field.optionScores?.[option] ?? ''}
+                                    onChange={(e) => setOptionScore(field, option, e.target.value)}
+                                    className="w-20 px-3 py-2.5 text-sm bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200 placeholder-slate-400"
+                                    placeholder="Weight"
+                                    title="Score used by calculated fields. Leave blank to exclude this answer from percentages."
+                                  />
                                   <button
-                                    onClick={() => {
-                                      const newOptions = (field.options || []).filter((_, i) => i !== optIndex);
-                                      updateField(field.id, { options: newOptions });
-                                    }}
+                                    onClick={() => removeOption(field, optIndex)}
                                     className="p-2 text-red-600 hover:bg-red-100 rounded-xl transition-all duration-200"
                                   >
                                     <X className="w-4 h-4" />
@@ -581,15 +757,119 @@ export function FormBuilder({ orgId, formId, onClose, onSave }: FormBuilderProps
                           </div>
                         )}
 
-                        <label className="flex items-center gap-3 cursor-pointer px-4 py-3 bg-slate-50/50 rounded-xl border border-slate-200 hover:border-[#015324]/30 transition-all duration-200">
-                          <input
-                            type="checkbox"
-                            checked={field.required}
-                            onChange={(e) => updateField(field.id, { required: e.target.checked })}
-                            className="w-5 h-5 text-[#015324] border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324]"
+                        {(field.type === 'image' || field.type === 'file') && (
+                          <div className="bg-slate-50/50 rounded-xl p-4 border border-slate-200">
+                            <label className="block text-xs font-semibold text-slate-600 mb-3">
+                              Upload Limits
+                            </label>
+                            <div className="grid grid-cols-3 gap-3">
+                              <div>
+                                <label className="block text-xs font-medium text-slate-600 mb-1.5">
+                                  Max Size (MB)
+                                </label>
+                                <input
+                                  type="number"
+                                  min={1}
+                                  max={20}
+                                  value={field.upload?.maxSizeMB || ''}
+                                  onChange={(e) => updateField(field.id, {
+                                    upload: { ...field.upload, maxSizeMB: e.target.value ? parseInt(e.target.value) : undefined }
+                                  })}
+                                  className="w-full px-3 py-2.5 text-sm bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200 placeholder-slate-400"
+                                  placeholder={String(getUploadSettings(field).maxSizeMB)}
+                                />
+                              </div>
+                              <div>
+                                <label className="block text-xs font-medium text-slate-600 mb-1.5">
+                                  Max Files
+                                </label>
+                                <input
+                                  type="number"
+                                  min={1}
+                                  max={10}
+                                  value={field.upload?.maxFiles || ''}
+                                  onChange={(e) => updateField(field.id, {
+                                    upload: { ...field.upload, maxFiles: e.target.value ? parseInt(e.target.value) : undefined }
+                                  })}
+                                  className="w-full px-3 py-2.5 text-sm bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200 placeholder-slate-400"
+                                  placeholder={String(getUploadSettings(field).maxFiles)}
+                                />
+                              </div>
+                              {field.type === 'image' && (
+                                <div>
+                                  <label className="block text-xs font-medium text-slate-600 mb-1.5">
+                                    Resize To (px)
+                                  </label>
+                                  <input
+                                    type="number"
+                                    min={320}
+                                    max={4096}
+                                    value={field.upload?.maxDimension || ''}
+                                    onChange={(e) => updateField(field.id, {
+                                      upload: { ...field.upload, maxDimension: e.target.value ? parseInt(e.target.value) : undefined }
+                                    })}
+                                    className="w-full px-3 py-2.5 text-sm bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200 placeholder-slate-400"
+                                    placeholder={String(getUploadSettings(field).maxDimension)}
+                                  />
+                                </div>
+                              )}
+                            </div>
+                            {field.type === 'file' && (
+                              <div className="mt-3">
+                                <label className="block text-xs font-medium text-slate-600 mb-1.5">
+                                  Allowed Types (optional)
+                                </label>
+                                <input
+                                  type="text"
+                                  defaultValue={(field.upload?.allowedTypes || []).join(', ')}
+                                  onBlur={(e) => updateField(field.id, {
+                                    upload: {
+                                      ...field.upload,
+                                      allowedTypes: e.target.value.split(',').map(t => t.trim()).filter(Boolean)
+                                    }
+                                  })}
+                                  className="w-full px-3 py-2.5 text-sm bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200 placeholder-slate-400 font-mono"
+                                  placeholder={getUploadSettings(field).allowedTypes.join(', ')}
+                                />
+                                <p className="text-xs text-slate-400 mt-1">Comma-separated MIME types, e.g. application/pdf, image/*</p>
+                              </div>
+                            )}
+                          </div>
+                        )}
+
+                        {field.type === 'calculated' && (
+                          <CalculationEditor
+                            field={field}
+                            sourceFields={fields.slice(0, index)}
+                            onChange={(updates) => updateField(field.id, updates)}
                           />
-                          <span className="text-sm font-medium text-slate-700">Required field</span>
-                        </label>
+                        )}
+
+                        {field.type === 'group' && (
+                          <GroupFieldsEditor
+                            field={field}
+                            fieldTypes={fieldTypes}
+                            onChange={(updates) => updateField(field.id, updates)}
+                          />
+                        )}
+
+                        <FieldLogicEditor
+                          field={field}
+                          sourceFields={fields.slice(0, index).filter(f => !['image', 'file', 'calculated', 'section', 'group'].includes(f.type))}
+                          onChange={(updates) => updateField(field.id, updates)}
+                        />
+
+                        {field.type !== 'calculated' && field.type !== 'section' && (
+                          <label className="flex items-center gap-3 cursor-pointer px-4 py-3 bg-slate-50/50 rounded-xl border border-slate-200 hover:border-[#015324]/30 transition-all duration-200">
+                            <input
+                              type="checkbox"
+                              checked={field.required}
+                              onChange={(e) => updateField(field.id, { required: e.target.checked })}
+                              className="w-5 h-5 text-[#015324] border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324]"
+                            />
+                            <span className="text-sm font-medium text-slate-700">Required field</span>
+                          </label>
+                        )}
                       </div>
 
                       <button
@@ -614,6 +894,8 @@ export function FormBuilder({ orgId, formId, onClose, onSave }: FormBuilderProps
                 )}
               </div>
             </div>
+
+            {formId && <FormVersionHistory formId={formId} />}
           </div>
         </div>
 
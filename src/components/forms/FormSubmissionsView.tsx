@@ -1,7 +1,22 @@
 import { useState, useEffect } from 'react';
-import { FileText, Eye, Check, X, Clock, User, Search, MapPin, Shield, AlertCircle, ChevronRight } from 'lucide-react';
-import type { FormSubmission, Form } from '../../lib/forms/types';
+import { FileText, Eye, Check, X, Clock, User, Search, MapPin, Shield, AlertCircle, ChevronRight, AlertTriangle, CornerUpLeft, History } from 'lucide-react';
+import type { FormSubmission, Form, FormVersion, FormSubmissionReview } from '../../lib/forms/types';
 import { FormService } from '../../lib/forms/form-service';
+import { FormUploadService, collectStoredUploads } from '../../lib/forms/form-upload-service';
+import { getVisibleFields } from '../../lib/forms/field-logic-utils';
+import { getSubmissionSchema } from '../../lib/forms/form-version-utils';
+import { formatCalculatedValue } from '../../lib/forms/calculation-utils';
+import { getGroupEntries, getGroupSubFields } from '../../lib/forms/form-layout-utils';
+import { GEOFENCE_STATUS_LABELS, formatDistance, isGeofenceFlagged } from '../../lib/forms/geofence-utils';
+import {
+  REVIEW_ACTION_LABELS,
+  canReviewSubmission,
+  describeApprover,
+  getApprovalStages,
+  getCurrentStage,
+  type ReviewerRole
+} from '../../lib/forms/approval-utils';
+import { RoleService } from '../../lib/roles/role-service';
 import { formatDistanceToNow } from '../../lib/utils/date-utils';
 import { supabase } from '../../lib/supabase/client';
 import { useToast } from '../../contexts/ToastContext';
@@ -20,6 +35,10 @@ interface FormSubmissionsViewProps {
   sortOrder: 'asc' | 'desc';
   searchTrigger: number;
   includeRejected?: boolean;
+  onSortChange?: (sortBy: string, sortOrder: 'asc' | 'desc') => void;
+  userId?: string;
+  mode?: 'all' | 'inbox';
+  onReviewComplete?: () => void;
 }
 
 function formatTimestamp(ts: string): string {
@@ -40,7 +59,11 @@ export function FormSubmissionsView({
   sortBy,
   sortOrder,
   searchTrigger,
-  includeRejected = false
+  includeRejected = false,
+  onSortChange,
+  userId,
+  mode = 'all',
+  onReviewComplete
 }: FormSubmissionsViewProps) {
   const { showError, showWarning, showSuccess } = useToast();
   const [submissions, setSubmissions] = useState<FormSubmission[]>([]);
@@ -49,21 +72,33 @@ export function FormSubmissionsView({
   const [selectedSubmission, setSelectedSubmission] = useState<FormSubmission | null>(null);
   const [showReviewModal, setShowReviewModal] = useState(false);
   const [reviewNotes, setReviewNotes] = useState('');
-  const [reviewAction, setReviewAction] = useState<'approved' | 'rejected'>('approved');
+  const [reviewAction, setReviewAction] = useState<'approved' | 'rejected' | 'returned'>('approved');
   const [rejectionReason, setRejectionReason] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
   const [submitting, setSubmitting] = useState(false);
   const [reviewerInfo, setReviewerInfo] = useState<Map<string, any>>(new Map());
+  const [formVersions, setFormVersions] = useState<Map<string, FormVersion>>(new Map());
+  const [reviewerRole, setReviewerRole] = useState<ReviewerRole | null>(null);
+  const [roleLabels, setRoleLabels] = useState<Record<string, string>>({});
+  const [reviewHistory, setReviewHistory] = useState<FormSubmissionReview[]>([]);
+  const [uploadUrls, setUploadUrls] = useState<Record<string, string>>({});
 
   useEffect(() => {
     loadForms();
+    loadRoles();
   }, [orgId]);
 
   useEffect(() => {
-    if (searchTrigger > 0) {
+    if (userId) {
+      FormService.getReviewerRole(userId).then(setReviewerRole);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (mode === 'inbox' || searchTrigger > 0) {
       loadSubmissions();
     }
-  }, [searchTrigger, filters.start_date, filters.end_date, filters.form_id, filters.status, filters.region_id, filters.branch_id, includeRejected]);
+  }, [mode, searchTrigger, filters.start_date, filters.end_date, filters.form_id, filters.status, filters.region_id, filters.branch_id, includeRejected]);
 
   const loadForms = async () => {
     try {
@@ -74,13 +109,24 @@ export function FormSubmissionsView({
     }
   };
 
+  const loadRoles = async () => {
+    try {
+      const roles = await RoleService.getAllRoles();
+      setRoleLabels(Object.fromEntries(roles.map(r => [r.name, r.display_name])));
+    } catch (error) {
+      console.error('Error loading roles:', error);
+    }
+  };
+
   const loadSubmissions = async () => {
     setLoading(true);
     try {
-      const data = await FormService.getSubmissions({
-        ...filters,
-        excludeRejected: !includeRejected
-      });
+      const data = mode === 'inbox' && userId
+        ? (await FormService.getReviewInbox(userId, orgId)).filter(s => !filters.form_id || s.form_id === filters.form_id)
+        : await FormService.getSubmissions({
+          ...filters,
+          excludeRejected: !includeRejected
+        });
       setSubmissions(data);
 
       const reviewerIds = [
@@ -92,6 +138,10 @@ export function FormSubmissionsView({
       if (reviewerIds.length > 0) {
         await loadReviewers(reviewerIds);
       }
+
+      const versionIds = [...new Set(data.map(s => s.form_version_id).filter(Boolean) as string[])];
+      const versions = await FormService.getFormVersionsByIds(versionIds);
+      setFormVersions(new Map(versions.map(v => [v.id, v])));
     } catch (error) {
       console.error('Error loading submissions:', error);
     } finally {
@@ -123,7 +173,11 @@ export function FormSubmissionsView({
     setReviewNotes('');
     setRejectionReason('');
     setReviewAction('approved');
+    setReviewHistory([]);
+    setUploadUrls({});
     setShowReviewModal(true);
+    FormService.getSubmissionReviews(submission.id).then(setReviewHistory);
+    FormUploadService.getSignedUrls(collectStoredUploads(submission.submission_data)).then(setUploadUrls);
   };
 
   const handleReview = async () => {
@@ -134,30 +188,46 @@ export function FormSubmissionsView({
       return;
     }
 
+    if (reviewAction === 'returned' && !rejectionReason.trim()) {
+      showWarning('Correction Details Required', 'Please describe what the agent needs to correct');
+      return;
+    }
+
     setSubmitting(true);
     try {
-      let result;
       if (reviewAction === 'approved') {
-        result = await FormService.approveSubmission(selectedSubmission.id, reviewNotes);
+        const result = await FormService.approveSubmission(selectedSubmission.id, reviewNotes);
+        if (!result.success) {
+          showError('Review Failed', result.error || 'Failed to review submission');
+          return;
+        }
+        if (result.completed === false) {
+          showSuccess('Stage Approved', `The submission has moved on to ${result.next_stage_name || 'the next stage'}`);
+        } else {
+          showSuccess('Submission Approved', 'The submission has been successfully approved');
+        }
       } else {
-        result = await FormService.rejectSubmission(selectedSubmission.id, rejectionReason);
-      }
-
-      if (!result.success) {
-        showError('Review Failed', result.error || 'Failed to review submission');
-        setSubmitting(false);
-        return;
+        const result = reviewAction === 'returned'
+          ? await FormService.returnSubmission(selectedSubmission.id, rejectionReason)
+          : await FormService.rejectSubmission(selectedSubmission.id, rejectionReason);
+        if (!result.success) {
+          showError('Review Failed', result.error || 'Failed to review submission');
+          return;
+        }
+        showSuccess(
+          reviewAction === 'returned' ? 'Returned for Correction' : 'Submission Rejected',
+          reviewAction === 'returned'
+            ? 'The submission has been sent back to the agent'
+            : 'The submission has been successfully rejected'
+        );
       }
 
       setShowReviewModal(false);
       setSelectedSubmission(null);
       setRejectionReason('');
       setReviewNotes('');
-      showSuccess(
-        reviewAction === 'approved' ? 'Submission Approved' : 'Submission Rejected',
-        `The submission has been successfully ${reviewAction === 'approved' ? 'approved' : 'rejected'}`
-      );
       loadSubmissions();
+      onReviewComplete?.();
     } catch (error) {
       console.error('Error reviewing submission:', error);
       showError('Review Failed', 'Failed to review submission. Please try again.');
@@ -220,6 +290,14 @@ export function FormSubmissionsView({
           icon: <X className="w-4 h-4" />,
           label: 'Rejected'
         };
+      case 'returned':
+        return {
+          bg: 'bg-orange-50',
+          text: 'text-orange-700',
+          border: 'border-orange-300',
+          icon: <CornerUpLeft className="w-4 h-4" />,
+          label: 'Returned for Correction'
+        };
       default:
         return {
           bg: 'bg-slate-50',
@@ -232,6 +310,22 @@ export function FormSubmissionsView({
   };
 
   const selectedForm = forms.find(f => f.id === selectedSubmission?.form_id);
+  const canAct = !!selectedSubmission && selectedSubmission.status === 'pending' &&
+    (!userId || canReviewSubmission(selectedForm, selectedSubmission, userId, reviewerRole));
+  const filteredForm = forms.find(f => f.id === filters.form_id);
+  const calculatedFields = (filteredForm?.form_schema || [])
+    .filter(f => f.type === 'calculated')
+    .sort((a, b) => a.order - b.order);
+  const sortField = sortBy.startsWith('field:')
+    ? calculatedFields.find(f => f.id === sortBy.slice(6))
+    : undefined;
+
+  const showLocationColumn = submissions.some(s => s.geofence_status);
+
+  const handleColumnSort = (column: string) => {
+    if (!onSortChange) return;
+    onSortChange(column, sortBy === column && sortOrder === 'desc' ? 'asc' : 'desc');
+  };
 
   const filteredSubmissions = submissions
     .filter(submission => {
@@ -249,6 +343,16 @@ export function FormSubmissionsView({
       );
     })
     .sort((a, b) => {
+      if (sortBy.startsWith('field:')) {
+        const fieldId = sortBy.slice(6);
+        const aScore = parseFloat(a.submission_data?.[fieldId]);
+        const bScore = parseFloat(b.submission_data?.[fieldId]);
+        if (isNaN(aScore) || isNaN(bScore)) {
+          return Number(isNaN(aScore)) - Number(isNaN(bScore));
+        }
+        return sortOrder === 'asc' ? aScore - bScore : bScore - aScore;
+      }
+
       let aValue: any = a[sortBy as keyof FormSubmission];
       let bValue: any = b[sortBy as keyof FormSubmission];
 
@@ -289,7 +393,9 @@ export function FormSubmissionsView({
                   Sorted by: <span className="font-semibold text-[#015324]">
                     {sortBy === 'submitted_at' ? 'Submission Date' :
                      sortBy === 'cycle_number' ? 'Cycle Number' :
-                     sortBy === 'status' ? 'Status' : sortBy}
+                     sortBy === 'status' ? 'Status' :
+                     sortField ? sortField.label :
+                     sortBy.startsWith('field:') ? 'Calculated Field' : sortBy}
                   </span>
                   <span className="ml-2 text-slate-500">({sortOrder === 'asc' ? '↑' : '↓'})</span>
                 </span>
@@ -311,7 +417,12 @@ export function FormSubmissionsView({
           <div className="inline-flex p-6 bg-gradient-to-br from-slate-100 to-slate-200 rounded-2xl mb-6">
             <FileText className="w-16 h-16 text-slate-400" />
           </div>
-          {searchTrigger === 0 ? (
+          {mode === 'inbox' ? (
+            <>
+              <h3 className="text-2xl font-bold text-slate-800 mb-2">Inbox zero</h3>
+              <p className="text-slate-600 text-lg">No submissions are waiting for your review</p>
+            </>
+          ) : searchTrigger === 0 ? (
             <>
               <h3 className="text-2xl font-bold text-slate-800 mb-2">Ready to Search</h3>
               <p className="text-slate-600 text-lg">Select a date range and click the Search button to view form submissions</p>
@@ -337,6 +448,21 @@ export function FormSubmissionsView({
                   <th className="px-3 py-2.5 text-left text-[11px] font-semibold text-slate-600 uppercase tracking-wider">Submitted By</th>
                   <th className="px-3 py-2.5 text-center text-[11px] font-semibold text-slate-600 uppercase tracking-wider">Cycle</th>
                   <th className="px-3 py-2.5 text-left text-[11px] font-semibold text-slate-600 uppercase tracking-wider">Status</th>
+                  {showLocationColumn && (
+                    <th className="px-3 py-2.5 text-left text-[11px] font-semibold text-slate-600 uppercase tracking-wider">Location</th>
+                  )}
+                  {calculatedFields.map(field => (
+                    <th
+                      key={field.id}
+                      onClick={() => handleColumnSort(`field:${field.id}`)}
+                      className={`px-3 py-2.5 text-right text-[11px] font-semibold uppercase tracking-wider whitespace-nowrap ${
+                        onSortChange ? 'cursor-pointer hover:text-[#015324]' : ''
+                      } ${sortBy === `field:${field.id}` ? 'text-[#015324]' : 'text-slate-600'}`}
+                    >
+                      {field.label}
+                      {sortBy === `field:${field.id}` && (sortOrder === 'asc' ? ' ↑' : ' ↓')}
+                    </th>
+                  ))}
                   <th className="px-3 py-2.5 text-left text-[11px] font-semibold text-slate-600 uppercase tracking-wider">Submitted</th>
                   <th className="px-3 py-2.5 text-center text-[11px] font-semibold text-slate-600 uppercase tracking-wider"></th>
                 </tr>
@@ -391,7 +517,39 @@ export function FormSubmissionsView({
                         <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-[11px] font-semibold ${statusConfig.bg} ${statusConfig.text}`}>
                           {statusConfig.label}
                         </span>
+                        {submission.status === 'pending' && getApprovalStages(form).length > 1 && (
+                          <span className="block text-[10px] text-slate-500 mt-0.5 whitespace-nowrap">
+                            Stage {submission.current_stage + 1}/{getApprovalStages(form).length}
+                            {getCurrentStage(form, submission) && ` · ${getCurrentStage(form, submission)!.name}`}
+                          </span>
+                        )}
                       </td>
+                      {showLocationColumn && (
+                        <td className="px-3 py-2">
+                          {submission.geofence_status ? (
+                            <span
+                              className={`inline-flex items-center gap-1 text-[11px] font-semibold whitespace-nowrap ${
+                                isGeofenceFlagged(submission) ? 'text-amber-700' : 'text-slate-600'
+                              }`}
+                              title={GEOFENCE_STATUS_LABELS[submission.geofence_status]}
+                            >
+                              {isGeofenceFlagged(submission) ? <AlertTriangle className="w-3 h-3" /> : <MapPin className="w-3 h-3" />}
+                              {submission.distance_from_customer_m != null
+                                ? formatDistance(submission.distance_from_customer_m)
+                                : GEOFENCE_STATUS_LABELS[submission.geofence_status]}
+                            </span>
+                          ) : (
+                            <span className="text-xs text-slate-400">-</span>
+                          )}
+                        </td>
+                      )}
+                      {calculatedFields.map(field => (
+                        <td key={field.id} className="px-3 py-2 text-right">
+                          <span className="text-xs font-semibold text-slate-800 whitespace-nowrap">
+                            {formatCalculatedValue(field, submission.submission_data?.[field.id])}
+                          </span>
+                        </td>
+                      ))}
                       <td className="px-3 py-2">
                         <span className="text-xs text-slate-500 whitespace-nowrap">
                           {new Date(submission.submitted_at).toLocaleDateString()} {new Date(submission.submitted_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
@@ -422,7 +580,14 @@ export function FormSubmissionsView({
                 <FileText className="w-6 h-6 text-white" />
                 <div>
                   <h3 className="text-xl font-bold text-white">Form Submission Review</h3>
-                  <p className="text-green-100 text-sm">{selectedForm.title}</p>
+                  <p className="text-green-100 text-sm">
+                    {selectedForm.title}
+                    {selectedSubmission.form_version_id && formVersions.has(selectedSubmission.form_version_id) && (
+                      <span className="ml-2 px-1.5 py-0.5 bg-white/20 rounded text-xs font-semibold">
+                        v{formVersions.get(selectedSubmission.form_version_id)!.version_number}
+                      </span>
+                    )}
+                  </p>
                 </div>
               </div>
               <button
@@ -528,7 +693,7 @@ export function FormSubmissionsView({
                   )}
                 </div>
 
-                {(selectedSubmission.form_started_at || selectedSubmission.form_end_time || (selectedSubmission.latitude && selectedSubmission.longitude)) && (
+                {(selectedSubmission.form_started_at || selectedSubmission.form_end_time || (selectedSubmission.latitude && selectedSubmission.longitude) || selectedSubmission.geofence_status) && (
                   <div className="grid grid-cols-4 divide-x divide-slate-200 border-t border-slate-200">
                     {selectedSubmission.form_started_at && (
                       <div className="px-3 py-2.5">
@@ -556,24 +721,122 @@ export function FormSubmissionsView({
                         </p>
                       </div>
                     )}
+                    {selectedSubmission.geofence_status && (
+                      <div className="px-3 py-2.5">
+                        <p className={`text-[10px] font-medium uppercase tracking-wider flex items-center gap-1 ${
+                          isGeofenceFlagged(selectedSubmission) ? 'text-amber-600' : 'text-cyan-600'
+                        }`}>
+                          <MapPin className="w-3 h-3" />Distance to Customer
+                        </p>
+                        <p className="text-xs font-semibold text-slate-900 mt-0.5">
+                          {formatDistance(selectedSubmission.distance_from_customer_m)}
+                          <span className="font-normal text-slate-500"> · {GEOFENCE_STATUS_LABELS[selectedSubmission.geofence_status]}</span>
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {isGeofenceFlagged(selectedSubmission) && (
+                  <div className="flex items-start gap-2 px-3 py-2.5 bg-amber-50 border-t border-amber-200 text-amber-800">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    <p className="text-xs">
+                      {selectedSubmission.geofence_status === 'outside'
+                        ? `Submitted ${formatDistance(selectedSubmission.distance_from_customer_m)} from the customer's location, outside ${selectedForm?.geofence_radius_m ? `the ${selectedForm.geofence_radius_m} m` : 'the allowed'} radius.`
+                        : 'Submitted without a GPS location although this form requires one.'}
+                      {' '}Confirm the visit before approving.
+                    </p>
                   </div>
                 )}
               </div>
 
+              {(getApprovalStages(selectedForm).length > 0 || reviewHistory.length > 0) && (
+                <div className="bg-slate-50 rounded-xl border border-slate-200 p-4 space-y-4">
+                  {getApprovalStages(selectedForm).length > 0 && (
+                    <div>
+                      <p className="text-xs font-bold text-slate-700 mb-2">Approval Workflow</p>
+                      <div className="flex flex-wrap items-center gap-2">
+                        {getApprovalStages(selectedForm).map((stage, index) => {
+                          const done = selectedSubmission.status === 'approved' ||
+                            (selectedSubmission.status === 'pending' && index < selectedSubmission.current_stage);
+                          const current = selectedSubmission.status === 'pending' && index === selectedSubmission.current_stage;
+                          return (
+                            <div key={stage.id} className="flex items-center gap-2">
+                              {index > 0 && <ChevronRight className="w-3.5 h-3.5 text-slate-400" />}
+                              <span
+                                className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-semibold border ${
+                                  done
+                                    ? 'bg-emerald-50 text-emerald-700 border-emerald-200'
+                                    : current
+                                      ? 'bg-amber-50 text-amber-700 border-amber-300'
+                                      : 'bg-white text-slate-500 border-slate-200'
+                                }`}
+                                title={describeApprover(stage, roleLabels)}
+                              >
+                                {done && <Check className="w-3 h-3" />}
+                                {current && <Clock className="w-3 h-3" />}
+                                {stage.name}
+                              </span>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+
+                  {reviewHistory.length > 0 && (
+                    <div>
+                      <p className="text-xs font-bold text-slate-700 mb-2 flex items-center gap-1.5">
+                        <History className="w-3.5 h-3.5" />
+                        Review History
+                      </p>
+                      <ol className="space-y-2">
+                        {reviewHistory.map(review => (
+                          <li key={review.id} className="text-xs text-slate-700">
+                            <span className="font-semibold">{REVIEW_ACTION_LABELS[review.action]}</span>
+                            {review.stage_name && <span className="text-slate-500"> at {review.stage_name}</span>}
+                            {' '}by {review.reviewer_name || 'Unknown User'}
+                            <span className="text-slate-400"> · {formatDistanceToNow(review.created_at)}</span>
+                            {review.notes && (
+                              <p className="text-slate-600 mt-0.5 pl-3 border-l-2 border-slate-200">{review.notes}</p>
+                            )}
+                          </li>
+                        ))}
+                      </ol>
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div>
                 <h4 className="text-sm font-bold text-slate-700 mb-3 flex items-center gap-2">
                   <FileText className="w-4 h-4 text-[#015324]" />
                   Form Responses
                 </h4>
                 <div className="grid grid-cols-2 gap-3">
-                  {selectedForm.form_schema.map((field) => {
+                  {getVisibleFields(
+                    getSubmissionSchema(selectedSubmission, selectedForm, formVersions),
+                    selectedSubmission.submission_data
+                  ).map((field) => {
                     const fieldValue = selectedSubmission.submission_data[field.id];
-                    const isImageField = field.type === 'image';
 
-                    // Check if field value contains image URL(s)
+                    if (field.type === 'section') {
+                      return (
+                        <div key={field.id} className="col-span-2 pt-2">
+                          <p className="text-sm font-bold text-slate-800">{field.label}</p>
+                          {field.description && (
+                            <p className="text-xs text-slate-500 mt-0.5">{field.description}</p>
+                          )}
+                        </div>
+                      );
+                    }
+
+                    const isImageField = field.type === 'image' || field.type === 'file';
+
+                    // Check if field value contains uploaded file reference(s)
                     const hasImageUrls = isImageField && Array.isArray(fieldValue) &&
                       fieldValue.length > 0 &&
-                      fieldValue[0]?.url;
+                      fieldValue[0]?.path;
 
                     // Also check for old format (single image with data property)
                     const hasLegacyImageData = isImageField && fieldValue &&
@@ -582,34 +845,48 @@ export function FormSubmissionsView({
                       fieldValue.data;
 
                     const hasImages = hasImageUrls || hasLegacyImageData;
+                    const groupEntries = field.type === 'group' ? getGroupEntries(fieldValue) : [];
 
                     return (
                       <div
                         key={field.id}
-                        className={`bg-slate-50 rounded-lg p-3 border border-slate-200 ${hasImages ? 'col-span-2' : ''}`}
+                        className={`bg-slate-50 rounded-lg p-3 border border-slate-200 ${hasImages || field.type === 'group' ? 'col-span-2' : ''}`}
                       >
                         <p className="text-xs font-semibold text-slate-600 mb-1">
                           {field.label}{field.required && <span className="text-red-500 ml-0.5">*</span>}
                         </p>
                         {hasImageUrls ? (
-                          <div className="mt-2 space-y-3">
+                          <div className="mt-2 grid grid-cols-4 gap-3">
                             {fieldValue.map((image: any, index: number) => (
-                              <div key={image.id || index} className="border rounded-lg overflow-hidden bg-white">
-                                <img
-                                  src={image.url}
-                                  alt={`Uploaded image ${index + 1}`}
-                                  className="w-full h-auto max-h-96 object-contain"
-                                  onError={(e) => {
-                                    console.error('Failed to load image:', image.url);
-                                    e.currentTarget.src = 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg" width="200" height="200"><rect width="200" height="200" fill="%23f1f5f9"/><text x="50%" y="50%" font-family="Arial" font-size="14" fill="%2364748b" text-anchor="middle" dy=".3em">Failed to load image</text></svg>';
-                                  }}
-                                />
-                                <div className="px-3 py-2 bg-slate-50 border-t border-slate-200">
-                                  <p className="text-xs text-slate-600">
-                                    {image.type} • {(image.size / 1024).toFixed(2)} KB
+                              <a
+                                key={image.id || index}
+                                href={uploadUrls[image.path]}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="block border rounded-lg overflow-hidden bg-white hover:shadow-md transition-shadow"
+                              >
+                                {!image.type || image.type.startsWith('image/') ? (
+                                  <img
+                                    src={uploadUrls[image.thumbnail_path] || uploadUrls[image.path]}
+                                    alt={image.filename || `Uploaded image ${index + 1}`}
+                                    loading="lazy"
+                                    className="w-full h-28 object-cover"
+                                    onError={(e) => {
+                                      console.error('Failed to load image:', image.path);
+                                      e.currentTarget.src = 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg" width="200" height="200"><rect width="200" height="200" fill="%23f1f5f9"/><text x="50%" y="50%" font-family="Arial" font-size="14" fill="%2364748b" text-anchor="middle" dy=".3em">Failed to load image</text></svg>';
+                                    }}
+                                  />
+                                ) : (
+                                  <div className="w-full h-28 flex items-center justify-center bg-slate-50">
+                                    <FileText className="w-10 h-10 text-slate-400" />
+                                  </div>
+                                )}
+                                <div className="px-2 py-1.5 bg-slate-50 border-t border-slate-200">
+                                  <p className="text-xs text-slate-600 truncate">
+                                    {image.filename || image.type} • {(image.size / 1024).toFixed(0)} KB
                                   </p>
                                 </div>
-                              </div>
+                              </a>
                             ))}
                           </div>
                         ) : hasLegacyImageData ? (
@@ -623,11 +900,47 @@ export function FormSubmissionsView({
                               {fieldValue.filename} ({(fieldValue.size / 1024).toFixed(2)} KB)
                             </p>
                           </div>
+                        ) : field.type === 'group' ? (
+                          groupEntries.length > 0 ? (
+                            <div className="mt-2 overflow-x-auto">
+                              <table className="w-full text-sm">
+                                <thead>
+                                  <tr className="text-left text-xs text-slate-500">
+                                    <th className="pr-3 py-1 font-semibold">#</th>
+                                    {getGroupSubFields(field).map(subField => (
+                                      <th key={subField.id} className="pr-3 py-1 font-semibold">{subField.label}</th>
+                                    ))}
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {groupEntries.map((entry, index) => (
+                                    <tr key={index} className="border-t border-slate-200 text-slate-900">
+                                      <td className="pr-3 py-1 text-slate-500">{index + 1}</td>
+                                      {getGroupSubFields(field).map(subField => {
+                                        const subValue = entry[subField.id];
+                                        return (
+                                          <td key={subField.id} className="pr-3 py-1">
+                                            {subValue === undefined || subValue === ''
+                                              ? '—'
+                                              : Array.isArray(subValue) ? subValue.join(', ') : String(subValue)}
+                                          </td>
+                                        );
+                                      })}
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </div>
+                          ) : (
+                            <p className="text-sm text-slate-900">N/A</p>
+                          )
                         ) : (
                           <p className="text-sm text-slate-900">
-                            {fieldValue !== undefined
-                              ? Array.isArray(fieldValue) ? fieldValue.join(', ') : String(fieldValue)
-                              : 'N/A'}
+                            {field.type === 'calculated'
+                              ? formatCalculatedValue(field, fieldValue)
+                              : fieldValue !== undefined
+                                ? Array.isArray(fieldValue) ? fieldValue.join(', ') : String(fieldValue)
+                                : 'N/A'}
                           </p>
                         )}
                       </div>
@@ -636,11 +949,31 @@ export function FormSubmissionsView({
                 </div>
               </div>
 
-              {(selectedSubmission.status === 'pending') && (
+              {selectedSubmission.status === 'pending' && !canAct && (
+                <div className="p-4 bg-amber-50 rounded-lg border border-amber-200 flex items-start gap-3">
+                  <Clock className="w-5 h-5 text-amber-600 mt-0.5" />
+                  <div>
+                    <p className="text-sm font-semibold text-amber-900">
+                      {getCurrentStage(selectedForm, selectedSubmission)
+                        ? `Awaiting ${getCurrentStage(selectedForm, selectedSubmission)!.name}`
+                        : 'Awaiting review'}
+                    </p>
+                    <p className="text-xs text-amber-700 mt-1">
+                      {selectedSubmission.submitted_by === userId
+                        ? 'You cannot review your own submission.'
+                        : getCurrentStage(selectedForm, selectedSubmission)
+                          ? `This stage is reviewed by ${describeApprover(getCurrentStage(selectedForm, selectedSubmission)!, roleLabels)}.`
+                          : 'You are not a reviewer for this submission.'}
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              {canAct && (
                 <>
                   <div className="border-t border-slate-200 pt-4">
                     <p className="text-sm font-bold text-slate-700 mb-3">Review Action</p>
-                    <div className="grid grid-cols-2 gap-3">
+                    <div className="grid grid-cols-3 gap-3">
                       <button
                         onClick={() => setReviewAction('approved')}
                         disabled={submitting}
@@ -653,6 +986,18 @@ export function FormSubmissionsView({
                         <Check className="w-5 h-5" />
                         Approve
                       </button>
+                      <button
+                        onClick={() => setReviewAction('returned')}
+                        disabled={submitting}
+                        className={`flex items-center justify-center gap-2 px-4 py-3 rounded-lg transition-all font-semibold ${
+                          reviewAction === 'returned'
+                            ? 'bg-orange-500 text-white shadow-md'
+                            : 'bg-orange-50 text-orange-700 hover:bg-orange-100 border border-orange-200'
+                        } disabled:opacity-50`}
+                      >
+                        <CornerUpLeft className="w-5 h-5" />
+                        Return
+                      </button>
                       <button
                         onClick={() => setReviewAction('rejected')}
                         disabled={submitting}
@@ -668,6 +1013,22 @@ export function FormSubmissionsView({
                     </div>
                   </div>
 
+                  {reviewAction === 'returned' && (
+                    <div>
+                      <label className="block text-sm font-bold text-orange-700 mb-2">
+                        What needs correcting <span className="text-orange-500">*</span>
+                      </label>
+                      <textarea
+                        value={rejectionReason}
+                        onChange={(e) => setRejectionReason(e.target.value)}
+                        placeholder="Tell the agent what to fix before resubmitting..."
+                        rows={3}
+                        disabled={submitting}
+                        className="w-full px-4 py-3 border border-orange-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 resize-none text-sm disabled:opacity-50"
+                      />
+                    </div>
+                  )}
+
                   {reviewAction === 'rejected' && (
                     <div>
                       <label className="block text-sm font-bold text-rose-700 mb-2">
@@ -684,20 +1045,36 @@ export function FormSubmissionsView({
                     </div>
                   )}
 
+                  {reviewAction === 'approved' && (
+                    <div>
+                      <label className="block text-sm font-bold text-slate-700 mb-2">
+                        Review Notes (Optional)
+                      </label>
+                      <textarea
+                        value={reviewNotes}
+                        onChange={(e) => setReviewNotes(e.target.value)}
+                        placeholder="Add additional notes or comments..."
+                        rows={3}
+                        disabled={submitting}
+                        className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-[#015324] resize-none text-sm disabled:opacity-50"
+                      />
+                    </div>
+                  )}
+                </>
+              )}
+
+              {selectedSubmission.status === 'returned' && (
+                <div className="p-4 bg-orange-50 rounded-lg border border-orange-200 flex items-start gap-3">
+                  <CornerUpLeft className="w-5 h-5 text-orange-600 mt-0.5" />
                   <div>
-                    <label className="block text-sm font-bold text-slate-700 mb-2">
-                      Review Notes {reviewAction === 'approved' && '(Optional)'}
-                    </label>
-                    <textarea
-                      value={reviewNotes}
-                      onChange={(e) => setReviewNotes(e.target.value)}
-                      placeholder="Add additional notes or comments..."
-                      rows={3}
-                      disabled={submitting}
-                      className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-[#015324] resize-none text-sm disabled:opacity-50"
-                    />
+                    <p className="text-sm font-semibold text-orange-900">
+                      Waiting for the agent to correct and resubmit
+                    </p>
+                    {selectedSubmission.review_notes && (
+                      <p className="text-xs text-orange-700 mt-1">Requested: {selectedSubmission.review_notes}</p>
+                    )}
                   </div>
-                </>
+                </div>
               )}
 
               {(selectedSubmission.status === 'approved' || selectedSubmission.status === 'rejected') && (
@@ -721,9 +1098,9 @@ export function FormSubmissionsView({
                 disabled={submitting}
                 className="px-5 py-2 text-slate-700 hover:bg-slate-200 rounded-lg transition-all font-semibold disabled:opacity-50"
               >
-                {(selectedSubmission.status === 'pending') ? 'Cancel' : 'Close'}
+                {canAct ? 'Cancel' : 'Close'}
               </button>
-              {(selectedSubmission.status === 'pending') && (
+              {canAct && (
                 <button
                   onClick={handleReview}
                   disabled={submitting}
@@ -736,8 +1113,8 @@ export function FormSubmissionsView({
                     </>
                   ) : (
                     <>
-                      {reviewAction === 'approved' ? <Check className="w-4 h-4" /> : <X className="w-4 h-4" />}
-                      {reviewAction === 'approved' ? 'Approve' : 'Reject'} Submission
+                      {reviewAction === 'approved' ? <Check className="w-4 h-4" /> : reviewAction === 'returned' ? <CornerUpLeft className="w-4 h-4" /> : <X className="w-4 h-4" />}
+                      {reviewAction === 'approved' ? 'Approve' : reviewAction === 'returned' ? 'Return' : 'Reject'} Submission
                     </>
                   )}
                 </button>
@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react';
+import { History, Plus, Minus, PenLine } from 'lucide-react';
+import type { FormVersion } from '../../lib/forms/types';
+import { FormService } from '../../lib/forms/form-service';
+import { diffFormVersions } from '../../lib/forms/form-version-utils';
+
+interface FormVersionHistoryProps {
+  formId: string;
+}
+
+export function FormVersionHistory({ formId }: FormVersionHistoryProps) {
+  const [versions, setVersions] = useState<FormVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+
+  useEffect(() => {
+    loadVersions();
+  }, [formId]);
+
+  const loadVersions = async () => {
+    setLoading(true);
+    try {
+      const data = await FormService.getFormVersions(formId);
+      setVersions(data);
+      if (data.length > 0) {
+        setToId(data[0].id);
+        setFromId(data[Math.min(1, data.length - 1)].id);
+      }
+    } catch (error) {
+      console.error('Error loading form versions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fromVersion = versions.find(v => v.id === fromId);
+  const toVersion = versions.find(v => v.id === toId);
+  const diff = fromVersion && toVersion
+    ? diffFormVersions(fromVersion.form_schema, toVersion.form_schema)
+    : null;
+  const hasChanges = diff && (diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0);
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+          <div className="w-1.5 h-6 bg-[#015324] rounded-full"></div>
+          Version History
+        </h3>
+        <p className="text-sm text-slate-500 mt-1 ml-5">
+          Every saved change to the fields creates a new version. Submissions keep the version they were filled against.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <div className="w-8 h-8 border-4 border-[#015324] border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : versions.length === 0 ? (
+        <p className="text-sm text-slate-500">No versions recorded yet.</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {versions.map(version => (
+              <div
+                key={version.id}
+                className="flex items-center gap-2 px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs"
+              >
+                <History className="w-3.5 h-3.5 text-slate-400" />
+                <span className="font-semibold text-slate-700">v{version.version_number}</span>
+                <span className="text-slate-500">{new Date(version.created_at).toLocaleDateString()}</span>
+                <span className="text-slate-400">{version.form_schema.length} fields</span>
+              </div>
+            ))}
+          </div>
+
+          {versions.length > 1 && (
+            <>
+              <div className="flex items-center gap-3 text-sm">
+                <span className="text-slate-600 font-medium">Compare</span>
+                <select
+                  value={fromId}
+                  onChange={(e) => setFromId(e.target.value)}
+                  className="px-3 py-2 text-sm bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324]"
+                >
+                  {versions.map(v => (
+                    <option key={v.id} value={v.id}>v{v.version_number}</option>
+                  ))}
+                </select>
+                <span className="text-slate-600 font-medium">with</span>
+                <select
+                  value={toId}
+                  onChange={(e) => setToId(e.target.value)}
+                  className="px-3 py-2 text-sm bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324]"
+                >
+                  {versions.map(v => (
+                    <option key={v.id} value={v.id}>v{v.version_number}</option>
+                  ))}
+                </select>
+              </div>
+
+              {diff && !hasChanges && (
+                <p className="text-sm text-slate-500">No field differences between these versions.</p>
+              )}
+
+              {diff && hasChanges && (
+                <div className="space-y-2">
+                  {diff.added.map(field => (
+                    <div key={`added-${field.id}`} className="flex items-start gap-2 px-3 py-2 bg-emerald-50 border border-emerald-200 rounded-lg">
+                      <Plus className="w-4 h-4 text-emerald-600 mt-0.5" />
+                      <p className="text-sm text-emerald-800">
+                        <span className="font-semibold">{field.label || 'Untitled field'}</span> added ({field.type})
+                      </p>
+                    </div>
+                  ))}
+                  {diff.removed.map(field => (
+                    <div key={`removed-${field.id}`} className="flex items-start gap-2 px-3 py-2 bg-rose-50 border border-rose-200 rounded-lg">
+                      <Minus className="w-4 h-4 text-rose-600 mt-0.5" />
+                      <p className="text-sm text-rose-800">
+                        <span className="font-semibold">{field.label || 'Untitled field'}</span> removed
+                      </p>
+                    </div>
+                  ))}
+                  {diff.changed.map(change => (
+                    <div key={`changed-${change.after.id}`} className="flex items-start gap-2 px-3 py-2 bg-amber-50 border border-amber-200 rounded-lg">
+                      <PenLine className="w-4 h-4 text-amber-600 mt-0.5" />
+                      <div>
+                        <p className="text-sm font-semibold text-amber-900">{change.after.label || 'Untitled field'}</p>
+                        <ul className="text-xs text-amber-800 mt-0.5 space-y-0.5">
+                          {change.changes.map((line, i) => (
+                            <li key={i}>{line}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
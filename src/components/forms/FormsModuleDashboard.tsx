@@ -1,9 +1,10 @@
 import { useState, useEffect, useRef } from 'react';
 import {
   FileText, ChevronRight, Search, Share2, Download,
-  Filter, ArrowUpDown, RefreshCw, X, Check, Calendar, EyeOff, Eye
+  Filter, ArrowUpDown, RefreshCw, X, Check, Calendar, EyeOff, Eye, Inbox, Route
 } from 'lucide-react';
 import { FormSubmissionsView } from './FormSubmissionsView';
+import { VisitPlansManager } from '../visits/VisitPlansManager';
 import { FormService } from '../../lib/forms/form-service';
 import { supabase } from '../../lib/supabase/client';
 import type { Form } from '../../lib/forms/types';
@@ -37,6 +38,9 @@ export function FormsModuleDashboard({ userId, orgId }: FormsModuleDashboardProp
   const [showExportOptions, setShowExportOptions] = useState(false);
   const [exportIncludeRejected, setExportIncludeRejected] = useState(false);
 
+  const [view, setView] = useState<'all' | 'inbox' | 'plans'>('all');
+  const [inboxCount, setInboxCount] = useState(0);
+
   const [sortBy, setSortBy] = useState('submitted_at');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
 
@@ -47,6 +51,7 @@ export function FormsModuleDashboard({ userId, orgId }: FormsModuleDashboardProp
   useEffect(() => {
     loadForms();
     loadRegions();
+    loadInboxCount();
   }, [orgId]);
 
   useEffect(() => {
@@ -83,6 +88,11 @@ export function FormsModuleDashboard({ userId, orgId }: FormsModuleDashboardProp
     }
   };
 
+  const loadInboxCount = async () => {
+    const inbox = await FormService.getReviewInbox(userId, orgId);
+    setInboxCount(inbox.length);
+  };
+
   const loadRegions = async () => {
     try {
       const { data } = await supabase
@@ -113,7 +123,7 @@ export function FormsModuleDashboard({ userId, orgId }: FormsModuleDashboardProp
   };
 
   const handleSearch = () => {
-    if (!filters.start_date || !filters.end_date) {
+    if (view === 'all' && (!filters.start_date || !filters.end_date)) {
       showWarning('Date Range Required', 'Please select both start and end dates to search');
       return;
     }
@@ -121,7 +131,9 @@ export function FormsModuleDashboard({ userId, orgId }: FormsModuleDashboardProp
   };
 
   const handleRefresh = () => {
-    if (!filters.start_date || !filters.end_date) {
+    if (view === 'inbox') {
+      loadInboxCount();
+    } else if (!filters.start_date || !filters.end_date) {
       showWarning('Date Range Required', 'Please select both start and end dates to update');
       return;
     }
@@ -220,358 +232,417 @@ export function FormsModuleDashboard({ userId, orgId }: FormsModuleDashboardProp
             <span className="text-slate-800 font-medium">Form Submissions</span>
           </div>
 
-          {activeFilterCount > 0 && (
-            <div className="mb-4 flex flex-wrap gap-2">
-              {Object.entries(filters).map(([key, value]) =>
-                value ? (
-                  <span
-                    key={key}
-                    className="inline-flex items-center gap-2 px-3 py-1.5 bg-[#015324]/10 text-[#015324] rounded-lg text-sm font-medium border border-[#015324]/20"
-                  >
-                    {getFilterLabel(key, value)}
-                    <button
-                      onClick={() => removeFilter(key)}
-                      className="hover:bg-[#015324]/20 rounded-full p-0.5 transition-colors"
-                    >
-                      <X className="w-3.5 h-3.5" />
-                    </button>
-                  </span>
-                ) : null
+          <div className="flex items-center gap-1 mb-4 border-b border-slate-200">
+            <button
+              onClick={() => setView('all')}
+              className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                view === 'all'
+                  ? 'border-[#015324] text-[#015324]'
+                  : 'border-transparent text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              All Submissions
+            </button>
+            <button
+              onClick={() => setView('inbox')}
+              className={`flex items-center gap-2 px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                view === 'inbox'
+                  ? 'border-[#015324] text-[#015324]'
+                  : 'border-transparent text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              <Inbox className="w-4 h-4" />
+              My Review Inbox
+              {inboxCount > 0 && (
+                <span className="px-1.5 py-0.5 bg-amber-500 text-white rounded text-xs font-semibold min-w-[20px] text-center">
+                  {inboxCount}
+                </span>
               )}
-            </div>
-          )}
+            </button>
+            <button
+              onClick={() => setView('plans')}
+              className={`flex items-center gap-2 px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                view === 'plans'
+                  ? 'border-[#015324] text-[#015324]'
+                  : 'border-transparent text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              <Route className="w-4 h-4" />
+              Visit Plans
+            </button>
+          </div>
 
-          <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-between gap-3 relative">
-            <div className="flex items-center gap-2 overflow-x-auto">
-              <button
-                onClick={handleSearch}
-                className="flex items-center gap-2 px-4 py-2 bg-[#015324] hover:bg-[#014a20] text-white rounded-lg transition-colors text-sm font-medium"
-              >
-                <Search className="w-4 h-4" />
-                <span>Search</span>
-              </button>
-
-              <button
-                onClick={handleRefresh}
-                className="flex items-center gap-2 px-3 py-2 bg-slate-50 hover:bg-slate-100 rounded-lg transition-colors text-sm text-slate-700"
-              >
-                <RefreshCw className="w-4 h-4" />
-                <span>Update</span>
-              </button>
-
-              {selectedCount > 0 && (
-                <div className="px-3 py-2 bg-slate-100 rounded-lg text-sm text-slate-700 font-medium">
-                  {selectedCount} Selected
+          {view === 'plans' ? (
+            <VisitPlansManager orgId={orgId} />
+          ) : (
+            <>
+              {activeFilterCount > 0 && (
+                <div className="mb-4 flex flex-wrap gap-2">
+                  {Object.entries(filters).map(([key, value]) =>
+                    value ? (
+                      <span
+                        key={key}
+                        className="inline-flex items-center gap-2 px-3 py-1.5 bg-[#015324]/10 text-[#015324] rounded-lg text-sm font-medium border border-[#015324]/20"
+                      >
+                        {getFilterLabel(key, value)}
+                        <button
+                          onClick={() => removeFilter(key)}
+                          className="hover:bg-[#015324]/20 rounded-full p-0.5 transition-colors"
+                        >
+                          <X className="w-3.5 h-3.5" />
+                        </button>
+                      </span>
+                    ) : null
+                  )}
                 </div>
               )}
 
-              <div className="relative" ref={filterRef}>
-                <button
-                  onClick={() => setShowFilterModal(!showFilterModal)}
-                  className="flex items-center gap-2 px-3 py-2 bg-slate-50 hover:bg-slate-100 rounded-lg transition-colors text-sm text-slate-700"
-                >
-                  <Filter className="w-4 h-4" />
-                  <span>Filter</span>
-                  {activeFilterCount > 0 && (
-                    <span className="px-1.5 py-0.5 bg-slate-700 text-white rounded text-xs font-medium min-w-[20px] text-center">
-                      {activeFilterCount}
-                    </span>
-                  )}
-                </button>
-
-                {showFilterModal && (
-                  <div
-                    className="fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-[calc(100%-2rem)] sm:w-96 max-w-full bg-white rounded-xl shadow-2xl border border-slate-200 z-[9999] animate-in fade-in slide-in-from-bottom-4 duration-200"
-                    onClick={(e) => e.stopPropagation()}
+              <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-between gap-3 relative">
+                <div className="flex items-center gap-2 overflow-x-auto">
+                  <button
+                    onClick={handleSearch}
+                    className="flex items-center gap-2 px-4 py-2 bg-[#015324] hover:bg-[#014a20] text-white rounded-lg transition-colors text-sm font-medium"
                   >
-                    <div className="p-4 border-b border-slate-200 flex items-center justify-between">
-                      <h3 className="font-semibold text-slate-800">Filter Submissions</h3>
-                      <button
-                        onClick={() => setShowFilterModal(false)}
-                        className="p-1 hover:bg-slate-100 rounded transition-colors"
-                      >
-                        <X className="w-4 h-4 text-slate-500" />
-                      </button>
-                    </div>
+                    <Search className="w-4 h-4" />
+                    <span>Search</span>
+                  </button>
 
-                    <div className="p-4 space-y-4 max-h-[60vh] overflow-y-auto">
-                      <div>
-                        <label className="block text-sm font-medium text-slate-700 mb-2">
-                          Form
-                        </label>
-                        <select
-                          value={filters.form_id}
-                          onChange={(e) => setFilters({ ...filters, form_id: e.target.value })}
-                          className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-[#015324] text-sm"
-                        >
-                          <option value="">All Forms</option>
-                          {forms.map((form) => (
-                            <option key={form.id} value={form.id}>
-                              {form.title}
-                            </option>
-                          ))}
-                        </select>
-                      </div>
+                  <button
+                    onClick={handleRefresh}
+                    className="flex items-center gap-2 px-3 py-2 bg-slate-50 hover:bg-slate-100 rounded-lg transition-colors text-sm text-slate-700"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                    <span>Update</span>
+                  </button>
 
-                      <div>
-                        <label className="block text-sm font-medium text-slate-700 mb-2">
-                          Status
-                        </label>
-                        <select
-                          value={filters.status}
-                          onChange={(e) => setFilters({ ...filters, status: e.target.value })}
-                          className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-[#015324] text-sm"
-                        >
-                          <option value="">All Statuses</option>
-                          <option value="pending">Pending</option>
-                          <option value="approved">Approved</option>
-                          <option value="rejected">Rejected</option>
-                        </select>
-                      </div>
+                  {selectedCount > 0 && (
+                    <div className="px-3 py-2 bg-slate-100 rounded-lg text-sm text-slate-700 font-medium">
+                      {selectedCount} Selected
+                    </div>
+                  )}
 
-                      <div>
-                        <label className="block text-sm font-medium text-slate-700 mb-2">
-                          Territory
-                        </label>
-                        <select
-                          value={filters.region_id}
-                          onChange={(e) => setFilters({ ...filters, region_id: e.target.value, branch_id: '' })}
-                          className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-[#015324] text-sm"
-                        >
-                          <option value="">All Territories</option>
-                          {regions.map((region) => (
-                            <option key={region.id} value={region.id}>
-                              {region.name}
-                            </option>
-                          ))}
-                        </select>
-                      </div>
+                  <div className="relative" ref={filterRef}>
+                    <button
+                      onClick={() => setShowFilterModal(!showFilterModal)}
+                      className="flex items-center gap-2 px-3 py-2 bg-slate-50 hover:bg-slate-100 rounded-lg transition-colors text-sm text-slate-700"
+                    >
+                      <Filter className="w-4 h-4" />
+                      <span>Filter</span>
+                      {activeFilterCount > 0 && (
+                        <span className="px-1.5 py-0.5 bg-slate-700 text-white rounded text-xs font-medium min-w-[20px] text-center">
+                          {activeFilterCount}
+                        </span>
+                      )}
+                    </button>
 
-                      {filters.region_id && (
-                        <div>
-                          <label className="block text-sm font-medium text-slate-700 mb-2">
-                            Sub-Territory
-                          </label>
-                          <select
-                            value={filters.branch_id}
-                            onChange={(e) => setFilters({ ...filters, branch_id: e.target.value })}
-                            className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-[#015324] text-sm"
+                    {showFilterModal && (
+                      <div
+                        className="fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-[calc(100%-2rem)] sm:w-96 max-w-full bg-white rounded-xl shadow-2xl border border-slate-200 z-[9999] animate-in fade-in slide-in-from-bottom-4 duration-200"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <div className="p-4 border-b border-slate-200 flex items-center justify-between">
+                          <h3 className="font-semibold text-slate-800">Filter Submissions</h3>
+                          <button
+                            onClick={() => setShowFilterModal(false)}
+                            className="p-1 hover:bg-slate-100 rounded transition-colors"
                           >
-                            <option value="">All Sub-Territories</option>
-                            {branches.map((branch) => (
-                              <option key={branch.id} value={branch.id}>
-                                {branch.name}
-                              </option>
-                            ))}
-                          </select>
+                            <X className="w-4 h-4 text-slate-500" />
+                          </button>
                         </div>
-                      )}
 
-                      <div>
-                        <label className="block text-sm font-medium text-slate-700 mb-2">
-                          Start Date
-                        </label>
-                        <input
-                          type="date"
-                          value={filters.start_date}
-                          onChange={(e) => setFilters({ ...filters, start_date: e.target.value })}
-                          className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-[#015324] text-sm"
-                        />
-                      </div>
+                        <div className="p-4 space-y-4 max-h-[60vh] overflow-y-auto">
+                          <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                              Form
+                            </label>
+                            <select
+                              value={filters.form_id}
+                              onChange={(e) => setFilters({ ...filters, form_id: e.target.value })}
+                              className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-[#015324] text-sm"
+                            >
+                              <option value="">All Forms</option>
+                              {forms.map((form) => (
+                                <option key={form.id} value={form.id}>
+                                  {form.title}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+
+                          <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                              Status
+                            </label>
+                            <select
+                              value={filters.status}
+                              onChange={(e) => setFilters({ ...filters, status: e.target.value })}
+                              className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-[#015324] text-sm"
+                            >
+                              <option value="">All Statuses</option>
+                              <option value="pending">Pending</option>
+                              <option value="approved">Approved</option>
+                              <option value="rejected">Rejected</option>
+                            </select>
+                          </div>
+
+                          <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                              Territory
+                            </label>
+                            <select
+                              value={filters.region_id}
+                              onChange={(e) => setFilters({ ...filters, region_id: e.target.value, branch_id: '' })}
+                              className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-[#015324] text-sm"
+                            >
+                              <option value="">All Territories</option>
+                              {regions.map((region) => (
+                                <option key={region.id} value={region.id}>
+                                  {region.name}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+
+                          {filters.region_id && (
+                            <div>
+                              <label className="block text-sm font-medium text-slate-700 mb-2">
+                                Sub-Territory
+                              </label>
+                              <select
+                                value={filters.branch_id}
+                                onChange={(e) => setFilters({ ...filters, branch_id: e.target.value })}
+                                className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-[#015324] text-sm"
+                              >
+                                <option value="">All Sub-Territories</option>
+                                {branches.map((branch) => (
+                                  <option key={branch.id} value={branch.id}>
+                                    {branch.name}
+                                  </option>
+                                ))}
+                              </select>
+                            </div>
+                          )}
+
+                          <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                              Start Date
+                            </label>
+                            <input
+                              type="date"
+                              value={filters.start_date}
+                              onChange={(e) => setFilters({ ...filters, start_date: e.target.value })}
+                              className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-[#015324] text-sm"
+                            />
+                          </div>
+
+                          <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                              End Date
+                            </label>
+                            <input
+                              type="date"
+                              value={filters.end_date}
+                              onChange={(e) => setFilters({ ...filters, end_date: e.target.value })}
+                              className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-[#015324] text-sm"
+                            />
+                          </div>
+                        </div>
 
-                      <div>
-                        <label className="block text-sm font-medium text-slate-700 mb-2">
-                          End Date
-                        </label>
-                        <input
-                          type="date"
-                          value={filters.end_date}
-                          onChange={(e) => setFilters({ ...filters, end_date: e.target.value })}
-                          className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-[#015324] text-sm"
-                        />
+                        <div className="p-4 border-t border-slate-200 flex items-center justify-between gap-2">
+                          <button
+                            onClick={handleClearFilters}
+                            className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                          >
+                            Clear All
+                          </button>
+                          <button
+                            onClick={() => {
+                              setShowFilterModal(false);
+                            }}
+                            className="px-4 py-2 text-sm bg-[#015324] text-white rounded-lg hover:bg-[#014a20] transition-colors"
+                          >
+                            Apply Filters
+                          </button>
+                        </div>
                       </div>
-                    </div>
-
-                    <div className="p-4 border-t border-slate-200 flex items-center justify-between gap-2">
-                      <button
-                        onClick={handleClearFilters}
-                        className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
-                      >
-                        Clear All
-                      </button>
-                      <button
-                        onClick={() => {
-                          setShowFilterModal(false);
-                        }}
-                        className="px-4 py-2 text-sm bg-[#015324] text-white rounded-lg hover:bg-[#014a20] transition-colors"
-                      >
-                        Apply Filters
-                      </button>
-                    </div>
+                    )}
                   </div>
-                )}
-              </div>
 
-              <div className="relative" ref={sortRef}>
-                <button
-                  onClick={() => setShowSortModal(!showSortModal)}
-                  className="flex items-center gap-2 px-3 py-2 bg-slate-50 hover:bg-slate-100 rounded-lg transition-colors text-sm text-slate-700"
-                >
-                  <ArrowUpDown className="w-4 h-4" />
-                  <span>Sort</span>
-                  {sortBy && (
-                    <span className="text-[#015324] font-semibold">
-                      ({sortOrder === 'asc' ? '↑' : '↓'})
-                    </span>
-                  )}
-                </button>
+                  <div className="relative" ref={sortRef}>
+                    <button
+                      onClick={() => setShowSortModal(!showSortModal)}
+                      className="flex items-center gap-2 px-3 py-2 bg-slate-50 hover:bg-slate-100 rounded-lg transition-colors text-sm text-slate-700"
+                    >
+                      <ArrowUpDown className="w-4 h-4" />
+                      <span>Sort</span>
+                      {sortBy && (
+                        <span className="text-[#015324] font-semibold">
+                          ({sortOrder === 'asc' ? '↑' : '↓'})
+                        </span>
+                      )}
+                    </button>
 
-                {showSortModal && (
-                  <div
-                    className="fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-[calc(100%-2rem)] sm:w-80 max-w-full bg-white rounded-xl shadow-2xl border border-slate-200 z-[9999] animate-in fade-in slide-in-from-bottom-4 duration-200"
-                    onClick={(e) => e.stopPropagation()}
-                  >
-                    <div className="p-4 border-b border-slate-200 flex items-center justify-between">
-                      <h3 className="font-semibold text-slate-800">Sort By</h3>
-                      <button
-                        onClick={() => setShowSortModal(false)}
-                        className="p-1 hover:bg-slate-100 rounded transition-colors"
+                    {showSortModal && (
+                      <div
+                        className="fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-[calc(100%-2rem)] sm:w-80 max-w-full bg-white rounded-xl shadow-2xl border border-slate-200 z-[9999] animate-in fade-in slide-in-from-bottom-4 duration-200"
+                        onClick={(e) => e.stopPropagation()}
                       >
-                        <X className="w-4 h-4 text-slate-500" />
-                      </button>
-                    </div>
+                        <div className="p-4 border-b border-slate-200 flex items-center justify-between">
+                          <h3 className="font-semibold text-slate-800">Sort By</h3>
+                          <button
+                            onClick={() => setShowSortModal(false)}
+                            className="p-1 hover:bg-slate-100 rounded transition-colors"
+                          >
+                            <X className="w-4 h-4 text-slate-500" />
+                          </button>
+                        </div>
 
-                    <div className="p-2">
-                      {[
-                        { value: 'submitted_at', label: 'Submission Date' },
-                        { value: 'status', label: 'Status' },
-                        { value: 'cycle_number', label: 'Cycle Number' }
-                      ].map((option) => (
-                        <button
-                          key={option.value}
-                          onClick={() => {
-                            setSortBy(option.value);
-                            setShowSortModal(false);
-                          }}
-                          className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors flex items-center justify-between ${
-                            sortBy === option.value
-                              ? 'bg-[#015324]/10 text-[#015324] font-medium'
-                              : 'text-slate-700 hover:bg-slate-100'
-                          }`}
-                        >
-                          {option.label}
-                          {sortBy === option.value && <Check className="w-4 h-4" />}
-                        </button>
-                      ))}
-                    </div>
+                        <div className="p-2">
+                          {[
+                            { value: 'submitted_at', label: 'Submission Date' },
+                            { value: 'status', label: 'Status' },
+                            { value: 'cycle_number', label: 'Cycle Number' },
+                            ...(forms.find(f => f.id === filters.form_id)?.form_schema || [])
+                              .filter(field => field.type === 'calculated')
+                              .map(field => ({ value: `field:${field.id}`, label: field.label }))
+                          ].map((option) => (
+                            <button
+                              key={option.value}
+                              onClick={() => {
+                                setSortBy(option.value);
+                                setShowSortModal(false);
+                              }}
+                              className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors flex items-center justify-between ${
+                                sortBy === option.value
+                                  ? 'bg-[#015324]/10 text-[#015324] font-medium'
+                                  : 'text-slate-700 hover:bg-slate-100'
+                              }`}
+                            >
+                              {option.label}
+                              {sortBy === option.value && <Check className="w-4 h-4" />}
+                            </button>
+                          ))}
+                        </div>
 
-                    <div className="p-4 border-t border-slate-200">
-                      <div className="flex items-center gap-2">
-                        <button
-                          onClick={() => setSortOrder('asc')}
-                          className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
-                            sortOrder === 'asc'
-                              ? 'bg-[#015324] text-white'
-                              : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
-                          }`}
-                        >
-                          Ascending
-                        </button>
-                        <button
-                          onClick={() => setSortOrder('desc')}
-                          className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
-                            sortOrder === 'desc'
-                              ? 'bg-[#015324] text-white'
-                              : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
-                          }`}
-                        >
-                          Descending
-                        </button>
+                        <div className="p-4 border-t border-slate-200">
+                          <div className="flex items-center gap-2">
+                            <button
+                              onClick={() => setSortOrder('asc')}
+                              className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                                sortOrder === 'asc'
+                                  ? 'bg-[#015324] text-white'
+                                  : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                              }`}
+                            >
+                              Ascending
+                            </button>
+                            <button
+                              onClick={() => setSortOrder('desc')}
+                              className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                                sortOrder === 'desc'
+                                  ? 'bg-[#015324] text-white'
+                                  : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                              }`}
+                            >
+                              Descending
+                            </button>
+                          </div>
+                        </div>
                       </div>
-                    </div>
+                    )}
                   </div>
-                )}
-              </div>
-            </div>
-
-            <div className="flex items-center gap-2">
-              <button
-                onClick={() => setIncludeRejected(!includeRejected)}
-                className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-colors text-sm font-medium ${
-                  includeRejected
-                    ? 'bg-rose-50 text-rose-700 border border-rose-200'
-                    : 'bg-slate-50 hover:bg-slate-100 text-slate-700'
-                }`}
-              >
-                {includeRejected ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
-                <span>{includeRejected ? 'Rejected Shown' : 'Rejected Hidden'}</span>
-              </button>
-
-              <div className="relative" ref={exportRef}>
-                <button
-                  onClick={() => setShowExportOptions(!showExportOptions)}
-                  className="flex items-center gap-2 px-3 py-2 bg-slate-50 hover:bg-slate-100 rounded-lg transition-colors text-sm text-slate-700"
-                >
-                  <Download className="w-4 h-4" />
-                  <span>Export</span>
-                </button>
-
-                {showExportOptions && (
-                  <div className="absolute right-0 top-full mt-2 w-72 bg-white rounded-xl shadow-2xl border border-slate-200 z-[9999] animate-in fade-in slide-in-from-top-2 duration-200">
-                    <div className="p-4 border-b border-slate-200">
-                      <h3 className="font-semibold text-slate-800 text-sm">Export Options</h3>
-                    </div>
-                    <div className="p-4 space-y-3">
-                      <label className="flex items-center gap-3 cursor-pointer group">
-                        <div
-                          className={`w-5 h-5 rounded border-2 flex items-center justify-center transition-colors ${
-                            exportIncludeRejected
-                              ? 'bg-rose-500 border-rose-500'
-                              : 'border-slate-300 group-hover:border-slate-400'
-                          }`}
-                        >
-                          {exportIncludeRejected && <Check className="w-3.5 h-3.5 text-white" />}
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setIncludeRejected(!includeRejected)}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-colors text-sm font-medium ${
+                      includeRejected
+                        ? 'bg-rose-50 text-rose-700 border border-rose-200'
+                        : 'bg-slate-50 hover:bg-slate-100 text-slate-700'
+                    }`}
+                  >
+                    {includeRejected ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                    <span>{includeRejected ? 'Rejected Shown' : 'Rejected Hidden'}</span>
+                  </button>
+
+                  <div className="relative" ref={exportRef}>
+                    <button
+                      onClick={() => setShowExportOptions(!showExportOptions)}
+                      className="flex items-center gap-2 px-3 py-2 bg-slate-50 hover:bg-slate-100 rounded-lg transition-colors text-sm text-slate-700"
+                    >
+                      <Download className="w-4 h-4" />
+                      <span>Export</span>
+                    </button>
+
+                    {showExportOptions && (
+                      <div className="absolute right-0 top-full mt-2 w-72 bg-white rounded-xl shadow-2xl border border-slate-200 z-[9999] animate-in fade-in slide-in-from-top-2 duration-200">
+                        <div className="p-4 border-b border-slate-200">
+                          <h3 className="font-semibold text-slate-800 text-sm">Export Options</h3>
                         </div>
-                        <input
-                          type="checkbox"
-                          checked={exportIncludeRejected}
-                          onChange={(e) => setExportIncludeRejected(e.target.checked)}
-                          className="sr-only"
-                        />
-                        <div>
-                          <p className="text-sm font-medium text-slate-800">Include Rejected Forms</p>
-                          <p className="text-xs text-slate-500">Export will include rejected submissions</p>
+                        <div className="p-4 space-y-3">
+                          <label className="flex items-center gap-3 cursor-pointer group">
+                            <div
+                              className={`w-5 h-5 rounded border-2 flex items-center justify-center transition-colors ${
+                                exportIncludeRejected
+                                  ? 'bg-rose-500 border-rose-500'
+                                  : 'border-slate-300 group-hover:border-slate-400'
+                              }`}
+                            >
+                              {exportIncludeRejected && <Check className="w-3.5 h-3.5 text-white" />}
+                            </div>
+                            <input
+                              type="checkbox"
+                              checked={exportIncludeRejected}
+                              onChange={(e) => setExportIncludeRejected(e.target.checked)}
+                              className="sr-only"
+                            />
+                            <div>
+                              <p className="text-sm font-medium text-slate-800">Include Rejected Forms</p>
+                              <p className="text-xs text-slate-500">Export will include rejected submissions</p>
+                            </div>
+                          </label>
                         </div>
-                      </label>
-                    </div>
-                    <div className="p-3 border-t border-slate-200 bg-slate-50 rounded-b-xl">
-                      <button
-                        onClick={() => {
-                          setShowExportOptions(false);
-                          handleExport();
-                        }}
-                        className="w-full flex items-center justify-center gap-2 px-4 py-2.5 bg-[#015324] hover:bg-[#014a20] text-white rounded-lg transition-colors text-sm font-medium"
-                      >
-                        <Download className="w-4 h-4" />
-                        Export CSV
-                      </button>
-                    </div>
+                        <div className="p-3 border-t border-slate-200 bg-slate-50 rounded-b-xl">
+                          <button
+                            onClick={() => {
+                              setShowExportOptions(false);
+                              handleExport();
+                            }}
+                            className="w-full flex items-center justify-center gap-2 px-4 py-2.5 bg-[#015324] hover:bg-[#014a20] text-white rounded-lg transition-colors text-sm font-medium"
+                          >
+                            <Download className="w-4 h-4" />
+                            Export CSV
+                          </button>
+                        </div>
+                      </div>
+                    )}
                   </div>
-                )}
+                </div>
               </div>
-            </div>
-          </div>
+            </>
+          )}
         </div>
       </div>
 
-      <FormSubmissionsView
-        orgId={orgId}
-        filters={filters}
-        sortBy={sortBy}
-        sortOrder={sortOrder}
-        searchTrigger={searchTrigger}
-        includeRejected={includeRejected}
-      />
+      {view !== 'plans' && (
+        <FormSubmissionsView
+          key={view}
+          orgId={orgId}
+          userId={userId}
+          mode={view}
+          onReviewComplete={loadInboxCount}
+          filters={filters}
+          sortBy={sortBy}
+          sortOrder={sortOrder}
+          onSortChange={(nextSortBy, nextSortOrder) => {
+            setSortBy(nextSortBy);
+            setSortOrder(nextSortOrder);
+          }}
+          searchTrigger={searchTrigger}
+          includeRejected={includeRejected}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,166 @@
+import { Layers, Plus, X } from 'lucide-react';
+import type { FormField, FormFieldRepeat } from '../../lib/forms/types';
+import { DEFAULT_GROUP_MAX_ITEMS, GROUP_SUBFIELD_TYPES, getGroupSubFields } from '../../lib/forms/form-layout-utils';
+
+interface GroupFieldsEditorProps {
+  field: FormField;
+  fieldTypes: { value: string; label: string }[];
+  onChange: (updates: Partial<FormField>) => void;
+}
+
+const OPTION_TYPES: FormField['type'][] = ['select', 'multiselect', 'radio', 'checkbox'];
+
+export function GroupFieldsEditor({ field, fieldTypes, onChange }: GroupFieldsEditorProps) {
+  const subFields = getGroupSubFields(field);
+  const repeat: FormFieldRepeat = field.repeat || {};
+  const subFieldTypes = fieldTypes.filter(type => GROUP_SUBFIELD_TYPES.includes(type.value as FormField['type']));
+
+  const updateRepeat = (updates: Partial<FormFieldRepeat>) => {
+    onChange({ repeat: { ...repeat, ...updates } });
+  };
+
+  const updateSubField = (id: string, updates: Partial<FormField>) => {
+    onChange({ fields: subFields.map(f => f.id === id ? { ...f, ...updates } : f) });
+  };
+
+  const addSubField = () => {
+    const subField: FormField = {
+      id: `field_${Date.now()}`,
+      type: 'text',
+      label: '',
+      required: false,
+      order: subFields.length
+    };
+    onChange({ fields: [...subFields, subField] });
+  };
+
+  const removeSubField = (id: string) => {
+    onChange({
+      fields: subFields
+        .filter(f => f.id !== id)
+        .map((f, order) => ({ ...f, order }))
+    });
+  };
+
+  const inputClass = "w-full px-3 py-2.5 text-sm bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200 placeholder-slate-400";
+
+  return (
+    <div className="bg-slate-50/50 rounded-xl p-4 border border-slate-200 space-y-3">
+      <label className="flex items-center gap-2 text-xs font-semibold text-slate-600">
+        <Layers className="w-3.5 h-3.5" />
+        Fields in each entry
+      </label>
+
+      {subFields.map(subField => (
+        <div key={subField.id} className="bg-white rounded-xl p-3 border border-slate-200 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={subField.label}
+              onChange={(e) => updateSubField(subField.id, { label: e.target.value })}
+              className={inputClass}
+              placeholder="e.g., Serial Number"
+            />
+            <select
+              value={subField.type}
+              onChange={(e) => updateSubField(subField.id, { type: e.target.value as FormField['type'] })}
+              className="w-40 flex-shrink-0 px-3 py-2.5 text-sm bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200"
+            >
+              {subFieldTypes.map(type => (
+                <option key={type.value} value={type.value}>
+                  {type.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => removeSubField(subField.id)}
+              className="p-2 text-red-600 hover:bg-red-100 rounded-xl transition-all duration-200"
+              title="Remove field"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {OPTION_TYPES.includes(subField.type) && (
+            <div>
+              <textarea
+                value={(subField.options || []).join('\n')}
+                onChange={(e) => updateSubField(subField.id, { options: e.target.value.split('\n') })}
+                onBlur={() => updateSubField(subField.id, {
+                  options: (subField.options || []).map(o => o.trim()).filter(Boolean)
+                })}
+                rows={3}
+                className={inputClass}
+                placeholder="One option per line"
+              />
+              {subField.type === 'checkbox' && (
+                <p className="text-xs text-slate-400 mt-1">Leave empty for a single yes/no checkbox.</p>
+              )}
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 cursor-pointer text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={subField.required}
+              onChange={(e) => updateSubField(subField.id, { required: e.target.checked })}
+              className="w-4 h-4 text-[#015324] border-slate-300 rounded focus:ring-2 focus:ring-[#015324]"
+            />
+            Required in every entry
+          </label>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addSubField}
+        className="flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-[#015324] bg-[#015324]/5 hover:bg-[#015324]/10 rounded-xl transition-all duration-200 w-full justify-center border-2 border-dashed border-[#015324]/30"
+      >
+        <Plus className="w-4 h-4" />
+        Add Field to Group
+      </button>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1.5">
+            Min Entries
+          </label>
+          <input
+            type="number"
+            min={0}
+            value={repeat.minItems ?? ''}
+            onChange={(e) => updateRepeat({ minItems: e.target.value ? parseInt(e.target.value) : undefined })}
+            className={inputClass}
+            placeholder={field.required ? '1' : '0'}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1.5">
+            Max Entries
+          </label>
+          <input
+            type="number"
+            min={1}
+            value={repeat.maxItems ?? ''}
+            onChange={(e) => updateRepeat({ maxItems: e.target.value ? parseInt(e.target.value) : undefined })}
+            className={inputClass}
+            placeholder={String(DEFAULT_GROUP_MAX_ITEMS)}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1.5">
+            Add Button Label
+          </label>
+          <input
+            type="text"
+            value={repeat.addLabel || ''}
+            onChange={(e) => updateRepeat({ addLabel: e.target.value || undefined })}
+            className={inputClass}
+            placeholder="e.g., Add another device"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
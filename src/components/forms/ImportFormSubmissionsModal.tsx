@@ -1,6 +1,14 @@
-import { useState } from 'react';
-import { X, Upload, FileText, AlertCircle, CheckCircle, Download, Loader } from 'lucide-react';
-import { CSVImportService, PreviewData, ImportResult, ProgressUpdate } from '../../lib/forms/csv-import-service';
+import { useState, useEffect } from 'react';
+import { X, Upload, FileText, AlertCircle, CheckCircle, Download, Loader, Wand2, Save, Trash2 } from 'lucide-react';
+import { CSVImportService, CSVRow, PreviewData, ImportResult, ProgressUpdate } from '../../lib/forms/csv-import-service';
+import { FormService } from '../../lib/forms/form-service';
+import {
+  IMPORT_SYSTEM_COLUMNS,
+  getImportableFields,
+  reconcileMapping,
+  suggestMapping
+} from '../../lib/forms/import-mapping-utils';
+import type { Form, FormImportMapping, FormImportPreset, ImportSystemColumn } from '../../lib/forms/types';
 import { useToast } from '../../contexts/ToastContext';
 
 interface ImportFormSubmissionsModalProps {
@@ -10,7 +18,38 @@ interface ImportFormSubmissionsModalProps {
   onImportComplete?: () => void;
 }
 
-type Step = 'upload' | 'preview' | 'importing' | 'complete';
+type Step = 'upload' | 'mapping' | 'preview' | 'importing' | 'complete';
+
+const EMPTY_MAPPING: FormImportMapping = { fields: {}, system: {} };
+
+function targetForHeader(mapping: FormImportMapping, header: string): string {
+  const systemColumn = Object.entries(mapping.system).find(([, h]) => h === header)?.[0];
+  if (systemColumn) return `system:${systemColumn}`;
+  const fieldId = mapping.fields[header];
+  return fieldId ? `field:${fieldId}` : '';
+}
+
+function assignTarget(mapping: FormImportMapping, header: string, target: string): FormImportMapping {
+  const fields = { ...mapping.fields };
+  const system = { ...mapping.system };
+
+  delete fields[header];
+  (Object.keys(system) as ImportSystemColumn[]).forEach(column => {
+    if (system[column] === header) delete system[column];
+  });
+
+  if (target.startsWith('system:')) {
+    system[target.slice(7) as ImportSystemColumn] = header;
+  } else if (target.startsWith('field:')) {
+    const fieldId = target.slice(6);
+    Object.keys(fields).forEach(h => {
+      if (fields[h] === fieldId) delete fields[h];
+    });
+    fields[header] = fieldId;
+  }
+
+  return { fields, system };
+}
 
 export function ImportFormSubmissionsModal({
   isOpen,
@@ -19,14 +58,43 @@ export function ImportFormSubmissionsModal({
   onImportComplete
 }: ImportFormSubmissionsModalProps) {
   const [step, setStep] = useState<Step>('upload');
+  const [forms, setForms] = useState<Form[]>([]);
+  const [selectedFormId, setSelectedFormId] = useState('');
   const [file, setFile] = useState<File | null>(null);
-  const [csvText, setCsvText] = useState<string>('');
+  const [rows, setRows] = useState<CSVRow[]>([]);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<FormImportMapping>(EMPTY_MAPPING);
+  const [presets, setPresets] = useState<FormImportPreset[]>([]);
+  const [selectedPresetId, setSelectedPresetId] = useState('');
+  const [presetName, setPresetName] = useState('');
+  const [savingPreset, setSavingPreset] = useState(false);
   const [preview, setPreview] = useState<PreviewData | null>(null);
   const [importing, setImporting] = useState(false);
   const [progress, setProgress] = useState(0);
   const [progressDetails, setProgressDetails] = useState<ProgressUpdate | null>(null);
   const [result, setResult] = useState<ImportResult | null>(null);
-  const { showToast } = useToast();
+  const { showToast, confirm } = useToast();
+
+  const selectedForm = forms.find(f => f.id === selectedFormId) || null;
+  const importableFields = selectedForm ? getImportableFields(selectedForm.form_schema) : [];
+  const mappedFieldIds = new Set(Object.values(mapping.fields));
+  const unmappedRequired = importableFields.filter(f => f.required && !mappedFieldIds.has(f.id));
+  const missingSystem = IMPORT_SYSTEM_COLUMNS.filter(c => c.required && !mapping.system[c.value]);
+
+  useEffect(() => {
+    if (isOpen) {
+      FormService.listForms(orgId).then(setForms);
+    }
+  }, [isOpen, orgId]);
+
+  useEffect(() => {
+    setSelectedPresetId('');
+    if (selectedFormId) {
+      CSVImportService.listPresets(selectedFormId).then(setPresets);
+    } else {
+      setPresets([]);
+    }
+  }, [selectedFormId]);
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
@@ -42,28 +110,90 @@ export function ImportFormSubmissionsModal({
       return;
     }
 
+    const parsed = CSVImportService.parseCSV(await selectedFile.text());
+    if (parsed.length === 0) {
+      showToast('error', 'CSV file is empty', 'The file needs a header row and at least one data row.');
+      return;
+    }
+
     setFile(selectedFile);
-    const text = await selectedFile.text();
-    setCsvText(text);
+    setRows(parsed);
+    setHeaders(Object.keys(parsed[0]));
   };
 
-  const handlePreview = async () => {
-    if (!csvText) {
-      showToast('error', 'Please select a file first');
+  const handleContinueToMapping = () => {
+    if (!selectedForm || rows.length === 0) {
+      showToast('error', 'Select a form and a CSV file first');
       return;
     }
 
+    setMapping(suggestMapping(headers, selectedForm.form_schema));
+    setStep('mapping');
+  };
+
+  const handleAutoMatch = () => {
+    if (!selectedForm) return;
+    setSelectedPresetId('');
+    setMapping(suggestMapping(headers, selectedForm.form_schema));
+  };
+
+  const handleApplyPreset = (presetId: string) => {
+    setSelectedPresetId(presetId);
+    const preset = presets.find(p => p.id === presetId);
+    if (!preset || !selectedForm) return;
+
+    setMapping(reconcileMapping(preset.mapping, headers, selectedForm.form_schema));
+    setPresetName(preset.name);
+  };
+
+  const handleSavePreset = async () => {
+    if (!selectedForm || !presetName.trim()) return;
+
+    setSavingPreset(true);
     try {
-      const previewData = await CSVImportService.previewImport(csvText, orgId);
-      setPreview(previewData);
-      setStep('preview');
-    } catch (error: any) {
-      showToast('error', 'Failed to preview CSV', error.message);
+      const saved = await CSVImportService.savePreset(orgId, selectedForm.id, presetName.trim(), mapping);
+      if (!saved) {
+        showToast('error', 'Failed to save mapping preset');
+        return;
+      }
+      setPresets(await CSVImportService.listPresets(selectedForm.id));
+      setSelectedPresetId(saved.id);
+      showToast('success', 'Mapping preset saved', `"${saved.name}" can be reused for future imports.`);
+    } finally {
+      setSavingPreset(false);
+    }
+  };
+
+  const handleDeletePreset = async () => {
+    const preset = presets.find(p => p.id === selectedPresetId);
+    if (!preset) return;
+
+    const confirmed = await confirm('Delete Preset', `Delete the mapping preset "${preset.name}"?`);
+    if (!confirmed) return;
+
+    if (await CSVImportService.deletePreset(preset.id)) {
+      setPresets(presets.filter(p => p.id !== preset.id));
+      setSelectedPresetId('');
+    } else {
+      showToast('error', 'Failed to delete mapping preset');
+    }
+  };
+
+  const handlePreview = () => {
+    if (!selectedForm) return;
+
+    const validation = CSVImportService.validateCSV(rows, mapping);
+    if (!validation.valid) {
+      showToast('error', 'Mapping incomplete', validation.errors.join('. '));
+      return;
     }
+
+    setPreview(CSVImportService.previewImport(rows, selectedForm, mapping));
+    setStep('preview');
   };
 
   const handleImport = async () => {
-    if (!csvText) return;
+    if (!selectedForm || rows.length === 0) return;
 
     setImporting(true);
     setStep('importing');
@@ -71,7 +201,7 @@ export function ImportFormSubmissionsModal({
     setProgressDetails(null);
 
     try {
-      const importResult = await CSVImportService.importCSV(csvText, orgId, (update) => {
+      const importResult = await CSVImportService.importCSV(rows, orgId, selectedForm, mapping, (update) => {
         setProgress(update.progress);
         setProgressDetails(update);
       });
@@ -106,8 +236,12 @@ export function ImportFormSubmissionsModal({
   const handleClose = () => {
     if (!importing) {
       setStep('upload');
+      setSelectedFormId('');
       setFile(null);
-      setCsvText('');
+      setRows([]);
+      setHeaders([]);
+      setMapping(EMPTY_MAPPING);
+      setPresetName('');
       setPreview(null);
       setResult(null);
       setProgress(0);
@@ -122,7 +256,7 @@ export function ImportFormSubmissionsModal({
     const errorLines = [
       'Row,Error,Data',
       ...result.errors.map(e =>
-        `${e.row},"${e.error}","${e.data ? JSON.stringify(e.data).replace(/"/g, '""') : ''}"`
+        `${e.row},"${e.error.replace(/"/g, '""')}","${e.data ? JSON.stringify(e.data).replace(/"/g, '""') : ''}"`
       )
     ];
 
@@ -147,7 +281,11 @@ export function ImportFormSubmissionsModal({
             </div>
             <div>
               <h2 className="text-2xl font-bold text-slate-800">Import Form Submissions</h2>
-              <p className="text-sm text-slate-600">Import Centenary Bank supervision data from CSV</p>
+              <p className="text-sm text-slate-600">
+                {selectedForm && step !== 'upload'
+                  ? `Importing into ${selectedForm.title}`
+                  : 'Map CSV columns to any form and import its rows as submissions'}
+              </p>
             </div>
           </div>
           <button
@@ -162,11 +300,27 @@ export function ImportFormSubmissionsModal({
         <div className="p-6">
           {step === 'upload' && (
             <div className="space-y-6">
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-2">Form</label>
+                <select
+                  value={selectedFormId}
+                  onChange={(e) => setSelectedFormId(e.target.value)}
+                  className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Select the form to import into</option>
+                  {forms.map(form => (
+                    <option key={form.id} value={form.id}>
+                      {form.title}{form.is_active ? '' : ' (inactive)'}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <div className="border-2 border-dashed border-slate-300 rounded-xl p-8 text-center">
                 <FileText className="w-16 h-16 text-slate-400 mx-auto mb-4" />
                 <h3 className="text-lg font-semibold text-slate-800 mb-2">Select CSV File</h3>
                 <p className="text-sm text-slate-600 mb-4">
-                  Upload your Centenary Bank supervision data export (max 50MB)
+                  The first row must contain column headers (max 50MB)
                 </p>
                 <input
                   type="file"
@@ -185,21 +339,17 @@ export function ImportFormSubmissionsModal({
                 {file && (
                   <p className="mt-4 text-sm text-slate-700">
                     Selected: <span className="font-medium">{file.name}</span> (
-                    {(file.size / 1024 / 1024).toFixed(2)} MB)
+                    {(file.size / 1024 / 1024).toFixed(2)} MB, {rows.length.toLocaleString()} rows, {headers.length} columns)
                   </p>
                 )}
               </div>
 
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                <h4 className="font-semibold text-blue-900 mb-2">Required CSV Columns:</h4>
+                <h4 className="font-semibold text-blue-900 mb-2">What the CSV needs:</h4>
                 <ul className="text-sm text-blue-800 space-y-1 list-disc list-inside">
-                  <li>Terminal ID (agent code)</li>
-                  <li>Submitted On (date)</li>
-                  <li>Visit (cycle number)</li>
-                  <li>Emp. code (supervisor code)</li>
-                  <li>approved (true/false)</li>
-                  <li>latitude, longitude</li>
-                  <li>Question columns (Paper rolls delivered?, Agent Active?, etc.)</li>
+                  <li>A column with the agent / customer code for each row</li>
+                  <li>Optional: supervisor code, visit/cycle, submitted date, approved, latitude, longitude</li>
+                  <li>One column per question; you will match them to form fields in the next step</li>
                 </ul>
               </div>
 
@@ -210,12 +360,146 @@ export function ImportFormSubmissionsModal({
                 >
                   Cancel
                 </button>
+                <button
+                  onClick={handleContinueToMapping}
+                  disabled={!file || !selectedForm}
+                  className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Map Columns
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 'mapping' && selectedForm && (
+            <div className="space-y-6">
+              <div className="bg-slate-50 border border-slate-200 rounded-lg p-4 space-y-3">
+                <div className="flex flex-wrap items-center gap-3">
+                  <select
+                    value={selectedPresetId}
+                    onChange={(e) => handleApplyPreset(e.target.value)}
+                    className="flex-1 min-w-[12rem] px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">{presets.length > 0 ? 'Apply a saved mapping...' : 'No saved mappings for this form'}</option>
+                    {presets.map(preset => (
+                      <option key={preset.id} value={preset.id}>{preset.name}</option>
+                    ))}
+                  </select>
+                  {selectedPresetId && (
+                    <button
+                      onClick={handleDeletePreset}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title="Delete preset"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={handleAutoMatch}
+                    className="flex items-center gap-2 px-3 py-2 text-sm text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors"
+                  >
+                    <Wand2 className="w-4 h-4" />
+                    Auto-match
+                  </button>
+                </div>
+                <div className="flex items-center gap-3">
+                  <input
+                    type="text"
+                    value={presetName}
+                    onChange={(e) => setPresetName(e.target.value)}
+                    placeholder="Preset name, e.g. Monthly supervision export"
+                    className="flex-1 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <button
+                    onClick={handleSavePreset}
+                    disabled={!presetName.trim() || savingPreset}
+                    className="flex items-center gap-2 px-3 py-2 text-sm text-white bg-slate-700 rounded-lg hover:bg-slate-800 transition-colors disabled:opacity-50"
+                  >
+                    <Save className="w-4 h-4" />
+                    Save Mapping
+                  </button>
+                </div>
+              </div>
+
+              <div className="border border-slate-200 rounded-lg overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-100">
+                    <tr>
+                      <th className="px-3 py-2 text-left">CSV Column</th>
+                      <th className="px-3 py-2 text-left">Sample</th>
+                      <th className="px-3 py-2 text-left">Import As</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-200">
+                    {headers.map(header => {
+                      const target = targetForHeader(mapping, header);
+                      return (
+                        <tr key={header} className={target ? '' : 'bg-slate-50/60'}>
+                          <td className="px-3 py-2 font-medium text-slate-800">{header}</td>
+                          <td className="px-3 py-2 text-xs text-slate-500 max-w-[12rem] truncate">{rows[0]?.[header]}</td>
+                          <td className="px-3 py-2">
+                            <select
+                              value={target}
+                              onChange={(e) => {
+                                setSelectedPresetId('');
+                                setMapping(assignTarget(mapping, header, e.target.value));
+                              }}
+                              className="w-full px-2 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            >
+                              <option value="">Don't import</option>
+                              <optgroup label="Submission details">
+                                {IMPORT_SYSTEM_COLUMNS.map(column => (
+                                  <option key={column.value} value={`system:${column.value}`}>
+                                    {column.label}{column.required ? ' *' : ''}
+                                  </option>
+                                ))}
+                              </optgroup>
+                              <optgroup label="Form fields">
+                                {importableFields.map(field => (
+                                  <option key={field.id} value={`field:${field.id}`}>
+                                    {field.label}{field.required ? ' *' : ''}
+                                  </option>
+                                ))}
+                              </optgroup>
+                            </select>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              {(missingSystem.length > 0 || unmappedRequired.length > 0) && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 flex items-start gap-3">
+                  <AlertCircle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+                  <div className="text-sm text-amber-800 space-y-1">
+                    {missingSystem.map(column => (
+                      <p key={column.value}>Map a column to <span className="font-semibold">{column.label}</span> to continue.</p>
+                    ))}
+                    {unmappedRequired.length > 0 && (
+                      <p>
+                        Required fields without a column (rows will fail unless these are hidden by logic):{' '}
+                        <span className="font-semibold">{unmappedRequired.map(f => f.label).join(', ')}</span>
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-3">
+                <button
+                  onClick={() => setStep('upload')}
+                  className="px-6 py-3 text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+                >
+                  Back
+                </button>
                 <button
                   onClick={handlePreview}
-                  disabled={!file}
+                  disabled={missingSystem.length > 0}
                   className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  Preview Import
+                  Validate & Preview
                 </button>
               </div>
             </div>
@@ -226,14 +510,15 @@ export function ImportFormSubmissionsModal({
               <div className="bg-slate-50 border border-slate-200 rounded-lg p-4">
                 <h3 className="font-semibold text-slate-800 mb-2">Preview (First 5 Rows)</h3>
                 <p className="text-sm text-slate-600 mb-4">
-                  Total rows to import: <span className="font-semibold">{preview.rows.length}</span>
+                  <span className="font-semibold">{preview.validCount.toLocaleString()}</span> of{' '}
+                  <span className="font-semibold">{preview.totalRows.toLocaleString()}</span> rows passed validation
                 </p>
 
                 <div className="overflow-x-auto">
                   <table className="w-full text-sm">
                     <thead className="bg-slate-100">
                       <tr>
-                        <th className="px-3 py-2 text-left">Terminal ID</th>
+                        <th className="px-3 py-2 text-left">Agent Code</th>
                         <th className="px-3 py-2 text-left">Cycle</th>
                         <th className="px-3 py-2 text-left">Supervisor Code</th>
                         <th className="px-3 py-2 text-left">Status</th>
@@ -241,8 +526,8 @@ export function ImportFormSubmissionsModal({
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-200">
-                      {preview.mappedRows.map((row, idx) => (
-                        <tr key={idx} className="hover:bg-slate-50">
+                      {preview.mappedRows.map((row) => (
+                        <tr key={row.row} className={row.errors.length > 0 ? 'bg-red-50' : 'hover:bg-slate-50'}>
                           <td className="px-3 py-2 font-mono text-xs">{row.agent_code}</td>
                           <td className="px-3 py-2">{row.cycle_number}</td>
                           <td className="px-3 py-2 font-mono text-xs">{row.supervisor_code}</td>
@@ -258,7 +543,9 @@ export function ImportFormSubmissionsModal({
                             </span>
                           </td>
                           <td className="px-3 py-2 text-xs text-slate-600">
-                            {Object.keys(row.submission_data).length} fields
+                            {row.errors.length > 0
+                              ? <span className="text-red-700">{row.errors.length} issue{row.errors.length !== 1 ? 's' : ''}</span>
+                              : `${Object.keys(row.submission_data).length} fields`}
                           </td>
                         </tr>
                       ))}
@@ -267,29 +554,50 @@ export function ImportFormSubmissionsModal({
                 </div>
               </div>
 
+              {preview.invalidRows.length > 0 && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                  <h4 className="font-semibold text-red-900 mb-2">
+                    Rows That Will Fail ({preview.invalidRows.length.toLocaleString()})
+                  </h4>
+                  <div className="max-h-48 overflow-y-auto text-sm text-red-800 space-y-1">
+                    {preview.invalidRows.slice(0, 20).map(row => (
+                      <div key={row.row} className="font-mono text-xs">
+                        Row {row.row}: {row.errors.join('; ')}
+                      </div>
+                    ))}
+                    {preview.invalidRows.length > 20 && (
+                      <div className="text-red-600 font-medium">
+                        ...and {preview.invalidRows.length - 20} more
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
               <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 flex items-start gap-3">
                 <AlertCircle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
                 <div>
                   <h4 className="font-semibold text-amber-900 mb-1">Important Notes:</h4>
                   <ul className="text-sm text-amber-800 space-y-1 list-disc list-inside">
-                    <li>Duplicate submissions (same agent + cycle) will be skipped</li>
-                    <li>Rows with missing agent codes will fail</li>
-                    <li>Missing supervisor codes will be logged but won't prevent import</li>
-                    <li>Invalid data will be logged for review</li>
+                    <li>Duplicate submissions (same agent + cycle + month) will be skipped</li>
+                    <li>Rows with unknown agent codes or invalid values will fail</li>
+                    <li>Unknown supervisor codes will be logged but won't prevent import</li>
+                    <li>Submissions are pinned to the form's current version</li>
                   </ul>
                 </div>
               </div>
 
               <div className="flex justify-end gap-3">
                 <button
-                  onClick={() => setStep('upload')}
+                  onClick={() => setStep('mapping')}
                   className="px-6 py-3 text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
                 >
                   Back
                 </button>
                 <button
                   onClick={handleImport}
-                  className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                  disabled={preview.validCount === 0}
+                  className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   Start Import
                 </button>
@@ -0,0 +1,115 @@
+import { useState, useEffect } from 'react';
+import { Wifi, WifiOff, RefreshCw, AlertCircle, Trash2, ChevronDown, ChevronUp, UploadCloud } from 'lucide-react';
+import type { OutboxState } from '../../lib/forms/types';
+import { FormOutboxService } from '../../lib/forms/form-outbox-service';
+
+export function OutboxStatusBar() {
+  const [state, setState] = useState<OutboxState>({
+    online: FormOutboxService.isOnline(),
+    syncing: false,
+    entries: []
+  });
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => {
+    return FormOutboxService.subscribe(setState);
+  }, []);
+
+  const failedCount = state.entries.filter(e => e.status === 'failed').length;
+  const pendingCount = state.entries.length - failedCount;
+
+  if (state.online && state.entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`rounded-xl border ${failedCount > 0 ? 'border-rose-200 bg-rose-50' : state.online ? 'border-sky-200 bg-sky-50' : 'border-amber-200 bg-amber-50'}`}>
+      <div className="flex items-center justify-between gap-3 px-4 py-3">
+        <div className="flex items-center gap-3">
+          {state.online ? (
+            <Wifi className="w-5 h-5 text-sky-600" />
+          ) : (
+            <WifiOff className="w-5 h-5 text-amber-600" />
+          )}
+          <div>
+            <p className="text-sm font-semibold text-slate-800">
+              {state.online ? 'Online' : 'Offline'}
+              {state.syncing && ' · Syncing...'}
+            </p>
+            <p className="text-xs text-slate-600">
+              {pendingCount > 0
+                ? `${pendingCount} submission${pendingCount !== 1 ? 's' : ''} waiting to sync`
+                : state.online ? 'All submissions synced' : 'New submissions will be saved on this device'}
+              {failedCount > 0 && ` · ${failedCount} need${failedCount === 1 ? 's' : ''} attention`}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {state.online && pendingCount > 0 && (
+            <button
+              onClick={() => FormOutboxService.flush()}
+              disabled={state.syncing}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold text-white bg-[#015324] rounded-lg hover:bg-[#014a20] transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className={`w-3.5 h-3.5 ${state.syncing ? 'animate-spin' : ''}`} />
+              Sync now
+            </button>
+          )}
+          {state.entries.length > 0 && (
+            <button
+              onClick={() => setExpanded(!expanded)}
+              className="p-1.5 text-slate-600 hover:bg-white/60 rounded-lg transition-colors"
+            >
+              {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {expanded && state.entries.length > 0 && (
+        <div className="border-t border-slate-200/70 divide-y divide-slate-200/70">
+          {state.entries.map(entry => (
+            <div key={entry.id} className="flex items-center justify-between gap-3 px-4 py-2.5 bg-white/60">
+              <div className="flex items-start gap-2 min-w-0">
+                {entry.status === 'failed' ? (
+                  <AlertCircle className="w-4 h-4 text-rose-600 mt-0.5 flex-shrink-0" />
+                ) : (
+                  <UploadCloud className="w-4 h-4 text-slate-500 mt-0.5 flex-shrink-0" />
+                )}
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-slate-800 truncate">{entry.form_title}</p>
+                  <p className="text-xs text-slate-500">
+                    Captured {new Date(entry.queued_at).toLocaleString()}
+                    {entry.attempts > 0 && ` · ${entry.attempts} attempt${entry.attempts !== 1 ? 's' : ''}`}
+                  </p>
+                  {entry.last_error && (
+                    <p className="text-xs text-rose-600 mt-0.5">{entry.last_error}</p>
+                  )}
+                </div>
+              </div>
+              {entry.status === 'failed' && (
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => FormOutboxService.retry(entry.id)}
+                    className="p-1.5 text-[#015324] hover:bg-[#015324]/10 rounded-lg transition-colors"
+                    title="Retry"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => FormOutboxService.discard(entry.id)}
+                    className="p-1.5 text-rose-600 hover:bg-rose-100 rounded-lg transition-colors"
+                    title="Discard"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { Plus, Trash2 } from 'lucide-react';
+import type { FormField, FormGroupEntry } from '../../lib/forms/types';
+import { getGroupEntries, getGroupLimits, getGroupSubFields } from '../../lib/forms/form-layout-utils';
+
+interface RepeatableGroupFieldProps {
+  field: FormField;
+  value: unknown;
+  onChange: (entries: FormGroupEntry[]) => void;
+  inputClassName: string;
+}
+
+interface SubFieldInputProps {
+  field: FormField;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  inputClassName: string;
+}
+
+function SubFieldInput({ field, value, onChange, inputClassName }: SubFieldInputProps) {
+  const text = typeof value === 'string' ? value : '';
+
+  switch (field.type) {
+    case 'textarea':
+      return (
+        <textarea
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.placeholder}
+          rows={2}
+          className={inputClassName}
+        />
+      );
+
+    case 'select':
+      return (
+        <select value={text} onChange={(e) => onChange(e.target.value)} className={inputClassName}>
+          <option value="">Select an option</option>
+          {field.options?.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+
+    case 'radio':
+      return (
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          {field.options?.map(option => (
+            <label key={option} className="flex items-center gap-2 cursor-pointer text-sm text-slate-700">
+              <input
+                type="radio"
+                checked={value === option}
+                onChange={() => onChange(option)}
+                className="w-4 h-4 text-[#015324] border-slate-300 focus:ring-2 focus:ring-[#015324]"
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      );
+
+    case 'multiselect':
+    case 'checkbox': {
+      if (field.type === 'checkbox' && !field.options?.length) {
+        return (
+          <label className="flex items-center gap-2 cursor-pointer text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={value === true}
+              onChange={(e) => onChange(e.target.checked)}
+              className="w-4 h-4 text-[#015324] border-slate-300 rounded focus:ring-2 focus:ring-[#015324]"
+            />
+            {field.label}
+          </label>
+        );
+      }
+
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          {field.options?.map(option => (
+            <label key={option} className="flex items-center gap-2 cursor-pointer text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={selected.includes(option)}
+                onChange={(e) => onChange(e.target.checked ? [...selected, option] : selected.filter(v => v !== option))}
+                className="w-4 h-4 text-[#015324] border-slate-300 rounded focus:ring-2 focus:ring-[#015324]"
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    default:
+      return (
+        <input
+          type={field.type === 'phone' ? 'tel' : field.type}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.placeholder}
+          min={field.validation?.min}
+          max={field.validation?.max}
+          className={inputClassName}
+        />
+      );
+  }
+}
+
+/**
+ * Renders a repeatable group as a list of entry cards. Each entry is stored
+ * as an object keyed by sub-field id inside the group's array value.
+ */
+export function RepeatableGroupField({ field, value, onChange, inputClassName }: RepeatableGroupFieldProps) {
+  const entries = getGroupEntries(value);
+  const subFields = getGroupSubFields(field);
+  const { min, max } = getGroupLimits(field);
+
+  const updateEntry = (index: number, subFieldId: string, subValue: unknown) => {
+    onChange(entries.map((entry, i) => i === index ? { ...entry, [subFieldId]: subValue } : entry));
+  };
+
+  return (
+    <div className="space-y-3">
+      {entries.map((entry, index) => (
+        <div key={index} className="border border-slate-200 rounded-lg p-4 bg-slate-50/60 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-semibold text-slate-700">
+              {field.label} {index + 1}
+            </span>
+            {entries.length > min && (
+              <button
+                type="button"
+                onClick={() => onChange(entries.filter((_, i) => i !== index))}
+                className="p-1.5 text-red-600 hover:bg-red-100 rounded-lg transition-colors"
+                title="Remove"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+          {subFields.map(subField => (
+            <div key={subField.id}>
+              {!(subField.type === 'checkbox' && !subField.options?.length) && (
+                <label className="block text-xs font-medium text-slate-600 mb-1">
+                  {subField.label}
+                  {subField.required && <span className="text-red-500 ml-1">*</span>}
+                </label>
+              )}
+              <SubFieldInput
+                field={subField}
+                value={entry[subField.id]}
+                onChange={(subValue) => updateEntry(index, subField.id, subValue)}
+                inputClassName={inputClassName}
+              />
+            </div>
+          ))}
+        </div>
+      ))}
+
+      {entries.length === 0 && (
+        <p className="text-sm text-slate-500">No entries added yet.</p>
+      )}
+
+      {entries.length < max && (
+        <button
+          type="button"
+          onClick={() => onChange([...entries, {}])}
+          className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-[#015324] bg-[#015324]/5 hover:bg-[#015324]/10 rounded-lg border-2 border-dashed border-[#015324]/30 transition-colors w-full justify-center"
+        >
+          <Plus className="w-4 h-4" />
+          {field.repeat?.addLabel || `Add ${field.label || 'entry'}`}
+        </button>
+      )}
+    </div>
+  );
+}
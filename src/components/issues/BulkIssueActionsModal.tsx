@@ -0,0 +1,316 @@
+import { useState, useEffect } from 'react';
+import { X, Layers, AlertCircle, AlertTriangle, CheckCircle } from 'lucide-react';
+import { IssueService } from '../../lib/issues/issue-service';
+import type {
+  Issue,
+  IssuePriority,
+  IssueCategory,
+  IssueCustomStatus,
+  IssueStatusTransition,
+  BulkIssueChanges,
+  BulkUpdateResult
+} from '../../lib/issues/types';
+import { useToast } from '../../contexts/ToastContext';
+
+interface BulkIssueActionsModalProps {
+  orgId: string;
+  issues: Issue[];
+  users: { id: string; full_name: string }[];
+  categories: IssueCategory[];
+  statuses: IssueCustomStatus[];
+  onClose: () => void;
+  onComplete: (result: BulkUpdateResult) => void;
+}
+
+const NO_CHANGE = '';
+const CLEAR = '__clear__';
+
+function parseTags(value: string): string[] {
+  return Array.from(new Set(value.split(',').map(tag => tag.trim()).filter(Boolean)));
+}
+
+export function BulkIssueActionsModal({
+  orgId,
+  issues,
+  users,
+  categories,
+  statuses,
+  onClose,
+  onComplete
+}: BulkIssueActionsModalProps) {
+  const { showSuccess, showWarning, showError } = useToast();
+  const [transitions, setTransitions] = useState<IssueStatusTransition[]>([]);
+  const [assignedTo, setAssignedTo] = useState(NO_CHANGE);
+  const [statusId, setStatusId] = useState(NO_CHANGE);
+  const [priority, setPriority] = useState(NO_CHANGE);
+  const [categoryId, setCategoryId] = useState(NO_CHANGE);
+  const [dueDateMode, setDueDateMode] = useState(NO_CHANGE);
+  const [dueDate, setDueDate] = useState('');
+  const [tagsToAdd, setTagsToAdd] = useState('');
+  const [tagsToRemove, setTagsToRemove] = useState('');
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [result, setResult] = useState<BulkUpdateResult | null>(null);
+
+  useEffect(() => {
+    IssueService.getStatusTransitions(orgId).then(setTransitions);
+  }, [orgId]);
+
+  // Transition rules are per (from, to) pair, so look at every selected issue
+  const rulesForTarget = statusId
+    ? transitions.filter(t =>
+        t.to_status_id === statusId && issues.some(issue => issue.status_id === t.from_status_id)
+      )
+    : [];
+  const commentRequired = rulesForTarget.some(t => t.require_comment);
+  const extraRequirements = rulesForTarget.some(t => t.require_action_taken || t.require_attachment);
+
+  const buildChanges = (): BulkIssueChanges => {
+    const changes: BulkIssueChanges = {};
+    if (assignedTo) changes.assigned_to = assignedTo === CLEAR ? null : assignedTo;
+    if (statusId) changes.status_id = statusId;
+    if (priority) changes.priority = priority as IssuePriority;
+    if (categoryId) changes.category_id = categoryId === CLEAR ? null : categoryId;
+    if (dueDateMode === CLEAR) changes.due_date = null;
+    if (dueDateMode === 'set' && dueDate) changes.due_date = dueDate;
+
+    const add = parseTags(tagsToAdd);
+    const remove = parseTags(tagsToRemove);
+    if (add.length > 0) changes.tags_add = add;
+    if (remove.length > 0) changes.tags_remove = remove;
+    return changes;
+  };
+
+  const changes = buildChanges();
+  const hasChanges = Object.keys(changes).length > 0;
+
+  const handleApply = async () => {
+    if (!hasChanges) return;
+
+    if (commentRequired && !comment.trim()) {
+      showError('Comment Required', 'The selected status change requires a comment');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const data = await IssueService.bulkUpdateIssues(
+        issues.map(issue => issue.id),
+        changes,
+        comment.trim() || undefined
+      );
+
+      if (data.failed.length === 0) {
+        showSuccess('Issues Updated', `${data.updated.length} issue${data.updated.length === 1 ? '' : 's'} updated`);
+        onComplete(data);
+        return;
+      }
+
+      showWarning(
+        'Some Updates Failed',
+        `${data.updated.length} updated, ${data.failed.length} failed`
+      );
+      setResult(data);
+    } catch (error) {
+      showError('Bulk Update Failed', error instanceof Error ? error.message : 'Unable to update issues');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-3 bg-slate-50 border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 focus:bg-white transition-all text-slate-800 font-medium';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto animate-in slide-in-from-bottom-4 duration-300">
+        <div className="sticky top-0 bg-gradient-to-r from-emerald-600 to-emerald-700 p-6 flex items-center justify-between rounded-t-2xl">
+          <h2 className="text-2xl font-bold text-white flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-white/20 backdrop-blur-sm flex items-center justify-center">
+              <Layers className="w-5 h-5 text-white" />
+            </div>
+            Update {issues.length} Issue{issues.length === 1 ? '' : 's'}
+          </h2>
+          <button
+            onClick={result ? () => onComplete(result) : onClose}
+            className="text-white/80 hover:text-white transition-colors p-2 hover:bg-white/10 rounded-lg"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {result ? (
+          <div className="p-6 space-y-4">
+            <div className="flex items-center gap-3 p-4 bg-emerald-50 border-2 border-emerald-200 rounded-xl text-emerald-800">
+              <CheckCircle className="w-5 h-5 flex-shrink-0" />
+              <span className="font-medium">
+                {result.updated.length} issue{result.updated.length === 1 ? '' : 's'} updated
+              </span>
+            </div>
+            <div className="bg-red-50 border-2 border-red-200 rounded-xl p-4">
+              <div className="flex items-center gap-2 text-sm font-bold text-red-800 mb-3">
+                <AlertCircle className="w-4 h-4" />
+                {result.failed.length} issue{result.failed.length === 1 ? '' : 's'} could not be updated
+              </div>
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {result.failed.map(failure => (
+                  <div key={failure.issue_id} className="p-3 bg-white rounded-lg border border-red-100 text-sm">
+                    <span className="font-semibold text-slate-800 font-mono">
+                      {failure.issue_number || failure.issue_id}
+                    </span>
+                    <span className="text-red-700"> · {failure.error}</span>
+                  </div>
+                ))}
+              </div>
+              <p className="mt-3 text-xs text-red-700">
+                Failed issues stay selected so you can fix them and try again.
+              </p>
+            </div>
+            <div className="flex justify-end pt-4 border-t border-slate-200">
+              <button
+                onClick={() => onComplete(result)}
+                className="px-6 py-3 bg-gradient-to-r from-emerald-600 to-emerald-700 text-white rounded-xl hover:from-emerald-700 hover:to-emerald-800 transition-all font-semibold"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="p-6 space-y-5">
+            <p className="text-sm text-slate-600">
+              Only the fields you change are applied. Each issue is checked on its own, so issues
+              you cannot update are reported without stopping the rest.
+            </p>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-bold text-slate-700 mb-2">Assign To</label>
+                <select value={assignedTo} onChange={(e) => setAssignedTo(e.target.value)} className={inputClass}>
+                  <option value={NO_CHANGE}>No change</option>
+                  <option value={CLEAR}>Unassigned</option>
+                  {users.map(user => (
+                    <option key={user.id} value={user.id}>{user.full_name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-bold text-slate-700 mb-2">Status</label>
+                <select value={statusId} onChange={(e) => setStatusId(e.target.value)} className={inputClass}>
+                  <option value={NO_CHANGE}>No change</option>
+                  {statuses.filter(s => s.is_active).map(status => (
+                    <option key={status.id} value={status.id}>{status.display_name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-bold text-slate-700 mb-2">Priority</label>
+                <select value={priority} onChange={(e) => setPriority(e.target.value)} className={inputClass}>
+                  <option value={NO_CHANGE}>No change</option>
+                  <option value="low">Low</option>
+                  <option value="medium">Medium</option>
+                  <option value="high">High</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-bold text-slate-700 mb-2">Category</label>
+                <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)} className={inputClass}>
+                  <option value={NO_CHANGE}>No change</option>
+                  <option value={CLEAR}>No category</option>
+                  {categories.map(category => (
+                    <option key={category.id} value={category.id}>{category.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-bold text-slate-700 mb-2">Due Date</label>
+                <select value={dueDateMode} onChange={(e) => setDueDateMode(e.target.value)} className={inputClass}>
+                  <option value={NO_CHANGE}>No change</option>
+                  <option value="set">Set date</option>
+                  <option value={CLEAR}>Clear due date</option>
+                </select>
+              </div>
+
+              {dueDateMode === 'set' && (
+                <div>
+                  <label className="block text-sm font-bold text-slate-700 mb-2">New Due Date</label>
+                  <input
+                    type="date"
+                    value={dueDate}
+                    onChange={(e) => setDueDate(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-bold text-slate-700 mb-2">Add Tags</label>
+                <input
+                  type="text"
+                  value={tagsToAdd}
+                  onChange={(e) => setTagsToAdd(e.target.value)}
+                  className={inputClass}
+                  placeholder="Comma separated"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-bold text-slate-700 mb-2">Remove Tags</label>
+                <input
+                  type="text"
+                  value={tagsToRemove}
+                  onChange={(e) => setTagsToRemove(e.target.value)}
+                  className={inputClass}
+                  placeholder="Comma separated"
+                />
+              </div>
+            </div>
+
+            {extraRequirements && (
+              <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span>
+                  Some selected issues need an action taken or an attachment for this status change.
+                  Those issues will be reported as failed; update them individually.
+                </span>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-bold text-slate-700 mb-2">
+                Comment {commentRequired && <span className="text-red-500">*</span>}
+              </label>
+              <textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                rows={3}
+                className="w-full px-4 py-3 bg-slate-50 border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 focus:bg-white transition-all text-slate-800 placeholder:text-slate-400 resize-none"
+                placeholder={commentRequired ? 'Required for this status change' : 'Recorded in each issue\'s history (optional)'}
+              />
+            </div>
+
+            <div className="flex gap-3 pt-4 border-t border-slate-200">
+              <button
+                onClick={onClose}
+                className="flex-1 px-6 py-3 bg-slate-100 text-slate-700 rounded-xl hover:bg-slate-200 transition-all font-semibold"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleApply}
+                disabled={!hasChanges || saving}
+                className="flex-1 px-6 py-3 bg-gradient-to-r from-emerald-600 to-emerald-700 text-white rounded-xl hover:from-emerald-700 hover:to-emerald-800 transition-all font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving ? 'Updating...' : `Apply to ${issues.length} Issue${issues.length === 1 ? '' : 's'}`}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { X, AlertCircle, ClipboardCheck } from 'lucide-react';
+import { X, AlertCircle, ClipboardCheck, Copy } from 'lucide-react';
 import { IssueService } from '../../lib/issues/issue-service';
 import { supabase } from '../../lib/supabase/client';
-import type { IssueCategory, IssuePriority } from '../../lib/issues/types';
+import type { IssueCategory, IssueDuplicateCandidate, IssuePriority } from '../../lib/issues/types';
 
 interface CreateIssueModalProps {
   orgId: string;
@@ -18,6 +18,10 @@ export function CreateIssueModal({ orgId, onClose, onSuccess }: CreateIssueModal
   const [categoryId, setCategoryId] = useState('');
   const [assignedTo, setAssignedTo] = useState('');
   const [dueDate, setDueDate] = useState('');
+  const [customerId, setCustomerId] = useState('');
+  const [customers, setCustomers] = useState<{ id: string; customer_name: string }[]>([]);
+  const [duplicates, setDuplicates] = useState<IssueDuplicateCandidate[]>([]);
+  const [duplicateOfId, setDuplicateOfId] = useState('');
   const [categories, setCategories] = useState<IssueCategory[]>([]);
   const [users, setUsers] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
@@ -26,8 +30,28 @@ export function CreateIssueModal({ orgId, onClose, onSuccess }: CreateIssueModal
   useEffect(() => {
     loadCategories();
     loadUsers();
+    loadCustomers();
   }, []);
 
+  useEffect(() => {
+    if (title.trim().length < 5) {
+      setDuplicates([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      const candidates = await IssueService.findPossibleDuplicates(orgId, {
+        title,
+        customer_id: customerId || null,
+        category_id: categoryId || null
+      });
+      setDuplicates(candidates);
+      if (!candidates.some(c => c.issue.id === duplicateOfId)) setDuplicateOfId('');
+    }, 500);
+
+    return () => clearTimeout(timer);
+  }, [title, customerId, categoryId]);
+
   const loadCategories = async () => {
     const data = await IssueService.getCategories(orgId);
     setCategories(data);
@@ -45,6 +69,18 @@ export function CreateIssueModal({ orgId, onClose, onSuccess }: CreateIssueModal
     }
   };
 
+  const loadCustomers = async () => {
+    const { data } = await supabase
+      .from('customers')
+      .select('id, customer_name')
+      .eq('org_id', orgId)
+      .order('customer_name');
+
+    if (data) {
+      setCustomers(data);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -57,16 +93,21 @@ export function CreateIssueModal({ orgId, onClose, onSuccess }: CreateIssueModal
     setLoading(true);
 
     try {
-      await IssueService.createIssue(orgId, {
+      const issue = await IssueService.createIssue(orgId, {
         title,
         description,
         action_taken: actionTaken,
         priority,
         category_id: categoryId || undefined,
+        customer_id: customerId || undefined,
         assigned_to: assignedTo || undefined,
         due_date: dueDate || undefined
       });
 
+      if (issue && duplicateOfId) {
+        await IssueService.markDuplicate(issue.id, duplicateOfId, false);
+      }
+
       onSuccess();
     } catch (err) {
       setError('Failed to create issue. Please try again.');
@@ -118,6 +159,61 @@ export function CreateIssueModal({ orgId, onClose, onSuccess }: CreateIssueModal
             />
           </div>
 
+          <div>
+            <label className="block text-sm font-bold text-slate-700 mb-3">
+              Customer
+            </label>
+            <select
+              value={customerId}
+              onChange={(e) => setCustomerId(e.target.value)}
+              className="w-full px-4 py-3.5 bg-slate-50 border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 focus:bg-white transition-all text-slate-800 font-medium"
+            >
+              <option value="">No customer</option>
+              {customers.map((customer) => (
+                <option key={customer.id} value={customer.id}>
+                  {customer.customer_name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {duplicates.length > 0 && (
+            <div className="bg-sky-50 border-2 border-sky-200 rounded-xl p-4">
+              <div className="flex items-center gap-2 text-sm font-bold text-sky-800 mb-1">
+                <Copy className="w-4 h-4" />
+                Possible duplicates
+              </div>
+              <p className="text-xs text-sky-700 mb-3">
+                These open issues look similar. Select one to file this report as its duplicate, or continue to create a new issue.
+              </p>
+              <div className="space-y-2">
+                {duplicates.map(({ issue, reasons }) => (
+                  <label
+                    key={issue.id}
+                    className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                      duplicateOfId === issue.id ? 'bg-white border-sky-400' : 'bg-white/60 border-sky-100 hover:bg-white'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={duplicateOfId === issue.id}
+                      onChange={(e) => setDuplicateOfId(e.target.checked ? issue.id : '')}
+                      className="mt-1 w-4 h-4 text-sky-600 border-slate-300 rounded focus:ring-sky-500"
+                    />
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold text-slate-800 truncate">
+                        {issue.issue_number} · {issue.title}
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        {reasons.join(' · ') || 'Similar report'} · {new Date(issue.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-bold text-slate-700 mb-3">
               Description
@@ -205,6 +301,7 @@ export function CreateIssueModal({ orgId, onClose, onSuccess }: CreateIssueModal
                   </option>
                 ))}
               </select>
+              <p className="mt-1 text-xs text-slate-500">Leave unassigned to apply your assignment rules.</p>
             </div>
 
             <div>
@@ -233,7 +330,7 @@ export function CreateIssueModal({ orgId, onClose, onSuccess }: CreateIssueModal
               disabled={loading}
               className="flex-1 px-6 py-3.5 bg-gradient-to-r from-emerald-600 to-emerald-700 text-white rounded-xl hover:from-emerald-700 hover:to-emerald-800 transition-all font-semibold shadow-lg shadow-emerald-500/30 disabled:opacity-50 disabled:cursor-not-allowed disabled:shadow-none"
             >
-              {loading ? 'Creating...' : 'Create Issue'}
+              {loading ? 'Creating...' : duplicateOfId ? 'Create as Duplicate' : 'Create Issue'}
             </button>
           </div>
         </form>
@@ -0,0 +1,427 @@
+import { useState, useEffect } from 'react';
+import { Plus, Edit2, Trash2, Save, Route, ArrowUp, ArrowDown, Archive, ArchiveRestore } from 'lucide-react';
+import { IssueService } from '../../lib/issues/issue-service';
+import { UserService } from '../../lib/users/user-service';
+import { OrgStructureService } from '../../lib/organization/org-structure-service';
+import {
+  ASSIGNMENT_STRATEGY_DESCRIPTIONS,
+  ASSIGNMENT_STRATEGY_LABELS,
+  normalizeAssignmentRule,
+  validateAssignmentRule
+} from '../../lib/issues/assignment-utils';
+import type {
+  AssignmentStrategy,
+  IssueAssignmentRule,
+  IssueAssignmentRuleInput,
+  IssueCategory,
+  IssuePriority
+} from '../../lib/issues/types';
+import type { Branch, Region, User } from '../../lib/supabase/types';
+import { useToast } from '../../contexts/ToastContext';
+
+interface IssueAssignmentRulesPanelProps {
+  orgId: string;
+  categories: IssueCategory[];
+}
+
+const EMPTY_RULE: IssueAssignmentRuleInput = {
+  name: '',
+  category_id: null,
+  priority: null,
+  region_id: null,
+  branch_id: null,
+  strategy: 'user',
+  target_user_id: null,
+  pool_user_ids: [],
+  team_lead_id: null
+};
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500';
+
+export function IssueAssignmentRulesPanel({ orgId, categories }: IssueAssignmentRulesPanelProps) {
+  const { showSuccess, showError, showWarning, confirm } = useToast();
+  const [rules, setRules] = useState<IssueAssignmentRule[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState<{ id: string | null; rule: IssueAssignmentRuleInput } | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, [orgId]);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [ruleData, userResult, regionResult, branchResult] = await Promise.all([
+        IssueService.getAssignmentRules(orgId),
+        UserService.getUsers({ orgId, status: 'active' }),
+        OrgStructureService.getRegions(orgId),
+        OrgStructureService.getBranches(orgId)
+      ]);
+      setRules(ruleData);
+      setUsers([...userResult.data].sort((a, b) => a.full_name.localeCompare(b.full_name)));
+      setRegions(regionResult.data as Region[]);
+      setBranches(branchResult.data as Branch[]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadRules = async () => {
+    setRules(await IssueService.getAssignmentRules(orgId));
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    const problem = validateAssignmentRule(editing.rule);
+    if (problem) {
+      showWarning('Incomplete Rule', problem);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await IssueService.saveAssignmentRule(orgId, normalizeAssignmentRule(editing.rule), editing.id || undefined);
+      showSuccess('Rule Saved', editing.rule.name);
+      setEditing(null);
+      loadRules();
+    } catch {
+      showError('Save Failed', 'Unable to save assignment rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setRules(reordered);
+
+    if (!(await IssueService.reorderAssignmentRules(reordered.map(r => r.id)))) {
+      showError('Reorder Failed', 'Unable to change rule order');
+      loadRules();
+    }
+  };
+
+  const handleToggleActive = async (rule: IssueAssignmentRule) => {
+    if (await IssueService.setAssignmentRuleActive(rule.id, !rule.is_active)) {
+      showSuccess(rule.is_active ? 'Rule Disabled' : 'Rule Enabled', rule.name);
+      loadRules();
+    } else {
+      showError('Update Failed', 'Unable to update assignment rule');
+    }
+  };
+
+  const handleDelete = async (rule: IssueAssignmentRule) => {
+    const confirmed = await confirm('Delete Rule', `Delete "${rule.name}"? Existing assignments are not changed.`);
+    if (!confirmed) return;
+
+    if (await IssueService.deleteAssignmentRule(rule.id)) {
+      showSuccess('Rule Deleted', rule.name);
+      loadRules();
+    } else {
+      showError('Delete Failed', 'Unable to delete assignment rule');
+    }
+  };
+
+  const updateRule = (updates: Partial<IssueAssignmentRuleInput>) => {
+    if (editing) setEditing({ ...editing, rule: { ...editing.rule, ...updates } });
+  };
+
+  const togglePoolUser = (userId: string) => {
+    if (!editing) return;
+    const pool = editing.rule.pool_user_ids;
+    updateRule({
+      pool_user_ids: pool.includes(userId) ? pool.filter(id => id !== userId) : [...pool, userId]
+    });
+  };
+
+  const userName = (userId: string | null) => users.find(u => u.id === userId)?.full_name || 'Unknown user';
+
+  const describeConditions = (rule: IssueAssignmentRule) => {
+    const parts = [
+      categories.find(c => c.id === rule.category_id)?.name,
+      rule.priority ? `${rule.priority.charAt(0).toUpperCase()}${rule.priority.slice(1)} priority` : null,
+      regions.find(r => r.id === rule.region_id)?.name,
+      branches.find(b => b.id === rule.branch_id)?.name
+    ];
+    return parts.filter(Boolean).join(' · ') || 'All new issues';
+  };
+
+  const describeTarget = (rule: IssueAssignmentRule) => {
+    if (rule.strategy === 'user') return `Assign to ${userName(rule.target_user_id)}`;
+    if (rule.strategy === 'round_robin') {
+      return `Rotate through ${rule.pool_user_ids.map(userName).join(', ')}`;
+    }
+    return `Least-loaded member of ${userName(rule.team_lead_id)}'s team`;
+  };
+
+  const branchOptions = editing?.rule.region_id
+    ? branches.filter(b => b.region_id === editing.rule.region_id)
+    : branches;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-4 border-emerald-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-slate-600">
+          Issues created without an assignee are routed by the first matching rule. Territory and branch come from the issue's customer.
+        </p>
+        <button
+          onClick={() => setEditing({ id: null, rule: EMPTY_RULE })}
+          className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors flex-shrink-0"
+        >
+          <Plus className="w-4 h-4" />
+          Add Rule
+        </button>
+      </div>
+
+      {editing && (
+        <div className="bg-slate-50 rounded-xl p-4 space-y-4 border border-slate-200">
+          <h4 className="font-medium text-slate-800">{editing.id ? 'Edit Assignment Rule' : 'New Assignment Rule'}</h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={editing.rule.name}
+                onChange={(e) => updateRule({ name: e.target.value })}
+                className={inputClass}
+                placeholder="e.g., North region equipment faults"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Category</label>
+              <select
+                value={editing.rule.category_id || ''}
+                onChange={(e) => updateRule({ category_id: e.target.value || null })}
+                className={inputClass}
+              >
+                <option value="">Any category</option>
+                {categories.map(category => (
+                  <option key={category.id} value={category.id}>{category.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Priority</label>
+              <select
+                value={editing.rule.priority || ''}
+                onChange={(e) => updateRule({ priority: (e.target.value || null) as IssuePriority | null })}
+                className={inputClass}
+              >
+                <option value="">Any priority</option>
+                <option value="high">High</option>
+                <option value="medium">Medium</option>
+                <option value="low">Low</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Customer territory</label>
+              <select
+                value={editing.rule.region_id || ''}
+                onChange={(e) => updateRule({ region_id: e.target.value || null, branch_id: null })}
+                className={inputClass}
+              >
+                <option value="">Any territory</option>
+                {regions.map(region => (
+                  <option key={region.id} value={region.id}>{region.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Customer branch</label>
+              <select
+                value={editing.rule.branch_id || ''}
+                onChange={(e) => updateRule({ branch_id: e.target.value || null })}
+                className={inputClass}
+              >
+                <option value="">Any branch</option>
+                {branchOptions.map(branch => (
+                  <option key={branch.id} value={branch.id}>{branch.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Assign using</label>
+              <select
+                value={editing.rule.strategy}
+                onChange={(e) => updateRule({ strategy: e.target.value as AssignmentStrategy })}
+                className={inputClass}
+              >
+                {(Object.keys(ASSIGNMENT_STRATEGY_LABELS) as AssignmentStrategy[]).map(strategy => (
+                  <option key={strategy} value={strategy}>{ASSIGNMENT_STRATEGY_LABELS[strategy]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs text-slate-500 mb-2">{ASSIGNMENT_STRATEGY_DESCRIPTIONS[editing.rule.strategy]}</p>
+            {editing.rule.strategy === 'user' && (
+              <select
+                value={editing.rule.target_user_id || ''}
+                onChange={(e) => updateRule({ target_user_id: e.target.value || null })}
+                className={inputClass}
+              >
+                <option value="">Select user</option>
+                {users.map(user => (
+                  <option key={user.id} value={user.id}>{user.full_name}</option>
+                ))}
+              </select>
+            )}
+            {editing.rule.strategy === 'round_robin' && (
+              <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
+                {users.map(user => (
+                  <button
+                    key={user.id}
+                    type="button"
+                    onClick={() => togglePoolUser(user.id)}
+                    className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                      editing.rule.pool_user_ids.includes(user.id)
+                        ? 'bg-emerald-600 text-white'
+                        : 'bg-white border border-slate-300 text-slate-600 hover:bg-slate-100'
+                    }`}
+                  >
+                    {user.full_name}
+                  </button>
+                ))}
+              </div>
+            )}
+            {editing.rule.strategy === 'least_loaded' && (
+              <select
+                value={editing.rule.team_lead_id || ''}
+                onChange={(e) => updateRule({ team_lead_id: e.target.value || null })}
+                className={inputClass}
+              >
+                <option value="">Select team lead</option>
+                {users.map(user => (
+                  <option key={user.id} value={user.id}>{user.full_name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setEditing(null)}
+              className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {rules.length === 0 && !editing ? (
+        <div className="text-center py-8 text-slate-500">
+          <Route className="w-10 h-10 mx-auto mb-2 text-slate-300" />
+          <p>No assignment rules yet. New issues stay unassigned unless the reporter picks someone.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((rule, index) => (
+            <div
+              key={rule.id}
+              className={`flex items-center justify-between p-4 rounded-xl border border-slate-200 ${
+                rule.is_active ? 'bg-white' : 'bg-slate-50 opacity-60'
+              }`}
+            >
+              <div className="flex items-center gap-3">
+                <span className="w-7 h-7 flex items-center justify-center rounded-lg bg-slate-100 text-sm font-bold text-slate-600">
+                  {index + 1}
+                </span>
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-slate-800">{rule.name}</span>
+                    {!rule.is_active && (
+                      <span className="text-xs px-2 py-0.5 bg-slate-200 text-slate-600 rounded">Disabled</span>
+                    )}
+                  </div>
+                  <p className="text-sm text-slate-500">{describeConditions(rule)}</p>
+                  <p className="text-xs text-slate-400 mt-0.5">{describeTarget(rule)}</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => handleMove(index, -1)}
+                  disabled={index === 0}
+                  className="p-2 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ArrowUp className="w-4 h-4 text-slate-500" />
+                </button>
+                <button
+                  onClick={() => handleMove(index, 1)}
+                  disabled={index === rules.length - 1}
+                  className="p-2 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ArrowDown className="w-4 h-4 text-slate-500" />
+                </button>
+                <button
+                  onClick={() => setEditing({
+                    id: rule.id,
+                    rule: {
+                      name: rule.name,
+                      category_id: rule.category_id,
+                      priority: rule.priority,
+                      region_id: rule.region_id,
+                      branch_id: rule.branch_id,
+                      strategy: rule.strategy,
+                      target_user_id: rule.target_user_id,
+                      pool_user_ids: rule.pool_user_ids,
+                      team_lead_id: rule.team_lead_id
+                    }
+                  })}
+                  className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                  title="Edit rule"
+                >
+                  <Edit2 className="w-4 h-4 text-slate-500" />
+                </button>
+                <button
+                  onClick={() => handleToggleActive(rule)}
+                  className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                  title={rule.is_active ? 'Disable rule' : 'Enable rule'}
+                >
+                  {rule.is_active
+                    ? <Archive className="w-4 h-4 text-slate-500" />
+                    : <ArchiveRestore className="w-4 h-4 text-slate-500" />}
+                </button>
+                <button
+                  onClick={() => handleDelete(rule)}
+                  className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                  title="Delete rule"
+                >
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
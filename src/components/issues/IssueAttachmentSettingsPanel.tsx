@@ -0,0 +1,106 @@
+import { useState, useEffect } from 'react';
+import { Paperclip, Save } from 'lucide-react';
+import { IssueService } from '../../lib/issues/issue-service';
+import { DEFAULT_ATTACHMENT_SETTINGS, validateAttachmentSettings } from '../../lib/issues/attachment-utils';
+import type { IssueAttachmentSettings } from '../../lib/issues/types';
+import { useToast } from '../../contexts/ToastContext';
+
+interface IssueAttachmentSettingsPanelProps {
+  orgId: string;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500';
+
+export function IssueAttachmentSettingsPanel({ orgId }: IssueAttachmentSettingsPanelProps) {
+  const { showSuccess, showError, showWarning } = useToast();
+  const [settings, setSettings] = useState<IssueAttachmentSettings>({ org_id: orgId, ...DEFAULT_ATTACHMENT_SETTINGS });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, [orgId]);
+
+  const loadSettings = async () => {
+    setLoading(true);
+    try {
+      const data = await IssueService.getAttachmentSettings(orgId);
+      if (data) setSettings(data);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const problem = validateAttachmentSettings(settings);
+    if (problem) {
+      showWarning('Invalid Limits', problem);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (await IssueService.saveAttachmentSettings(settings)) {
+        showSuccess('Attachment Limits Saved', 'New uploads will use these limits');
+      } else {
+        showError('Save Failed', 'Unable to save attachment limits');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-4 border-emerald-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-50 rounded-xl p-4 space-y-4 border border-slate-200">
+      <div className="flex items-center gap-2">
+        <Paperclip className="w-4 h-4 text-slate-600" />
+        <h4 className="font-medium text-slate-800">Attachment Limits</h4>
+      </div>
+      <p className="text-sm text-slate-600">
+        Applies to photos and documents attached to issues. Existing attachments are not affected.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Largest file (MB)</label>
+          <input
+            type="number"
+            min={1}
+            max={50}
+            value={settings.max_file_size_mb}
+            onChange={(e) => setSettings({ ...settings, max_file_size_mb: Number(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Files per issue</label>
+          <input
+            type="number"
+            min={1}
+            max={100}
+            value={settings.max_files_per_issue}
+            onChange={(e) => setSettings({ ...settings, max_files_per_issue: Number(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          {saving ? 'Saving...' : 'Save Limits'}
+        </button>
+      </div>
+    </div>
+  );
+}
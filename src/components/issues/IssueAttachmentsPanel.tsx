@@ -0,0 +1,286 @@
+import { useState, useEffect, useRef } from 'react';
+import { Paperclip, Camera, Upload, Download, Trash2, X, ChevronLeft, ChevronRight, FileText, Loader } from 'lucide-react';
+import { IssueService } from '../../lib/issues/issue-service';
+import {
+  DEFAULT_ATTACHMENT_SETTINGS,
+  formatFileSize,
+  isImageAttachment,
+  validateAttachmentFile
+} from '../../lib/issues/attachment-utils';
+import type { IssueAttachment, IssueAttachmentSettings } from '../../lib/issues/types';
+import { useToast } from '../../contexts/ToastContext';
+
+interface IssueAttachmentsPanelProps {
+  issueId: string;
+  orgId: string;
+  currentUserId: string | null;
+  canDeleteAny: boolean;
+}
+
+export function IssueAttachmentsPanel({ issueId, orgId, currentUserId, canDeleteAny }: IssueAttachmentsPanelProps) {
+  const { showSuccess, showError, showWarning, confirm } = useToast();
+  const [attachments, setAttachments] = useState<IssueAttachment[]>([]);
+  const [limits, setLimits] = useState<Omit<IssueAttachmentSettings, 'org_id'>>(DEFAULT_ATTACHMENT_SETTINGS);
+  const [uploading, setUploading] = useState(false);
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+
+  const images = attachments.filter(isImageAttachment);
+  const documents = attachments.filter(a => !isImageAttachment(a));
+  const preview = previewIndex !== null ? images[previewIndex] : null;
+
+  useEffect(() => {
+    loadAttachments();
+    IssueService.getAttachmentSettings(orgId).then(settings => {
+      if (settings) setLimits(settings);
+    });
+  }, [issueId, orgId]);
+
+  const loadAttachments = async () => {
+    setAttachments(await IssueService.getAttachments(issueId));
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setUploading(true);
+    let uploaded = 0;
+    try {
+      for (const file of Array.from(files)) {
+        const problem = validateAttachmentFile(file, limits, attachments.length + uploaded);
+        if (problem) {
+          showWarning('Attachment Not Added', problem);
+          continue;
+        }
+
+        try {
+          await IssueService.uploadAttachment(issueId, file);
+          uploaded++;
+        } catch (error) {
+          showError('Upload Failed', error instanceof Error ? error.message : `Could not upload ${file.name}`);
+        }
+      }
+
+      if (uploaded > 0) {
+        showSuccess('Attachments Added', `${uploaded} file${uploaded !== 1 ? 's' : ''} uploaded`);
+        loadAttachments();
+      }
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDownload = async (attachment: IssueAttachment) => {
+    const blob = await IssueService.downloadAttachment(attachment);
+    if (!blob) {
+      showError('Download Failed', `Could not download ${attachment.file_name}`);
+      return;
+    }
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = attachment.file_name;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDelete = async (attachment: IssueAttachment) => {
+    const confirmed = await confirm('Delete Attachment', `Delete "${attachment.file_name}"? This cannot be undone.`);
+    if (!confirmed) return;
+
+    if (await IssueService.deleteAttachment(attachment)) {
+      setPreviewIndex(null);
+      showSuccess('Attachment Deleted', attachment.file_name);
+      loadAttachments();
+    } else {
+      showError('Delete Failed', 'Unable to delete attachment');
+    }
+  };
+
+  const canDelete = (attachment: IssueAttachment) => canDeleteAny || attachment.uploaded_by === currentUserId;
+
+  const showPrevious = () => {
+    if (previewIndex !== null) setPreviewIndex((previewIndex - 1 + images.length) % images.length);
+  };
+
+  const showNext = () => {
+    if (previewIndex !== null) setPreviewIndex((previewIndex + 1) % images.length);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 rounded-lg bg-slate-100 flex items-center justify-center">
+            <Paperclip className="w-4 h-4 text-slate-600" />
+          </div>
+          <h3 className="text-sm font-bold text-slate-700 uppercase tracking-wide">Attachments</h3>
+          <span className="px-2 py-0.5 bg-slate-100 text-slate-600 rounded text-xs font-bold">{attachments.length}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => cameraInputRef.current?.click()}
+            disabled={uploading}
+            className="flex items-center gap-2 px-3 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors text-sm font-medium disabled:opacity-50"
+          >
+            <Camera className="w-4 h-4" />
+            Take Photo
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploading}
+            className="flex items-center gap-2 px-3 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors text-sm font-medium disabled:opacity-50"
+          >
+            {uploading ? <Loader className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            {uploading ? 'Uploading...' : 'Upload'}
+          </button>
+          <input
+            ref={cameraInputRef}
+            type="file"
+            accept="image/*"
+            capture="environment"
+            className="hidden"
+            onChange={(e) => {
+              handleFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              handleFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-slate-500 mb-4">
+        Up to {limits.max_files_per_issue} files, {limits.max_file_size_mb} MB each
+      </p>
+
+      {attachments.length === 0 ? (
+        <div className="text-center py-6 text-slate-400">
+          <Paperclip className="w-10 h-10 mx-auto mb-2 opacity-50" />
+          <p className="text-sm">No attachments yet. Add photos of the fault or supporting documents.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {images.length > 0 && (
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+              {images.map((attachment, index) => (
+                <button
+                  key={attachment.id}
+                  onClick={() => setPreviewIndex(index)}
+                  className="aspect-square rounded-xl overflow-hidden border-2 border-slate-200 hover:border-emerald-500 transition-colors bg-slate-50"
+                  title={attachment.file_name}
+                >
+                  <img src={attachment.file_url} alt={attachment.file_name} className="w-full h-full object-cover" loading="lazy" />
+                </button>
+              ))}
+            </div>
+          )}
+
+          {documents.length > 0 && (
+            <div className="space-y-2">
+              {documents.map(attachment => (
+                <div key={attachment.id} className="flex items-center justify-between p-3 rounded-xl border border-slate-200 bg-slate-50">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <FileText className="w-5 h-5 text-slate-500 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-slate-800 truncate">{attachment.file_name}</p>
+                      <p className="text-xs text-slate-500">
+                        {formatFileSize(attachment.file_size)} · {attachment.uploader?.full_name || 'Unknown'} · {new Date(attachment.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => handleDownload(attachment)}
+                      className="p-2 hover:bg-slate-200 rounded-lg transition-colors"
+                      title="Download"
+                    >
+                      <Download className="w-4 h-4 text-slate-600" />
+                    </button>
+                    {canDelete(attachment) && (
+                      <button
+                        onClick={() => handleDelete(attachment)}
+                        className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {preview && (
+        <div className="fixed inset-0 bg-black/90 flex flex-col items-center justify-center z-[60] p-4" onClick={() => setPreviewIndex(null)}>
+          <div className="absolute top-4 right-4 flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+            <button
+              onClick={() => handleDownload(preview)}
+              className="p-2 bg-white/10 hover:bg-white/20 rounded-lg transition-colors"
+              title="Download"
+            >
+              <Download className="w-5 h-5 text-white" />
+            </button>
+            {canDelete(preview) && (
+              <button
+                onClick={() => handleDelete(preview)}
+                className="p-2 bg-white/10 hover:bg-red-500/60 rounded-lg transition-colors"
+                title="Delete"
+              >
+                <Trash2 className="w-5 h-5 text-white" />
+              </button>
+            )}
+            <button
+              onClick={() => setPreviewIndex(null)}
+              className="p-2 bg-white/10 hover:bg-white/20 rounded-lg transition-colors"
+              title="Close"
+            >
+              <X className="w-5 h-5 text-white" />
+            </button>
+          </div>
+
+          {images.length > 1 && (
+            <>
+              <button
+                onClick={(e) => { e.stopPropagation(); showPrevious(); }}
+                className="absolute left-4 p-3 bg-white/10 hover:bg-white/20 rounded-full transition-colors"
+              >
+                <ChevronLeft className="w-6 h-6 text-white" />
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); showNext(); }}
+                className="absolute right-4 p-3 bg-white/10 hover:bg-white/20 rounded-full transition-colors"
+              >
+                <ChevronRight className="w-6 h-6 text-white" />
+              </button>
+            </>
+          )}
+
+          <img
+            src={preview.file_url}
+            alt={preview.file_name}
+            className="max-w-full max-h-[80vh] rounded-lg object-contain"
+            onClick={(e) => e.stopPropagation()}
+          />
+          <p className="mt-4 text-sm text-white/80">
+            {preview.file_name} · {formatFileSize(preview.file_size)} · {preview.uploader?.full_name || 'Unknown'}
+            {images.length > 1 && ` · ${(previewIndex ?? 0) + 1} of ${images.length}`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState, useEffect } from 'react';
+import { ListChecks, CheckSquare, Square, Repeat } from 'lucide-react';
+import { IssueService } from '../../lib/issues/issue-service';
+import type { Issue, IssueChecklistItem } from '../../lib/issues/types';
+import { useToast } from '../../contexts/ToastContext';
+
+interface IssueChecklistPanelProps {
+  issue: Issue;
+}
+
+export function IssueChecklistPanel({ issue }: IssueChecklistPanelProps) {
+  const { showError } = useToast();
+  const [checklist, setChecklist] = useState<IssueChecklistItem[]>(issue.checklist || []);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setChecklist(issue.checklist || []);
+  }, [issue.id, issue.checklist]);
+
+  const handleToggle = async (index: number) => {
+    const previous = checklist;
+    const next = checklist.map((entry, i) => (i === index ? { ...entry, done: !entry.done } : entry));
+    setChecklist(next);
+
+    setSaving(true);
+    if (!(await IssueService.updateChecklist(issue.id, next))) {
+      setChecklist(previous);
+      showError('Update Failed', 'Unable to update checklist');
+    }
+    setSaving(false);
+  };
+
+  const doneCount = checklist.filter(entry => entry.done).length;
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 rounded-lg bg-violet-100 flex items-center justify-center">
+            <ListChecks className="w-4 h-4 text-violet-600" />
+          </div>
+          <h3 className="text-sm font-bold text-slate-700 uppercase tracking-wide">Checklist</h3>
+        </div>
+        <span className="text-sm font-semibold text-slate-600">
+          {doneCount}/{checklist.length}
+        </span>
+      </div>
+
+      {issue.recurrence_date && (
+        <div className="flex items-center gap-2 mb-3 text-xs text-slate-500">
+          <Repeat className="w-3.5 h-3.5" />
+          Scheduled check for {new Date(`${issue.recurrence_date}T00:00:00`).toLocaleDateString()}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {checklist.map((entry, index) => (
+          <button
+            key={index}
+            onClick={() => handleToggle(index)}
+            disabled={saving}
+            className="w-full flex items-center gap-3 p-2 rounded-lg hover:bg-slate-50 transition-colors text-left disabled:cursor-wait"
+          >
+            {entry.done
+              ? <CheckSquare className="w-5 h-5 text-emerald-600 flex-shrink-0" />
+              : <Square className="w-5 h-5 text-slate-400 flex-shrink-0" />}
+            <span className={`text-sm ${entry.done ? 'text-slate-400 line-through' : 'text-slate-700'}`}>
+              {entry.item}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
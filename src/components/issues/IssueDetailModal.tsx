@@ -1,9 +1,26 @@
 import React, { useState, useEffect } from 'react';
-import { X, MessageCircle, Clock, User, FileText, AlertTriangle, Building2, Trash2 } from 'lucide-react';
+import { X, MessageCircle, Clock, User, FileText, AlertTriangle, Building2, Trash2, Timer, BellRing } from 'lucide-react';
 import { IssueService } from '../../lib/issues/issue-service';
 import { supabase } from '../../lib/supabase/client';
-import type { Issue, IssueComment, IssuePriority, IssueCategory, IssueCustomStatus } from '../../lib/issues/types';
+import { DEFAULT_SLA_SETTINGS, SLA_ESCALATION_LABELS, formatSlaDuration, getIssueSlaStatus } from '../../lib/issues/sla-utils';
+import { describeTransitionRequirements, getAvailableStatuses, getTransitionRule } from '../../lib/issues/status-transition-utils';
+import type {
+  Issue,
+  IssueComment,
+  IssuePriority,
+  IssueCategory,
+  IssueCustomStatus,
+  IssueSlaPolicy,
+  IssueEscalation,
+  IssueHistory,
+  IssueStatusTransition
+} from '../../lib/issues/types';
 import { ConfirmationModal } from '../modals/ConfirmationModal';
+import { SlaBadge } from './SlaBadge';
+import { IssueAttachmentsPanel } from './IssueAttachmentsPanel';
+import { IssueLinksPanel } from './IssueLinksPanel';
+import { IssueChecklistPanel } from './IssueChecklistPanel';
+import { IssueTrackingLinksPanel } from './IssueTrackingLinksPanel';
 import { useToast } from '../../contexts/ToastContext';
 
 interface IssueDetailModalProps {
@@ -16,24 +33,34 @@ interface ChangePrompt {
   field: string;
   oldValue: string;
   newValue: string;
-  onChange: (workNote: string) => Promise<void>;
+  onChange: (workNote: string, actionTaken: string) => Promise<void>;
+  requireActionTaken?: boolean;
+  requirements?: string[];
 }
 
 export function IssueDetailModal({ issue, onClose, onUpdate }: IssueDetailModalProps) {
   const { showWarning, showError, showSuccess } = useToast();
   const [workNotes, setWorkNotes] = useState<IssueComment[]>([]);
   const [newNote, setNewNote] = useState('');
+  const [shareWithCustomer, setShareWithCustomer] = useState(false);
   const [users, setUsers] = useState<Map<string, any>>(new Map());
   const [customerName, setCustomerName] = useState<string | null>(null);
   const [categories, setCategories] = useState<IssueCategory[]>([]);
   const [statuses, setStatuses] = useState<IssueCustomStatus[]>([]);
+  const [transitions, setTransitions] = useState<IssueStatusTransition[]>([]);
   const [loading, setLoading] = useState(false);
   const [userRole, setUserRole] = useState('');
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [slaPolicy, setSlaPolicy] = useState<IssueSlaPolicy | null>(null);
+  const [atRiskPercent, setAtRiskPercent] = useState(DEFAULT_SLA_SETTINGS.at_risk_percent);
+  const [escalations, setEscalations] = useState<IssueEscalation[]>([]);
+  const [autoAssignment, setAutoAssignment] = useState<IssueHistory | null>(null);
 
   const [changePrompt, setChangePrompt] = useState<ChangePrompt | null>(null);
   const [promptWorkNote, setPromptWorkNote] = useState('');
+  const [promptActionTaken, setPromptActionTaken] = useState('');
 
   const isAdmin = ['super_admin', 'client_admin', 'regional_admin', 'branch_admin'].includes(userRole);
 
@@ -44,6 +71,8 @@ export function IssueDetailModal({ issue, onClose, onUpdate }: IssueDetailModalP
     loadCategories();
     loadStatuses();
     loadUserRole();
+    loadSla();
+    loadAutoAssignment();
   }, []);
 
   const loadWorkNotes = async () => {
@@ -82,13 +111,36 @@ export function IssueDetailModal({ issue, onClose, onUpdate }: IssueDetailModalP
   };
 
   const loadStatuses = async () => {
-    const data = await IssueService.getCustomStatuses(issue.org_id);
+    const [data, rules] = await Promise.all([
+      IssueService.getCustomStatuses(issue.org_id),
+      IssueService.getStatusTransitions(issue.org_id)
+    ]);
     setStatuses(data);
+    setTransitions(rules);
+  };
+
+  const loadSla = async () => {
+    if (!issue.sla_policy_id) return;
+    const [policies, settings, history] = await Promise.all([
+      IssueService.getSlaPolicies(issue.org_id),
+      IssueService.getSlaSettings(issue.org_id),
+      IssueService.getEscalations(issue.id)
+    ]);
+    setSlaPolicy(policies.find(p => p.id === issue.sla_policy_id) || null);
+    if (settings) setAtRiskPercent(settings.at_risk_percent);
+    setEscalations(history);
+  };
+
+  const loadAutoAssignment = async () => {
+    if (!issue.assigned_to) return;
+    const history = await IssueService.getHistory(issue.id);
+    setAutoAssignment(history.find(h => h.change_type === 'auto_assignment') || null);
   };
 
   const loadUserRole = async () => {
     const { data: { user } } = await supabase.auth.getUser();
     if (user) {
+      setCurrentUserId(user.id);
       const { data } = await supabase
         .from('users')
         .select('role:roles(name)')
@@ -122,17 +174,25 @@ export function IssueDetailModal({ issue, onClose, onUpdate }: IssueDetailModalP
     if (!newNote.trim()) return;
 
     try {
-      await IssueService.addComment(issue.id, newNote, false, true);
+      await IssueService.addComment(issue.id, newNote, !shareWithCustomer, true);
       setNewNote('');
+      setShareWithCustomer(false);
       loadWorkNotes();
     } catch (error) {
       console.error('Failed to add work note:', error);
     }
   };
 
-  const promptForWorkNote = (field: string, oldValue: string, newValue: string, onChange: (workNote: string) => Promise<void>) => {
-    setChangePrompt({ field, oldValue, newValue, onChange });
+  const promptForWorkNote = (
+    field: string,
+    oldValue: string,
+    newValue: string,
+    onChange: ChangePrompt['onChange'],
+    options: Pick<ChangePrompt, 'requireActionTaken' | 'requirements'> = {}
+  ) => {
+    setChangePrompt({ field, oldValue, newValue, onChange, ...options });
     setPromptWorkNote('');
+    setPromptActionTaken('');
   };
 
   const handleConfirmChange = async () => {
@@ -141,17 +201,23 @@ export function IssueDetailModal({ issue, onClose, onUpdate }: IssueDetailModalP
       return;
     }
 
+    if (changePrompt?.requireActionTaken && !promptActionTaken.trim()) {
+      showWarning('Action Taken Required', 'Please describe the action taken before making this change');
+      return;
+    }
+
     if (changePrompt) {
       setLoading(true);
       try {
-        await changePrompt.onChange(promptWorkNote);
+        await changePrompt.onChange(promptWorkNote, promptActionTaken);
         setChangePrompt(null);
         setPromptWorkNote('');
+        setPromptActionTaken('');
         await loadWorkNotes();
         onUpdate();
       } catch (error) {
         console.error('Failed to save change:', error);
-        showError('Save Failed', 'Unable to save changes. Please try again.');
+        showError('Save Failed', error instanceof Error ? error.message : 'Unable to save changes. Please try again.');
       } finally {
         setLoading(false);
       }
@@ -168,7 +234,7 @@ export function IssueDetailModal({ issue, onClose, onUpdate }: IssueDetailModalP
       newCategory?.name || 'None',
       async (workNote) => {
         await IssueService.updateIssue(issue.id, { category_id: categoryId || null });
-        await IssueService.addComment(issue.id, `Category changed from "${oldCategory?.name || 'None'}" to "${newCategory?.name || 'None'}"\n\n${workNote}`, false, true);
+        await IssueService.addComment(issue.id, `Category changed from "${oldCategory?.name || 'None'}" to "${newCategory?.name || 'None'}"\n\n${workNote}`, true, true);
       }
     );
   };
@@ -180,7 +246,7 @@ export function IssueDetailModal({ issue, onClose, onUpdate }: IssueDetailModalP
       priority.toUpperCase(),
       async (workNote) => {
         await IssueService.updateIssue(issue.id, { priority });
-        await IssueService.addComment(issue.id, `Priority changed from "${issue.priority.toUpperCase()}" to "${priority.toUpperCase()}"\n\n${workNote}`, false, true);
+        await IssueService.addComment(issue.id, `Priority changed from "${issue.priority.toUpperCase()}" to "${priority.toUpperCase()}"\n\n${workNote}`, true, true);
       }
     );
   };
@@ -188,14 +254,19 @@ export function IssueDetailModal({ issue, onClose, onUpdate }: IssueDetailModalP
   const handleStatusChange = async (statusId: string) => {
     const oldStatus = statuses.find(s => s.id === issue.status_id);
     const newStatus = statuses.find(s => s.id === statusId);
+    const rule = getTransitionRule(transitions, issue.status_id, statusId);
 
     promptForWorkNote(
       'Status',
       oldStatus?.display_name || 'Unknown',
       newStatus?.display_name || 'Unknown',
-      async (workNote) => {
-        await IssueService.updateIssue(issue.id, { status_id: statusId });
-        await IssueService.addComment(issue.id, `Status changed from "${oldStatus?.display_name || 'Unknown'}" to "${newStatus?.display_name || 'Unknown'}"\n\n${workNote}`, false, true);
+      async (workNote, actionTaken) => {
+        await IssueService.transitionStatus(issue.id, statusId, workNote, actionTaken);
+        await IssueService.addComment(issue.id, `Status changed from "${oldStatus?.display_name || 'Unknown'}" to "${newStatus?.display_name || 'Unknown'}"\n\n${workNote}`, true, true);
+      },
+      {
+        requireActionTaken: rule?.require_action_taken,
+        requirements: rule ? describeTransitionRequirements(rule) : []
       }
     );
   };
@@ -210,7 +281,7 @@ export function IssueDetailModal({ issue, onClose, onUpdate }: IssueDetailModalP
       newUser?.full_name || 'Unassigned',
       async (workNote) => {
         await IssueService.updateIssue(issue.id, { assigned_to: userId || null });
-        await IssueService.addComment(issue.id, `Assignment changed from "${oldUser?.full_name || 'Unassigned'}" to "${newUser?.full_name || 'Unassigned'}"\n\n${workNote}`, false, true);
+        await IssueService.addComment(issue.id, `Assignment changed from "${oldUser?.full_name || 'Unassigned'}" to "${newUser?.full_name || 'Unassigned'}"\n\n${workNote}`, true, true);
       }
     );
   };
@@ -225,7 +296,9 @@ export function IssueDetailModal({ issue, onClose, onUpdate }: IssueDetailModalP
   };
 
   const currentStatus = statuses.find(s => s.id === issue.status_id);
+  const availableStatuses = getAvailableStatuses(statuses, transitions, issue.status_id, userRole);
   const currentCategory = categories.find(c => c.id === issue.category_id);
+  const sla = getIssueSlaStatus(issue, atRiskPercent);
 
   return (
     <>
@@ -256,13 +329,17 @@ export function IssueDetailModal({ issue, onClose, onUpdate }: IssueDetailModalP
                       className="px-4 py-2 rounded-lg text-xs font-bold cursor-pointer transition-all"
                       style={{ backgroundColor: currentStatus.color + '20', color: currentStatus.color }}
                     >
-                      {statuses.map((status) => (
+                      {availableStatuses.map((status) => (
                         <option key={status.id} value={status.id}>
                           {status.display_name}
                         </option>
                       ))}
                     </select>
                   )}
+
+                  {sla.overall !== 'none' && (
+                    <SlaBadge state={sla.overall} dueAt={sla.next_due_at} showRemaining={!issue.sla_resolved_at} />
+                  )}
                 </div>
                 <h2 className="text-3xl font-bold text-white">{issue.title}</h2>
               </div>
@@ -333,6 +410,10 @@ export function IssueDetailModal({ issue, onClose, onUpdate }: IssueDetailModalP
               </div>
             )}
 
+            {issue.checklist && issue.checklist.length > 0 && (
+              <IssueChecklistPanel issue={issue} />
+            )}
+
             <div className="bg-slate-50 rounded-2xl p-6 border border-slate-200">
               <h3 className="text-sm font-bold text-slate-700 mb-4 uppercase tracking-wide">Issue Details</h3>
               <div className="grid grid-cols-2 gap-4">
@@ -370,6 +451,73 @@ export function IssueDetailModal({ issue, onClose, onUpdate }: IssueDetailModalP
               </div>
             </div>
 
+            {issue.sla_policy_id && (
+              <div className="bg-white rounded-2xl p-6 border border-slate-200 shadow-sm">
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center gap-2">
+                    <div className="w-8 h-8 rounded-lg bg-emerald-100 flex items-center justify-center">
+                      <Timer className="w-4 h-4 text-emerald-600" />
+                    </div>
+                    <h3 className="text-sm font-bold text-slate-700 uppercase tracking-wide">Service Level</h3>
+                  </div>
+                  {slaPolicy && (
+                    <span className="text-xs text-slate-500">
+                      {slaPolicy.name}{slaPolicy.business_hours_only ? ' · business hours' : ''}
+                    </span>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  {([
+                    { label: 'First Response', state: sla.response, dueAt: issue.sla_response_due_at, doneAt: issue.sla_responded_at },
+                    { label: 'Resolution', state: sla.resolution, dueAt: issue.sla_resolution_due_at, doneAt: issue.sla_resolved_at }
+                  ]).map((target) => (
+                    <div key={target.label} className="bg-slate-50 rounded-xl p-4 border border-slate-200">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="text-xs font-medium text-slate-500">{target.label}</span>
+                        <SlaBadge state={target.state} dueAt={target.dueAt} showRemaining={!target.doneAt} />
+                      </div>
+                      {target.dueAt && (
+                        <p className="text-sm text-slate-800 font-medium">
+                          Due {new Date(target.dueAt).toLocaleString()}
+                        </p>
+                      )}
+                      {target.doneAt && (
+                        <p className="text-xs text-slate-500 mt-1">
+                          Done {new Date(target.doneAt).toLocaleString()}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                {(issue.sla_paused_at || issue.sla_paused_minutes > 0) && (
+                  <p className="text-xs text-slate-500 mt-3">
+                    {issue.sla_paused_at
+                      ? `Clock paused since ${new Date(issue.sla_paused_at).toLocaleString()} while on hold. `
+                      : ''}
+                    {issue.sla_paused_minutes > 0 && `${formatSlaDuration(issue.sla_paused_minutes)} on hold added to targets.`}
+                  </p>
+                )}
+
+                {escalations.length > 0 && (
+                  <div className="mt-4 pt-4 border-t border-slate-200 space-y-2">
+                    {escalations.map((escalation) => (
+                      <div key={escalation.id} className="flex items-start gap-2 text-sm">
+                        <BellRing className="w-4 h-4 text-amber-600 mt-0.5 flex-shrink-0" />
+                        <p className="text-slate-700">
+                          {escalation.reason === 'response' ? 'Response' : 'Resolution'} target breached —{' '}
+                          {SLA_ESCALATION_LABELS[escalation.action].toLowerCase()}
+                          {escalation.escalated_to && ` (${users.get(escalation.escalated_to)?.full_name || 'manager'})`}
+                          <span className="text-xs text-slate-500 ml-2">{new Date(escalation.created_at).toLocaleString()}</span>
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="grid grid-cols-2 gap-4">
               {issue.assigned_to && (
                 <div className="bg-white rounded-2xl p-5 border border-slate-200 shadow-sm">
@@ -387,6 +535,11 @@ export function IssueDetailModal({ issue, onClose, onUpdate }: IssueDetailModalP
                       {new Date(issue.assigned_at).toLocaleString()}
                     </p>
                   )}
+                  {autoAssignment?.new_value?.assigned_to === issue.assigned_to && (
+                    <p className="text-xs text-slate-500 mt-1">
+                      Auto-assigned by rule "{autoAssignment.new_value?.rule_name}"
+                    </p>
+                  )}
                 </div>
               )}
 
@@ -424,6 +577,22 @@ export function IssueDetailModal({ issue, onClose, onUpdate }: IssueDetailModalP
               )}
             </div>
 
+            <IssueLinksPanel
+              issue={issue}
+              currentUserId={currentUserId}
+              canManageAll={['super_admin', 'client_admin'].includes(userRole)}
+              onDuplicateMarked={onUpdate}
+            />
+
+            <IssueTrackingLinksPanel issueId={issue.id} customerName={customerName} />
+
+            <IssueAttachmentsPanel
+              issueId={issue.id}
+              orgId={issue.org_id}
+              currentUserId={currentUserId}
+              canDeleteAny={['super_admin', 'client_admin'].includes(userRole)}
+            />
+
             <div className="border-t-2 border-slate-200 pt-6">
               <div className="flex items-center justify-between mb-6">
                 <h3 className="text-xl font-bold text-slate-800 flex items-center gap-3">
@@ -444,27 +613,54 @@ export function IssueDetailModal({ issue, onClose, onUpdate }: IssueDetailModalP
                     <p className="text-sm">No work notes yet. Add one to track progress!</p>
                   </div>
                 ) : (
-                  workNotes.map((note) => (
-                    <div key={note.id} className="bg-gradient-to-br from-slate-50 to-slate-100 rounded-2xl p-5 border border-slate-200">
-                      <div className="flex items-center justify-between mb-3">
-                        <div className="flex items-center gap-3">
-                          <div className="w-10 h-10 rounded-full bg-gradient-to-br from-emerald-500 to-emerald-600 flex items-center justify-center text-white font-bold">
-                            {users.get(note.user_id)?.full_name?.charAt(0) || 'U'}
+                  workNotes.map((note) => {
+                    const authorName = note.user_id
+                      ? users.get(note.user_id)?.full_name || 'Unknown User'
+                      : note.author_name || 'Customer';
+
+                    return (
+                      <div
+                        key={note.id}
+                        className={`rounded-2xl p-5 border ${
+                          note.user_id
+                            ? 'bg-gradient-to-br from-slate-50 to-slate-100 border-slate-200'
+                            : 'bg-gradient-to-br from-indigo-50 to-indigo-100 border-indigo-200'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between mb-3">
+                          <div className="flex items-center gap-3">
+                            <div className={`w-10 h-10 rounded-full flex items-center justify-center text-white font-bold ${
+                              note.user_id ? 'bg-gradient-to-br from-emerald-500 to-emerald-600' : 'bg-gradient-to-br from-indigo-500 to-indigo-600'
+                            }`}>
+                              {authorName.charAt(0)}
+                            </div>
+                            <span className="font-bold text-slate-800">{authorName}</span>
+                            {!note.user_id ? (
+                              <span className="text-xs px-2 py-0.5 bg-indigo-200 text-indigo-800 rounded font-semibold">Customer reply</span>
+                            ) : !note.is_internal && (
+                              <span className="text-xs px-2 py-0.5 bg-indigo-100 text-indigo-700 rounded font-semibold">Shared with customer</span>
+                            )}
                           </div>
-                          <span className="font-bold text-slate-800">
-                            {users.get(note.user_id)?.full_name || 'Unknown User'}
+                          <span className="text-xs text-slate-500 font-medium">
+                            {new Date(note.created_at).toLocaleString()}
                           </span>
                         </div>
-                        <span className="text-xs text-slate-500 font-medium">
-                          {new Date(note.created_at).toLocaleString()}
-                        </span>
+                        <p className="text-slate-700 leading-relaxed whitespace-pre-wrap ml-13">{note.comment_text}</p>
                       </div>
-                      <p className="text-slate-700 leading-relaxed whitespace-pre-wrap ml-13">{note.comment_text}</p>
-                    </div>
-                  ))
+                    );
+                  })
                 )}
               </div>
 
+              <label className="flex items-center gap-2 mb-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={shareWithCustomer}
+                  onChange={(e) => setShareWithCustomer(e.target.checked)}
+                  className="w-4 h-4 text-indigo-600 border-slate-300 rounded focus:ring-indigo-500"
+                />
+                Share with customer (visible through tracking links)
+              </label>
               <div className="flex gap-3">
                 <textarea
                   value={newNote}
@@ -509,6 +705,25 @@ export function IssueDetailModal({ issue, onClose, onUpdate }: IssueDetailModalP
                   autoFocus
                   className="w-full px-4 py-3 bg-slate-50 border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 focus:bg-white transition-all text-slate-800 placeholder:text-slate-400 resize-none"
                 />
+                {changePrompt.requireActionTaken && (
+                  <>
+                    <p className="text-sm text-slate-700 mt-4 mb-2">
+                      Action taken <span className="text-red-500">*</span>
+                    </p>
+                    <textarea
+                      value={promptActionTaken}
+                      onChange={(e) => setPromptActionTaken(e.target.value)}
+                      placeholder="Describe what was done to resolve the issue..."
+                      rows={3}
+                      className="w-full px-4 py-3 bg-slate-50 border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 focus:bg-white transition-all text-slate-800 placeholder:text-slate-400 resize-none"
+                    />
+                  </>
+                )}
+                {changePrompt.requirements && changePrompt.requirements.includes('attachment') && (
+                  <p className="text-xs text-amber-700 mt-3">
+                    This change requires at least one file attached to the issue.
+                  </p>
+                )}
               </div>
             </div>
             <div className="flex justify-end gap-3">
@@ -516,6 +731,7 @@ export function IssueDetailModal({ issue, onClose, onUpdate }: IssueDetailModalP
                 onClick={() => {
                   setChangePrompt(null);
                   setPromptWorkNote('');
+                  setPromptActionTaken('');
                 }}
                 className="px-6 py-3 text-slate-600 hover:bg-slate-100 rounded-xl transition-colors font-medium"
               >
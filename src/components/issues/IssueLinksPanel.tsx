@@ -0,0 +1,274 @@
+import { useState, useEffect } from 'react';
+import { Link2, Unlink, Copy, GitMerge, Search, Plus, X } from 'lucide-react';
+import { IssueService } from '../../lib/issues/issue-service';
+import { describeLink } from '../../lib/issues/duplicate-utils';
+import type { Issue, IssueLink, IssueSummary } from '../../lib/issues/types';
+import { useToast } from '../../contexts/ToastContext';
+
+interface IssueLinksPanelProps {
+  issue: Issue;
+  currentUserId: string | null;
+  canManageAll: boolean;
+  onDuplicateMarked: () => void;
+}
+
+type Relationship = 'related' | 'parent' | 'child' | 'duplicate';
+
+const RELATIONSHIP_LABELS: Record<Relationship, string> = {
+  related: 'Related to',
+  parent: 'Parent of this issue',
+  child: 'Child of this issue',
+  duplicate: 'This issue duplicates it'
+};
+
+export function IssueLinksPanel({ issue, currentUserId, canManageAll, onDuplicateMarked }: IssueLinksPanelProps) {
+  const { showSuccess, showError, confirm } = useToast();
+  const [links, setLinks] = useState<IssueLink[]>([]);
+  const [duplicates, setDuplicates] = useState<IssueSummary[]>([]);
+  const [master, setMaster] = useState<Issue | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [search, setSearch] = useState('');
+  const [results, setResults] = useState<Issue[]>([]);
+  const [selected, setSelected] = useState<Issue | null>(null);
+  const [relationship, setRelationship] = useState<Relationship>('related');
+  const [merge, setMerge] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadLinks();
+  }, [issue.id]);
+
+  useEffect(() => {
+    if (!adding || search.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      const data = await IssueService.listIssues(issue.org_id, { search: search.trim() });
+      setResults(data.filter(i => i.id !== issue.id).slice(0, 8));
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [search, adding]);
+
+  const loadLinks = async () => {
+    const [linkData, duplicateData, masterData] = await Promise.all([
+      IssueService.getIssueLinks(issue.id),
+      IssueService.getDuplicates(issue.id),
+      issue.duplicate_of_id ? IssueService.getIssue(issue.duplicate_of_id) : Promise.resolve(null)
+    ]);
+    setLinks(linkData);
+    setDuplicates(duplicateData);
+    setMaster(masterData);
+  };
+
+  const resetForm = () => {
+    setAdding(false);
+    setSearch('');
+    setResults([]);
+    setSelected(null);
+    setRelationship('related');
+    setMerge(true);
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+
+    if (relationship === 'duplicate') {
+      const confirmed = await confirm(
+        'Mark as Duplicate',
+        `Close ${issue.issue_number} as a duplicate of ${selected.issue_number}?${merge ? ' Its work notes and attachments will move to the master issue.' : ''}`
+      );
+      if (!confirmed) return;
+    }
+
+    setSaving(true);
+    try {
+      if (relationship === 'duplicate') {
+        await IssueService.markDuplicate(issue.id, selected.id, merge);
+        showSuccess('Marked as Duplicate', `${issue.issue_number} now points to ${selected.issue_number}`);
+        onDuplicateMarked();
+        return;
+      }
+
+      if (relationship === 'related') {
+        await IssueService.linkIssues(issue.org_id, issue.id, selected.id, 'related');
+      } else if (relationship === 'parent') {
+        await IssueService.linkIssues(issue.org_id, selected.id, issue.id, 'parent');
+      } else {
+        await IssueService.linkIssues(issue.org_id, issue.id, selected.id, 'parent');
+      }
+
+      showSuccess('Issues Linked', `${issue.issue_number} and ${selected.issue_number}`);
+      resetForm();
+      loadLinks();
+    } catch (error) {
+      showError('Link Failed', error instanceof Error ? error.message : 'Unable to link issues');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUnlink = async (link: IssueLink) => {
+    if (await IssueService.unlinkIssues(link.id)) {
+      showSuccess('Link Removed', 'The issues are no longer linked');
+      loadLinks();
+    } else {
+      showError('Unlink Failed', 'Unable to remove link');
+    }
+  };
+
+  const isEmpty = links.length === 0 && duplicates.length === 0 && !issue.duplicate_of_id;
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 rounded-lg bg-sky-100 flex items-center justify-center">
+            <Link2 className="w-4 h-4 text-sky-600" />
+          </div>
+          <h3 className="text-sm font-bold text-slate-700 uppercase tracking-wide">Linked Issues</h3>
+        </div>
+        {!adding && (
+          <button
+            onClick={() => setAdding(true)}
+            className="flex items-center gap-2 px-3 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            Link Issue
+          </button>
+        )}
+      </div>
+
+      {issue.duplicate_of_id && (
+        <div className="flex items-center gap-2 p-3 mb-3 bg-sky-50 border border-sky-200 rounded-xl text-sm text-sky-800">
+          <Copy className="w-4 h-4 flex-shrink-0" />
+          <span>
+            Duplicate of <span className="font-bold">{master?.issue_number || 'another issue'}</span>
+            {master && ` · ${master.title}`}
+            {issue.merged_at && ' · work notes and attachments merged'}
+          </span>
+        </div>
+      )}
+
+      {adding && (
+        <div className="bg-slate-50 rounded-xl p-4 mb-4 space-y-3 border border-slate-200">
+          {selected ? (
+            <div className="flex items-center justify-between p-3 bg-white rounded-lg border border-slate-200">
+              <span className="text-sm font-medium text-slate-800 truncate">
+                {selected.issue_number} · {selected.title}
+              </span>
+              <button onClick={() => setSelected(null)} className="p-1 hover:bg-slate-100 rounded">
+                <X className="w-4 h-4 text-slate-500" />
+              </button>
+            </div>
+          ) : (
+            <div>
+              <div className="relative">
+                <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="w-full pl-9 pr-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500"
+                  placeholder="Search by issue number or title"
+                  autoFocus
+                />
+              </div>
+              {results.length > 0 && (
+                <div className="mt-2 max-h-48 overflow-y-auto space-y-1">
+                  {results.map(result => (
+                    <button
+                      key={result.id}
+                      onClick={() => setSelected(result)}
+                      className="w-full text-left px-3 py-2 rounded-lg hover:bg-white text-sm text-slate-700 truncate"
+                    >
+                      <span className="font-semibold">{result.issue_number}</span> · {result.title}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <select
+            value={relationship}
+            onChange={(e) => setRelationship(e.target.value as Relationship)}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500"
+          >
+            {(Object.keys(RELATIONSHIP_LABELS) as Relationship[])
+              .filter(r => r !== 'duplicate' || !issue.duplicate_of_id)
+              .map(r => (
+                <option key={r} value={r}>{RELATIONSHIP_LABELS[r]}</option>
+              ))}
+          </select>
+
+          {relationship === 'duplicate' && (
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={merge}
+                onChange={(e) => setMerge(e.target.checked)}
+                className="w-4 h-4 text-emerald-600 border-slate-300 rounded focus:ring-emerald-500"
+              />
+              Merge work notes, attachments and history into the master issue
+            </label>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={resetForm}
+              className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!selected || saving}
+              className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors text-sm disabled:opacity-50"
+            >
+              {relationship === 'duplicate' ? <GitMerge className="w-4 h-4" /> : <Link2 className="w-4 h-4" />}
+              {saving ? 'Saving...' : relationship === 'duplicate' ? 'Mark Duplicate' : 'Link'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isEmpty && !adding ? (
+        <p className="text-sm text-slate-400 text-center py-4">No linked issues</p>
+      ) : (
+        <div className="space-y-2">
+          {links.map(link => {
+            const { label, other } = describeLink(link, issue.id);
+            return (
+              <div key={link.id} className="flex items-center justify-between p-3 rounded-xl border border-slate-200 bg-slate-50">
+                <div className="min-w-0 text-sm">
+                  <span className="text-xs font-bold text-slate-500 uppercase mr-2">{label}</span>
+                  <span className="font-semibold text-slate-800">{other?.issue_number}</span>
+                  <span className="text-slate-600"> · {other?.title}</span>
+                </div>
+                {(canManageAll || link.created_by === currentUserId) && (
+                  <button
+                    onClick={() => handleUnlink(link)}
+                    className="p-2 hover:bg-slate-200 rounded-lg transition-colors flex-shrink-0"
+                    title="Remove link"
+                  >
+                    <Unlink className="w-4 h-4 text-slate-500" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+          {duplicates.map(duplicate => (
+            <div key={duplicate.id} className="flex items-center p-3 rounded-xl border border-sky-100 bg-sky-50 text-sm">
+              <span className="text-xs font-bold text-sky-700 uppercase mr-2">Duplicate</span>
+              <span className="font-semibold text-slate-800">{duplicate.issue_number}</span>
+              <span className="text-slate-600 truncate"> · {duplicate.title}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,488 @@
+import { useState, useEffect } from 'react';
+import { Plus, Edit2, Trash2, Save, Repeat, Archive, ArchiveRestore, X, Search } from 'lucide-react';
+import { IssueService } from '../../lib/issues/issue-service';
+import { UserService } from '../../lib/users/user-service';
+import { supabase } from '../../lib/supabase/client';
+import {
+  FREQUENCY_LABELS,
+  describeRecurrence,
+  normalizeRecurringTemplate,
+  validateRecurringTemplate,
+  toDateKey
+} from '../../lib/issues/recurrence-utils';
+import type {
+  IssueCategory,
+  IssuePriority,
+  IssueRecurringTemplate,
+  IssueRecurringTemplateInput,
+  RecurrenceFrequency
+} from '../../lib/issues/types';
+import type { User } from '../../lib/supabase/types';
+import { useToast } from '../../contexts/ToastContext';
+
+interface IssueRecurringTemplatesPanelProps {
+  orgId: string;
+  categories: IssueCategory[];
+}
+
+const emptyTemplate = (): IssueRecurringTemplateInput => ({
+  name: '',
+  title: '',
+  description: null,
+  category_id: null,
+  priority: 'medium',
+  assigned_to: null,
+  checklist: [],
+  customer_ids: [],
+  frequency: 'monthly',
+  interval_count: 1,
+  start_date: toDateKey(new Date()),
+  end_date: null,
+  lead_days: 0
+});
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500';
+
+export function IssueRecurringTemplatesPanel({ orgId, categories }: IssueRecurringTemplatesPanelProps) {
+  const { showSuccess, showError, showWarning, confirm } = useToast();
+  const [templates, setTemplates] = useState<IssueRecurringTemplate[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [customers, setCustomers] = useState<{ id: string; customer_name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [customerSearch, setCustomerSearch] = useState('');
+  const [editing, setEditing] = useState<{ id: string | null; template: IssueRecurringTemplateInput } | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, [orgId]);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [templateData, userResult, customerResult] = await Promise.all([
+        IssueService.getRecurringTemplates(orgId),
+        UserService.getUsers({ orgId, status: 'active' }),
+        supabase.from('customers').select('id, customer_name').eq('org_id', orgId).order('customer_name')
+      ]);
+      setTemplates(templateData);
+      setUsers([...userResult.data].sort((a, b) => a.full_name.localeCompare(b.full_name)));
+      setCustomers((customerResult.data || []) as { id: string; customer_name: string }[]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadTemplates = async () => {
+    setTemplates(await IssueService.getRecurringTemplates(orgId));
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    const problem = validateRecurringTemplate(editing.template);
+    if (problem) {
+      showWarning('Incomplete Template', problem);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await IssueService.saveRecurringTemplate(orgId, normalizeRecurringTemplate(editing.template), editing.id || undefined);
+      const generated = await IssueService.generateRecurringIssues(orgId);
+      showSuccess(
+        'Template Saved',
+        generated > 0 ? `${editing.template.name} · ${generated} issue${generated === 1 ? '' : 's'} created` : editing.template.name
+      );
+      setEditing(null);
+      loadTemplates();
+    } catch {
+      showError('Save Failed', 'Unable to save recurring template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (template: IssueRecurringTemplate) => {
+    if (await IssueService.setRecurringTemplateActive(template.id, !template.is_active)) {
+      showSuccess(template.is_active ? 'Template Paused' : 'Template Resumed', template.name);
+      loadTemplates();
+    } else {
+      showError('Update Failed', 'Unable to update recurring template');
+    }
+  };
+
+  const handleDelete = async (template: IssueRecurringTemplate) => {
+    const confirmed = await confirm('Delete Template', `Delete "${template.name}"? Issues it already created are kept.`);
+    if (!confirmed) return;
+
+    if (await IssueService.deleteRecurringTemplate(template.id)) {
+      showSuccess('Template Deleted', template.name);
+      loadTemplates();
+    } else {
+      showError('Delete Failed', 'Unable to delete recurring template');
+    }
+  };
+
+  const updateTemplate = (updates: Partial<IssueRecurringTemplateInput>) => {
+    if (editing) setEditing({ ...editing, template: { ...editing.template, ...updates } });
+  };
+
+  const toggleCustomer = (customerId: string) => {
+    if (!editing) return;
+    const ids = editing.template.customer_ids;
+    updateTemplate({
+      customer_ids: ids.includes(customerId) ? ids.filter(id => id !== customerId) : [...ids, customerId]
+    });
+  };
+
+  const updateChecklistItem = (index: number, value: string) => {
+    if (!editing) return;
+    const checklist = [...editing.template.checklist];
+    checklist[index] = value;
+    updateTemplate({ checklist });
+  };
+
+  const describeScope = (template: IssueRecurringTemplate) => {
+    const parts = [
+      categories.find(c => c.id === template.category_id)?.name,
+      template.customer_ids.length > 0
+        ? `${template.customer_ids.length} customer${template.customer_ids.length === 1 ? '' : 's'}`
+        : 'No customer',
+      template.checklist.length > 0 ? `${template.checklist.length}-item checklist` : null,
+      template.lead_days > 0 ? `created ${template.lead_days} day${template.lead_days === 1 ? '' : 's'} ahead` : null
+    ];
+    return parts.filter(Boolean).join(' · ');
+  };
+
+  const filteredCustomers = customerSearch.trim()
+    ? customers.filter(c => c.customer_name.toLowerCase().includes(customerSearch.trim().toLowerCase()))
+    : customers;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-4 border-emerald-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-slate-600">
+          Templates create issues on a schedule, one per selected customer, due on each occurrence date.
+        </p>
+        <button
+          onClick={() => {
+            setCustomerSearch('');
+            setEditing({ id: null, template: emptyTemplate() });
+          }}
+          className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors flex-shrink-0"
+        >
+          <Plus className="w-4 h-4" />
+          Add Template
+        </button>
+      </div>
+
+      {editing && (
+        <div className="bg-slate-50 rounded-xl p-4 space-y-4 border border-slate-200">
+          <h4 className="font-medium text-slate-800">{editing.id ? 'Edit Recurring Template' : 'New Recurring Template'}</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Template name</label>
+              <input
+                type="text"
+                value={editing.template.name}
+                onChange={(e) => updateTemplate({ name: e.target.value })}
+                className={inputClass}
+                placeholder="e.g., Monthly POS inspection"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Issue title</label>
+              <input
+                type="text"
+                value={editing.template.title}
+                onChange={(e) => updateTemplate({ title: e.target.value })}
+                className={inputClass}
+                placeholder="e.g., POS device inspection"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Description</label>
+            <textarea
+              value={editing.template.description || ''}
+              onChange={(e) => updateTemplate({ description: e.target.value })}
+              rows={2}
+              className={`${inputClass} resize-none`}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Category</label>
+              <select
+                value={editing.template.category_id || ''}
+                onChange={(e) => updateTemplate({ category_id: e.target.value || null })}
+                className={inputClass}
+              >
+                <option value="">No category</option>
+                {categories.map(category => (
+                  <option key={category.id} value={category.id}>{category.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Priority</label>
+              <select
+                value={editing.template.priority}
+                onChange={(e) => updateTemplate({ priority: e.target.value as IssuePriority })}
+                className={inputClass}
+              >
+                <option value="high">High</option>
+                <option value="medium">Medium</option>
+                <option value="low">Low</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Assign to</label>
+              <select
+                value={editing.template.assigned_to || ''}
+                onChange={(e) => updateTemplate({ assigned_to: e.target.value || null })}
+                className={inputClass}
+              >
+                <option value="">Use assignment rules</option>
+                {users.map(user => (
+                  <option key={user.id} value={user.id}>{user.full_name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Every</label>
+              <input
+                type="number"
+                min={1}
+                max={365}
+                value={editing.template.interval_count}
+                onChange={(e) => updateTemplate({ interval_count: parseInt(e.target.value) || 1 })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Unit</label>
+              <select
+                value={editing.template.frequency}
+                onChange={(e) => updateTemplate({ frequency: e.target.value as RecurrenceFrequency })}
+                className={inputClass}
+              >
+                {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map(frequency => (
+                  <option key={frequency} value={frequency}>
+                    {editing.template.interval_count === 1 ? FREQUENCY_LABELS[frequency].one : FREQUENCY_LABELS[frequency].many}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Starting</label>
+              <input
+                type="date"
+                value={editing.template.start_date}
+                onChange={(e) => updateTemplate({ start_date: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Ending (optional)</label>
+              <input
+                type="date"
+                value={editing.template.end_date || ''}
+                onChange={(e) => updateTemplate({ end_date: e.target.value || null })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Create days ahead</label>
+              <input
+                type="number"
+                min={0}
+                max={90}
+                value={editing.template.lead_days}
+                onChange={(e) => updateTemplate({ lead_days: parseInt(e.target.value) || 0 })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-slate-700">Checklist</label>
+              <button
+                type="button"
+                onClick={() => updateTemplate({ checklist: [...editing.template.checklist, ''] })}
+                className="flex items-center gap-1 text-sm text-emerald-600 hover:text-emerald-700"
+              >
+                <Plus className="w-4 h-4" />
+                Add item
+              </button>
+            </div>
+            {editing.template.checklist.length === 0 ? (
+              <p className="text-xs text-slate-500">No checklist. Add the steps the assignee should tick off.</p>
+            ) : (
+              <div className="space-y-2">
+                {editing.template.checklist.map((item, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={item}
+                      onChange={(e) => updateChecklistItem(index, e.target.value)}
+                      className={inputClass}
+                      placeholder={`Step ${index + 1}`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => updateTemplate({ checklist: editing.template.checklist.filter((_, i) => i !== index) })}
+                      className="p-2 hover:bg-slate-200 rounded-lg transition-colors"
+                      title="Remove item"
+                    >
+                      <X className="w-4 h-4 text-slate-500" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">
+              Customers ({editing.template.customer_ids.length} selected)
+            </label>
+            <div className="relative mb-2">
+              <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={customerSearch}
+                onChange={(e) => setCustomerSearch(e.target.value)}
+                className={`${inputClass} pl-9`}
+                placeholder="Search customers"
+              />
+            </div>
+            <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
+              {filteredCustomers.map(customer => (
+                <button
+                  key={customer.id}
+                  type="button"
+                  onClick={() => toggleCustomer(customer.id)}
+                  className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                    editing.template.customer_ids.includes(customer.id)
+                      ? 'bg-emerald-600 text-white'
+                      : 'bg-white border border-slate-300 text-slate-600 hover:bg-slate-100'
+                  }`}
+                >
+                  {customer.customer_name}
+                </button>
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-slate-500">Leave empty to create a single issue per occurrence without a customer.</p>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setEditing(null)}
+              className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {templates.length === 0 && !editing ? (
+        <div className="text-center py-8 text-slate-500">
+          <Repeat className="w-10 h-10 mx-auto mb-2 text-slate-300" />
+          <p>No recurring templates yet. Add one for scheduled checks such as monthly device inspections.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {templates.map(template => (
+            <div
+              key={template.id}
+              className={`flex items-center justify-between p-4 rounded-xl border border-slate-200 ${
+                template.is_active ? 'bg-white' : 'bg-slate-50 opacity-60'
+              }`}
+            >
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-slate-800">{template.name}</span>
+                  {!template.is_active && (
+                    <span className="text-xs px-2 py-0.5 bg-slate-200 text-slate-600 rounded">Paused</span>
+                  )}
+                </div>
+                <p className="text-sm text-slate-500">{describeRecurrence(template)}</p>
+                <p className="text-xs text-slate-400 mt-0.5">{describeScope(template)}</p>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => {
+                    setCustomerSearch('');
+                    setEditing({
+                      id: template.id,
+                      template: {
+                        name: template.name,
+                        title: template.title,
+                        description: template.description,
+                        category_id: template.category_id,
+                        priority: template.priority,
+                        assigned_to: template.assigned_to,
+                        checklist: template.checklist,
+                        customer_ids: template.customer_ids,
+                        frequency: template.frequency,
+                        interval_count: template.interval_count,
+                        start_date: template.start_date,
+                        end_date: template.end_date,
+                        lead_days: template.lead_days
+                      }
+                    });
+                  }}
+                  className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                  title="Edit template"
+                >
+                  <Edit2 className="w-4 h-4 text-slate-500" />
+                </button>
+                <button
+                  onClick={() => handleToggleActive(template)}
+                  className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                  title={template.is_active ? 'Pause template' : 'Resume template'}
+                >
+                  {template.is_active
+                    ? <Archive className="w-4 h-4 text-slate-500" />
+                    : <ArchiveRestore className="w-4 h-4 text-slate-500" />}
+                </button>
+                <button
+                  onClick={() => handleDelete(template)}
+                  className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                  title="Delete template"
+                >
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
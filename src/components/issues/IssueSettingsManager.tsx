@@ -15,6 +15,10 @@ import {
   XCircle,
   UserCheck
 } from 'lucide-react';
+import { IssueSlaSettingsPanel } from './IssueSlaSettingsPanel';
+import { IssueAssignmentRulesPanel } from './IssueAssignmentRulesPanel';
+import { IssueAttachmentSettingsPanel } from './IssueAttachmentSettingsPanel';
+import { IssueRecurringTemplatesPanel } from './IssueRecurringTemplatesPanel';
 import { IssueService } from '../../lib/issues/issue-service';
 import type { IssueCategory, IssueCustomStatus } from '../../lib/issues/types';
 import { useToast } from '../../contexts/ToastContext';
@@ -42,7 +46,7 @@ const COLOR_OPTIONS = [
 
 export function IssueSettingsManager({ orgId, onClose }: IssueSettingsManagerProps) {
   const { showSuccess, showError, confirm } = useToast();
-  const [activeTab, setActiveTab] = useState<'statuses' | 'categories'>('statuses');
+  const [activeTab, setActiveTab] = useState<'statuses' | 'categories' | 'sla' | 'assignment' | 'attachments' | 'recurring'>('statuses');
   const [statuses, setStatuses] = useState<IssueCustomStatus[]>([]);
   const [categories, setCategories] = useState<IssueCategory[]>([]);
   const [loading, setLoading] = useState(true);
@@ -256,7 +260,7 @@ export function IssueSettingsManager({ orgId, onClose }: IssueSettingsManagerPro
             </div>
             <div>
               <h2 className="text-xl font-bold text-slate-800">Issue Tracker Settings</h2>
-              <p className="text-sm text-slate-500">Manage custom statuses and categories</p>
+              <p className="text-sm text-slate-500">Manage custom statuses, categories and SLA policies</p>
             </div>
           </div>
           <button
@@ -267,7 +271,7 @@ export function IssueSettingsManager({ orgId, onClose }: IssueSettingsManagerPro
           </button>
         </div>
 
-        <div className="flex border-b border-slate-200">
+        <div className="flex border-b border-slate-200 overflow-x-auto">
           <button
             onClick={() => setActiveTab('statuses')}
             className={`px-6 py-3 text-sm font-medium transition-colors ${
@@ -288,6 +292,46 @@ export function IssueSettingsManager({ orgId, onClose }: IssueSettingsManagerPro
           >
             Categories
           </button>
+          <button
+            onClick={() => setActiveTab('sla')}
+            className={`px-6 py-3 text-sm font-medium transition-colors ${
+              activeTab === 'sla'
+                ? 'text-emerald-600 border-b-2 border-emerald-600'
+                : 'text-slate-500 hover:text-slate-700'
+            }`}
+          >
+            SLA Policies
+          </button>
+          <button
+            onClick={() => setActiveTab('assignment')}
+            className={`px-6 py-3 text-sm font-medium transition-colors ${
+              activeTab === 'assignment'
+                ? 'text-emerald-600 border-b-2 border-emerald-600'
+                : 'text-slate-500 hover:text-slate-700'
+            }`}
+          >
+            Assignment Rules
+          </button>
+          <button
+            onClick={() => setActiveTab('attachments')}
+            className={`px-6 py-3 text-sm font-medium transition-colors ${
+              activeTab === 'attachments'
+                ? 'text-emerald-600 border-b-2 border-emerald-600'
+                : 'text-slate-500 hover:text-slate-700'
+            }`}
+          >
+            Attachments
+          </button>
+          <button
+            onClick={() => setActiveTab('recurring')}
+            className={`px-6 py-3 text-sm font-medium transition-colors ${
+              activeTab === 'recurring'
+                ? 'text-emerald-600 border-b-2 border-emerald-600'
+                : 'text-slate-500 hover:text-slate-700'
+            }`}
+          >
+            Recurring
+          </button>
         </div>
 
         {error && (
@@ -720,6 +764,22 @@ export function IssueSettingsManager({ orgId, onClose }: IssueSettingsManagerPro
               )}
             </div>
           )}
+
+          {activeTab === 'sla' && (
+            <IssueSlaSettingsPanel orgId={orgId} categories={categories} />
+          )}
+
+          {activeTab === 'assignment' && (
+            <IssueAssignmentRulesPanel orgId={orgId} categories={categories} />
+          )}
+
+          {activeTab === 'attachments' && (
+            <IssueAttachmentSettingsPanel orgId={orgId} />
+          )}
+
+          {activeTab === 'recurring' && (
+            <IssueRecurringTemplatesPanel orgId={orgId} categories={categories} />
+          )}
         </div>
 
         <div className="p-6 border-t border-slate-200">
@@ -0,0 +1,423 @@
+import { useState, useEffect } from 'react';
+import { Plus, Edit2, Trash2, Save, Clock, Timer, Archive, ArchiveRestore } from 'lucide-react';
+import { IssueService } from '../../lib/issues/issue-service';
+import {
+  DEFAULT_SLA_SETTINGS,
+  SLA_ESCALATION_LABELS,
+  SLA_WEEKDAYS,
+  formatSlaDuration,
+  validateSlaPolicy,
+  validateSlaSettings
+} from '../../lib/issues/sla-utils';
+import type {
+  IssueCategory,
+  IssuePriority,
+  IssueSlaPolicy,
+  IssueSlaPolicyInput,
+  IssueSlaSettings,
+  SlaEscalationAction
+} from '../../lib/issues/types';
+import { useToast } from '../../contexts/ToastContext';
+
+interface IssueSlaSettingsPanelProps {
+  orgId: string;
+  categories: IssueCategory[];
+}
+
+const EMPTY_POLICY: IssueSlaPolicyInput = {
+  name: '',
+  category_id: null,
+  priority: null,
+  response_minutes: 240,
+  resolution_minutes: 1440,
+  business_hours_only: true,
+  escalation_action: 'notify_manager'
+};
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500';
+
+export function IssueSlaSettingsPanel({ orgId, categories }: IssueSlaSettingsPanelProps) {
+  const { showSuccess, showError, showWarning, confirm } = useToast();
+  const [policies, setPolicies] = useState<IssueSlaPolicy[]>([]);
+  const [settings, setSettings] = useState<IssueSlaSettings>({ org_id: orgId, ...DEFAULT_SLA_SETTINGS });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState<{ id: string | null; policy: IssueSlaPolicyInput } | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, [orgId]);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [policyData, settingsData] = await Promise.all([
+        IssueService.getSlaPolicies(orgId),
+        IssueService.getSlaSettings(orgId)
+      ]);
+      setPolicies(policyData);
+      if (settingsData) {
+        setSettings({
+          ...settingsData,
+          work_start: settingsData.work_start.slice(0, 5),
+          work_end: settingsData.work_end.slice(0, 5)
+        });
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleWorkDay = (day: number) => {
+    const workDays = settings.work_days.includes(day)
+      ? settings.work_days.filter(d => d !== day)
+      : [...settings.work_days, day].sort();
+    setSettings({ ...settings, work_days: workDays });
+  };
+
+  const handleSaveSettings = async () => {
+    const problem = validateSlaSettings(settings);
+    if (problem) {
+      showWarning('Invalid Business Hours', problem);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (await IssueService.saveSlaSettings(settings)) {
+        showSuccess('Business Hours Saved', 'New SLA targets will use these hours');
+      } else {
+        showError('Save Failed', 'Unable to save business hours');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSavePolicy = async () => {
+    if (!editing) return;
+
+    const problem = validateSlaPolicy(editing.policy);
+    if (problem) {
+      showWarning('Incomplete Policy', problem);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await IssueService.saveSlaPolicy(orgId, { ...editing.policy, name: editing.policy.name.trim() }, editing.id || undefined);
+      showSuccess('Policy Saved', editing.policy.name);
+      setEditing(null);
+      loadData();
+    } catch {
+      showError('Save Failed', 'Unable to save SLA policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (policy: IssueSlaPolicy) => {
+    if (await IssueService.setSlaPolicyActive(policy.id, !policy.is_active)) {
+      showSuccess(policy.is_active ? 'Policy Disabled' : 'Policy Enabled', policy.name);
+      loadData();
+    } else {
+      showError('Update Failed', 'Unable to update SLA policy');
+    }
+  };
+
+  const handleDeletePolicy = async (policy: IssueSlaPolicy) => {
+    const confirmed = await confirm('Delete Policy', `Delete "${policy.name}"? Open issues using it will no longer be tracked against an SLA.`);
+    if (!confirmed) return;
+
+    if (await IssueService.deleteSlaPolicy(policy.id)) {
+      showSuccess('Policy Deleted', policy.name);
+      loadData();
+    } else {
+      showError('Delete Failed', 'Unable to delete SLA policy');
+    }
+  };
+
+  const updatePolicy = (updates: Partial<IssueSlaPolicyInput>) => {
+    if (editing) setEditing({ ...editing, policy: { ...editing.policy, ...updates } });
+  };
+
+  const describeScope = (policy: IssueSlaPolicy) => {
+    const category = categories.find(c => c.id === policy.category_id)?.name;
+    const priority = policy.priority ? `${policy.priority.charAt(0).toUpperCase()}${policy.priority.slice(1)} priority` : null;
+    return [category, priority].filter(Boolean).join(' · ') || 'All issues';
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-4 border-emerald-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-50 rounded-xl p-4 space-y-4 border border-slate-200">
+        <div className="flex items-center gap-2">
+          <Clock className="w-4 h-4 text-slate-600" />
+          <h4 className="font-medium text-slate-800">Business Hours</h4>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {SLA_WEEKDAYS.map(day => (
+            <button
+              key={day.value}
+              onClick={() => toggleWorkDay(day.value)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                settings.work_days.includes(day.value)
+                  ? 'bg-emerald-600 text-white'
+                  : 'bg-white border border-slate-300 text-slate-600 hover:bg-slate-100'
+              }`}
+            >
+              {day.label}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Opens</label>
+            <input
+              type="time"
+              value={settings.work_start}
+              onChange={(e) => setSettings({ ...settings, work_start: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Closes</label>
+            <input
+              type="time"
+              value={settings.work_end}
+              onChange={(e) => setSettings({ ...settings, work_end: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Timezone</label>
+            <input
+              type="text"
+              value={settings.timezone}
+              onChange={(e) => setSettings({ ...settings, timezone: e.target.value })}
+              className={inputClass}
+              placeholder={Intl.DateTimeFormat().resolvedOptions().timeZone}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">At risk after</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                max={99}
+                value={settings.at_risk_percent}
+                onChange={(e) => setSettings({ ...settings, at_risk_percent: Number(e.target.value) })}
+                className={inputClass}
+              />
+              <span className="text-sm text-slate-500">%</span>
+            </div>
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <button
+            onClick={handleSaveSettings}
+            disabled={saving}
+            className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" />
+            {saving ? 'Saving...' : 'Save Hours'}
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-slate-600">
+            The most specific matching policy applies. Time spent On Hold does not count towards targets.
+          </p>
+          <button
+            onClick={() => setEditing({ id: null, policy: EMPTY_POLICY })}
+            className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors flex-shrink-0"
+          >
+            <Plus className="w-4 h-4" />
+            Add Policy
+          </button>
+        </div>
+
+        {editing && (
+          <div className="bg-slate-50 rounded-xl p-4 space-y-4 border border-slate-200">
+            <h4 className="font-medium text-slate-800">{editing.id ? 'Edit SLA Policy' : 'New SLA Policy'}</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={editing.policy.name}
+                  onChange={(e) => updatePolicy({ name: e.target.value })}
+                  className={inputClass}
+                  placeholder="e.g., High priority equipment faults"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Category</label>
+                <select
+                  value={editing.policy.category_id || ''}
+                  onChange={(e) => updatePolicy({ category_id: e.target.value || null })}
+                  className={inputClass}
+                >
+                  <option value="">Any category</option>
+                  {categories.map(category => (
+                    <option key={category.id} value={category.id}>{category.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Priority</label>
+                <select
+                  value={editing.policy.priority || ''}
+                  onChange={(e) => updatePolicy({ priority: (e.target.value || null) as IssuePriority | null })}
+                  className={inputClass}
+                >
+                  <option value="">Any priority</option>
+                  <option value="high">High</option>
+                  <option value="medium">Medium</option>
+                  <option value="low">Low</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Respond within (hours)</label>
+                <input
+                  type="number"
+                  min={0.25}
+                  step={0.25}
+                  value={editing.policy.response_minutes / 60}
+                  onChange={(e) => updatePolicy({ response_minutes: Math.round(Number(e.target.value) * 60) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Resolve within (hours)</label>
+                <input
+                  type="number"
+                  min={0.25}
+                  step={0.25}
+                  value={editing.policy.resolution_minutes / 60}
+                  onChange={(e) => updatePolicy({ resolution_minutes: Math.round(Number(e.target.value) * 60) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">When breached</label>
+                <select
+                  value={editing.policy.escalation_action}
+                  onChange={(e) => updatePolicy({ escalation_action: e.target.value as SlaEscalationAction })}
+                  className={inputClass}
+                >
+                  {(Object.keys(SLA_ESCALATION_LABELS) as SlaEscalationAction[]).map(action => (
+                    <option key={action} value={action}>{SLA_ESCALATION_LABELS[action]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+              <input
+                type="checkbox"
+                checked={editing.policy.business_hours_only}
+                onChange={(e) => updatePolicy({ business_hours_only: e.target.checked })}
+                className="w-4 h-4 text-emerald-600 border-slate-300 rounded focus:ring-emerald-500"
+              />
+              Count business hours only
+            </label>
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setEditing(null)}
+                className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSavePolicy}
+                disabled={saving}
+                className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-50"
+              >
+                <Save className="w-4 h-4" />
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {policies.length === 0 && !editing ? (
+          <div className="text-center py-8 text-slate-500">
+            <Timer className="w-10 h-10 mx-auto mb-2 text-slate-300" />
+            <p>No SLA policies yet. Add one to start tracking response and resolution targets.</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {policies.map(policy => (
+              <div
+                key={policy.id}
+                className={`flex items-center justify-between p-4 rounded-xl border border-slate-200 ${
+                  policy.is_active ? 'bg-white' : 'bg-slate-50 opacity-60'
+                }`}
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-slate-800">{policy.name}</span>
+                    {!policy.is_active && (
+                      <span className="text-xs px-2 py-0.5 bg-slate-200 text-slate-600 rounded">Disabled</span>
+                    )}
+                  </div>
+                  <p className="text-sm text-slate-500">
+                    {describeScope(policy)} · Respond {formatSlaDuration(policy.response_minutes)} · Resolve {formatSlaDuration(policy.resolution_minutes)}
+                    {policy.business_hours_only ? ' (business hours)' : ''}
+                  </p>
+                  <p className="text-xs text-slate-400 mt-0.5">{SLA_ESCALATION_LABELS[policy.escalation_action]}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setEditing({
+                      id: policy.id,
+                      policy: {
+                        name: policy.name,
+                        category_id: policy.category_id,
+                        priority: policy.priority,
+                        response_minutes: policy.response_minutes,
+                        resolution_minutes: policy.resolution_minutes,
+                        business_hours_only: policy.business_hours_only,
+                        escalation_action: policy.escalation_action
+                      }
+                    })}
+                    className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                    title="Edit policy"
+                  >
+                    <Edit2 className="w-4 h-4 text-slate-500" />
+                  </button>
+                  <button
+                    onClick={() => handleToggleActive(policy)}
+                    className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                    title={policy.is_active ? 'Disable policy' : 'Enable policy'}
+                  >
+                    {policy.is_active
+                      ? <Archive className="w-4 h-4 text-slate-500" />
+                      : <ArchiveRestore className="w-4 h-4 text-slate-500" />}
+                  </button>
+                  <button
+                    onClick={() => handleDeletePolicy(policy)}
+                    className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                    title="Delete policy"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
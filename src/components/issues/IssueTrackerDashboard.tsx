@@ -1,12 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Filter, Search, AlertCircle, Clock, CheckCircle, Eye, ChevronRight, Calendar, Settings, Download, Trash2 } from 'lucide-react';
+import { Plus, Filter, Search, AlertCircle, Clock, CheckCircle, Eye, ChevronRight, Calendar, Settings, Download, Trash2, ShieldAlert, BellRing, X, Layers, CalendarClock } from 'lucide-react';
 import * as XLSX from 'xlsx';
 import { IssueService } from '../../lib/issues/issue-service';
 import { supabase } from '../../lib/supabase/client';
-import type { Issue, IssueStats, IssueFilters } from '../../lib/issues/types';
+import { DEFAULT_SLA_SETTINGS, SLA_STATE_LABELS, getIssueSlaStatus } from '../../lib/issues/sla-utils';
+import type { Issue, IssueStats, IssueFilters, IssueEscalation, BulkUpdateResult } from '../../lib/issues/types';
 import { CreateIssueModal } from './CreateIssueModal';
 import { IssueDetailModal } from './IssueDetailModal';
 import { IssueSettingsManager } from './IssueSettingsManager';
+import { BulkIssueActionsModal } from './BulkIssueActionsModal';
+import { RecurringIssueCalendar } from './RecurringIssueCalendar';
+import { SlaBadge } from './SlaBadge';
 import { ConfirmationModal } from '../modals/ConfirmationModal';
 import { DateRangeSelector, getInitialDateRange } from '../common/DateRangeSelector';
 import type { DateRangeValue } from '../common/DateRangeSelector';
@@ -28,12 +32,18 @@ export function IssueTrackerDashboard() {
   const [dateRange, setDateRange] = useState<DateRangeValue>(getInitialDateRange('today'));
   const [orgId, setOrgId] = useState<string | null>(null);
   const [userRole, setUserRole] = useState<string>('');
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [atRiskPercent, setAtRiskPercent] = useState(DEFAULT_SLA_SETTINGS.at_risk_percent);
+  const [escalations, setEscalations] = useState<IssueEscalation[]>([]);
   const [regions, setRegions] = useState<any[]>([]);
   const [branches, setBranches] = useState<any[]>([]);
   const [users, setUsers] = useState<Map<string, any>>(new Map());
   const [customers, setCustomers] = useState<Map<string, any>>(new Map());
   const [categories, setCategories] = useState<any[]>([]);
   const [statuses, setStatuses] = useState<any[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showBulkModal, setShowBulkModal] = useState(false);
+  const [showCalendar, setShowCalendar] = useState(false);
 
   useEffect(() => {
     fetchUserOrg();
@@ -41,7 +51,7 @@ export function IssueTrackerDashboard() {
 
   useEffect(() => {
     if (orgId) {
-      loadStats();
+      refreshSla();
       loadRegions();
       loadUsers();
       loadCustomers();
@@ -50,6 +60,12 @@ export function IssueTrackerDashboard() {
     }
   }, [orgId]);
 
+  useEffect(() => {
+    if (orgId && currentUserId) {
+      loadEscalations();
+    }
+  }, [orgId, currentUserId]);
+
   useEffect(() => {
     if (filters.region_id) {
       loadBranches(filters.region_id);
@@ -68,6 +84,7 @@ export function IssueTrackerDashboard() {
         .single();
 
       if (data) {
+        setCurrentUserId(user.id);
         setOrgId(data.org_id);
         setUserRole((data.role as any)?.name || '');
       }
@@ -80,6 +97,37 @@ export function IssueTrackerDashboard() {
     setStats(data);
   };
 
+  // Breaches are escalated by a scheduled job every 15 minutes
+  const refreshSla = async () => {
+    if (!orgId) return;
+    loadStats();
+
+    const settings = await IssueService.getSlaSettings(orgId);
+    if (settings) setAtRiskPercent(settings.at_risk_percent);
+  };
+
+  const loadEscalations = async () => {
+    if (!currentUserId) return;
+    setEscalations(await IssueService.getOpenEscalationsForUser(currentUserId));
+  };
+
+  const handleOpenEscalation = async (escalation: IssueEscalation) => {
+    const issue = await IssueService.getIssue(escalation.issue_id);
+    if (issue) {
+      setSelectedIssue(issue);
+    } else {
+      showError('Issue Unavailable', 'This issue could not be loaded');
+    }
+  };
+
+  const handleAcknowledgeEscalation = async (escalation: IssueEscalation) => {
+    if (await IssueService.acknowledgeEscalation(escalation.id)) {
+      setEscalations(escalations.filter(e => e.id !== escalation.id));
+    } else {
+      showError('Update Failed', 'Unable to dismiss this escalation');
+    }
+  };
+
   const loadRegions = async () => {
     if (!orgId) return;
     const { data } = await supabase
@@ -156,6 +204,7 @@ export function IssueTrackerDashboard() {
     setLoading(true);
     const data = await IssueService.listIssues(orgId, { ...appliedFilters, search: searchQuery });
     setIssues(data);
+    setSelectedIds(prev => new Set(data.filter(issue => prev.has(issue.id)).map(issue => issue.id)));
     setLoading(false);
   };
 
@@ -167,6 +216,7 @@ export function IssueTrackerDashboard() {
         const customer = issue.customer_id ? customers.get(issue.customer_id) : null;
         const category = categories.find(c => c.id === issue.category_id);
         const status = statuses.find(s => s.id === issue.status_id);
+        const sla = getIssueSlaStatus(issue, atRiskPercent);
 
         return {
           'Issue Number': issue.issue_number,
@@ -181,6 +231,8 @@ export function IssueTrackerDashboard() {
           'Assigned To': assignee?.full_name || 'Unassigned',
           'Assigned At': issue.assigned_at ? new Date(issue.assigned_at).toLocaleString() : '',
           'Due Date': issue.due_date ? new Date(issue.due_date).toLocaleDateString() : '',
+          'SLA': SLA_STATE_LABELS[sla.overall],
+          'SLA Resolve By': issue.sla_resolution_due_at ? new Date(issue.sla_resolution_due_at).toLocaleString() : '',
           'Action Taken': issue.action_taken || '',
           'Created At': new Date(issue.created_at).toLocaleString(),
           'Updated At': new Date(issue.updated_at).toLocaleString(),
@@ -202,6 +254,8 @@ export function IssueTrackerDashboard() {
         { wch: 20 }, // Assigned To
         { wch: 20 }, // Assigned At
         { wch: 15 }, // Due Date
+        { wch: 12 }, // SLA
+        { wch: 20 }, // SLA Resolve By
         { wch: 40 }, // Action Taken
         { wch: 20 }, // Created At
         { wch: 20 }, // Updated At
@@ -221,6 +275,32 @@ export function IssueTrackerDashboard() {
   };
 
   const isAdmin = ['super_admin', 'client_admin', 'regional_admin', 'branch_admin'].includes(userRole);
+  const canBulkEdit = isAdmin || ['hq', 'bsm', 'regional_manager', 'branch_manager', 'field_supervisor'].includes(userRole);
+  const selectedIssues = issues.filter(issue => selectedIds.has(issue.id));
+  const allSelected = issues.length > 0 && selectedIssues.length === issues.length;
+
+  const toggleSelected = (issueId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(issueId)) {
+        next.delete(issueId);
+      } else {
+        next.add(issueId);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(issues.map(issue => issue.id)));
+  };
+
+  const handleBulkComplete = (result: BulkUpdateResult) => {
+    setShowBulkModal(false);
+    setSelectedIds(new Set(result.failed.map(failure => failure.issue_id)));
+    if (hasSearched) handleSearch();
+    loadStats();
+  };
 
   const handleDeleteIssue = async () => {
     if (!issueToDelete) return;
@@ -307,6 +387,14 @@ export function IssueTrackerDashboard() {
                 <span className="font-semibold hidden sm:inline">Export</span>
               </button>
             )}
+            <button
+              onClick={() => setShowCalendar(true)}
+              className="bg-white text-slate-700 px-6 py-4 rounded-xl hover:bg-slate-50 transition-all duration-300 flex items-center gap-3 shadow-md border border-slate-200 hover:shadow-lg hover:-translate-y-0.5"
+              title="Scheduled and recurring issues"
+            >
+              <CalendarClock className="w-5 h-5" />
+              <span className="font-semibold hidden sm:inline">Schedule</span>
+            </button>
             {isAdmin && (
               <button
                 onClick={() => setShowSettingsModal(true)}
@@ -395,6 +483,56 @@ export function IssueTrackerDashboard() {
           </div>
         )}
 
+        {(escalations.length > 0 || (stats && stats.sla_breached > 0)) && (
+          <div className="space-y-3 mb-6">
+            {stats && stats.sla_breached > 0 && (
+              <div className="flex items-center gap-3 px-5 py-4 bg-red-50 border border-red-200 rounded-2xl">
+                <ShieldAlert className="w-5 h-5 text-red-600 flex-shrink-0" />
+                <p className="text-sm font-semibold text-red-700">
+                  {stats.sla_breached} open {stats.sla_breached === 1 ? 'issue has' : 'issues have'} breached SLA
+                </p>
+              </div>
+            )}
+
+            {escalations.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 rounded-2xl p-5">
+                <div className="flex items-center gap-2 mb-3">
+                  <BellRing className="w-5 h-5 text-amber-600" />
+                  <h3 className="text-sm font-bold text-amber-800">Escalated to you ({escalations.length})</h3>
+                </div>
+                <div className="space-y-2">
+                  {escalations.map((escalation) => (
+                    <div key={escalation.id} className="flex items-center justify-between gap-3 bg-white rounded-xl px-4 py-3 border border-amber-100">
+                      <button
+                        onClick={() => handleOpenEscalation(escalation)}
+                        className="flex-1 text-left min-w-0"
+                      >
+                        <p className="text-sm font-semibold text-slate-800 truncate">
+                          <span className="font-mono text-slate-500 mr-2">{escalation.issue?.issue_number}</span>
+                          {escalation.issue?.title}
+                        </p>
+                        <p className="text-xs text-slate-500 mt-0.5">
+                          {escalation.reason === 'response' ? 'Response' : 'Resolution'} target missed
+                          {escalation.escalated_from && ` by ${users.get(escalation.escalated_from)?.full_name || 'assignee'}`}
+                          {escalation.action === 'reassign_manager' && ' · reassigned to you'}
+                          {' · '}{new Date(escalation.created_at).toLocaleString()}
+                        </p>
+                      </button>
+                      <button
+                        onClick={() => handleAcknowledgeEscalation(escalation)}
+                        className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+                        title="Dismiss"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="bg-white rounded-2xl shadow-lg border border-slate-200 p-6 mb-6">
           <div className="flex items-center gap-4 mb-6">
             <div className="flex-1 relative">
@@ -548,10 +686,44 @@ export function IssueTrackerDashboard() {
           </div>
         ) : (
           <div className="bg-white rounded-2xl border border-slate-200 shadow-xl overflow-hidden">
+            {canBulkEdit && selectedIssues.length > 0 && (
+              <div className="flex items-center justify-between gap-4 px-6 py-3 bg-emerald-50 border-b border-emerald-200">
+                <span className="text-sm font-semibold text-emerald-800">
+                  {selectedIssues.length} issue{selectedIssues.length === 1 ? '' : 's'} selected
+                </span>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setSelectedIds(new Set())}
+                    className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-slate-600 hover:bg-white rounded-lg transition-colors"
+                  >
+                    <X className="w-4 h-4" />
+                    Clear
+                  </button>
+                  <button
+                    onClick={() => setShowBulkModal(true)}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors"
+                  >
+                    <Layers className="w-4 h-4" />
+                    Bulk Update
+                  </button>
+                </div>
+              </div>
+            )}
             <div className="overflow-x-auto">
               <table className="w-full">
                 <thead className="bg-gradient-to-r from-slate-50 to-slate-100 border-b-2 border-slate-200">
                   <tr>
+                    {canBulkEdit && (
+                      <th className="pl-6 py-4 w-10">
+                        <input
+                          type="checkbox"
+                          checked={allSelected}
+                          onChange={toggleSelectAll}
+                          className="w-4 h-4 text-emerald-600 border-slate-300 rounded focus:ring-emerald-500"
+                          title="Select all issues"
+                        />
+                      </th>
+                    )}
                     <th className="px-6 py-4 text-left text-xs font-bold text-slate-700 uppercase tracking-wider">
                       Issue #
                     </th>
@@ -567,6 +739,9 @@ export function IssueTrackerDashboard() {
                     <th className="px-6 py-4 text-left text-xs font-bold text-slate-700 uppercase tracking-wider">
                       Status
                     </th>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-slate-700 uppercase tracking-wider">
+                      SLA
+                    </th>
                     <th className="px-6 py-4 text-left text-xs font-bold text-slate-700 uppercase tracking-wider">
                       Due Date
                     </th>
@@ -583,12 +758,25 @@ export function IssueTrackerDashboard() {
                     const isPastDue = issue.due_date && new Date(issue.due_date) < new Date();
                     const priorityConfig = getPriorityConfig(issue.priority);
                     const issueStatus = getStatusForIssue(issue);
+                    const sla = getIssueSlaStatus(issue, atRiskPercent);
 
                     return (
                       <tr
                         key={issue.id}
-                        className="hover:bg-gradient-to-r hover:from-slate-50 hover:to-transparent transition-all duration-200 group"
+                        className={`hover:bg-gradient-to-r hover:from-slate-50 hover:to-transparent transition-all duration-200 group ${
+                          selectedIds.has(issue.id) ? 'bg-emerald-50/50' : ''
+                        }`}
                       >
+                        {canBulkEdit && (
+                          <td className="pl-6 py-4">
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.has(issue.id)}
+                              onChange={() => toggleSelected(issue.id)}
+                              className="w-4 h-4 text-emerald-600 border-slate-300 rounded focus:ring-emerald-500"
+                            />
+                          </td>
+                        )}
                         <td className="px-6 py-4">
                           <div className="inline-flex items-center gap-2 px-3 py-1.5 bg-gradient-to-r from-slate-100 to-slate-200 rounded-lg">
                             <span className="text-sm font-bold text-slate-700 font-mono">
@@ -646,6 +834,17 @@ export function IssueTrackerDashboard() {
                             </span>
                           )}
                         </td>
+                        <td className="px-6 py-4">
+                          {sla.overall === 'none' ? (
+                            <span className="text-sm text-slate-400">-</span>
+                          ) : (
+                            <SlaBadge
+                              state={sla.overall}
+                              dueAt={sla.next_due_at}
+                              showRemaining={!issue.sla_resolved_at}
+                            />
+                          )}
+                        </td>
                         <td className="px-6 py-4">
                           {issue.due_date ? (
                             <div className="flex items-center gap-2">
@@ -727,6 +926,31 @@ export function IssueTrackerDashboard() {
             setSelectedIssue(null);
             if (hasSearched) handleSearch();
             loadStats();
+            loadEscalations();
+          }}
+        />
+      )}
+
+      {showBulkModal && orgId && (
+        <BulkIssueActionsModal
+          orgId={orgId}
+          issues={selectedIssues}
+          users={Array.from(users.values())}
+          categories={categories}
+          statuses={statuses}
+          onClose={() => setShowBulkModal(false)}
+          onComplete={handleBulkComplete}
+        />
+      )}
+
+      {showCalendar && orgId && (
+        <RecurringIssueCalendar
+          orgId={orgId}
+          statuses={statuses}
+          onClose={() => setShowCalendar(false)}
+          onSelectIssue={(issue) => {
+            setShowCalendar(false);
+            setSelectedIssue(issue);
           }}
         />
       )}
@@ -737,7 +961,7 @@ export function IssueTrackerDashboard() {
           onClose={() => {
             setShowSettingsModal(false);
             if (hasSearched) handleSearch();
-            loadStats();
+            refreshSla();
           }}
         />
       )}
@@ -0,0 +1,217 @@
+import { useState, useEffect } from 'react';
+import { Globe, Plus, Copy, Ban, Eye, X } from 'lucide-react';
+import { IssueService } from '../../lib/issues/issue-service';
+import {
+  DEFAULT_TRACKING_LINK_DAYS,
+  TRACKING_LINK_EXPIRY_OPTIONS,
+  buildTrackingUrl,
+  getTrackingLinkState
+} from '../../lib/issues/tracking-utils';
+import type { TrackingLinkState } from '../../lib/issues/tracking-utils';
+import type { IssueTrackingLink } from '../../lib/issues/types';
+import { useToast } from '../../contexts/ToastContext';
+
+interface IssueTrackingLinksPanelProps {
+  issueId: string;
+  customerName: string | null;
+}
+
+const STATE_STYLES: Record<TrackingLinkState, string> = {
+  active: 'bg-emerald-100 text-emerald-700',
+  expired: 'bg-slate-200 text-slate-600',
+  revoked: 'bg-red-100 text-red-700'
+};
+
+export function IssueTrackingLinksPanel({ issueId, customerName }: IssueTrackingLinksPanelProps) {
+  const { showSuccess, showError, confirm } = useToast();
+  const [links, setLinks] = useState<IssueTrackingLink[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [contactName, setContactName] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState<number>(DEFAULT_TRACKING_LINK_DAYS);
+  const [saving, setSaving] = useState(false);
+  const [newUrl, setNewUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadLinks();
+  }, [issueId]);
+
+  const loadLinks = async () => {
+    setLinks(await IssueService.getTrackingLinks(issueId));
+  };
+
+  const copyUrl = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      showSuccess('Link Copied', 'Paste it into your message to the customer');
+    } catch {
+      showError('Copy Failed', 'Select the link and copy it manually');
+    }
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const created = await IssueService.createTrackingLink(issueId, expiresInDays, contactName.trim() || undefined);
+      const url = buildTrackingUrl(created.token);
+      setNewUrl(url);
+      setCreating(false);
+      setContactName('');
+      loadLinks();
+      copyUrl(url);
+    } catch (error) {
+      showError('Link Failed', error instanceof Error ? error.message : 'Unable to create tracking link');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (link: IssueTrackingLink) => {
+    const confirmed = await confirm('Revoke Link', 'The customer will no longer be able to open this link.');
+    if (!confirmed) return;
+
+    if (await IssueService.revokeTrackingLink(link.id)) {
+      showSuccess('Link Revoked', link.contact_name || 'Tracking link');
+      loadLinks();
+    } else {
+      showError('Revoke Failed', 'Unable to revoke tracking link');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 rounded-lg bg-indigo-100 flex items-center justify-center">
+            <Globe className="w-4 h-4 text-indigo-600" />
+          </div>
+          <h3 className="text-sm font-bold text-slate-700 uppercase tracking-wide">Customer Tracking Links</h3>
+        </div>
+        {!creating && (
+          <button
+            onClick={() => setCreating(true)}
+            className="flex items-center gap-2 px-3 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            New Link
+          </button>
+        )}
+      </div>
+
+      <p className="text-xs text-slate-500 mb-3">
+        Customers see the status and the work notes you share with them, and can reply. Internal notes stay hidden.
+      </p>
+
+      {newUrl && (
+        <div className="p-3 mb-3 bg-indigo-50 border border-indigo-200 rounded-xl">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-bold text-indigo-800 uppercase">New link — copy it now, it is not shown again</span>
+            <button onClick={() => setNewUrl(null)} className="p-1 hover:bg-indigo-100 rounded">
+              <X className="w-4 h-4 text-indigo-600" />
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              readOnly
+              value={newUrl}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 px-3 py-2 bg-white border border-indigo-200 rounded-lg text-sm text-slate-700 font-mono"
+            />
+            <button
+              onClick={() => copyUrl(newUrl)}
+              className="p-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+              title="Copy link"
+            >
+              <Copy className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {creating && (
+        <div className="bg-slate-50 rounded-xl p-4 mb-3 space-y-3 border border-slate-200">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Sent to</label>
+              <input
+                type="text"
+                value={contactName}
+                onChange={(e) => setContactName(e.target.value)}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500"
+                placeholder={customerName || 'Contact name'}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Expires after</label>
+              <select
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500"
+              >
+                {TRACKING_LINK_EXPIRY_OPTIONS.map(days => (
+                  <option key={days} value={days}>{days} days</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">
+            Replies are attributed to {contactName.trim() || customerName || 'the customer'}.
+          </p>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setCreating(false)}
+              className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={saving}
+              className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors text-sm disabled:opacity-50"
+            >
+              <Globe className="w-4 h-4" />
+              {saving ? 'Creating...' : 'Create Link'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {links.length === 0 ? (
+        !creating && <p className="text-sm text-slate-400 text-center py-2">No tracking links yet</p>
+      ) : (
+        <div className="space-y-2">
+          {links.map(link => {
+            const state = getTrackingLinkState(link);
+            return (
+              <div key={link.id} className="flex items-center justify-between p-3 rounded-xl border border-slate-200 bg-slate-50">
+                <div className="min-w-0 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-slate-800 truncate">{link.contact_name || customerName || 'Customer'}</span>
+                    <span className={`text-xs px-2 py-0.5 rounded font-medium capitalize ${STATE_STYLES[state]}`}>{state}</span>
+                  </div>
+                  <p className="text-xs text-slate-500 flex items-center gap-1 mt-0.5">
+                    {state === 'active' ? 'Expires' : 'Expired'} {new Date(link.expires_at).toLocaleDateString()}
+                    <span className="mx-1">·</span>
+                    <Eye className="w-3 h-3" />
+                    {link.view_count === 0
+                      ? 'Not opened yet'
+                      : `${link.view_count} view${link.view_count === 1 ? '' : 's'}, last ${new Date(link.last_viewed_at || link.created_at).toLocaleString()}`}
+                  </p>
+                </div>
+                {state === 'active' && (
+                  <button
+                    onClick={() => handleRevoke(link)}
+                    className="p-2 hover:bg-red-50 rounded-lg transition-colors flex-shrink-0"
+                    title="Revoke link"
+                  >
+                    <Ban className="w-4 h-4 text-red-500" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react';
+import { AlertCircle, Calendar, Clock, MessageCircle, Send, Link } from 'lucide-react';
+import { IssueService } from '../../lib/issues/issue-service';
+import type { IssueTrackingView } from '../../lib/issues/types';
+
+interface IssueTrackingPortalProps {
+  token: string;
+}
+
+const PRIORITY_STYLES: Record<string, string> = {
+  high: 'bg-red-50 text-red-700 border-red-200',
+  medium: 'bg-amber-50 text-amber-700 border-amber-200',
+  low: 'bg-emerald-50 text-emerald-700 border-emerald-200'
+};
+
+/** Public, read-only issue page opened from a customer tracking link. */
+export function IssueTrackingPortal({ token }: IssueTrackingPortalProps) {
+  const [view, setView] = useState<IssueTrackingView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [reply, setReply] = useState('');
+  const [sending, setSending] = useState(false);
+  const [replyError, setReplyError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadView();
+  }, [token]);
+
+  const loadView = async () => {
+    setLoading(true);
+    try {
+      setView(await IssueService.getTrackingView(token));
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Unable to load this issue');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReply = async () => {
+    if (!view || !reply.trim()) return;
+
+    setSending(true);
+    setReplyError(null);
+    try {
+      const comment = await IssueService.addTrackingReply(token, reply.trim());
+      setView({ ...view, comments: [...view.comments, comment] });
+      setReply('');
+    } catch (error) {
+      setReplyError(error instanceof Error ? error.message : 'Unable to send your reply');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50">
+        <div className="w-12 h-12 border-4 border-emerald-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (loadError || !view) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 p-4">
+        <div className="bg-white rounded-2xl shadow-lg border border-slate-200 p-10 max-w-md w-full text-center">
+          <div className="w-16 h-16 rounded-full bg-slate-100 flex items-center justify-center mx-auto mb-4">
+            <Link className="w-8 h-8 text-slate-400" />
+          </div>
+          <h1 className="text-xl font-bold text-slate-800 mb-2">Link unavailable</h1>
+          <p className="text-slate-600">{loadError || 'This tracking link is invalid or has expired'}</p>
+          <p className="text-sm text-slate-500 mt-4">Ask your contact for a new link.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const statusColor = view.status_color || '#6B7280';
+
+  return (
+    <div className="min-h-screen bg-slate-50 p-4 sm:p-8">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="text-center">
+          <p className="text-sm font-semibold text-slate-500 uppercase tracking-wide">{view.organization_name}</p>
+          <h1 className="text-2xl font-bold text-slate-800 mt-1">Issue Status</h1>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg border border-slate-200 p-6">
+          <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+            <div className="min-w-0">
+              <span className="inline-block px-3 py-1 bg-slate-100 rounded-lg text-sm font-bold text-slate-700 font-mono mb-2">
+                {view.issue_number}
+              </span>
+              <h2 className="text-xl font-bold text-slate-800">{view.title}</h2>
+              {view.customer_name && <p className="text-sm text-slate-500 mt-1">{view.customer_name}</p>}
+            </div>
+            <span
+              className="inline-flex items-center px-4 py-2 rounded-lg text-sm font-bold border"
+              style={{ backgroundColor: statusColor + '15', color: statusColor, borderColor: statusColor + '40' }}
+            >
+              {view.status}
+            </span>
+          </div>
+
+          {view.description && (
+            <p className="text-slate-700 leading-relaxed whitespace-pre-wrap mb-4">{view.description}</p>
+          )}
+
+          <div className="flex flex-wrap gap-4 text-sm text-slate-600">
+            <span className={`px-3 py-1 rounded-lg border text-xs font-bold uppercase ${PRIORITY_STYLES[view.priority] || PRIORITY_STYLES.medium}`}>
+              {view.priority} priority
+            </span>
+            <span className="flex items-center gap-1.5">
+              <Calendar className="w-4 h-4 text-slate-400" />
+              Reported {new Date(view.created_at).toLocaleDateString()}
+            </span>
+            <span className="flex items-center gap-1.5">
+              <Clock className="w-4 h-4 text-slate-400" />
+              Updated {new Date(view.updated_at).toLocaleString()}
+            </span>
+            {view.due_date && !view.is_closed && (
+              <span className="flex items-center gap-1.5">
+                <AlertCircle className="w-4 h-4 text-slate-400" />
+                Target {new Date(view.due_date).toLocaleDateString()}
+              </span>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg border border-slate-200 p-6">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2 mb-4">
+            <MessageCircle className="w-5 h-5 text-emerald-600" />
+            Updates
+          </h3>
+
+          {view.comments.length === 0 ? (
+            <p className="text-sm text-slate-400 text-center py-6">No updates yet. We will post progress here.</p>
+          ) : (
+            <div className="space-y-3 mb-6">
+              {view.comments.map(comment => (
+                <div
+                  key={comment.id}
+                  className={`rounded-xl p-4 border ${
+                    comment.from_customer ? 'bg-indigo-50 border-indigo-100 ml-8' : 'bg-slate-50 border-slate-200 mr-8'
+                  }`}
+                >
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm font-bold text-slate-800">
+                      {comment.from_customer ? `${comment.author_name} (you)` : comment.author_name}
+                    </span>
+                    <span className="text-xs text-slate-500">{new Date(comment.created_at).toLocaleString()}</span>
+                  </div>
+                  <p className="text-sm text-slate-700 whitespace-pre-wrap">{comment.comment_text}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {view.is_closed ? (
+            <p className="text-sm text-slate-500 text-center border-t border-slate-200 pt-4">
+              This issue is closed. Contact us if the problem comes back.
+            </p>
+          ) : (
+            <div className="border-t border-slate-200 pt-4">
+              {replyError && (
+                <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{replyError}</div>
+              )}
+              <textarea
+                value={reply}
+                onChange={(e) => setReply(e.target.value)}
+                rows={3}
+                maxLength={5000}
+                placeholder="Add a reply or more details..."
+                className="w-full px-4 py-3 bg-slate-50 border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 focus:bg-white transition-all text-slate-800 placeholder:text-slate-400 resize-none"
+              />
+              <div className="flex justify-end mt-3">
+                <button
+                  onClick={handleReply}
+                  disabled={!reply.trim() || sending}
+                  className="flex items-center gap-2 px-6 py-2.5 bg-emerald-600 text-white rounded-xl hover:bg-emerald-700 transition-colors font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Send className="w-4 h-4" />
+                  {sending ? 'Sending...' : 'Send Reply'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <p className="text-xs text-slate-400 text-center">
+          This link expires on {new Date(view.expires_at).toLocaleDateString()}.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState, useEffect } from 'react';
+import { X, CalendarClock, ChevronLeft, ChevronRight, Repeat } from 'lucide-react';
+import { IssueService } from '../../lib/issues/issue-service';
+import { toDateKey, upcomingOccurrences } from '../../lib/issues/recurrence-utils';
+import type { Issue, IssueCustomStatus, IssueRecurringTemplate, RecurringOccurrence } from '../../lib/issues/types';
+
+interface RecurringIssueCalendarProps {
+  orgId: string;
+  statuses: IssueCustomStatus[];
+  onClose: () => void;
+  onSelectIssue: (issue: Issue) => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Every day shown in the month grid, padded to whole weeks. */
+function monthGrid(month: Date): Date[] {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  const start = new Date(first);
+  start.setDate(1 - first.getDay());
+
+  const last = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+  const days: Date[] = [];
+  for (let day = new Date(start); day <= last || day.getDay() !== 0; day.setDate(day.getDate() + 1)) {
+    days.push(new Date(day));
+  }
+  return days;
+}
+
+export function RecurringIssueCalendar({ orgId, statuses, onClose, onSelectIssue }: RecurringIssueCalendarProps) {
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+  const [templates, setTemplates] = useState<IssueRecurringTemplate[]>([]);
+  const [issues, setIssues] = useState<Issue[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const days = monthGrid(month);
+  const from = toDateKey(days[0]);
+  const to = toDateKey(days[days.length - 1]);
+  const today = toDateKey(new Date());
+
+  useEffect(() => {
+    loadMonth();
+  }, [orgId, from, to]);
+
+  const loadMonth = async () => {
+    setLoading(true);
+    const [templateData, issueData] = await Promise.all([
+      IssueService.getRecurringTemplates(orgId),
+      IssueService.getRecurringIssues(orgId, from, to)
+    ]);
+    setTemplates(templateData);
+    setIssues(issueData);
+    setLoading(false);
+  };
+
+  const projected = templates
+    .filter(template => template.is_active)
+    .flatMap(template => upcomingOccurrences(template, from, to))
+    // An occurrence inside its create-ahead window may already have issues
+    .filter(occurrence => !issues.some(
+      issue => issue.recurring_template_id === occurrence.template.id && issue.recurrence_date === occurrence.date
+    ));
+
+  const issuesByDate = new Map<string, Issue[]>();
+  issues.forEach(issue => {
+    const key = issue.recurrence_date || '';
+    issuesByDate.set(key, [...(issuesByDate.get(key) || []), issue]);
+  });
+
+  const projectedByDate = new Map<string, RecurringOccurrence[]>();
+  projected.forEach(occurrence => {
+    projectedByDate.set(occurrence.date, [...(projectedByDate.get(occurrence.date) || []), occurrence]);
+  });
+
+  const shiftMonth = (delta: number) => {
+    setMonth(new Date(month.getFullYear(), month.getMonth() + delta, 1));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-slate-100 flex items-center justify-center">
+              <CalendarClock className="w-5 h-5 text-slate-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-800">Scheduled Issues</h2>
+              <p className="text-sm text-slate-500">Issues created from recurring templates and upcoming occurrences</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-3 border-b border-slate-200">
+          <button onClick={() => shiftMonth(-1)} className="p-2 hover:bg-slate-100 rounded-lg transition-colors" title="Previous month">
+            <ChevronLeft className="w-5 h-5 text-slate-600" />
+          </button>
+          <div className="flex items-center gap-3">
+            <span className="text-lg font-semibold text-slate-800">
+              {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+            </span>
+            {loading && <div className="w-4 h-4 border-2 border-emerald-600 border-t-transparent rounded-full animate-spin" />}
+          </div>
+          <button onClick={() => shiftMonth(1)} className="p-2 hover:bg-slate-100 rounded-lg transition-colors" title="Next month">
+            <ChevronRight className="w-5 h-5 text-slate-600" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          <div className="grid grid-cols-7 gap-px bg-slate-200 border border-slate-200 rounded-xl overflow-hidden">
+            {WEEKDAYS.map(day => (
+              <div key={day} className="bg-slate-50 px-2 py-2 text-xs font-bold text-slate-500 uppercase text-center">
+                {day}
+              </div>
+            ))}
+            {days.map(day => {
+              const key = toDateKey(day);
+              const dayIssues = issuesByDate.get(key) || [];
+              const dayProjected = projectedByDate.get(key) || [];
+              const inMonth = day.getMonth() === month.getMonth();
+
+              return (
+                <div key={key} className={`min-h-[96px] p-1.5 space-y-1 ${inMonth ? 'bg-white' : 'bg-slate-50'}`}>
+                  <div className={`text-xs font-semibold px-1 ${
+                    key === today ? 'text-emerald-600' : inMonth ? 'text-slate-700' : 'text-slate-400'
+                  }`}>
+                    {day.getDate()}
+                  </div>
+                  {dayIssues.map(issue => {
+                    const status = statuses.find(s => s.id === issue.status_id);
+                    return (
+                      <button
+                        key={issue.id}
+                        onClick={() => onSelectIssue(issue)}
+                        className={`w-full text-left px-1.5 py-1 rounded text-xs font-medium truncate border ${
+                          status?.is_closed
+                            ? 'bg-slate-100 text-slate-500 border-slate-200 line-through'
+                            : 'bg-emerald-50 text-emerald-800 border-emerald-200 hover:bg-emerald-100'
+                        }`}
+                        title={`${issue.issue_number} · ${issue.title}${status ? ` · ${status.display_name}` : ''}`}
+                      >
+                        {issue.issue_number} · {issue.title}
+                      </button>
+                    );
+                  })}
+                  {dayProjected.map(({ template }) => (
+                    <div
+                      key={template.id}
+                      className="flex items-center gap-1 px-1.5 py-1 rounded text-xs text-slate-600 border border-dashed border-slate-300 truncate"
+                      title={`${template.name} · ${Math.max(template.customer_ids.length, 1)} issue(s) will be created`}
+                    >
+                      <Repeat className="w-3 h-3 flex-shrink-0" />
+                      <span className="truncate">
+                        {template.title}
+                        {template.customer_ids.length > 1 && ` ×${template.customer_ids.length}`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center gap-4 mt-4 text-xs text-slate-500">
+            <span className="flex items-center gap-1.5">
+              <span className="w-3 h-3 rounded bg-emerald-50 border border-emerald-200" />
+              Created issue
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className="w-3 h-3 rounded border border-dashed border-slate-300" />
+              Upcoming occurrence
+            </span>
+            {!loading && templates.length === 0 && (
+              <span>No recurring templates yet. Add them under Settings → Recurring.</span>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { AlertTriangle, CheckCircle, Clock, PauseCircle, ShieldAlert } from 'lucide-react';
+import { SLA_STATE_LABELS, formatSlaRemaining } from '../../lib/issues/sla-utils';
+import type { SlaState } from '../../lib/issues/types';
+
+interface SlaBadgeProps {
+  state: SlaState;
+  dueAt?: string | null;
+  showRemaining?: boolean;
+}
+
+const STATE_STYLES: Record<SlaState, { className: string; icon: typeof Clock }> = {
+  none: { className: 'bg-slate-50 text-slate-500 border-slate-200', icon: Clock },
+  on_track: { className: 'bg-emerald-50 text-emerald-700 border-emerald-200', icon: Clock },
+  at_risk: { className: 'bg-amber-50 text-amber-700 border-amber-300', icon: AlertTriangle },
+  paused: { className: 'bg-slate-100 text-slate-600 border-slate-300', icon: PauseCircle },
+  met: { className: 'bg-emerald-50 text-emerald-700 border-emerald-200', icon: CheckCircle },
+  breached: { className: 'bg-red-50 text-red-700 border-red-300', icon: ShieldAlert }
+};
+
+export function SlaBadge({ state, dueAt, showRemaining = true }: SlaBadgeProps) {
+  const { className, icon: Icon } = STATE_STYLES[state];
+  const countingDown = state === 'on_track' || state === 'at_risk' || state === 'breached';
+
+  return (
+    <span className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-bold border ${className}`}>
+      <Icon className="w-3.5 h-3.5" />
+      {SLA_STATE_LABELS[state]}
+      {showRemaining && countingDown && dueAt && (
+        <span className="font-medium opacity-80">· {formatSlaRemaining(dueAt)}</span>
+      )}
+    </span>
+  );
+}
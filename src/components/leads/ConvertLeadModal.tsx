@@ -0,0 +1,359 @@
+import { useState, useEffect } from 'react';
+import { X, UserCheck, Crosshair, FileText } from 'lucide-react';
+import { LeadService } from '../../lib/leads/lead-service';
+import { buildCustomerFromLead } from '../../lib/leads/conversion-utils';
+import { CustomerCodeService } from '../../lib/organization/customer-code-service';
+import { OrgStructureService } from '../../lib/organization/org-structure-service';
+import { FormService } from '../../lib/forms/form-service';
+import { getCurrentPosition } from '../../lib/forms/geofence-utils';
+import type { Branch, Region } from '../../lib/supabase/types';
+import type { Form } from '../../lib/forms/types';
+import type { CustomerType, LeadConvertedCustomer, LeadWithDetails } from '../../lib/leads/types';
+import { useToast } from '../../contexts/ToastContext';
+
+interface ConvertLeadModalProps {
+  isOpen: boolean;
+  lead: LeadWithDetails;
+  onClose: () => void;
+  onConverted: (customer: LeadConvertedCustomer) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-[#015324]';
+
+const CUSTOMER_TYPES: { value: CustomerType; label: string }[] = [
+  { value: 'permanent', label: 'Permanent' },
+  { value: 'temporary', label: 'Temporary' },
+  { value: 'contract', label: 'Contract' },
+  { value: 'freelance', label: 'Freelance' }
+];
+
+export function ConvertLeadModal({ isOpen, lead, onClose, onConverted }: ConvertLeadModalProps) {
+  const { showSuccess, showError, showWarning } = useToast();
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [forms, setForms] = useState<Form[]>([]);
+  const [selectedFormIds, setSelectedFormIds] = useState<string[]>([]);
+  const [codePreview, setCodePreview] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [converting, setConverting] = useState(false);
+  const [locating, setLocating] = useState(false);
+  const [usePicture, setUsePicture] = useState(true);
+  const [formData, setFormData] = useState({
+    customer_name: '',
+    customer_code: '',
+    customer_telephone: '',
+    location_of_outlet: '',
+    country: 'Kenya',
+    latitude: '',
+    longitude: '',
+    region_id: '',
+    branch_id: '',
+    customer_type: 'permanent' as CustomerType
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      loadPrefill();
+    }
+  }, [isOpen, lead.id]);
+
+  const loadPrefill = async () => {
+    setLoading(true);
+    try {
+      const [regionsRes, branchesRes, activities, orgForms, code] = await Promise.all([
+        OrgStructureService.getRegions(lead.org_id),
+        OrgStructureService.getBranches(lead.org_id),
+        LeadService.listActivities(lead.id),
+        FormService.listForms(lead.org_id, { is_active: true }),
+        CustomerCodeService.generateCode(lead.org_id)
+      ]);
+
+      const customerForms = orgForms.filter(form => form.attach_to_customer);
+      const prefill = buildCustomerFromLead(lead, activities, branchesRes.data);
+
+      setRegions(regionsRes.data);
+      setBranches(branchesRes.data);
+      setForms(customerForms);
+      setSelectedFormIds(customerForms.map(form => form.id));
+      setCodePreview(code || '');
+      setUsePicture(!!prefill.customer_picture);
+      setFormData({
+        customer_name: prefill.customer_name,
+        customer_code: '',
+        customer_telephone: prefill.customer_telephone || '',
+        location_of_outlet: prefill.location_of_outlet || '',
+        country: 'Kenya',
+        latitude: prefill.latitude != null ? String(prefill.latitude) : '',
+        longitude: prefill.longitude != null ? String(prefill.longitude) : '',
+        region_id: prefill.region_id || '',
+        branch_id: prefill.branch_id || '',
+        customer_type: prefill.customer_type || 'permanent'
+      });
+    } catch (error) {
+      console.error('Error preparing lead conversion:', error);
+      showError('Load Failed', 'Unable to prepare the customer details.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLocate = async () => {
+    setLocating(true);
+    const position = await getCurrentPosition();
+    setLocating(false);
+    if (position) {
+      setFormData(prev => ({
+        ...prev,
+        latitude: position.latitude.toFixed(6),
+        longitude: position.longitude.toFixed(6)
+      }));
+    } else {
+      showWarning('Location Unavailable', 'Allow location access or enter the coordinates');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.customer_name.trim()) {
+      showError('Missing Name', 'Customer name is required');
+      return;
+    }
+    if ((formData.latitude === '') !== (formData.longitude === '')) {
+      showError('Incomplete Coordinates', 'Enter both latitude and longitude, or neither');
+      return;
+    }
+
+    setConverting(true);
+    try {
+      const customer = await LeadService.convertToCustomer(lead.id, {
+        customer_name: formData.customer_name.trim(),
+        customer_code: formData.customer_code.trim() || null,
+        customer_telephone: formData.customer_telephone.trim() || null,
+        location_of_outlet: formData.location_of_outlet.trim() || null,
+        country: formData.country.trim() || 'Kenya',
+        latitude: formData.latitude ? parseFloat(formData.latitude) : null,
+        longitude: formData.longitude ? parseFloat(formData.longitude) : null,
+        region_id: formData.region_id || null,
+        branch_id: formData.branch_id || null,
+        customer_picture: usePicture ? lead.picture_url || null : null,
+        customer_type: formData.customer_type
+      }, selectedFormIds);
+
+      showSuccess('Customer Created', `${customer.customer_name} (${customer.customer_code}) was created from this lead`);
+      onConverted(customer);
+      onClose();
+    } catch (error) {
+      console.error('Error converting lead:', error);
+      showError('Conversion Failed', (error as { message?: string })?.message || 'Unable to convert this lead. Please try again.');
+    } finally {
+      setConverting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const territoryBranches = formData.region_id
+    ? branches.filter(branch => branch.region_id === formData.region_id)
+    : branches;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-6 border-b border-slate-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-slate-800">Convert to Customer</h2>
+            <p className="text-sm text-slate-500">Review the details taken from {lead.full_name}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-slate-600" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <div className="w-10 h-10 border-4 border-[#015324] border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto">
+            <div className="p-6 space-y-5">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Customer Name *</label>
+                  <input
+                    type="text"
+                    value={formData.customer_name}
+                    onChange={(e) => setFormData({ ...formData, customer_name: e.target.value })}
+                    required
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Customer Code</label>
+                  <input
+                    type="text"
+                    value={formData.customer_code}
+                    onChange={(e) => setFormData({ ...formData, customer_code: e.target.value })}
+                    className={inputClass}
+                    placeholder={codePreview ? `Generated, e.g. ${codePreview}` : 'Generated automatically'}
+                  />
+                  <p className="text-xs text-slate-500 mt-1">Leave blank to use the next code for your organization</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Telephone</label>
+                  <input
+                    type="tel"
+                    value={formData.customer_telephone}
+                    onChange={(e) => setFormData({ ...formData, customer_telephone: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Customer Type</label>
+                  <select
+                    value={formData.customer_type}
+                    onChange={(e) => setFormData({ ...formData, customer_type: e.target.value as CustomerType })}
+                    className={inputClass}
+                  >
+                    {CUSTOMER_TYPES.map(type => (
+                      <option key={type.value} value={type.value}>{type.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Territory</label>
+                  <select
+                    value={formData.region_id}
+                    onChange={(e) => setFormData({ ...formData, region_id: e.target.value, branch_id: '' })}
+                    className={inputClass}
+                  >
+                    <option value="">Select Territory</option>
+                    {regions.map(region => (
+                      <option key={region.id} value={region.id}>{region.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Sub-Territory</label>
+                  <select
+                    value={formData.branch_id}
+                    onChange={(e) => setFormData({ ...formData, branch_id: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">Select Sub-Territory</option>
+                    {territoryBranches.map(branch => (
+                      <option key={branch.id} value={branch.id}>{branch.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Location of Outlet</label>
+                  <input
+                    type="text"
+                    value={formData.location_of_outlet}
+                    onChange={(e) => setFormData({ ...formData, location_of_outlet: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Country</label>
+                  <input
+                    type="text"
+                    value={formData.country}
+                    onChange={(e) => setFormData({ ...formData, country: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Coordinates</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      step="any"
+                      value={formData.latitude}
+                      onChange={(e) => setFormData({ ...formData, latitude: e.target.value })}
+                      className={inputClass}
+                      placeholder="Latitude"
+                    />
+                    <input
+                      type="number"
+                      step="any"
+                      value={formData.longitude}
+                      onChange={(e) => setFormData({ ...formData, longitude: e.target.value })}
+                      className={inputClass}
+                      placeholder="Longitude"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleLocate}
+                      disabled={locating}
+                      className="flex items-center gap-2 px-3 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm hover:bg-slate-100 transition-colors disabled:opacity-50 whitespace-nowrap"
+                    >
+                      <Crosshair className="w-4 h-4" />
+                      {locating ? 'Locating...' : 'Use GPS'}
+                    </button>
+                  </div>
+                  <p className="text-xs text-slate-500 mt-1">Taken from the latest visit or meeting logged with a location, when there is one</p>
+                </div>
+              </div>
+
+              {lead.picture_url && (
+                <label className="flex items-center gap-3 p-3 bg-slate-50 rounded-lg border border-slate-200 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={usePicture}
+                    onChange={(e) => setUsePicture(e.target.checked)}
+                    className="w-4 h-4 text-[#015324] border-slate-300 rounded focus:ring-[#015324]"
+                  />
+                  <img src={lead.picture_url} alt={lead.full_name} className="w-10 h-10 rounded-full object-cover" />
+                  <span className="text-sm text-slate-700">Use the lead's picture for the customer</span>
+                </label>
+              )}
+
+              <div>
+                <h3 className="text-sm font-semibold text-slate-700 mb-2">Attach forms</h3>
+                {forms.length === 0 ? (
+                  <p className="text-sm text-slate-500">No active forms are set up for customer attachment.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {forms.map(form => (
+                      <label key={form.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-slate-50 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={selectedFormIds.includes(form.id)}
+                          onChange={(e) => setSelectedFormIds(e.target.checked
+                            ? [...selectedFormIds, form.id]
+                            : selectedFormIds.filter(id => id !== form.id))}
+                          className="w-4 h-4 text-[#015324] border-slate-300 rounded focus:ring-[#015324]"
+                        />
+                        <FileText className="w-4 h-4 text-slate-400" />
+                        <span className="text-sm text-slate-700">{form.title}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="p-6 border-t border-slate-200 flex justify-end gap-3 bg-slate-50">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={converting}
+                className="flex items-center gap-2 px-4 py-2 bg-[#015324] text-white rounded-lg hover:bg-[#014a20] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <UserCheck className="w-4 h-4" />
+                {converting ? 'Converting...' : 'Create Customer'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
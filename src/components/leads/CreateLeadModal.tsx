@@ -1,8 +1,10 @@
 import { useState, useEffect } from 'react';
-import { X, Save, Upload, Image as ImageIcon } from 'lucide-react';
+import { X, Save, Upload, Image as ImageIcon, Copy } from 'lucide-react';
 import { LeadService } from '../../lib/leads/lead-service';
-import type { LeadFormTemplate, LeadFormField, LeadRank, LeadStatusRecord, CreateLeadData } from '../../lib/leads/types';
-import { LEAD_SOURCES } from '../../lib/leads/types';
+import type { LeadFormTemplate, LeadFormField, LeadRank, LeadStatusRecord, CreateLeadData, LeadDuplicateCandidate } from '../../lib/leads/types';
+import { LEAD_CURRENCIES, LEAD_SOURCES } from '../../lib/leads/types';
+import { parseDealValue } from '../../lib/leads/forecast-utils';
+import { LeadDuplicateError } from '../../lib/leads/duplicate-utils';
 import { useToast } from '../../contexts/ToastContext';
 
 interface CreateLeadModalProps {
@@ -14,7 +16,7 @@ interface CreateLeadModalProps {
 }
 
 export function CreateLeadModal({ isOpen, onClose, onSuccess, orgId, userId }: CreateLeadModalProps) {
-  const { showSuccess, showError } = useToast();
+  const { showSuccess, showError, showWarning } = useToast();
   const [templates, setTemplates] = useState<LeadFormTemplate[]>([]);
   const [selectedTemplate, setSelectedTemplate] = useState<LeadFormTemplate | null>(null);
   const [templateFields, setTemplateFields] = useState<LeadFormField[]>([]);
@@ -29,12 +31,17 @@ export function CreateLeadModal({ isOpen, onClose, onSuccess, orgId, userId }: C
     status: '',
     rank_id: '',
     source: '',
+    deal_value: '',
+    currency: 'USD',
+    expected_close_date: '',
     notes: '',
     picture_url: ''
   });
   const [dynamicFieldValues, setDynamicFieldValues] = useState<Record<string, string>>({});
   const [pictureFile, setPictureFile] = useState<File | null>(null);
   const [picturePreview, setPicturePreview] = useState<string>('');
+  const [duplicates, setDuplicates] = useState<LeadDuplicateCandidate[]>([]);
+  const [allowDuplicates, setAllowDuplicates] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
@@ -44,6 +51,30 @@ export function CreateLeadModal({ isOpen, onClose, onSuccess, orgId, userId }: C
     }
   }, [isOpen, orgId]);
 
+  useEffect(() => {
+    if (!isOpen || (formData.full_name.trim().length < 3 && !formData.email.trim() && !formData.phone.trim())) {
+      setDuplicates([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const candidates = await LeadService.findDuplicateLeads(orgId, {
+          full_name: formData.full_name,
+          email: formData.email,
+          phone: formData.phone,
+          company: formData.company
+        });
+        setDuplicates(candidates);
+        if (candidates.length === 0) setAllowDuplicates(false);
+      } catch (error) {
+        console.error('Error checking for duplicate leads:', error);
+      }
+    }, 500);
+
+    return () => clearTimeout(timer);
+  }, [isOpen, orgId, formData.full_name, formData.email, formData.phone, formData.company]);
+
   useEffect(() => {
     if (selectedTemplate) {
       loadTemplateFields();
@@ -128,20 +159,27 @@ export function CreateLeadModal({ isOpen, onClose, onSuccess, orgId, userId }: C
         field_value: value
       }));
 
-      const { rank_id, ...restForm } = formData;
+      const { rank_id, deal_value, expected_close_date, ...restForm } = formData;
       const leadData: CreateLeadData = {
         org_id: orgId,
         template_id: selectedTemplate?.id,
         ...restForm,
         rank_id: rank_id || undefined,
+        deal_value: parseDealValue(deal_value),
+        expected_close_date: expected_close_date || null,
         field_values: fieldValues
       };
 
-      await LeadService.createLead(leadData);
+      await LeadService.createLead(leadData, { allowDuplicates });
       showSuccess('Lead Created', 'New lead has been successfully created');
       onSuccess();
       handleClose();
     } catch (error) {
+      if (error instanceof LeadDuplicateError) {
+        setDuplicates(error.candidates);
+        showWarning('Possible Duplicate', 'This prospect may already be on file. Review the matches before creating it.');
+        return;
+      }
       console.error('Error creating lead:', error);
       showError('Creation Failed', 'Unable to create lead. Please try again.');
     } finally {
@@ -159,12 +197,17 @@ export function CreateLeadModal({ isOpen, onClose, onSuccess, orgId, userId }: C
       status: defaultStatus?.status_key || '',
       rank_id: '',
       source: '',
+      deal_value: '',
+      currency: 'USD',
+      expected_close_date: '',
       notes: '',
       picture_url: ''
     });
     setDynamicFieldValues({});
     setPictureFile(null);
     setPicturePreview('');
+    setDuplicates([]);
+    setAllowDuplicates(false);
     onClose();
   };
 
@@ -405,6 +448,44 @@ export function CreateLeadModal({ isOpen, onClose, onSuccess, orgId, userId }: C
                   ))}
                 </select>
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">
+                  Deal Value
+                </label>
+                <div className="flex gap-2">
+                  <select
+                    value={formData.currency}
+                    onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                    className="px-2 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-[#015324]"
+                  >
+                    {LEAD_CURRENCIES.map((currency) => (
+                      <option key={currency} value={currency}>{currency}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.deal_value}
+                    onChange={(e) => setFormData({ ...formData, deal_value: e.target.value })}
+                    className="flex-1 min-w-0 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-[#015324]"
+                    placeholder="0.00"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">
+                  Expected Close Date
+                </label>
+                <input
+                  type="date"
+                  value={formData.expected_close_date}
+                  onChange={(e) => setFormData({ ...formData, expected_close_date: e.target.value })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-[#015324]"
+                />
+              </div>
             </div>
 
             {templateFields.length > 0 && (
@@ -429,6 +510,40 @@ export function CreateLeadModal({ isOpen, onClose, onSuccess, orgId, userId }: C
               </>
             )}
 
+            {duplicates.length > 0 && (
+              <div className="bg-amber-50 border-2 border-amber-200 rounded-xl p-4">
+                <div className="flex items-center gap-2 text-sm font-bold text-amber-800 mb-1">
+                  <Copy className="w-4 h-4" />
+                  Possible duplicates
+                </div>
+                <p className="text-xs text-amber-700 mb-3">
+                  These leads look like the same prospect. Update the existing lead instead, or confirm this is someone else.
+                </p>
+                <div className="space-y-2">
+                  {duplicates.map(({ lead, reasons }) => (
+                    <div key={lead.id} className="p-3 bg-white rounded-lg border border-amber-100">
+                      <p className="text-sm font-semibold text-slate-800 truncate">
+                        {lead.full_name}{lead.company ? ` · ${lead.company}` : ''}
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        {reasons.join(' · ')} · {[lead.email, lead.phone].filter(Boolean).join(' · ')}
+                        {lead.assigned_user ? ` · ${lead.assigned_user.full_name}` : ''}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+                <label className="flex items-center gap-2 mt-3 text-sm text-amber-900 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={allowDuplicates}
+                    onChange={(e) => setAllowDuplicates(e.target.checked)}
+                    className="w-4 h-4 text-amber-600 border-slate-300 rounded focus:ring-amber-500"
+                  />
+                  This is a different prospect, create it anyway
+                </label>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-2">
                 Notes
@@ -453,11 +568,11 @@ export function CreateLeadModal({ isOpen, onClose, onSuccess, orgId, userId }: C
             </button>
             <button
               type="submit"
-              disabled={loading}
+              disabled={loading || (duplicates.length > 0 && !allowDuplicates)}
               className="flex items-center gap-2 px-4 py-2 bg-[#015324] text-white rounded-lg hover:bg-[#014a20] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <Save className="w-4 h-4" />
-              {loading ? 'Creating...' : 'Create Lead'}
+              {loading ? 'Creating...' : duplicates.length > 0 ? 'Create Anyway' : 'Create Lead'}
             </button>
           </div>
         </form>
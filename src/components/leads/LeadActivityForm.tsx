@@ -0,0 +1,225 @@
+import { useState } from 'react';
+import { Crosshair, Save } from 'lucide-react';
+import { LeadService } from '../../lib/leads/lead-service';
+import {
+  LEAD_ACTIVITY_OUTCOMES,
+  LEAD_ACTIVITY_TYPES,
+  parseAttendees,
+  toDateTimeInput,
+  validateLeadActivity
+} from '../../lib/leads/activity-utils';
+import { getCurrentPosition } from '../../lib/forms/geofence-utils';
+import type { LeadActivity, LeadActivityInput, LeadActivityOutcome, LeadActivityType } from '../../lib/leads/types';
+import { useToast } from '../../contexts/ToastContext';
+
+interface LeadActivityFormProps {
+  orgId: string;
+  leadId: string;
+  onSaved: (activity: LeadActivity) => void;
+  onCancel: () => void;
+}
+
+export function LeadActivityForm({ orgId, leadId, onSaved, onCancel }: LeadActivityFormProps) {
+  const { showSuccess, showError, showWarning } = useToast();
+  const [activityType, setActivityType] = useState<LeadActivityType>('call');
+  const [subject, setSubject] = useState('');
+  const [description, setDescription] = useState('');
+  const [outcome, setOutcome] = useState<LeadActivityOutcome | ''>('');
+  const [duration, setDuration] = useState('');
+  const [attendees, setAttendees] = useState('');
+  const [occurredAt, setOccurredAt] = useState(() => toDateTimeInput(new Date()));
+  const [address, setAddress] = useState('');
+  const [position, setPosition] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const showsDuration = activityType === 'call' || activityType === 'meeting' || activityType === 'visit';
+  const showsAttendees = activityType === 'meeting' || activityType === 'visit';
+  const showsLocation = activityType === 'meeting' || activityType === 'visit';
+
+  const handleLocate = async () => {
+    setLocating(true);
+    const current = await getCurrentPosition();
+    setLocating(false);
+    if (current) {
+      setPosition(current);
+    } else {
+      showWarning('Location Unavailable', 'Allow location access or type the address instead');
+    }
+  };
+
+  const handleSubmit = async () => {
+    const input: LeadActivityInput = {
+      activity_type: activityType,
+      subject: subject.trim(),
+      description: description.trim() || null,
+      outcome: activityType === 'note' ? null : outcome || null,
+      duration_minutes: showsDuration && duration ? Number(duration) : null,
+      attendees: showsAttendees ? parseAttendees(attendees) : [],
+      location_address: showsLocation ? address.trim() || null : null,
+      location_latitude: showsLocation ? position?.latitude ?? null : null,
+      location_longitude: showsLocation ? position?.longitude ?? null : null,
+      occurred_at: new Date(occurredAt).toISOString()
+    };
+
+    const validationError = validateLeadActivity(input);
+    if (validationError) {
+      showError('Invalid Activity', validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const activity = await LeadService.logActivity(orgId, leadId, input);
+      showSuccess('Activity Logged', `${LEAD_ACTIVITY_TYPES[activityType]} added to the timeline`);
+      onSaved(activity);
+    } catch (error) {
+      console.error('Error logging activity:', error);
+      showError('Save Failed', 'Unable to log activity. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-50 border border-slate-200 rounded-lg p-4 space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(LEAD_ACTIVITY_TYPES) as LeadActivityType[]).map(type => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => setActivityType(type)}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+              activityType === type ? 'bg-[#015324] text-white' : 'bg-white border border-slate-300 text-slate-700 hover:bg-slate-100'
+            }`}
+          >
+            {LEAD_ACTIVITY_TYPES[type]}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="md:col-span-2">
+          <label className="block text-xs text-slate-500 mb-1">Subject *</label>
+          <input
+            type="text"
+            value={subject}
+            onChange={(e) => setSubject(e.target.value)}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324]"
+            placeholder={activityType === 'note' ? 'What should the team know?' : 'What was it about?'}
+          />
+        </div>
+
+        <div>
+          <label className="block text-xs text-slate-500 mb-1">When</label>
+          <input
+            type="datetime-local"
+            value={occurredAt}
+            max={toDateTimeInput(new Date())}
+            onChange={(e) => setOccurredAt(e.target.value)}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324]"
+          />
+        </div>
+
+        {activityType !== 'note' && (
+          <div>
+            <label className="block text-xs text-slate-500 mb-1">Outcome</label>
+            <select
+              value={outcome}
+              onChange={(e) => setOutcome(e.target.value as LeadActivityOutcome | '')}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324]"
+            >
+              <option value="">Not recorded</option>
+              {(Object.keys(LEAD_ACTIVITY_OUTCOMES) as LeadActivityOutcome[]).map(key => (
+                <option key={key} value={key}>{LEAD_ACTIVITY_OUTCOMES[key]}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {showsDuration && (
+          <div>
+            <label className="block text-xs text-slate-500 mb-1">Duration (minutes)</label>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={duration}
+              onChange={(e) => setDuration(e.target.value)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324]"
+            />
+          </div>
+        )}
+
+        {showsAttendees && (
+          <div>
+            <label className="block text-xs text-slate-500 mb-1">Attendees</label>
+            <input
+              type="text"
+              value={attendees}
+              onChange={(e) => setAttendees(e.target.value)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324]"
+              placeholder="Names, separated by commas"
+            />
+          </div>
+        )}
+
+        {showsLocation && (
+          <div className="md:col-span-2">
+            <label className="block text-xs text-slate-500 mb-1">Location</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+                className="flex-1 min-w-0 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324]"
+                placeholder="Address or place"
+              />
+              <button
+                type="button"
+                onClick={handleLocate}
+                disabled={locating}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+                  position ? 'bg-green-100 text-green-700' : 'bg-white border border-slate-300 text-slate-700 hover:bg-slate-100'
+                }`}
+                title="Attach current GPS position"
+              >
+                <Crosshair className="w-4 h-4" />
+                {locating ? 'Locating...' : position ? 'Located' : 'Use GPS'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="md:col-span-2">
+          <label className="block text-xs text-slate-500 mb-1">Details</label>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={3}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324]"
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg transition-colors text-sm"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={saving}
+          className="flex items-center gap-2 px-4 py-2 bg-[#015324] text-white rounded-lg hover:bg-[#014a20] transition-colors text-sm disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          {saving ? 'Saving...' : 'Log Activity'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,422 @@
+import { useState, useEffect } from 'react';
+import {
+  History, Phone, Users, Mail, MapPin, StickyNote, CheckSquare, Square, ArrowRightLeft,
+  UserCheck, Plus, ListTodo, Bell, Trash2, Clock
+} from 'lucide-react';
+import { LeadService } from '../../lib/leads/lead-service';
+import { UserService } from '../../lib/users/user-service';
+import {
+  LEAD_ACTIVITY_OUTCOMES,
+  LEAD_ACTIVITY_TYPES,
+  LEAD_TASK_TYPES,
+  buildLeadTimeline,
+  formatDuration,
+  getTaskState
+} from '../../lib/leads/activity-utils';
+import type { LeadTaskState } from '../../lib/leads/activity-utils';
+import type {
+  LeadActivity,
+  LeadActivityType,
+  LeadAssignment,
+  LeadStatusHistory,
+  LeadTask,
+  LeadTimelineEntry
+} from '../../lib/leads/types';
+import { LeadActivityForm } from './LeadActivityForm';
+import { LeadTaskForm } from './LeadTaskForm';
+import { useToast } from '../../contexts/ToastContext';
+
+interface LeadActivityTimelineProps {
+  orgId: string;
+  leadId: string;
+  assignedTo?: string;
+  reloadToken: number;
+  getStatusConfig: (statusKey: string) => { label: string; color: string; bgColor: string };
+  onChange: () => void;
+}
+
+type TimelineFilter = 'all' | LeadTimelineEntry['kind'];
+
+const FILTER_LABELS: Record<TimelineFilter, string> = {
+  all: 'All',
+  activity: 'Activities',
+  task: 'Tasks',
+  status: 'Status',
+  assignment: 'Assignments'
+};
+
+const ACTIVITY_ICONS: Record<LeadActivityType, typeof Phone> = {
+  call: Phone,
+  meeting: Users,
+  email: Mail,
+  visit: MapPin,
+  note: StickyNote
+};
+
+const TASK_STATE_STYLES: Record<LeadTaskState, string> = {
+  completed: 'bg-slate-100 text-slate-500',
+  overdue: 'bg-red-100 text-red-700',
+  reminder: 'bg-amber-100 text-amber-700',
+  upcoming: 'bg-slate-100 text-slate-600'
+};
+
+const TASK_STATE_LABELS: Record<LeadTaskState, string> = {
+  completed: 'Done',
+  overdue: 'Overdue',
+  reminder: 'Due soon',
+  upcoming: 'Upcoming'
+};
+
+export function LeadActivityTimeline({ orgId, leadId, assignedTo, reloadToken, getStatusConfig, onChange }: LeadActivityTimelineProps) {
+  const { showError, confirm } = useToast();
+  const [activities, setActivities] = useState<LeadActivity[]>([]);
+  const [tasks, setTasks] = useState<LeadTask[]>([]);
+  const [statusHistory, setStatusHistory] = useState<LeadStatusHistory[]>([]);
+  const [assignments, setAssignments] = useState<LeadAssignment[]>([]);
+  const [users, setUsers] = useState<{ id: string; full_name: string }[]>([]);
+  const [filter, setFilter] = useState<TimelineFilter>('all');
+  const [form, setForm] = useState<'activity' | 'task' | null>(null);
+
+  useEffect(() => {
+    loadTimeline();
+  }, [leadId, reloadToken]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [orgId]);
+
+  const loadTimeline = async () => {
+    try {
+      const [activityData, taskData, historyData, assignmentData] = await Promise.all([
+        LeadService.listActivities(leadId),
+        LeadService.listTasks(leadId),
+        LeadService.getLeadStatusHistory(leadId),
+        LeadService.getLeadAssignments(leadId)
+      ]);
+      setActivities(activityData);
+      setTasks(taskData);
+      setStatusHistory(historyData);
+      setAssignments(assignmentData);
+    } catch (error) {
+      console.error('Error loading lead timeline:', error);
+    }
+  };
+
+  const loadUsers = async () => {
+    const { data } = await UserService.getUsers({ orgId, status: 'active' });
+    setUsers(data.map(user => ({ id: user.id, full_name: user.full_name })));
+  };
+
+  const handleToggleTask = async (task: LeadTask) => {
+    try {
+      await LeadService.setTaskCompleted(task.id, !task.completed_at);
+      await loadTimeline();
+      onChange();
+    } catch (error) {
+      console.error('Error updating task:', error);
+      showError('Update Failed', 'Unable to update task. Please try again.');
+    }
+  };
+
+  const handleDeleteTask = async (task: LeadTask) => {
+    const confirmed = await confirm('Delete Task', `Delete "${task.title}"?`);
+    if (!confirmed) return;
+    try {
+      await LeadService.deleteTask(task.id);
+      setTasks(prev => prev.filter(t => t.id !== task.id));
+      onChange();
+    } catch (error) {
+      console.error('Error deleting task:', error);
+      showError('Delete Failed', 'Unable to delete task. Please try again.');
+    }
+  };
+
+  const handleDeleteActivity = async (activity: LeadActivity) => {
+    const confirmed = await confirm('Delete Activity', `Remove "${activity.subject}" from the timeline?`);
+    if (!confirmed) return;
+    try {
+      await LeadService.deleteActivity(activity.id);
+      setActivities(prev => prev.filter(a => a.id !== activity.id));
+    } catch (error) {
+      console.error('Error deleting activity:', error);
+      showError('Delete Failed', 'Unable to delete activity. Please try again.');
+    }
+  };
+
+  const openTasks = tasks.filter(task => !task.completed_at);
+  const timeline = buildLeadTimeline(activities, tasks, statusHistory, assignments)
+    .filter(entry => filter === 'all' || entry.kind === filter);
+
+  const renderEntry = (entry: LeadTimelineEntry) => {
+    switch (entry.kind) {
+      case 'activity': {
+        const { activity } = entry;
+        const Icon = ACTIVITY_ICONS[activity.activity_type];
+        return {
+          icon: <Icon className="w-4 h-4 text-[#015324]" />,
+          body: (
+            <>
+              <div className="flex items-start justify-between gap-2">
+                <div className="text-sm text-slate-800">
+                  <span className="font-semibold">{LEAD_ACTIVITY_TYPES[activity.activity_type]}</span>
+                  <span className="text-slate-400 mx-1">·</span>
+                  {activity.subject}
+                </div>
+                <button
+                  onClick={() => handleDeleteActivity(activity)}
+                  className="p-1 text-slate-300 hover:text-red-600 rounded transition-colors flex-shrink-0"
+                  title="Delete activity"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-1.5 mt-1">
+                {activity.outcome && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-green-50 text-green-700">
+                    {LEAD_ACTIVITY_OUTCOMES[activity.outcome]}
+                  </span>
+                )}
+                {activity.duration_minutes != null && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-slate-100 text-slate-600">
+                    {formatDuration(activity.duration_minutes)}
+                  </span>
+                )}
+                {activity.attendees.length > 0 && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-slate-100 text-slate-600">
+                    With {activity.attendees.join(', ')}
+                  </span>
+                )}
+                {(activity.location_address || activity.location_latitude != null) && (
+                  <a
+                    href={activity.location_latitude != null
+                      ? `https://www.google.com/maps?q=${activity.location_latitude},${activity.location_longitude}`
+                      : `https://www.google.com/maps?q=${encodeURIComponent(activity.location_address || '')}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-blue-50 text-blue-700 hover:underline"
+                  >
+                    <MapPin className="w-3 h-3" />
+                    {activity.location_address || 'GPS location'}
+                  </a>
+                )}
+              </div>
+              {activity.description && (
+                <p className="text-sm text-slate-600 mt-1 whitespace-pre-wrap">{activity.description}</p>
+              )}
+              <div className="text-xs text-slate-500 mt-1">
+                {new Date(activity.occurred_at).toLocaleString()} by {activity.created_by_user?.full_name || 'Unknown'}
+              </div>
+            </>
+          )
+        };
+      }
+      case 'task': {
+        const { task } = entry;
+        return {
+          icon: <CheckSquare className="w-4 h-4 text-slate-500" />,
+          body: (
+            <>
+              <div className="text-sm text-slate-800">
+                <span className="font-semibold">{LEAD_TASK_TYPES[task.task_type]} completed</span>
+                <span className="text-slate-400 mx-1">·</span>
+                {task.title}
+              </div>
+              <div className="text-xs text-slate-500 mt-1">
+                {new Date(entry.at).toLocaleString()} · was due {new Date(task.due_at).toLocaleString()}
+              </div>
+            </>
+          )
+        };
+      }
+      case 'status': {
+        const { history } = entry;
+        const newStatus = getStatusConfig(history.new_status);
+        const oldStatus = history.old_status ? getStatusConfig(history.old_status) : null;
+        return {
+          icon: <ArrowRightLeft className="w-4 h-4 text-slate-500" />,
+          body: (
+            <>
+              <div className="flex items-center gap-2 flex-wrap">
+                {oldStatus && (
+                  <>
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${oldStatus.bgColor} ${oldStatus.color}`}>{oldStatus.label}</span>
+                    <span className="text-slate-400">→</span>
+                  </>
+                )}
+                <span className={`text-xs px-2 py-0.5 rounded-full ${newStatus.bgColor} ${newStatus.color}`}>{newStatus.label}</span>
+              </div>
+              <div className="text-xs text-slate-500 mt-1">
+                {new Date(history.changed_at).toLocaleString()} by {history.changed_by_user?.full_name || 'System'}
+              </div>
+              {history.notes && <div className="text-sm text-slate-600 mt-1">{history.notes}</div>}
+            </>
+          )
+        };
+      }
+      case 'assignment': {
+        const { assignment } = entry;
+        return {
+          icon: <UserCheck className="w-4 h-4 text-slate-500" />,
+          body: (
+            <>
+              <div className="text-sm text-slate-800">
+                Assigned to <span className="font-semibold">{assignment.user?.full_name || 'a user'}</span>
+              </div>
+              <div className="text-xs text-slate-500 mt-1">
+                {new Date(assignment.assigned_at).toLocaleString()} by {assignment.assigned_by_user?.full_name || 'System'}
+                {assignment.unassigned_at && ` · until ${new Date(assignment.unassigned_at).toLocaleDateString()}`}
+              </div>
+              {assignment.notes && <div className="text-sm text-slate-600 mt-1">{assignment.notes}</div>}
+            </>
+          )
+        };
+      }
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between border-b border-slate-200 pb-2 mb-4">
+        <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Activity Timeline
+        </h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setForm(form === 'activity' ? null : 'activity')}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors text-sm"
+          >
+            <Plus className="w-4 h-4" />
+            Log Activity
+          </button>
+          <button
+            onClick={() => setForm(form === 'task' ? null : 'task')}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors text-sm"
+          >
+            <ListTodo className="w-4 h-4" />
+            Add Task
+          </button>
+        </div>
+      </div>
+
+      {form === 'activity' && (
+        <div className="mb-4">
+          <LeadActivityForm
+            orgId={orgId}
+            leadId={leadId}
+            onSaved={(activity) => {
+              setActivities(prev => [activity, ...prev]);
+              setForm(null);
+              onChange();
+            }}
+            onCancel={() => setForm(null)}
+          />
+        </div>
+      )}
+
+      {form === 'task' && (
+        <div className="mb-4">
+          <LeadTaskForm
+            orgId={orgId}
+            leadId={leadId}
+            users={users}
+            defaultAssignee={assignedTo}
+            onSaved={(task) => {
+              setTasks(prev => [...prev, task].sort((a, b) => a.due_at.localeCompare(b.due_at)));
+              setForm(null);
+              onChange();
+            }}
+            onCancel={() => setForm(null)}
+          />
+        </div>
+      )}
+
+      {openTasks.length > 0 && (
+        <div className="mb-4">
+          <div className="text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">Open Follow-ups</div>
+          <div className="space-y-2">
+            {openTasks.map(task => {
+              const state = getTaskState(task);
+              return (
+                <div key={task.id} className="flex items-start gap-3 p-3 bg-white border border-slate-200 rounded-lg">
+                  <button
+                    onClick={() => handleToggleTask(task)}
+                    className="mt-0.5 text-slate-400 hover:text-[#015324] transition-colors"
+                    title="Mark as done"
+                  >
+                    <Square className="w-5 h-5" />
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-sm font-medium text-slate-800">{task.title}</span>
+                      <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${TASK_STATE_STYLES[state]}`}>
+                        {TASK_STATE_LABELS[state]}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-3 text-xs text-slate-500 mt-1 flex-wrap">
+                      <span>{LEAD_TASK_TYPES[task.task_type]}</span>
+                      <span className="flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        {new Date(task.due_at).toLocaleString()}
+                      </span>
+                      {task.remind_at && (
+                        <span className="flex items-center gap-1">
+                          <Bell className="w-3 h-3" />
+                          {new Date(task.remind_at).toLocaleString()}
+                        </span>
+                      )}
+                      <span>{task.assigned_user?.full_name || 'Unassigned'}</span>
+                    </div>
+                    {task.description && <p className="text-sm text-slate-600 mt-1">{task.description}</p>}
+                  </div>
+                  <button
+                    onClick={() => handleDeleteTask(task)}
+                    className="p-1 text-slate-300 hover:text-red-600 rounded transition-colors"
+                    title="Delete task"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2 mb-3 overflow-x-auto">
+        {(Object.keys(FILTER_LABELS) as TimelineFilter[]).map(key => (
+          <button
+            key={key}
+            onClick={() => setFilter(key)}
+            className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors whitespace-nowrap ${
+              filter === key ? 'bg-[#015324] text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+            }`}
+          >
+            {FILTER_LABELS[key]}
+          </button>
+        ))}
+      </div>
+
+      {timeline.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-6">Nothing logged yet</p>
+      ) : (
+        <div className="relative">
+          <div className="absolute left-4 top-2 bottom-2 w-px bg-slate-200" />
+          <div className="space-y-3">
+            {timeline.map(entry => {
+              const { icon, body } = renderEntry(entry);
+              return (
+                <div key={`${entry.kind}-${entry.id}`} className="relative flex items-start gap-3">
+                  <div className="relative z-10 w-8 h-8 rounded-full bg-white border border-slate-200 flex items-center justify-center flex-shrink-0">
+                    {icon}
+                  </div>
+                  <div className="flex-1 min-w-0 bg-slate-50 p-3 rounded-lg">{body}</div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
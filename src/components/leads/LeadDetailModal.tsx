@@ -1,13 +1,18 @@
 import { useState, useEffect } from 'react';
 import {
   X, Mail, Phone, Building2, Calendar, User, TrendingUp, MapPin,
-  Clock, Edit2, Save, History, Upload, Image as ImageIcon, Flag, Target, CheckCircle, Flame, Trash2
+  Clock, Edit2, Save, Upload, Image as ImageIcon, Flag, Target, CheckCircle, Flame, Trash2, DollarSign, GitMerge, UserCheck, Gauge
 } from 'lucide-react';
 import { LeadService } from '../../lib/leads/lead-service';
 import { supabase } from '../../lib/supabase/client';
-import type { LeadWithDetails, LeadStatus, LeadStatusHistory, LeadRank, LeadStatusRecord } from '../../lib/leads/types';
-import { LEAD_STATUS_CONFIG } from '../../lib/leads/types';
+import type { Lead, LeadConvertedCustomer, LeadWithDetails, LeadStatus, LeadRank, LeadStatusRecord } from '../../lib/leads/types';
+import { LEAD_CURRENCIES, LEAD_STATUS_CONFIG } from '../../lib/leads/types';
+import { formatDealValue, isOpenDeal, parseDealValue } from '../../lib/leads/forecast-utils';
+import { canConvertLead } from '../../lib/leads/conversion-utils';
 import { useToast } from '../../contexts/ToastContext';
+import { LeadActivityTimeline } from './LeadActivityTimeline';
+import { LeadMergeModal } from './LeadMergeModal';
+import { ConvertLeadModal } from './ConvertLeadModal';
 
 interface LeadDetailModalProps {
   isOpen: boolean;
@@ -15,13 +20,17 @@ interface LeadDetailModalProps {
   lead: LeadWithDetails | null;
   onUpdate: () => void;
   onDelete?: (leadId: string) => void;
+  onMerged?: (survivor: Lead, mergedLeadId: string) => void;
+  onConverted?: (customer: LeadConvertedCustomer) => void;
 }
 
-export function LeadDetailModal({ isOpen, onClose, lead, onUpdate, onDelete }: LeadDetailModalProps) {
+export function LeadDetailModal({ isOpen, onClose, lead, onUpdate, onDelete, onMerged, onConverted }: LeadDetailModalProps) {
   const { showSuccess, showError, confirm } = useToast();
   const [deleting, setDeleting] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
-  const [statusHistory, setStatusHistory] = useState<LeadStatusHistory[]>([]);
+  const [timelineReload, setTimelineReload] = useState(0);
+  const [showMergeModal, setShowMergeModal] = useState(false);
+  const [showConvertModal, setShowConvertModal] = useState(false);
   const [fieldValues, setFieldValues] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
   const [territories, setTerritories] = useState<any[]>([]);
@@ -42,6 +51,9 @@ export function LeadDetailModal({ isOpen, onClose, lead, onUpdate, onDelete }: L
     is_qualified: lead?.is_qualified || false,
     is_stale: lead?.is_stale || false,
     progress_status: lead?.progress_status || '',
+    deal_value: lead?.deal_value != null ? String(lead.deal_value) : '',
+    currency: lead?.currency || 'USD',
+    expected_close_date: lead?.expected_close_date || '',
     picture_url: lead?.picture_url || '',
     notes: lead?.notes || ''
   });
@@ -65,6 +77,9 @@ export function LeadDetailModal({ isOpen, onClose, lead, onUpdate, onDelete }: L
         is_qualified: lead.is_qualified,
         is_stale: lead.is_stale,
         progress_status: lead.progress_status || '',
+        deal_value: lead.deal_value != null ? String(lead.deal_value) : '',
+        currency: lead.currency || 'USD',
+        expected_close_date: lead.expected_close_date || '',
         picture_url: lead.picture_url || '',
         notes: lead.notes || ''
       });
@@ -83,11 +98,7 @@ export function LeadDetailModal({ isOpen, onClose, lead, onUpdate, onDelete }: L
   const loadLeadDetails = async () => {
     if (!lead) return;
     try {
-      const [history, fields] = await Promise.all([
-        LeadService.getLeadStatusHistory(lead.id),
-        LeadService.getLeadFieldValues(lead.id)
-      ]);
-      setStatusHistory(history);
+      const fields = await LeadService.getLeadFieldValues(lead.id);
       setFieldValues(fields);
     } catch (error) {
       console.error('Error loading lead details:', error);
@@ -171,12 +182,15 @@ export function LeadDetailModal({ isOpen, onClose, lead, onUpdate, onDelete }: L
         rank_id: editData.rank_id || null,
         territory_id: editData.territory_id || null,
         sub_territory_id: editData.sub_territory_id || null,
-        progress_status: editData.progress_status || null
+        progress_status: editData.progress_status || null,
+        deal_value: parseDealValue(editData.deal_value),
+        expected_close_date: editData.expected_close_date || null
       });
       showSuccess('Lead Updated', 'Lead information has been successfully updated');
       setIsEditing(false);
       onUpdate();
       await loadLeadDetails();
+      setTimelineReload(prev => prev + 1);
     } catch (error) {
       console.error('Error updating lead:', error);
       showError('Update Failed', 'Unable to update lead. Please try again.');
@@ -233,6 +247,8 @@ export function LeadDetailModal({ isOpen, onClose, lead, onUpdate, onDelete }: L
   if (!isOpen || !lead) return null;
 
   const statusConfig = getStatusConfig(lead.status);
+  const statusRecord = statuses.find(s => s.status_key === lead.status);
+  const dealProbability = statusRecord && isOpenDeal(lead.status) ? statusRecord.win_probability : null;
 
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -251,9 +267,33 @@ export function LeadDetailModal({ isOpen, onClose, lead, onUpdate, onDelete }: L
             <div>
               <h2 className="text-2xl font-bold text-white">{lead.full_name}</h2>
               <p className="text-white/80">{lead.company || 'No company'}</p>
+              {lead.customer && (
+                <span className="inline-flex items-center gap-1 mt-1 px-2 py-0.5 bg-white/20 text-white text-xs font-medium rounded-full">
+                  <UserCheck className="w-3 h-3" />
+                  Customer {lead.customer.customer_code} · {lead.customer.customer_name}
+                </span>
+              )}
             </div>
           </div>
           <div className="flex items-center gap-2">
+            {!isEditing && onConverted && canConvertLead(lead) && (
+              <button
+                onClick={() => setShowConvertModal(true)}
+                className="flex items-center gap-2 px-3 py-2 bg-white text-[#015324] hover:bg-green-50 rounded-lg transition-colors text-sm font-medium"
+              >
+                <UserCheck className="w-4 h-4" />
+                Convert to Customer
+              </button>
+            )}
+            {!isEditing && onMerged && (
+              <button
+                onClick={() => setShowMergeModal(true)}
+                className="p-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors"
+                title="Merge duplicate lead"
+              >
+                <GitMerge className="w-5 h-5" />
+              </button>
+            )}
             {!isEditing && onDelete && (
               <button
                 onClick={handleDelete}
@@ -435,9 +475,17 @@ export function LeadDetailModal({ isOpen, onClose, lead, onUpdate, onDelete }: L
                         ))}
                       </select>
                     ) : (
-                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusConfig.bgColor} ${statusConfig.color}`}>
-                        {statusConfig.label}
-                      </span>
+                      <>
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusConfig.bgColor} ${statusConfig.color}`}>
+                          {statusConfig.label}
+                        </span>
+                        {lead.is_stale && lead.stale_at && (
+                          <div className="text-xs text-slate-500 mt-1">
+                            Stale since {new Date(lead.stale_at).toLocaleDateString()}
+                            {lead.stale_from_status && ` · was ${getStatusConfig(lead.stale_from_status).label}`}
+                          </div>
+                        )}
+                      </>
                     )}
                   </div>
                 </div>
@@ -496,6 +544,67 @@ export function LeadDetailModal({ isOpen, onClose, lead, onUpdate, onDelete }: L
                   </div>
                 </div>
 
+                <div className="flex items-center gap-3">
+                  <DollarSign className="w-5 h-5 text-slate-400" />
+                  <div className="flex-1">
+                    <div className="text-xs text-slate-500 mb-1">Deal Value</div>
+                    {isEditing ? (
+                      <div className="flex gap-2">
+                        <select
+                          value={editData.currency}
+                          onChange={(e) => setEditData({ ...editData, currency: e.target.value })}
+                          className="px-2 py-1.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324]"
+                        >
+                          {LEAD_CURRENCIES.map((currency) => (
+                            <option key={currency} value={currency}>{currency}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={editData.deal_value}
+                          onChange={(e) => setEditData({ ...editData, deal_value: e.target.value })}
+                          className="flex-1 min-w-0 px-3 py-1.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324]"
+                          placeholder="0.00"
+                        />
+                      </div>
+                    ) : lead.deal_value != null ? (
+                      <div className="text-slate-800">
+                        {formatDealValue(Number(lead.deal_value), lead.currency)}
+                        {dealProbability !== null && (
+                          <span className="text-xs text-slate-500 ml-2">
+                            {dealProbability}% · weighted {formatDealValue(Number(lead.deal_value) * dealProbability / 100, lead.currency)}
+                          </span>
+                        )}
+                      </div>
+                    ) : (
+                      <span className="text-slate-500 text-sm">Not set</span>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-3">
+                  <Calendar className="w-5 h-5 text-slate-400" />
+                  <div className="flex-1">
+                    <div className="text-xs text-slate-500 mb-1">{lead.status === 'won' && lead.won_at ? 'Won On' : 'Expected Close'}</div>
+                    {isEditing ? (
+                      <input
+                        type="date"
+                        value={editData.expected_close_date}
+                        onChange={(e) => setEditData({ ...editData, expected_close_date: e.target.value })}
+                        className="w-full px-3 py-1.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324]"
+                      />
+                    ) : lead.status === 'won' && lead.won_at ? (
+                      <div className="text-slate-800">{new Date(lead.won_at).toLocaleDateString()}</div>
+                    ) : lead.expected_close_date ? (
+                      <div className="text-slate-800">{new Date(`${lead.expected_close_date}T00:00:00`).toLocaleDateString()}</div>
+                    ) : (
+                      <span className="text-slate-500 text-sm">Not set</span>
+                    )}
+                  </div>
+                </div>
+
                 <div className="flex items-center gap-3">
                   <Flag className="w-5 h-5 text-slate-400" />
                   <div className="flex-1">
@@ -580,6 +689,21 @@ export function LeadDetailModal({ isOpen, onClose, lead, onUpdate, onDelete }: L
                     </div>
                   </div>
                 )}
+
+                <div className="flex items-center gap-3">
+                  <Clock className="w-5 h-5 text-slate-400" />
+                  <div>
+                    <div className="text-xs text-slate-500">Last Contact</div>
+                    <div className="text-slate-800">
+                      {lead.last_contact_date ? new Date(lead.last_contact_date).toLocaleString() : 'Never'}
+                    </div>
+                    {lead.next_followup_date && (
+                      <div className="text-xs text-slate-500 mt-0.5">
+                        Next follow-up {new Date(lead.next_followup_date).toLocaleString()}
+                      </div>
+                    )}
+                  </div>
+                </div>
               </div>
             </div>
 
@@ -657,6 +781,45 @@ export function LeadDetailModal({ isOpen, onClose, lead, onUpdate, onDelete }: L
               </div>
             )}
 
+            <div>
+              <h3 className="text-lg font-semibold text-slate-800 border-b border-slate-200 pb-2 mb-4">
+                Lead Score
+              </h3>
+              <div className="bg-slate-50 p-4 rounded-lg">
+                <div className="flex items-center gap-3">
+                  <Gauge className="w-5 h-5 text-slate-400" />
+                  <div className="flex-1 h-2 bg-slate-200 rounded-full overflow-hidden">
+                    <div className="h-full bg-[#015324]" style={{ width: `${lead.score}%` }} />
+                  </div>
+                  <span className="text-lg font-bold text-slate-800 w-10 text-right">{lead.score}</span>
+                </div>
+                <p className="text-xs text-slate-500 mt-2">
+                  {lead.scored_at
+                    ? `Scored by your organization's rules on ${new Date(lead.scored_at).toLocaleString()}`
+                    : 'Not scored by rules yet'}
+                </p>
+                {lead.scored_at && (
+                  lead.score_breakdown && lead.score_breakdown.length > 0 ? (
+                    <div className="mt-3 divide-y divide-slate-200 border-t border-slate-200">
+                      {lead.score_breakdown.map((item) => (
+                        <div key={item.rule_id} className="flex items-center justify-between gap-3 py-2">
+                          <div className="min-w-0">
+                            <div className="text-sm text-slate-800 truncate">{item.name}</div>
+                            {item.detail && <div className="text-xs text-slate-500 truncate">{item.detail}</div>}
+                          </div>
+                          <span className={`text-sm font-semibold ${item.points < 0 ? 'text-red-600' : 'text-emerald-700'}`}>
+                            {item.points > 0 ? `+${item.points}` : item.points}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-slate-600 mt-3">No scoring rules match this lead.</p>
+                  )
+                )}
+              </div>
+            </div>
+
             <div>
               <h3 className="text-lg font-semibold text-slate-800 border-b border-slate-200 pb-2 mb-4">
                 Notes
@@ -678,42 +841,14 @@ export function LeadDetailModal({ isOpen, onClose, lead, onUpdate, onDelete }: L
               )}
             </div>
 
-            {statusHistory.length > 0 && (
-              <div>
-                <h3 className="text-lg font-semibold text-slate-800 border-b border-slate-200 pb-2 mb-4 flex items-center gap-2">
-                  <History className="w-5 h-5" />
-                  Status History
-                </h3>
-                <div className="space-y-3">
-                  {statusHistory.map((history: any) => (
-                    <div key={history.id} className="flex items-start gap-3 bg-slate-50 p-3 rounded-lg">
-                      <Clock className="w-5 h-5 text-slate-400 mt-0.5" />
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2 flex-wrap">
-                          {history.old_status && (
-                            <>
-                              <span className={`text-xs px-2 py-0.5 rounded-full ${getStatusConfig(history.old_status).bgColor} ${getStatusConfig(history.old_status).color}`}>
-                                {getStatusConfig(history.old_status).label}
-                              </span>
-                              <span className="text-slate-400">→</span>
-                            </>
-                          )}
-                          <span className={`text-xs px-2 py-0.5 rounded-full ${getStatusConfig(history.new_status).bgColor} ${getStatusConfig(history.new_status).color}`}>
-                            {getStatusConfig(history.new_status).label}
-                          </span>
-                        </div>
-                        <div className="text-xs text-slate-500 mt-1">
-                          {new Date(history.changed_at).toLocaleString()} by {history.changed_by_user?.full_name || 'System'}
-                        </div>
-                        {history.notes && (
-                          <div className="text-sm text-slate-600 mt-1">{history.notes}</div>
-                        )}
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
+            <LeadActivityTimeline
+              orgId={lead.org_id}
+              leadId={lead.id}
+              assignedTo={lead.assigned_to}
+              reloadToken={timelineReload}
+              getStatusConfig={getStatusConfig}
+              onChange={onUpdate}
+            />
           </div>
         </div>
 
@@ -735,6 +870,9 @@ export function LeadDetailModal({ isOpen, onClose, lead, onUpdate, onDelete }: L
                   is_qualified: lead.is_qualified,
                   is_stale: lead.is_stale,
                   progress_status: lead.progress_status || '',
+                  deal_value: lead.deal_value != null ? String(lead.deal_value) : '',
+                  currency: lead.currency || 'USD',
+                  expected_close_date: lead.expected_close_date || '',
                   picture_url: lead.picture_url || '',
                   notes: lead.notes || ''
                 });
@@ -755,6 +893,27 @@ export function LeadDetailModal({ isOpen, onClose, lead, onUpdate, onDelete }: L
           </div>
         )}
       </div>
+
+      {onMerged && (
+        <LeadMergeModal
+          isOpen={showMergeModal}
+          lead={lead}
+          onClose={() => setShowMergeModal(false)}
+          onMerged={(survivor, mergedLeadId) => {
+            setTimelineReload(value => value + 1);
+            onMerged(survivor, mergedLeadId);
+          }}
+        />
+      )}
+
+      {onConverted && (
+        <ConvertLeadModal
+          isOpen={showConvertModal}
+          lead={lead}
+          onClose={() => setShowConvertModal(false)}
+          onConverted={onConverted}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,437 @@
+import { useState, useEffect } from 'react';
+import { X, GitMerge, Search, ArrowLeft, Loader2 } from 'lucide-react';
+import { LeadService } from '../../lib/leads/lead-service';
+import { LEAD_MERGE_FIELDS, defaultMergeFields } from '../../lib/leads/duplicate-utils';
+import { formatDealValue } from '../../lib/leads/forecast-utils';
+import type {
+  Lead,
+  LeadDuplicateCandidate,
+  LeadMergeField,
+  LeadStatusRecord,
+  LeadWithDetails
+} from '../../lib/leads/types';
+import { useToast } from '../../contexts/ToastContext';
+
+interface LeadMergeModalProps {
+  isOpen: boolean;
+  lead: LeadWithDetails;
+  onClose: () => void;
+  onMerged: (survivor: Lead, mergedLeadId: string) => void;
+}
+
+interface MergeFieldValue {
+  field_id: string;
+  field_value?: string | null;
+  field?: { field_label: string } | null;
+}
+
+interface CustomFieldRow {
+  fieldId: string;
+  label: string;
+  survivorValue: string;
+  duplicateValue: string;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+export function LeadMergeModal({ isOpen, lead, onClose, onMerged }: LeadMergeModalProps) {
+  const { showSuccess, showError, confirm } = useToast();
+  const [candidates, setCandidates] = useState<LeadDuplicateCandidate[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [searchResults, setSearchResults] = useState<LeadWithDetails[]>([]);
+  const [statuses, setStatuses] = useState<LeadStatusRecord[]>([]);
+  const [other, setOther] = useState<LeadWithDetails | null>(null);
+  const [survivorId, setSurvivorId] = useState('');
+  const [fieldValues, setFieldValues] = useState<Record<string, MergeFieldValue[]>>({});
+  const [takeFields, setTakeFields] = useState<LeadMergeField[]>([]);
+  const [takeFieldIds, setTakeFieldIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [merging, setMerging] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadCandidates();
+      LeadService.listStatuses(lead.org_id, false).then(setStatuses).catch(() => setStatuses([]));
+    } else {
+      setOther(null);
+      setSearchTerm('');
+      setSearchResults([]);
+    }
+  }, [isOpen, lead.id, lead.org_id]);
+
+  useEffect(() => {
+    if (!isOpen || searchTerm.trim().length < 2) {
+      setSearchResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const data = await LeadService.listLeads(lead.org_id, { search: searchTerm.trim() });
+        setSearchResults(data.filter(result => result.id !== lead.id).slice(0, 10));
+      } catch (error) {
+        console.error('Error searching leads:', error);
+      }
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [isOpen, searchTerm, lead.id, lead.org_id]);
+
+  const loadCandidates = async () => {
+    try {
+      const data = await LeadService.findDuplicateLeads(lead.org_id, lead, lead.id);
+      setCandidates(data);
+    } catch (error) {
+      console.error('Error finding duplicate leads:', error);
+      setCandidates([]);
+    }
+  };
+
+  const selectOther = async (otherId: string) => {
+    setLoading(true);
+    try {
+      const [details, leadValues, otherValues] = await Promise.all([
+        LeadService.getLead(otherId),
+        LeadService.getLeadFieldValues(lead.id),
+        LeadService.getLeadFieldValues(otherId)
+      ]);
+      if (!details) return;
+
+      // The older record survives by default; it usually carries the longer history
+      const keepCurrent = new Date(lead.created_at) <= new Date(details.created_at);
+      setOther(details);
+      setFieldValues({ [lead.id]: leadValues, [otherId]: otherValues });
+      chooseSurvivor(keepCurrent ? lead : details, keepCurrent ? details : lead);
+    } catch (error) {
+      console.error('Error loading lead for merge:', error);
+      showError('Load Failed', 'Unable to load the selected lead.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const chooseSurvivor = (survivor: LeadWithDetails, duplicate: LeadWithDetails) => {
+    setSurvivorId(survivor.id);
+    setTakeFields(defaultMergeFields(survivor as unknown as Record<string, unknown>, duplicate as unknown as Record<string, unknown>));
+    setTakeFieldIds([]);
+  };
+
+  const displayValue = (record: LeadWithDetails, key: LeadMergeField): string => {
+    const value = record[key as keyof LeadWithDetails];
+    if (isBlank(value)) return '—';
+
+    switch (key) {
+      case 'status':
+        return statuses.find(s => s.status_key === value)?.status_label || String(value);
+      case 'assigned_to':
+        return record.assigned_user?.full_name || 'Unknown user';
+      case 'rank_id':
+        return record.rank?.rank_label || 'Unknown rank';
+      case 'region_id':
+        return record.region?.name || 'Unknown region';
+      case 'branch_id':
+        return record.branch?.name || 'Unknown branch';
+      case 'territory_id':
+        return record.territory?.name || 'Unknown territory';
+      case 'sub_territory_id':
+        return record.sub_territory?.name || 'Unknown sub-territory';
+      case 'deal_value':
+        return formatDealValue(Number(value), record.currency);
+      case 'expected_close_date':
+        return new Date(`${value}T00:00:00`).toLocaleDateString();
+      case 'picture_url':
+        return 'Picture attached';
+      default:
+        return String(value);
+    }
+  };
+
+  const survivor = other && (survivorId === lead.id ? lead : other);
+  const duplicate = other && (survivorId === lead.id ? other : lead);
+
+  const differingFields = survivor && duplicate
+    ? LEAD_MERGE_FIELDS.filter(({ key }) =>
+        (survivor[key as keyof LeadWithDetails] ?? '') !== (duplicate[key as keyof LeadWithDetails] ?? ''))
+    : [];
+
+  // Blank custom fields on the survivor are filled in by the merge; only real conflicts need a choice
+  const customFieldRows: CustomFieldRow[] = [];
+  if (survivor && duplicate) {
+    const survivorValues = fieldValues[survivor.id] || [];
+    (fieldValues[duplicate.id] || []).forEach(fv => {
+      const existing = survivorValues.find(sv => sv.field_id === fv.field_id);
+      if (!isBlank(fv.field_value) && existing && !isBlank(existing.field_value) && existing.field_value !== fv.field_value) {
+        customFieldRows.push({
+          fieldId: fv.field_id,
+          label: fv.field?.field_label || 'Custom field',
+          survivorValue: existing.field_value as string,
+          duplicateValue: fv.field_value as string
+        });
+      }
+    });
+  }
+
+  const toggle = <T,>(list: T[], item: T, take: boolean): T[] =>
+    take ? Array.from(new Set([...list, item])) : list.filter(entry => entry !== item);
+
+  const handleMerge = async () => {
+    if (!survivor || !duplicate) return;
+
+    const confirmed = await confirm(
+      'Merge Leads',
+      `"${duplicate.full_name}" will be merged into "${survivor.full_name}" and deleted. Its status history, assignments, activities and tasks move to the surviving lead. This cannot be undone.`
+    );
+    if (!confirmed) return;
+
+    setMerging(true);
+    try {
+      const merged = await LeadService.mergeLeads(survivor.id, duplicate.id, {
+        take_fields: takeFields.filter(key => differingFields.some(field => field.key === key)),
+        take_field_ids: takeFieldIds
+      });
+      showSuccess('Leads Merged', `${duplicate.full_name} was merged into ${merged.full_name}`);
+      onMerged(merged, duplicate.id);
+      onClose();
+    } catch (error) {
+      console.error('Error merging leads:', error);
+      showError('Merge Failed', (error as { message?: string })?.message || 'Unable to merge these leads. Please try again.');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const renderPickRow = (id: string, name: string, detail: string, reasons?: string[]) => (
+    <button
+      key={id}
+      type="button"
+      onClick={() => selectOther(id)}
+      disabled={loading}
+      className="w-full text-left p-3 rounded-lg border border-slate-200 hover:border-[#015324] hover:bg-green-50 transition-colors disabled:opacity-50"
+    >
+      <p className="text-sm font-semibold text-slate-800 truncate">{name}</p>
+      <p className="text-xs text-slate-500 truncate">
+        {[reasons?.join(' · '), detail].filter(Boolean).join(' · ')}
+      </p>
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-6 border-b border-slate-200 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            {other && (
+              <button
+                onClick={() => setOther(null)}
+                className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                title="Choose another lead"
+              >
+                <ArrowLeft className="w-5 h-5 text-slate-600" />
+              </button>
+            )}
+            <div>
+              <h2 className="text-2xl font-bold text-slate-800">Merge Duplicate Lead</h2>
+              <p className="text-sm text-slate-500">
+                {other ? 'Pick the record to keep and the values it should end up with' : `Find the duplicate of ${lead.full_name}`}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-slate-600" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {!other ? (
+            <>
+              <div>
+                <h3 className="text-sm font-semibold text-slate-700 mb-2">Likely duplicates</h3>
+                {candidates.length === 0 ? (
+                  <p className="text-sm text-slate-500">No likely duplicates found. Search for the lead below.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {candidates.map(({ lead: candidate, reasons }) =>
+                      renderPickRow(
+                        candidate.id,
+                        `${candidate.full_name}${candidate.company ? ` · ${candidate.company}` : ''}`,
+                        [candidate.email, candidate.phone].filter(Boolean).join(' · '),
+                        reasons
+                      )
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold text-slate-700 mb-2">Search leads</h3>
+                <div className="relative">
+                  <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                  <input
+                    type="text"
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    placeholder="Name, email, phone or company"
+                    className="w-full pl-9 pr-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324]"
+                  />
+                </div>
+                {searchResults.length > 0 && (
+                  <div className="space-y-2 mt-3">
+                    {searchResults.map(result =>
+                      renderPickRow(
+                        result.id,
+                        `${result.full_name}${result.company ? ` · ${result.company}` : ''}`,
+                        [result.email, result.phone, result.assigned_user?.full_name].filter(Boolean).join(' · ')
+                      )
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {loading && (
+                <div className="flex items-center gap-2 text-sm text-slate-500">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Loading lead...
+                </div>
+              )}
+            </>
+          ) : survivor && duplicate && (
+            <>
+              <div>
+                <h3 className="text-sm font-semibold text-slate-700 mb-2">Record to keep</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {[lead, other].map(record => (
+                    <label
+                      key={record.id}
+                      className={`flex items-start gap-3 p-3 rounded-lg border-2 cursor-pointer transition-colors ${
+                        survivorId === record.id ? 'border-[#015324] bg-green-50' : 'border-slate-200 hover:bg-slate-50'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        checked={survivorId === record.id}
+                        onChange={() => chooseSurvivor(record, record.id === lead.id ? other : lead)}
+                        className="mt-1 text-[#015324] focus:ring-[#015324]"
+                      />
+                      <div className="min-w-0">
+                        <p className="text-sm font-semibold text-slate-800 truncate">{record.full_name}</p>
+                        <p className="text-xs text-slate-500">Created {new Date(record.created_at).toLocaleDateString()}</p>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold text-slate-700 mb-2">Values to keep</h3>
+                {differingFields.length === 0 && customFieldRows.length === 0 ? (
+                  <p className="text-sm text-slate-500">Both leads hold the same values.</p>
+                ) : (
+                  <div className="border border-slate-200 rounded-lg overflow-hidden">
+                    <table className="w-full text-sm">
+                      <thead className="bg-slate-50 text-xs text-slate-500">
+                        <tr>
+                          <th className="px-3 py-2 text-left font-medium">Field</th>
+                          <th className="px-3 py-2 text-left font-medium">Keep: {survivor.full_name}</th>
+                          <th className="px-3 py-2 text-left font-medium">Merge: {duplicate.full_name}</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                        {differingFields.map(({ key, label }) => {
+                          const takeDuplicate = takeFields.includes(key);
+                          return (
+                            <tr key={key}>
+                              <td className="px-3 py-2 text-slate-500">{label}</td>
+                              <td className="px-3 py-2">
+                                <label className="flex items-center gap-2 cursor-pointer">
+                                  <input
+                                    type="radio"
+                                    checked={!takeDuplicate}
+                                    onChange={() => setTakeFields(toggle(takeFields, key, false))}
+                                    className="text-[#015324] focus:ring-[#015324]"
+                                  />
+                                  <span className="text-slate-800">{displayValue(survivor, key)}</span>
+                                </label>
+                              </td>
+                              <td className="px-3 py-2">
+                                <label className="flex items-center gap-2 cursor-pointer">
+                                  <input
+                                    type="radio"
+                                    checked={takeDuplicate}
+                                    onChange={() => setTakeFields(toggle(takeFields, key, true))}
+                                    className="text-[#015324] focus:ring-[#015324]"
+                                  />
+                                  <span className="text-slate-800">{displayValue(duplicate, key)}</span>
+                                </label>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                        {customFieldRows.map(row => {
+                          const takeDuplicate = takeFieldIds.includes(row.fieldId);
+                          return (
+                            <tr key={row.fieldId}>
+                              <td className="px-3 py-2 text-slate-500">{row.label}</td>
+                              <td className="px-3 py-2">
+                                <label className="flex items-center gap-2 cursor-pointer">
+                                  <input
+                                    type="radio"
+                                    checked={!takeDuplicate}
+                                    onChange={() => setTakeFieldIds(toggle(takeFieldIds, row.fieldId, false))}
+                                    className="text-[#015324] focus:ring-[#015324]"
+                                  />
+                                  <span className="text-slate-800">{row.survivorValue}</span>
+                                </label>
+                              </td>
+                              <td className="px-3 py-2">
+                                <label className="flex items-center gap-2 cursor-pointer">
+                                  <input
+                                    type="radio"
+                                    checked={takeDuplicate}
+                                    onChange={() => setTakeFieldIds(toggle(takeFieldIds, row.fieldId, true))}
+                                    className="text-[#015324] focus:ring-[#015324]"
+                                  />
+                                  <span className="text-slate-800">{row.duplicateValue}</span>
+                                </label>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+
+              <div className="bg-slate-50 border border-slate-200 rounded-lg p-4 text-sm text-slate-600 space-y-1">
+                <p>Custom fields left blank on the kept record are filled in from the merged one.</p>
+                <p>Notes from both leads are kept, and the lead counts as qualified if either one was.</p>
+                <p>Status history, assignments, activities and tasks move to the kept record; the other record is deleted and a snapshot is saved in the audit log.</p>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-200 flex justify-end gap-3 bg-slate-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleMerge}
+            disabled={!other || merging}
+            className="flex items-center gap-2 px-4 py-2 bg-[#015324] text-white rounded-lg hover:bg-[#014a20] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <GitMerge className="w-4 h-4" />
+            {merging ? 'Merging...' : 'Merge Leads'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { Save } from 'lucide-react';
+import { LeadService } from '../../lib/leads/lead-service';
+import {
+  LEAD_TASK_TYPES,
+  TASK_REMINDER_OPTIONS,
+  toDateTimeInput,
+  validateLeadTask
+} from '../../lib/leads/activity-utils';
+import type { LeadTask, LeadTaskInput, LeadTaskType } from '../../lib/leads/types';
+import { useToast } from '../../contexts/ToastContext';
+
+interface LeadTaskFormProps {
+  orgId: string;
+  leadId: string;
+  users: { id: string; full_name: string }[];
+  defaultAssignee?: string;
+  onSaved: (task: LeadTask) => void;
+  onCancel: () => void;
+}
+
+function tomorrowMorning(): Date {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  date.setHours(9, 0, 0, 0);
+  return date;
+}
+
+export function LeadTaskForm({ orgId, leadId, users, defaultAssignee, onSaved, onCancel }: LeadTaskFormProps) {
+  const { showSuccess, showError } = useToast();
+  const [taskType, setTaskType] = useState<LeadTaskType>('follow_up');
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [dueAt, setDueAt] = useState(() => toDateTimeInput(tomorrowMorning()));
+  const [reminderMinutes, setReminderMinutes] = useState<number | ''>(60);
+  const [assignedTo, setAssignedTo] = useState(defaultAssignee || '');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async () => {
+    const due = new Date(dueAt);
+    const input: LeadTaskInput = {
+      task_type: taskType,
+      title: title.trim(),
+      description: description.trim() || null,
+      due_at: dueAt ? due.toISOString() : '',
+      remind_at: dueAt && reminderMinutes !== '' ? new Date(due.getTime() - reminderMinutes * 60000).toISOString() : null,
+      assigned_to: assignedTo || null
+    };
+
+    const validationError = validateLeadTask(input);
+    if (validationError) {
+      showError('Invalid Task', validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const task = await LeadService.createTask(orgId, leadId, input);
+      showSuccess('Task Added', `Due ${due.toLocaleString()}`);
+      onSaved(task);
+    } catch (error) {
+      console.error('Error creating task:', error);
+      showError('Save Failed', 'Unable to add task. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-50 border border-slate-200 rounded-lg p-4 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="md:col-span-2">
+          <label className="block text-xs text-slate-500 mb-1">Task *</label>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324]"
+            placeholder="e.g. Send revised quote"
+          />
+        </div>
+
+        <div>
+          <label className="block text-xs text-slate-500 mb-1">Type</label>
+          <select
+            value={taskType}
+            onChange={(e) => setTaskType(e.target.value as LeadTaskType)}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324]"
+          >
+            {(Object.keys(LEAD_TASK_TYPES) as LeadTaskType[]).map(type => (
+              <option key={type} value={type}>{LEAD_TASK_TYPES[type]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-xs text-slate-500 mb-1">Assigned to</label>
+          <select
+            value={assignedTo}
+            onChange={(e) => setAssignedTo(e.target.value)}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324]"
+          >
+            <option value="">Me</option>
+            {users.map(user => (
+              <option key={user.id} value={user.id}>{user.full_name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-xs text-slate-500 mb-1">Due *</label>
+          <input
+            type="datetime-local"
+            value={dueAt}
+            onChange={(e) => setDueAt(e.target.value)}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324]"
+          />
+        </div>
+
+        <div>
+          <label className="block text-xs text-slate-500 mb-1">Reminder</label>
+          <select
+            value={reminderMinutes}
+            onChange={(e) => setReminderMinutes(e.target.value === '' ? '' : Number(e.target.value))}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324]"
+          >
+            <option value="">No reminder</option>
+            {TASK_REMINDER_OPTIONS.map(option => (
+              <option key={option.minutes} value={option.minutes}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="md:col-span-2">
+          <label className="block text-xs text-slate-500 mb-1">Details</label>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324]"
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg transition-colors text-sm"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={saving}
+          className="flex items-center gap-2 px-4 py-2 bg-[#015324] text-white rounded-lg hover:bg-[#014a20] transition-colors text-sm disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          {saving ? 'Saving...' : 'Add Task'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,16 @@
 import { useState, useEffect } from 'react';
 import {
-  Users, Plus, Filter, Download, Search, TrendingUp, Target, Award, BarChart3, Activity, Trash2
+  Users, Plus, Filter, Download, Search, TrendingUp, Target, Award, BarChart3, Activity, Trash2, Bell, Hourglass, X
 } from 'lucide-react';
 import * as XLSX from 'xlsx';
 import { LeadService } from '../../lib/leads/lead-service';
 import { LEAD_STATUS_CONFIG } from '../../lib/leads/types';
-import type { LeadWithDetails, LeadFilters, LeadStats, LeadStatus } from '../../lib/leads/types';
+import type { Lead, LeadConvertedCustomer, LeadWithDetails, LeadFilters, LeadStats, LeadStatus, LeadStaleAlert, LeadStatusRecord, LeadTask } from '../../lib/leads/types';
+import { staleAlertMessage } from '../../lib/leads/stale-utils';
 import { TemplateConfigManager } from './TemplateConfigManager';
 import { CreateLeadModal } from './CreateLeadModal';
 import { LeadDetailModal } from './LeadDetailModal';
+import { LeadsKanbanBoard } from './LeadsKanbanBoard';
 import { DateRangeSelector, getInitialDateRange } from '../common/DateRangeSelector';
 import type { DateRangeValue } from '../common/DateRangeSelector';
 import { useToast } from '../../contexts/ToastContext';
@@ -31,14 +33,25 @@ export function LeadsDashboard({ orgId, userId, userRole }: LeadsDashboardProps)
   const [selectedLead, setSelectedLead] = useState<LeadWithDetails | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showDetailModal, setShowDetailModal] = useState(false);
+  const [dueTasks, setDueTasks] = useState<LeadTask[]>([]);
+  const [staleAlerts, setStaleAlerts] = useState<LeadStaleAlert[]>([]);
 
   const isAdmin = ['super_admin', 'client_admin', 'regional_admin', 'branch_admin'].includes(userRole);
+  const canCreateCustomers = isAdmin || ['hq', 'bsm', 'regional_manager', 'branch_manager', 'field_supervisor'].includes(userRole);
 
   useEffect(() => {
     loadLeads();
     loadStats();
   }, [orgId, filters]);
 
+  useEffect(() => {
+    loadReminders();
+  }, [orgId, userId]);
+
+  useEffect(() => {
+    loadStaleAlerts();
+  }, [orgId, userId]);
+
   useEffect(() => {
     if (dateRange) {
       setFilters(prev => ({
@@ -57,6 +70,7 @@ export function LeadsDashboard({ orgId, userId, userRole }: LeadsDashboardProps)
         search: searchTerm || undefined
       });
       setLeads(data);
+      setSelectedLead(prev => (prev ? data.find(l => l.id === prev.id) || prev : prev));
     } catch (error) {
       console.error('Error loading leads:', error);
     } finally {
@@ -64,6 +78,46 @@ export function LeadsDashboard({ orgId, userId, userRole }: LeadsDashboardProps)
     }
   };
 
+  const loadReminders = async () => {
+    try {
+      setDueTasks(await LeadService.listDueTaskReminders(orgId, userId));
+    } catch (error) {
+      console.error('Error loading task reminders:', error);
+    }
+  };
+
+  // Stale rules run on an hourly schedule; the dashboard only shows the alerts they raised
+  const loadStaleAlerts = async () => {
+    try {
+      setStaleAlerts(await LeadService.listStaleAlerts(orgId, userId));
+    } catch (error) {
+      console.error('Error loading stale lead alerts:', error);
+    }
+  };
+
+  const dismissStaleAlerts = async (alertIds: string[]) => {
+    try {
+      await LeadService.acknowledgeStaleAlerts(alertIds);
+      setStaleAlerts(prev => prev.filter(alert => !alertIds.includes(alert.id)));
+    } catch (error) {
+      console.error('Error dismissing stale lead alerts:', error);
+      showError('Dismiss Failed', 'Unable to dismiss the alert');
+    }
+  };
+
+  const openLeadById = async (leadId: string) => {
+    try {
+      const lead = leads.find(l => l.id === leadId) || await LeadService.getLead(leadId);
+      if (lead) {
+        setSelectedLead(lead);
+        setShowDetailModal(true);
+      }
+    } catch (error) {
+      console.error('Error opening lead:', error);
+      showError('Lead Unavailable', 'Unable to open this lead');
+    }
+  };
+
   const loadStats = async () => {
     try {
       const data = await LeadService.getLeadStats(orgId, filters);
@@ -94,6 +148,10 @@ export function LeadsDashboard({ orgId, userId, userRole }: LeadsDashboardProps)
         'Progress Status': lead.progress_status ? lead.progress_status.charAt(0).toUpperCase() + lead.progress_status.slice(1) : '',
         'Qualified': lead.is_qualified ? 'Yes' : 'No',
         'Stale': lead.is_stale ? 'Yes' : 'No',
+        'Deal Value': lead.deal_value ?? '',
+        'Currency': lead.deal_value != null ? lead.currency : '',
+        'Expected Close': lead.expected_close_date || '',
+        'Won On': lead.won_at ? new Date(lead.won_at).toLocaleDateString() : '',
         'Source': lead.source ? lead.source.replace('_', ' ') : '',
         'Territory': lead.territory?.name || '',
         'Sub-Territory': lead.sub_territory?.name || '',
@@ -114,6 +172,10 @@ export function LeadsDashboard({ orgId, userId, userRole }: LeadsDashboardProps)
         { wch: 15 }, // Progress Status
         { wch: 10 }, // Qualified
         { wch: 8 }, // Stale
+        { wch: 12 }, // Deal Value
+        { wch: 8 }, // Currency
+        { wch: 14 }, // Expected Close
+        { wch: 12 }, // Won On
         { wch: 15 }, // Source
         { wch: 20 }, // Territory
         { wch: 20 }, // Sub-Territory
@@ -136,11 +198,49 @@ export function LeadsDashboard({ orgId, userId, userRole }: LeadsDashboardProps)
     }
   };
 
+  const handleMoveLead = async (lead: LeadWithDetails, status: LeadStatusRecord) => {
+    const previousStatus = lead.status;
+    const newStatus = status.status_key as LeadStatus;
+    setLeads(prev => prev.map(l => (l.id === lead.id ? { ...l, status: newStatus } : l)));
+
+    try {
+      await LeadService.updateLeadStatus(lead.id, newStatus);
+      showSuccess('Status Updated', `${lead.full_name} moved to ${status.status_label}`);
+      loadStats();
+    } catch (error) {
+      console.error('Error updating lead status:', error);
+      setLeads(prev => prev.map(l => (l.id === lead.id ? { ...l, status: previousStatus } : l)));
+      showError('Update Failed', 'Unable to change lead status. Please try again.');
+    }
+  };
+
   const handleDeleteLead = async (leadId: string) => {
     loadLeads();
     loadStats();
   };
 
+  const handleLeadMerged = async (survivor: Lead) => {
+    loadLeads();
+    loadStats();
+    loadReminders();
+    try {
+      const details = await LeadService.getLead(survivor.id);
+      if (details) setSelectedLead(details);
+    } catch (error) {
+      console.error('Error loading merged lead:', error);
+    }
+  };
+
+  const handleLeadConverted = async (customer: LeadConvertedCustomer) => {
+    loadLeads();
+    try {
+      const details = await LeadService.getLead(customer.lead_id);
+      if (details) setSelectedLead(details);
+    } catch (error) {
+      console.error('Error loading converted lead:', error);
+    }
+  };
+
   const handleDeleteFromRow = async (e: React.MouseEvent, lead: LeadWithDetails) => {
     e.stopPropagation();
     const confirmed = await confirm(
@@ -219,60 +319,84 @@ export function LeadsDashboard({ orgId, userId, userRole }: LeadsDashboardProps)
         </div>
       </div>
 
-      {view === 'pipeline' && stats && (
-        <div className="mb-6">
-          <h2 className="text-xl font-semibold text-slate-800 mb-4">Lead Pipeline</h2>
-          <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
-            {(['new', 'hot', 'warm', 'negotiation', 'won'] as LeadStatus[]).map((status) => {
-              const statusLeads = leads.filter(l => l.status === status);
-              const statusConfig = LEAD_STATUS_CONFIG[status];
+      {dueTasks.length > 0 && (
+        <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-xl">
+          <div className="flex items-center gap-2 text-amber-800 font-semibold mb-2">
+            <Bell className="w-4 h-4" />
+            {dueTasks.length} follow-up{dueTasks.length === 1 ? ' needs' : 's need'} your attention
+          </div>
+          <div className="space-y-1">
+            {dueTasks.slice(0, 5).map(task => {
+              const overdue = new Date(task.due_at) < new Date();
               return (
-                <div key={status} className="bg-white rounded-xl border-2 border-slate-200 p-4">
-                  <div className="flex items-center justify-between mb-3">
-                    <h3 className="font-semibold text-slate-800">{statusConfig.label}</h3>
-                    <span className={`text-2xl font-bold ${statusConfig.color}`}>
-                      {statusLeads.length}
-                    </span>
-                  </div>
-                  <div className="space-y-2 max-h-96 overflow-y-auto">
-                    {statusLeads.map((lead) => (
-                      <button
-                        key={lead.id}
-                        onClick={() => {
-                          setSelectedLead(lead);
-                          setShowDetailModal(true);
-                        }}
-                        className="w-full text-left p-3 bg-slate-50 hover:bg-slate-100 rounded-lg transition-colors border border-slate-200"
-                      >
-                        <div className="font-medium text-slate-800 text-sm truncate">
-                          {lead.full_name}
-                        </div>
-                        <div className="text-xs text-slate-500 truncate">{lead.company || 'No company'}</div>
-                        <div className="flex items-center justify-between mt-2">
-                          <span className="text-xs text-slate-600">Score: {lead.score}</span>
-                          <div className="w-12 h-1.5 bg-slate-200 rounded-full overflow-hidden">
-                            <div
-                              className="h-full bg-[#015324]"
-                              style={{ width: `${lead.score}%` }}
-                            />
-                          </div>
-                        </div>
-                      </button>
-                    ))}
-                    {statusLeads.length === 0 && (
-                      <div className="text-center py-4 text-slate-400 text-sm">
-                        No leads
-                      </div>
-                    )}
-                  </div>
-                </div>
+                <button
+                  key={task.id}
+                  onClick={() => openLeadById(task.lead_id)}
+                  className="w-full flex items-center justify-between gap-3 px-3 py-2 bg-white rounded-lg border border-amber-100 hover:border-amber-300 text-left transition-colors"
+                >
+                  <span className="text-sm text-slate-800 truncate">
+                    <span className="font-medium">{task.title}</span>
+                    <span className="text-slate-500"> · {task.lead?.full_name || 'Lead'}</span>
+                  </span>
+                  <span className={`text-xs whitespace-nowrap ${overdue ? 'text-red-600 font-semibold' : 'text-slate-500'}`}>
+                    {overdue ? 'Overdue · ' : 'Due '}{new Date(task.due_at).toLocaleString()}
+                  </span>
+                </button>
               );
             })}
+            {dueTasks.length > 5 && (
+              <p className="text-xs text-amber-700 px-1">and {dueTasks.length - 5} more</p>
+            )}
           </div>
         </div>
       )}
 
-      {view === 'leads' && stats && (
+      {staleAlerts.length > 0 && (
+        <div className="mb-6 p-4 bg-slate-50 border border-slate-300 rounded-xl">
+          <div className="flex items-center justify-between gap-2 mb-2">
+            <div className="flex items-center gap-2 text-slate-800 font-semibold">
+              <Hourglass className="w-4 h-4" />
+              {staleAlerts.length} lead{staleAlerts.length === 1 ? ' has' : 's have'} gone stale
+            </div>
+            <button
+              onClick={() => dismissStaleAlerts(staleAlerts.map(alert => alert.id))}
+              className="text-xs text-slate-600 hover:text-slate-800"
+            >
+              Dismiss all
+            </button>
+          </div>
+          <div className="space-y-1">
+            {staleAlerts.slice(0, 5).map(alert => (
+              <div
+                key={alert.id}
+                className="flex items-center gap-2 bg-white rounded-lg border border-slate-200 hover:border-slate-300 transition-colors"
+              >
+                <button
+                  onClick={() => openLeadById(alert.lead_id)}
+                  className="flex-1 flex items-center justify-between gap-3 px-3 py-2 text-left min-w-0"
+                >
+                  <span className="text-sm text-slate-800 truncate">{staleAlertMessage(alert)}</span>
+                  <span className="text-xs text-slate-500 whitespace-nowrap">
+                    {new Date(alert.created_at).toLocaleDateString()}
+                  </span>
+                </button>
+                <button
+                  onClick={() => dismissStaleAlerts([alert.id])}
+                  className="p-2 text-slate-400 hover:text-slate-600"
+                  title="Dismiss"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            {staleAlerts.length > 5 && (
+              <p className="text-xs text-slate-600 px-1">and {staleAlerts.length - 5} more</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {stats && (
         <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
           <div className="bg-white rounded-xl border border-slate-200 p-4">
             <div className="flex items-center justify-between mb-2">
@@ -308,7 +432,6 @@ export function LeadsDashboard({ orgId, userId, userRole }: LeadsDashboardProps)
         </div>
       )}
 
-      {view === 'leads' && (
       <div className="bg-white rounded-xl border border-slate-200">
         <div className="p-4 border-b border-slate-200">
           <div className="flex flex-col sm:flex-row gap-3">
@@ -376,6 +499,20 @@ export function LeadsDashboard({ orgId, userId, userRole }: LeadsDashboardProps)
           </div>
         </div>
 
+        {view === 'pipeline' ? (
+          <div className="p-4">
+            <LeadsKanbanBoard
+              orgId={orgId}
+              leads={leads}
+              loading={loading}
+              onSelectLead={(lead) => {
+                setSelectedLead(lead);
+                setShowDetailModal(true);
+              }}
+              onMoveLead={handleMoveLead}
+            />
+          </div>
+        ) : (
         <div className="overflow-x-auto">
           <table className="w-full">
             <thead className="bg-slate-50 border-b border-slate-200">
@@ -469,8 +606,8 @@ export function LeadsDashboard({ orgId, userId, userRole }: LeadsDashboardProps)
             </div>
           )}
         </div>
+        )}
       </div>
-      )}
 
       <CreateLeadModal
         isOpen={showCreateModal}
@@ -493,8 +630,11 @@ export function LeadsDashboard({ orgId, userId, userRole }: LeadsDashboardProps)
         onUpdate={() => {
           loadLeads();
           loadStats();
+          loadReminders();
         }}
         onDelete={isAdmin ? handleDeleteLead : undefined}
+        onMerged={handleLeadMerged}
+        onConverted={canCreateCustomers ? handleLeadConverted : undefined}
       />
     </div>
   );
@@ -0,0 +1,169 @@
+import { useState, useEffect } from 'react';
+import { GripVertical, User, Building2 } from 'lucide-react';
+import { LeadService } from '../../lib/leads/lead-service';
+import { formatDealTotals, formatDealValue } from '../../lib/leads/forecast-utils';
+import type { LeadStatusRecord, LeadWithDetails } from '../../lib/leads/types';
+
+interface LeadsKanbanBoardProps {
+  orgId: string;
+  leads: LeadWithDetails[];
+  loading: boolean;
+  onSelectLead: (lead: LeadWithDetails) => void;
+  onMoveLead: (lead: LeadWithDetails, status: LeadStatusRecord) => void;
+}
+
+export function LeadsKanbanBoard({ orgId, leads, loading, onSelectLead, onMoveLead }: LeadsKanbanBoardProps) {
+  const [statuses, setStatuses] = useState<LeadStatusRecord[]>([]);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadStatuses();
+  }, [orgId]);
+
+  const loadStatuses = async () => {
+    try {
+      setStatuses(await LeadService.listStatuses(orgId));
+    } catch (error) {
+      console.error('Error loading statuses:', error);
+    }
+  };
+
+  const leadsByStatus = new Map<string, LeadWithDetails[]>();
+  leads.forEach(lead => {
+    leadsByStatus.set(lead.status, [...(leadsByStatus.get(lead.status) || []), lead]);
+  });
+
+  const hiddenCount = leads.filter(lead => !statuses.some(s => s.status_key === lead.status)).length;
+
+  const handleDrop = (e: React.DragEvent, status: LeadStatusRecord) => {
+    e.preventDefault();
+    const leadId = e.dataTransfer.getData('text/plain') || draggingId;
+    setDraggingId(null);
+    setDropTarget(null);
+
+    const lead = leads.find(l => l.id === leadId);
+    if (lead && lead.status !== status.status_key) {
+      onMoveLead(lead, status);
+    }
+  };
+
+  if (loading && leads.length === 0) {
+    return (
+      <div className="text-center py-12 text-slate-500">
+        <div className="animate-spin w-8 h-8 border-4 border-slate-300 border-t-[#015324] rounded-full mx-auto mb-3"></div>
+        <p>Loading pipeline...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex gap-3 overflow-x-auto pb-3">
+        {statuses.map(status => {
+          const columnLeads = leadsByStatus.get(status.status_key) || [];
+          const totalScore = columnLeads.reduce((sum, lead) => sum + (lead.score || 0), 0);
+          const dealTotals = formatDealTotals(columnLeads);
+          const isTarget = dropTarget === status.status_key;
+
+          return (
+            <div
+              key={status.id}
+              onDragOver={(e) => {
+                e.preventDefault();
+                e.dataTransfer.dropEffect = 'move';
+                if (dropTarget !== status.status_key) setDropTarget(status.status_key);
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null);
+              }}
+              onDrop={(e) => handleDrop(e, status)}
+              className={`flex-shrink-0 w-72 flex flex-col rounded-xl border-2 transition-colors ${
+                isTarget ? 'border-[#015324] bg-green-50' : 'border-slate-200 bg-slate-50'
+              }`}
+            >
+              <div className="p-3 border-b border-slate-200">
+                <div className="flex items-center justify-between">
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-semibold ${status.status_bg_color} ${status.status_color}`}>
+                    {status.status_label}
+                  </span>
+                  <span className="text-lg font-bold text-slate-800">{columnLeads.length}</span>
+                </div>
+                <div className="flex items-center justify-between mt-2 text-xs text-slate-500">
+                  <span>Total score {totalScore}</span>
+                  <span>Avg {columnLeads.length > 0 ? Math.round(totalScore / columnLeads.length) : 0}</span>
+                </div>
+                {dealTotals && (
+                  <div className="mt-1 text-xs font-semibold text-slate-700 truncate" title={`${dealTotals} · ${status.win_probability}% win probability`}>
+                    {dealTotals}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex-1 p-2 space-y-2 min-h-[120px] max-h-[calc(100vh-22rem)] overflow-y-auto">
+                {columnLeads.map(lead => (
+                  <div
+                    key={lead.id}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData('text/plain', lead.id);
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDraggingId(lead.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggingId(null);
+                      setDropTarget(null);
+                    }}
+                    onClick={() => onSelectLead(lead)}
+                    className={`group p-3 bg-white rounded-lg border border-slate-200 shadow-sm hover:border-slate-300 cursor-grab active:cursor-grabbing transition-opacity ${
+                      draggingId === lead.id ? 'opacity-40' : ''
+                    }`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="font-medium text-slate-800 text-sm truncate">{lead.full_name}</div>
+                        <div className="flex items-center gap-1 text-xs text-slate-500 truncate">
+                          <Building2 className="w-3 h-3 flex-shrink-0" />
+                          {lead.company || 'No company'}
+                        </div>
+                      </div>
+                      <GripVertical className="w-4 h-4 text-slate-300 group-hover:text-slate-400 flex-shrink-0" />
+                    </div>
+                    {lead.deal_value != null && (
+                      <div className="text-xs font-semibold text-slate-700 mt-1">
+                        {formatDealValue(Number(lead.deal_value), lead.currency)}
+                      </div>
+                    )}
+                    <div className="flex items-center justify-between mt-2 gap-2">
+                      <span className="flex items-center gap-1 text-xs text-slate-500 truncate">
+                        <User className="w-3 h-3 flex-shrink-0" />
+                        {lead.assigned_user?.full_name || 'Unassigned'}
+                      </span>
+                      <div className="flex items-center gap-1.5 flex-shrink-0">
+                        <div className="w-10 h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                          <div className="h-full bg-[#015324]" style={{ width: `${lead.score}%` }} />
+                        </div>
+                        <span className="text-xs text-slate-600">{lead.score}</span>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                {columnLeads.length === 0 && (
+                  <div className="text-center py-6 text-slate-400 text-sm">
+                    {isTarget ? 'Drop here' : 'No leads'}
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {hiddenCount > 0 && (
+        <p className="text-xs text-slate-500 mt-2">
+          {hiddenCount} lead{hiddenCount === 1 ? ' is' : 's are'} in an inactive status and not shown on the board.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,15 @@
 import { useEffect, useState, useRef, useCallback } from 'react';
-import { Plus, Edit2, Trash2, Users, Search, Upload, Download, FileSpreadsheet, FileDown, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, AlertCircle, CheckCircle, XCircle, MoreVertical, X, Filter, ChevronDown } from 'lucide-react';
+import { Plus, Edit2, Trash2, Users, Search, Upload, Download, FileSpreadsheet, FileDown, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, AlertCircle, CheckCircle, XCircle, MoreVertical, X, Filter, ChevronDown, Hash, Save } from 'lucide-react';
 import { supabase } from '../../lib/supabase/client';
 import { OrgStructureService } from '../../lib/organization/org-structure-service';
 import { CustomerImportService, type ImportProgress } from '../../lib/organization/customer-import-service';
+import {
+  CustomerCodeService,
+  DEFAULT_CUSTOMER_CODE_SETTINGS,
+  formatCustomerCode,
+  validateCustomerCodeSettings,
+  type CustomerCodeSettings
+} from '../../lib/organization/customer-code-service';
 import type { Region, Branch, User } from '../../lib/supabase/types';
 import { useToast } from '../../contexts/ToastContext';
 
@@ -75,6 +82,7 @@ export function CustomersManager({ orgId }: CustomersManagerProps) {
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(25);
   const [showActionsMenu, setShowActionsMenu] = useState(false);
+  const [showCodeSettings, setShowCodeSettings] = useState(false);
   const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
   const [showFilters, setShowFilters] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -446,6 +454,15 @@ export function CustomersManager({ orgId }: CustomersManagerProps) {
     }
   };
 
+  const generateCustomerCode = async () => {
+    const code = await CustomerCodeService.generateCode(orgId);
+    if (code) {
+      setFormData(prev => ({ ...prev, customer_code: code }));
+    } else {
+      showError('Generate Failed', 'Unable to generate a customer code');
+    }
+  };
+
   const closeModal = () => {
     setShowModal(false);
     setEditingCustomer(null);
@@ -547,6 +564,14 @@ export function CustomersManager({ orgId }: CustomersManagerProps) {
                   <Download className="w-4 h-4 text-slate-500" />
                   Download Template
                 </button>
+                <div className="border-t border-slate-100 my-1" />
+                <button
+                  onClick={() => { setShowCodeSettings(true); setShowActionsMenu(false); }}
+                  className="w-full flex items-center gap-3 px-4 py-3 text-sm text-slate-700 hover:bg-slate-50 transition-colors"
+                >
+                  <Hash className="w-4 h-4 text-slate-500" />
+                  Customer Code Format
+                </button>
               </div>
             </div>
           )}
@@ -871,8 +896,13 @@ export function CustomersManager({ orgId }: CustomersManagerProps) {
           supervisors={supervisors}
           onSubmit={handleSubmit}
           onClose={closeModal}
+          onGenerateCode={generateCustomerCode}
         />
       )}
+
+      {showCodeSettings && (
+        <CustomerCodeSettingsModal orgId={orgId} onClose={() => setShowCodeSettings(false)} />
+      )}
     </div>
   );
 }
@@ -967,7 +997,7 @@ function ImportProgressModal({ importing, importProgress, onClose }: {
   );
 }
 
-function CustomerFormModal({ editingCustomer, formData, setFormData, regions, filteredBranches, filteredSupervisingBranches, supervisors, onSubmit, onClose }: {
+function CustomerFormModal({ editingCustomer, formData, setFormData, regions, filteredBranches, filteredSupervisingBranches, supervisors, onSubmit, onClose, onGenerateCode }: {
   editingCustomer: Customer | null;
   formData: any;
   setFormData: (data: any) => void;
@@ -977,6 +1007,7 @@ function CustomerFormModal({ editingCustomer, formData, setFormData, regions, fi
   supervisors: User[];
   onSubmit: (e: React.FormEvent) => void;
   onClose: () => void;
+  onGenerateCode: () => void;
 }) {
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -1003,15 +1034,26 @@ function CustomerFormModal({ editingCustomer, formData, setFormData, regions, fi
             </div>
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-2">Customer Code *</label>
-              <input
-                type="text"
-                value={formData.customer_code}
-                onChange={(e) => setFormData({ ...formData, customer_code: e.target.value })}
-                required
-                disabled={!!editingCustomer}
-                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-transparent disabled:bg-slate-100"
-                placeholder="CUST001"
-              />
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={formData.customer_code}
+                  onChange={(e) => setFormData({ ...formData, customer_code: e.target.value })}
+                  required
+                  disabled={!!editingCustomer}
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-transparent disabled:bg-slate-100"
+                  placeholder="CUST001"
+                />
+                {!editingCustomer && (
+                  <button
+                    type="button"
+                    onClick={onGenerateCode}
+                    className="px-3 py-2 text-sm bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors whitespace-nowrap"
+                  >
+                    Generate
+                  </button>
+                )}
+              </div>
             </div>
           </div>
 
@@ -1224,3 +1266,103 @@ function CustomerFormModal({ editingCustomer, formData, setFormData, regions, fi
     </div>
   );
 }
+
+function CustomerCodeSettingsModal({ orgId, onClose }: {
+  orgId: string;
+  onClose: () => void;
+}) {
+  const { showSuccess, showError, showWarning } = useToast();
+  const [settings, setSettings] = useState<CustomerCodeSettings>({ org_id: orgId, ...DEFAULT_CUSTOMER_CODE_SETTINGS });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    CustomerCodeService.getSettings(orgId)
+      .then(setSettings)
+      .finally(() => setLoading(false));
+  }, [orgId]);
+
+  const handleSave = async () => {
+    const problem = validateCustomerCodeSettings(settings);
+    if (problem) {
+      showWarning('Invalid Format', problem);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (await CustomerCodeService.saveSettings(settings)) {
+        showSuccess('Code Format Saved', `New customers will be numbered like ${formatCustomerCode(settings, 1)}`);
+        onClose();
+      } else {
+        showError('Save Failed', 'Only organization admins can change the customer code format');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md">
+        <div className="p-6 border-b border-slate-200">
+          <h3 className="text-xl font-bold text-slate-800">Customer Code Format</h3>
+          <p className="text-sm text-slate-600 mt-1">Used when codes are generated, including for leads converted to customers</p>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="w-8 h-8 border-4 border-[#015324] border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : (
+          <div className="p-6 space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Prefix</label>
+                <input
+                  type="text"
+                  value={settings.prefix}
+                  maxLength={10}
+                  onChange={(e) => setSettings({ ...settings, prefix: e.target.value.toUpperCase() })}
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Digits</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={settings.padding}
+                  onChange={(e) => setSettings({ ...settings, padding: Number(e.target.value) })}
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-transparent"
+                />
+              </div>
+            </div>
+            <p className="text-sm text-slate-600">
+              Next codes follow the highest number already used with this prefix, e.g.{' '}
+              <span className="font-mono font-medium text-slate-800">{formatCustomerCode(settings, 1)}</span>.
+            </p>
+          </div>
+        )}
+
+        <div className="p-6 border-t border-slate-200 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || loading}
+            className="flex items-center gap-2 px-4 py-2 bg-[#015324] text-white rounded-lg hover:bg-[#014a20] transition-colors disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" />
+            {saving ? 'Saving...' : 'Save Format'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
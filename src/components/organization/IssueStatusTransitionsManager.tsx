@@ -0,0 +1,334 @@
+import { useState, useEffect } from 'react';
+import { ArrowRight, GitBranch, Plus, Edit2, Trash2, X, Save } from 'lucide-react';
+import { IssueService } from '../../lib/issues/issue-service';
+import { describeTransitionRequirements } from '../../lib/issues/status-transition-utils';
+import type { IssueCustomStatus, IssueStatusTransition, IssueStatusTransitionInput } from '../../lib/issues/types';
+import { RoleService, type Role } from '../../lib/roles/role-service';
+import { useToast } from '../../contexts/ToastContext';
+
+interface IssueStatusTransitionsManagerProps {
+  orgId: string;
+  statuses: Pick<IssueCustomStatus, 'id' | 'display_name' | 'color' | 'is_active'>[];
+}
+
+const EMPTY_RULE: IssueStatusTransitionInput = {
+  from_status_id: '',
+  to_status_id: '',
+  allowed_roles: [],
+  require_comment: false,
+  require_action_taken: false,
+  require_attachment: false
+};
+
+export function IssueStatusTransitionsManager({ orgId, statuses }: IssueStatusTransitionsManagerProps) {
+  const { showToast, confirm } = useToast();
+  const [transitions, setTransitions] = useState<IssueStatusTransition[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState<{ id: string | null; rule: IssueStatusTransitionInput } | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, [orgId]);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [rules, roleList] = await Promise.all([
+        IssueService.getStatusTransitions(orgId),
+        RoleService.getAllRoles()
+      ]);
+      setTransitions(rules);
+      setRoles(roleList.filter(r => r.name !== 'super_admin'));
+    } catch (error) {
+      showToast('error', 'Failed to load transition rules', error instanceof Error ? error.message : undefined);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const statusById = new Map(statuses.map(s => [s.id, s]));
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const { rule } = editing;
+
+    if (!rule.from_status_id || !rule.to_status_id) {
+      showToast('error', 'Please choose both statuses');
+      return;
+    }
+    if (rule.from_status_id === rule.to_status_id) {
+      showToast('error', 'From and to statuses must be different');
+      return;
+    }
+    const duplicate = transitions.some(t =>
+      t.id !== editing.id && t.from_status_id === rule.from_status_id && t.to_status_id === rule.to_status_id
+    );
+    if (duplicate) {
+      showToast('error', 'A rule for this transition already exists');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await IssueService.saveStatusTransition(orgId, rule, editing.id || undefined);
+      showToast('success', 'Transition rule saved');
+      setEditing(null);
+      loadData();
+    } catch (error) {
+      showToast('error', 'Failed to save transition rule', (error as { message?: string }).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (transition: IssueStatusTransition) => {
+    const from = statusById.get(transition.from_status_id)?.display_name;
+    const to = statusById.get(transition.to_status_id)?.display_name;
+    const confirmed = await confirm('Delete Transition Rule', `Stop allowing issues to move from "${from}" to "${to}"?`);
+    if (!confirmed) return;
+
+    if (await IssueService.deleteStatusTransition(transition.id)) {
+      showToast('success', 'Transition rule deleted');
+      loadData();
+    } else {
+      showToast('error', 'Failed to delete transition rule');
+    }
+  };
+
+  const toggleRole = (roleName: string) => {
+    if (!editing) return;
+    const allowed = editing.rule.allowed_roles;
+    setEditing({
+      ...editing,
+      rule: {
+        ...editing.rule,
+        allowed_roles: allowed.includes(roleName) ? allowed.filter(r => r !== roleName) : [...allowed, roleName]
+      }
+    });
+  };
+
+  const roleLabel = (name: string) => roles.find(r => r.name === name)?.display_name || name;
+
+  const renderStatus = (statusId: string) => {
+    const status = statusById.get(statusId);
+    return (
+      <span
+        className="inline-flex items-center px-2.5 py-1 rounded-lg text-xs font-semibold"
+        style={{ backgroundColor: (status?.color || '#6B7280') + '20', color: status?.color || '#6B7280' }}
+      >
+        {status?.display_name || 'Unknown'}
+      </span>
+    );
+  };
+
+  const sortedTransitions = [...transitions].sort((a, b) =>
+    (statusById.get(a.from_status_id)?.display_name || '').localeCompare(statusById.get(b.from_status_id)?.display_name || '')
+  );
+
+  return (
+    <div className="mt-10">
+      <div className="mb-4 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <GitBranch className="w-6 h-6 text-violet-600" />
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">Transition Rules</h2>
+            <p className="text-sm text-slate-600">
+              {transitions.length === 0
+                ? 'No rules yet, so issues can move between any statuses. Add a rule to restrict the workflow.'
+                : 'Issues can only move along the transitions listed here.'}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => setEditing({ id: null, rule: EMPTY_RULE })}
+          className="flex items-center gap-2 px-4 py-2 bg-violet-600 text-white rounded-lg hover:bg-violet-700 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Rule
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="w-10 h-10 border-4 border-violet-200 border-t-violet-600 rounded-full animate-spin" />
+        </div>
+      ) : transitions.length > 0 && (
+        <div className="bg-white border-2 border-slate-200 rounded-xl overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-slate-600 uppercase">Transition</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-slate-600 uppercase">Who</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-slate-600 uppercase">Requires</th>
+                <th className="px-4 py-3 text-right text-xs font-semibold text-slate-600 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {sortedTransitions.map((transition) => {
+                const requirements = describeTransitionRequirements(transition);
+                return (
+                  <tr key={transition.id} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2">
+                        {renderStatus(transition.from_status_id)}
+                        <ArrowRight className="w-4 h-4 text-slate-400" />
+                        {renderStatus(transition.to_status_id)}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-slate-700">
+                      {transition.allowed_roles.length === 0
+                        ? 'Anyone'
+                        : transition.allowed_roles.map(roleLabel).join(', ')}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-slate-700 capitalize">
+                      {requirements.length === 0 ? '—' : requirements.join(', ')}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center justify-end gap-1">
+                        <button
+                          onClick={() => setEditing({
+                            id: transition.id,
+                            rule: {
+                              from_status_id: transition.from_status_id,
+                              to_status_id: transition.to_status_id,
+                              allowed_roles: transition.allowed_roles,
+                              require_comment: transition.require_comment,
+                              require_action_taken: transition.require_action_taken,
+                              require_attachment: transition.require_attachment
+                            }
+                          })}
+                          className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                          title="Edit rule"
+                        >
+                          <Edit2 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(transition)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Delete rule"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {editing && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b border-slate-200">
+              <h2 className="text-2xl font-bold text-slate-800">
+                {editing.id ? 'Edit Transition Rule' : 'Add Transition Rule'}
+              </h2>
+              <button
+                onClick={() => setEditing(null)}
+                className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5 text-slate-500" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-5">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">
+                    From <span className="text-red-500">*</span>
+                  </label>
+                  <select
+                    value={editing.rule.from_status_id}
+                    onChange={(e) => setEditing({ ...editing, rule: { ...editing.rule, from_status_id: e.target.value } })}
+                    className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                  >
+                    <option value="">Select status</option>
+                    {statuses.filter(s => s.is_active).map(s => (
+                      <option key={s.id} value={s.id}>{s.display_name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">
+                    To <span className="text-red-500">*</span>
+                  </label>
+                  <select
+                    value={editing.rule.to_status_id}
+                    onChange={(e) => setEditing({ ...editing, rule: { ...editing.rule, to_status_id: e.target.value } })}
+                    className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                  >
+                    <option value="">Select status</option>
+                    {statuses.filter(s => s.is_active && s.id !== editing.rule.from_status_id).map(s => (
+                      <option key={s.id} value={s.id}>{s.display_name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Roles allowed</label>
+                <p className="text-xs text-slate-500 mb-2">Leave all unticked to let anyone who can edit the issue make this change.</p>
+                <div className="grid grid-cols-2 gap-2">
+                  {roles.map(role => (
+                    <label key={role.id} className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={editing.rule.allowed_roles.includes(role.name)}
+                        onChange={() => toggleRole(role.name)}
+                        className="w-4 h-4 text-violet-600 rounded focus:ring-violet-500"
+                      />
+                      <span className="text-sm text-slate-700">{role.display_name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Required with the change</label>
+                <div className="space-y-2">
+                  {([
+                    { key: 'require_comment', label: 'Comment explaining the change' },
+                    { key: 'require_action_taken', label: 'Updated action taken' },
+                    { key: 'require_attachment', label: 'At least one attachment on the issue' }
+                  ] as const).map(option => (
+                    <label key={option.key} className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={editing.rule[option.key]}
+                        onChange={(e) => setEditing({ ...editing, rule: { ...editing.rule, [option.key]: e.target.checked } })}
+                        className="w-4 h-4 text-violet-600 rounded focus:ring-violet-500"
+                      />
+                      <span className="text-sm text-slate-700">{option.label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-end gap-3 p-6 border-t border-slate-200 bg-slate-50">
+              <button
+                onClick={() => setEditing(null)}
+                className="px-6 py-3 text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="flex items-center gap-2 px-6 py-3 bg-violet-600 text-white rounded-lg hover:bg-violet-700 transition-colors disabled:opacity-50"
+              >
+                <Save className="w-5 h-5" />
+                {saving ? 'Saving...' : 'Save Rule'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
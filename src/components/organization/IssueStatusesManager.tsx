@@ -3,6 +3,7 @@ import { Circle, Plus, Edit2, Trash2, X, Save, Eye, EyeOff, Star } from 'lucide-
 import { supabase } from '../../lib/supabase/client';
 import { useToast } from '../../contexts/ToastContext';
 import { ConfirmationModal } from '../modals/ConfirmationModal';
+import { IssueStatusTransitionsManager } from './IssueStatusTransitionsManager';
 
 interface IssueStatus {
   id: string;
@@ -365,6 +366,10 @@ export function IssueStatusesManager() {
         </div>
       )}
 
+      {orgId && !loading && statuses.length > 0 && (
+        <IssueStatusTransitionsManager orgId={orgId} statuses={statuses} />
+      )}
+
       {/* Create/Edit Modal */}
       {(showCreateModal || showEditModal) && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
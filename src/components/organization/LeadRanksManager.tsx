@@ -3,6 +3,7 @@ import { Flame, Plus, Edit2, Trash2, X, Save, AlertTriangle, Eye, EyeOff, Star }
 import { supabase } from '../../lib/supabase/client';
 import { useToast } from '../../contexts/ToastContext';
 import { ConfirmationModal } from '../modals/ConfirmationModal';
+import { LeadService } from '../../lib/leads/lead-service';
 import type { LeadRank } from '../../lib/leads/types';
 
 interface FormData {
@@ -11,6 +12,7 @@ interface FormData {
   rank_color: string;
   rank_bg_color: string;
   description: string;
+  min_score: string;
   is_active: boolean;
   is_default: boolean;
 }
@@ -36,10 +38,17 @@ const EMPTY_FORM: FormData = {
   rank_color: 'text-slate-700',
   rank_bg_color: 'bg-slate-100',
   description: '',
+  min_score: '',
   is_active: true,
   is_default: false,
 };
 
+/** Blank means the rank is only set by hand. */
+function parseMinScore(input: string): number | null {
+  if (!input.trim()) return null;
+  return Math.min(100, Math.max(0, Math.round(Number(input) || 0)));
+}
+
 export function LeadRanksManager() {
   const [ranks, setRanks] = useState<LeadRank[]>([]);
   const [loading, setLoading] = useState(true);
@@ -95,6 +104,15 @@ export function LeadRanksManager() {
 
   const resetForm = () => setFormData({ ...EMPTY_FORM });
 
+  // Thresholds only take effect on the next scoring, so apply them to existing leads now
+  const applyThresholds = async () => {
+    try {
+      await LeadService.rescoreLeads(orgId);
+    } catch (error) {
+      console.error('Error rescoring leads:', error);
+    }
+  };
+
   const handleCreate = async () => {
     if (!formData.rank_key || !formData.rank_label) {
       showError('Validation Error', 'Please fill in all required fields');
@@ -110,6 +128,7 @@ export function LeadRanksManager() {
         rank_color: formData.rank_color,
         rank_bg_color: formData.rank_bg_color,
         description: formData.description || null,
+        min_score: parseMinScore(formData.min_score),
         display_order: maxOrder + 1,
         is_active: formData.is_active,
         is_default: formData.is_default,
@@ -118,6 +137,7 @@ export function LeadRanksManager() {
 
       if (error) throw error;
       showSuccess('Rank Created', 'Lead rank has been created successfully');
+      if (parseMinScore(formData.min_score) !== null) await applyThresholds();
       setShowCreateModal(false);
       resetForm();
       loadRanks(orgId);
@@ -140,6 +160,7 @@ export function LeadRanksManager() {
           rank_color: formData.rank_color,
           rank_bg_color: formData.rank_bg_color,
           description: formData.description || null,
+          min_score: parseMinScore(formData.min_score),
           is_active: formData.is_active,
           is_default: formData.is_default,
         })
@@ -147,6 +168,12 @@ export function LeadRanksManager() {
 
       if (error) throw error;
       showSuccess('Rank Updated', 'Lead rank has been updated successfully');
+      if (
+        parseMinScore(formData.min_score) !== (selectedRank.min_score ?? null) ||
+        (selectedRank.min_score != null && formData.is_active !== selectedRank.is_active)
+      ) {
+        await applyThresholds();
+      }
       setShowEditModal(false);
       setSelectedRank(null);
       resetForm();
@@ -201,6 +228,7 @@ export function LeadRanksManager() {
       rank_color: rank.rank_color,
       rank_bg_color: rank.rank_bg_color,
       description: rank.description || '',
+      min_score: rank.min_score != null ? String(rank.min_score) : '',
       is_active: rank.is_active,
       is_default: rank.is_default,
     });
@@ -278,6 +306,9 @@ export function LeadRanksManager() {
                   {rank.description || 'No description provided'}
                 </p>
                 <p className="text-xs text-slate-500">Key: {rank.rank_key}</p>
+                {rank.min_score != null && (
+                  <p className="text-xs text-slate-500 mt-1">Assigned at score {rank.min_score}+</p>
+                )}
               </div>
 
               <div className="flex items-center gap-2">
@@ -401,6 +432,24 @@ export function LeadRanksManager() {
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">
+                  Minimum Score
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={formData.min_score}
+                  onChange={(e) => setFormData({ ...formData, min_score: e.target.value })}
+                  placeholder="Set by hand"
+                  className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                />
+                <p className="text-xs text-slate-500 mt-1">
+                  When lead scoring rules are active, leads reaching this score get this rank. Leave blank to assign it by hand only.
+                </p>
+              </div>
+
               <div className="flex items-center gap-4">
                 <label className="flex items-center gap-2 cursor-pointer">
                   <input
@@ -0,0 +1,509 @@
+import { useState, useEffect } from 'react';
+import { Gauge, Plus, Edit2, Trash2, X, Save, Eye, EyeOff, RefreshCw } from 'lucide-react';
+import { useToast } from '../../contexts/ToastContext';
+import { LeadService } from '../../lib/leads/lead-service';
+import { LEAD_SOURCES } from '../../lib/leads/types';
+import type {
+  LeadFormField,
+  LeadFormTemplate,
+  LeadScoringOperator,
+  LeadScoringRule,
+  LeadScoringRuleInput,
+  LeadScoringRuleType
+} from '../../lib/leads/types';
+import {
+  SCORING_OPERATORS,
+  SCORING_RULE_TYPES,
+  describeScoringRule,
+  scoringRuleTypeLabel,
+  validateScoringRule
+} from '../../lib/leads/scoring-utils';
+
+interface LeadScoringRulesManagerProps {
+  orgId: string;
+}
+
+interface TemplateField extends LeadFormField {
+  template_name: string;
+}
+
+const EMPTY_RULE: LeadScoringRuleInput = {
+  name: '',
+  rule_type: 'source',
+  source: LEAD_SOURCES[0].value,
+  field_id: null,
+  operator: null,
+  match_value: null,
+  points: 10,
+  window_days: null,
+  max_points: null,
+  is_active: true,
+  display_order: 0
+};
+
+/** Resets the inputs the new rule type does not use, and fills sensible defaults for those it does. */
+function withRuleType(rule: LeadScoringRuleInput, ruleType: LeadScoringRuleType): LeadScoringRuleInput {
+  return {
+    ...rule,
+    rule_type: ruleType,
+    source: ruleType === 'source' ? rule.source || LEAD_SOURCES[0].value : null,
+    field_id: ruleType === 'field_value' ? rule.field_id : null,
+    operator: ruleType === 'field_value' ? rule.operator || 'equals' : null,
+    match_value: ruleType === 'field_value' ? rule.match_value : null,
+    window_days: ruleType === 'recent_activity' || ruleType === 'contact_decay' ? rule.window_days || 7 : null,
+    max_points: ruleType === 'contact_decay' ? rule.max_points ?? 30 : null,
+    points: ruleType === 'contact_decay' ? Math.abs(rule.points) || 5 : rule.points
+  };
+}
+
+export function LeadScoringRulesManager({ orgId }: LeadScoringRulesManagerProps) {
+  const { showSuccess, showError, showWarning, confirm } = useToast();
+  const [rules, setRules] = useState<LeadScoringRule[]>([]);
+  const [fields, setFields] = useState<TemplateField[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [rescoring, setRescoring] = useState(false);
+  const [editingRule, setEditingRule] = useState<LeadScoringRule | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<LeadScoringRuleInput>({ ...EMPTY_RULE });
+
+  useEffect(() => {
+    loadData();
+  }, [orgId]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [rulesData, templates] = await Promise.all([
+        LeadService.listScoringRules(orgId),
+        LeadService.listTemplates(orgId)
+      ]);
+      const templateFields = await Promise.all(
+        templates.map(async (template: LeadFormTemplate) =>
+          (await LeadService.getTemplateFields(template.id)).map(field => ({ ...field, template_name: template.name }))
+        )
+      );
+      setRules(rulesData);
+      setFields(templateFields.flat());
+    } catch (error) {
+      console.error('Error loading scoring rules:', error);
+      showError('Load Failed', 'Failed to load lead scoring rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const rescore = async (quiet = false) => {
+    try {
+      setRescoring(true);
+      const count = await LeadService.rescoreLeads(orgId);
+      if (!quiet) showSuccess('Scores Recalculated', `${count} lead${count === 1 ? '' : 's'} rescored`);
+    } catch (error) {
+      console.error('Error rescoring leads:', error);
+      showError('Recalculation Failed', 'Lead scores could not be recalculated');
+    } finally {
+      setRescoring(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditingRule(null);
+    setFormData({ ...EMPTY_RULE, display_order: Math.max(0, ...rules.map(r => r.display_order)) + 1 });
+    setShowForm(true);
+  };
+
+  const openEdit = (rule: LeadScoringRule) => {
+    setEditingRule(rule);
+    setFormData({
+      name: rule.name,
+      rule_type: rule.rule_type,
+      source: rule.source ?? null,
+      field_id: rule.field_id ?? null,
+      operator: rule.operator ?? null,
+      match_value: rule.match_value ?? null,
+      points: rule.points,
+      window_days: rule.window_days ?? null,
+      max_points: rule.max_points ?? null,
+      is_active: rule.is_active,
+      display_order: rule.display_order
+    });
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingRule(null);
+  };
+
+  const handleSave = async () => {
+    const problem = validateScoringRule(formData);
+    if (problem) {
+      showWarning('Check the Rule', problem);
+      return;
+    }
+
+    const operator = SCORING_OPERATORS.find(o => o.value === formData.operator);
+    const rule: LeadScoringRuleInput = {
+      ...formData,
+      name: formData.name.trim(),
+      match_value: operator?.needsValue ? formData.match_value?.trim() || null : null
+    };
+
+    try {
+      setSaving(true);
+      if (editingRule) {
+        await LeadService.updateScoringRule(editingRule.id, rule);
+        showSuccess('Rule Updated', `"${rule.name}" has been updated`);
+      } else {
+        await LeadService.createScoringRule(orgId, rule);
+        showSuccess('Rule Created', `"${rule.name}" now applies to your leads`);
+      }
+      closeForm();
+      await loadData();
+      await rescore(true);
+    } catch (error) {
+      console.error('Error saving scoring rule:', error);
+      showError('Save Failed', 'The scoring rule could not be saved');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (rule: LeadScoringRule) => {
+    try {
+      await LeadService.updateScoringRule(rule.id, { is_active: !rule.is_active });
+      setRules(prev => prev.map(r => (r.id === rule.id ? { ...r, is_active: !r.is_active } : r)));
+      await rescore(true);
+    } catch (error) {
+      console.error('Error toggling scoring rule:', error);
+      showError('Update Failed', 'The scoring rule could not be updated');
+    }
+  };
+
+  const handleDelete = async (rule: LeadScoringRule) => {
+    const confirmed = await confirm('Delete Scoring Rule', `Delete "${rule.name}"? Lead scores will be recalculated without it.`);
+    if (!confirmed) return;
+
+    try {
+      await LeadService.deleteScoringRule(rule.id);
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+      showSuccess('Rule Deleted', `"${rule.name}" has been deleted`);
+      await rescore(true);
+    } catch (error) {
+      console.error('Error deleting scoring rule:', error);
+      showError('Delete Failed', 'The scoring rule could not be deleted');
+    }
+  };
+
+  const selectedOperator = SCORING_OPERATORS.find(o => o.value === formData.operator);
+  const usesWindow = formData.rule_type === 'recent_activity' || formData.rule_type === 'contact_decay';
+  const maxPossible = rules
+    .filter(r => r.is_active && r.rule_type !== 'contact_decay' && r.points > 0)
+    .reduce((sum, r) => sum + r.points, 0);
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      <div className="mb-8 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="p-3 bg-gradient-to-br from-emerald-600 to-[#015324] rounded-2xl shadow-lg">
+            <Gauge className="w-8 h-8 text-white" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold text-slate-900">Lead Scoring</h1>
+            <p className="text-slate-600 mt-1">Score leads automatically; ranks with a minimum score are assigned from it</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => rescore()}
+            disabled={rescoring || rules.length === 0}
+            className="flex items-center gap-2 px-4 py-3 bg-white border border-slate-300 text-slate-700 rounded-xl hover:bg-slate-50 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-5 h-5 ${rescoring ? 'animate-spin' : ''}`} />
+            Recalculate
+          </button>
+          <button
+            onClick={openCreate}
+            className="flex items-center gap-2 px-6 py-3 bg-[#015324] text-white rounded-xl hover:bg-[#014a20] transition-colors shadow-lg shadow-emerald-900/20"
+          >
+            <Plus className="w-5 h-5" />
+            Add Rule
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="w-12 h-12 border-4 border-emerald-200 border-t-[#015324] rounded-full animate-spin" />
+        </div>
+      ) : rules.length === 0 ? (
+        <div className="bg-white border-2 border-dashed border-slate-300 rounded-xl p-12 text-center">
+          <Gauge className="w-16 h-16 text-slate-400 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-slate-900 mb-2">No Scoring Rules Yet</h3>
+          <p className="text-slate-600 mb-6">Until a rule is active, lead scores stay as entered</p>
+          <button
+            onClick={openCreate}
+            className="inline-flex items-center gap-2 px-6 py-3 bg-[#015324] text-white rounded-xl hover:bg-[#014a20] transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            Add Rule
+          </button>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+          <div className="px-6 py-3 bg-slate-50 border-b border-slate-200 text-sm text-slate-600">
+            Active rules can add up to {maxPossible} points; scores are capped between 0 and 100.
+          </div>
+          <div className="divide-y divide-slate-100">
+            {rules.map((rule) => (
+              <div key={rule.id} className={`flex items-center gap-4 px-6 py-4 ${rule.is_active ? '' : 'opacity-60'}`}>
+                <div
+                  className={`w-16 text-center text-lg font-bold ${
+                    rule.rule_type === 'contact_decay' || rule.points < 0 ? 'text-red-600' : 'text-emerald-700'
+                  }`}
+                >
+                  {rule.rule_type === 'contact_decay' ? `-${Math.abs(rule.points)}` : rule.points > 0 ? `+${rule.points}` : rule.points}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-semibold text-slate-900 truncate">{rule.name}</p>
+                    <span className="px-2 py-0.5 text-xs font-medium bg-slate-100 text-slate-600 rounded">
+                      {scoringRuleTypeLabel(rule.rule_type)}
+                    </span>
+                  </div>
+                  <p className="text-sm text-slate-600 mt-0.5">{describeScoringRule(rule, fields)}</p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => toggleActive(rule)}
+                    className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                    title={rule.is_active ? 'Deactivate' : 'Activate'}
+                  >
+                    {rule.is_active ? <Eye className="w-4 h-4 text-green-600" /> : <EyeOff className="w-4 h-4 text-slate-400" />}
+                  </button>
+                  <button
+                    onClick={() => openEdit(rule)}
+                    className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                    title="Edit"
+                  >
+                    <Edit2 className="w-4 h-4 text-slate-600" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(rule)}
+                    className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b border-slate-200">
+              <h2 className="text-2xl font-bold text-slate-800">
+                {editingRule ? 'Edit Scoring Rule' : 'Add Scoring Rule'}
+              </h2>
+              <button onClick={closeForm} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+                <X className="w-5 h-5 text-slate-500" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">
+                  Name <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g., Referral lead"
+                  className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Rule Type</label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {SCORING_RULE_TYPES.map((type) => (
+                    <button
+                      key={type.value}
+                      type="button"
+                      onClick={() => setFormData(withRuleType(formData, type.value))}
+                      className={`text-left px-4 py-3 rounded-lg border-2 transition-all ${
+                        formData.rule_type === type.value ? 'border-[#015324] bg-emerald-50' : 'border-slate-200 hover:border-slate-300'
+                      }`}
+                    >
+                      <p className="text-sm font-semibold text-slate-800">{type.label}</p>
+                      <p className="text-xs text-slate-500 mt-0.5">{type.description}</p>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {formData.rule_type === 'source' && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Source</label>
+                  <select
+                    value={formData.source || ''}
+                    onChange={(e) => setFormData({ ...formData, source: e.target.value })}
+                    className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-transparent"
+                  >
+                    {LEAD_SOURCES.map((source) => (
+                      <option key={source.value} value={source.value}>{source.label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {formData.rule_type === 'field_value' && (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <div className="sm:col-span-3">
+                    <label className="block text-sm font-medium text-slate-700 mb-2">Field</label>
+                    <select
+                      value={formData.field_id || ''}
+                      onChange={(e) => setFormData({ ...formData, field_id: e.target.value || null, match_value: null })}
+                      className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-transparent"
+                    >
+                      <option value="">Select a template field</option>
+                      {fields.map((field) => (
+                        <option key={field.id} value={field.id}>
+                          {field.field_label} ({field.template_name})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">Condition</label>
+                    <select
+                      value={formData.operator || 'equals'}
+                      onChange={(e) => setFormData({ ...formData, operator: e.target.value as LeadScoringOperator })}
+                      className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-transparent"
+                    >
+                      {SCORING_OPERATORS.map((operator) => (
+                        <option key={operator.value} value={operator.value}>{operator.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {selectedOperator?.needsValue && (
+                    <div className="sm:col-span-2">
+                      <label className="block text-sm font-medium text-slate-700 mb-2">Value</label>
+                      {(() => {
+                        const field = fields.find(f => f.id === formData.field_id);
+                        if (field?.field_options?.length && (formData.operator === 'equals' || formData.operator === 'not_equals')) {
+                          return (
+                            <select
+                              value={formData.match_value || ''}
+                              onChange={(e) => setFormData({ ...formData, match_value: e.target.value })}
+                              className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-transparent"
+                            >
+                              <option value="">Select a value</option>
+                              {field.field_options.map((option) => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                              ))}
+                            </select>
+                          );
+                        }
+                        return (
+                          <input
+                            type={formData.operator === 'gte' || formData.operator === 'lte' ? 'number' : 'text'}
+                            value={formData.match_value || ''}
+                            onChange={(e) => setFormData({ ...formData, match_value: e.target.value })}
+                            placeholder={field?.field_type === 'checkbox' ? 'true' : ''}
+                            className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-transparent"
+                          />
+                        );
+                      })()}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">
+                    {formData.rule_type === 'contact_decay' ? 'Points Lost' : 'Points'}
+                  </label>
+                  <input
+                    type="number"
+                    min={formData.rule_type === 'contact_decay' ? 1 : -100}
+                    max={100}
+                    value={formData.points}
+                    onChange={(e) => setFormData({ ...formData, points: Math.round(Number(e.target.value) || 0) })}
+                    className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-transparent"
+                  />
+                </div>
+                {usesWindow && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">
+                      {formData.rule_type === 'contact_decay' ? 'Every (days)' : 'Within (days)'}
+                    </label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={formData.window_days ?? ''}
+                      onChange={(e) => setFormData({ ...formData, window_days: e.target.value ? Math.round(Number(e.target.value)) : null })}
+                      className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-transparent"
+                    />
+                  </div>
+                )}
+                {formData.rule_type === 'contact_decay' && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">Max Deduction</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={formData.max_points ?? ''}
+                      onChange={(e) => setFormData({ ...formData, max_points: e.target.value ? Math.round(Number(e.target.value)) : null })}
+                      placeholder="No limit"
+                      className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#015324] focus:border-transparent"
+                    />
+                  </div>
+                )}
+              </div>
+
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.is_active}
+                  onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+                  className="w-4 h-4 text-[#015324] rounded focus:ring-[#015324]"
+                />
+                <span className="text-sm font-medium text-slate-700">Active</span>
+              </label>
+
+              <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700">
+                {describeScoringRule(formData, fields)}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-end gap-3 p-6 border-t border-slate-200 bg-slate-50">
+              <button
+                onClick={closeForm}
+                className="px-6 py-3 text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="flex items-center gap-2 px-6 py-3 bg-[#015324] text-white rounded-lg hover:bg-[#014a20] transition-colors disabled:opacity-50"
+              >
+                <Save className="w-5 h-5" />
+                {saving ? 'Saving...' : editingRule ? 'Update' : 'Create'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,363 @@
+import { useState, useEffect } from 'react';
+import { Plus, Edit2, Trash2, Save, Hourglass, Archive, ArchiveRestore, RefreshCw } from 'lucide-react';
+import { LeadService } from '../../lib/leads/lead-service';
+import { UserService } from '../../lib/users/user-service';
+import {
+  STALE_RECYCLE_DESCRIPTIONS,
+  STALE_RECYCLE_LABELS,
+  canHaveStaleRule,
+  normalizeStaleRule,
+  validateStaleRule
+} from '../../lib/leads/stale-utils';
+import type {
+  LeadStaleRecycleStrategy,
+  LeadStaleRule,
+  LeadStaleRuleInput,
+  LeadStatusRecord
+} from '../../lib/leads/types';
+import type { User } from '../../lib/supabase/types';
+import { useToast } from '../../contexts/ToastContext';
+
+interface LeadStaleRulesPanelProps {
+  orgId: string;
+  statuses: LeadStatusRecord[];
+}
+
+const EMPTY_RULE: LeadStaleRuleInput = {
+  status_key: '',
+  inactive_days: 14,
+  recycle_strategy: 'none',
+  pool_user_ids: [],
+  notify_manager: true
+};
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500';
+
+export function LeadStaleRulesPanel({ orgId, statuses }: LeadStaleRulesPanelProps) {
+  const { showSuccess, showError, showWarning, showInfo, confirm } = useToast();
+  const [rules, setRules] = useState<LeadStaleRule[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [editing, setEditing] = useState<{ id: string | null; rule: LeadStaleRuleInput } | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, [orgId]);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [ruleData, userResult] = await Promise.all([
+        LeadService.listStaleRules(orgId),
+        UserService.getUsers({ orgId, status: 'active' })
+      ]);
+      setRules(ruleData);
+      setUsers([...userResult.data].sort((a, b) => a.full_name.localeCompare(b.full_name)));
+    } catch (error) {
+      console.error('Error loading stale lead rules:', error);
+      showError('Load Failed', 'Unable to load stale lead rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadRules = async () => {
+    try {
+      setRules(await LeadService.listStaleRules(orgId));
+    } catch (error) {
+      console.error('Error loading stale lead rules:', error);
+    }
+  };
+
+  const statusLabel = (statusKey: string) =>
+    statuses.find(s => s.status_key === statusKey)?.status_label || statusKey;
+
+  const watchableStatuses = statuses.filter(s => s.is_active && canHaveStaleRule(s.status_key));
+  const availableStatuses = watchableStatuses.filter(
+    s => s.status_key === editing?.rule.status_key || !rules.some(r => r.status_key === s.status_key)
+  );
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    const problem = validateStaleRule(editing.rule);
+    if (problem) {
+      showWarning('Incomplete Rule', problem);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await LeadService.saveStaleRule(orgId, normalizeStaleRule(editing.rule), editing.id || undefined);
+      showSuccess('Rule Saved', `${statusLabel(editing.rule.status_key)} leads go stale after ${editing.rule.inactive_days} days`);
+      setEditing(null);
+      loadRules();
+    } catch (error) {
+      console.error('Error saving stale lead rule:', error);
+      showError('Save Failed', 'Unable to save stale lead rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (rule: LeadStaleRule) => {
+    try {
+      await LeadService.setStaleRuleActive(rule.id, !rule.is_active);
+      showSuccess(rule.is_active ? 'Rule Disabled' : 'Rule Enabled', statusLabel(rule.status_key));
+      loadRules();
+    } catch (error) {
+      console.error('Error updating stale lead rule:', error);
+      showError('Update Failed', 'Unable to update stale lead rule');
+    }
+  };
+
+  const handleDelete = async (rule: LeadStaleRule) => {
+    const confirmed = await confirm(
+      'Delete Rule',
+      `Stop checking ${statusLabel(rule.status_key)} leads for inactivity? Leads already marked stale are not changed.`
+    );
+    if (!confirmed) return;
+
+    try {
+      await LeadService.deleteStaleRule(rule.id);
+      showSuccess('Rule Deleted', statusLabel(rule.status_key));
+      loadRules();
+    } catch (error) {
+      console.error('Error deleting stale lead rule:', error);
+      showError('Delete Failed', 'Unable to delete stale lead rule');
+    }
+  };
+
+  const handleCheckNow = async () => {
+    setChecking(true);
+    try {
+      const count = await LeadService.processStaleLeads(orgId);
+      if (count > 0) {
+        showSuccess('Stale Leads Found', `${count} lead${count === 1 ? ' was' : 's were'} marked stale`);
+      } else {
+        showInfo('No Stale Leads', 'Every watched lead has had recent activity');
+      }
+    } catch (error) {
+      console.error('Error processing stale leads:', error);
+      showError('Check Failed', 'Unable to check for stale leads');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const updateRule = (updates: Partial<LeadStaleRuleInput>) => {
+    if (editing) setEditing({ ...editing, rule: { ...editing.rule, ...updates } });
+  };
+
+  const togglePoolUser = (userId: string) => {
+    if (!editing) return;
+    const pool = editing.rule.pool_user_ids;
+    updateRule({
+      pool_user_ids: pool.includes(userId) ? pool.filter(id => id !== userId) : [...pool, userId]
+    });
+  };
+
+  const userName = (userId: string) => users.find(u => u.id === userId)?.full_name || 'Unknown user';
+
+  const describeAction = (rule: LeadStaleRule) => {
+    const recycle = rule.recycle_strategy === 'round_robin'
+      ? `Rotate through ${rule.pool_user_ids.map(userName).join(', ')}`
+      : STALE_RECYCLE_LABELS[rule.recycle_strategy];
+    return rule.notify_manager ? `${recycle} · notify manager` : recycle;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-slate-600">
+          Leads left in a status with no logged activity or status change are marked Stale by an hourly check. The assignee is alerted, and the lead can be recycled to someone else.
+        </p>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <button
+            onClick={handleCheckNow}
+            disabled={checking || rules.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${checking ? 'animate-spin' : ''}`} />
+            Check Now
+          </button>
+          <button
+            onClick={() => setEditing({ id: null, rule: { ...EMPTY_RULE, status_key: availableStatuses[0]?.status_key || '' } })}
+            disabled={availableStatuses.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            Add Rule
+          </button>
+        </div>
+      </div>
+
+      {editing && (
+        <div className="bg-slate-50 rounded-xl p-4 space-y-4 border border-slate-200">
+          <h4 className="font-medium text-slate-800">{editing.id ? 'Edit Stale Rule' : 'New Stale Rule'}</h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Status</label>
+              <select
+                value={editing.rule.status_key}
+                onChange={(e) => updateRule({ status_key: e.target.value })}
+                disabled={!!editing.id}
+                className={`${inputClass} disabled:bg-slate-100`}
+              >
+                <option value="">Select status</option>
+                {availableStatuses.map(status => (
+                  <option key={status.id} value={status.status_key}>{status.status_label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Stale after (days)</label>
+              <input
+                type="number"
+                min={1}
+                value={editing.rule.inactive_days}
+                onChange={(e) => updateRule({ inactive_days: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">When stale</label>
+              <select
+                value={editing.rule.recycle_strategy}
+                onChange={(e) => updateRule({ recycle_strategy: e.target.value as LeadStaleRecycleStrategy })}
+                className={inputClass}
+              >
+                {(Object.keys(STALE_RECYCLE_LABELS) as LeadStaleRecycleStrategy[]).map(strategy => (
+                  <option key={strategy} value={strategy}>{STALE_RECYCLE_LABELS[strategy]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs text-slate-500 mb-2">{STALE_RECYCLE_DESCRIPTIONS[editing.rule.recycle_strategy]}</p>
+            {editing.rule.recycle_strategy === 'round_robin' && (
+              <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
+                {users.map(user => (
+                  <button
+                    key={user.id}
+                    type="button"
+                    onClick={() => togglePoolUser(user.id)}
+                    className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                      editing.rule.pool_user_ids.includes(user.id)
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-white border border-slate-300 text-slate-600 hover:bg-slate-100'
+                    }`}
+                  >
+                    {user.full_name}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={editing.rule.notify_manager}
+              onChange={(e) => updateRule({ notify_manager: e.target.checked })}
+              className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+            />
+            <span className="text-sm text-slate-700">Also alert the assignee's manager</span>
+          </label>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setEditing(null)}
+              className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {rules.length === 0 && !editing ? (
+        <div className="text-center py-8 text-slate-500">
+          <Hourglass className="w-10 h-10 mx-auto mb-2 text-slate-300" />
+          <p>No stale lead rules yet. Leads are only marked stale by hand.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {rules.map(rule => (
+            <div
+              key={rule.id}
+              className={`flex items-center justify-between p-4 rounded-xl border border-slate-200 ${
+                rule.is_active ? 'bg-white' : 'bg-slate-50 opacity-60'
+              }`}
+            >
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-slate-800">
+                    {statusLabel(rule.status_key)} after {rule.inactive_days} day{rule.inactive_days === 1 ? '' : 's'}
+                  </span>
+                  {!rule.is_active && (
+                    <span className="text-xs px-2 py-0.5 bg-slate-200 text-slate-600 rounded">Disabled</span>
+                  )}
+                </div>
+                <p className="text-sm text-slate-500">{describeAction(rule)}</p>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => setEditing({
+                    id: rule.id,
+                    rule: {
+                      status_key: rule.status_key,
+                      inactive_days: rule.inactive_days,
+                      recycle_strategy: rule.recycle_strategy,
+                      pool_user_ids: rule.pool_user_ids,
+                      notify_manager: rule.notify_manager
+                    }
+                  })}
+                  className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                  title="Edit rule"
+                >
+                  <Edit2 className="w-4 h-4 text-slate-500" />
+                </button>
+                <button
+                  onClick={() => handleToggleActive(rule)}
+                  className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                  title={rule.is_active ? 'Disable rule' : 'Enable rule'}
+                >
+                  {rule.is_active
+                    ? <Archive className="w-4 h-4 text-slate-500" />
+                    : <ArchiveRestore className="w-4 h-4 text-slate-500" />}
+                </button>
+                <button
+                  onClick={() => handleDelete(rule)}
+                  className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                  title="Delete rule"
+                >
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 import { useState, useEffect } from 'react';
-import { Tag, Plus, Edit2, Trash2, X, Save, AlertTriangle, Eye, EyeOff, Star } from 'lucide-react';
+import { Tag, Plus, Edit2, Trash2, X, Save, AlertTriangle, Eye, EyeOff, Star, Hourglass } from 'lucide-react';
 import { supabase } from '../../lib/supabase/client';
 import { useToast } from '../../contexts/ToastContext';
 import { ConfirmationModal } from '../modals/ConfirmationModal';
+import { LeadStaleRulesPanel } from './LeadStaleRulesPanel';
 
 interface LeadStatus {
   id: string;
@@ -13,6 +14,7 @@ interface LeadStatus {
   status_bg_color: string;
   description?: string;
   display_order: number;
+  win_probability: number;
   is_active: boolean;
   is_default: boolean;
   is_system: boolean;
@@ -26,6 +28,7 @@ interface FormData {
   status_color: string;
   status_bg_color: string;
   description: string;
+  win_probability: number;
   is_active: boolean;
   is_default: boolean;
 }
@@ -65,6 +68,7 @@ export function LeadStatusesManager() {
     status_color: 'text-slate-700',
     status_bg_color: 'bg-slate-100',
     description: '',
+    win_probability: 0,
     is_active: true,
     is_default: false
   });
@@ -118,6 +122,7 @@ export function LeadStatusesManager() {
       status_color: 'text-slate-700',
       status_bg_color: 'bg-slate-100',
       description: '',
+      win_probability: 0,
       is_active: true,
       is_default: false
     });
@@ -141,6 +146,7 @@ export function LeadStatusesManager() {
           status_color: formData.status_color,
           status_bg_color: formData.status_bg_color,
           description: formData.description || null,
+          win_probability: formData.win_probability,
           display_order: maxOrder + 1,
           is_active: formData.is_active,
           is_default: formData.is_default,
@@ -172,6 +178,7 @@ export function LeadStatusesManager() {
           status_color: formData.status_color,
           status_bg_color: formData.status_bg_color,
           description: formData.description || null,
+          win_probability: formData.win_probability,
           is_active: formData.is_active,
           is_default: formData.is_default
         })
@@ -238,6 +245,7 @@ export function LeadStatusesManager() {
       status_color: status.status_color,
       status_bg_color: status.status_bg_color,
       description: status.description || '',
+      win_probability: status.win_probability,
       is_active: status.is_active,
       is_default: status.is_default
     });
@@ -325,6 +333,7 @@ export function LeadStatusesManager() {
                   {status.description || 'No description provided'}
                 </p>
                 <p className="text-xs text-slate-500">Key: {status.status_key}</p>
+                <p className="text-xs text-slate-500">Win probability: {status.win_probability}%</p>
               </div>
 
               <div className="flex items-center gap-2">
@@ -357,6 +366,25 @@ export function LeadStatusesManager() {
         </div>
       )}
 
+      {orgId && !loading && (
+        <div className="mt-8 bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="bg-gradient-to-r from-slate-50 to-slate-100 px-6 py-4 border-b border-slate-200">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-white rounded-lg shadow-sm">
+                <Hourglass className="w-5 h-5 text-slate-700" />
+              </div>
+              <div>
+                <h2 className="text-lg font-bold text-slate-900">Stale Lead Rules</h2>
+                <p className="text-sm text-slate-600">How long a lead can sit in each status before it goes stale</p>
+              </div>
+            </div>
+          </div>
+          <div className="p-6">
+            <LeadStaleRulesPanel orgId={orgId} statuses={statuses} />
+          </div>
+        </div>
+      )}
+
       {/* Create/Edit Modal */}
       {(showCreateModal || showEditModal) && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -448,6 +476,24 @@ export function LeadStatusesManager() {
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">
+                  Win Probability (%)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={formData.win_probability}
+                  onChange={(e) => setFormData({
+                    ...formData,
+                    win_probability: Math.min(100, Math.max(0, Math.round(Number(e.target.value) || 0)))
+                  })}
+                  className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-xs text-slate-500 mt-1">Chance that a lead in this status closes; weights its deal value in the revenue forecast</p>
+              </div>
+
               <div className="flex items-center gap-4">
                 <label className="flex items-center gap-2 cursor-pointer">
                   <input
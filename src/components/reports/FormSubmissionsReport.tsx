@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
-import { FileText, Clock, Download, Eye, EyeOff } from 'lucide-react';
+import { FileText, Clock, Download, Eye, EyeOff, ArrowUpDown } from 'lucide-react';
 import { supabase } from '../../lib/supabase/client';
+import type { FormField } from '../../lib/forms/types';
+import { formatCalculatedValue } from '../../lib/forms/calculation-utils';
 import * as XLSX from 'xlsx';
 import { useToast } from '../../contexts/ToastContext';
 
@@ -11,12 +13,23 @@ interface FormSubmissionsReportProps {
   dateRange: string;
 }
 
+interface ReportForm {
+  id: string;
+  title: string;
+  created_at: string;
+  form_schema?: FormField[];
+}
+
+type FormSortColumn = 'title' | 'submissions' | 'score';
+
 export function FormSubmissionsReport({ orgId, dateRange }: FormSubmissionsReportProps) {
   const { showSuccess, showWarning } = useToast();
   const [submissions, setSubmissions] = useState<any[]>([]);
-  const [forms, setForms] = useState<any[]>([]);
+  const [forms, setForms] = useState<ReportForm[]>([]);
   const [loading, setLoading] = useState(true);
   const [includeRejected, setIncludeRejected] = useState(false);
+  const [sortColumn, setSortColumn] = useState<FormSortColumn>('title');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
 
   useEffect(() => {
     loadData();
@@ -34,6 +47,7 @@ export function FormSubmissionsReport({ orgId, dateRange }: FormSubmissionsRepor
           submitted_at,
           time_spent,
           status,
+          submission_data,
           form:forms!inner(id, title, org_id),
           submitted_by:users!form_submissions_submitted_by_fkey(id, full_name)
         `)
@@ -48,7 +62,7 @@ export function FormSubmissionsReport({ orgId, dateRange }: FormSubmissionsRepor
       const [formsData, submissionsData] = await Promise.all([
         supabase
           .from('forms')
-          .select('id, title, created_at')
+          .select('id, title, created_at, form_schema')
           .eq('org_id', orgId)
           .eq('is_active', true),
         submissionsQuery
@@ -77,15 +91,54 @@ export function FormSubmissionsReport({ orgId, dateRange }: FormSubmissionsRepor
     }
   };
 
-  const getFormStats = (formId: string) => {
-    const formSubmissions = submissions.filter(s => s.form?.id === formId);
+  const getCalculatedFields = (form: ReportForm): FormField[] =>
+    (form.form_schema || [])
+      .filter(f => f.type === 'calculated')
+      .sort((a, b) => a.order - b.order);
+
+  const getFormStats = (form: ReportForm) => {
+    const formSubmissions = submissions.filter(s => s.form?.id === form.id);
+    const scoreField = getCalculatedFields(form)[0];
+    const scores = scoreField
+      ? formSubmissions
+          .map(s => parseFloat(s.submission_data?.[scoreField.id]))
+          .filter(score => !isNaN(score))
+      : [];
 
     return {
       count: formSubmissions.length,
-      avgTime: 0
+      avgTime: 0,
+      scoreField,
+      avgScore: scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null
     };
   };
 
+  const handleSort = (column: FormSortColumn) => {
+    if (sortColumn === column) {
+      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortColumn(column);
+      setSortOrder(column === 'title' ? 'asc' : 'desc');
+    }
+  };
+
+  const sortedForms = forms
+    .map(form => ({ form, stats: getFormStats(form) }))
+    .sort((a, b) => {
+      let result: number;
+      if (sortColumn === 'title') {
+        result = a.form.title.localeCompare(b.form.title);
+      } else if (sortColumn === 'submissions') {
+        result = a.stats.count - b.stats.count;
+      } else {
+        if (a.stats.avgScore === null || b.stats.avgScore === null) {
+          return Number(a.stats.avgScore === null) - Number(b.stats.avgScore === null);
+        }
+        result = a.stats.avgScore - b.stats.avgScore;
+      }
+      return sortOrder === 'asc' ? result : -result;
+    });
+
   const formatDuration = (seconds: number) => {
     if (seconds < 60) return `${seconds}s`;
     const minutes = Math.floor(seconds / 60);
@@ -93,8 +146,10 @@ export function FormSubmissionsReport({ orgId, dateRange }: FormSubmissionsRepor
     return `${minutes}m ${secs}s`;
   };
 
-  const exportFormData = async (formId: string, formTitle: string) => {
-    const formSubmissions = submissions.filter(s => s.form?.id === formId);
+  const exportFormData = async (form: ReportForm) => {
+    const formTitle = form.title;
+    const formSubmissions = submissions.filter(s => s.form?.id === form.id);
+    const calculatedFields = getCalculatedFields(form);
 
     if (formSubmissions.length === 0) {
       showWarning('No Data', 'No submissions to export for this form');
@@ -105,7 +160,11 @@ export function FormSubmissionsReport({ orgId, dateRange }: FormSubmissionsRepor
       'Form': sub.form?.title || '',
       'Submitted By': sub.submitted_by?.full_name || 'Unknown',
       'Submitted At': new Date(sub.submitted_at).toLocaleString(),
-      'Time Spent': sub.time_spent || 'N/A'
+      'Time Spent': sub.time_spent || 'N/A',
+      ...Object.fromEntries(calculatedFields.map(field => {
+        const value = parseFloat(sub.submission_data?.[field.id]);
+        return [field.label, isNaN(value) ? '' : value];
+      }))
     }));
 
     const worksheet = XLSX.utils.json_to_sheet(exportData);
@@ -178,15 +237,29 @@ export function FormSubmissionsReport({ orgId, dateRange }: FormSubmissionsRepor
           <table className="w-full">
             <thead className="bg-slate-50 border-b border-slate-200">
               <tr>
-                <th className="px-6 py-4 text-left text-sm font-semibold text-slate-700">Form Name</th>
-                <th className="px-6 py-4 text-left text-sm font-semibold text-slate-700">Submissions</th>
+                {([
+                  { column: 'title', label: 'Form Name' },
+                  { column: 'submissions', label: 'Submissions' },
+                  { column: 'score', label: 'Avg Score' }
+                ] as { column: FormSortColumn; label: string }[]).map(({ column, label }) => (
+                  <th key={column} className="px-6 py-4 text-left text-sm font-semibold text-slate-700">
+                    <button
+                      onClick={() => handleSort(column)}
+                      className={`inline-flex items-center gap-1.5 hover:text-slate-900 ${sortColumn === column ? 'text-blue-700' : ''}`}
+                    >
+                      {label}
+                      {sortColumn === column
+                        ? <span>{sortOrder === 'asc' ? '↑' : '↓'}</span>
+                        : <ArrowUpDown className="w-3.5 h-3.5 text-slate-400" />}
+                    </button>
+                  </th>
+                ))}
                 <th className="px-6 py-4 text-left text-sm font-semibold text-slate-700">Avg Time</th>
                 <th className="px-6 py-4 text-left text-sm font-semibold text-slate-700">Actions</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-100">
-              {forms.map((form) => {
-                const stats = getFormStats(form.id);
+              {sortedForms.map(({ form, stats }) => {
                 return (
                   <tr key={form.id} className="hover:bg-slate-50 transition-colors">
                     <td className="px-6 py-4">
@@ -201,6 +274,18 @@ export function FormSubmissionsReport({ orgId, dateRange }: FormSubmissionsRepor
                         {stats.count}
                       </span>
                     </td>
+                    <td className="px-6 py-4">
+                      {stats.scoreField ? (
+                        <div>
+                          <div className="font-semibold text-slate-800">
+                            {formatCalculatedValue(stats.scoreField, stats.avgScore)}
+                          </div>
+                          <div className="text-xs text-slate-500 mt-1">{stats.scoreField.label}</div>
+                        </div>
+                      ) : (
+                        <span className="text-slate-400">-</span>
+                      )}
+                    </td>
                     <td className="px-6 py-4">
                       <div className="flex items-center gap-2">
                         <Clock className="w-4 h-4 text-slate-500" />
@@ -209,7 +294,7 @@ export function FormSubmissionsReport({ orgId, dateRange }: FormSubmissionsRepor
                     </td>
                     <td className="px-6 py-4">
                       <button
-                        onClick={() => exportFormData(form.id, form.title)}
+                        onClick={() => exportFormData(form)}
                         className="inline-flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors text-sm font-medium"
                       >
                         <Download className="w-4 h-4" />
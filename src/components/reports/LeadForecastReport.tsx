@@ -0,0 +1,280 @@
+import { useState, useEffect } from 'react';
+import { TrendingUp, Scale, CheckCircle, Download } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { LeadService } from '../../lib/leads/lead-service';
+import { buildLeadForecast, formatDealValue, primaryCurrency, toMonthKey } from '../../lib/leads/forecast-utils';
+import type { LeadForecastGroupBy, LeadForecastLead, LeadForecastRow, LeadStatusRecord } from '../../lib/leads/types';
+
+interface LeadForecastReportProps {
+  orgId: string;
+}
+
+const GROUP_LABELS: Record<LeadForecastGroupBy, string> = {
+  month: 'Month',
+  rep: 'Sales Rep',
+  territory: 'Territory'
+};
+
+function shiftedMonth(months: number): string {
+  const now = new Date();
+  return toMonthKey(new Date(now.getFullYear(), now.getMonth() + months, 1));
+}
+
+function totalsOf(rows: LeadForecastRow[]) {
+  return rows.reduce(
+    (sum, row) => ({
+      open_count: sum.open_count + row.open_count,
+      pipeline_value: sum.pipeline_value + row.pipeline_value,
+      weighted_value: sum.weighted_value + row.weighted_value,
+      won_count: sum.won_count + row.won_count,
+      won_value: sum.won_value + row.won_value
+    }),
+    { open_count: 0, pipeline_value: 0, weighted_value: 0, won_count: 0, won_value: 0 }
+  );
+}
+
+export function LeadForecastReport({ orgId }: LeadForecastReportProps) {
+  const [leads, setLeads] = useState<LeadForecastLead[]>([]);
+  const [statuses, setStatuses] = useState<LeadStatusRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [groupBy, setGroupBy] = useState<LeadForecastGroupBy>('month');
+  const [currency, setCurrency] = useState<string | null>(null);
+  const [fromMonth, setFromMonth] = useState(() => shiftedMonth(-2));
+  const [toMonth, setToMonth] = useState(() => shiftedMonth(3));
+
+  useEffect(() => {
+    loadData();
+  }, [orgId]);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [leadData, statusData] = await Promise.all([
+        LeadService.getForecastLeads(orgId),
+        LeadService.listStatuses(orgId, false)
+      ]);
+      setLeads(leadData);
+      setStatuses(statusData);
+      setCurrency(prev => prev || primaryCurrency(leadData));
+    } catch (error) {
+      console.error('Error loading lead forecast:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const currencies = [...new Set(leads.map(lead => lead.currency))].sort();
+  const activeCurrency = currency || 'USD';
+  const rows = buildLeadForecast(leads, statuses, groupBy, activeCurrency, fromMonth, toMonth);
+  const totals = totalsOf(rows);
+  const maxValue = Math.max(...rows.map(row => Math.max(row.weighted_value, row.won_value)), 1);
+  const format = (amount: number) => formatDealValue(amount, activeCurrency);
+
+  const exportForecast = () => {
+    const workbook = XLSX.utils.book_new();
+
+    (Object.keys(GROUP_LABELS) as LeadForecastGroupBy[]).forEach(group => {
+      const groupRows = buildLeadForecast(leads, statuses, group, activeCurrency, fromMonth, toMonth);
+      const sheetRows = groupRows.map(row => ({
+        [GROUP_LABELS[group]]: row.label,
+        'Open Deals': row.open_count,
+        [`Pipeline (${activeCurrency})`]: Math.round(row.pipeline_value * 100) / 100,
+        [`Weighted Pipeline (${activeCurrency})`]: Math.round(row.weighted_value * 100) / 100,
+        'Won Deals': row.won_count,
+        [`Won Revenue (${activeCurrency})`]: Math.round(row.won_value * 100) / 100
+      }));
+      const groupTotals = totalsOf(groupRows);
+      sheetRows.push({
+        [GROUP_LABELS[group]]: 'Total',
+        'Open Deals': groupTotals.open_count,
+        [`Pipeline (${activeCurrency})`]: Math.round(groupTotals.pipeline_value * 100) / 100,
+        [`Weighted Pipeline (${activeCurrency})`]: Math.round(groupTotals.weighted_value * 100) / 100,
+        'Won Deals': groupTotals.won_count,
+        [`Won Revenue (${activeCurrency})`]: Math.round(groupTotals.won_value * 100) / 100
+      });
+
+      const worksheet = XLSX.utils.json_to_sheet(sheetRows);
+      worksheet['!cols'] = [{ wch: 22 }, { wch: 12 }, { wch: 18 }, { wch: 24 }, { wch: 12 }, { wch: 20 }];
+      XLSX.utils.book_append_sheet(workbook, worksheet, `By ${GROUP_LABELS[group]}`);
+    });
+
+    const fileName = `Lead_Forecast_${activeCurrency}_${fromMonth}_to_${toMonth}.xlsx`;
+    XLSX.writeFile(workbook, fileName);
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl shadow-md border border-slate-200 p-6 flex items-center justify-center py-12">
+        <div className="w-10 h-10 border-4 border-amber-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-md border border-slate-200 p-6">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-800">Revenue Forecast</h3>
+          <p className="text-sm text-slate-600 mt-1">
+            Open deals weighted by status win probability, by expected close month, against revenue won
+          </p>
+        </div>
+        <button
+          onClick={exportForecast}
+          disabled={leads.length === 0}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors text-sm font-medium disabled:opacity-50 self-start"
+        >
+          <Download className="w-4 h-4" />
+          Export
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 mb-6">
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Group by</label>
+          <div className="flex rounded-lg border border-slate-300 overflow-hidden">
+            {(Object.keys(GROUP_LABELS) as LeadForecastGroupBy[]).map(group => (
+              <button
+                key={group}
+                onClick={() => setGroupBy(group)}
+                className={`px-3 py-2 text-sm font-medium transition-colors ${
+                  groupBy === group ? 'bg-[#015324] text-white' : 'bg-white text-slate-700 hover:bg-slate-50'
+                }`}
+              >
+                {GROUP_LABELS[group]}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">From</label>
+          <input
+            type="month"
+            value={fromMonth}
+            max={toMonth}
+            onChange={(e) => e.target.value && setFromMonth(e.target.value)}
+            className="px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-[#015324] focus:border-[#015324]"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">To</label>
+          <input
+            type="month"
+            value={toMonth}
+            min={fromMonth}
+            onChange={(e) => e.target.value && setToMonth(e.target.value)}
+            className="px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-[#015324] focus:border-[#015324]"
+          />
+        </div>
+        {currencies.length > 1 && (
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Currency</label>
+            <select
+              value={activeCurrency}
+              onChange={(e) => setCurrency(e.target.value)}
+              className="px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-[#015324] focus:border-[#015324]"
+            >
+              {currencies.map(code => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {leads.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center py-8">
+          No leads have a deal value yet. Add deal values to leads to see the forecast.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <div className="p-4 bg-slate-50 rounded-lg">
+              <div className="flex items-center gap-2 text-sm text-slate-600 font-medium">
+                <TrendingUp className="w-4 h-4 text-blue-600" />
+                Open Pipeline
+              </div>
+              <div className="text-2xl font-bold text-slate-800 mt-1">{format(totals.pipeline_value)}</div>
+              <div className="text-xs text-slate-500">{totals.open_count} open deal{totals.open_count === 1 ? '' : 's'}</div>
+            </div>
+            <div className="p-4 bg-slate-50 rounded-lg">
+              <div className="flex items-center gap-2 text-sm text-slate-600 font-medium">
+                <Scale className="w-4 h-4 text-amber-600" />
+                Weighted Pipeline
+              </div>
+              <div className="text-2xl font-bold text-slate-800 mt-1">{format(totals.weighted_value)}</div>
+              <div className="text-xs text-slate-500">Expected from open deals</div>
+            </div>
+            <div className="p-4 bg-slate-50 rounded-lg">
+              <div className="flex items-center gap-2 text-sm text-slate-600 font-medium">
+                <CheckCircle className="w-4 h-4 text-emerald-600" />
+                Won Revenue
+              </div>
+              <div className="text-2xl font-bold text-emerald-600 mt-1">{format(totals.won_value)}</div>
+              <div className="text-xs text-slate-500">{totals.won_count} deal{totals.won_count === 1 ? '' : 's'} won</div>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 border-b border-slate-200">
+                <tr>
+                  <th className="text-left px-3 py-2 font-semibold text-slate-700">{GROUP_LABELS[groupBy]}</th>
+                  <th className="text-right px-3 py-2 font-semibold text-slate-700">Open</th>
+                  <th className="text-right px-3 py-2 font-semibold text-slate-700">Pipeline</th>
+                  <th className="text-right px-3 py-2 font-semibold text-slate-700">Weighted</th>
+                  <th className="text-right px-3 py-2 font-semibold text-slate-700">Won</th>
+                  <th className="text-right px-3 py-2 font-semibold text-slate-700">Won Revenue</th>
+                  <th className="px-3 py-2 w-48"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {rows.map(row => (
+                  <tr key={row.key}>
+                    <td className="px-3 py-2 text-slate-800 font-medium">{row.label}</td>
+                    <td className="px-3 py-2 text-right text-slate-600">{row.open_count}</td>
+                    <td className="px-3 py-2 text-right text-slate-600">{format(row.pipeline_value)}</td>
+                    <td className="px-3 py-2 text-right text-slate-800 font-semibold">{format(row.weighted_value)}</td>
+                    <td className="px-3 py-2 text-right text-slate-600">{row.won_count}</td>
+                    <td className="px-3 py-2 text-right text-emerald-700 font-semibold">{format(row.won_value)}</td>
+                    <td className="px-3 py-2">
+                      <div className="space-y-1">
+                        <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                          <div className="h-full bg-amber-500 rounded-full" style={{ width: `${(row.weighted_value / maxValue) * 100}%` }} />
+                        </div>
+                        <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                          <div className="h-full bg-emerald-500 rounded-full" style={{ width: `${(row.won_value / maxValue) * 100}%` }} />
+                        </div>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+                {rows.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-3 py-6 text-center text-slate-400">No deals in this period</td>
+                  </tr>
+                )}
+              </tbody>
+              <tfoot className="border-t-2 border-slate-200">
+                <tr className="font-semibold text-slate-800">
+                  <td className="px-3 py-2">Total</td>
+                  <td className="px-3 py-2 text-right">{totals.open_count}</td>
+                  <td className="px-3 py-2 text-right">{format(totals.pipeline_value)}</td>
+                  <td className="px-3 py-2 text-right">{format(totals.weighted_value)}</td>
+                  <td className="px-3 py-2 text-right">{totals.won_count}</td>
+                  <td className="px-3 py-2 text-right text-emerald-700">{format(totals.won_value)}</td>
+                  <td className="px-3 py-2">
+                    <div className="flex items-center gap-3 text-xs font-normal text-slate-500">
+                      <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-amber-500" />Weighted</span>
+                      <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-emerald-500" />Won</span>
+                    </div>
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react';
 import { Target, DollarSign, Users, CheckCircle, Download } from 'lucide-react';
 import { supabase } from '../../lib/supabase/client';
 import * as XLSX from 'xlsx';
+import { formatDealValue, primaryCurrency } from '../../lib/leads/forecast-utils';
+import { LeadForecastReport } from './LeadForecastReport';
 
 interface LeadsReportProps {
   orgId: string;
@@ -27,14 +29,15 @@ export function LeadsReport({ orgId, dateRange }: LeadsReportProps) {
         .from('leads')
         .select(`
           id,
-          company_name,
-          contact_person,
+          company,
+          full_name,
           status,
           score,
-          estimated_value,
+          deal_value,
+          currency,
           created_at,
-          converted_at,
-          created_by:users(id, full_name)
+          won_at,
+          created_by:users!leads_created_by_fkey(id, full_name)
         `)
         .eq('org_id', orgId)
         .gte('created_at', dateFilter)
@@ -65,15 +68,19 @@ export function LeadsReport({ orgId, dateRange }: LeadsReportProps) {
   const getStats = () => {
     const converted = leads.filter(l => l.status === 'converted' || l.status === 'won');
     const conversionRate = leads.length > 0 ? Math.round((converted.length / leads.length) * 100) : 0;
-    const totalValue = converted.reduce((sum, l) => sum + (l.estimated_value || 0), 0);
-    const avgValue = converted.length > 0 ? Math.round(totalValue / converted.length) : 0;
+    // Amounts in different currencies cannot be summed; report the most used one
+    const currency = primaryCurrency(converted.filter(l => l.deal_value != null)) || 'USD';
+    const valued = converted.filter(l => l.deal_value != null && l.currency === currency);
+    const totalValue = valued.reduce((sum, l) => sum + Number(l.deal_value), 0);
+    const avgValue = valued.length > 0 ? Math.round(totalValue / valued.length) : 0;
 
     return {
       totalLeads: leads.length,
       convertedLeads: converted.length,
       conversionRate,
       totalValue,
-      avgValue
+      avgValue,
+      currency
     };
   };
 
@@ -109,8 +116,8 @@ export function LeadsReport({ orgId, dateRange }: LeadsReportProps) {
       { 'Metric': 'Total Leads', 'Value': stats.totalLeads },
       { 'Metric': 'Converted Leads', 'Value': stats.convertedLeads },
       { 'Metric': 'Conversion Rate', 'Value': `${stats.conversionRate}%` },
-      { 'Metric': 'Total Value', 'Value': `$${stats.totalValue.toLocaleString()}` },
-      { 'Metric': 'Average Value', 'Value': `$${stats.avgValue.toLocaleString()}` },
+      { 'Metric': 'Total Value', 'Value': formatDealValue(stats.totalValue, stats.currency) },
+      { 'Metric': 'Average Value', 'Value': formatDealValue(stats.avgValue, stats.currency) },
       { 'Metric': 'Active Opportunities', 'Value': statusDist.qualified + statusDist.proposal + statusDist.negotiation }
     ];
 
@@ -163,7 +170,7 @@ export function LeadsReport({ orgId, dateRange }: LeadsReportProps) {
         <div className="bg-white rounded-xl shadow-md border border-slate-200 p-6">
           <div className="flex items-center justify-between mb-2">
             <DollarSign className="w-8 h-8 text-purple-600" />
-            <span className="text-2xl font-bold text-slate-800">${stats.totalValue.toLocaleString()}</span>
+            <span className="text-2xl font-bold text-slate-800">{formatDealValue(stats.totalValue, stats.currency)}</span>
           </div>
           <h3 className="text-slate-600 text-sm font-medium">Total Value</h3>
         </div>
@@ -229,7 +236,7 @@ export function LeadsReport({ orgId, dateRange }: LeadsReportProps) {
           <div className="space-y-4">
             <div className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
               <span className="text-slate-600 font-medium">Average Lead Value</span>
-              <span className="text-xl font-bold text-slate-800">${stats.avgValue.toLocaleString()}</span>
+              <span className="text-xl font-bold text-slate-800">{formatDealValue(stats.avgValue, stats.currency)}</span>
             </div>
             <div className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
               <span className="text-slate-600 font-medium">Active Opportunities</span>
@@ -244,6 +251,8 @@ export function LeadsReport({ orgId, dateRange }: LeadsReportProps) {
           </div>
         </div>
       </div>
+
+      <LeadForecastReport orgId={orgId} />
     </div>
   );
 }
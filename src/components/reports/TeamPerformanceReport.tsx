@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react';
-import { Users, TrendingUp, Activity, Award } from 'lucide-react';
+import { Users, TrendingUp, Activity, Award, Route } from 'lucide-react';
 import { supabase } from '../../lib/supabase/client';
+import { VisitPlanService } from '../../lib/visits/visit-plan-service';
+import { toDateKey } from '../../lib/visits/visit-plan-utils';
+import type { VisitAdherence } from '../../lib/visits/types';
 
 interface TeamPerformanceReportProps {
   orgId: string;
@@ -11,6 +14,7 @@ interface TeamPerformanceReportProps {
 
 export function TeamPerformanceReport({ orgId, dateRange }: TeamPerformanceReportProps) {
   const [teamMembers, setTeamMembers] = useState<any[]>([]);
+  const [visitAdherence, setVisitAdherence] = useState<VisitAdherence[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -59,6 +63,7 @@ export function TeamPerformanceReport({ orgId, dateRange }: TeamPerformanceRepor
       });
 
       setTeamMembers(enrichedData);
+      setVisitAdherence(await VisitPlanService.getAdherence(orgId, toDateKey(dateFilter), toDateKey(new Date())));
     } catch (error) {
       console.error('Error loading team performance report:', error);
     } finally {
@@ -203,6 +208,64 @@ export function TeamPerformanceReport({ orgId, dateRange }: TeamPerformanceRepor
           </table>
         </div>
       </div>
+
+      {visitAdherence.length > 0 && (
+        <div className="bg-white rounded-xl shadow-md border border-slate-200 overflow-hidden">
+          <div className="p-6 border-b border-slate-200">
+            <h3 className="flex items-center gap-2 text-lg font-semibold text-slate-800">
+              <Route className="w-5 h-5 text-[#015324]" />
+              Visit Plan Adherence
+            </h3>
+            <p className="text-sm text-slate-500 mt-1">Planned visits due in this period against submissions and check-ins</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-slate-50 border-b border-slate-200">
+                <tr>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-700">User</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-700">Planned</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-700">On Plan</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-700">Other Day</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-700">Missed</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-700">Checked In</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-700">Adherence</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {visitAdherence.map((row) => (
+                  <tr key={row.agent_id} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4 font-medium text-slate-800">{row.agent_name}</td>
+                    <td className="px-6 py-4 text-slate-700 font-medium">{row.planned}</td>
+                    <td className="px-6 py-4 text-emerald-700 font-medium">{row.completed}</td>
+                    <td className="px-6 py-4 text-amber-700 font-medium">{row.off_day}</td>
+                    <td className="px-6 py-4 text-red-700 font-medium">{row.missed}</td>
+                    <td className="px-6 py-4 text-slate-700">
+                      {row.checked_in_days}/{row.planned_days} days
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-3">
+                        <div className="w-32 h-3 bg-slate-100 rounded-full overflow-hidden">
+                          <div
+                            className={`h-full rounded-full ${
+                              row.adherence_rate >= 80
+                                ? 'bg-emerald-500'
+                                : row.adherence_rate >= 60
+                                ? 'bg-amber-500'
+                                : 'bg-red-500'
+                            }`}
+                            style={{ width: `${row.adherence_rate}%` }}
+                          />
+                        </div>
+                        <span className="text-sm font-semibold text-slate-700">{row.adherence_rate}%</span>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -16,6 +16,7 @@ import {
   AlertCircle,
   Flame,
   Timer,
+  Gauge,
 } from 'lucide-react';
 
 interface AdminSettingsProps {
@@ -173,6 +174,15 @@ export function AdminSettings({ onNavigate }: AdminSettingsProps) {
           color: 'text-orange-600',
           bgColor: 'bg-orange-50'
         },
+        {
+          id: 'lead_scoring',
+          label: 'Lead Scoring',
+          description: 'Set the rules that score leads and assign ranks automatically',
+          icon: Gauge,
+          action: 'lead_scoring',
+          color: 'text-emerald-600',
+          bgColor: 'bg-emerald-50'
+        },
         {
           id: 'issue_statuses',
           label: 'Issue Statuses',
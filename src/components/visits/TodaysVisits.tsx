@@ -0,0 +1,68 @@
+import { CheckCircle2, Circle, MapPin, Route } from 'lucide-react';
+import type { TodayVisit } from '../../lib/visits/types';
+
+interface TodaysVisitsProps {
+  visits: TodayVisit[];
+  onStartForm: (visit: TodayVisit, formId: string) => void;
+}
+
+export function TodaysVisits({ visits, onStartForm }: TodaysVisitsProps) {
+  const doneCount = visits.filter(v => v.forms.every(f => v.completed_form_ids.includes(f.id))).length;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border-2 border-slate-200 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="flex items-center gap-2 text-sm font-bold text-slate-800">
+          <Route className="w-4 h-4 text-[#015324]" />
+          Today's Visits
+        </h3>
+        <span className="text-xs font-medium text-slate-500">{doneCount}/{visits.length} done</span>
+      </div>
+
+      <div className="space-y-2">
+        {visits.map(visit => {
+          const done = visit.forms.every(f => visit.completed_form_ids.includes(f.id));
+          return (
+            <div
+              key={visit.stop.id}
+              className={`rounded-lg border px-4 py-3 ${done ? 'bg-green-50 border-green-200' : 'bg-slate-50 border-slate-200'}`}
+            >
+              <div className="flex items-center gap-2">
+                <MapPin className={`w-4 h-4 flex-shrink-0 ${done ? 'text-green-600' : 'text-slate-500'}`} />
+                <p className="text-sm font-semibold text-slate-800 truncate">
+                  {visit.stop.customer?.customer_name || 'Customer'}
+                  {visit.stop.customer?.customer_code && (
+                    <span className="text-slate-500 font-normal"> · {visit.stop.customer.customer_code}</span>
+                  )}
+                </p>
+              </div>
+              {visit.stop.notes && (
+                <p className="text-xs text-slate-600 mt-1 ml-6">{visit.stop.notes}</p>
+              )}
+              <div className="flex flex-wrap gap-2 mt-2 ml-6">
+                {visit.forms.map(form => {
+                  const completed = visit.completed_form_ids.includes(form.id);
+                  return (
+                    <button
+                      key={form.id}
+                      onClick={() => onStartForm(visit, form.id)}
+                      disabled={completed}
+                      className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                        completed
+                          ? 'bg-green-100 text-green-700 cursor-default'
+                          : 'bg-[#015324] text-white hover:bg-[#014a20]'
+                      }`}
+                    >
+                      {completed ? <CheckCircle2 className="w-3.5 h-3.5" /> : <Circle className="w-3.5 h-3.5" />}
+                      {form.title}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+import { useEffect, useState } from 'react';
+import { Plus, Route, Save, Trash2, X } from 'lucide-react';
+import { VisitPlanService } from '../../lib/visits/visit-plan-service';
+import { getPlanDates, getPlanEndDate, toDateKey, validateVisitPlan } from '../../lib/visits/visit-plan-utils';
+import type {
+  PlannableCustomer,
+  VisitPlan,
+  VisitPlanInput,
+  VisitPlanPeriod,
+  VisitPlanStopInput
+} from '../../lib/visits/types';
+import { supabase } from '../../lib/supabase/client';
+import { useToast } from '../../contexts/ToastContext';
+
+interface VisitPlanEditorProps {
+  orgId: string;
+  plan: VisitPlan | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+interface AgentOption {
+  id: string;
+  full_name: string;
+}
+
+export function VisitPlanEditor({ orgId, plan, onClose, onSaved }: VisitPlanEditorProps) {
+  const { showSuccess, showError, showWarning } = useToast();
+  const [agents, setAgents] = useState<AgentOption[]>([]);
+  const [customers, setCustomers] = useState<PlannableCustomer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [details, setDetails] = useState<VisitPlanInput>(() => {
+    const startDate = plan?.start_date || toDateKey(new Date());
+    return {
+      agent_id: plan?.agent_id || '',
+      name: plan?.name || '',
+      period: plan?.period || 'weekly',
+      start_date: startDate,
+      end_date: plan?.end_date || getPlanEndDate(startDate, 'weekly'),
+      notes: plan?.notes || ''
+    };
+  });
+  const [stops, setStops] = useState<VisitPlanStopInput[]>([]);
+
+  useEffect(() => {
+    loadData();
+  }, [plan?.id]);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [{ data: users }, plannable, existingStops] = await Promise.all([
+        supabase
+          .from('users')
+          .select('id, full_name')
+          .eq('org_id', orgId)
+          .eq('status', 'active')
+          .order('full_name'),
+        VisitPlanService.getPlannableCustomers(),
+        plan ? VisitPlanService.getPlanStops(plan.id) : Promise.resolve([])
+      ]);
+
+      setAgents((users || []) as AgentOption[]);
+      setCustomers(plannable);
+      setStops(existingStops.map(stop => ({
+        customer_id: stop.customer_id,
+        target_date: stop.target_date,
+        form_ids: stop.form_ids,
+        notes: stop.notes
+      })));
+    } catch (error) {
+      console.error('Error loading visit plan editor:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateSchedule = (startDate: string, period: VisitPlanPeriod) => {
+    setDetails({ ...details, start_date: startDate, period, end_date: getPlanEndDate(startDate, period) });
+  };
+
+  const updateStop = (index: number, updates: Partial<VisitPlanStopInput>) => {
+    setStops(stops.map((stop, i) => i === index ? { ...stop, ...updates } : stop));
+  };
+
+  const selectCustomer = (index: number, customerId: string) => {
+    // Default to every form attached to the customer; the planner can untick extras
+    const customer = customers.find(c => c.id === customerId);
+    updateStop(index, { customer_id: customerId, form_ids: customer?.forms.map(f => f.id) || [] });
+  };
+
+  const toggleForm = (index: number, formId: string) => {
+    const formIds = stops[index].form_ids;
+    updateStop(index, {
+      form_ids: formIds.includes(formId) ? formIds.filter(id => id !== formId) : [...formIds, formId]
+    });
+  };
+
+  const addStop = () => {
+    const lastDate = stops[stops.length - 1]?.target_date;
+    setStops([...stops, { customer_id: '', target_date: lastDate || details.start_date, form_ids: [] }]);
+  };
+
+  const handleSave = async () => {
+    const problem = validateVisitPlan(details, stops);
+    if (problem) {
+      showWarning('Incomplete Plan', problem);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await VisitPlanService.savePlan(orgId, details, stops, plan?.id);
+      if (!result.success) {
+        showError('Save Failed', result.error || 'Failed to save visit plan');
+        return;
+      }
+
+      showSuccess('Plan Saved', `${details.name} has been saved`);
+      onSaved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const planDates = getPlanDates(details);
+  const inputClass = "w-full px-3 py-2.5 text-sm bg-white border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-[#015324]/20 focus:border-[#015324] transition-all duration-200";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl w-full max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-[#015324]/10 flex items-center justify-center">
+              <Route className="w-5 h-5 text-[#015324]" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-800">{plan ? 'Edit Visit Plan' : 'New Visit Plan'}</h2>
+              <p className="text-sm text-slate-500">Schedule which customers an agent visits and what they fill in</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="w-10 h-10 border-4 border-[#015324] border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-2">Agent *</label>
+                <select
+                  value={details.agent_id}
+                  onChange={(e) => setDetails({ ...details, agent_id: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Select agent</option>
+                  {agents.map(agent => (
+                    <option key={agent.id} value={agent.id}>{agent.full_name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-2">Plan Name *</label>
+                <input
+                  type="text"
+                  value={details.name}
+                  onChange={(e) => setDetails({ ...details, name: e.target.value })}
+                  className={inputClass}
+                  placeholder="e.g., Week 12 - Northern Route"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-2">Period</label>
+                <select
+                  value={details.period}
+                  onChange={(e) => updateSchedule(details.start_date, e.target.value as VisitPlanPeriod)}
+                  className={inputClass}
+                >
+                  <option value="weekly">Weekly</option>
+                  <option value="monthly">Monthly</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-2">Starts</label>
+                <input
+                  type="date"
+                  value={details.start_date}
+                  onChange={(e) => e.target.value && updateSchedule(e.target.value, details.period)}
+                  className={inputClass}
+                />
+                <p className="text-xs text-slate-500 mt-1">
+                  Runs until {new Date(`${details.end_date}T00:00:00`).toLocaleDateString()}
+                </p>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-semibold text-slate-700">Visits ({stops.length})</h3>
+                {customers.length === 0 && (
+                  <p className="text-xs text-amber-700">Attach forms to customers first to plan visits</p>
+                )}
+              </div>
+
+              <div className="space-y-3">
+                {stops.map((stop, index) => {
+                  const customer = customers.find(c => c.id === stop.customer_id);
+                  return (
+                    <div key={index} className="bg-slate-50 rounded-xl p-4 border border-slate-200 space-y-3">
+                      <div className="flex items-start gap-3">
+                        <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-3">
+                          <select
+                            value={stop.target_date}
+                            onChange={(e) => updateStop(index, { target_date: e.target.value })}
+                            className={inputClass}
+                          >
+                            {!planDates.includes(stop.target_date) && (
+                              <option value={stop.target_date}>Outside plan dates</option>
+                            )}
+                            {planDates.map(date => (
+                              <option key={date} value={date}>
+                                {new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })}
+                              </option>
+                            ))}
+                          </select>
+                          <select
+                            value={stop.customer_id}
+                            onChange={(e) => selectCustomer(index, e.target.value)}
+                            className={inputClass}
+                          >
+                            <option value="">Select customer</option>
+                            {customers.map(c => (
+                              <option key={c.id} value={c.id}>
+                                {c.customer_name}{c.customer_code ? ` (${c.customer_code})` : ''}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => setStops(stops.filter((_, i) => i !== index))}
+                          className="p-2 text-red-600 hover:bg-red-100 rounded-xl transition-all duration-200"
+                          title="Remove visit"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+
+                      {customer && (
+                        <div className="flex flex-wrap gap-2">
+                          {customer.forms.map(form => (
+                            <label
+                              key={form.id}
+                              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-sm cursor-pointer transition-colors ${
+                                stop.form_ids.includes(form.id)
+                                  ? 'bg-[#015324]/10 border-[#015324]/30 text-[#015324]'
+                                  : 'bg-white border-slate-200 text-slate-600'
+                              }`}
+                            >
+                              <input
+                                type="checkbox"
+                                checked={stop.form_ids.includes(form.id)}
+                                onChange={() => toggleForm(index, form.id)}
+                                className="w-4 h-4 text-[#015324] rounded focus:ring-[#015324]"
+                              />
+                              {form.title}
+                            </label>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <button
+                type="button"
+                onClick={addStop}
+                className="mt-3 flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-[#015324] bg-[#015324]/5 hover:bg-[#015324]/10 rounded-xl transition-all duration-200 w-full justify-center border-2 border-dashed border-[#015324]/30"
+              >
+                <Plus className="w-4 h-4" />
+                Add Visit
+              </button>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-2">Notes</label>
+              <textarea
+                value={details.notes || ''}
+                onChange={(e) => setDetails({ ...details, notes: e.target.value })}
+                rows={2}
+                className={inputClass}
+                placeholder="Instructions for the agent"
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-3 p-6 border-t border-slate-200">
+          <button
+            onClick={onClose}
+            disabled={saving}
+            className="flex-1 px-6 py-3 border-2 border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors font-medium disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || loading}
+            className="flex-1 px-6 py-3 bg-[#015324] text-white rounded-lg hover:bg-[#014a20] transition-colors font-medium disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            <Save className="w-5 h-5" />
+            {saving ? 'Saving...' : 'Save Plan'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
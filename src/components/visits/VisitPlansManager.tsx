@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react';
+import { Archive, ArchiveRestore, CalendarDays, Pencil, Plus, Trash2 } from 'lucide-react';
+import { VisitPlanEditor } from './VisitPlanEditor';
+import { VisitPlanService } from '../../lib/visits/visit-plan-service';
+import { toDateKey } from '../../lib/visits/visit-plan-utils';
+import type { VisitPlan } from '../../lib/visits/types';
+import { useToast } from '../../contexts/ToastContext';
+
+interface VisitPlansManagerProps {
+  orgId: string;
+}
+
+export function VisitPlansManager({ orgId }: VisitPlansManagerProps) {
+  const { showSuccess, showError, confirm } = useToast();
+  const [plans, setPlans] = useState<VisitPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showArchived, setShowArchived] = useState(false);
+  const [editing, setEditing] = useState<VisitPlan | 'new' | null>(null);
+
+  useEffect(() => {
+    loadPlans();
+  }, [orgId]);
+
+  const loadPlans = async () => {
+    setLoading(true);
+    try {
+      setPlans(await VisitPlanService.listPlans(orgId));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (plan: VisitPlan) => {
+    if (await VisitPlanService.setPlanActive(plan.id, !plan.is_active)) {
+      showSuccess(plan.is_active ? 'Plan Archived' : 'Plan Restored', plan.name);
+      loadPlans();
+    } else {
+      showError('Update Failed', 'Unable to update the visit plan');
+    }
+  };
+
+  const handleDelete = async (plan: VisitPlan) => {
+    const confirmed = await confirm('Delete Plan', `Delete "${plan.name}"? Its visits will no longer appear in adherence reports.`);
+    if (!confirmed) return;
+
+    if (await VisitPlanService.deletePlan(plan.id)) {
+      showSuccess('Plan Deleted', plan.name);
+      loadPlans();
+    } else {
+      showError('Delete Failed', 'Unable to delete the visit plan');
+    }
+  };
+
+  const today = toDateKey(new Date());
+  const visiblePlans = plans.filter(p => showArchived || p.is_active);
+
+  const getPlanState = (plan: VisitPlan) => {
+    if (!plan.is_active) return { label: 'Archived', className: 'bg-slate-100 text-slate-600' };
+    if (plan.end_date < today) return { label: 'Ended', className: 'bg-slate-100 text-slate-700' };
+    if (plan.start_date > today) return { label: 'Scheduled', className: 'bg-blue-100 text-blue-700' };
+    return { label: 'In progress', className: 'bg-green-100 text-green-700' };
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showArchived}
+            onChange={(e) => setShowArchived(e.target.checked)}
+            className="w-4 h-4 text-[#015324] rounded focus:ring-[#015324]"
+          />
+          Show archived plans
+        </label>
+        <button
+          onClick={() => setEditing('new')}
+          className="flex items-center gap-2 px-4 py-2 bg-[#015324] text-white text-sm font-medium rounded-lg hover:bg-[#014a20] transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          New Plan
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="w-10 h-10 border-4 border-[#015324] border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : visiblePlans.length === 0 ? (
+        <div className="text-center py-12 bg-slate-50 rounded-xl border border-slate-200">
+          <CalendarDays className="w-12 h-12 text-slate-300 mx-auto mb-3" />
+          <p className="text-slate-600 font-medium">No visit plans yet</p>
+          <p className="text-sm text-slate-500 mt-1">Plan which customers each agent visits and when</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto border border-slate-200 rounded-xl">
+          <table className="w-full">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-slate-600 uppercase">Plan</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-slate-600 uppercase">Agent</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-slate-600 uppercase">Dates</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-slate-600 uppercase">Visits</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-slate-600 uppercase">Status</th>
+                <th className="px-4 py-3 text-right text-xs font-semibold text-slate-600 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {visiblePlans.map(plan => {
+                const state = getPlanState(plan);
+                return (
+                  <tr key={plan.id} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-4 py-3">
+                      <p className="text-sm font-medium text-slate-800">{plan.name}</p>
+                      <p className="text-xs text-slate-500 capitalize">{plan.period}</p>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-slate-700">{plan.agent?.full_name || '—'}</td>
+                    <td className="px-4 py-3 text-sm text-slate-700">
+                      {new Date(`${plan.start_date}T00:00:00`).toLocaleDateString()} – {new Date(`${plan.end_date}T00:00:00`).toLocaleDateString()}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-slate-700">{plan.stop_count}</td>
+                    <td className="px-4 py-3">
+                      <span className={`inline-flex px-2.5 py-1 rounded-full text-xs font-medium ${state.className}`}>
+                        {state.label}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center justify-end gap-1">
+                        <button
+                          onClick={() => setEditing(plan)}
+                          className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                          title="Edit plan"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleToggleActive(plan)}
+                          className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                          title={plan.is_active ? 'Archive plan' : 'Restore plan'}
+                        >
+                          {plan.is_active ? <Archive className="w-4 h-4" /> : <ArchiveRestore className="w-4 h-4" />}
+                        </button>
+                        <button
+                          onClick={() => handleDelete(plan)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Delete plan"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {editing && (
+        <VisitPlanEditor
+          orgId={orgId}
+          plan={editing === 'new' ? null : editing}
+          onClose={() => setEditing(null)}
+          onSaved={() => {
+            setEditing(null);
+            loadPlans();
+          }}
+        />
+      )}
+    </div>
+  );
+}
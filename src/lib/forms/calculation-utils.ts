@@ -0,0 +1,388 @@
+import type { FormField } from './types';
+import { isEmptyValue, resolveFieldLogic } from './field-logic-utils';
+
+type FormulaNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'ref'; fieldId: string }
+  | { kind: 'negate'; operand: FormulaNode }
+  | { kind: 'binary'; op: '+' | '-' | '*' | '/'; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: FormulaFunction; args: FormulaNode[] };
+
+type FormulaFunction = 'SUM' | 'AVG' | 'MIN' | 'MAX' | 'ROUND' | 'PERCENT';
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'ref'; value: string }
+  | { type: 'ident'; value: string }
+  | { type: 'symbol'; value: string };
+
+export const FORMULA_FUNCTIONS: { name: FormulaFunction; description: string }[] = [
+  { name: 'SUM', description: 'Adds values, skipping blanks' },
+  { name: 'AVG', description: 'Average of the answered values' },
+  { name: 'MIN', description: 'Smallest answered value' },
+  { name: 'MAX', description: 'Largest answered value' },
+  { name: 'ROUND', description: 'ROUND(value, decimals)' },
+  { name: 'PERCENT', description: 'Scored answers as a percentage of their maximum weights; unscored answers are left out' }
+];
+
+const SCORABLE_TYPES: FormField['type'][] = ['number', 'select', 'radio', 'multiselect', 'checkbox', 'calculated'];
+
+export function isScorableField(field: FormField): boolean {
+  return SCORABLE_TYPES.includes(field.type);
+}
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < formula.length) {
+    const char = formula[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '{') {
+      const end = formula.indexOf('}', i);
+      if (end === -1) throw new Error('Unclosed field reference');
+      tokens.push({ type: 'ref', value: formula.slice(i + 1, end).trim() });
+      i = end + 1;
+    } else if (/[0-9.]/.test(char)) {
+      const match = formula.slice(i).match(/^\d*\.?\d+/);
+      if (!match) throw new Error(`Unexpected "${char}"`);
+      tokens.push({ type: 'number', value: parseFloat(match[0]) });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = formula.slice(i).match(/^[A-Za-z_]+/)!;
+      tokens.push({ type: 'ident', value: match[0].toUpperCase() });
+      i += match[0].length;
+    } else if ('+-*/(),'.includes(char)) {
+      tokens.push({ type: 'symbol', value: char });
+      i++;
+    } else {
+      throw new Error(`Unexpected "${char}"`);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parses a formula such as `PERCENT({field_1}, {field_2})` or
+ * `({field_a} + {field_b}) / 2` into a tree. Only arithmetic, field
+ * references and the functions in FORMULA_FUNCTIONS are accepted; nothing
+ * is ever handed to `eval`.
+ */
+export function parseFormula(formula: string): FormulaNode {
+  const tokens = tokenize(formula);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isSymbol = (value: string) => peek()?.type === 'symbol' && peek()?.value === value;
+  const expectSymbol = (value: string) => {
+    if (!isSymbol(value)) throw new Error(`Expected "${value}"`);
+    position++;
+  };
+
+  const parseExpression = (): FormulaNode => {
+    let node = parseTerm();
+    while (isSymbol('+') || isSymbol('-')) {
+      const op = tokens[position++].value as '+' | '-';
+      node = { kind: 'binary', op, left: node, right: parseTerm() };
+    }
+    return node;
+  };
+
+  const parseTerm = (): FormulaNode => {
+    let node = parseFactor();
+    while (isSymbol('*') || isSymbol('/')) {
+      const op = tokens[position++].value as '*' | '/';
+      node = { kind: 'binary', op, left: node, right: parseFactor() };
+    }
+    return node;
+  };
+
+  const parseFactor = (): FormulaNode => {
+    const token = peek();
+    if (!token) throw new Error('Formula ends unexpectedly');
+
+    if (isSymbol('-')) {
+      position++;
+      return { kind: 'negate', operand: parseFactor() };
+    }
+    if (isSymbol('(')) {
+      position++;
+      const node = parseExpression();
+      expectSymbol(')');
+      return node;
+    }
+
+    position++;
+    if (token.type === 'number') return { kind: 'number', value: token.value };
+    if (token.type === 'ref') return { kind: 'ref', fieldId: token.value };
+    if (token.type === 'ident') {
+      if (!FORMULA_FUNCTIONS.some(f => f.name === token.value)) {
+        throw new Error(`Unknown function ${token.value}`);
+      }
+      const name = token.value as FormulaFunction;
+      expectSymbol('(');
+      const args: FormulaNode[] = [];
+      if (!isSymbol(')')) {
+        args.push(parseExpression());
+        while (isSymbol(',')) {
+          position++;
+          args.push(parseExpression());
+        }
+      }
+      expectSymbol(')');
+
+      if (args.length === 0) throw new Error(`${name} needs at least one value`);
+      if (name === 'PERCENT' && args.some(a => a.kind !== 'ref')) {
+        throw new Error('PERCENT only accepts field references');
+      }
+      return { kind: 'call', name, args };
+    }
+
+    throw new Error(`Unexpected "${token.value}"`);
+  };
+
+  const root = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position].value}"`);
+  }
+  return root;
+}
+
+function collectReferences(node: FormulaNode, refs: Set<string>): void {
+  switch (node.kind) {
+    case 'ref':
+      refs.add(node.fieldId);
+      break;
+    case 'negate':
+      collectReferences(node.operand, refs);
+      break;
+    case 'binary':
+      collectReferences(node.left, refs);
+      collectReferences(node.right, refs);
+      break;
+    case 'call':
+      node.args.forEach(arg => collectReferences(arg, refs));
+      break;
+  }
+}
+
+export function getFormulaReferences(formula: string): string[] {
+  try {
+    const refs = new Set<string>();
+    collectReferences(parseFormula(formula), refs);
+    return [...refs];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Checks a formula for the builder. `availableFields` are the fields that
+ * come before the calculated field, since values are computed in display
+ * order. Returns an error message, or null when the formula is usable.
+ */
+export function validateFormula(formula: string, availableFields: FormField[]): string | null {
+  if (!formula.trim()) return 'Enter a formula';
+
+  try {
+    const refs = new Set<string>();
+    collectReferences(parseFormula(formula), refs);
+
+    for (const ref of refs) {
+      const field = availableFields.find(f => f.id === ref);
+      if (!field) return `{${ref}} is not an earlier field on this form`;
+      if (!isScorableField(field)) return `${field.label || ref} does not produce a number`;
+    }
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid formula';
+  }
+}
+
+/**
+ * The numeric value a field contributes to a formula. Choice fields use the
+ * per-option weights when set (falling back to a numeric option label), and
+ * multiple selections add their weights together. Blank answers and options
+ * without a weight yield null.
+ */
+export function getFieldScore(field: FormField, value: unknown): number | null {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (isEmptyValue(value)) return null;
+
+  const scoreOption = (option: string): number | null => {
+    const weight = field.optionScores?.[option];
+    if (typeof weight === 'number') return weight;
+    const numeric = parseFloat(option);
+    return isNaN(numeric) ? null : numeric;
+  };
+
+  if (Array.isArray(value)) {
+    const scores = value.map(v => scoreOption(String(v))).filter((s): s is number => s !== null);
+    return scores.length > 0 ? scores.reduce((sum, s) => sum + s, 0) : null;
+  }
+
+  if (field.type === 'select' || field.type === 'radio') {
+    return scoreOption(String(value));
+  }
+
+  const numeric = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(numeric) ? null : numeric;
+}
+
+/** The best score a field can contribute, used as the PERCENT denominator. */
+export function getFieldMaxScore(field: FormField): number | null {
+  if (field.type === 'checkbox' && !field.options?.length) return 1;
+
+  if (field.options?.length) {
+    const weights = field.options
+      .map(option => getFieldScore({ ...field, type: 'select' }, option))
+      .filter((s): s is number => s !== null);
+    if (weights.length === 0) return null;
+
+    return field.type === 'multiselect' || field.type === 'checkbox'
+      ? weights.filter(w => w > 0).reduce((sum, w) => sum + w, 0)
+      : Math.max(...weights);
+  }
+
+  if (field.type === 'number' && field.validation?.max !== undefined) {
+    return field.validation.max;
+  }
+  if (field.type === 'calculated' && field.calculation?.format === 'percent') {
+    return 100;
+  }
+  return null;
+}
+
+function evaluateNode(
+  node: FormulaNode,
+  resolve: (fieldId: string) => { field: FormField; score: number | null } | null
+): number | null {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+
+    case 'ref':
+      return resolve(node.fieldId)?.score ?? null;
+
+    case 'negate': {
+      const value = evaluateNode(node.operand, resolve);
+      return value === null ? null : -value;
+    }
+
+    case 'binary': {
+      const left = evaluateNode(node.left, resolve);
+      const right = evaluateNode(node.right, resolve);
+      if (left === null && right === null) return null;
+      const l = left ?? 0;
+      const r = right ?? 0;
+      switch (node.op) {
+        case '+': return l + r;
+        case '-': return l - r;
+        case '*': return l * r;
+        case '/': return r === 0 ? null : l / r;
+      }
+      return null;
+    }
+
+    case 'call': {
+      if (node.name === 'PERCENT') {
+        let total = 0;
+        let max = 0;
+        node.args.forEach(arg => {
+          if (arg.kind !== 'ref') return;
+          const resolved = resolve(arg.fieldId);
+          const fieldMax = resolved ? getFieldMaxScore(resolved.field) : null;
+          if (!resolved || resolved.score === null || fieldMax === null) return;
+          total += resolved.score;
+          max += fieldMax;
+        });
+        return max === 0 ? null : (total / max) * 100;
+      }
+
+      if (node.name === 'ROUND') {
+        const value = evaluateNode(node.args[0], resolve);
+        const decimals = node.args[1] ? evaluateNode(node.args[1], resolve) ?? 0 : 0;
+        if (value === null) return null;
+        const factor = Math.pow(10, Math.max(0, Math.round(decimals)));
+        return Math.round(value * factor) / factor;
+      }
+
+      const values = node.args
+        .map(arg => evaluateNode(arg, resolve))
+        .filter((v): v is number => v !== null);
+      if (values.length === 0) return null;
+
+      switch (node.name) {
+        case 'SUM': return values.reduce((sum, v) => sum + v, 0);
+        case 'AVG': return values.reduce((sum, v) => sum + v, 0) / values.length;
+        case 'MIN': return Math.min(...values);
+        case 'MAX': return Math.max(...values);
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Computes every visible calculated field in display order, so a
+ * calculation can build on an earlier one. Hidden fields count as blank.
+ * Fields whose formula is invalid or has nothing to work with are omitted.
+ */
+export function computeCalculatedFields(schema: FormField[], data: Record<string, unknown>): Record<string, number> {
+  const calculatedIds = new Set(schema.filter(f => f.type === 'calculated').map(f => f.id));
+  if (calculatedIds.size === 0) return {};
+
+  const values: Record<string, unknown> = Object.fromEntries(
+    Object.entries(data).filter(([key]) => !calculatedIds.has(key))
+  );
+  const { visible } = resolveFieldLogic(schema, values);
+  const fieldsById = new Map(schema.map(f => [f.id, f]));
+  const results: Record<string, number> = {};
+
+  const resolve = (fieldId: string) => {
+    const field = fieldsById.get(fieldId);
+    if (!field) return null;
+    return { field, score: visible.has(fieldId) ? getFieldScore(field, values[fieldId]) : null };
+  };
+
+  [...schema]
+    .sort((a, b) => a.order - b.order)
+    .forEach(field => {
+      if (field.type !== 'calculated' || !field.calculation?.formula || !visible.has(field.id)) return;
+
+      let result: number | null;
+      try {
+        result = evaluateNode(parseFormula(field.calculation.formula), resolve);
+      } catch {
+        return;
+      }
+      if (result === null || !isFinite(result)) return;
+
+      const factor = Math.pow(10, field.calculation.decimals ?? 2);
+      results[field.id] = Math.round(result * factor) / factor;
+      values[field.id] = results[field.id];
+    });
+
+  return results;
+}
+
+/** Returns the submission data with calculated values refreshed. */
+export function applyCalculatedFields(schema: FormField[], data: Record<string, unknown>): Record<string, unknown> {
+  const calculatedIds = new Set(schema.filter(f => f.type === 'calculated').map(f => f.id));
+  if (calculatedIds.size === 0) return data;
+
+  const base = Object.fromEntries(Object.entries(data).filter(([key]) => !calculatedIds.has(key)));
+  return { ...base, ...computeCalculatedFields(schema, data) };
+}
+
+export function formatCalculatedValue(field: FormField, value: unknown): string {
+  if (isEmptyValue(value)) return '—';
+  const numeric = typeof value === 'number' ? value : parseFloat(String(value));
+  if (isNaN(numeric)) return String(value);
+
+  const formatted = numeric.toLocaleString(undefined, { maximumFractionDigits: field.calculation?.decimals ?? 2 });
+  return field.calculation?.format === 'percent' ? `${formatted}%` : formatted;
+}
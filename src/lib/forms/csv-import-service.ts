@@ -1,4 +1,7 @@
 import { supabase } from '../supabase/client';
+import { findMissingRequiredField, pruneHiddenFields } from './field-logic-utils';
+import { IMPORT_SYSTEM_COLUMNS, coerceFieldValue, getImportableFields } from './import-mapping-utils';
+import type { Form, FormField, FormImportMapping, FormImportPreset, ImportSystemColumn } from './types';
 
 export interface CSVRow {
   [key: string]: string;
@@ -26,61 +29,24 @@ export interface ProgressUpdate {
   message: string;
 }
 
+export interface PreviewRow {
+  row: number;
+  agent_code: string;
+  cycle_number: number;
+  supervisor_code: string;
+  submission_data: Record<string, unknown>;
+  status: string;
+  errors: string[];
+}
+
 export interface PreviewData {
   headers: string[];
-  rows: CSVRow[];
-  mappedRows: Array<{
-    agent_code: string;
-    cycle_number: number;
-    supervisor_code: string;
-    submission_data: any;
-    status: string;
-  }>;
+  totalRows: number;
+  validCount: number;
+  mappedRows: PreviewRow[];
+  invalidRows: PreviewRow[];
 }
 
-const FIELD_MAPPING: { [key: string]: string } = {
-  'Paper rolls delivered?': 'field_1767077946750',
-  'Transaction registers delivered': 'field_1767083181197',
-  'Posters delivered': 'field_1767083181749',
-  'Light branding delivered': 'field_1767083182261',
-  'Normal Supervision': 'field_1767083182973',
-  'Engagement Report': 'field_1767083182645',
-  'Agent Active?': 'field_1767083183310',
-  'Outlet Open?': 'field_1767083183678',
-  'Agent At Same Location': 'field_1767083184006',
-  'Handlers Name': 'field_1767083184286',
-  'Handlers Contact': 'field_1767083184573',
-  'Has ABS Board': 'field_1767083184879',
-  'Has Agent Number Sticker': 'field_1767083185190',
-  'Has Agent Helpline number': 'field_1767083185573',
-  'Has Tarriff guide': 'field_1767083185965',
-  'Are records well maintained': 'field_1767083186470',
-  'Is the Transaction register signed': 'field_1767083186893',
-  'POS statement and transactions matching': 'field_1767083187309',
-  'Devices available and working': 'field_1767083187654',
-  'Operator well Trained': 'field_1767083188062',
-  'Customer Information handled securely': 'field_1767083188526',
-  'Recorded as per bank regulations': 'field_1767083188957',
-  'Is NIN recorded': 'field_1767083189485',
-  'Has Valid Trading License': 'field_1767083190109',
-  'Unresolved claims': 'field_1767083190702',
-  'Is Outlet clean & secure': 'field_1767083194046',
-  'Agent has regulatory posters': 'field_1767083194629',
-  'Agent has receipt rolls': 'field_1767083195253',
-  'Agent has a transaction register': 'field_1767083196013',
-  'Date of POS Last Transaction': 'field_1767083197878',
-  'Date of Registor Book Last Transaction': 'field_1767083200327',
-  'Agent business location': 'field_1770163307666',
-  'Gender of operator': 'field_1770163309609',
-  'Received a Naaki Copy?': 'field_1770160606623',
-  'Rate of the Comic Book': 'field_1770160610531',
-  'How often to receive a copy of Naaki': 'field_1770160735058',
-  'Content You want to see In Naaki?': 'field_1770160736700',
-  'Have PDP Certificate?': 'field_1770160737730'
-};
-
-const FORM_ID = 'd27d1417-92fe-4fca-aa9f-94fabc879688';
-
 export class CSVImportService {
   static parseCSV(csvText: string): CSVRow[] {
     const lines = csvText.split('\n').filter(line => line.trim());
@@ -130,22 +96,28 @@ export class CSVImportService {
     return result;
   }
 
-  static validateCSV(rows: CSVRow[]): { valid: boolean; errors: string[] } {
+  static validateCSV(rows: CSVRow[], mapping: FormImportMapping): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
     if (rows.length === 0) {
       errors.push('CSV file is empty');
       return { valid: false, errors };
     }
 
-    const requiredColumns = ['Terminal ID', 'Submitted On', 'Visit', 'Emp. code'];
     const headers = Object.keys(rows[0]);
 
-    requiredColumns.forEach(col => {
-      if (!headers.includes(col)) {
-        errors.push(`Missing required column: ${col}`);
+    IMPORT_SYSTEM_COLUMNS.filter(col => col.required).forEach(col => {
+      const header = mapping.system[col.value];
+      if (!header) {
+        errors.push(`No column mapped to ${col.label}`);
+      } else if (!headers.includes(header)) {
+        errors.push(`Missing mapped column: ${header}`);
       }
     });
 
+    if (Object.keys(mapping.fields).length === 0) {
+      errors.push('Map at least one column to a form field');
+    }
+
     return { valid: errors.length === 0, errors };
   }
 
@@ -193,47 +165,59 @@ export class CSVImportService {
     return null;
   }
 
-  static buildSubmissionData(row: CSVRow): any {
-    const submissionData: any = {};
+  /**
+   * Builds the submission payload for one CSV row against the form schema.
+   * Values are coerced to what the form UI would store, answers hidden by
+   * conditional logic are dropped, and required fields are checked with the
+   * same rules as a live submission.
+   */
+  static buildSubmissionData(
+    row: CSVRow,
+    schema: FormField[],
+    mapping: FormImportMapping
+  ): { data: Record<string, unknown>; errors: string[] } {
+    const data: Record<string, unknown> = {};
+    const errors: string[] = [];
 
-    Object.entries(FIELD_MAPPING).forEach(([csvColumn, fieldId]) => {
-      let value = row[csvColumn];
+    Object.entries(mapping.fields).forEach(([header, fieldId]) => {
+      const field = schema.find(f => f.id === fieldId);
+      if (!field) return;
 
-      if (!value || value.trim() === '') {
-        return;
+      const { value, error } = coerceFieldValue(field, row[header] || '');
+      if (error) {
+        errors.push(`${field.label}: ${error}`);
+      } else if (value !== undefined) {
+        data[fieldId] = value;
       }
+    });
 
-      if (csvColumn.includes('Date of POS') || csvColumn.includes('Date of Registor')) {
-        value = this.convertDateFormat(value) || value;
-      } else if (
-        csvColumn.includes('?') ||
-        csvColumn.includes('Active') ||
-        csvColumn.includes('Open') ||
-        csvColumn.includes('Same Location') ||
-        csvColumn.includes('Normal Supervision')
-      ) {
-        value = this.normalizeRadioValue(value) || value;
-      } else if (
-        csvColumn === 'Paper rolls delivered?' ||
-        csvColumn === 'Transaction registers delivered' ||
-        csvColumn === 'Posters delivered' ||
-        csvColumn === 'Light branding delivered' ||
-        csvColumn === 'Rate of the Comic Book'
-      ) {
-        const num = parseFloat(value);
-        if (!isNaN(num)) {
-          value = num.toString();
-        }
-      }
+    const importable = getImportableFields(schema);
+    const missing = findMissingRequiredField(importable, data);
+    if (missing) {
+      errors.push(`${missing.label}: is required`);
+    }
 
-      submissionData[fieldId] = value;
-    });
+    return { data: pruneHiddenFields(importable, data), errors };
+  }
+
+  private static readSystemValues(row: CSVRow, mapping: FormImportMapping) {
+    const read = (column: ImportSystemColumn) => {
+      const header = mapping.system[column];
+      return header ? (row[header] || '').trim() : '';
+    };
 
-    if (row['Region']) submissionData['_region'] = row['Region'];
-    if (row['Branch']) submissionData['_branch'] = row['Branch'];
-    if (row['Agent Name']) submissionData['_agent_name'] = row['Agent Name'];
+    const approvedVal = read('status').toLowerCase();
+    const submittedOn = this.parseTimestamp(read('submitted_at'));
 
-    return submissionData;
+    return {
+      agentCode: read('agent_code'),
+      supervisorCode: read('supervisor_code'),
+      cycleNumber: parseInt(read('cycle_number')) || 1,
+      status: approvedVal === 'true' || approvedVal === 'yes' || approvedVal === 'approved' ? 'approved' : 'pending',
+      latitude: parseFloat(read('latitude')) || null,
+      longitude: parseFloat(read('longitude')) || null,
+      submittedOn
+    };
   }
 
   static async getAgentIdByCode(agentCode: string, orgId: string): Promise<string | null> {
@@ -304,36 +288,48 @@ export class CSVImportService {
     }
   }
 
-  static async previewImport(csvText: string, orgId: string): Promise<PreviewData> {
-    const rows = this.parseCSV(csvText);
-    const previewRows = rows.slice(0, 5);
-
-    const mappedRows = await Promise.all(
-      previewRows.map(async (row) => {
-        const agentCode = row['Terminal ID'];
-        const cycleNumber = parseInt(row['Visit']) || 1;
-        const supervisorCode = row['Emp. code'];
-        const approvedVal = row['approved']?.toLowerCase().trim();
-        const status = approvedVal === 'true' ? 'approved' : 'pending';
-
-        return {
-          agent_code: agentCode,
-          cycle_number: cycleNumber,
-          supervisor_code: supervisorCode,
-          submission_data: this.buildSubmissionData(row),
-          status
-        };
-      })
-    );
+  /**
+   * Runs every row through the mapping without touching the database, so
+   * the wizard can show sample output and all validation failures before
+   * anything is written.
+   */
+  static previewImport(rows: CSVRow[], form: Form, mapping: FormImportMapping): PreviewData {
+    const previewRows: PreviewRow[] = rows.map((row, index) => {
+      const system = this.readSystemValues(row, mapping);
+      const { data, errors } = this.buildSubmissionData(row, form.form_schema, mapping);
+      if (!system.agentCode) {
+        errors.unshift('Missing agent code');
+      }
+
+      return {
+        row: index + 2,
+        agent_code: system.agentCode,
+        cycle_number: system.cycleNumber,
+        supervisor_code: system.supervisorCode,
+        submission_data: data,
+        status: system.status,
+        errors
+      };
+    });
+
+    const invalidRows = previewRows.filter(r => r.errors.length > 0);
 
     return {
       headers: Object.keys(rows[0] || {}),
-      rows: previewRows,
-      mappedRows
+      totalRows: rows.length,
+      validCount: rows.length - invalidRows.length,
+      mappedRows: previewRows.slice(0, 5),
+      invalidRows
     };
   }
 
-  static async importCSV(csvText: string, orgId: string, onProgress?: (update: ProgressUpdate) => void): Promise<ImportResult> {
+  static async importCSV(
+    rows: CSVRow[],
+    orgId: string,
+    form: Form,
+    mapping: FormImportMapping,
+    onProgress?: (update: ProgressUpdate) => void
+  ): Promise<ImportResult> {
     const result: ImportResult = {
       success: true,
       totalRows: 0,
@@ -345,10 +341,9 @@ export class CSVImportService {
     };
 
     try {
-      const rows = this.parseCSV(csvText);
       result.totalRows = rows.length;
 
-      const validation = this.validateCSV(rows);
+      const validation = this.validateCSV(rows, mapping);
       if (!validation.valid) {
         result.success = false;
         validation.errors.forEach((error, index) => {
@@ -371,8 +366,9 @@ export class CSVImportService {
         });
       }
 
-      const agentCodes = [...new Set(rows.map(r => r['Terminal ID']).filter(Boolean))];
-      const supervisorCodes = [...new Set(rows.map(r => r['Emp. code']).filter(Boolean))];
+      const systemValues = rows.map(row => this.readSystemValues(row, mapping));
+      const agentCodes = [...new Set(systemValues.map(v => v.agentCode).filter(Boolean))];
+      const supervisorCodes = [...new Set(systemValues.map(v => v.supervisorCode).filter(Boolean))];
 
       const LOOKUP_CHUNK_SIZE = 500;
       const agentMap = new Map<string, string>();
@@ -428,7 +424,7 @@ export class CSVImportService {
         const { data } = await supabase
           .from('form_submissions')
           .select('agent_id, cycle_number, submitted_at')
-          .eq('form_id', FORM_ID)
+          .eq('form_id', form.id)
           .in('agent_id', chunk);
 
         (data || []).forEach(sub => {
@@ -451,19 +447,20 @@ export class CSVImportService {
           const row = batch[j];
 
           try {
-            const agentCode = row['Terminal ID'];
-            const cycleNumber = parseInt(row['Visit']) || 1;
-            const supervisorCode = row['Emp. code'];
-            const approvedVal = row['approved']?.toLowerCase().trim();
-            const importStatus = approvedVal === 'true' ? 'approved' : 'pending';
-            const latitude = parseFloat(row['latitude']) || null;
-            const longitude = parseFloat(row['longitude']) || null;
-            const submittedOn = this.parseTimestamp(row['Submitted On'] || row['created_at']);
-
-            if (!agentCode || !supervisorCode) {
+            const {
+              agentCode,
+              cycleNumber,
+              supervisorCode,
+              status: importStatus,
+              latitude,
+              longitude,
+              submittedOn
+            } = systemValues[i + j];
+
+            if (!agentCode) {
               result.errors.push({
                 row: rowIndex,
-                error: 'Missing Terminal ID or Emp. code',
+                error: 'Missing agent code',
                 data: { agentCode, supervisorCode }
               });
               result.errorCount++;
@@ -495,17 +492,33 @@ export class CSVImportService {
               continue;
             }
 
+            const { data: submissionData, errors: fieldErrors } = this.buildSubmissionData(
+              row,
+              form.form_schema,
+              mapping
+            );
+
+            if (fieldErrors.length > 0) {
+              result.errors.push({
+                row: rowIndex,
+                error: fieldErrors.join('; '),
+                data: row
+              });
+              result.errorCount++;
+              continue;
+            }
+
             duplicateSet.add(duplicateKey);
 
-            const submissionData = this.buildSubmissionData(row);
             const reviewNotes: string[] = [];
 
-            if (!submittedBy) {
+            if (supervisorCode && !submittedBy) {
               reviewNotes.push(`Missing mapping for supervisor code: ${supervisorCode}`);
             }
 
             recordsToInsert.push({
-              form_id: FORM_ID,
+              form_id: form.id,
+              form_version_id: form.current_version_id || null,
               agent_id: agentId,
               submission_data: submissionData,
               cycle_number: cycleNumber,
@@ -517,8 +530,8 @@ export class CSVImportService {
               status: importStatus,
               submitted_at: submittedOn || new Date().toISOString(),
               geo_captured_at: submittedOn || new Date().toISOString(),
-              submitter_supervisor_code: supervisorCode,
-              supervisor_code: supervisorCode,
+              submitter_supervisor_code: supervisorCode || null,
+              supervisor_code: supervisorCode || null,
               review_notes: reviewNotes.length > 0 ? reviewNotes.join('; ') : null
             });
           } catch (error: any) {
@@ -594,4 +607,68 @@ export class CSVImportService {
 
     return result;
   }
+
+  static async listPresets(formId: string): Promise<FormImportPreset[]> {
+    try {
+      const { data, error } = await supabase
+        .from('form_import_presets')
+        .select('*')
+        .eq('form_id', formId)
+        .order('name');
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error loading import presets:', error);
+      return [];
+    }
+  }
+
+  static async savePreset(
+    orgId: string,
+    formId: string,
+    name: string,
+    mapping: FormImportMapping
+  ): Promise<FormImportPreset | null> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { data, error } = await supabase
+        .from('form_import_presets')
+        .upsert(
+          {
+            org_id: orgId,
+            form_id: formId,
+            name,
+            mapping,
+            created_by: user?.id,
+            updated_at: new Date().toISOString()
+          },
+          { onConflict: 'form_id,name' }
+        )
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Error saving import preset:', error);
+      return null;
+    }
+  }
+
+  static async deletePreset(presetId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('form_import_presets')
+        .delete()
+        .eq('id', presetId);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error deleting import preset:', error);
+      return false;
+    }
+  }
 }
@@ -0,0 +1,190 @@
+import type { FieldCondition, FieldConditionGroup, FieldConditionOperator, FormField } from './types';
+import { getGroupEntries, getGroupLimits, getGroupSubFields, isGroupField, isSectionField } from './form-layout-utils';
+
+export function isEmptyValue(value: unknown): boolean {
+  if (value === undefined || value === null || value === false) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+function toComparable(value: unknown): string {
+  return String(value ?? '').trim().toLowerCase();
+}
+
+export function evaluateCondition(condition: FieldCondition, data: Record<string, unknown>): boolean {
+  const actual = data[condition.fieldId];
+  const expected = toComparable(condition.value);
+  const values: string[] = Array.isArray(actual)
+    ? actual.map(toComparable)
+    : typeof actual === 'boolean'
+      ? [actual ? 'true' : 'false']
+      : [toComparable(actual)];
+
+  switch (condition.operator) {
+    case 'is_empty':
+      return isEmptyValue(actual);
+    case 'is_not_empty':
+      return !isEmptyValue(actual);
+    case 'equals':
+      return values.includes(expected);
+    case 'not_equals':
+      return !values.includes(expected);
+    case 'contains':
+      return values.some(v => v.includes(expected));
+    case 'not_contains':
+      return !values.some(v => v.includes(expected));
+    case 'greater_than':
+    case 'less_than': {
+      const left = parseFloat(String(actual));
+      const right = parseFloat(String(condition.value));
+      if (isNaN(left) || isNaN(right)) return false;
+      return condition.operator === 'greater_than' ? left > right : left < right;
+    }
+    default:
+      return false;
+  }
+}
+
+export function evaluateConditionGroup(group: FieldConditionGroup | undefined, data: Record<string, unknown>): boolean {
+  if (!group || group.conditions.length === 0) return true;
+  return group.match === 'any'
+    ? group.conditions.some(c => evaluateCondition(c, data))
+    : group.conditions.every(c => evaluateCondition(c, data));
+}
+
+export interface FieldLogicState {
+  visible: Set<string>;
+  required: Set<string>;
+}
+
+/**
+ * Walks the schema in display order so that a field hidden by its own rules
+ * also counts as empty for any later field whose conditions reference it.
+ * A hidden section hides every field up to the next section.
+ */
+export function resolveFieldLogic(schema: FormField[], data: Record<string, unknown>): FieldLogicState {
+  const visible = new Set<string>();
+  const required = new Set<string>();
+  const effective = { ...data };
+  let sectionHidden = false;
+
+  [...schema]
+    .sort((a, b) => a.order - b.order)
+    .forEach(field => {
+      if (isSectionField(field)) {
+        sectionHidden = !evaluateConditionGroup(field.showWhen, effective);
+        if (!sectionHidden) visible.add(field.id);
+        return;
+      }
+
+      if (sectionHidden || !evaluateConditionGroup(field.showWhen, effective)) {
+        delete effective[field.id];
+        return;
+      }
+
+      visible.add(field.id);
+      if (field.required || (field.requiredWhen?.conditions.length && evaluateConditionGroup(field.requiredWhen, effective))) {
+        required.add(field.id);
+      }
+    });
+
+  return { visible, required };
+}
+
+export function getVisibleFields(schema: FormField[], data: Record<string, unknown>): FormField[] {
+  const { visible } = resolveFieldLogic(schema, data);
+  return [...schema]
+    .sort((a, b) => a.order - b.order)
+    .filter(field => visible.has(field.id));
+}
+
+/**
+ * Checks a repeatable group's entry count and the required sub-fields of
+ * every entry. The returned field carries a label that names the entry, so
+ * callers can show it as-is.
+ */
+export function findMissingGroupField(group: FormField, value: unknown, isRequired: boolean): FormField | null {
+  const entries = getGroupEntries(value);
+  const { min } = getGroupLimits({ ...group, required: isRequired });
+
+  if (entries.length < min) {
+    return { ...group, label: min > 1 ? `${group.label} (at least ${min} entries)` : group.label };
+  }
+
+  const subFields = getGroupSubFields(group);
+  for (const [index, entry] of entries.entries()) {
+    const missing = subFields.find(f => f.required && isEmptyValue(entry[f.id]));
+    if (missing) {
+      return { ...missing, label: `${group.label} ${index + 1}: ${missing.label}` };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Returns the first visible required field without an answer. Pass
+ * `onlyFieldIds` to check a single wizard page while still resolving logic
+ * against the whole form.
+ */
+export function findMissingRequiredField(
+  schema: FormField[],
+  data: Record<string, unknown>,
+  onlyFieldIds?: Set<string>
+): FormField | null {
+  const { visible, required } = resolveFieldLogic(schema, data);
+  const ordered = [...schema].sort((a, b) => a.order - b.order);
+
+  for (const field of ordered) {
+    if (!visible.has(field.id) || isSectionField(field)) continue;
+    if (onlyFieldIds && !onlyFieldIds.has(field.id)) continue;
+
+    if (isGroupField(field)) {
+      const missing = findMissingGroupField(field, data[field.id], required.has(field.id));
+      if (missing) return missing;
+    } else if (required.has(field.id) && isEmptyValue(data[field.id])) {
+      return field;
+    }
+  }
+
+  return null;
+}
+
+export function pruneHiddenFields(schema: FormField[], data: Record<string, unknown>): Record<string, unknown> {
+  const { visible } = resolveFieldLogic(schema, data);
+  const schemaIds = new Set(schema.map(f => f.id));
+
+  return Object.fromEntries(
+    Object.entries(data).filter(([key]) => !schemaIds.has(key) || visible.has(key))
+  );
+}
+
+export function removeConditionsReferencing(field: FormField, removedFieldId: string): FormField {
+  const strip = (group?: FieldConditionGroup): FieldConditionGroup | undefined => {
+    if (!group) return group;
+    const conditions = group.conditions.filter(c => c.fieldId !== removedFieldId);
+    return conditions.length > 0 ? { ...group, conditions } : undefined;
+  };
+
+  return {
+    ...field,
+    showWhen: strip(field.showWhen),
+    requiredWhen: strip(field.requiredWhen)
+  };
+}
+
+export function operatorNeedsValue(operator: FieldConditionOperator): boolean {
+  return operator !== 'is_empty' && operator !== 'is_not_empty';
+}
+
+export const CONDITION_OPERATORS: { value: FieldConditionOperator; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'not_equals', label: 'does not equal' },
+  { value: 'contains', label: 'contains' },
+  { value: 'not_contains', label: 'does not contain' },
+  { value: 'greater_than', label: 'is greater than' },
+  { value: 'less_than', label: 'is less than' },
+  { value: 'is_empty', label: 'is empty' },
+  { value: 'is_not_empty', label: 'is not empty' },
+];
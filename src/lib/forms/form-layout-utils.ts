@@ -0,0 +1,75 @@
+import type { FormField, FormGroupEntry } from './types';
+
+export const GROUP_SUBFIELD_TYPES: FormField['type'][] = [
+  'text',
+  'number',
+  'email',
+  'phone',
+  'textarea',
+  'select',
+  'multiselect',
+  'radio',
+  'checkbox',
+  'date',
+  'time'
+];
+
+export const DEFAULT_GROUP_MAX_ITEMS = 20;
+
+export interface FormPage {
+  section?: FormField;
+  fields: FormField[];
+}
+
+/** Sections only structure the form; they never hold an answer. */
+export function isSectionField(field: FormField): boolean {
+  return field.type === 'section';
+}
+
+export function isGroupField(field: FormField): boolean {
+  return field.type === 'group';
+}
+
+export function getGroupSubFields(field: FormField): FormField[] {
+  return [...(field.fields || [])].sort((a, b) => a.order - b.order);
+}
+
+export function getGroupEntries(value: unknown): FormGroupEntry[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((entry): entry is FormGroupEntry => !!entry && typeof entry === 'object' && !Array.isArray(entry));
+}
+
+export function getGroupLimits(field: FormField): { min: number; max: number } {
+  const min = Math.max(field.repeat?.minItems || 0, field.required ? 1 : 0);
+  const max = Math.max(field.repeat?.maxItems || DEFAULT_GROUP_MAX_ITEMS, min, 1);
+  return { min, max };
+}
+
+/**
+ * Splits an ordered field list into wizard pages at each section field.
+ * Fields before the first section form an untitled opening page; a form
+ * without sections is a single page.
+ */
+export function splitIntoPages(fields: FormField[]): FormPage[] {
+  const pages: FormPage[] = [];
+  let current: FormPage = { fields: [] };
+
+  [...fields]
+    .sort((a, b) => a.order - b.order)
+    .forEach(field => {
+      if (isSectionField(field)) {
+        if (current.section || current.fields.length > 0) {
+          pages.push(current);
+        }
+        current = { section: field, fields: [] };
+      } else {
+        current.fields.push(field);
+      }
+    });
+
+  if (current.section || current.fields.length > 0 || pages.length === 0) {
+    pages.push(current);
+  }
+
+  return pages;
+}
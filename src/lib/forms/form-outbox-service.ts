@@ -0,0 +1,278 @@
+import { FormService } from './form-service';
+import { getRecord, getAllRecords, putRecord, deleteRecord } from './offline-store';
+import type {
+  Form,
+  FormDraft,
+  FormVisibility,
+  OutboxEntry,
+  OutboxState,
+  SubmitFormData,
+  SubmitFormResponse
+} from './types';
+
+type OutboxListener = (state: OutboxState) => void;
+
+interface CachedAvailableForms {
+  id: string;
+  forms: { form: Form; visibility: FormVisibility }[];
+  cached_at: string;
+}
+
+const SYNC_INTERVAL_MS = 60000;
+const MAX_RETRY_DELAY_MS = 30 * 60000;
+const MAX_TRANSIENT_ATTEMPTS = 10;
+
+function draftKey(formId: string, agentId: string): string {
+  return `${formId}:${agentId}`;
+}
+
+function generateIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Only requests that never reached the database (offline, fetch errors,
+ * 5xx) come back from FormService as `network_error` and are worth
+ * retrying. Anything the server rejected will fail the same way again.
+ */
+function isTransientFailure(result: SubmitFormResponse): boolean {
+  return result.error === 'network_error';
+}
+
+/** Doubles the wait after every failed attempt, from one sync interval up to half an hour. */
+function nextAttemptAt(attempts: number): string {
+  const delay = Math.min(SYNC_INTERVAL_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  return new Date(Date.now() + delay).toISOString();
+}
+
+function isDue(entry: OutboxEntry): boolean {
+  return !entry.next_attempt_at || entry.next_attempt_at <= new Date().toISOString();
+}
+
+export class FormOutboxService {
+  private static listeners = new Set<OutboxListener>();
+  private static syncing = false;
+  private static running: Promise<Map<string, SubmitFormResponse>> | null = null;
+  private static rerun: Promise<Map<string, SubmitFormResponse>> | null = null;
+  private static autoSyncStarted = false;
+
+  static isOnline(): boolean {
+    return typeof navigator === 'undefined' ? true : navigator.onLine;
+  }
+
+  static async saveDraft(draft: Omit<FormDraft, 'id' | 'updated_at'>): Promise<void> {
+    try {
+      await putRecord<FormDraft>('drafts', {
+        ...draft,
+        id: draftKey(draft.form_id, draft.agent_id),
+        updated_at: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error saving form draft:', error);
+    }
+  }
+
+  static async getDraft(formId: string, agentId: string): Promise<FormDraft | null> {
+    try {
+      return (await getRecord<FormDraft>('drafts', draftKey(formId, agentId))) || null;
+    } catch (error) {
+      console.error('Error loading form draft:', error);
+      return null;
+    }
+  }
+
+  static async clearDraft(formId: string, agentId: string): Promise<void> {
+    try {
+      await deleteRecord('drafts', draftKey(formId, agentId));
+    } catch (error) {
+      console.error('Error clearing form draft:', error);
+    }
+  }
+
+  static async cacheAvailableForms(agentId: string, forms: { form: Form; visibility: FormVisibility }[]): Promise<void> {
+    try {
+      await putRecord<CachedAvailableForms>('form_cache', {
+        id: agentId,
+        forms,
+        cached_at: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error caching available forms:', error);
+    }
+  }
+
+  static async getCachedAvailableForms(agentId: string): Promise<{ form: Form; visibility: FormVisibility }[]> {
+    try {
+      const cached = await getRecord<CachedAvailableForms>('form_cache', agentId);
+      return cached?.forms || [];
+    } catch (error) {
+      console.error('Error loading cached forms:', error);
+      return [];
+    }
+  }
+
+  static async getEntries(): Promise<OutboxEntry[]> {
+    try {
+      const entries = await getAllRecords<OutboxEntry>('outbox');
+      return entries.sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+    } catch (error) {
+      console.error('Error loading outbox:', error);
+      return [];
+    }
+  }
+
+  static async enqueue(payload: SubmitFormData, formTitle: string): Promise<OutboxEntry> {
+    const id = payload.idempotency_key || generateIdempotencyKey();
+    const entry: OutboxEntry = {
+      id,
+      form_title: formTitle,
+      payload: { ...payload, idempotency_key: id },
+      status: 'queued',
+      attempts: 0,
+      queued_at: new Date().toISOString()
+    };
+
+    await putRecord('outbox', entry);
+    await this.notify();
+    return entry;
+  }
+
+  static async discard(entryId: string): Promise<void> {
+    try {
+      await deleteRecord('outbox', entryId);
+    } catch (error) {
+      console.error('Error discarding outbox entry:', error);
+    }
+    await this.notify();
+  }
+
+  static async retry(entryId: string): Promise<void> {
+    const entry = await getRecord<OutboxEntry>('outbox', entryId);
+    if (!entry) return;
+
+    await putRecord('outbox', {
+      ...entry,
+      status: 'queued',
+      attempts: 0,
+      last_error: undefined,
+      next_attempt_at: undefined
+    });
+    await this.flush();
+  }
+
+  /**
+   * Replays queued submissions in the order they were captured. Each entry
+   * carries its idempotency key, so an entry whose response was lost after
+   * the server stored it is acknowledged rather than inserted twice.
+   *
+   * Entries the server rejects are marked failed and left for the user to
+   * retry or discard. Network failures stay queued with a growing delay and
+   * stop the run, since the rest would fail too; after
+   * `MAX_TRANSIENT_ATTEMPTS` they are marked failed as well.
+   *
+   * A call made while a run is in progress waits for it and then runs once
+   * more, since that run may have read the outbox before the caller queued
+   * its entry. Either way the results cover every entry attempted.
+   */
+  static flush(): Promise<Map<string, SubmitFormResponse>> {
+    if (!this.running) {
+      this.running = this.runFlush().finally(() => {
+        this.running = null;
+      });
+      return this.running;
+    }
+
+    if (!this.rerun) {
+      this.rerun = this.running.then(async first => {
+        this.rerun = null;
+        const second = await this.flush();
+        return new Map([...first, ...second]);
+      });
+    }
+    return this.rerun;
+  }
+
+  private static async runFlush(): Promise<Map<string, SubmitFormResponse>> {
+    const results = new Map<string, SubmitFormResponse>();
+    if (!this.isOnline()) return results;
+
+    this.syncing = true;
+    await this.notify();
+
+    try {
+      const entries = (await this.getEntries()).filter(e => e.status !== 'failed' && isDue(e));
+
+      for (const entry of entries) {
+        await putRecord('outbox', { ...entry, status: 'syncing' });
+
+        const result = await FormService.submitForm(entry.payload);
+        results.set(entry.id, result);
+
+        if (result.success) {
+          await deleteRecord('outbox', entry.id);
+          continue;
+        }
+
+        const attempts = entry.attempts + 1;
+        const retryable = isTransientFailure(result) && attempts < MAX_TRANSIENT_ATTEMPTS;
+        const failed: OutboxEntry = {
+          ...entry,
+          status: retryable ? 'queued' : 'failed',
+          attempts,
+          last_error: result.message || result.error || 'Submission failed',
+          last_attempt_at: new Date().toISOString(),
+          next_attempt_at: retryable ? nextAttemptAt(attempts) : undefined
+        };
+        await putRecord('outbox', failed);
+
+        if (isTransientFailure(result)) {
+          break;
+        }
+      }
+    } catch (error) {
+      console.error('Error syncing outbox:', error);
+    } finally {
+      this.syncing = false;
+      await this.notify();
+    }
+
+    return results;
+  }
+
+  static subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    this.getEntries().then(entries => {
+      listener({ online: this.isOnline(), syncing: this.syncing, entries });
+    });
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  static startAutoSync(): void {
+    if (this.autoSyncStarted || typeof window === 'undefined') return;
+    this.autoSyncStarted = true;
+
+    window.addEventListener('online', () => {
+      this.flush();
+    });
+    window.addEventListener('offline', () => {
+      this.notify();
+    });
+    window.setInterval(() => {
+      this.flush();
+    }, SYNC_INTERVAL_MS);
+
+    this.flush();
+  }
+
+  private static async notify(): Promise<void> {
+    if (this.listeners.size === 0) return;
+    const entries = await this.getEntries();
+    const state: OutboxState = { online: this.isOnline(), syncing: this.syncing, entries };
+    this.listeners.forEach(listener => listener(state));
+  }
+}
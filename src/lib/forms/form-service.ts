@@ -10,8 +10,15 @@ import type {
   FormCustomerAttachment,
   FormSubmission,
   TeamFormStats,
-  FormSubmissionLog
+  FormSubmissionLog,
+  FormSubmissionReview,
+  FormVersion
 } from './types';
+import { buildVersionedColumns } from './form-version-utils';
+import { FormUploadService } from './form-upload-service';
+import { GEOFENCE_STATUS_LABELS } from './geofence-utils';
+import { isTransientError } from './network-utils';
+import { canReviewSubmission, type ReviewerRole } from './approval-utils';
 
 function formatTimestamp(ts: string): string {
   const d = new Date(ts);
@@ -88,6 +95,39 @@ export class FormService {
     }
   }
 
+  static async getFormVersions(formId: string): Promise<FormVersion[]> {
+    try {
+      const { data, error } = await supabase
+        .from('form_versions')
+        .select('*')
+        .eq('form_id', formId)
+        .order('version_number', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching form versions:', error);
+      return [];
+    }
+  }
+
+  static async getFormVersionsByIds(versionIds: string[]): Promise<FormVersion[]> {
+    if (versionIds.length === 0) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('form_versions')
+        .select('*')
+        .in('id', versionIds);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching form versions:', error);
+      return [];
+    }
+  }
+
   static async listForms(orgId: string, filters?: {
     department_id?: string;
     is_active?: boolean;
@@ -275,31 +315,40 @@ export class FormService {
     }
   }
 
+  /**
+   * Failures that never reached the database (offline, fetch errors, 5xx)
+   * come back as `network_error` so the outbox keeps them queued; anything
+   * the server rejected comes back as `submission_failed`.
+   */
   static async submitForm(data: SubmitFormData): Promise<SubmitFormResponse> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('Not authenticated');
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+      if (!user) throw authError || new Error('Not authenticated');
+
+      const submissionData = await FormUploadService.uploadPendingFiles(data.form_id, data.submission_data);
 
-      const { data: result, error } = await supabase.rpc('submit_form', {
+      const { data: result, error, status } = await supabase.rpc('submit_form', {
         p_form_id: data.form_id,
         p_agent_id: data.agent_id,
-        p_submission_data: data.submission_data,
+        p_submission_data: submissionData,
         p_submitted_by: user.id,
         p_latitude: data.latitude,
         p_longitude: data.longitude,
         p_time_spent: data.time_spent,
         p_supervisor_name: data.supervisor_name,
         p_supervisor_code: data.supervisor_code,
-        p_form_started_at: data.form_started_at
+        p_form_started_at: data.form_started_at,
+        p_idempotency_key: data.idempotency_key
       });
 
-      if (error) throw error;
+      if (error) throw Object.assign(error, { status });
       return result as SubmitFormResponse;
     } catch (error) {
       console.error('Error submitting form:', error);
       return {
         success: false,
-        error: 'submission_failed',
+        error: isTransientError(error) ? 'network_error' : 'submission_failed',
+        message: (error as { message?: string } | null)?.message,
         details: error
       };
     }
@@ -411,7 +460,7 @@ export class FormService {
   static async approveSubmission(
     submissionId: string,
     reviewNotes?: string
-  ): Promise<{ success: boolean; error?: string }> {
+  ): Promise<{ success: boolean; error?: string; completed?: boolean; next_stage_name?: string }> {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
@@ -423,7 +472,7 @@ export class FormService {
       });
 
       if (error) throw error;
-      return data as { success: boolean; error?: string };
+      return data as { success: boolean; error?: string; completed?: boolean; next_stage_name?: string };
     } catch (error) {
       console.error('Error approving submission:', error);
       return {
@@ -458,6 +507,135 @@ export class FormService {
     }
   }
 
+  static async returnSubmission(
+    submissionId: string,
+    reason: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase.rpc('return_form_submission', {
+        p_submission_id: submissionId,
+        p_reviewer_id: user.id,
+        p_reason: reason
+      });
+
+      if (error) throw error;
+      return data as { success: boolean; error?: string };
+    } catch (error) {
+      console.error('Error returning submission:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to return submission'
+      };
+    }
+  }
+
+  static async resubmitSubmission(
+    submission: Pick<FormSubmission, 'id' | 'form_id'>,
+    submissionData: Record<string, unknown>,
+    notes?: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const uploaded = await FormUploadService.uploadPendingFiles(submission.form_id, submissionData);
+
+      const { data, error } = await supabase.rpc('resubmit_form_submission', {
+        p_submission_id: submission.id,
+        p_submission_data: uploaded,
+        p_notes: notes || null
+      });
+
+      if (error) throw error;
+      return data as { success: boolean; error?: string };
+    } catch (error) {
+      console.error('Error resubmitting submission:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to resubmit form'
+      };
+    }
+  }
+
+  static async getSubmissionReviews(submissionId: string): Promise<FormSubmissionReview[]> {
+    try {
+      const { data, error } = await supabase
+        .from('form_submission_reviews')
+        .select('*, users!form_submission_reviews_reviewer_id_fkey(full_name)')
+        .eq('submission_id', submissionId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      const rows = (data || []) as Array<FormSubmissionReview & { users: { full_name: string } | null }>;
+      return rows.map(({ users, ...review }) => ({
+        ...review,
+        reviewer_name: users?.full_name || undefined
+      }));
+    } catch (error) {
+      console.error('Error fetching submission reviews:', error);
+      return [];
+    }
+  }
+
+  static async getReviewerRole(userId: string): Promise<ReviewerRole | null> {
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .select('role:roles(name, level)')
+        .eq('id', userId)
+        .single();
+
+      if (error) throw error;
+      const role = (data as { role: ReviewerRole | null } | null)?.role;
+      return role ? { name: role.name, level: role.level } : null;
+    } catch (error) {
+      console.error('Error fetching reviewer role:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Pending submissions the user can act on at their current stage, oldest
+   * first so the queue is worked in arrival order.
+   */
+  static async getReviewInbox(userId: string, orgId: string): Promise<FormSubmission[]> {
+    try {
+      const [role, forms, pending] = await Promise.all([
+        this.getReviewerRole(userId),
+        this.listForms(orgId),
+        this.getSubmissions({ status: 'pending' })
+      ]);
+
+      const formMap = new Map(forms.map(f => [f.id, f]));
+      return pending
+        .filter(s => formMap.has(s.form_id) && canReviewSubmission(formMap.get(s.form_id), s, userId, role))
+        .sort((a, b) => new Date(a.submitted_at).getTime() - new Date(b.submitted_at).getTime());
+    } catch (error) {
+      console.error('Error fetching review inbox:', error);
+      return [];
+    }
+  }
+
+  static async getReturnedSubmissions(): Promise<FormSubmission[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('form_submissions')
+        .select('*')
+        .eq('submitted_by', user.id)
+        .eq('status', 'returned')
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching returned submissions:', error);
+      return [];
+    }
+  }
+
   static async getAgentSubmissionLog(formId: string, agentId: string): Promise<FormSubmissionLog | null> {
     try {
       const currentMonth = new Date();
@@ -557,6 +735,15 @@ export class FormService {
       const form = await this.getForm(formId);
       if (!form) throw new Error('Form not found');
 
+      const versionIds = [...new Set(submissions.map(s => s.form_version_id).filter(Boolean) as string[])];
+      const versions = await this.getFormVersionsByIds(versionIds);
+      const versionNumberMap = new Map(versions.map(v => [v.id, v.version_number]));
+      const fieldColumns = buildVersionedColumns(
+        form.form_schema,
+        versions,
+        submissions.map(s => s.submission_data)
+      );
+
       // Get customer names
       const customerIds = [...new Set(submissions.map(s => s.agent_id))];
       const { data: customers } = await supabase
@@ -586,6 +773,8 @@ export class FormService {
         'Submitted At',
         'Latitude',
         'Longitude',
+        'Distance to Customer (m)',
+        'Location Check',
         'Time Spent',
         'Supervisor Name',
         'Supervisor Code',
@@ -594,11 +783,12 @@ export class FormService {
         'Reviewed By',
         'Reviewed At',
         'Review Notes',
-        'Rejection Reason'
+        'Rejection Reason',
+        'Form Version'
       ];
 
-      form.form_schema.forEach(field => {
-        headers.push(field.label);
+      fieldColumns.forEach(column => {
+        headers.push(column.label);
       });
 
       const rows = submissions.map(sub => {
@@ -611,6 +801,8 @@ export class FormService {
           new Date(sub.submitted_at).toLocaleString(),
           sub.latitude?.toString() || '',
           sub.longitude?.toString() || '',
+          sub.distance_from_customer_m != null ? Math.round(sub.distance_from_customer_m).toString() : '',
+          sub.geofence_status ? GEOFENCE_STATUS_LABELS[sub.geofence_status] : '',
           sub.time_spent || '',
           sub.supervisor_name || (sub.supervisor_code ? supervisorMap.get(sub.supervisor_code) || '' : ''),
           sub.supervisor_code || '',
@@ -619,15 +811,18 @@ export class FormService {
           sub.reviewed_by || '',
           sub.reviewed_at ? new Date(sub.reviewed_at).toLocaleString() : '',
           sub.review_notes || '',
-          sub.rejection_reason || ''
+          sub.rejection_reason || '',
+          sub.form_version_id ? `v${versionNumberMap.get(sub.form_version_id) ?? ''}` : ''
         ];
 
-        form.form_schema.forEach(field => {
-          const value = sub.submission_data[field.id];
+        fieldColumns.forEach(column => {
+          const value = column.subFieldId !== undefined && column.entryIndex !== undefined
+            ? sub.submission_data[column.id]?.[column.entryIndex]?.[column.subFieldId]
+            : sub.submission_data[column.id];
           if (value === undefined || value === null) {
             row.push('');
-          } else if (Array.isArray(value) && value.length > 0 && value[0]?.url) {
-            row.push(value.map((img: any) => img.url).join(' | '));
+          } else if (Array.isArray(value) && value.length > 0 && (value[0]?.path || value[0]?.url)) {
+            row.push(value.map((img: any) => img.path || img.url).join(' | '));
           } else if (typeof value === 'object' && !Array.isArray(value) && (value.url || value.data)) {
             row.push(value.url || value.data || '');
           } else if (typeof value === 'object') {
@@ -0,0 +1,250 @@
+import { supabase } from '../supabase/client';
+import type { FormField, FormFieldUploadSettings, FormUploadValue, PendingUpload, StoredUpload } from './types';
+
+export const FORM_UPLOADS_BUCKET = 'form-uploads';
+
+const THUMBNAIL_DIMENSION = 320;
+
+/** Signed links are minted when a submission is opened, so an hour is plenty. */
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export const DEFAULT_UPLOAD_SETTINGS: Record<'image' | 'file', Required<FormFieldUploadSettings>> = {
+  image: {
+    maxSizeMB: 5,
+    allowedTypes: ['image/*'],
+    maxFiles: 1,
+    maxDimension: 1600
+  },
+  file: {
+    maxSizeMB: 10,
+    allowedTypes: ['application/pdf', 'image/*'],
+    maxFiles: 1,
+    maxDimension: 1600
+  }
+};
+
+export function getUploadSettings(field: FormField): Required<FormFieldUploadSettings> {
+  const defaults = DEFAULT_UPLOAD_SETTINGS[field.type === 'file' ? 'file' : 'image'];
+  return {
+    maxSizeMB: field.upload?.maxSizeMB || defaults.maxSizeMB,
+    allowedTypes: field.upload?.allowedTypes?.length ? field.upload.allowedTypes : defaults.allowedTypes,
+    maxFiles: field.upload?.maxFiles || defaults.maxFiles,
+    maxDimension: field.upload?.maxDimension || defaults.maxDimension
+  };
+}
+
+export function isPendingUpload(value: unknown): value is PendingUpload {
+  return !!value && typeof value === 'object' && (value as PendingUpload).pending === true;
+}
+
+export function isStoredUpload(value: unknown): value is StoredUpload {
+  return !!value && typeof value === 'object' && typeof (value as StoredUpload).path === 'string';
+}
+
+function matchesType(mimeType: string, allowedTypes: string[]): boolean {
+  return allowedTypes.some(allowed => {
+    if (allowed.endsWith('/*')) {
+      return mimeType.startsWith(allowed.slice(0, -1));
+    }
+    return mimeType === allowed;
+  });
+}
+
+function readAsDataURL(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function loadImage(file: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read image'));
+    };
+    img.src = url;
+  });
+}
+
+function resizeImage(img: HTMLImageElement, maxDimension: number, quality: number): Promise<Blob> {
+  const scale = Math.min(1, maxDimension / Math.max(img.width, img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.width * scale);
+  canvas.height = Math.round(img.height * scale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas is not supported'));
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error('Could not compress image')),
+      'image/jpeg',
+      quality
+    );
+  });
+}
+
+function dataURLToBlob(dataURL: string): Blob {
+  const [header, base64] = dataURL.split(',');
+  const mimeType = header.match(/data:(.*?);/)?.[1] || 'application/octet-stream';
+  const bytes = atob(base64);
+  const buffer = new Uint8Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    buffer[i] = bytes.charCodeAt(i);
+  }
+  return new Blob([buffer], { type: mimeType });
+}
+
+function extensionFor(filename: string, mimeType: string): string {
+  if (mimeType === 'image/jpeg') return 'jpg';
+  const fromName = filename.includes('.') ? filename.split('.').pop() : undefined;
+  return (fromName || mimeType.split('/')[1] || 'bin').toLowerCase();
+}
+
+export class FormUploadService {
+  /**
+   * Validates a picked file against the field's limits and, for raster
+   * images, resizes and re-encodes it before it is held in form state. The
+   * result stays in the submission data as a pending upload until the
+   * submission is sent, so it survives drafts and the offline outbox.
+   */
+  static async prepareFile(file: File, field: FormField): Promise<PendingUpload> {
+    const settings = getUploadSettings(field);
+
+    if (!matchesType(file.type, settings.allowedTypes)) {
+      throw new Error(`${file.name} is not an allowed file type`);
+    }
+
+    let blob: Blob = file;
+    let type = file.type;
+    let thumbnail: string | undefined;
+
+    const compressible = file.type.startsWith('image/') && file.type !== 'image/gif' && file.type !== 'image/svg+xml';
+    if (compressible) {
+      const img = await loadImage(file);
+      blob = await resizeImage(img, settings.maxDimension, 0.8);
+      type = 'image/jpeg';
+      thumbnail = await readAsDataURL(await resizeImage(img, THUMBNAIL_DIMENSION, 0.7));
+    }
+
+    if (blob.size > settings.maxSizeMB * 1024 * 1024) {
+      throw new Error(`${file.name} is larger than ${settings.maxSizeMB} MB`);
+    }
+
+    return {
+      id: crypto.randomUUID(),
+      pending: true,
+      filename: file.name,
+      type,
+      size: blob.size,
+      data: await readAsDataURL(blob),
+      thumbnail
+    };
+  }
+
+  /**
+   * Uploads every pending file in the submission data and replaces it with a
+   * storage reference. Object paths are derived from the upload id, so a
+   * retried submission overwrites the same objects instead of duplicating them.
+   */
+  static async uploadPendingFiles(formId: string, data: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const result: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(data)) {
+      if (Array.isArray(value) && value.some(isPendingUpload)) {
+        result[key] = await Promise.all(
+          value.map(item => isPendingUpload(item) ? this.uploadFile(formId, item) : item)
+        );
+      } else if (isPendingUpload(value)) {
+        result[key] = [await this.uploadFile(formId, value)];
+      } else {
+        result[key] = value;
+      }
+    }
+
+    return result;
+  }
+
+  private static async uploadFile(formId: string, upload: PendingUpload): Promise<StoredUpload> {
+    const basePath = `${formId}/${upload.id}`;
+    const path = `${basePath}.${extensionFor(upload.filename, upload.type)}`;
+
+    const { error } = await supabase.storage
+      .from(FORM_UPLOADS_BUCKET)
+      .upload(path, dataURLToBlob(upload.data), { contentType: upload.type, upsert: true });
+
+    if (error) throw error;
+
+    let thumbnailPath: string | undefined;
+    if (upload.thumbnail) {
+      thumbnailPath = `${basePath}_thumb.jpg`;
+      const { error: thumbError } = await supabase.storage
+        .from(FORM_UPLOADS_BUCKET)
+        .upload(thumbnailPath, dataURLToBlob(upload.thumbnail), { contentType: 'image/jpeg', upsert: true });
+
+      if (thumbError) throw thumbError;
+    }
+
+    return {
+      id: upload.id,
+      path,
+      thumbnail_path: thumbnailPath,
+      filename: upload.filename,
+      type: upload.type,
+      size: upload.size
+    };
+  }
+
+  /**
+   * The bucket is private, so stored uploads are shown through short-lived
+   * signed links. Returns a map from object path to its signed URL; paths
+   * that could not be signed are left out.
+   */
+  static async getSignedUrls(uploads: StoredUpload[]): Promise<Record<string, string>> {
+    const paths = uploads.flatMap(upload => upload.thumbnail_path ? [upload.path, upload.thumbnail_path] : [upload.path]);
+    if (paths.length === 0) return {};
+
+    try {
+      const { data, error } = await supabase.storage
+        .from(FORM_UPLOADS_BUCKET)
+        .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+
+      if (error) throw error;
+      return Object.fromEntries(
+        (data || [])
+          .filter(item => item.path && item.signedUrl)
+          .map(item => [item.path as string, item.signedUrl])
+      );
+    } catch (error) {
+      console.error('Error signing form upload URLs:', error);
+      return {};
+    }
+  }
+}
+
+/** Every stored upload in a submission, including those inside repeating groups. */
+export function collectStoredUploads(value: unknown): StoredUpload[] {
+  if (isStoredUpload(value)) return [value];
+  if (Array.isArray(value)) return value.flatMap(collectStoredUploads);
+  if (value && typeof value === 'object' && !isPendingUpload(value)) {
+    return Object.values(value).flatMap(collectStoredUploads);
+  }
+  return [];
+}
+
+export function toUploadList(value: unknown): FormUploadValue[] {
+  if (Array.isArray(value)) {
+    return value.filter(item => isPendingUpload(item) || isStoredUpload(item));
+  }
+  return isPendingUpload(value) || isStoredUpload(value) ? [value] : [];
+}
@@ -0,0 +1,135 @@
+import type { Form, FormField, FormFieldChange, FormSubmission, FormVersion, FormVersionDiff } from './types';
+import { getGroupEntries, getGroupSubFields, isGroupField, isSectionField } from './form-layout-utils';
+
+export interface ExportColumn {
+  id: string;
+  label: string;
+  subFieldId?: string;
+  entryIndex?: number;
+}
+
+function describeFieldChanges(before: FormField, after: FormField): string[] {
+  const changes: string[] = [];
+
+  if (before.label !== after.label) {
+    changes.push(`Label changed from "${before.label}" to "${after.label}"`);
+  }
+  if (before.type !== after.type) {
+    changes.push(`Type changed from ${before.type} to ${after.type}`);
+  }
+  if (before.required !== after.required) {
+    changes.push(after.required ? 'Now required' : 'No longer required');
+  }
+
+  const beforeOptions = before.options || [];
+  const afterOptions = after.options || [];
+  const addedOptions = afterOptions.filter(o => !beforeOptions.includes(o));
+  const removedOptions = beforeOptions.filter(o => !afterOptions.includes(o));
+  if (addedOptions.length > 0) {
+    changes.push(`Options added: ${addedOptions.join(', ')}`);
+  }
+  if (removedOptions.length > 0) {
+    changes.push(`Options removed: ${removedOptions.join(', ')}`);
+  }
+
+  if (JSON.stringify(before.showWhen || null) !== JSON.stringify(after.showWhen || null) ||
+      JSON.stringify(before.requiredWhen || null) !== JSON.stringify(after.requiredWhen || null)) {
+    changes.push('Conditional logic changed');
+  }
+  if (JSON.stringify(before.validation || null) !== JSON.stringify(after.validation || null) ||
+      JSON.stringify(before.inputMask || null) !== JSON.stringify(after.inputMask || null)) {
+    changes.push('Validation rules changed');
+  }
+  if (JSON.stringify(before.fields || null) !== JSON.stringify(after.fields || null) ||
+      JSON.stringify(before.repeat || null) !== JSON.stringify(after.repeat || null)) {
+    changes.push('Group fields changed');
+  }
+
+  return changes;
+}
+
+export function diffFormVersions(from: FormField[], to: FormField[]): FormVersionDiff {
+  const fromMap = new Map(from.map(f => [f.id, f]));
+  const toMap = new Map(to.map(f => [f.id, f]));
+
+  const added = to.filter(f => !fromMap.has(f.id));
+  const removed = from.filter(f => !toMap.has(f.id));
+  const changed: FormFieldChange[] = [];
+
+  to.forEach(after => {
+    const before = fromMap.get(after.id);
+    if (!before) return;
+    const changes = describeFieldChanges(before, after);
+    if (changes.length > 0) {
+      changed.push({ before, after, changes });
+    }
+  });
+
+  return { added, removed, changed };
+}
+
+/**
+ * Returns the schema a submission was filled against, falling back to the
+ * form's current schema for submissions that predate versioning.
+ */
+export function getSubmissionSchema(
+  submission: Pick<FormSubmission, 'form_version_id'>,
+  form: Pick<Form, 'form_schema'>,
+  versions: Map<string, FormVersion>
+): FormField[] {
+  const version = submission.form_version_id ? versions.get(submission.form_version_id) : undefined;
+  return version?.form_schema || form.form_schema;
+}
+
+/**
+ * Builds one export column per field id across the current schema and every
+ * version referenced by the exported submissions. Current fields keep their
+ * current label; fields removed since then keep the label of the newest
+ * version that still had them. Sections are skipped, and a repeatable group
+ * becomes one column per sub-field per entry, as many entries as the
+ * largest submission has.
+ */
+export function buildVersionedColumns(
+  currentSchema: FormField[],
+  versions: FormVersion[],
+  submissionData: Record<string, unknown>[] = []
+): ExportColumn[] {
+  const columns: ExportColumn[] = [];
+  const seen = new Set<string>();
+
+  const addField = (field: FormField, suffix: string) => {
+    if (seen.has(field.id) || isSectionField(field)) return;
+    seen.add(field.id);
+
+    if (!isGroupField(field)) {
+      columns.push({ id: field.id, label: `${field.label}${suffix}` });
+      return;
+    }
+
+    const entryCount = Math.max(0, ...submissionData.map(data => getGroupEntries(data[field.id]).length));
+    for (let entryIndex = 0; entryIndex < entryCount; entryIndex++) {
+      getGroupSubFields(field).forEach(subField => {
+        columns.push({
+          id: field.id,
+          subFieldId: subField.id,
+          entryIndex,
+          label: `${field.label} ${entryIndex + 1} - ${subField.label}${suffix}`
+        });
+      });
+    }
+  };
+
+  [...currentSchema]
+    .sort((a, b) => a.order - b.order)
+    .forEach(field => addField(field, ''));
+
+  [...versions]
+    .sort((a, b) => b.version_number - a.version_number)
+    .forEach(version => {
+      [...version.form_schema]
+        .sort((a, b) => a.order - b.order)
+        .forEach(field => addField(field, ` (v${version.version_number})`));
+    });
+
+  return columns;
+}
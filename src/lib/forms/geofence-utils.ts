@@ -0,0 +1,51 @@
+import type { Form, FormSubmission, GeofenceStatus } from './types';
+
+export const DEFAULT_GEOFENCE_RADIUS_M = 200;
+
+const POSITION_TIMEOUT_MS = 15000;
+
+export const GEOFENCE_STATUS_LABELS: Record<GeofenceStatus, string> = {
+  inside: 'At outlet',
+  outside: 'Outside geofence',
+  no_location: 'No GPS fix',
+  no_customer_location: 'Outlet not mapped'
+};
+
+/** Location settings only apply to forms filled in against a customer. */
+export function isLocationCheckEnabled(form: Pick<Form, 'attach_to_customer' | 'require_location' | 'geofence_radius_m'>): boolean {
+  return form.attach_to_customer && (form.require_location || !!form.geofence_radius_m);
+}
+
+export function isGeofenceFlagged(submission: Pick<FormSubmission, 'geofence_status'>): boolean {
+  return submission.geofence_status === 'outside' || submission.geofence_status === 'no_location';
+}
+
+export function formatDistance(meters: number | null | undefined): string {
+  if (meters === null || meters === undefined) return '—';
+  return meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+}
+
+/**
+ * Resolves to the device position, or null when permission is denied, the
+ * browser has no geolocation, or no fix arrives within the timeout.
+ */
+export function getCurrentPosition(): Promise<{ latitude: number; longitude: number } | null> {
+  return new Promise(resolve => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      resolve(null);
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude
+      }),
+      (error) => {
+        console.error('Error getting geolocation:', error);
+        resolve(null);
+      },
+      { enableHighAccuracy: true, timeout: POSITION_TIMEOUT_MS, maximumAge: 60000 }
+    );
+  });
+}
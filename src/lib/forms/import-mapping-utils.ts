@@ -0,0 +1,250 @@
+import type { FormField, FormImportMapping, ImportSystemColumn } from './types';
+
+export const IMPORT_SYSTEM_COLUMNS: { value: ImportSystemColumn; label: string; required: boolean; aliases: string[] }[] = [
+  { value: 'agent_code', label: 'Agent / Customer code', required: true, aliases: ['terminal id', 'agent code', 'customer code', 'agent id'] },
+  { value: 'supervisor_code', label: 'Supervisor code', required: false, aliases: ['emp code', 'employee code', 'supervisor code', 'submitted by'] },
+  { value: 'cycle_number', label: 'Cycle / Visit', required: false, aliases: ['visit', 'cycle', 'cycle number', 'visit number'] },
+  { value: 'submitted_at', label: 'Submitted on', required: false, aliases: ['submitted on', 'submitted at', 'created at', 'submission date'] },
+  { value: 'status', label: 'Approved', required: false, aliases: ['approved', 'status'] },
+  { value: 'latitude', label: 'Latitude', required: false, aliases: ['latitude', 'lat'] },
+  { value: 'longitude', label: 'Longitude', required: false, aliases: ['longitude', 'lng', 'long'] }
+];
+
+const SUGGESTION_THRESHOLD = 0.6;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const TIME_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+const TRUE_VALUES = ['yes', 'y', 'true', '1'];
+const FALSE_VALUES = ['no', 'n', 'false', '0'];
+
+/**
+ * Fields that can be filled from a single CSV cell. Uploads need a real
+ * file, and sections and repeatable groups have no single-cell value.
+ */
+export function getImportableFields(schema: FormField[]): FormField[] {
+  return schema.filter(f => !['image', 'file', 'section', 'group'].includes(f.type));
+}
+
+export function normalizeLabel(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/\s+/g, '');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2));
+  }
+  return result;
+}
+
+/**
+ * Dice coefficient over character bigrams of the normalized labels, so
+ * "Agent Active?" and "Is agent active" score high while unrelated
+ * questions sharing a word or two do not.
+ */
+export function labelSimilarity(a: string, b: string): number {
+  const left = normalizeLabel(a);
+  const right = normalizeLabel(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  if (leftBigrams.length === 0 || rightBigrams.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  leftBigrams.forEach(bg => counts.set(bg, (counts.get(bg) || 0) + 1));
+
+  let overlap = 0;
+  rightBigrams.forEach(bg => {
+    const count = counts.get(bg) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(bg, count - 1);
+    }
+  });
+
+  return (2 * overlap) / (leftBigrams.length + rightBigrams.length);
+}
+
+/**
+ * Proposes a mapping for a fresh file. System columns are matched against
+ * known aliases first; remaining headers are paired with form fields by
+ * label similarity, best pairs first, so each field is used at most once.
+ */
+export function suggestMapping(headers: string[], schema: FormField[]): FormImportMapping {
+  const mapping: FormImportMapping = { fields: {}, system: {} };
+  const usedHeaders = new Set<string>();
+
+  IMPORT_SYSTEM_COLUMNS.forEach(column => {
+    const header = headers.find(h => !usedHeaders.has(h) && column.aliases.includes(normalizeLabel(h)));
+    if (header) {
+      mapping.system[column.value] = header;
+      usedHeaders.add(header);
+    }
+  });
+
+  const candidates: { header: string; fieldId: string; score: number }[] = [];
+  headers.forEach(header => {
+    if (usedHeaders.has(header)) return;
+    getImportableFields(schema).forEach(field => {
+      const score = Math.max(labelSimilarity(header, field.label), header === field.id ? 1 : 0);
+      if (score >= SUGGESTION_THRESHOLD) {
+        candidates.push({ header, fieldId: field.id, score });
+      }
+    });
+  });
+
+  const usedFields = new Set<string>();
+  candidates
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ header, fieldId }) => {
+      if (usedHeaders.has(header) || usedFields.has(fieldId)) return;
+      mapping.fields[header] = fieldId;
+      usedHeaders.add(header);
+      usedFields.add(fieldId);
+    });
+
+  return mapping;
+}
+
+/**
+ * Drops entries that point at headers missing from the file or fields no
+ * longer on the form, so a preset saved against an older export still
+ * applies cleanly.
+ */
+export function reconcileMapping(mapping: FormImportMapping, headers: string[], schema: FormField[]): FormImportMapping {
+  const fieldIds = new Set(getImportableFields(schema).map(f => f.id));
+  const fields: Record<string, string> = {};
+  Object.entries(mapping.fields || {}).forEach(([header, fieldId]) => {
+    if (headers.includes(header) && fieldIds.has(fieldId)) {
+      fields[header] = fieldId;
+    }
+  });
+
+  const system: FormImportMapping['system'] = {};
+  Object.entries(mapping.system || {}).forEach(([column, header]) => {
+    if (header && headers.includes(header)) {
+      system[column as ImportSystemColumn] = header;
+    }
+  });
+
+  return { fields, system };
+}
+
+function matchOption(value: string, options: string[]): string | undefined {
+  const normalized = normalizeLabel(value);
+  const exact = options.find(o => normalizeLabel(o) === normalized);
+  if (exact) return exact;
+
+  if (TRUE_VALUES.includes(normalized)) return options.find(o => normalizeLabel(o) === 'yes');
+  if (FALSE_VALUES.includes(normalized)) return options.find(o => normalizeLabel(o) === 'no');
+  return undefined;
+}
+
+function normalizeDate(value: string): string | null {
+  const parts = value.split('/');
+  const isoCandidate = parts.length === 3
+    ? `${parts[2]}-${parts[1].padStart(2, '0')}-${parts[0].padStart(2, '0')}`
+    : value;
+
+  const date = new Date(isoCandidate);
+  if (isNaN(date.getTime())) return null;
+  return /^\d{4}-\d{2}-\d{2}$/.test(isoCandidate) ? isoCandidate : date.toISOString().slice(0, 10);
+}
+
+function checkTextRules(field: FormField, value: string): string | undefined {
+  const rules = field.validation;
+  if (!rules) return undefined;
+
+  if (rules.minLength !== undefined && value.length < rules.minLength) {
+    return `must be at least ${rules.minLength} characters`;
+  }
+  if (rules.maxLength !== undefined && value.length > rules.maxLength) {
+    return `must be at most ${rules.maxLength} characters`;
+  }
+  if (rules.pattern) {
+    try {
+      if (!new RegExp(`^(?:${rules.pattern})$`).test(value)) {
+        return 'does not match the required format';
+      }
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Converts a raw CSV cell into the value the form itself would store for
+ * this field, or explains why it cannot. Empty cells yield `undefined`;
+ * required checks happen once the whole row is assembled.
+ */
+export function coerceFieldValue(field: FormField, raw: string): { value?: unknown; error?: string } {
+  const value = raw.trim();
+  if (value === '') return {};
+
+  switch (field.type) {
+    case 'number': {
+      const num = Number(value.replace(/,/g, ''));
+      if (isNaN(num)) return { error: `"${value}" is not a number` };
+      if (field.validation?.min !== undefined && num < field.validation.min) {
+        return { error: `must be at least ${field.validation.min}` };
+      }
+      if (field.validation?.max !== undefined && num > field.validation.max) {
+        return { error: `must be at most ${field.validation.max}` };
+      }
+      return { value: num.toString() };
+    }
+
+    case 'email':
+      if (!EMAIL_PATTERN.test(value)) return { error: `"${value}" is not a valid email` };
+      return { value };
+
+    case 'date': {
+      const date = normalizeDate(value);
+      if (!date) return { error: `"${value}" is not a valid date` };
+      return { value: date };
+    }
+
+    case 'time':
+      if (!TIME_PATTERN.test(value)) return { error: `"${value}" is not a valid time` };
+      return { value: value.slice(0, 5).padStart(5, '0') };
+
+    case 'select':
+    case 'radio': {
+      if (!field.options?.length) return { value };
+      const option = matchOption(value, field.options);
+      if (!option) return { error: `"${value}" is not one of the options` };
+      return { value: option };
+    }
+
+    case 'multiselect':
+    case 'checkbox': {
+      if (field.type === 'checkbox' && !field.options?.length) {
+        const normalized = normalizeLabel(value);
+        if (TRUE_VALUES.includes(normalized)) return { value: true };
+        if (FALSE_VALUES.includes(normalized)) return { value: false };
+        return { error: `"${value}" is not yes or no` };
+      }
+
+      const parts = value.split(/[;,|]/).map(p => p.trim()).filter(Boolean);
+      if (!field.options?.length) return { value: parts };
+
+      const selected: string[] = [];
+      for (const part of parts) {
+        const option = matchOption(part, field.options);
+        if (!option) return { error: `"${part}" is not one of the options` };
+        if (!selected.includes(option)) selected.push(option);
+      }
+      return { value: selected };
+    }
+
+    default: {
+      const error = checkTextRules(field, value);
+      return error ? { error } : { value };
+    }
+  }
+}
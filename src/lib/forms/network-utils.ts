@@ -0,0 +1,22 @@
+const TRANSIENT_MESSAGE = /failed to fetch|networkerror|network request failed|load failed|timed? ?out/i;
+
+/**
+ * True when a request never got a real answer: the device is offline, fetch
+ * itself threw, the request timed out or the gateway returned a 5xx. These
+ * are worth retrying; anything else is the server rejecting the request and
+ * will fail the same way again.
+ */
+export function isTransientError(error: unknown, status?: number): boolean {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  if (error instanceof TypeError) return true;
+
+  const details = (error && typeof error === 'object' ? error : {}) as { name?: string; message?: string; status?: number };
+  const httpStatus = status ?? details.status;
+  if (httpStatus !== undefined && (httpStatus === 0 || httpStatus === 408 || httpStatus === 429 || httpStatus >= 500)) {
+    return true;
+  }
+
+  return details.name === 'AbortError' ||
+    details.name === 'AuthRetryableFetchError' ||
+    TRANSIENT_MESSAGE.test(details.message || '');
+}
@@ -0,0 +1,63 @@
+const DB_NAME = 'fieldpecker-offline';
+const DB_VERSION = 1;
+
+export type OfflineStoreName = 'drafts' | 'outbox' | 'form_cache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      (['drafts', 'outbox', 'form_cache'] as OfflineStoreName[]).forEach(name => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'id' });
+        }
+      });
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+async function runRequest<T>(
+  storeName: OfflineStoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function getRecord<T>(storeName: OfflineStoreName, id: string): Promise<T | undefined> {
+  return runRequest<T | undefined>(storeName, 'readonly', store => store.get(id));
+}
+
+export function getAllRecords<T>(storeName: OfflineStoreName): Promise<T[]> {
+  return runRequest<T[]>(storeName, 'readonly', store => store.getAll());
+}
+
+export async function putRecord<T extends { id: string }>(storeName: OfflineStoreName, record: T): Promise<void> {
+  await runRequest(storeName, 'readwrite', store => store.put(record));
+}
+
+export async function deleteRecord(storeName: OfflineStoreName, id: string): Promise<void> {
+  await runRequest(storeName, 'readwrite', store => store.delete(id));
+}
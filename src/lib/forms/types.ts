@@ -1,3 +1,17 @@
+export type GeofenceAction = 'flag' | 'block';
+
+export type GeofenceStatus = 'inside' | 'outside' | 'no_location' | 'no_customer_location';
+
+export type ApprovalStageApproverType = 'role' | 'level';
+
+export interface ApprovalStage {
+  id: string;
+  name: string;
+  approver_type: ApprovalStageApproverType;
+  role_name?: string;
+  max_level?: number;
+}
+
 export interface Form {
   id: string;
   org_id: string;
@@ -8,14 +22,41 @@ export interface Form {
   department_id?: string;
   created_by?: string;
   attach_to_customer: boolean;
+  require_location: boolean;
+  geofence_radius_m?: number | null;
+  geofence_action: GeofenceAction;
+  approval_stages: ApprovalStage[];
   cycles_per_month: 1 | 2 | 3 | 4;
   enable_freeze: boolean;
   cycle_freeze_duration?: string;
   is_active: boolean;
+  current_version_id?: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface FormVersion {
+  id: string;
+  form_id: string;
+  version_number: number;
+  title: string;
+  form_schema: FormField[];
+  created_by?: string;
+  created_at: string;
+}
+
+export interface FormFieldChange {
+  before: FormField;
+  after: FormField;
+  changes: string[];
+}
+
+export interface FormVersionDiff {
+  added: FormField[];
+  removed: FormField[];
+  changed: FormFieldChange[];
+}
+
 export type InputMaskType = 'none' | 'phone' | 'numeric' | 'alpha' | 'alphanumeric' | 'currency' | 'custom';
 
 export interface InputMask {
@@ -27,13 +68,78 @@ export interface InputMask {
   suffix?: string;
 }
 
+export type FieldConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'greater_than'
+  | 'less_than'
+  | 'is_empty'
+  | 'is_not_empty';
+
+export interface FieldCondition {
+  fieldId: string;
+  operator: FieldConditionOperator;
+  value?: string;
+}
+
+export interface FieldConditionGroup {
+  match: 'all' | 'any';
+  conditions: FieldCondition[];
+}
+
+export interface FormFieldUploadSettings {
+  maxSizeMB?: number;
+  allowedTypes?: string[];
+  maxFiles?: number;
+  maxDimension?: number;
+}
+
+export interface PendingUpload {
+  id: string;
+  pending: true;
+  filename: string;
+  type: string;
+  size: number;
+  data: string;
+  thumbnail?: string;
+}
+
+export interface StoredUpload {
+  id: string;
+  path: string;
+  thumbnail_path?: string;
+  filename: string;
+  type: string;
+  size: number;
+}
+
+export type FormUploadValue = PendingUpload | StoredUpload;
+
+export interface FormFieldCalculation {
+  formula: string;
+  decimals?: number;
+  format?: 'number' | 'percent';
+}
+
+export interface FormFieldRepeat {
+  minItems?: number;
+  maxItems?: number;
+  addLabel?: string;
+}
+
+export type FormGroupEntry = Record<string, unknown>;
+
 export interface FormField {
   id: string;
-  type: 'text' | 'number' | 'email' | 'phone' | 'select' | 'multiselect' | 'textarea' | 'date' | 'time' | 'checkbox' | 'radio' | 'file' | 'image';
+  type: 'text' | 'number' | 'email' | 'phone' | 'select' | 'multiselect' | 'textarea' | 'date' | 'time' | 'checkbox' | 'radio' | 'file' | 'image' | 'calculated' | 'section' | 'group';
   label: string;
+  description?: string;
   placeholder?: string;
   required: boolean;
   options?: string[];
+  optionScores?: Record<string, number>;
   dateRestriction?: 'none' | 'past' | 'future' | 'today-future' | 'today-past';
   inputMask?: InputMask;
   validation?: {
@@ -43,6 +149,12 @@ export interface FormField {
     minLength?: number;
     maxLength?: number;
   };
+  upload?: FormFieldUploadSettings;
+  calculation?: FormFieldCalculation;
+  fields?: FormField[];
+  repeat?: FormFieldRepeat;
+  showWhen?: FieldConditionGroup;
+  requiredWhen?: FieldConditionGroup;
   order: number;
 }
 
@@ -78,9 +190,27 @@ export interface FormSubmissionLog {
   updated_at: string;
 }
 
+export type FormSubmissionStatus = 'pending' | 'approved' | 'rejected' | 'returned';
+
+export type FormReviewAction = 'approved' | 'rejected' | 'returned' | 'resubmitted';
+
+export interface FormSubmissionReview {
+  id: string;
+  org_id: string;
+  submission_id: string;
+  stage_index: number;
+  stage_name?: string;
+  action: FormReviewAction;
+  reviewer_id?: string;
+  reviewer_name?: string;
+  notes?: string;
+  created_at: string;
+}
+
 export interface FormSubmission {
   id: string;
   form_id: string;
+  form_version_id?: string;
   agent_id: string;
   log_id?: string;
   submission_data: Record<string, any>;
@@ -88,7 +218,8 @@ export interface FormSubmission {
   submitted_by?: string;
   latitude?: number;
   longitude?: number;
-  status: 'pending' | 'approved' | 'rejected';
+  status: FormSubmissionStatus;
+  current_stage: number;
   approved_by?: string;
   approved_at?: string;
   rejected_by?: string;
@@ -102,6 +233,8 @@ export interface FormSubmission {
   supervisor_code?: string;
   form_started_at?: string;
   form_end_time?: string;
+  distance_from_customer_m?: number | null;
+  geofence_status?: GeofenceStatus | null;
   submitted_at: string;
   updated_at: string;
   customer_name?: string;
@@ -129,6 +262,10 @@ export interface CreateFormData {
   form_schema: FormField[];
   department_id?: string;
   attach_to_customer: boolean;
+  require_location?: boolean;
+  geofence_radius_m?: number | null;
+  geofence_action?: GeofenceAction;
+  approval_stages?: ApprovalStage[];
   cycles_per_month: 1 | 2 | 3 | 4;
   enable_freeze: boolean;
   cycle_freeze_duration?: string;
@@ -148,17 +285,78 @@ export interface SubmitFormData {
   supervisor_name?: string;
   supervisor_code?: string;
   form_started_at?: string;
+  idempotency_key?: string;
 }
 
 export interface SubmitFormResponse {
   success: boolean;
   submission_id?: string;
   cycle_number?: number;
+  form_version_id?: string;
+  duplicate?: boolean;
+  distance_m?: number | null;
+  radius_m?: number;
+  geofence_status?: GeofenceStatus | null;
   frozen_until?: string;
+  message?: string;
   error?: string;
   details?: any;
 }
 
+export interface FormDraft {
+  id: string;
+  form_id: string;
+  agent_id: string;
+  form_data: Record<string, unknown>;
+  form_started_at?: string;
+  updated_at: string;
+}
+
+export type OutboxEntryStatus = 'queued' | 'syncing' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  form_title: string;
+  payload: SubmitFormData;
+  status: OutboxEntryStatus;
+  attempts: number;
+  last_error?: string;
+  queued_at: string;
+  last_attempt_at?: string;
+  next_attempt_at?: string;
+}
+
+export interface OutboxState {
+  online: boolean;
+  syncing: boolean;
+  entries: OutboxEntry[];
+}
+
+export type ImportSystemColumn =
+  | 'agent_code'
+  | 'supervisor_code'
+  | 'cycle_number'
+  | 'submitted_at'
+  | 'status'
+  | 'latitude'
+  | 'longitude';
+
+export interface FormImportMapping {
+  fields: Record<string, string>;
+  system: Partial<Record<ImportSystemColumn, string>>;
+}
+
+export interface FormImportPreset {
+  id: string;
+  org_id: string;
+  form_id: string;
+  name: string;
+  mapping: FormImportMapping;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface AttachFormData {
   form_id: string;
   customer_ids: string[];
@@ -0,0 +1,34 @@
+import type { AssignmentStrategy, IssueAssignmentRuleInput } from './types';
+
+export const ASSIGNMENT_STRATEGY_LABELS: Record<AssignmentStrategy, string> = {
+  user: 'Specific user',
+  round_robin: 'Round-robin pool',
+  least_loaded: 'Least-loaded team member'
+};
+
+export const ASSIGNMENT_STRATEGY_DESCRIPTIONS: Record<AssignmentStrategy, string> = {
+  user: 'Every matching issue goes to the same person',
+  round_robin: 'Matching issues rotate through the pool in order',
+  least_loaded: "Goes to whoever in the lead's team has the fewest open issues"
+};
+
+/** Drops targets that do not belong to the chosen strategy so stale picks are not saved. */
+export function normalizeAssignmentRule(rule: IssueAssignmentRuleInput): IssueAssignmentRuleInput {
+  return {
+    ...rule,
+    name: rule.name.trim(),
+    target_user_id: rule.strategy === 'user' ? rule.target_user_id : null,
+    pool_user_ids: rule.strategy === 'round_robin' ? rule.pool_user_ids : [],
+    team_lead_id: rule.strategy === 'least_loaded' ? rule.team_lead_id : null
+  };
+}
+
+export function validateAssignmentRule(rule: IssueAssignmentRuleInput): string | null {
+  if (!rule.name.trim()) return 'Rule name is required';
+  if (rule.strategy === 'user' && !rule.target_user_id) return 'Choose the user to assign to';
+  if (rule.strategy === 'round_robin' && rule.pool_user_ids.length < 2) {
+    return 'A round-robin pool needs at least two users';
+  }
+  if (rule.strategy === 'least_loaded' && !rule.team_lead_id) return 'Choose the team lead whose team takes these issues';
+  return null;
+}
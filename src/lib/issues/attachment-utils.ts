@@ -0,0 +1,47 @@
+import type { IssueAttachment, IssueAttachmentSettings } from './types';
+
+export const ISSUE_ATTACHMENTS_BUCKET = 'issue-attachments';
+
+/** Lifetime of the signed links handed out when attachments are listed. */
+export const ATTACHMENT_URL_TTL_SECONDS = 60 * 60;
+
+export const DEFAULT_ATTACHMENT_SETTINGS: Omit<IssueAttachmentSettings, 'org_id'> = {
+  max_file_size_mb: 10,
+  max_files_per_issue: 20
+};
+
+export function isImageAttachment(attachment: Pick<IssueAttachment, 'file_type'>): boolean {
+  return !!attachment.file_type?.startsWith('image/');
+}
+
+export function formatFileSize(bytes: number | null): string {
+  if (!bytes) return '—';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Mirrors `enforce_issue_attachment_limits` so users get feedback before uploading. */
+export function validateAttachmentFile(
+  file: File,
+  settings: Omit<IssueAttachmentSettings, 'org_id'>,
+  existingCount: number
+): string | null {
+  if (existingCount >= settings.max_files_per_issue) {
+    return `Issues can have at most ${settings.max_files_per_issue} attachments`;
+  }
+  if (file.size > settings.max_file_size_mb * 1024 * 1024) {
+    return `${file.name} is larger than ${settings.max_file_size_mb} MB`;
+  }
+  return null;
+}
+
+export function validateAttachmentSettings(settings: Omit<IssueAttachmentSettings, 'org_id'>): string | null {
+  if (settings.max_file_size_mb < 1 || settings.max_file_size_mb > 50) {
+    return 'File size limit must be between 1 and 50 MB';
+  }
+  if (settings.max_files_per_issue < 1 || settings.max_files_per_issue > 100) {
+    return 'Files per issue must be between 1 and 100';
+  }
+  return null;
+}
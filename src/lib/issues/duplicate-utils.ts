@@ -0,0 +1,77 @@
+import type { DuplicateCheckInput, IssueDuplicateCandidate, IssueLink, IssueSummary } from './types';
+
+export const DUPLICATE_WINDOW_DAYS = 7;
+
+/** Candidates below this score are not suggested. */
+export const DUPLICATE_MIN_SCORE = 0.45;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'at', 'by', 'for', 'from', 'in', 'is', 'it', 'not', 'of', 'on', 'or', 'the', 'to', 'with'
+]);
+
+export function titleTokens(title: string): Set<string> {
+  return new Set(
+    title
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+  );
+}
+
+/** Dice coefficient over title words, 0 (nothing shared) to 1 (same words). */
+export function titleSimilarity(a: string, b: string): number {
+  const tokensA = titleTokens(a);
+  const tokensB = titleTokens(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) shared++;
+  });
+  return (2 * shared) / (tokensA.size + tokensB.size);
+}
+
+/**
+ * Title similarity carries most of the weight; a shared customer or category
+ * lifts borderline titles over the threshold. Same-customer reports matter
+ * most because several agents tend to report one customer's outage.
+ */
+export function scoreDuplicate(
+  input: DuplicateCheckInput,
+  candidate: IssueDuplicateCandidate['issue']
+): IssueDuplicateCandidate {
+  const similarity = titleSimilarity(input.title, candidate.title);
+  const reasons: string[] = [];
+  let score = similarity * 0.6;
+
+  if (similarity >= 0.5) reasons.push('Similar title');
+
+  if (input.customer_id && candidate.customer_id === input.customer_id) {
+    score += 0.3;
+    reasons.push('Same customer');
+  }
+
+  if (input.category_id && candidate.category_id === input.category_id) {
+    score += 0.1;
+    reasons.push('Same category');
+  }
+
+  return { issue: candidate, score: Math.round(score * 100) / 100, reasons };
+}
+
+export const LINK_TYPE_LABELS = {
+  parent: 'Parent / child',
+  related: 'Related to'
+} as const;
+
+/** How `link` reads from the point of view of `issueId`, with the other issue. */
+export function describeLink(
+  link: IssueLink,
+  issueId: string
+): { label: string; other: IssueSummary | undefined } {
+  const isSource = link.source_issue_id === issueId;
+  const other = isSource ? link.target_issue : link.source_issue;
+
+  if (link.link_type === 'related') return { label: 'Related to', other };
+  return { label: isSource ? 'Parent of' : 'Child of', other };
+}
@@ -1,4 +1,6 @@
 import { supabase } from '../supabase/client';
+import { ATTACHMENT_URL_TTL_SECONDS, ISSUE_ATTACHMENTS_BUCKET } from './attachment-utils';
+import { DUPLICATE_MIN_SCORE, DUPLICATE_WINDOW_DAYS, scoreDuplicate } from './duplicate-utils';
 import type {
   Issue,
   IssueCategory,
@@ -11,7 +13,31 @@ import type {
   StatusChangeData,
   IssueFilters,
   IssueStats,
-  IssueWithDetails
+  IssueWithDetails,
+  IssueSlaPolicy,
+  IssueSlaPolicyInput,
+  IssueSlaSettings,
+  IssueEscalation,
+  IssueStatusTransition,
+  IssueStatusTransitionInput,
+  IssueAssignmentRule,
+  IssueAssignmentRuleInput,
+  IssueAttachment,
+  IssueAttachmentSettings,
+  IssueLink,
+  IssueLinkType,
+  IssueSummary,
+  IssueDuplicateCandidate,
+  DuplicateCheckInput,
+  BulkIssueChanges,
+  BulkUpdateResult,
+  IssueChecklistItem,
+  IssueRecurringTemplate,
+  IssueRecurringTemplateInput,
+  IssueTrackingLink,
+  CreatedTrackingLink,
+  IssueTrackingView,
+  IssueTrackingComment
 } from './types';
 
 export class IssueService {
@@ -72,6 +98,12 @@ export class IssueService {
         .single();
 
       if (error) throw error;
+
+      if (!data.assigned_to && issue) {
+        const routed = await this.applyAssignmentRules((issue as Issue).id);
+        if (routed) return routed;
+      }
+
       return issue;
     } catch (error) {
       console.error('Error creating issue:', error);
@@ -138,17 +170,23 @@ export class IssueService {
 
       if (!currentIssue) throw new Error('Issue not found');
 
-      const { error: commentError } = await supabase
-        .from('status_change_comments')
-        .insert({
-          issue_id: issueId,
-          old_status: currentIssue.status,
-          new_status: statusData.newStatus,
-          comment: statusData.comment,
-          changed_by: user.id
-        });
-
-      if (commentError) throw commentError;
+      // Configured statuses go through the transition rules, which also
+      // record the comment
+      if (statusData.statusId) {
+        await this.transitionStatus(issueId, statusData.statusId, statusData.comment, statusData.actionTaken);
+      } else {
+        const { error: commentError } = await supabase
+          .from('status_change_comments')
+          .insert({
+            issue_id: issueId,
+            old_status: currentIssue.status,
+            new_status: statusData.newStatus,
+            comment: statusData.comment,
+            changed_by: user.id
+          });
+
+        if (commentError) throw commentError;
+      }
 
       const updateData: any = {
         status: statusData.newStatus,
@@ -157,10 +195,6 @@ export class IssueService {
         updated_at: new Date().toISOString()
       };
 
-      if (statusData.statusId) {
-        updateData.status_id = statusData.statusId;
-      }
-
       if (statusData.newStatus === 'resolved') {
         updateData.resolved_by = user.id;
         updateData.resolved_at = new Date().toISOString();
@@ -186,6 +220,31 @@ export class IssueService {
     }
   }
 
+  /**
+   * Applies the same changes to many issues in one server call. Each issue
+   * is checked on its own (permissions, transition rules), so some may fail
+   * while the rest are updated; failures come back with a reason.
+   */
+  static async bulkUpdateIssues(
+    issueIds: string[],
+    changes: BulkIssueChanges,
+    comment?: string
+  ): Promise<BulkUpdateResult> {
+    try {
+      const { data, error } = await supabase.rpc('bulk_update_issues', {
+        p_issue_ids: issueIds,
+        p_changes: changes,
+        p_comment: comment || null
+      });
+
+      if (error) throw new Error(error.message);
+      return data as BulkUpdateResult;
+    } catch (error) {
+      console.error('Error bulk updating issues:', error);
+      throw error;
+    }
+  }
+
   static async getIssue(issueId: string): Promise<Issue | null> {
     try {
       const { data, error } = await supabase
@@ -394,6 +453,7 @@ export class IssueService {
         resolved: 0,
         closed: 0,
         on_hold: 0,
+        sla_breached: 0,
         by_priority: {
           low: 0,
           medium: 0,
@@ -405,6 +465,9 @@ export class IssueService {
       issues.forEach(issue => {
         stats[issue.status]++;
         stats.by_priority[issue.priority]++;
+        if (issue.sla_breached_at && !issue.sla_resolved_at) {
+          stats.sla_breached++;
+        }
       });
 
       return stats;
@@ -418,6 +481,7 @@ export class IssueService {
         resolved: 0,
         closed: 0,
         on_hold: 0,
+        sla_breached: 0,
         by_priority: { low: 0, medium: 0, high: 0, critical: 0 }
       };
     }
@@ -467,6 +531,84 @@ export class IssueService {
     }
   }
 
+  static async getTrackingLinks(issueId: string): Promise<IssueTrackingLink[]> {
+    try {
+      const { data, error } = await supabase
+        .from('issue_tracking_links')
+        .select('id, org_id, issue_id, contact_name, expires_at, revoked_at, revoked_by, view_count, last_viewed_at, created_by, created_at')
+        .eq('issue_id', issueId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as IssueTrackingLink[];
+    } catch (error) {
+      console.error('Error fetching tracking links:', error);
+      return [];
+    }
+  }
+
+  /** The token is only available here; the database keeps just its hash. */
+  static async createTrackingLink(
+    issueId: string,
+    expiresInDays: number,
+    contactName?: string
+  ): Promise<CreatedTrackingLink> {
+    try {
+      const { data, error } = await supabase.rpc('create_issue_tracking_link', {
+        p_issue_id: issueId,
+        p_expires_in_days: expiresInDays,
+        p_contact_name: contactName || null
+      });
+
+      if (error) throw new Error(error.message);
+      return data as CreatedTrackingLink;
+    } catch (error) {
+      console.error('Error creating tracking link:', error);
+      throw error;
+    }
+  }
+
+  static async revokeTrackingLink(linkId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase.rpc('revoke_issue_tracking_link', { p_link_id: linkId });
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error revoking tracking link:', error);
+      return false;
+    }
+  }
+
+  /** Public: works without a session. */
+  static async getTrackingView(token: string): Promise<IssueTrackingView> {
+    try {
+      const { data, error } = await supabase.rpc('get_issue_tracking_view', { p_token: token });
+
+      if (error) throw new Error(error.message);
+      return data as IssueTrackingView;
+    } catch (error) {
+      console.error('Error loading tracking view:', error);
+      throw error;
+    }
+  }
+
+  /** Public: works without a session. */
+  static async addTrackingReply(token: string, message: string): Promise<IssueTrackingComment> {
+    try {
+      const { data, error } = await supabase.rpc('add_issue_tracking_reply', {
+        p_token: token,
+        p_message: message
+      });
+
+      if (error) throw new Error(error.message);
+      return data as IssueTrackingComment;
+    } catch (error) {
+      console.error('Error adding tracking reply:', error);
+      throw error;
+    }
+  }
+
   static async getHistory(issueId: string): Promise<IssueHistory[]> {
     try {
       const { data, error } = await supabase
@@ -505,6 +647,166 @@ export class IssueService {
     }
   }
 
+  static async getAttachments(issueId: string): Promise<IssueAttachment[]> {
+    try {
+      const { data, error } = await supabase
+        .from('issue_attachments')
+        .select(`
+          *,
+          uploader:users!issue_attachments_uploaded_by_fkey(full_name)
+        `)
+        .eq('issue_id', issueId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return await this.signAttachmentUrls((data || []) as IssueAttachment[]);
+    } catch (error) {
+      console.error('Error fetching attachments:', error);
+      return [];
+    }
+  }
+
+  /**
+   * The bucket is private: swaps in a short-lived signed link for every
+   * attachment kept in storage. Older rows without a storage path keep the
+   * URL they were saved with.
+   */
+  private static async signAttachmentUrls(attachments: IssueAttachment[]): Promise<IssueAttachment[]> {
+    const paths = attachments.map(a => a.storage_path).filter((path): path is string => !!path);
+    if (paths.length === 0) return attachments;
+
+    const { data, error } = await supabase.storage
+      .from(ISSUE_ATTACHMENTS_BUCKET)
+      .createSignedUrls(paths, ATTACHMENT_URL_TTL_SECONDS);
+
+    if (error) throw error;
+    const signed = new Map((data || []).map(item => [item.path, item.signedUrl]));
+    return attachments.map(a => a.storage_path
+      ? { ...a, file_url: signed.get(a.storage_path) || '' }
+      : a
+    );
+  }
+
+  /**
+   * Stores the file under `{issue_id}/{attachment_id}` and records it. Org
+   * size and count limits are checked again by the database, whose message
+   * is passed through on rejection.
+   */
+  static async uploadAttachment(issueId: string, file: File): Promise<IssueAttachment | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const attachmentId = crypto.randomUUID();
+    const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : 'bin';
+    const path = `${issueId}/${attachmentId}.${extension}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(ISSUE_ATTACHMENTS_BUCKET)
+      .upload(path, file, { contentType: file.type || undefined });
+
+    if (uploadError) {
+      console.error('Error uploading attachment:', uploadError);
+      throw new Error(`Could not upload ${file.name}`);
+    }
+
+    const { data, error } = await supabase
+      .from('issue_attachments')
+      .insert({
+        id: attachmentId,
+        issue_id: issueId,
+        uploaded_by: user.id,
+        file_name: file.name,
+        file_url: path,
+        file_size: file.size,
+        file_type: file.type || null,
+        storage_path: path
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving attachment:', error);
+      await supabase.storage.from(ISSUE_ATTACHMENTS_BUCKET).remove([path]);
+      throw new Error(error.message);
+    }
+
+    return data as IssueAttachment;
+  }
+
+  static async downloadAttachment(attachment: IssueAttachment): Promise<Blob | null> {
+    try {
+      if (!attachment.storage_path) {
+        const response = await fetch(attachment.file_url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return await response.blob();
+      }
+
+      const { data, error } = await supabase.storage
+        .from(ISSUE_ATTACHMENTS_BUCKET)
+        .download(attachment.storage_path);
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Error downloading attachment:', error);
+      return null;
+    }
+  }
+
+  static async deleteAttachment(attachment: IssueAttachment): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('issue_attachments')
+        .delete()
+        .eq('id', attachment.id);
+
+      if (error) throw error;
+
+      if (attachment.storage_path) {
+        const { error: storageError } = await supabase.storage
+          .from(ISSUE_ATTACHMENTS_BUCKET)
+          .remove([attachment.storage_path]);
+
+        if (storageError) console.error('Error removing attachment file:', storageError);
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+      return false;
+    }
+  }
+
+  static async getAttachmentSettings(orgId: string): Promise<IssueAttachmentSettings | null> {
+    try {
+      const { data, error } = await supabase
+        .from('issue_attachment_settings')
+        .select('org_id, max_file_size_mb, max_files_per_issue')
+        .eq('org_id', orgId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as IssueAttachmentSettings | null;
+    } catch (error) {
+      console.error('Error fetching attachment settings:', error);
+      return null;
+    }
+  }
+
+  static async saveAttachmentSettings(settings: IssueAttachmentSettings): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('issue_attachment_settings')
+        .upsert({ ...settings, updated_at: new Date().toISOString() });
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error saving attachment settings:', error);
+      return false;
+    }
+  }
+
   static async getCategories(orgId: string): Promise<IssueCategory[]> {
     try {
       const { data, error } = await supabase
@@ -670,4 +972,659 @@ export class IssueService {
       return false;
     }
   }
+
+  static async getSlaPolicies(orgId: string): Promise<IssueSlaPolicy[]> {
+    try {
+      const { data, error } = await supabase
+        .from('issue_sla_policies')
+        .select('*')
+        .eq('org_id', orgId)
+        .order('created_at');
+
+      if (error) throw error;
+      return (data || []) as IssueSlaPolicy[];
+    } catch (error) {
+      console.error('Error fetching SLA policies:', error);
+      return [];
+    }
+  }
+
+  static async saveSlaPolicy(orgId: string, policy: IssueSlaPolicyInput, policyId?: string): Promise<IssueSlaPolicy | null> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = policyId
+        ? await supabase
+          .from('issue_sla_policies')
+          .update(policy)
+          .eq('id', policyId)
+          .select()
+          .single()
+        : await supabase
+          .from('issue_sla_policies')
+          .insert({ ...policy, org_id: orgId, created_by: user.id })
+          .select()
+          .single();
+
+      if (error) throw error;
+      return data as IssueSlaPolicy;
+    } catch (error) {
+      console.error('Error saving SLA policy:', error);
+      throw error;
+    }
+  }
+
+  static async setSlaPolicyActive(policyId: string, isActive: boolean): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('issue_sla_policies')
+        .update({ is_active: isActive })
+        .eq('id', policyId);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error updating SLA policy:', error);
+      return false;
+    }
+  }
+
+  static async deleteSlaPolicy(policyId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('issue_sla_policies')
+        .delete()
+        .eq('id', policyId);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error deleting SLA policy:', error);
+      return false;
+    }
+  }
+
+  static async getSlaSettings(orgId: string): Promise<IssueSlaSettings | null> {
+    try {
+      const { data, error } = await supabase
+        .from('issue_sla_settings')
+        .select('*')
+        .eq('org_id', orgId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as IssueSlaSettings | null;
+    } catch (error) {
+      console.error('Error fetching SLA settings:', error);
+      return null;
+    }
+  }
+
+  static async saveSlaSettings(settings: IssueSlaSettings): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('issue_sla_settings')
+        .upsert({ ...settings, updated_at: new Date().toISOString() });
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error saving SLA settings:', error);
+      return false;
+    }
+  }
+
+  static async getEscalations(issueId: string): Promise<IssueEscalation[]> {
+    try {
+      const { data, error } = await supabase
+        .from('issue_escalations')
+        .select('*')
+        .eq('issue_id', issueId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as IssueEscalation[];
+    } catch (error) {
+      console.error('Error fetching escalations:', error);
+      return [];
+    }
+  }
+
+  static async getOpenEscalationsForUser(userId: string): Promise<IssueEscalation[]> {
+    try {
+      const { data, error } = await supabase
+        .from('issue_escalations')
+        .select('*, issue:issues(id, issue_number, title)')
+        .eq('escalated_to', userId)
+        .is('acknowledged_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as IssueEscalation[];
+    } catch (error) {
+      console.error('Error fetching open escalations:', error);
+      return [];
+    }
+  }
+
+  static async acknowledgeEscalation(escalationId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('issue_escalations')
+        .update({ acknowledged_at: new Date().toISOString() })
+        .eq('id', escalationId);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error acknowledging escalation:', error);
+      return false;
+    }
+  }
+
+  static async getStatusTransitions(orgId: string): Promise<IssueStatusTransition[]> {
+    try {
+      const { data, error } = await supabase
+        .from('issue_status_transitions')
+        .select('*')
+        .eq('org_id', orgId)
+        .order('created_at');
+
+      if (error) throw error;
+      return (data || []) as IssueStatusTransition[];
+    } catch (error) {
+      console.error('Error fetching status transitions:', error);
+      return [];
+    }
+  }
+
+  static async saveStatusTransition(
+    orgId: string,
+    transition: IssueStatusTransitionInput,
+    transitionId?: string
+  ): Promise<IssueStatusTransition | null> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = transitionId
+        ? await supabase
+          .from('issue_status_transitions')
+          .update(transition)
+          .eq('id', transitionId)
+          .select()
+          .single()
+        : await supabase
+          .from('issue_status_transitions')
+          .insert({ ...transition, org_id: orgId, created_by: user.id })
+          .select()
+          .single();
+
+      if (error) throw error;
+      return data as IssueStatusTransition;
+    } catch (error) {
+      console.error('Error saving status transition:', error);
+      throw error;
+    }
+  }
+
+  static async deleteStatusTransition(transitionId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('issue_status_transitions')
+        .delete()
+        .eq('id', transitionId);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error deleting status transition:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Moves an issue to another status through the server-side rule check.
+   * Rejections carry a user-facing message (e.g. a missing attachment).
+   */
+  static async transitionStatus(
+    issueId: string,
+    statusId: string,
+    comment?: string,
+    actionTaken?: string
+  ): Promise<Issue | null> {
+    try {
+      const { data, error } = await supabase.rpc('transition_issue_status', {
+        p_issue_id: issueId,
+        p_status_id: statusId,
+        p_comment: comment || null,
+        p_action_taken: actionTaken || null
+      });
+
+      if (error) throw new Error(error.message);
+      return data as Issue | null;
+    } catch (error) {
+      console.error('Error transitioning issue status:', error);
+      throw error;
+    }
+  }
+
+  static async getAssignmentRules(orgId: string): Promise<IssueAssignmentRule[]> {
+    try {
+      const { data, error } = await supabase
+        .from('issue_assignment_rules')
+        .select('*')
+        .eq('org_id', orgId)
+        .order('sort_order')
+        .order('created_at');
+
+      if (error) throw error;
+      return (data || []) as IssueAssignmentRule[];
+    } catch (error) {
+      console.error('Error fetching assignment rules:', error);
+      return [];
+    }
+  }
+
+  static async saveAssignmentRule(
+    orgId: string,
+    rule: IssueAssignmentRuleInput,
+    ruleId?: string
+  ): Promise<IssueAssignmentRule | null> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      if (ruleId) {
+        const { data, error } = await supabase
+          .from('issue_assignment_rules')
+          .update(rule)
+          .eq('id', ruleId)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data as IssueAssignmentRule;
+      }
+
+      const { data: last } = await supabase
+        .from('issue_assignment_rules')
+        .select('sort_order')
+        .eq('org_id', orgId)
+        .order('sort_order', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const { data, error } = await supabase
+        .from('issue_assignment_rules')
+        .insert({
+          ...rule,
+          org_id: orgId,
+          sort_order: ((last as { sort_order: number } | null)?.sort_order ?? -1) + 1,
+          created_by: user.id
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as IssueAssignmentRule;
+    } catch (error) {
+      console.error('Error saving assignment rule:', error);
+      throw error;
+    }
+  }
+
+  static async setAssignmentRuleActive(ruleId: string, isActive: boolean): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('issue_assignment_rules')
+        .update({ is_active: isActive })
+        .eq('id', ruleId);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error updating assignment rule:', error);
+      return false;
+    }
+  }
+
+  /** Persists the evaluation order; `ruleIds` is the full list, first rule first. */
+  static async reorderAssignmentRules(ruleIds: string[]): Promise<boolean> {
+    try {
+      const results = await Promise.all(
+        ruleIds.map((id, index) =>
+          supabase
+            .from('issue_assignment_rules')
+            .update({ sort_order: index })
+            .eq('id', id)
+        )
+      );
+
+      const failed = results.find(result => result.error);
+      if (failed?.error) throw failed.error;
+      return true;
+    } catch (error) {
+      console.error('Error reordering assignment rules:', error);
+      return false;
+    }
+  }
+
+  static async deleteAssignmentRule(ruleId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('issue_assignment_rules')
+        .delete()
+        .eq('id', ruleId);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error deleting assignment rule:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Routes an unassigned issue through the org's assignment rules. The
+   * matching rule is recorded in the issue history. Routing failures leave
+   * the issue unassigned rather than failing its creation.
+   */
+  static async applyAssignmentRules(issueId: string): Promise<Issue | null> {
+    try {
+      const { data, error } = await supabase.rpc('apply_issue_assignment_rules', { p_issue_id: issueId });
+
+      if (error) throw error;
+      return data as Issue | null;
+    } catch (error) {
+      console.error('Error applying assignment rules:', error);
+      return null;
+    }
+  }
+
+  static async getRecurringTemplates(orgId: string): Promise<IssueRecurringTemplate[]> {
+    try {
+      const { data, error } = await supabase
+        .from('issue_recurring_templates')
+        .select('*')
+        .eq('org_id', orgId)
+        .order('name');
+
+      if (error) throw error;
+      return (data || []) as IssueRecurringTemplate[];
+    } catch (error) {
+      console.error('Error fetching recurring templates:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Saving restarts the schedule from the first occurrence; generation skips
+   * past dates and occurrences that already have an issue.
+   */
+  static async saveRecurringTemplate(
+    orgId: string,
+    template: IssueRecurringTemplateInput,
+    templateId?: string
+  ): Promise<IssueRecurringTemplate | null> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      if (templateId) {
+        const { data, error } = await supabase
+          .from('issue_recurring_templates')
+          .update({ ...template, next_occurrence_index: 0 })
+          .eq('id', templateId)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data as IssueRecurringTemplate;
+      }
+
+      const { data, error } = await supabase
+        .from('issue_recurring_templates')
+        .insert({ ...template, org_id: orgId, created_by: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as IssueRecurringTemplate;
+    } catch (error) {
+      console.error('Error saving recurring template:', error);
+      throw error;
+    }
+  }
+
+  static async setRecurringTemplateActive(templateId: string, isActive: boolean): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('issue_recurring_templates')
+        .update({ is_active: isActive })
+        .eq('id', templateId);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error updating recurring template:', error);
+      return false;
+    }
+  }
+
+  static async deleteRecurringTemplate(templateId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('issue_recurring_templates')
+        .delete()
+        .eq('id', templateId);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error deleting recurring template:', error);
+      return false;
+    }
+  }
+
+  /** Creates issues for every template occurrence that is due. Returns how many were created. */
+  static async generateRecurringIssues(orgId: string): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc('generate_recurring_issues', { p_org_id: orgId });
+
+      if (error) throw error;
+      return (data as number | null) || 0;
+    } catch (error) {
+      console.error('Error generating recurring issues:', error);
+      return 0;
+    }
+  }
+
+  /** Issues generated from templates with a due date in `[from, to]` (YYYY-MM-DD). */
+  static async getRecurringIssues(orgId: string, from: string, to: string): Promise<Issue[]> {
+    try {
+      const { data, error } = await supabase
+        .from('issues')
+        .select('*')
+        .eq('org_id', orgId)
+        .not('recurring_template_id', 'is', null)
+        .gte('recurrence_date', from)
+        .lte('recurrence_date', to)
+        .order('recurrence_date');
+
+      if (error) throw error;
+      return (data || []) as Issue[];
+    } catch (error) {
+      console.error('Error fetching recurring issues:', error);
+      return [];
+    }
+  }
+
+  static async updateChecklist(issueId: string, checklist: IssueChecklistItem[]): Promise<boolean> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('issues')
+        .update({
+          checklist,
+          last_modified_by: user.id,
+          last_modified_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', issueId);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error updating checklist:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Open issues reported in the last `windowDays` that look like the one
+   * being created, best match first.
+   */
+  static async findPossibleDuplicates(
+    orgId: string,
+    input: DuplicateCheckInput,
+    windowDays: number = DUPLICATE_WINDOW_DAYS
+  ): Promise<IssueDuplicateCandidate[]> {
+    try {
+      if (!input.title.trim()) return [];
+
+      const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000).toISOString();
+      const { data, error } = await supabase
+        .from('issues')
+        .select(`
+          id, issue_number, title, status, priority, created_at, customer_id, category_id,
+          custom_status:issue_statuses!issues_status_id_fkey(is_closed)
+        `)
+        .eq('org_id', orgId)
+        .is('duplicate_of_id', null)
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .limit(200);
+
+      if (error) throw error;
+
+      type Row = IssueDuplicateCandidate['issue'] & { custom_status: { is_closed: boolean } | null };
+      return ((data || []) as unknown as Row[])
+        .filter(row => !(row.custom_status?.is_closed ?? ['resolved', 'closed'].includes(row.status)))
+        .map(row => scoreDuplicate(input, row))
+        .filter(candidate => candidate.score >= DUPLICATE_MIN_SCORE)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 5);
+    } catch (error) {
+      console.error('Error finding possible duplicates:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Closes `issueId` as a duplicate of `masterId`. With `merge`, its work
+   * notes and attachments move to the master and its history is copied.
+   */
+  static async markDuplicate(issueId: string, masterId: string, merge: boolean): Promise<Issue | null> {
+    try {
+      const { data, error } = await supabase.rpc('mark_issue_duplicate', {
+        p_issue_id: issueId,
+        p_master_id: masterId,
+        p_merge: merge
+      });
+
+      if (error) throw new Error(error.message);
+      return data as Issue | null;
+    } catch (error) {
+      console.error('Error marking issue as duplicate:', error);
+      throw error;
+    }
+  }
+
+  static async getDuplicates(masterId: string): Promise<IssueSummary[]> {
+    try {
+      const { data, error } = await supabase
+        .from('issues')
+        .select('id, issue_number, title, status, priority, created_at')
+        .eq('duplicate_of_id', masterId)
+        .order('created_at');
+
+      if (error) throw error;
+      return (data || []) as IssueSummary[];
+    } catch (error) {
+      console.error('Error fetching duplicates:', error);
+      return [];
+    }
+  }
+
+  static async getIssueLinks(issueId: string): Promise<IssueLink[]> {
+    try {
+      const { data, error } = await supabase
+        .from('issue_links')
+        .select(`
+          *,
+          source_issue:issues!issue_links_source_issue_id_fkey(id, issue_number, title, status, priority, created_at),
+          target_issue:issues!issue_links_target_issue_id_fkey(id, issue_number, title, status, priority, created_at)
+        `)
+        .or(`source_issue_id.eq.${issueId},target_issue_id.eq.${issueId}`)
+        .order('created_at');
+
+      if (error) throw error;
+      return (data || []) as IssueLink[];
+    } catch (error) {
+      console.error('Error fetching issue links:', error);
+      return [];
+    }
+  }
+
+  /** For `parent` links the source is the parent and the target the child. */
+  static async linkIssues(
+    orgId: string,
+    sourceIssueId: string,
+    targetIssueId: string,
+    linkType: IssueLinkType
+  ): Promise<IssueLink | null> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('issue_links')
+        .insert({
+          org_id: orgId,
+          source_issue_id: sourceIssueId,
+          target_issue_id: targetIssueId,
+          link_type: linkType,
+          created_by: user.id
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(error.code === '23505' ? 'These issues are already linked' : error.message);
+      }
+      return data as IssueLink;
+    } catch (error) {
+      console.error('Error linking issues:', error);
+      throw error;
+    }
+  }
+
+  static async unlinkIssues(linkId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('issue_links')
+        .delete()
+        .eq('id', linkId);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error removing issue link:', error);
+      return false;
+    }
+  }
 }
@@ -0,0 +1,122 @@
+import type {
+  IssueRecurringTemplate,
+  IssueRecurringTemplateInput,
+  RecurrenceFrequency,
+  RecurringOccurrence
+} from './types';
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, { one: string; many: string }> = {
+  daily: { one: 'day', many: 'days' },
+  weekly: { one: 'week', many: 'weeks' },
+  monthly: { one: 'month', many: 'months' },
+  yearly: { one: 'year', many: 'years' }
+};
+
+/** Projection stops after this many occurrences per template. */
+const MAX_PROJECTED_OCCURRENCES = 400;
+
+function parseDate(value: string): Date {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function toDateKey(date: Date): string {
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0')
+  ].join('-');
+}
+
+function addMonths(start: Date, months: number): Date {
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), lastDay)));
+}
+
+/**
+ * Date of the n-th occurrence (0 is the start date). Mirrors
+ * `recurring_issue_occurrence` in the database, including month-end clamping.
+ */
+export function occurrenceDate(
+  startDate: string,
+  frequency: RecurrenceFrequency,
+  interval: number,
+  n: number
+): string {
+  const start = parseDate(startDate);
+  let date: Date;
+
+  if (frequency === 'daily') {
+    date = new Date(start.getTime() + n * interval * 86400000);
+  } else if (frequency === 'weekly') {
+    date = new Date(start.getTime() + n * interval * 7 * 86400000);
+  } else {
+    date = addMonths(start, n * interval * (frequency === 'yearly' ? 12 : 1));
+  }
+
+  return date.toISOString().slice(0, 10);
+}
+
+/** Occurrences in `[from, to]` that have not been generated yet and are not in the past. */
+export function upcomingOccurrences(
+  template: IssueRecurringTemplate,
+  from: string,
+  to: string
+): RecurringOccurrence[] {
+  const today = toDateKey(new Date());
+  const occurrences: RecurringOccurrence[] = [];
+
+  for (let i = 0; i < MAX_PROJECTED_OCCURRENCES; i++) {
+    const date = occurrenceDate(
+      template.start_date,
+      template.frequency,
+      template.interval_count,
+      template.next_occurrence_index + i
+    );
+
+    if (date > to || (template.end_date && date > template.end_date)) break;
+    if (date >= from && date >= today) occurrences.push({ template, date });
+  }
+
+  return occurrences;
+}
+
+export function describeRecurrence(
+  template: Pick<IssueRecurringTemplate, 'frequency' | 'interval_count' | 'start_date' | 'end_date'>
+): string {
+  const unit = FREQUENCY_LABELS[template.frequency];
+  const every = template.interval_count === 1 ? `Every ${unit.one}` : `Every ${template.interval_count} ${unit.many}`;
+  const from = parseDate(template.start_date).toLocaleDateString(undefined, { timeZone: 'UTC' });
+  const until = template.end_date
+    ? ` until ${parseDate(template.end_date).toLocaleDateString(undefined, { timeZone: 'UTC' })}`
+    : '';
+  return `${every} from ${from}${until}`;
+}
+
+export function validateRecurringTemplate(template: IssueRecurringTemplateInput): string | null {
+  if (!template.name.trim()) return 'Template name is required';
+  if (!template.title.trim()) return 'Issue title is required';
+  if (!template.start_date) return 'Start date is required';
+  if (template.end_date && template.end_date < template.start_date) return 'End date must be after the start date';
+  if (!Number.isInteger(template.interval_count) || template.interval_count < 1 || template.interval_count > 365) {
+    return 'Repeat interval must be between 1 and 365';
+  }
+  if (!Number.isInteger(template.lead_days) || template.lead_days < 0 || template.lead_days > 90) {
+    return 'Create-ahead days must be between 0 and 90';
+  }
+  return null;
+}
+
+/** Trims text fields and drops blank checklist items before saving. */
+export function normalizeRecurringTemplate(template: IssueRecurringTemplateInput): IssueRecurringTemplateInput {
+  return {
+    ...template,
+    name: template.name.trim(),
+    title: template.title.trim(),
+    description: template.description?.trim() || null,
+    checklist: template.checklist.map(item => item.trim()).filter(Boolean),
+    end_date: template.end_date || null
+  };
+}
@@ -0,0 +1,149 @@
+import type {
+  Issue,
+  IssueSlaPolicyInput,
+  IssueSlaSettings,
+  IssueSlaStatus,
+  SlaEscalationAction,
+  SlaState
+} from './types';
+
+export const DEFAULT_SLA_SETTINGS: Omit<IssueSlaSettings, 'org_id'> = {
+  timezone: 'UTC',
+  work_days: [1, 2, 3, 4, 5],
+  work_start: '08:00',
+  work_end: '17:00',
+  at_risk_percent: 80
+};
+
+export const SLA_STATE_LABELS: Record<SlaState, string> = {
+  none: 'No SLA',
+  on_track: 'On track',
+  at_risk: 'At risk',
+  paused: 'Paused',
+  met: 'Met',
+  breached: 'Breached'
+};
+
+export const SLA_ESCALATION_LABELS: Record<SlaEscalationAction, string> = {
+  none: 'No escalation',
+  notify_manager: "Notify assignee's manager",
+  reassign_manager: "Reassign to assignee's manager"
+};
+
+/** ISO weekday numbers as stored in `work_days`, Monday first. */
+export const SLA_WEEKDAYS: { value: number; label: string }[] = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 7, label: 'Sun' }
+];
+
+// Worst first, so the overall badge reflects the target most in trouble
+const STATE_SEVERITY: SlaState[] = ['breached', 'at_risk', 'paused', 'on_track', 'met', 'none'];
+
+/**
+ * State of a single target. Due dates already include business hours and
+ * time spent on hold, so "at risk" is judged on the wall-clock share of the
+ * window that has elapsed.
+ */
+export function getSlaTargetState(
+  startAt: string,
+  dueAt: string | null,
+  doneAt: string | null,
+  pausedAt: string | null,
+  atRiskPercent: number,
+  now: Date = new Date()
+): SlaState {
+  if (!dueAt) return 'none';
+
+  const due = new Date(dueAt).getTime();
+  if (doneAt) return new Date(doneAt).getTime() <= due ? 'met' : 'breached';
+
+  const current = pausedAt ? new Date(pausedAt).getTime() : now.getTime();
+  if (current > due) return 'breached';
+  if (pausedAt) return 'paused';
+
+  const start = new Date(startAt).getTime();
+  const elapsed = due > start ? (current - start) / (due - start) : 1;
+  return elapsed * 100 >= atRiskPercent ? 'at_risk' : 'on_track';
+}
+
+export function getIssueSlaStatus(
+  issue: Issue,
+  atRiskPercent: number = DEFAULT_SLA_SETTINGS.at_risk_percent,
+  now: Date = new Date()
+): IssueSlaStatus {
+  const startAt = issue.reported_at || issue.created_at;
+
+  const response = getSlaTargetState(
+    startAt,
+    issue.sla_response_due_at,
+    issue.sla_responded_at,
+    issue.sla_paused_at,
+    atRiskPercent,
+    now
+  );
+  const resolution = getSlaTargetState(
+    startAt,
+    issue.sla_resolution_due_at,
+    issue.sla_resolved_at,
+    issue.sla_paused_at,
+    atRiskPercent,
+    now
+  );
+
+  // Once answered, the response target no longer drives the overall badge
+  const candidates = issue.sla_responded_at ? [resolution] : [response, resolution];
+  const overall = STATE_SEVERITY.find(state => candidates.includes(state)) || 'none';
+
+  return {
+    response,
+    resolution,
+    overall,
+    next_due_at: issue.sla_responded_at || !issue.sla_response_due_at
+      ? issue.sla_resolution_due_at
+      : issue.sla_response_due_at
+  };
+}
+
+/** Minutes as a compact duration, e.g. `45m`, `4h`, `1d 2h`. */
+export function formatSlaDuration(minutes: number): string {
+  const total = Math.max(0, Math.round(minutes));
+  const days = Math.floor(total / 1440);
+  const hours = Math.floor((total % 1440) / 60);
+  const mins = total % 60;
+
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+  return `${mins}m`;
+}
+
+/** Time left until (or past) a due date, e.g. `2h 15m left` or `3h overdue`. */
+export function formatSlaRemaining(dueAt: string, now: Date = new Date()): string {
+  const minutes = (new Date(dueAt).getTime() - now.getTime()) / 60000;
+  return minutes >= 0
+    ? `${formatSlaDuration(minutes)} left`
+    : `${formatSlaDuration(-minutes)} overdue`;
+}
+
+export function validateSlaPolicy(policy: IssueSlaPolicyInput): string | null {
+  if (!policy.name.trim()) return 'Please enter a policy name';
+  if (!(policy.response_minutes > 0)) return 'Response target must be greater than zero';
+  if (!(policy.resolution_minutes > 0)) return 'Resolution target must be greater than zero';
+  if (policy.response_minutes > policy.resolution_minutes) {
+    return 'Response target cannot be longer than the resolution target';
+  }
+  return null;
+}
+
+export function validateSlaSettings(settings: Omit<IssueSlaSettings, 'org_id'>): string | null {
+  if (settings.work_days.length === 0) return 'Select at least one working day';
+  if (settings.work_end <= settings.work_start) return 'Business hours must end after they start';
+  if (settings.at_risk_percent < 1 || settings.at_risk_percent > 99) {
+    return 'At-risk threshold must be between 1% and 99%';
+  }
+  return null;
+}
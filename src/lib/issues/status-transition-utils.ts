@@ -0,0 +1,41 @@
+import type { IssueCustomStatus, IssueStatusTransition } from './types';
+
+export function getTransitionRule(
+  transitions: IssueStatusTransition[],
+  fromStatusId: string | null,
+  toStatusId: string
+): IssueStatusTransition | null {
+  return transitions.find(t => t.from_status_id === fromStatusId && t.to_status_id === toStatusId) || null;
+}
+
+/** Super admins bypass role restrictions, matching `transition_issue_status`. */
+export function canUseTransition(rule: IssueStatusTransition, roleName: string): boolean {
+  return rule.allowed_roles.length === 0 || roleName === 'super_admin' || rule.allowed_roles.includes(roleName);
+}
+
+/**
+ * Statuses the user may pick for an issue, current status included. Orgs
+ * without rules (and issues without a status) keep the free-form workflow.
+ */
+export function getAvailableStatuses(
+  statuses: IssueCustomStatus[],
+  transitions: IssueStatusTransition[],
+  fromStatusId: string | null,
+  roleName: string
+): IssueCustomStatus[] {
+  if (transitions.length === 0 || !fromStatusId) return statuses;
+
+  return statuses.filter(status => {
+    if (status.id === fromStatusId) return true;
+    const rule = getTransitionRule(transitions, fromStatusId, status.id);
+    return !!rule && canUseTransition(rule, roleName);
+  });
+}
+
+export function describeTransitionRequirements(rule: IssueStatusTransition): string[] {
+  const requirements: string[] = [];
+  if (rule.require_comment) requirements.push('comment');
+  if (rule.require_action_taken) requirements.push('action taken');
+  if (rule.require_attachment) requirements.push('attachment');
+  return requirements;
+}
@@ -0,0 +1,29 @@
+import type { IssueTrackingLink } from './types';
+
+export const TRACKING_LINK_EXPIRY_OPTIONS = [7, 30, 90] as const;
+
+export const DEFAULT_TRACKING_LINK_DAYS = 30;
+
+const TRACKING_HASH_PREFIX = '#/track/';
+
+/**
+ * Tracking pages live in the URL hash so they work on any static host
+ * without server-side rewrites.
+ */
+export function buildTrackingUrl(token: string): string {
+  return `${window.location.origin}/${TRACKING_HASH_PREFIX}${token}`;
+}
+
+export function parseTrackingToken(hash: string): string | null {
+  if (!hash.startsWith(TRACKING_HASH_PREFIX)) return null;
+  const token = hash.slice(TRACKING_HASH_PREFIX.length).trim();
+  return /^[a-f0-9]{64}$/.test(token) ? token : null;
+}
+
+export type TrackingLinkState = 'active' | 'expired' | 'revoked';
+
+export function getTrackingLinkState(link: IssueTrackingLink, now: Date = new Date()): TrackingLinkState {
+  if (link.revoked_at) return 'revoked';
+  if (new Date(link.expires_at) <= now) return 'expired';
+  return 'active';
+}
@@ -1,5 +1,7 @@
 export type IssuePriority = 'low' | 'medium' | 'high';
 export type IssueStatus = 'new' | 'assigned' | 'in_progress' | 'resolved' | 'closed' | 'on_hold';
+export type SlaEscalationAction = 'none' | 'notify_manager' | 'reassign_manager';
+export type SlaState = 'none' | 'on_track' | 'at_risk' | 'paused' | 'met' | 'breached';
 
 export interface IssueCategory {
   id: string;
@@ -32,6 +34,52 @@ export interface IssueCustomStatus {
   updated_at: string;
 }
 
+export interface IssueStatusTransition {
+  id: string;
+  org_id: string;
+  from_status_id: string;
+  to_status_id: string;
+  allowed_roles: string[];
+  require_comment: boolean;
+  require_action_taken: boolean;
+  require_attachment: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type IssueStatusTransitionInput = Pick<
+  IssueStatusTransition,
+  'from_status_id' | 'to_status_id' | 'allowed_roles' | 'require_comment' | 'require_action_taken' | 'require_attachment'
+>;
+
+export type AssignmentStrategy = 'user' | 'round_robin' | 'least_loaded';
+
+export interface IssueAssignmentRule {
+  id: string;
+  org_id: string;
+  name: string;
+  sort_order: number;
+  category_id: string | null;
+  priority: IssuePriority | null;
+  region_id: string | null;
+  branch_id: string | null;
+  strategy: AssignmentStrategy;
+  target_user_id: string | null;
+  pool_user_ids: string[];
+  team_lead_id: string | null;
+  last_assigned_user_id: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type IssueAssignmentRuleInput = Pick<
+  IssueAssignmentRule,
+  'name' | 'category_id' | 'priority' | 'region_id' | 'branch_id' | 'strategy' | 'target_user_id' | 'pool_user_ids' | 'team_lead_id'
+>;
+
 export interface Issue {
   id: string;
   org_id: string;
@@ -58,14 +106,165 @@ export interface Issue {
   last_modified_at: string | null;
   tags: string[] | null;
   metadata: Record<string, any>;
+  sla_policy_id: string | null;
+  sla_response_due_at: string | null;
+  sla_resolution_due_at: string | null;
+  sla_responded_at: string | null;
+  sla_resolved_at: string | null;
+  sla_paused_at: string | null;
+  sla_paused_minutes: number;
+  sla_breached_at: string | null;
+  sla_escalated_at: string | null;
+  duplicate_of_id: string | null;
+  merged_at: string | null;
+  merged_by: string | null;
+  recurring_template_id: string | null;
+  recurrence_date: string | null;
+  checklist: IssueChecklistItem[] | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface IssueChecklistItem {
+  item: string;
+  done: boolean;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface IssueRecurringTemplate {
+  id: string;
+  org_id: string;
+  name: string;
+  title: string;
+  description: string | null;
+  category_id: string | null;
+  priority: IssuePriority;
+  assigned_to: string | null;
+  checklist: string[];
+  customer_ids: string[];
+  frequency: RecurrenceFrequency;
+  interval_count: number;
+  start_date: string;
+  end_date: string | null;
+  lead_days: number;
+  next_occurrence_index: number;
+  last_generated_at: string | null;
+  is_active: boolean;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type IssueRecurringTemplateInput = Pick<
+  IssueRecurringTemplate,
+  | 'name'
+  | 'title'
+  | 'description'
+  | 'category_id'
+  | 'priority'
+  | 'assigned_to'
+  | 'checklist'
+  | 'customer_ids'
+  | 'frequency'
+  | 'interval_count'
+  | 'start_date'
+  | 'end_date'
+  | 'lead_days'
+>;
+
+/** A future occurrence projected from a template, not yet generated. */
+export interface RecurringOccurrence {
+  template: IssueRecurringTemplate;
+  date: string;
+}
+
+export type IssueLinkType = 'parent' | 'related';
+
+export type IssueSummary = Pick<Issue, 'id' | 'issue_number' | 'title' | 'status' | 'priority' | 'created_at'>;
+
+export interface IssueLink {
+  id: string;
+  org_id: string;
+  source_issue_id: string;
+  target_issue_id: string;
+  link_type: IssueLinkType;
+  created_by: string | null;
+  created_at: string;
+  source_issue?: IssueSummary;
+  target_issue?: IssueSummary;
+}
+
+export interface DuplicateCheckInput {
+  title: string;
+  customer_id?: string | null;
+  category_id?: string | null;
+}
+
+export interface IssueDuplicateCandidate {
+  issue: IssueSummary & Pick<Issue, 'customer_id' | 'category_id'>;
+  score: number;
+  reasons: string[];
+}
+
+export interface IssueSlaPolicy {
+  id: string;
+  org_id: string;
+  name: string;
+  category_id: string | null;
+  priority: IssuePriority | null;
+  response_minutes: number;
+  resolution_minutes: number;
+  business_hours_only: boolean;
+  escalation_action: SlaEscalationAction;
+  is_active: boolean;
+  created_by: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export type IssueSlaPolicyInput = Pick<
+  IssueSlaPolicy,
+  'name' | 'category_id' | 'priority' | 'response_minutes' | 'resolution_minutes' | 'business_hours_only' | 'escalation_action'
+>;
+
+export interface IssueSlaSettings {
+  org_id: string;
+  timezone: string;
+  work_days: number[];
+  work_start: string;
+  work_end: string;
+  at_risk_percent: number;
+}
+
+export interface IssueEscalation {
+  id: string;
+  org_id: string;
+  issue_id: string;
+  reason: 'response' | 'resolution';
+  action: Exclude<SlaEscalationAction, 'none'>;
+  escalated_from: string | null;
+  escalated_to: string | null;
+  acknowledged_at: string | null;
+  created_at: string;
+  issue?: Pick<Issue, 'id' | 'issue_number' | 'title'>;
+}
+
+export interface IssueSlaStatus {
+  response: SlaState;
+  resolution: SlaState;
+  overall: SlaState;
+  next_due_at: string | null;
+}
+
 export interface IssueComment {
   id: string;
   issue_id: string;
-  user_id: string;
+  /** Null for replies a customer posted through a tracking link. */
+  user_id: string | null;
+  author_name: string | null;
+  customer_id: string | null;
+  tracking_link_id: string | null;
   comment_text: string;
   is_internal: boolean;
   is_work_note: boolean;
@@ -77,6 +276,52 @@ export interface IssueComment {
   };
 }
 
+export interface IssueTrackingLink {
+  id: string;
+  org_id: string;
+  issue_id: string;
+  contact_name: string | null;
+  expires_at: string;
+  revoked_at: string | null;
+  revoked_by: string | null;
+  view_count: number;
+  last_viewed_at: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface CreatedTrackingLink {
+  id: string;
+  token: string;
+  expires_at: string;
+}
+
+export interface IssueTrackingComment {
+  id: string;
+  comment_text: string;
+  created_at: string;
+  from_customer: boolean;
+  author_name: string;
+}
+
+/** What a customer sees through a tracking link. */
+export interface IssueTrackingView {
+  issue_number: string;
+  title: string;
+  description: string | null;
+  priority: IssuePriority;
+  status: string;
+  status_color: string | null;
+  is_closed: boolean;
+  due_date: string | null;
+  created_at: string;
+  updated_at: string;
+  organization_name: string;
+  customer_name: string | null;
+  expires_at: string;
+  comments: IssueTrackingComment[];
+}
+
 export interface IssueAttachment {
   id: string;
   issue_id: string;
@@ -85,7 +330,17 @@ export interface IssueAttachment {
   file_url: string;
   file_size: number | null;
   file_type: string | null;
+  storage_path: string | null;
   created_at: string;
+  uploader?: {
+    full_name: string;
+  };
+}
+
+export interface IssueAttachmentSettings {
+  org_id: string;
+  max_file_size_mb: number;
+  max_files_per_issue: number;
 }
 
 export interface IssueHistory {
@@ -142,10 +397,31 @@ export interface UpdateIssueData {
   action_taken?: string;
 }
 
+/** Fields left out are not changed; `null` clears a field. */
+export interface BulkIssueChanges {
+  assigned_to?: string | null;
+  status_id?: string;
+  priority?: IssuePriority;
+  category_id?: string | null;
+  due_date?: string | null;
+  tags_add?: string[];
+  tags_remove?: string[];
+}
+
+export interface BulkUpdateResult {
+  updated: string[];
+  failed: {
+    issue_id: string;
+    issue_number: string | null;
+    error: string;
+  }[];
+}
+
 export interface StatusChangeData {
   newStatus: IssueStatus;
   comment: string;
   statusId?: string;
+  actionTaken?: string;
 }
 
 export interface IssueFilters {
@@ -171,6 +447,7 @@ export interface IssueStats {
   resolved: number;
   closed: number;
   on_hold: number;
+  sla_breached: number;
   by_priority: {
     low: number;
     medium: number;
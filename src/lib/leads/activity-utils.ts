@@ -0,0 +1,128 @@
+import type {
+  LeadActivity,
+  LeadActivityInput,
+  LeadActivityOutcome,
+  LeadActivityType,
+  LeadAssignment,
+  LeadStatusHistory,
+  LeadTask,
+  LeadTaskInput,
+  LeadTaskType,
+  LeadTimelineEntry
+} from './types';
+
+export const LEAD_ACTIVITY_TYPES: Record<LeadActivityType, string> = {
+  call: 'Call',
+  meeting: 'Meeting',
+  email: 'Email',
+  visit: 'Visit',
+  note: 'Note'
+};
+
+export const LEAD_TASK_TYPES: Record<LeadTaskType, string> = {
+  follow_up: 'Follow-up',
+  call: 'Call',
+  meeting: 'Meeting',
+  email: 'Email',
+  visit: 'Visit'
+};
+
+export const LEAD_ACTIVITY_OUTCOMES: Record<LeadActivityOutcome, string> = {
+  successful: 'Successful',
+  no_answer: 'No answer',
+  left_voicemail: 'Left voicemail',
+  follow_up_needed: 'Follow-up needed',
+  not_interested: 'Not interested',
+  other: 'Other'
+};
+
+/** Reminder offsets offered when scheduling a task, in minutes before it is due. */
+export const TASK_REMINDER_OPTIONS = [
+  { minutes: 0, label: 'At due time' },
+  { minutes: 15, label: '15 minutes before' },
+  { minutes: 60, label: '1 hour before' },
+  { minutes: 24 * 60, label: '1 day before' }
+];
+
+export type LeadTaskState = 'completed' | 'overdue' | 'reminder' | 'upcoming';
+
+export function getTaskState(task: LeadTask, now: Date = new Date()): LeadTaskState {
+  if (task.completed_at) return 'completed';
+  if (new Date(task.due_at) < now) return 'overdue';
+  if (task.remind_at && new Date(task.remind_at) <= now) return 'reminder';
+  return 'upcoming';
+}
+
+/** Open tasks whose reminder time has passed, overdue ones included. */
+export function isTaskReminderDue(task: LeadTask, now: Date = new Date()): boolean {
+  if (task.completed_at) return false;
+  return new Date(task.remind_at || task.due_at) <= now;
+}
+
+/** Splits a comma or newline separated list of attendees, dropping blanks and repeats. */
+export function parseAttendees(input: string): string[] {
+  const seen = new Set<string>();
+  return input
+    .split(/[,\n]/)
+    .map(name => name.trim())
+    .filter(name => {
+      const key = name.toLowerCase();
+      if (!name || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+export function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+}
+
+/** Value for a `datetime-local` input, in local time. */
+export function toDateTimeInput(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export function validateLeadActivity(activity: LeadActivityInput): string | null {
+  if (!activity.subject.trim()) return 'Subject is required';
+  if (activity.occurred_at && new Date(activity.occurred_at) > new Date()) {
+    return 'Activities can only be logged once they have happened; add a task to plan one';
+  }
+  if (activity.duration_minutes != null && (!Number.isInteger(activity.duration_minutes) || activity.duration_minutes < 0)) {
+    return 'Duration must be a whole number of minutes';
+  }
+  return null;
+}
+
+export function validateLeadTask(task: LeadTaskInput): string | null {
+  if (!task.title.trim()) return 'Task title is required';
+  if (!task.due_at) return 'Due date is required';
+  if (task.remind_at && task.remind_at > task.due_at) return 'Reminder must be before the due date';
+  return null;
+}
+
+/**
+ * Everything that happened to a lead, newest first: logged activities,
+ * completed tasks, status changes and (re)assignments. Open tasks are not
+ * events yet and are listed separately.
+ */
+export function buildLeadTimeline(
+  activities: LeadActivity[],
+  tasks: LeadTask[],
+  statusHistory: LeadStatusHistory[],
+  assignments: LeadAssignment[]
+): LeadTimelineEntry[] {
+  const entries: LeadTimelineEntry[] = [
+    ...activities.map(activity => ({ kind: 'activity' as const, id: activity.id, at: activity.occurred_at, activity })),
+    ...tasks
+      .filter(task => task.completed_at)
+      .map(task => ({ kind: 'task' as const, id: task.id, at: task.completed_at as string, task })),
+    ...statusHistory.map(history => ({ kind: 'status' as const, id: history.id, at: history.changed_at, history })),
+    ...assignments.map(assignment => ({ kind: 'assignment' as const, id: assignment.id, at: assignment.assigned_at, assignment }))
+  ];
+
+  return entries.sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+}
@@ -0,0 +1,56 @@
+import type { Branch } from '../supabase/types';
+import { WON_STATUS } from './forecast-utils';
+import type { Lead, LeadActivity, LeadCustomerConversion, LeadWithDetails } from './types';
+
+export function isLeadWon(lead: Pick<Lead, 'status' | 'progress_status'>): boolean {
+  return lead.status === WON_STATUS || lead.progress_status === 'won';
+}
+
+export function canConvertLead(lead: Pick<Lead, 'status' | 'progress_status' | 'customer_id'>): boolean {
+  return isLeadWon(lead) && !lead.customer_id;
+}
+
+/** The latest activity that recorded GPS coordinates, i.e. where the rep last met the prospect. */
+export function latestLocatedActivity(activities: LeadActivity[]): LeadActivity | undefined {
+  return activities
+    .filter(activity => activity.location_latitude != null && activity.location_longitude != null)
+    .sort((a, b) => new Date(b.occurred_at).getTime() - new Date(a.occurred_at).getTime())[0];
+}
+
+/**
+ * Customers file their sub-territory as a branch while leads use a child
+ * territory, so match on the branch's name or code within the territory.
+ */
+export function matchSubTerritoryBranch(lead: LeadWithDetails, branches: Branch[]): Branch | undefined {
+  const subTerritory = lead.sub_territory;
+  if (!subTerritory) return undefined;
+
+  const name = subTerritory.name.trim().toLowerCase();
+  const code = subTerritory.code?.trim().toLowerCase();
+  return branches.find(branch =>
+    (!lead.territory_id || branch.region_id === lead.territory_id) &&
+    (branch.name.trim().toLowerCase() === name || (!!code && branch.code.trim().toLowerCase() === code))
+  );
+}
+
+/** Customer values pre-filled from the lead; the code is left blank so it is generated on conversion. */
+export function buildCustomerFromLead(
+  lead: LeadWithDetails,
+  activities: LeadActivity[],
+  branches: Branch[]
+): LeadCustomerConversion {
+  const located = latestLocatedActivity(activities);
+
+  return {
+    customer_name: lead.company?.trim() || lead.full_name,
+    customer_code: '',
+    customer_telephone: lead.phone || null,
+    location_of_outlet: located?.location_address || null,
+    latitude: located?.location_latitude ?? null,
+    longitude: located?.location_longitude ?? null,
+    region_id: lead.territory_id || lead.region_id || null,
+    branch_id: lead.branch_id || matchSubTerritoryBranch(lead, branches)?.id || null,
+    customer_picture: lead.picture_url || null,
+    customer_type: 'permanent'
+  };
+}
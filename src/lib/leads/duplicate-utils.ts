@@ -0,0 +1,166 @@
+import type { LeadDuplicateCandidate, LeadDuplicateCheckInput, LeadMergeField } from './types';
+
+/** Candidates below this score are not flagged. */
+export const LEAD_DUPLICATE_MIN_SCORE = 0.6;
+
+/** Thrown by `LeadService.createLead` when likely duplicates exist and were not acknowledged. */
+export class LeadDuplicateError extends Error {
+  constructor(public readonly candidates: LeadDuplicateCandidate[]) {
+    super(`${candidates.length} possible duplicate lead${candidates.length === 1 ? '' : 's'} found`);
+    this.name = 'LeadDuplicateError';
+  }
+}
+
+const NAME_NOISE = new Set(['mr', 'mrs', 'ms', 'miss', 'dr', 'prof', 'sir', 'madam']);
+
+const COMPANY_NOISE = new Set([
+  'co', 'company', 'corp', 'corporation', 'group', 'inc', 'incorporated', 'limited', 'llc', 'llp', 'ltd', 'plc', 'the'
+]);
+
+/** Same rule as the `leads.email_normalized` column. */
+export function normalizeLeadEmail(email?: string | null): string | null {
+  const value = (email || '').trim().toLowerCase();
+  return value || null;
+}
+
+/**
+ * Same rule as the `leads.phone_normalized` column: the last nine digits, so
+ * international and local formats of one number compare equal.
+ */
+export function normalizeLeadPhone(phone?: string | null): string | null {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-9) : null;
+}
+
+function tokens(value: string | null | undefined, noise: Set<string>): string[] {
+  return (value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token && !noise.has(token));
+}
+
+export function nameTokens(name?: string | null): string[] {
+  return tokens(name, NAME_NOISE);
+}
+
+export function companyTokens(company?: string | null): string[] {
+  return tokens(company, COMPANY_NOISE);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Edit-distance similarity of the sorted tokens, 0 to 1. Sorting makes
+ * "Smith, John" match "John Smith"; edit distance absorbs typos such as
+ * "Jon" for "John".
+ */
+export function tokenSimilarity(a: string[], b: string[]): number {
+  const left = [...a].sort().join(' ');
+  const right = [...b].sort().join(' ');
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+}
+
+/**
+ * An exact email or phone match is enough on its own. Otherwise the name
+ * carries the weight and a matching company confirms it; the same name at a
+ * different company is a different person.
+ */
+export function scoreLeadDuplicate(
+  input: LeadDuplicateCheckInput,
+  candidate: LeadDuplicateCandidate['lead']
+): LeadDuplicateCandidate {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const email = normalizeLeadEmail(input.email);
+  if (email && email === normalizeLeadEmail(candidate.email)) {
+    score = 0.95;
+    reasons.push('Same email');
+  }
+
+  const phone = normalizeLeadPhone(input.phone);
+  if (phone && phone === normalizeLeadPhone(candidate.phone)) {
+    score = Math.max(score, 0.9);
+    reasons.push('Same phone');
+  }
+
+  const nameScore = tokenSimilarity(nameTokens(input.full_name), nameTokens(candidate.full_name));
+  const inputCompany = companyTokens(input.company);
+  const candidateCompany = companyTokens(candidate.company);
+  const companyScore = tokenSimilarity(inputCompany, candidateCompany);
+  const companiesDiffer = inputCompany.length > 0 && candidateCompany.length > 0 && companyScore < 0.8;
+
+  if (nameScore >= 0.8 && !companiesDiffer) {
+    reasons.push(nameScore === 1 ? 'Same name' : 'Similar name');
+    let fuzzy = nameScore * 0.6;
+    if (companyScore >= 0.8) {
+      fuzzy += 0.35;
+      reasons.push(companyScore === 1 ? 'Same company' : 'Similar company');
+    }
+    score = score > 0 ? Math.min(1, Math.max(score, fuzzy) + 0.05) : fuzzy;
+  }
+
+  return { lead: candidate, score: Math.round(score * 100) / 100, reasons };
+}
+
+/**
+ * Words worth a server-side `ilike` pre-filter: the longest name and company
+ * tokens. Scoring does the real matching.
+ */
+export function duplicateSearchTerms(input: LeadDuplicateCheckInput): string[] {
+  const longest = (values: string[]) =>
+    values.filter(value => value.length >= 3).sort((a, b) => b.length - a.length)[0];
+
+  return [longest(nameTokens(input.full_name)), longest(companyTokens(input.company))]
+    .filter((term): term is string => Boolean(term));
+}
+
+/** Fields offered when merging. Notes are left out because the merge keeps both. */
+export const LEAD_MERGE_FIELDS: { key: LeadMergeField; label: string }[] = [
+  { key: 'full_name', label: 'Full name' },
+  { key: 'email', label: 'Email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'company', label: 'Company' },
+  { key: 'status', label: 'Status' },
+  { key: 'score', label: 'Score' },
+  { key: 'deal_value', label: 'Deal value' },
+  { key: 'currency', label: 'Currency' },
+  { key: 'expected_close_date', label: 'Expected close' },
+  { key: 'source', label: 'Source' },
+  { key: 'assigned_to', label: 'Assigned to' },
+  { key: 'rank_id', label: 'Rank' },
+  { key: 'territory_id', label: 'Territory' },
+  { key: 'sub_territory_id', label: 'Sub-territory' },
+  { key: 'region_id', label: 'Region' },
+  { key: 'branch_id', label: 'Branch' },
+  { key: 'picture_url', label: 'Picture' }
+];
+
+/** Fields to take from the duplicate by default: the ones the survivor left blank. */
+export function defaultMergeFields(
+  survivor: Record<string, unknown>,
+  duplicate: Record<string, unknown>
+): LeadMergeField[] {
+  const isBlank = (value: unknown) => value === null || value === undefined || value === '';
+  return LEAD_MERGE_FIELDS
+    .map(field => field.key)
+    .filter(key => isBlank(survivor[key]) && !isBlank(duplicate[key]));
+}
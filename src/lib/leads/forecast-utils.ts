@@ -0,0 +1,165 @@
+import type {
+  Lead,
+  LeadForecastGroupBy,
+  LeadForecastLead,
+  LeadForecastRow,
+  LeadStatusRecord
+} from './types';
+
+export const WON_STATUS = 'won';
+
+/** Statuses that close a lead without revenue; they drop out of the pipeline. */
+export const CLOSED_LOST_STATUSES = ['lost', 'disqualified'];
+
+export const NO_CLOSE_DATE_KEY = 'none';
+
+export function isOpenDeal(status: string): boolean {
+  return status !== WON_STATUS && !CLOSED_LOST_STATUSES.includes(status);
+}
+
+export function formatDealValue(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: 'currency',
+      currency,
+      maximumFractionDigits: 0
+    }).format(amount);
+  } catch {
+    return `${currency} ${Math.round(amount).toLocaleString()}`;
+  }
+}
+
+/** Deal amount typed into a form; blank means no value. */
+export function parseDealValue(input: string): number | null {
+  const normalized = input.replace(/[,\s]/g, '');
+  if (!normalized) return null;
+  const amount = Number(normalized);
+  return Number.isFinite(amount) && amount >= 0 ? Math.round(amount * 100) / 100 : null;
+}
+
+/** Summed deal values per currency, largest first, e.g. "$12,000 · €3,500". */
+export function formatDealTotals(leads: Pick<Lead, 'deal_value' | 'currency'>[]): string | null {
+  const totals = new Map<string, number>();
+  leads.forEach(lead => {
+    if (lead.deal_value == null) return;
+    totals.set(lead.currency, (totals.get(lead.currency) || 0) + Number(lead.deal_value));
+  });
+  if (totals.size === 0) return null;
+
+  return [...totals.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([currency, amount]) => formatDealValue(amount, currency))
+    .join(' · ');
+}
+
+export function toMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export function monthLabel(key: string): string {
+  if (key === NO_CLOSE_DATE_KEY) return 'No close date';
+  return new Date(`${key}-01T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+}
+
+/** Month keys from `from` to `to` inclusive. */
+export function monthRange(from: string, to: string): string[] {
+  const [fromYear, fromMonth] = from.split('-').map(Number);
+  const months: string[] = [];
+  for (let cursor = new Date(fromYear, fromMonth - 1, 1); toMonthKey(cursor) <= to; cursor.setMonth(cursor.getMonth() + 1)) {
+    months.push(toMonthKey(cursor));
+  }
+  return months;
+}
+
+/** Most used currency among the deals, so the report opens on it. */
+export function primaryCurrency(leads: Pick<LeadForecastLead, 'currency'>[]): string | null {
+  const counts = new Map<string, number>();
+  leads.forEach(lead => counts.set(lead.currency, (counts.get(lead.currency) || 0) + 1));
+  let best: string | null = null;
+  counts.forEach((count, currency) => {
+    if (best === null || count > (counts.get(best) || 0)) best = currency;
+  });
+  return best;
+}
+
+function groupFor(lead: LeadForecastLead, groupBy: LeadForecastGroupBy, monthKey: string): { key: string; label: string } {
+  switch (groupBy) {
+    case 'rep':
+      return lead.assigned_user
+        ? { key: lead.assigned_user.id, label: lead.assigned_user.full_name }
+        : { key: 'unassigned', label: 'Unassigned' };
+    case 'territory':
+      return lead.territory
+        ? { key: lead.territory.id, label: lead.territory.name }
+        : { key: 'no_territory', label: 'No territory' };
+    default:
+      return { key: monthKey, label: monthLabel(monthKey) };
+  }
+}
+
+/**
+ * Weighted pipeline against won revenue for deals in one currency between
+ * two months. Open deals are counted in the month of their expected close
+ * date, weighted by their status' win probability; undated open deals get
+ * their own "No close date" row. Won deals are counted in the month they
+ * were won.
+ */
+export function buildLeadForecast(
+  leads: LeadForecastLead[],
+  statuses: LeadStatusRecord[],
+  groupBy: LeadForecastGroupBy,
+  currency: string,
+  from: string,
+  to: string
+): LeadForecastRow[] {
+  const probability = new Map(statuses.map(s => [s.status_key, s.win_probability]));
+  const rows = new Map<string, LeadForecastRow>();
+
+  const rowFor = (key: string, label: string) => {
+    let row = rows.get(key);
+    if (!row) {
+      row = { key, label, open_count: 0, pipeline_value: 0, weighted_value: 0, won_count: 0, won_value: 0 };
+      rows.set(key, row);
+    }
+    return row;
+  };
+
+  if (groupBy === 'month') {
+    monthRange(from, to).forEach(key => rowFor(key, monthLabel(key)));
+  }
+
+  leads.forEach(lead => {
+    if (lead.currency !== currency) return;
+    const value = Number(lead.deal_value);
+
+    if (lead.status === WON_STATUS) {
+      if (!lead.won_at) return;
+      const monthKey = toMonthKey(new Date(lead.won_at));
+      if (monthKey < from || monthKey > to) return;
+
+      const group = groupFor(lead, groupBy, monthKey);
+      const row = rowFor(group.key, group.label);
+      row.won_count += 1;
+      row.won_value += value;
+      return;
+    }
+
+    if (!isOpenDeal(lead.status)) return;
+
+    const monthKey = lead.expected_close_date ? lead.expected_close_date.slice(0, 7) : NO_CLOSE_DATE_KEY;
+    if (monthKey !== NO_CLOSE_DATE_KEY && (monthKey < from || monthKey > to)) return;
+
+    const group = groupFor(lead, groupBy, monthKey);
+    const row = rowFor(group.key, group.label);
+    row.open_count += 1;
+    row.pipeline_value += value;
+    row.weighted_value += value * ((probability.get(lead.status) ?? 0) / 100);
+  });
+
+  const result = [...rows.values()];
+  if (groupBy === 'month') {
+    // Month keys sort chronologically; the undated row goes last
+    return result.sort((a, b) => (a.key === NO_CLOSE_DATE_KEY ? 1 : b.key === NO_CLOSE_DATE_KEY ? -1 : a.key.localeCompare(b.key)));
+  }
+  return result.sort((a, b) => (b.weighted_value + b.won_value) - (a.weighted_value + a.won_value));
+}
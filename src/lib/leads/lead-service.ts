@@ -12,8 +12,31 @@ import type {
   LeadAssignment,
   LeadStatus,
   LeadRank,
-  LeadStatusRecord
+  LeadScoringRule,
+  LeadScoringRuleInput,
+  LeadStaleAlert,
+  LeadStaleRule,
+  LeadStaleRuleInput,
+  LeadStatusRecord,
+  LeadForecastLead,
+  LeadActivity,
+  LeadActivityInput,
+  LeadTask,
+  LeadTaskInput,
+  LeadDuplicateCandidate,
+  LeadDuplicateCheckInput,
+  LeadMergeSelection,
+  LeadCustomerConversion,
+  LeadConvertedCustomer
 } from './types';
+import {
+  LEAD_DUPLICATE_MIN_SCORE,
+  LeadDuplicateError,
+  duplicateSearchTerms,
+  normalizeLeadEmail,
+  normalizeLeadPhone,
+  scoreLeadDuplicate
+} from './duplicate-utils';
 
 export class LeadService {
   static async listLeads(
@@ -33,7 +56,8 @@ export class LeadService {
         branch:branches(id, name),
         territory:regions!leads_territory_id_fkey(id, name, code),
         sub_territory:regions!leads_sub_territory_id_fkey(id, name, code),
-        rank:lead_ranks(*)
+        rank:lead_ranks(*),
+        customer:customers!leads_customer_id_fkey(id, customer_name, customer_code)
       `)
       .eq('org_id', orgId);
 
@@ -112,9 +136,12 @@ export class LeadService {
         template:lead_form_templates(*),
         assigned_user:users!leads_assigned_to_fkey(id, full_name, email),
         created_by_user:users!leads_created_by_fkey(id, full_name),
-        region:regions(id, name),
+        region:regions!leads_region_id_fkey(id, name),
         branch:branches(id, name),
-        rank:lead_ranks(*)
+        territory:regions!leads_territory_id_fkey(id, name, code),
+        sub_territory:regions!leads_sub_territory_id_fkey(id, name, code),
+        rank:lead_ranks(*),
+        customer:customers!leads_customer_id_fkey(id, customer_name, customer_code)
       `)
       .eq('id', leadId)
       .single();
@@ -123,9 +150,22 @@ export class LeadService {
     return data;
   }
 
-  static async createLead(leadData: CreateLeadData): Promise<Lead> {
+  /**
+   * Creates the lead unless it looks like one already on file, in which case
+   * a `LeadDuplicateError` carrying the candidates is thrown. Pass
+   * `allowDuplicates` once the user has confirmed it is a different prospect.
+   */
+  static async createLead(
+    leadData: CreateLeadData,
+    options: { allowDuplicates?: boolean } = {}
+  ): Promise<Lead> {
     const { field_values, ...leadInfo } = leadData;
 
+    if (!options.allowDuplicates) {
+      const duplicates = await this.findDuplicateLeads(leadData.org_id, leadData);
+      if (duplicates.length > 0) throw new LeadDuplicateError(duplicates);
+    }
+
     const { data: lead, error: leadError } = await supabase
       .from('leads')
       .insert({
@@ -183,6 +223,82 @@ export class LeadService {
     return lead;
   }
 
+  /**
+   * Leads in the org that likely describe the same prospect, best match
+   * first. Exact email/phone matches and name/company words narrow the
+   * candidates on the server; `scoreLeadDuplicate` decides.
+   */
+  static async findDuplicateLeads(
+    orgId: string,
+    input: LeadDuplicateCheckInput,
+    excludeLeadId?: string
+  ): Promise<LeadDuplicateCandidate[]> {
+    const email = normalizeLeadEmail(input.email);
+    const phone = normalizeLeadPhone(input.phone);
+    const filters = duplicateSearchTerms(input).map(term => `full_name.ilike.%${term}%,company.ilike.%${term}%`);
+    if (email) filters.push(`email_normalized.eq."${email.replace(/["\\]/g, '')}"`);
+    if (phone) filters.push(`phone_normalized.eq.${phone}`);
+    if (filters.length === 0) return [];
+
+    let query = supabase
+      .from('leads')
+      .select('id, full_name, email, phone, company, status, assigned_to, created_at, assigned_user:users!leads_assigned_to_fkey(id, full_name)')
+      .eq('org_id', orgId)
+      .or(filters.join(','))
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (excludeLeadId) {
+      query = query.neq('id', excludeLeadId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return ((data || []) as unknown as LeadDuplicateCandidate['lead'][])
+      .map(lead => scoreLeadDuplicate(input, lead))
+      .filter(candidate => candidate.score >= LEAD_DUPLICATE_MIN_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 5);
+  }
+
+  /**
+   * Folds `duplicateId` into `survivorId` and deletes it. The selection lists
+   * what to take from the duplicate; everything else keeps the survivor's
+   * value, and history, assignments, activities and tasks move across.
+   */
+  static async mergeLeads(survivorId: string, duplicateId: string, selection: LeadMergeSelection): Promise<Lead> {
+    const { data, error } = await supabase.rpc('merge_leads', {
+      p_survivor_id: survivorId,
+      p_duplicate_id: duplicateId,
+      p_take_fields: selection.take_fields,
+      p_take_field_ids: selection.take_field_ids
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Creates a customer from a won lead and links the two. A blank
+   * `customer_code` is generated from the org's code settings; `formIds`
+   * are attached to the new customer.
+   */
+  static async convertToCustomer(
+    leadId: string,
+    customer: LeadCustomerConversion,
+    formIds: string[] = []
+  ): Promise<LeadConvertedCustomer> {
+    const { data, error } = await supabase.rpc('convert_lead_to_customer', {
+      p_lead_id: leadId,
+      p_customer: customer,
+      p_form_ids: formIds
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
   static async deleteLead(leadId: string): Promise<void> {
     const { error } = await supabase
       .from('leads')
@@ -265,7 +381,7 @@ export class LeadService {
   static async getLeadAssignments(leadId: string): Promise<LeadAssignment[]> {
     const { data, error } = await supabase
       .from('lead_assignments')
-      .select('*, user:users(id, full_name, email), assigned_by_user:users(id, full_name)')
+      .select('*, user:users!lead_assignments_user_id_fkey(id, full_name, email), assigned_by_user:users!lead_assignments_assigned_by_fkey(id, full_name)')
       .eq('lead_id', leadId)
       .order('assigned_at', { ascending: false });
 
@@ -273,6 +389,114 @@ export class LeadService {
     return data || [];
   }
 
+  static async listActivities(leadId: string): Promise<LeadActivity[]> {
+    const { data, error } = await supabase
+      .from('lead_activities')
+      .select('*, created_by_user:users!lead_activities_created_by_fkey(id, full_name)')
+      .eq('lead_id', leadId)
+      .order('occurred_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async logActivity(orgId: string, leadId: string, activity: LeadActivityInput): Promise<LeadActivity> {
+    const currentUser = (await supabase.auth.getUser()).data.user;
+
+    const { data, error } = await supabase
+      .from('lead_activities')
+      .insert({
+        ...activity,
+        org_id: orgId,
+        lead_id: leadId,
+        created_by: currentUser?.id
+      })
+      .select('*, created_by_user:users!lead_activities_created_by_fkey(id, full_name)')
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  static async deleteActivity(activityId: string): Promise<void> {
+    const { error } = await supabase
+      .from('lead_activities')
+      .delete()
+      .eq('id', activityId);
+
+    if (error) throw error;
+  }
+
+  static async listTasks(leadId: string): Promise<LeadTask[]> {
+    const { data, error } = await supabase
+      .from('lead_tasks')
+      .select('*, assigned_user:users!lead_tasks_assigned_to_fkey(id, full_name)')
+      .eq('lead_id', leadId)
+      .order('due_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async createTask(orgId: string, leadId: string, task: LeadTaskInput): Promise<LeadTask> {
+    const currentUser = (await supabase.auth.getUser()).data.user;
+
+    const { data, error } = await supabase
+      .from('lead_tasks')
+      .insert({
+        ...task,
+        org_id: orgId,
+        lead_id: leadId,
+        assigned_to: task.assigned_to || currentUser?.id,
+        created_by: currentUser?.id
+      })
+      .select('*, assigned_user:users!lead_tasks_assigned_to_fkey(id, full_name)')
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  static async setTaskCompleted(taskId: string, completed: boolean): Promise<void> {
+    const currentUser = (await supabase.auth.getUser()).data.user;
+
+    const { error } = await supabase
+      .from('lead_tasks')
+      .update({
+        completed_at: completed ? new Date().toISOString() : null,
+        completed_by: completed ? currentUser?.id : null
+      })
+      .eq('id', taskId);
+
+    if (error) throw error;
+  }
+
+  static async deleteTask(taskId: string): Promise<void> {
+    const { error } = await supabase
+      .from('lead_tasks')
+      .delete()
+      .eq('id', taskId);
+
+    if (error) throw error;
+  }
+
+  /** Open tasks assigned to the user whose reminder time has passed. */
+  static async listDueTaskReminders(orgId: string, userId: string): Promise<LeadTask[]> {
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from('lead_tasks')
+      .select('*, lead:leads(id, full_name, company)')
+      .eq('org_id', orgId)
+      .eq('assigned_to', userId)
+      .is('completed_at', null)
+      .or(`remind_at.lte.${now},due_at.lte.${now}`)
+      .order('due_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
   static async getLeadFieldValues(leadId: string): Promise<any[]> {
     const { data, error } = await supabase
       .from('lead_field_values')
@@ -510,6 +734,179 @@ export class LeadService {
     return data || [];
   }
 
+  static async listScoringRules(orgId: string): Promise<LeadScoringRule[]> {
+    const { data, error } = await supabase
+      .from('lead_scoring_rules')
+      .select('*')
+      .eq('org_id', orgId)
+      .order('display_order', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async createScoringRule(orgId: string, rule: LeadScoringRuleInput): Promise<LeadScoringRule> {
+    const { data, error } = await supabase
+      .from('lead_scoring_rules')
+      .insert({ ...rule, org_id: orgId })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  static async updateScoringRule(ruleId: string, rule: Partial<LeadScoringRuleInput>): Promise<LeadScoringRule> {
+    const { data, error } = await supabase
+      .from('lead_scoring_rules')
+      .update(rule)
+      .eq('id', ruleId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  static async deleteScoringRule(ruleId: string): Promise<void> {
+    const { error } = await supabase
+      .from('lead_scoring_rules')
+      .delete()
+      .eq('id', ruleId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Re-applies the org's scoring rules and rank thresholds to every lead.
+   * Leads are rescored on their own writes; call this after rules or
+   * thresholds change. Returns the number of leads processed.
+   */
+  static async rescoreLeads(orgId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('rescore_leads', { p_org_id: orgId });
+
+    if (error) throw error;
+    return (data as number) || 0;
+  }
+
+  static async listStaleRules(orgId: string): Promise<LeadStaleRule[]> {
+    const { data, error } = await supabase
+      .from('lead_stale_rules')
+      .select('*')
+      .eq('org_id', orgId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async saveStaleRule(orgId: string, rule: LeadStaleRuleInput, ruleId?: string): Promise<LeadStaleRule> {
+    if (ruleId) {
+      const { data, error } = await supabase
+        .from('lead_stale_rules')
+        .update(rule)
+        .eq('id', ruleId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    }
+
+    const { data, error } = await supabase
+      .from('lead_stale_rules')
+      .insert({
+        ...rule,
+        org_id: orgId,
+        created_by: (await supabase.auth.getUser()).data.user?.id
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  static async setStaleRuleActive(ruleId: string, isActive: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('lead_stale_rules')
+      .update({ is_active: isActive })
+      .eq('id', ruleId);
+
+    if (error) throw error;
+  }
+
+  static async deleteStaleRule(ruleId: string): Promise<void> {
+    const { error } = await supabase
+      .from('lead_stale_rules')
+      .delete()
+      .eq('id', ruleId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Marks leads that have sat in a status past its stale rule, recycles them
+   * and raises alerts. Returns the number of leads marked stale.
+   */
+  static async processStaleLeads(orgId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('process_stale_leads', { p_org_id: orgId });
+
+    if (error) throw error;
+    return (data as number) || 0;
+  }
+
+  static async listStaleAlerts(orgId: string, userId: string): Promise<LeadStaleAlert[]> {
+    const { data, error } = await supabase
+      .from('lead_stale_alerts')
+      .select(`
+        *,
+        lead:leads(id, full_name, company, stale_from_status),
+        previous_assignee_user:users!lead_stale_alerts_previous_assignee_fkey(id, full_name)
+      `)
+      .eq('org_id', orgId)
+      .eq('recipient_id', userId)
+      .is('acknowledged_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async acknowledgeStaleAlerts(alertIds: string[]): Promise<void> {
+    const { error } = await supabase
+      .from('lead_stale_alerts')
+      .update({ acknowledged_at: new Date().toISOString() })
+      .in('id', alertIds);
+
+    if (error) throw error;
+  }
+
+  static async getForecastLeads(orgId: string): Promise<LeadForecastLead[]> {
+    const { data, error } = await supabase
+      .from('leads')
+      .select(`
+        id,
+        full_name,
+        company,
+        status,
+        deal_value,
+        currency,
+        expected_close_date,
+        won_at,
+        assigned_to,
+        territory_id,
+        assigned_user:users!leads_assigned_to_fkey(id, full_name),
+        territory:regions!leads_territory_id_fkey(id, name)
+      `)
+      .eq('org_id', orgId)
+      .not('deal_value', 'is', null);
+
+    if (error) throw error;
+    return (data || []) as unknown as LeadForecastLead[];
+  }
+
   static async createDefaultTemplate(orgId: string): Promise<string> {
     const currentUser = (await supabase.auth.getUser()).data.user;
 
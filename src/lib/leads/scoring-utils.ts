@@ -0,0 +1,89 @@
+import { LEAD_SOURCES } from './types';
+import type {
+  LeadFormField,
+  LeadScoringOperator,
+  LeadScoringRuleInput,
+  LeadScoringRuleType
+} from './types';
+
+export const SCORING_RULE_TYPES: { value: LeadScoringRuleType; label: string; description: string }[] = [
+  { value: 'source', label: 'Lead source', description: 'Points when the lead came from a given source' },
+  { value: 'field_value', label: 'Template field', description: 'Points when a template field has a given value' },
+  { value: 'company_present', label: 'Company given', description: 'Points when the lead names a company' },
+  { value: 'recent_activity', label: 'Recent activity', description: 'Points when a call, meeting, email or visit was logged recently' },
+  { value: 'contact_decay', label: 'Contact decay', description: 'Points lost for every period without contact' }
+];
+
+export const SCORING_OPERATORS: { value: LeadScoringOperator; label: string; needsValue: boolean }[] = [
+  { value: 'equals', label: 'is', needsValue: true },
+  { value: 'not_equals', label: 'is not', needsValue: true },
+  { value: 'contains', label: 'contains', needsValue: true },
+  { value: 'not_empty', label: 'is filled in', needsValue: false },
+  { value: 'gte', label: 'is at least', needsValue: true },
+  { value: 'lte', label: 'is at most', needsValue: true }
+];
+
+/** Same format the database accepts for gte / lte rules. */
+const NUMERIC_MATCH = /^-?[0-9]+(\.[0-9]+)?$/;
+
+export function scoringRuleTypeLabel(type: LeadScoringRuleType): string {
+  return SCORING_RULE_TYPES.find(t => t.value === type)?.label || type;
+}
+
+function sourceLabel(source: string): string {
+  return LEAD_SOURCES.find(s => s.value === source)?.label || source;
+}
+
+/** Plain-language condition for a rule, e.g. "Budget is at least 5000". */
+export function describeScoringRule(rule: LeadScoringRuleInput, fields: LeadFormField[]): string {
+  switch (rule.rule_type) {
+    case 'source':
+      return `Source is ${sourceLabel(rule.source || '')}`;
+    case 'company_present':
+      return 'Company is given';
+    case 'field_value': {
+      const field = fields.find(f => f.id === rule.field_id);
+      const operator = SCORING_OPERATORS.find(o => o.value === rule.operator);
+      const value = operator?.needsValue ? ` ${rule.match_value ?? ''}` : '';
+      return `${field?.field_label || 'Removed field'} ${operator?.label || rule.operator}${value}`;
+    }
+    case 'recent_activity':
+      return `Contacted in the last ${rule.window_days} days`;
+    case 'contact_decay': {
+      const cap = rule.max_points != null ? `, up to ${rule.max_points}` : '';
+      return `Loses ${Math.abs(rule.points)} every ${rule.window_days} days without contact${cap}`;
+    }
+  }
+}
+
+export function validateScoringRule(rule: LeadScoringRuleInput): string | null {
+  if (!rule.name.trim()) return 'Give the rule a name';
+  if (!Number.isInteger(rule.points) || rule.points < -100 || rule.points > 100) {
+    return 'Points must be a whole number between -100 and 100';
+  }
+
+  switch (rule.rule_type) {
+    case 'source':
+      return rule.source ? null : 'Pick the lead source';
+    case 'field_value': {
+      if (!rule.field_id) return 'Pick the template field';
+      const operator = SCORING_OPERATORS.find(o => o.value === rule.operator);
+      if (!operator) return 'Pick how the field is compared';
+      if (operator.needsValue && !rule.match_value?.trim()) return 'Enter the value to compare with';
+      if ((rule.operator === 'gte' || rule.operator === 'lte') && !NUMERIC_MATCH.test(rule.match_value?.trim() || '')) {
+        return 'Enter a number to compare with';
+      }
+      return null;
+    }
+    case 'recent_activity':
+    case 'contact_decay':
+      if (rule.rule_type === 'contact_decay' && rule.points <= 0) return 'Points lost must be at least 1';
+      if (!rule.window_days || rule.window_days < 1) return 'Days must be at least 1';
+      if (rule.max_points != null && (rule.max_points < 0 || rule.max_points > 100)) {
+        return 'Maximum deduction must be between 0 and 100';
+      }
+      return null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,57 @@
+import { CLOSED_LOST_STATUSES, WON_STATUS } from './forecast-utils';
+import type { LeadStaleAlert, LeadStaleRecycleStrategy, LeadStaleRuleInput } from './types';
+
+export const STALE_STATUS = 'stale';
+
+export const STALE_RECYCLE_LABELS: Record<LeadStaleRecycleStrategy, string> = {
+  none: 'Keep assignee',
+  pool: 'Return to pool',
+  round_robin: 'Round-robin pool'
+};
+
+export const STALE_RECYCLE_DESCRIPTIONS: Record<LeadStaleRecycleStrategy, string> = {
+  none: 'The lead is marked stale and stays with its current assignee',
+  pool: 'The lead is unassigned so anyone on the team can pick it up',
+  round_robin: 'The lead rotates to the next person in the pool, skipping the current assignee'
+};
+
+/** Statuses a stale rule can watch: not the stale status itself, and not closed deals. */
+export function canHaveStaleRule(statusKey: string): boolean {
+  return statusKey !== STALE_STATUS && statusKey !== WON_STATUS && !CLOSED_LOST_STATUSES.includes(statusKey);
+}
+
+/** Drops a pool that the chosen strategy does not use so stale picks are not saved. */
+export function normalizeStaleRule(rule: LeadStaleRuleInput): LeadStaleRuleInput {
+  return {
+    ...rule,
+    inactive_days: Math.round(rule.inactive_days),
+    pool_user_ids: rule.recycle_strategy === 'round_robin' ? rule.pool_user_ids : []
+  };
+}
+
+export function validateStaleRule(rule: LeadStaleRuleInput): string | null {
+  if (!rule.status_key) return 'Choose the status to watch';
+  if (!Number.isFinite(rule.inactive_days) || rule.inactive_days < 1) return 'Inactive days must be at least 1';
+  if (rule.recycle_strategy === 'round_robin' && rule.pool_user_ids.length < 2) {
+    return 'A round-robin pool needs at least two users';
+  }
+  return null;
+}
+
+export function staleAlertMessage(alert: LeadStaleAlert): string {
+  const lead = alert.lead?.full_name || 'A lead';
+  const idle = `no activity for ${alert.inactive_days} days`;
+
+  switch (alert.reason) {
+    case 'new_assignee':
+      return `${lead} was recycled to you after ${idle}`;
+    case 'manager':
+      return `${lead} (${alert.previous_assignee_user?.full_name || 'unassigned'}) went stale after ${idle}`;
+    default:
+      return alert.new_assignee && alert.new_assignee !== alert.recipient_id
+        ? `${lead} went stale after ${idle} and was reassigned`
+        : alert.new_assignee
+          ? `${lead} went stale after ${idle}`
+          : `${lead} went stale after ${idle} and was returned to the pool`;
+  }
+}
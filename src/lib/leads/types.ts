@@ -79,6 +79,17 @@ export interface Lead {
   company?: string;
   status: LeadStatus;
   score: number;
+  score_breakdown?: LeadScoreItem[];
+  scored_at?: string | null;
+  deal_value?: number | null;
+  currency: string;
+  expected_close_date?: string | null;
+  won_at?: string | null;
+  email_normalized?: string | null;
+  phone_normalized?: string | null;
+  customer_id?: string | null;
+  converted_at?: string | null;
+  converted_by?: string | null;
   source?: string;
   assigned_to?: string;
   created_by?: string;
@@ -90,6 +101,8 @@ export interface Lead {
   rank_id?: string;
   is_qualified: boolean;
   is_stale: boolean;
+  stale_at?: string | null;
+  stale_from_status?: string | null;
   progress_status?: 'negotiation' | 'won' | 'closed';
   notes?: string;
   last_contact_date?: string;
@@ -115,6 +128,7 @@ export interface LeadStatusHistory {
   changed_by?: string;
   notes?: string;
   changed_at: string;
+  changed_by_user?: { id: string; full_name: string } | null;
 }
 
 export interface LeadAssignment {
@@ -126,6 +140,128 @@ export interface LeadAssignment {
   unassigned_at?: string;
   is_active: boolean;
   notes?: string;
+  user?: { id: string; full_name: string; email?: string } | null;
+  assigned_by_user?: { id: string; full_name: string } | null;
+}
+
+export type LeadActivityType = 'call' | 'meeting' | 'email' | 'visit' | 'note';
+
+export type LeadActivityOutcome =
+  | 'successful'
+  | 'no_answer'
+  | 'left_voicemail'
+  | 'follow_up_needed'
+  | 'not_interested'
+  | 'other';
+
+export interface LeadActivity {
+  id: string;
+  org_id: string;
+  lead_id: string;
+  activity_type: LeadActivityType;
+  subject: string;
+  description: string | null;
+  outcome: LeadActivityOutcome | null;
+  duration_minutes: number | null;
+  attendees: string[];
+  location_address: string | null;
+  location_latitude: number | null;
+  location_longitude: number | null;
+  occurred_at: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  created_by_user?: { id: string; full_name: string } | null;
+}
+
+export interface LeadActivityInput {
+  activity_type: LeadActivityType;
+  subject: string;
+  description?: string | null;
+  outcome?: LeadActivityOutcome | null;
+  duration_minutes?: number | null;
+  attendees?: string[];
+  location_address?: string | null;
+  location_latitude?: number | null;
+  location_longitude?: number | null;
+  occurred_at?: string;
+}
+
+export type LeadTaskType = 'call' | 'meeting' | 'email' | 'visit' | 'follow_up';
+
+export interface LeadTask {
+  id: string;
+  org_id: string;
+  lead_id: string;
+  title: string;
+  description: string | null;
+  task_type: LeadTaskType;
+  due_at: string;
+  remind_at: string | null;
+  assigned_to: string | null;
+  completed_at: string | null;
+  completed_by: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  assigned_user?: { id: string; full_name: string } | null;
+  lead?: { id: string; full_name: string; company?: string } | null;
+}
+
+export interface LeadTaskInput {
+  title: string;
+  description?: string | null;
+  task_type: LeadTaskType;
+  due_at: string;
+  remind_at?: string | null;
+  assigned_to?: string | null;
+}
+
+export type LeadTimelineEntry =
+  | { kind: 'activity'; id: string; at: string; activity: LeadActivity }
+  | { kind: 'task'; id: string; at: string; task: LeadTask }
+  | { kind: 'status'; id: string; at: string; history: LeadStatusHistory }
+  | { kind: 'assignment'; id: string; at: string; assignment: LeadAssignment };
+
+export interface LeadDuplicateCheckInput {
+  full_name: string;
+  email?: string | null;
+  phone?: string | null;
+  company?: string | null;
+}
+
+export interface LeadDuplicateCandidate {
+  lead: Pick<Lead, 'id' | 'full_name' | 'email' | 'phone' | 'company' | 'status' | 'assigned_to' | 'created_at'> & {
+    assigned_user?: { id: string; full_name: string } | null;
+  };
+  score: number;
+  reasons: string[];
+}
+
+/** Lead columns a merge can take from the duplicate instead of the survivor. */
+export type LeadMergeField =
+  | 'full_name'
+  | 'email'
+  | 'phone'
+  | 'company'
+  | 'status'
+  | 'score'
+  | 'deal_value'
+  | 'currency'
+  | 'expected_close_date'
+  | 'source'
+  | 'assigned_to'
+  | 'region_id'
+  | 'branch_id'
+  | 'territory_id'
+  | 'sub_territory_id'
+  | 'picture_url'
+  | 'rank_id'
+  | 'notes';
+
+export interface LeadMergeSelection {
+  take_fields: LeadMergeField[];
+  take_field_ids: string[];
 }
 
 export interface LeadRank {
@@ -137,6 +273,7 @@ export interface LeadRank {
   rank_bg_color: string;
   description?: string;
   display_order: number;
+  min_score?: number | null;
   is_active: boolean;
   is_default: boolean;
   is_system: boolean;
@@ -144,6 +281,82 @@ export interface LeadRank {
   updated_at: string;
 }
 
+export type LeadScoringRuleType =
+  | 'source'
+  | 'field_value'
+  | 'company_present'
+  | 'recent_activity'
+  | 'contact_decay';
+
+export type LeadScoringOperator = 'equals' | 'not_equals' | 'contains' | 'not_empty' | 'gte' | 'lte';
+
+export interface LeadScoringRule {
+  id: string;
+  org_id: string;
+  name: string;
+  rule_type: LeadScoringRuleType;
+  source?: string | null;
+  field_id?: string | null;
+  operator?: LeadScoringOperator | null;
+  match_value?: string | null;
+  /** Points added when the rule matches; for `contact_decay`, points lost per `window_days`. */
+  points: number;
+  window_days?: number | null;
+  max_points?: number | null;
+  is_active: boolean;
+  display_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LeadScoringRuleInput = Omit<LeadScoringRule, 'id' | 'org_id' | 'created_at' | 'updated_at'>;
+
+/** One matched rule in `Lead.score_breakdown`, as written by `refresh_lead_score`. */
+export interface LeadScoreItem {
+  rule_id: string;
+  name: string;
+  rule_type: LeadScoringRuleType;
+  points: number;
+  detail?: string | null;
+}
+
+export type LeadStaleRecycleStrategy = 'none' | 'pool' | 'round_robin';
+
+export interface LeadStaleRule {
+  id: string;
+  org_id: string;
+  status_key: string;
+  inactive_days: number;
+  recycle_strategy: LeadStaleRecycleStrategy;
+  pool_user_ids: string[];
+  last_assigned_user_id?: string | null;
+  notify_manager: boolean;
+  is_active: boolean;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LeadStaleRuleInput = Pick<
+  LeadStaleRule,
+  'status_key' | 'inactive_days' | 'recycle_strategy' | 'pool_user_ids' | 'notify_manager'
+>;
+
+export interface LeadStaleAlert {
+  id: string;
+  org_id: string;
+  lead_id: string;
+  recipient_id: string;
+  reason: 'assignee' | 'manager' | 'new_assignee';
+  inactive_days: number;
+  previous_assignee?: string | null;
+  new_assignee?: string | null;
+  acknowledged_at?: string | null;
+  created_at: string;
+  lead?: Pick<Lead, 'id' | 'full_name' | 'company' | 'stale_from_status'> | null;
+  previous_assignee_user?: { id: string; full_name: string } | null;
+}
+
 export interface LeadStatusRecord {
   id: string;
   org_id: string;
@@ -153,6 +366,7 @@ export interface LeadStatusRecord {
   status_bg_color: string;
   description?: string;
   display_order: number;
+  win_probability: number;
   is_active: boolean;
   is_default: boolean;
   is_system: boolean;
@@ -191,6 +405,35 @@ export interface LeadWithDetails extends Lead {
     code?: string;
   };
   rank?: LeadRank;
+  customer?: {
+    id: string;
+    customer_name: string;
+    customer_code: string;
+  } | null;
+}
+
+export type CustomerType = 'permanent' | 'temporary' | 'contract' | 'freelance';
+
+/** Customer values submitted when converting a won lead. */
+export interface LeadCustomerConversion {
+  customer_name: string;
+  customer_code?: string | null;
+  customer_telephone?: string | null;
+  location_of_outlet?: string | null;
+  country?: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  region_id?: string | null;
+  branch_id?: string | null;
+  customer_picture?: string | null;
+  customer_type?: CustomerType;
+}
+
+export interface LeadConvertedCustomer {
+  id: string;
+  customer_name: string;
+  customer_code: string;
+  lead_id: string;
 }
 
 export interface CreateLeadData {
@@ -202,6 +445,9 @@ export interface CreateLeadData {
   company?: string;
   status?: LeadStatus;
   score?: number;
+  deal_value?: number | null;
+  currency?: string;
+  expected_close_date?: string | null;
   source?: string;
   assigned_to?: string;
   region_id?: string;
@@ -227,6 +473,9 @@ export interface UpdateLeadData {
   company?: string;
   status?: LeadStatus;
   score?: number;
+  deal_value?: number | null;
+  currency?: string;
+  expected_close_date?: string | null;
   source?: string;
   assigned_to?: string;
   region_id?: string;
@@ -276,6 +525,33 @@ export interface LeadStats {
   avg_score: number;
 }
 
+export type LeadForecastGroupBy = 'month' | 'rep' | 'territory';
+
+export interface LeadForecastLead {
+  id: string;
+  full_name: string;
+  company?: string;
+  status: LeadStatus;
+  deal_value: number;
+  currency: string;
+  expected_close_date?: string | null;
+  won_at?: string | null;
+  assigned_to?: string;
+  territory_id?: string;
+  assigned_user?: { id: string; full_name: string } | null;
+  territory?: { id: string; name: string } | null;
+}
+
+export interface LeadForecastRow {
+  key: string;
+  label: string;
+  open_count: number;
+  pipeline_value: number;
+  weighted_value: number;
+  won_count: number;
+  won_value: number;
+}
+
 export const LEAD_STATUS_CONFIG: Record<LeadStatus, {
   label: string;
   color: string;
@@ -375,3 +651,5 @@ export const LEAD_SOURCES = [
   { value: 'direct', label: 'Direct' },
   { value: 'other', label: 'Other' }
 ];
+
+export const LEAD_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'INR', 'KES', 'NGN', 'ZAR'];
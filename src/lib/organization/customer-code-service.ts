@@ -0,0 +1,76 @@
+import { supabase } from '../supabase/client';
+
+export interface CustomerCodeSettings {
+  org_id: string;
+  prefix: string;
+  padding: number;
+}
+
+export const DEFAULT_CUSTOMER_CODE_SETTINGS: Omit<CustomerCodeSettings, 'org_id'> = {
+  prefix: 'CUST',
+  padding: 4
+};
+
+/** What a generated code looks like, e.g. `CUST0001`. Mirrors `generate_customer_code`. */
+export function formatCustomerCode(settings: Omit<CustomerCodeSettings, 'org_id'>, sequence: number): string {
+  return `${settings.prefix}${String(sequence).padStart(settings.padding, '0')}`;
+}
+
+export function validateCustomerCodeSettings(settings: Omit<CustomerCodeSettings, 'org_id'>): string | null {
+  if (!/^[A-Z0-9-]{0,10}$/.test(settings.prefix)) {
+    return 'Prefix can have up to 10 capital letters, digits or dashes';
+  }
+  if (!Number.isInteger(settings.padding) || settings.padding < 1 || settings.padding > 10) {
+    return 'Digits must be between 1 and 10';
+  }
+  return null;
+}
+
+export class CustomerCodeService {
+  static async getSettings(orgId: string): Promise<CustomerCodeSettings> {
+    try {
+      const { data, error } = await supabase
+        .from('customer_code_settings')
+        .select('org_id, prefix, padding')
+        .eq('org_id', orgId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data as CustomerCodeSettings | null) || { org_id: orgId, ...DEFAULT_CUSTOMER_CODE_SETTINGS };
+    } catch (error) {
+      console.error('Error fetching customer code settings:', error);
+      return { org_id: orgId, ...DEFAULT_CUSTOMER_CODE_SETTINGS };
+    }
+  }
+
+  static async saveSettings(settings: CustomerCodeSettings): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('customer_code_settings')
+        .upsert({ ...settings, updated_at: new Date().toISOString() });
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error saving customer code settings:', error);
+      return false;
+    }
+  }
+
+  /**
+   * The next free code under the org's rules. It is not reserved; conversions
+   * generate their own code when none is supplied, so only use this to
+   * pre-fill a form.
+   */
+  static async generateCode(orgId: string): Promise<string | null> {
+    try {
+      const { data, error } = await supabase.rpc('generate_customer_code', { p_org_id: orgId });
+
+      if (error) throw error;
+      return data as string;
+    } catch (error) {
+      console.error('Error generating customer code:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,91 @@
+export type VisitPlanPeriod = 'weekly' | 'monthly';
+
+export interface VisitPlan {
+  id: string;
+  org_id: string;
+  agent_id: string;
+  name: string;
+  period: VisitPlanPeriod;
+  start_date: string;
+  end_date: string;
+  notes?: string;
+  is_active: boolean;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+  agent?: {
+    id: string;
+    full_name: string;
+  };
+  stop_count?: number;
+}
+
+export interface VisitPlanStop {
+  id: string;
+  org_id: string;
+  plan_id: string;
+  customer_id: string;
+  target_date: string;
+  form_ids: string[];
+  sort_order: number;
+  notes?: string;
+  created_at: string;
+  customer?: {
+    id: string;
+    customer_name: string;
+    customer_code?: string;
+  };
+}
+
+export interface VisitPlanInput {
+  agent_id: string;
+  name: string;
+  period: VisitPlanPeriod;
+  start_date: string;
+  end_date: string;
+  notes?: string;
+}
+
+export interface VisitPlanStopInput {
+  customer_id: string;
+  target_date: string;
+  form_ids: string[];
+  notes?: string;
+}
+
+/** A customer that can be planned, with the forms attached to it. */
+export interface PlannableCustomer {
+  id: string;
+  customer_name: string;
+  customer_code?: string;
+  forms: { id: string; title: string }[];
+}
+
+export interface TodayVisit {
+  stop: VisitPlanStop;
+  plan_name: string;
+  forms: { id: string; title: string }[];
+  completed_form_ids: string[];
+}
+
+export type VisitOutcome = 'completed' | 'off_day' | 'missed' | 'upcoming';
+
+/** A submission as far as plan matching is concerned. */
+export interface VisitSubmission {
+  form_id: string;
+  agent_id: string;
+  submitted_by: string;
+  submitted_at: string;
+}
+
+export interface VisitAdherence {
+  agent_id: string;
+  agent_name: string;
+  planned: number;
+  completed: number;
+  off_day: number;
+  missed: number;
+  planned_days: number;
+  checked_in_days: number;
+  adherence_rate: number;
+}
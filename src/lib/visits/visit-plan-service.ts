@@ -0,0 +1,247 @@
+import { supabase } from '../supabase/client';
+import type {
+  PlannableCustomer,
+  TodayVisit,
+  VisitAdherence,
+  VisitPlan,
+  VisitPlanInput,
+  VisitPlanStop,
+  VisitPlanStopInput,
+  VisitSubmission
+} from './types';
+import { calculateAdherence, getDayBounds, matchesStop, toDateKey } from './visit-plan-utils';
+
+interface AttachmentRow {
+  customer: { id: string; customer_name: string; customer_code?: string } | null;
+  form: { id: string; title: string; is_active: boolean } | null;
+}
+
+type PlanRow = VisitPlan & { visit_plan_stops?: { count: number }[] };
+
+type TodayStopRow = VisitPlanStop & { plan: { name: string } };
+
+export class VisitPlanService {
+  static async listPlans(orgId: string): Promise<VisitPlan[]> {
+    try {
+      const { data, error } = await supabase
+        .from('visit_plans')
+        .select('*, agent:users!visit_plans_agent_id_fkey(id, full_name), visit_plan_stops(count)')
+        .eq('org_id', orgId)
+        .order('start_date', { ascending: false });
+
+      if (error) throw error;
+      return ((data || []) as PlanRow[]).map(({ visit_plan_stops, ...plan }) => ({
+        ...plan,
+        stop_count: visit_plan_stops?.[0]?.count || 0
+      }));
+    } catch (error) {
+      console.error('Error fetching visit plans:', error);
+      return [];
+    }
+  }
+
+  static async getPlanStops(planId: string): Promise<VisitPlanStop[]> {
+    try {
+      const { data, error } = await supabase
+        .from('visit_plan_stops')
+        .select('*, customer:customers(id, customer_name, customer_code)')
+        .eq('plan_id', planId)
+        .order('target_date')
+        .order('sort_order');
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching visit plan stops:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Saves a plan and replaces its stops in one transaction. Completion is
+   * derived from submissions, so recreating the stops loses nothing.
+   */
+  static async savePlan(
+    orgId: string,
+    plan: VisitPlanInput,
+    stops: VisitPlanStopInput[],
+    planId?: string
+  ): Promise<{ success: boolean; error?: string; planId?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('save_visit_plan', {
+        p_org_id: orgId,
+        p_plan: plan,
+        p_stops: stops,
+        p_plan_id: planId || null
+      });
+      if (error) throw new Error(error.message);
+
+      return { success: true, planId: data as string };
+    } catch (error) {
+      console.error('Error saving visit plan:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save visit plan'
+      };
+    }
+  }
+
+  static async setPlanActive(planId: string, isActive: boolean): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('visit_plans')
+        .update({ is_active: isActive })
+        .eq('id', planId);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error updating visit plan:', error);
+      return false;
+    }
+  }
+
+  static async deletePlan(planId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('visit_plans')
+        .delete()
+        .eq('id', planId);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error deleting visit plan:', error);
+      return false;
+    }
+  }
+
+  /** Customers with at least one active form attached, grouped with those forms. */
+  static async getPlannableCustomers(): Promise<PlannableCustomer[]> {
+    try {
+      const { data, error } = await supabase
+        .from('form_customer_attachments')
+        .select('customer:customers(id, customer_name, customer_code), form:forms(id, title, is_active)')
+        .eq('is_active', true);
+
+      if (error) throw error;
+
+      const customers = new Map<string, PlannableCustomer>();
+      for (const { customer, form } of (data || []) as AttachmentRow[]) {
+        if (!customer || !form?.is_active) continue;
+
+        const entry = customers.get(customer.id) || { ...customer, forms: [] };
+        if (!entry.forms.some(f => f.id === form.id)) {
+          entry.forms.push({ id: form.id, title: form.title });
+        }
+        customers.set(customer.id, entry);
+      }
+
+      return [...customers.values()].sort((a, b) => a.customer_name.localeCompare(b.customer_name));
+    } catch (error) {
+      console.error('Error fetching plannable customers:', error);
+      return [];
+    }
+  }
+
+  static async getTodaysVisits(userId: string): Promise<TodayVisit[]> {
+    try {
+      const today = toDateKey(new Date());
+
+      const { data, error } = await supabase
+        .from('visit_plan_stops')
+        .select('*, customer:customers(id, customer_name, customer_code), plan:visit_plans!inner(name, agent_id, is_active)')
+        .eq('target_date', today)
+        .eq('plan.agent_id', userId)
+        .eq('plan.is_active', true)
+        .order('sort_order');
+
+      if (error) throw error;
+      const stops = (data || []) as TodayStopRow[];
+      if (stops.length === 0) return [];
+
+      const [{ data: forms }, { data: submissions }] = await Promise.all([
+        supabase
+          .from('forms')
+          .select('id, title')
+          .in('id', [...new Set(stops.flatMap(s => s.form_ids))]),
+        supabase
+          .from('form_submissions')
+          .select('form_id, agent_id, submitted_by, submitted_at')
+          .eq('submitted_by', userId)
+          .in('agent_id', stops.map(s => s.customer_id))
+          .gte('submitted_at', getDayBounds(today).start)
+      ]);
+
+      const formList = (forms || []) as { id: string; title: string }[];
+      const submitted = (submissions || []) as VisitSubmission[];
+
+      return stops.map(({ plan, ...stop }) => ({
+        stop,
+        plan_name: plan.name,
+        forms: formList.filter(f => stop.form_ids.includes(f.id)),
+        completed_form_ids: submitted
+          .filter(s => matchesStop(stop, userId, s))
+          .map(s => s.form_id)
+      }));
+    } catch (error) {
+      console.error('Error fetching today\'s visits:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Plan-vs-actual for every plan overlapping the range. Submissions are
+   * read across each plan's full span so visits made on a different day
+   * than planned are still recognised.
+   */
+  static async getAdherence(orgId: string, startDate: string, endDate: string): Promise<VisitAdherence[]> {
+    try {
+      const { data: planData, error } = await supabase
+        .from('visit_plans')
+        .select('id, agent_id, start_date, end_date, agent:users!visit_plans_agent_id_fkey(id, full_name)')
+        .eq('org_id', orgId)
+        .lte('start_date', endDate)
+        .gte('end_date', startDate);
+
+      if (error) throw error;
+      const plans = (planData || []) as VisitPlan[];
+      if (plans.length === 0) return [];
+
+      const agentIds = [...new Set(plans.map(p => p.agent_id))];
+      const spanStart = plans.reduce((min, p) => p.start_date < min ? p.start_date : min, startDate);
+      const spanEnd = plans.reduce((max, p) => p.end_date > max ? p.end_date : max, endDate);
+
+      const [{ data: stops }, { data: submissions }, { data: checkins }] = await Promise.all([
+        supabase
+          .from('visit_plan_stops')
+          .select('plan_id, customer_id, form_ids, target_date')
+          .in('plan_id', plans.map(p => p.id))
+          .gte('target_date', startDate)
+          .lte('target_date', endDate),
+        supabase
+          .from('form_submissions')
+          .select('form_id, agent_id, submitted_by, submitted_at')
+          .in('submitted_by', agentIds)
+          .gte('submitted_at', getDayBounds(spanStart).start)
+          .lte('submitted_at', getDayBounds(spanEnd).end),
+        supabase
+          .from('checkins')
+          .select('user_id, check_in_at')
+          .in('user_id', agentIds)
+          .gte('check_in_at', getDayBounds(startDate).start)
+          .lte('check_in_at', getDayBounds(endDate).end)
+      ]);
+
+      return calculateAdherence(
+        plans,
+        (stops || []) as VisitPlanStop[],
+        (submissions || []) as VisitSubmission[],
+        (checkins || []) as { user_id: string; check_in_at: string }[]
+      );
+    } catch (error) {
+      console.error('Error calculating visit adherence:', error);
+      return [];
+    }
+  }
+}
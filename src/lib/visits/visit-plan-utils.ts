@@ -0,0 +1,171 @@
+import type {
+  VisitAdherence,
+  VisitOutcome,
+  VisitPlan,
+  VisitPlanInput,
+  VisitPlanPeriod,
+  VisitPlanStop,
+  VisitPlanStopInput,
+  VisitSubmission
+} from './types';
+
+export const VISIT_OUTCOME_LABELS: Record<VisitOutcome, string> = {
+  completed: 'Visited on plan',
+  off_day: 'Visited another day',
+  missed: 'Missed',
+  upcoming: 'Upcoming'
+};
+
+/** Local calendar date as `YYYY-MM-DD`, matching the `date` columns. */
+export function toDateKey(date: Date | string): string {
+  const d = typeof date === 'string' ? new Date(date) : date;
+  const month = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${month}-${day}`;
+}
+
+function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/** Bounds of a local calendar day as ISO timestamps, for `timestamptz` range filters. */
+export function getDayBounds(key: string): { start: string; end: string } {
+  const start = parseDateKey(key);
+  const end = parseDateKey(key);
+  end.setHours(23, 59, 59, 999);
+  return { start: start.toISOString(), end: end.toISOString() };
+}
+
+/** Weekly plans cover seven days; monthly plans run to the day before the same date next month. */
+export function getPlanEndDate(startDate: string, period: VisitPlanPeriod): string {
+  const end = parseDateKey(startDate);
+  if (period === 'weekly') {
+    end.setDate(end.getDate() + 6);
+  } else {
+    end.setMonth(end.getMonth() + 1);
+    end.setDate(end.getDate() - 1);
+  }
+  return toDateKey(end);
+}
+
+/** Every date in the plan, for laying out stops day by day. */
+export function getPlanDates(plan: Pick<VisitPlan, 'start_date' | 'end_date'>): string[] {
+  const dates: string[] = [];
+  const end = parseDateKey(plan.end_date);
+  for (const d = parseDateKey(plan.start_date); d <= end; d.setDate(d.getDate() + 1)) {
+    dates.push(toDateKey(d));
+  }
+  return dates;
+}
+
+/**
+ * A submission counts toward a stop when the planned agent submitted one of
+ * the stop's forms (any form if none were listed) against its customer.
+ */
+export function matchesStop(
+  stop: Pick<VisitPlanStop, 'customer_id' | 'form_ids'>,
+  agentId: string,
+  submission: VisitSubmission
+): boolean {
+  return submission.agent_id === stop.customer_id
+    && submission.submitted_by === agentId
+    && (stop.form_ids.length === 0 || stop.form_ids.includes(submission.form_id));
+}
+
+export function getStopOutcome(
+  stop: Pick<VisitPlanStop, 'customer_id' | 'form_ids' | 'target_date'>,
+  plan: Pick<VisitPlan, 'agent_id' | 'start_date' | 'end_date'>,
+  submissions: VisitSubmission[],
+  today: string = toDateKey(new Date())
+): VisitOutcome {
+  const visitDates = submissions
+    .filter(s => matchesStop(stop, plan.agent_id, s))
+    .map(s => toDateKey(s.submitted_at));
+
+  if (visitDates.includes(stop.target_date)) return 'completed';
+  if (visitDates.some(d => d >= plan.start_date && d <= plan.end_date)) return 'off_day';
+  return stop.target_date < today ? 'missed' : 'upcoming';
+}
+
+/**
+ * Plan-vs-actual per agent. Upcoming stops are left out so a plan that is
+ * still running is not penalised; check-in days are counted against the
+ * days that had at least one stop due.
+ */
+export function calculateAdherence(
+  plans: Pick<VisitPlan, 'id' | 'agent_id' | 'start_date' | 'end_date' | 'agent'>[],
+  stops: Pick<VisitPlanStop, 'plan_id' | 'customer_id' | 'form_ids' | 'target_date'>[],
+  submissions: VisitSubmission[],
+  checkins: { user_id: string; check_in_at: string }[],
+  today: string = toDateKey(new Date())
+): VisitAdherence[] {
+  const byAgent = new Map<string, VisitAdherence & { days: Set<string> }>();
+
+  for (const stop of stops) {
+    const plan = plans.find(p => p.id === stop.plan_id);
+    if (!plan) continue;
+
+    const outcome = getStopOutcome(stop, plan, submissions, today);
+    if (outcome === 'upcoming') continue;
+
+    let row = byAgent.get(plan.agent_id);
+    if (!row) {
+      row = {
+        agent_id: plan.agent_id,
+        agent_name: plan.agent?.full_name || 'Unknown',
+        planned: 0,
+        completed: 0,
+        off_day: 0,
+        missed: 0,
+        planned_days: 0,
+        checked_in_days: 0,
+        adherence_rate: 0,
+        days: new Set()
+      };
+      byAgent.set(plan.agent_id, row);
+    }
+
+    row.planned++;
+    row[outcome]++;
+    row.days.add(stop.target_date);
+  }
+
+  return [...byAgent.values()]
+    .map(({ days, ...row }) => {
+      const checkinDays = new Set(
+        checkins.filter(c => c.user_id === row.agent_id).map(c => toDateKey(c.check_in_at))
+      );
+      return {
+        ...row,
+        planned_days: days.size,
+        checked_in_days: [...days].filter(d => checkinDays.has(d)).length,
+        adherence_rate: row.planned > 0 ? Math.round((row.completed / row.planned) * 100) : 0
+      };
+    })
+    .sort((a, b) => a.agent_name.localeCompare(b.agent_name));
+}
+
+/** Returns a message for the first problem in the plan, or null when it can be saved. */
+export function validateVisitPlan(plan: VisitPlanInput, stops: VisitPlanStopInput[]): string | null {
+  if (!plan.agent_id) return 'Select the agent this plan is for';
+  if (!plan.name.trim()) return 'Plan name is required';
+  if (!plan.start_date || !plan.end_date || plan.end_date < plan.start_date) return 'Select a valid date range';
+  if (stops.length === 0) return 'Add at least one visit';
+
+  const seen = new Set<string>();
+  for (const [index, stop] of stops.entries()) {
+    const label = `Visit ${index + 1}`;
+    if (!stop.customer_id) return `${label} needs a customer`;
+    if (!stop.target_date) return `${label} needs a date`;
+    if (stop.target_date < plan.start_date || stop.target_date > plan.end_date) {
+      return `${label} falls outside the plan dates`;
+    }
+    if (stop.form_ids.length === 0) return `${label} needs at least one form`;
+
+    const key = `${stop.customer_id}:${stop.target_date}`;
+    if (seen.has(key)) return `${label} repeats a customer already planned for that day`;
+    seen.add(key);
+  }
+  return null;
+}
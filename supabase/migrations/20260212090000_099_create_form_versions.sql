@@ -0,0 +1,212 @@
+/*
+  # Form Schema Versioning
+
+  1. New Tables
+    - `form_versions`
+      - `id` (uuid, PK)
+      - `form_id` (uuid, FK to forms)
+      - `version_number` (integer): Sequential per form, starting at 1
+      - `title` (text): Form title at the time the version was created
+      - `form_schema` (jsonb): Immutable copy of the field definitions
+      - `created_by` (uuid, FK to users)
+      - `created_at` (timestamptz)
+    - Unique constraint on (form_id, version_number)
+
+  2. Changes
+    - `forms.current_version_id` points at the latest version
+    - `form_submissions.form_version_id` pins each submission to the schema it was filled against
+    - Trigger on `forms` creates a new version whenever a form is created or its
+      `form_schema` changes, and moves `current_version_id` forward
+    - `submit_form` records the form's current version on every new submission
+
+  3. Backfill
+    - Every existing form gets version 1 from its current schema
+    - Existing submissions are pinned to that version
+
+  4. Security
+    - RLS enabled on `form_versions`
+    - Users can read versions of forms in their organization
+    - No UPDATE or DELETE policies: versions are immutable once written
+*/
+
+CREATE TABLE IF NOT EXISTS form_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id uuid NOT NULL REFERENCES forms(id) ON DELETE CASCADE,
+  version_number integer NOT NULL,
+  title text NOT NULL,
+  form_schema jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (form_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_form_versions_form ON form_versions(form_id, version_number DESC);
+
+ALTER TABLE forms
+  ADD COLUMN IF NOT EXISTS current_version_id uuid REFERENCES form_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE form_submissions
+  ADD COLUMN IF NOT EXISTS form_version_id uuid REFERENCES form_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_form_submissions_version ON form_submissions(form_version_id);
+
+ALTER TABLE form_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view form versions in their org"
+ON form_versions FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM forms f
+    WHERE f.id = form_versions.form_id
+    AND f.org_id IN (
+      SELECT org_id FROM users WHERE id = auth.uid()
+    )
+  )
+);
+
+-- Snapshot the schema into a new version whenever it changes
+CREATE OR REPLACE FUNCTION create_form_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_version_number integer;
+  v_version_id uuid;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.form_schema IS NOT DISTINCT FROM OLD.form_schema THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(MAX(version_number), 0) + 1
+  INTO v_version_number
+  FROM form_versions
+  WHERE form_id = NEW.id;
+
+  INSERT INTO form_versions (form_id, version_number, title, form_schema, created_by)
+  VALUES (NEW.id, v_version_number, NEW.title, NEW.form_schema, COALESCE(auth.uid(), NEW.created_by))
+  RETURNING id INTO v_version_id;
+
+  UPDATE forms
+  SET current_version_id = v_version_id
+  WHERE id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_create_form_version ON forms;
+CREATE TRIGGER trigger_create_form_version
+  AFTER INSERT OR UPDATE OF form_schema ON forms
+  FOR EACH ROW
+  EXECUTE FUNCTION create_form_version();
+
+-- Backfill version 1 for existing forms and pin their submissions to it
+INSERT INTO form_versions (form_id, version_number, title, form_schema, created_by, created_at)
+SELECT f.id, 1, f.title, f.form_schema, f.created_by, f.updated_at
+FROM forms f
+WHERE NOT EXISTS (SELECT 1 FROM form_versions v WHERE v.form_id = f.id);
+
+UPDATE forms f
+SET current_version_id = v.id
+FROM form_versions v
+WHERE v.form_id = f.id
+  AND v.version_number = 1
+  AND f.current_version_id IS NULL;
+
+UPDATE form_submissions s
+SET form_version_id = f.current_version_id
+FROM forms f
+WHERE f.id = s.form_id
+  AND s.form_version_id IS NULL;
+
+-- Record the current form version on each new submission
+CREATE OR REPLACE FUNCTION submit_form(
+  p_agent_id uuid,
+  p_form_id uuid,
+  p_form_started_at timestamptz DEFAULT NULL,
+  p_form_end_time timestamptz DEFAULT NULL,
+  p_latitude double precision DEFAULT NULL,
+  p_longitude double precision DEFAULT NULL,
+  p_submission_data jsonb DEFAULT '{}'::jsonb,
+  p_supervisor_code text DEFAULT NULL,
+  p_supervisor_name text DEFAULT NULL,
+  p_time_spent integer DEFAULT NULL,
+  p_submitted_by uuid DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_cycle_number INTEGER;
+  v_submission_id UUID;
+  v_version_id UUID;
+  v_result JSON;
+BEGIN
+  SELECT current_version_id
+  INTO v_version_id
+  FROM forms
+  WHERE id = p_form_id;
+
+  SELECT COALESCE(MAX(cycle_number), 0) + 1
+  INTO v_cycle_number
+  FROM form_submissions
+  WHERE form_id = p_form_id
+    AND agent_id = p_agent_id;
+
+  INSERT INTO form_submissions (
+    form_id,
+    form_version_id,
+    agent_id,
+    submission_data,
+    cycle_number,
+    latitude,
+    longitude,
+    form_started_at,
+    form_end_time,
+    status,
+    submitted_at,
+    submitted_by,
+    supervisor_name,
+    supervisor_code,
+    time_spent
+  )
+  VALUES (
+    p_form_id,
+    v_version_id,
+    p_agent_id,
+    p_submission_data,
+    v_cycle_number,
+    p_latitude,
+    p_longitude,
+    p_form_started_at,
+    p_form_end_time,
+    'pending',
+    NOW(),
+    COALESCE(p_submitted_by, auth.uid()),
+    p_supervisor_name,
+    p_supervisor_code,
+    make_interval(secs => p_time_spent)
+  )
+  RETURNING id INTO v_submission_id;
+
+  v_result := json_build_object(
+    'success', true,
+    'message', 'Form submitted successfully',
+    'submission_id', v_submission_id,
+    'cycle_number', v_cycle_number,
+    'form_version_id', v_version_id
+  );
+
+  RETURN v_result;
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN json_build_object(
+      'success', false,
+      'message', 'Failed to submit form: ' || SQLERRM
+    );
+END;
+$$;
@@ -0,0 +1,157 @@
+/*
+  # Idempotent Form Submissions for Offline Replay
+
+  1. Changes
+    - Add `form_submissions.idempotency_key` (text), generated on the device when a
+      submission is queued in the offline outbox
+    - Unique index on the key so a replayed submission can never be stored twice
+    - Replace `submit_form` with a version that accepts `p_idempotency_key`:
+      - If a submission with the same key already exists, return it with
+        `duplicate = true` instead of inserting a new row
+      - Cycle numbers are therefore only consumed once per queued submission
+
+  2. Notes
+    - The key is optional; callers that do not send one behave as before
+    - A concurrent replay that loses the race on the unique index also returns
+      the existing submission
+*/
+
+ALTER TABLE form_submissions
+  ADD COLUMN IF NOT EXISTS idempotency_key text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_form_submissions_idempotency_key
+  ON form_submissions(idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+DROP FUNCTION IF EXISTS submit_form(uuid, uuid, timestamptz, timestamptz, double precision, double precision, jsonb, text, text, integer, uuid);
+
+CREATE OR REPLACE FUNCTION submit_form(
+  p_agent_id uuid,
+  p_form_id uuid,
+  p_form_started_at timestamptz DEFAULT NULL,
+  p_form_end_time timestamptz DEFAULT NULL,
+  p_latitude double precision DEFAULT NULL,
+  p_longitude double precision DEFAULT NULL,
+  p_submission_data jsonb DEFAULT '{}'::jsonb,
+  p_supervisor_code text DEFAULT NULL,
+  p_supervisor_name text DEFAULT NULL,
+  p_time_spent integer DEFAULT NULL,
+  p_submitted_by uuid DEFAULT NULL,
+  p_idempotency_key text DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_cycle_number INTEGER;
+  v_submission_id UUID;
+  v_version_id UUID;
+  v_result JSON;
+BEGIN
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT id, cycle_number, form_version_id
+    INTO v_submission_id, v_cycle_number, v_version_id
+    FROM form_submissions
+    WHERE idempotency_key = p_idempotency_key;
+
+    IF v_submission_id IS NOT NULL THEN
+      RETURN json_build_object(
+        'success', true,
+        'message', 'Form already submitted',
+        'submission_id', v_submission_id,
+        'cycle_number', v_cycle_number,
+        'form_version_id', v_version_id,
+        'duplicate', true
+      );
+    END IF;
+  END IF;
+
+  SELECT current_version_id
+  INTO v_version_id
+  FROM forms
+  WHERE id = p_form_id;
+
+  SELECT COALESCE(MAX(cycle_number), 0) + 1
+  INTO v_cycle_number
+  FROM form_submissions
+  WHERE form_id = p_form_id
+    AND agent_id = p_agent_id;
+
+  INSERT INTO form_submissions (
+    form_id,
+    form_version_id,
+    agent_id,
+    submission_data,
+    cycle_number,
+    latitude,
+    longitude,
+    form_started_at,
+    form_end_time,
+    status,
+    submitted_at,
+    submitted_by,
+    supervisor_name,
+    supervisor_code,
+    time_spent,
+    idempotency_key
+  )
+  VALUES (
+    p_form_id,
+    v_version_id,
+    p_agent_id,
+    p_submission_data,
+    v_cycle_number,
+    p_latitude,
+    p_longitude,
+    p_form_started_at,
+    p_form_end_time,
+    'pending',
+    NOW(),
+    COALESCE(p_submitted_by, auth.uid()),
+    p_supervisor_name,
+    p_supervisor_code,
+    make_interval(secs => p_time_spent),
+    p_idempotency_key
+  )
+  RETURNING id INTO v_submission_id;
+
+  v_result := json_build_object(
+    'success', true,
+    'message', 'Form submitted successfully',
+    'submission_id', v_submission_id,
+    'cycle_number', v_cycle_number,
+    'form_version_id', v_version_id
+  );
+
+  RETURN v_result;
+
+EXCEPTION
+  WHEN unique_violation THEN
+    SELECT id, cycle_number, form_version_id
+    INTO v_submission_id, v_cycle_number, v_version_id
+    FROM form_submissions
+    WHERE idempotency_key = p_idempotency_key;
+
+    IF v_submission_id IS NULL THEN
+      RETURN json_build_object(
+        'success', false,
+        'message', 'Failed to submit form: ' || SQLERRM
+      );
+    END IF;
+
+    RETURN json_build_object(
+      'success', true,
+      'message', 'Form already submitted',
+      'submission_id', v_submission_id,
+      'cycle_number', v_cycle_number,
+      'form_version_id', v_version_id,
+      'duplicate', true
+    );
+  WHEN OTHERS THEN
+    RETURN json_build_object(
+      'success', false,
+      'message', 'Failed to submit form: ' || SQLERRM
+    );
+END;
+$$;
@@ -0,0 +1,95 @@
+/*
+  # Form Uploads Storage Bucket
+
+  1. Storage
+    - Create the `form-uploads` bucket for image and file answers
+    - Objects are stored as `{form_id}/{upload_id}.{ext}` with an optional
+      `{form_id}/{upload_id}_thumb.jpg` thumbnail
+    - Bucket-level hard limit of 20 MB; per-field limits are enforced by the
+      client from `FormField.upload`
+    - The bucket is private: answers can contain customer documents and
+      photos, so files are only shown through short-lived signed URLs
+
+  2. Security
+    - Authenticated users can upload, overwrite and read objects whose first
+      path segment is a form in their organization
+    - Admins can delete objects for forms in their organization
+
+  3. Notes
+    - `submission_data` now stores an array of references
+      (`id`, `path`, `thumbnail_path`, `filename`, `type`, `size`)
+      instead of base64 data URLs; links are signed when a submission is
+      opened
+    - Legacy inline images (`{ filename, data, type, size }`) remain readable
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('form-uploads', 'form-uploads', false, 20971520)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+CREATE POLICY "Users can upload form files for their org"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'form-uploads'
+    AND EXISTS (
+      SELECT 1 FROM forms f
+      WHERE f.id::text = (storage.foldername(name))[1]
+      AND f.org_id IN (
+        SELECT org_id FROM users WHERE id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can overwrite form files for their org"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'form-uploads'
+    AND EXISTS (
+      SELECT 1 FROM forms f
+      WHERE f.id::text = (storage.foldername(name))[1]
+      AND f.org_id IN (
+        SELECT org_id FROM users WHERE id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can read form files for their org"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'form-uploads'
+    AND EXISTS (
+      SELECT 1 FROM forms f
+      WHERE f.id::text = (storage.foldername(name))[1]
+      AND f.org_id IN (
+        SELECT org_id FROM users WHERE id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Admins can delete form files for their org"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'form-uploads'
+    AND EXISTS (
+      SELECT 1 FROM forms f
+      WHERE f.id::text = (storage.foldername(name))[1]
+      AND f.org_id = (
+        coalesce(
+          current_setting('request.jwt.claims', true)::json->'app_metadata'->>'org_id',
+          ''
+        )
+      )::uuid
+    )
+    AND coalesce(
+      current_setting('request.jwt.claims', true)::json->'app_metadata'->>'role',
+      ''
+    ) IN ('super_admin', 'client_admin')
+  );
@@ -0,0 +1,101 @@
+/*
+  # Form Import Mapping Presets
+
+  1. New Tables
+    - `form_import_presets`
+      - `id` (uuid, PK)
+      - `org_id` (uuid, FK to organizations)
+      - `form_id` (uuid, FK to forms)
+      - `name` (text): Label shown in the import wizard
+      - `mapping` (jsonb): CSV header to form field / submission column mapping
+      - `created_by` (uuid, FK to users)
+      - `created_at`, `updated_at` (timestamptz)
+    - Unique constraint on (form_id, name) so saving under an existing name
+      replaces that preset
+
+  2. Security
+    - RLS enabled on `form_import_presets`
+    - Users can read presets in their organization
+    - Admins can create, update and delete presets in their organization
+*/
+
+CREATE TABLE IF NOT EXISTS form_import_presets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  form_id uuid NOT NULL REFERENCES forms(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  mapping jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (form_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_form_import_presets_form ON form_import_presets(form_id);
+
+ALTER TABLE form_import_presets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view import presets in their org"
+ON form_import_presets FOR SELECT
+TO authenticated
+USING (
+  org_id IN (
+    SELECT org_id FROM users WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can create import presets in their org"
+ON form_import_presets FOR INSERT
+TO authenticated
+WITH CHECK (
+  org_id = (
+    coalesce(
+      current_setting('request.jwt.claims', true)::json->'app_metadata'->>'org_id',
+      ''
+    )
+  )::uuid
+  AND coalesce(
+    current_setting('request.jwt.claims', true)::json->'app_metadata'->>'role',
+    ''
+  ) IN ('super_admin', 'client_admin')
+);
+
+CREATE POLICY "Admins can update import presets in their org"
+ON form_import_presets FOR UPDATE
+TO authenticated
+USING (
+  org_id = (
+    coalesce(
+      current_setting('request.jwt.claims', true)::json->'app_metadata'->>'org_id',
+      ''
+    )
+  )::uuid
+  AND coalesce(
+    current_setting('request.jwt.claims', true)::json->'app_metadata'->>'role',
+    ''
+  ) IN ('super_admin', 'client_admin')
+)
+WITH CHECK (
+  org_id = (
+    coalesce(
+      current_setting('request.jwt.claims', true)::json->'app_metadata'->>'org_id',
+      ''
+    )
+  )::uuid
+);
+
+CREATE POLICY "Admins can delete import presets in their org"
+ON form_import_presets FOR DELETE
+TO authenticated
+USING (
+  org_id = (
+    coalesce(
+      current_setting('request.jwt.claims', true)::json->'app_metadata'->>'org_id',
+      ''
+    )
+  )::uuid
+  AND coalesce(
+    current_setting('request.jwt.claims', true)::json->'app_metadata'->>'role',
+    ''
+  ) IN ('super_admin', 'client_admin')
+);
@@ -0,0 +1,244 @@
+/*
+  # GPS-Verified Form Submissions
+
+  1. Changes
+    - Add location settings to `forms`, used when `attach_to_customer` is on:
+      - `require_location` (boolean): submissions must include a GPS fix
+      - `geofence_radius_m` (integer): maximum distance from the customer's
+        coordinates; NULL disables the distance check
+      - `geofence_action` ('flag' | 'block'): what happens outside the radius
+    - Add `form_submissions.distance_from_customer_m` and
+      `form_submissions.geofence_status` ('inside', 'outside', 'no_location',
+      'no_customer_location'); both stay NULL for forms without location checks
+    - New `calculate_distance_meters` helper (haversine, metres)
+    - Replace `submit_form` so it evaluates the location settings:
+      - Missing fix on a form that requires one returns `location_required`
+      - Outside the radius with action 'block' returns `outside_geofence`
+        together with the measured distance
+      - Otherwise the submission is stored with its distance and status
+
+  2. Notes
+    - The customer is the submission's `agent_id`; customers without
+      coordinates are stored as 'no_customer_location' and never blocked
+    - Client and super admins entering responses from the back office are
+      never blocked; their submissions are flagged like any other
+    - Idempotent replays are resolved before any location check, so a queued
+      submission that was already stored is not re-evaluated
+*/
+
+ALTER TABLE forms
+  ADD COLUMN IF NOT EXISTS require_location boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS geofence_radius_m integer CHECK (geofence_radius_m IS NULL OR geofence_radius_m > 0),
+  ADD COLUMN IF NOT EXISTS geofence_action text NOT NULL DEFAULT 'flag' CHECK (geofence_action IN ('flag', 'block'));
+
+ALTER TABLE form_submissions
+  ADD COLUMN IF NOT EXISTS distance_from_customer_m double precision,
+  ADD COLUMN IF NOT EXISTS geofence_status text CHECK (
+    geofence_status IS NULL OR geofence_status IN ('inside', 'outside', 'no_location', 'no_customer_location')
+  );
+
+CREATE INDEX IF NOT EXISTS idx_form_submissions_geofence_status
+  ON form_submissions(form_id, geofence_status)
+  WHERE geofence_status IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION calculate_distance_meters(
+  p_lat1 double precision,
+  p_lng1 double precision,
+  p_lat2 double precision,
+  p_lng2 double precision
+)
+RETURNS double precision
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 2 * 6371000 * asin(sqrt(
+    power(sin(radians(p_lat2 - p_lat1) / 2), 2) +
+    cos(radians(p_lat1)) * cos(radians(p_lat2)) * power(sin(radians(p_lng2 - p_lng1) / 2), 2)
+  ));
+$$;
+
+CREATE OR REPLACE FUNCTION submit_form(
+  p_agent_id uuid,
+  p_form_id uuid,
+  p_form_started_at timestamptz DEFAULT NULL,
+  p_form_end_time timestamptz DEFAULT NULL,
+  p_latitude double precision DEFAULT NULL,
+  p_longitude double precision DEFAULT NULL,
+  p_submission_data jsonb DEFAULT '{}'::jsonb,
+  p_supervisor_code text DEFAULT NULL,
+  p_supervisor_name text DEFAULT NULL,
+  p_time_spent integer DEFAULT NULL,
+  p_submitted_by uuid DEFAULT NULL,
+  p_idempotency_key text DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_cycle_number INTEGER;
+  v_submission_id UUID;
+  v_version_id UUID;
+  v_attach_to_customer BOOLEAN;
+  v_require_location BOOLEAN;
+  v_radius INTEGER;
+  v_action TEXT;
+  v_customer_lat DOUBLE PRECISION;
+  v_customer_lng DOUBLE PRECISION;
+  v_distance DOUBLE PRECISION;
+  v_geofence_status TEXT;
+  v_is_admin BOOLEAN;
+  v_result JSON;
+BEGIN
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT id, cycle_number, form_version_id
+    INTO v_submission_id, v_cycle_number, v_version_id
+    FROM form_submissions
+    WHERE idempotency_key = p_idempotency_key;
+
+    IF v_submission_id IS NOT NULL THEN
+      RETURN json_build_object(
+        'success', true,
+        'message', 'Form already submitted',
+        'submission_id', v_submission_id,
+        'cycle_number', v_cycle_number,
+        'form_version_id', v_version_id,
+        'duplicate', true
+      );
+    END IF;
+  END IF;
+
+  SELECT current_version_id, attach_to_customer, require_location, geofence_radius_m, geofence_action
+  INTO v_version_id, v_attach_to_customer, v_require_location, v_radius, v_action
+  FROM forms
+  WHERE id = p_form_id;
+
+  IF v_attach_to_customer AND (v_require_location OR v_radius IS NOT NULL) THEN
+    v_is_admin := coalesce(current_setting('request.jwt.claims', true)::json->'app_metadata'->>'role', '')
+      IN ('super_admin', 'client_admin');
+
+    SELECT latitude, longitude
+    INTO v_customer_lat, v_customer_lng
+    FROM customers
+    WHERE id = p_agent_id;
+
+    IF p_latitude IS NULL OR p_longitude IS NULL THEN
+      IF v_require_location AND NOT v_is_admin THEN
+        RETURN json_build_object(
+          'success', false,
+          'error', 'location_required',
+          'message', 'A GPS location is required to submit this form'
+        );
+      END IF;
+      v_geofence_status := 'no_location';
+    ELSIF v_customer_lat IS NULL OR v_customer_lng IS NULL THEN
+      v_geofence_status := 'no_customer_location';
+    ELSE
+      v_distance := calculate_distance_meters(p_latitude, p_longitude, v_customer_lat, v_customer_lng);
+
+      IF v_radius IS NOT NULL AND v_distance > v_radius THEN
+        IF v_action = 'block' AND NOT v_is_admin THEN
+          RETURN json_build_object(
+            'success', false,
+            'error', 'outside_geofence',
+            'message', 'You are ' || round(v_distance) || ' m from the customer; submissions must be within ' || v_radius || ' m',
+            'distance_m', round(v_distance),
+            'radius_m', v_radius
+          );
+        END IF;
+        v_geofence_status := 'outside';
+      ELSE
+        v_geofence_status := 'inside';
+      END IF;
+    END IF;
+  END IF;
+
+  SELECT COALESCE(MAX(cycle_number), 0) + 1
+  INTO v_cycle_number
+  FROM form_submissions
+  WHERE form_id = p_form_id
+    AND agent_id = p_agent_id;
+
+  INSERT INTO form_submissions (
+    form_id,
+    form_version_id,
+    agent_id,
+    submission_data,
+    cycle_number,
+    latitude,
+    longitude,
+    form_started_at,
+    form_end_time,
+    status,
+    submitted_at,
+    submitted_by,
+    supervisor_name,
+    supervisor_code,
+    time_spent,
+    idempotency_key,
+    distance_from_customer_m,
+    geofence_status
+  )
+  VALUES (
+    p_form_id,
+    v_version_id,
+    p_agent_id,
+    p_submission_data,
+    v_cycle_number,
+    p_latitude,
+    p_longitude,
+    p_form_started_at,
+    p_form_end_time,
+    'pending',
+    NOW(),
+    COALESCE(p_submitted_by, auth.uid()),
+    p_supervisor_name,
+    p_supervisor_code,
+    make_interval(secs => p_time_spent),
+    p_idempotency_key,
+    v_distance,
+    v_geofence_status
+  )
+  RETURNING id INTO v_submission_id;
+
+  v_result := json_build_object(
+    'success', true,
+    'message', 'Form submitted successfully',
+    'submission_id', v_submission_id,
+    'cycle_number', v_cycle_number,
+    'form_version_id', v_version_id,
+    'distance_m', round(v_distance),
+    'geofence_status', v_geofence_status
+  );
+
+  RETURN v_result;
+
+EXCEPTION
+  WHEN unique_violation THEN
+    SELECT id, cycle_number, form_version_id
+    INTO v_submission_id, v_cycle_number, v_version_id
+    FROM form_submissions
+    WHERE idempotency_key = p_idempotency_key;
+
+    IF v_submission_id IS NULL THEN
+      RETURN json_build_object(
+        'success', false,
+        'message', 'Failed to submit form: ' || SQLERRM
+      );
+    END IF;
+
+    RETURN json_build_object(
+      'success', true,
+      'message', 'Form already submitted',
+      'submission_id', v_submission_id,
+      'cycle_number', v_cycle_number,
+      'form_version_id', v_version_id,
+      'duplicate', true
+    );
+  WHEN OTHERS THEN
+    RETURN json_build_object(
+      'success', false,
+      'message', 'Failed to submit form: ' || SQLERRM
+    );
+END;
+$$;
@@ -0,0 +1,448 @@
+/*
+  # Multi-Stage Approval Workflows for Form Submissions
+
+  1. Changes
+    - Add `forms.approval_stages` (jsonb array). Each stage is
+      `{ id, name, approver_type, role_name?, max_level? }`:
+      - approver_type 'role': reviewers must hold the role named `role_name`
+      - approver_type 'level': reviewers need a role whose `level` is at most
+        `max_level` (lower levels are more senior)
+      - An empty array keeps the single four-eye review
+    - Add `form_submissions.current_stage` (index into the form's stages)
+    - Allow the new submission status 'returned' (sent back for correction)
+
+  2. New Tables
+    - `form_submission_reviews`: one row per review action
+      - `stage_index`, `stage_name`: the stage the action was taken at
+      - `action`: 'approved', 'rejected', 'returned' or 'resubmitted'
+      - `reviewer_id`, `notes`, `created_at`
+
+  3. Functions
+    - `can_review_form_stage(form, stage, user)`: stage eligibility check
+    - `approve_form_submission`: records the stage and advances to the next
+      one; the final stage marks the submission approved
+    - `reject_form_submission`: rejects at the current stage
+    - `return_form_submission`: sends a pending submission back to the
+      submitter and resets it to the first stage
+    - `resubmit_form_submission`: lets the original submitter replace the
+      answers of a returned submission and put it back in review
+
+  4. Security
+    - RLS on `form_submission_reviews`: org members can read; rows are only
+      written by the functions above
+    - The review functions only act for the signed-in user: `p_reviewer_id`
+      must equal `auth.uid()` and belong to the form's organization
+    - Client and super admins may act on any stage of their own org's forms
+    - The four-eye rule still applies: nobody reviews their own submission
+*/
+
+ALTER TABLE forms
+  ADD COLUMN IF NOT EXISTS approval_stages jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE form_submissions
+  ADD COLUMN IF NOT EXISTS current_stage integer NOT NULL DEFAULT 0;
+
+ALTER TABLE form_submissions
+  DROP CONSTRAINT IF EXISTS form_submissions_status_check;
+
+ALTER TABLE form_submissions
+  ADD CONSTRAINT form_submissions_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected', 'returned'));
+
+CREATE TABLE IF NOT EXISTS form_submission_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  submission_id uuid NOT NULL REFERENCES form_submissions(id) ON DELETE CASCADE,
+  stage_index integer NOT NULL DEFAULT 0,
+  stage_name text,
+  action text NOT NULL CHECK (action IN ('approved', 'rejected', 'returned', 'resubmitted')),
+  reviewer_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_form_submission_reviews_submission
+  ON form_submission_reviews(submission_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_form_submissions_pending_stage
+  ON form_submissions(form_id, current_stage)
+  WHERE status = 'pending';
+
+ALTER TABLE form_submission_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view submission reviews in their org"
+  ON form_submission_reviews FOR SELECT
+  TO authenticated
+  USING (
+    org_id IN (SELECT org_id FROM users WHERE id = auth.uid())
+  );
+
+CREATE OR REPLACE FUNCTION can_review_form_stage(
+  p_form_id uuid,
+  p_stage_index integer,
+  p_user_id uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_stages jsonb;
+  v_stage jsonb;
+  v_role_name text;
+  v_role_level integer;
+BEGIN
+  SELECT r.name, r.level, f.approval_stages
+  INTO v_role_name, v_role_level, v_stages
+  FROM forms f
+  JOIN users u ON u.org_id = f.org_id
+  JOIN roles r ON r.id = u.role_id
+  WHERE f.id = p_form_id
+    AND u.id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF v_role_name IN ('super_admin', 'client_admin') THEN
+    RETURN true;
+  END IF;
+
+  IF v_stages IS NULL OR jsonb_array_length(v_stages) = 0 THEN
+    RETURN true;
+  END IF;
+
+  v_stage := v_stages -> p_stage_index;
+  IF v_stage IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF v_stage->>'approver_type' = 'role' THEN
+    RETURN v_role_name = v_stage->>'role_name';
+  END IF;
+
+  RETURN v_role_level IS NOT NULL
+    AND v_role_level <= coalesce((v_stage->>'max_level')::integer, 0);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION approve_form_submission(
+  p_submission_id uuid,
+  p_reviewer_id uuid,
+  p_review_notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_submission form_submissions%ROWTYPE;
+  v_org_id uuid;
+  v_stages jsonb;
+  v_stage_count integer;
+  v_stage_name text;
+BEGIN
+  SELECT * INTO v_submission
+  FROM form_submissions
+  WHERE id = p_submission_id
+  FOR UPDATE;
+
+  IF v_submission.id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Submission not found');
+  END IF;
+
+  IF p_reviewer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Reviews can only be recorded for the signed-in user');
+  END IF;
+
+  SELECT org_id, approval_stages INTO v_org_id, v_stages
+  FROM forms
+  WHERE id = v_submission.form_id;
+
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = p_reviewer_id AND org_id = v_org_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Submission not found');
+  END IF;
+
+  IF v_submission.submitted_by = p_reviewer_id THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'You cannot approve your own submission (four-eye review required)'
+    );
+  END IF;
+
+  IF v_submission.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'This submission has already been reviewed and cannot be modified'
+    );
+  END IF;
+
+  IF NOT can_review_form_stage(v_submission.form_id, v_submission.current_stage, p_reviewer_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'You are not an approver for the current review stage'
+    );
+  END IF;
+
+  v_stage_count := greatest(jsonb_array_length(coalesce(v_stages, '[]'::jsonb)), 1);
+  v_stage_name := v_stages -> v_submission.current_stage ->> 'name';
+
+  INSERT INTO form_submission_reviews (org_id, submission_id, stage_index, stage_name, action, reviewer_id, notes)
+  VALUES (v_org_id, p_submission_id, v_submission.current_stage, v_stage_name, 'approved', p_reviewer_id, p_review_notes);
+
+  IF v_submission.current_stage + 1 < v_stage_count THEN
+    UPDATE form_submissions
+    SET
+      current_stage = current_stage + 1,
+      review_notes = p_review_notes,
+      updated_at = now()
+    WHERE id = p_submission_id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'completed', false,
+      'next_stage', v_submission.current_stage + 1,
+      'next_stage_name', v_stages -> (v_submission.current_stage + 1) ->> 'name'
+    );
+  END IF;
+
+  UPDATE form_submissions
+  SET
+    status = 'approved',
+    approved_by = p_reviewer_id,
+    approved_at = now(),
+    review_notes = p_review_notes,
+    updated_at = now()
+  WHERE id = p_submission_id;
+
+  RETURN jsonb_build_object('success', true, 'completed', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reject_form_submission(
+  p_submission_id uuid,
+  p_reviewer_id uuid,
+  p_rejection_reason text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_submission form_submissions%ROWTYPE;
+  v_org_id uuid;
+  v_stages jsonb;
+BEGIN
+  SELECT * INTO v_submission
+  FROM form_submissions
+  WHERE id = p_submission_id
+  FOR UPDATE;
+
+  IF v_submission.id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Submission not found');
+  END IF;
+
+  IF p_reviewer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Reviews can only be recorded for the signed-in user');
+  END IF;
+
+  SELECT org_id, approval_stages INTO v_org_id, v_stages
+  FROM forms
+  WHERE id = v_submission.form_id;
+
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = p_reviewer_id AND org_id = v_org_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Submission not found');
+  END IF;
+
+  IF v_submission.submitted_by = p_reviewer_id THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'You cannot reject your own submission (four-eye review required)'
+    );
+  END IF;
+
+  IF v_submission.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'This submission has already been reviewed and cannot be modified'
+    );
+  END IF;
+
+  IF NOT can_review_form_stage(v_submission.form_id, v_submission.current_stage, p_reviewer_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'You are not an approver for the current review stage'
+    );
+  END IF;
+
+  INSERT INTO form_submission_reviews (org_id, submission_id, stage_index, stage_name, action, reviewer_id, notes)
+  VALUES (
+    v_org_id,
+    p_submission_id,
+    v_submission.current_stage,
+    v_stages -> v_submission.current_stage ->> 'name',
+    'rejected',
+    p_reviewer_id,
+    p_rejection_reason
+  );
+
+  UPDATE form_submissions
+  SET
+    status = 'rejected',
+    rejected_by = p_reviewer_id,
+    rejected_at = now(),
+    rejection_reason = p_rejection_reason,
+    review_notes = p_rejection_reason,
+    updated_at = now()
+  WHERE id = p_submission_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION return_form_submission(
+  p_submission_id uuid,
+  p_reviewer_id uuid,
+  p_reason text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_submission form_submissions%ROWTYPE;
+  v_org_id uuid;
+  v_stages jsonb;
+BEGIN
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A reason is required to return a submission');
+  END IF;
+
+  SELECT * INTO v_submission
+  FROM form_submissions
+  WHERE id = p_submission_id
+  FOR UPDATE;
+
+  IF v_submission.id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Submission not found');
+  END IF;
+
+  IF p_reviewer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Reviews can only be recorded for the signed-in user');
+  END IF;
+
+  SELECT org_id, approval_stages INTO v_org_id, v_stages
+  FROM forms
+  WHERE id = v_submission.form_id;
+
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = p_reviewer_id AND org_id = v_org_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Submission not found');
+  END IF;
+
+  IF v_submission.submitted_by = p_reviewer_id THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'You cannot return your own submission (four-eye review required)'
+    );
+  END IF;
+
+  IF v_submission.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only submissions awaiting review can be returned for correction'
+    );
+  END IF;
+
+  IF NOT can_review_form_stage(v_submission.form_id, v_submission.current_stage, p_reviewer_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'You are not an approver for the current review stage'
+    );
+  END IF;
+
+  INSERT INTO form_submission_reviews (org_id, submission_id, stage_index, stage_name, action, reviewer_id, notes)
+  VALUES (
+    v_org_id,
+    p_submission_id,
+    v_submission.current_stage,
+    v_stages -> v_submission.current_stage ->> 'name',
+    'returned',
+    p_reviewer_id,
+    p_reason
+  );
+
+  UPDATE form_submissions
+  SET
+    status = 'returned',
+    current_stage = 0,
+    review_notes = p_reason,
+    updated_at = now()
+  WHERE id = p_submission_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION resubmit_form_submission(
+  p_submission_id uuid,
+  p_submission_data jsonb,
+  p_notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_submission form_submissions%ROWTYPE;
+  v_org_id uuid;
+  v_version_id uuid;
+BEGIN
+  SELECT * INTO v_submission
+  FROM form_submissions
+  WHERE id = p_submission_id
+  FOR UPDATE;
+
+  IF v_submission.id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Submission not found');
+  END IF;
+
+  IF v_submission.submitted_by IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the original submitter can resubmit this form'
+    );
+  END IF;
+
+  IF v_submission.status <> 'returned' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'This submission has not been returned for correction'
+    );
+  END IF;
+
+  SELECT org_id, current_version_id INTO v_org_id, v_version_id
+  FROM forms
+  WHERE id = v_submission.form_id;
+
+  INSERT INTO form_submission_reviews (org_id, submission_id, stage_index, action, reviewer_id, notes)
+  VALUES (v_org_id, p_submission_id, 0, 'resubmitted', auth.uid(), p_notes);
+
+  UPDATE form_submissions
+  SET
+    submission_data = p_submission_data,
+    form_version_id = coalesce(v_version_id, form_version_id),
+    status = 'pending',
+    current_stage = 0,
+    updated_at = now()
+  WHERE id = p_submission_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION can_review_form_stage TO authenticated;
+GRANT EXECUTE ON FUNCTION approve_form_submission TO authenticated;
+GRANT EXECUTE ON FUNCTION reject_form_submission TO authenticated;
+GRANT EXECUTE ON FUNCTION return_form_submission TO authenticated;
+GRANT EXECUTE ON FUNCTION resubmit_form_submission TO authenticated;
@@ -0,0 +1,234 @@
+/*
+  # Scheduled Visit Plans
+
+  1. New Tables
+    - `visit_plans`: a weekly or monthly route plan for one field user
+      - `agent_id` (users): the person making the visits
+      - `period` ('weekly' | 'monthly'), `start_date`, `end_date`
+      - `is_active`: archived plans are kept for reporting but hidden from
+        the agent
+    - `visit_plan_stops`: one planned visit within a plan
+      - `customer_id` (customers), `target_date`
+      - `form_ids` (uuid[]): forms to fill at the visit, taken from the
+        forms attached to the customer
+      - `sort_order`: route order within the day
+
+  2. Functions
+    - `save_visit_plan(org, plan, stops, plan_id)`: creates or updates a plan
+      and replaces its stops in one transaction, so a failed save never leaves
+      a plan without stops. Runs with the caller's rights, so the policies
+      below still apply
+
+  3. Security
+    - RLS enabled on both tables
+    - Org members can read plans, so agents see their own schedule
+    - Only users at supervisor level or above (role level 6 or lower) may
+      create, change or delete plans, via `can_manage_visit_plans`
+    - Stops can only be written against a plan and customer in the same org
+
+  4. Notes
+    - Visits are not marked done here. Plan-vs-actual is derived from
+      `form_submissions` (customer, form, submitter and date) and `checkins`
+*/
+
+CREATE TABLE IF NOT EXISTS visit_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  agent_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  period text NOT NULL DEFAULT 'weekly' CHECK (period IN ('weekly', 'monthly')),
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  notes text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT visit_plans_date_range_check CHECK (end_date >= start_date)
+);
+
+CREATE TABLE IF NOT EXISTS visit_plan_stops (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  plan_id uuid NOT NULL REFERENCES visit_plans(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  target_date date NOT NULL,
+  form_ids uuid[] NOT NULL DEFAULT '{}',
+  sort_order integer NOT NULL DEFAULT 0,
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (plan_id, customer_id, target_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_visit_plans_agent_dates
+  ON visit_plans(agent_id, start_date, end_date)
+  WHERE is_active = true;
+
+CREATE INDEX IF NOT EXISTS idx_visit_plans_org
+  ON visit_plans(org_id, start_date DESC);
+
+CREATE INDEX IF NOT EXISTS idx_visit_plan_stops_plan_date
+  ON visit_plan_stops(plan_id, target_date, sort_order);
+
+CREATE INDEX IF NOT EXISTS idx_visit_plan_stops_org_date
+  ON visit_plan_stops(org_id, target_date);
+
+CREATE OR REPLACE FUNCTION can_manage_visit_plans(p_org_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM users u
+    JOIN roles r ON r.id = u.role_id
+    WHERE u.id = auth.uid()
+      AND (r.name = 'super_admin' OR (u.org_id = p_org_id AND r.level <= 6))
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION can_manage_visit_plans(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION update_visit_plans_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_visit_plans_updated_at
+  BEFORE UPDATE ON visit_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_visit_plans_updated_at();
+
+ALTER TABLE visit_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE visit_plan_stops ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view visit plans in their org"
+  ON visit_plans FOR SELECT
+  TO authenticated
+  USING (
+    org_id IN (SELECT org_id FROM users WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Supervisors can insert visit plans"
+  ON visit_plans FOR INSERT
+  TO authenticated
+  WITH CHECK (can_manage_visit_plans(org_id));
+
+CREATE POLICY "Supervisors can update visit plans"
+  ON visit_plans FOR UPDATE
+  TO authenticated
+  USING (can_manage_visit_plans(org_id))
+  WITH CHECK (can_manage_visit_plans(org_id));
+
+CREATE POLICY "Supervisors can delete visit plans"
+  ON visit_plans FOR DELETE
+  TO authenticated
+  USING (can_manage_visit_plans(org_id));
+
+CREATE POLICY "Users can view visit plan stops in their org"
+  ON visit_plan_stops FOR SELECT
+  TO authenticated
+  USING (
+    org_id IN (SELECT org_id FROM users WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Supervisors can insert visit plan stops"
+  ON visit_plan_stops FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    can_manage_visit_plans(org_id)
+    AND EXISTS (
+      SELECT 1 FROM visit_plans p
+      WHERE p.id = visit_plan_stops.plan_id AND p.org_id = visit_plan_stops.org_id
+    )
+    AND EXISTS (
+      SELECT 1 FROM customers c
+      WHERE c.id = visit_plan_stops.customer_id AND c.org_id = visit_plan_stops.org_id
+    )
+  );
+
+CREATE POLICY "Supervisors can update visit plan stops"
+  ON visit_plan_stops FOR UPDATE
+  TO authenticated
+  USING (can_manage_visit_plans(org_id))
+  WITH CHECK (
+    can_manage_visit_plans(org_id)
+    AND EXISTS (
+      SELECT 1 FROM visit_plans p
+      WHERE p.id = visit_plan_stops.plan_id AND p.org_id = visit_plan_stops.org_id
+    )
+    AND EXISTS (
+      SELECT 1 FROM customers c
+      WHERE c.id = visit_plan_stops.customer_id AND c.org_id = visit_plan_stops.org_id
+    )
+  );
+
+CREATE POLICY "Supervisors can delete visit plan stops"
+  ON visit_plan_stops FOR DELETE
+  TO authenticated
+  USING (can_manage_visit_plans(org_id));
+
+CREATE OR REPLACE FUNCTION save_visit_plan(
+  p_org_id uuid,
+  p_plan jsonb,
+  p_stops jsonb,
+  p_plan_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_plan_id uuid := p_plan_id;
+BEGIN
+  IF v_plan_id IS NULL THEN
+    INSERT INTO visit_plans (org_id, agent_id, name, period, start_date, end_date, notes, created_by)
+    VALUES (
+      p_org_id,
+      (p_plan->>'agent_id')::uuid,
+      p_plan->>'name',
+      COALESCE(p_plan->>'period', 'weekly'),
+      (p_plan->>'start_date')::date,
+      (p_plan->>'end_date')::date,
+      NULLIF(btrim(p_plan->>'notes'), ''),
+      auth.uid()
+    )
+    RETURNING id INTO v_plan_id;
+  ELSE
+    UPDATE visit_plans
+    SET agent_id = (p_plan->>'agent_id')::uuid,
+        name = p_plan->>'name',
+        period = COALESCE(p_plan->>'period', period),
+        start_date = (p_plan->>'start_date')::date,
+        end_date = (p_plan->>'end_date')::date,
+        notes = NULLIF(btrim(p_plan->>'notes'), '')
+    WHERE id = v_plan_id AND org_id = p_org_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Visit plan not found';
+    END IF;
+
+    DELETE FROM visit_plan_stops WHERE plan_id = v_plan_id;
+  END IF;
+
+  INSERT INTO visit_plan_stops (org_id, plan_id, customer_id, target_date, form_ids, sort_order, notes)
+  SELECT
+    p_org_id,
+    v_plan_id,
+    (s.stop->>'customer_id')::uuid,
+    (s.stop->>'target_date')::date,
+    ARRAY(SELECT jsonb_array_elements_text(COALESCE(s.stop->'form_ids', '[]'::jsonb))::uuid),
+    s.ord - 1,
+    NULLIF(btrim(s.stop->>'notes'), '')
+  FROM jsonb_array_elements(COALESCE(p_stops, '[]'::jsonb)) WITH ORDINALITY AS s(stop, ord);
+
+  RETURN v_plan_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_visit_plan(uuid, jsonb, jsonb, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_visit_plan(uuid, jsonb, jsonb, uuid) TO authenticated;
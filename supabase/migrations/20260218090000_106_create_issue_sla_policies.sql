@@ -0,0 +1,491 @@
+/*
+  # Issue SLA Policies and Breach Escalation
+
+  1. New Tables
+    - `issue_sla_settings`: one row per organization describing its working week
+      - `timezone`, `work_days` (ISO weekday numbers, 1 = Monday)
+      - `work_start`, `work_end`: daily business hours
+      - `at_risk_percent`: share of the target elapsed before an issue is
+        flagged as at risk
+    - `issue_sla_policies`: response and resolution targets
+      - `category_id` and `priority` are optional; the most specific active
+        policy matching an issue wins (category + priority, then category,
+        then priority, then the catch-all)
+      - `response_minutes`, `resolution_minutes`
+      - `business_hours_only`: count only time inside the working week
+      - `escalation_action`: 'none' | 'notify_manager' | 'reassign_manager'
+    - `issue_escalations`: log of escalations raised on breach
+      - `escalated_to` is the assignee's manager (`users.reports_to_user_id`)
+      - `acknowledged_at` is set when the manager dismisses the alert
+
+  2. Changes to `issues`
+    - `sla_policy_id`, `sla_response_due_at`, `sla_resolution_due_at`
+    - `sla_responded_at`: first time the issue leaves the New status
+    - `sla_resolved_at`: time the issue entered a closed status
+    - `sla_paused_at`, `sla_paused_minutes`: the clock stops while the issue
+      is On Hold and the targets are pushed back by the time spent there
+    - `sla_breached_at`, `sla_escalated_at`
+    - `issue_history.changed_by` becomes nullable so escalations raised
+      without a signed-in user can still be recorded
+
+  3. Functions
+    - `issue_sla_business_minutes` / `issue_sla_add_minutes`: business-hours
+      arithmetic against the org's working week
+    - `apply_issue_sla` (trigger): picks the policy and keeps due dates,
+      pause and response/resolution stamps current on every write
+    - `process_issue_sla_breaches`: marks breaches and escalates each issue
+      once
+
+  4. Scheduling
+    - Enables `pg_cron` and schedules the `issue-sla-breaches` job to run
+      `process_issue_sla_breaches` for every organization every 15 minutes,
+      so breaches escalate even when nobody opens the tracker. Scheduling by
+      name replaces an existing job, so reruns are safe
+
+  5. Security
+    - RLS enabled on all new tables
+    - Org members can read policies, settings and escalations
+    - Only super_admin / client_admin can manage policies and settings
+    - Managers can acknowledge escalations addressed to them
+    - `process_issue_sla_breaches` can only be executed by signed-in org
+      members and the scheduler (`service_role`)
+
+  6. Notes
+    - Policies apply to issues created, or re-categorised / re-prioritised,
+      after the policy exists
+*/
+
+CREATE TABLE IF NOT EXISTS issue_sla_settings (
+  org_id uuid PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  timezone text NOT NULL DEFAULT 'UTC',
+  work_days integer[] NOT NULL DEFAULT '{1,2,3,4,5}',
+  work_start time NOT NULL DEFAULT '08:00',
+  work_end time NOT NULL DEFAULT '17:00',
+  at_risk_percent integer NOT NULL DEFAULT 80 CHECK (at_risk_percent BETWEEN 1 AND 99),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT issue_sla_settings_hours_check CHECK (work_end > work_start)
+);
+
+CREATE TABLE IF NOT EXISTS issue_sla_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  category_id uuid REFERENCES issue_categories(id) ON DELETE CASCADE,
+  priority text CHECK (priority IN ('low', 'medium', 'high')),
+  response_minutes integer NOT NULL CHECK (response_minutes > 0),
+  resolution_minutes integer NOT NULL CHECK (resolution_minutes > 0),
+  business_hours_only boolean NOT NULL DEFAULT true,
+  escalation_action text NOT NULL DEFAULT 'notify_manager'
+    CHECK (escalation_action IN ('none', 'notify_manager', 'reassign_manager')),
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_issue_sla_policies_org
+  ON issue_sla_policies(org_id)
+  WHERE is_active = true;
+
+ALTER TABLE issues ADD COLUMN IF NOT EXISTS sla_policy_id uuid REFERENCES issue_sla_policies(id) ON DELETE SET NULL;
+ALTER TABLE issues ADD COLUMN IF NOT EXISTS sla_response_due_at timestamptz;
+ALTER TABLE issues ADD COLUMN IF NOT EXISTS sla_resolution_due_at timestamptz;
+ALTER TABLE issues ADD COLUMN IF NOT EXISTS sla_responded_at timestamptz;
+ALTER TABLE issues ADD COLUMN IF NOT EXISTS sla_resolved_at timestamptz;
+ALTER TABLE issues ADD COLUMN IF NOT EXISTS sla_paused_at timestamptz;
+ALTER TABLE issues ADD COLUMN IF NOT EXISTS sla_paused_minutes integer NOT NULL DEFAULT 0;
+ALTER TABLE issues ADD COLUMN IF NOT EXISTS sla_breached_at timestamptz;
+ALTER TABLE issues ADD COLUMN IF NOT EXISTS sla_escalated_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_issues_sla_open
+  ON issues(org_id, sla_resolution_due_at)
+  WHERE sla_policy_id IS NOT NULL AND sla_resolved_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS issue_escalations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  issue_id uuid NOT NULL REFERENCES issues(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (reason IN ('response', 'resolution')),
+  action text NOT NULL CHECK (action IN ('notify_manager', 'reassign_manager')),
+  escalated_from uuid REFERENCES users(id) ON DELETE SET NULL,
+  escalated_to uuid REFERENCES users(id) ON DELETE SET NULL,
+  acknowledged_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_issue_escalations_issue
+  ON issue_escalations(issue_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_issue_escalations_open
+  ON issue_escalations(escalated_to)
+  WHERE acknowledged_at IS NULL;
+
+ALTER TABLE issue_history ALTER COLUMN changed_by DROP NOT NULL;
+
+-- Minutes between two instants that fall inside the org's working week
+CREATE OR REPLACE FUNCTION issue_sla_business_minutes(p_org_id uuid, p_from timestamptz, p_to timestamptz)
+RETURNS integer
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_tz text;
+  v_days integer[];
+  v_start time;
+  v_end time;
+  v_day date;
+  v_window_start timestamptz;
+  v_window_end timestamptz;
+  v_total numeric := 0;
+BEGIN
+  IF p_to IS NULL OR p_from IS NULL OR p_to <= p_from THEN
+    RETURN 0;
+  END IF;
+
+  SELECT timezone, work_days, work_start, work_end
+  INTO v_tz, v_days, v_start, v_end
+  FROM issue_sla_settings
+  WHERE org_id = p_org_id;
+
+  v_tz := COALESCE(v_tz, 'UTC');
+  v_days := COALESCE(v_days, ARRAY[1, 2, 3, 4, 5]);
+  v_start := COALESCE(v_start, '08:00'::time);
+  v_end := COALESCE(v_end, '17:00'::time);
+
+  v_day := (p_from AT TIME ZONE v_tz)::date;
+  WHILE v_day <= (p_to AT TIME ZONE v_tz)::date LOOP
+    IF EXTRACT(ISODOW FROM v_day)::integer = ANY(v_days) THEN
+      v_window_start := (v_day + v_start) AT TIME ZONE v_tz;
+      v_window_end := (v_day + v_end) AT TIME ZONE v_tz;
+      v_total := v_total + GREATEST(
+        0,
+        EXTRACT(EPOCH FROM (LEAST(v_window_end, p_to) - GREATEST(v_window_start, p_from))) / 60
+      );
+    END IF;
+    v_day := v_day + 1;
+  END LOOP;
+
+  RETURN floor(v_total)::integer;
+END;
+$$;
+
+-- The instant p_minutes after p_from, counting only business hours when asked
+CREATE OR REPLACE FUNCTION issue_sla_add_minutes(
+  p_org_id uuid,
+  p_from timestamptz,
+  p_minutes integer,
+  p_business_hours boolean
+)
+RETURNS timestamptz
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_tz text;
+  v_days integer[];
+  v_start time;
+  v_end time;
+  v_day date;
+  v_window_start timestamptz;
+  v_window_end timestamptz;
+  v_available numeric;
+  v_remaining numeric := p_minutes;
+BEGIN
+  IF NOT p_business_hours THEN
+    RETURN p_from + p_minutes * interval '1 minute';
+  END IF;
+
+  SELECT timezone, work_days, work_start, work_end
+  INTO v_tz, v_days, v_start, v_end
+  FROM issue_sla_settings
+  WHERE org_id = p_org_id;
+
+  v_tz := COALESCE(v_tz, 'UTC');
+  v_days := COALESCE(v_days, ARRAY[1, 2, 3, 4, 5]);
+  v_start := COALESCE(v_start, '08:00'::time);
+  v_end := COALESCE(v_end, '17:00'::time);
+
+  -- A week with no working days would never reach the target
+  IF NOT (v_days && ARRAY[1, 2, 3, 4, 5, 6, 7]) THEN
+    RETURN p_from + p_minutes * interval '1 minute';
+  END IF;
+
+  v_day := (p_from AT TIME ZONE v_tz)::date;
+  LOOP
+    IF EXTRACT(ISODOW FROM v_day)::integer = ANY(v_days) THEN
+      v_window_start := GREATEST((v_day + v_start) AT TIME ZONE v_tz, p_from);
+      v_window_end := (v_day + v_end) AT TIME ZONE v_tz;
+
+      IF v_window_start < v_window_end THEN
+        v_available := EXTRACT(EPOCH FROM (v_window_end - v_window_start)) / 60;
+        IF v_available >= v_remaining THEN
+          RETURN v_window_start + v_remaining * interval '1 minute';
+        END IF;
+        v_remaining := v_remaining - v_available;
+      END IF;
+    END IF;
+    v_day := v_day + 1;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_issue_sla()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_status_name text;
+  v_is_closed boolean;
+  v_policy issue_sla_policies%ROWTYPE;
+  v_recompute boolean := false;
+BEGIN
+  SELECT name, is_closed INTO v_status_name, v_is_closed
+  FROM issue_statuses
+  WHERE id = NEW.status_id;
+
+  v_status_name := COALESCE(v_status_name, NEW.status);
+  v_is_closed := COALESCE(v_is_closed, NEW.status IN ('resolved', 'closed'));
+
+  IF TG_OP = 'INSERT'
+     OR NEW.category_id IS DISTINCT FROM OLD.category_id
+     OR NEW.priority IS DISTINCT FROM OLD.priority THEN
+    SELECT * INTO v_policy
+    FROM issue_sla_policies p
+    WHERE p.org_id = NEW.org_id
+      AND p.is_active = true
+      AND (p.category_id IS NULL OR p.category_id = NEW.category_id)
+      AND (p.priority IS NULL OR p.priority = NEW.priority)
+    ORDER BY (p.category_id IS NOT NULL) DESC, (p.priority IS NOT NULL) DESC, p.created_at
+    LIMIT 1;
+
+    IF TG_OP = 'UPDATE' AND v_policy.id IS DISTINCT FROM OLD.sla_policy_id THEN
+      NEW.sla_breached_at := NULL;
+      NEW.sla_escalated_at := NULL;
+    END IF;
+    v_recompute := true;
+  ELSIF NEW.sla_policy_id IS NOT NULL THEN
+    SELECT * INTO v_policy FROM issue_sla_policies WHERE id = NEW.sla_policy_id;
+  END IF;
+
+  IF v_policy.id IS NULL THEN
+    NEW.sla_policy_id := NULL;
+    NEW.sla_response_due_at := NULL;
+    NEW.sla_resolution_due_at := NULL;
+    NEW.sla_paused_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.sla_policy_id := v_policy.id;
+
+  IF NEW.sla_responded_at IS NULL AND v_status_name <> 'new' THEN
+    NEW.sla_responded_at := now();
+  END IF;
+
+  IF v_is_closed THEN
+    NEW.sla_resolved_at := COALESCE(NEW.sla_resolved_at, now());
+  ELSE
+    NEW.sla_resolved_at := NULL;
+  END IF;
+
+  IF v_status_name = 'on_hold' AND NOT v_is_closed THEN
+    NEW.sla_paused_at := COALESCE(NEW.sla_paused_at, now());
+  ELSIF NEW.sla_paused_at IS NOT NULL THEN
+    NEW.sla_paused_minutes := NEW.sla_paused_minutes + CASE
+      WHEN v_policy.business_hours_only THEN issue_sla_business_minutes(NEW.org_id, NEW.sla_paused_at, now())
+      ELSE floor(EXTRACT(EPOCH FROM (now() - NEW.sla_paused_at)) / 60)::integer
+    END;
+    NEW.sla_paused_at := NULL;
+    v_recompute := true;
+  END IF;
+
+  IF v_recompute THEN
+    NEW.sla_response_due_at := issue_sla_add_minutes(
+      NEW.org_id,
+      COALESCE(NEW.reported_at, NEW.created_at, now()),
+      v_policy.response_minutes + NEW.sla_paused_minutes,
+      v_policy.business_hours_only
+    );
+    NEW.sla_resolution_due_at := issue_sla_add_minutes(
+      NEW.org_id,
+      COALESCE(NEW.reported_at, NEW.created_at, now()),
+      v_policy.resolution_minutes + NEW.sla_paused_minutes,
+      v_policy.business_hours_only
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_apply_issue_sla ON issues;
+CREATE TRIGGER trigger_apply_issue_sla
+  BEFORE INSERT OR UPDATE ON issues
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_issue_sla();
+
+-- Marks overdue issues as breached and escalates each one once to the
+-- assignee's manager. Returns the number of escalations raised.
+CREATE OR REPLACE FUNCTION process_issue_sla_breaches(p_org_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  r record;
+  v_manager uuid;
+  v_reason text;
+  v_count integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND org_id = p_org_id
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  FOR r IN
+    SELECT i.id, i.assigned_to, i.sla_breached_at, i.sla_resolution_due_at, p.escalation_action
+    FROM issues i
+    JOIN issue_sla_policies p ON p.id = i.sla_policy_id
+    WHERE i.org_id = p_org_id
+      AND i.sla_resolved_at IS NULL
+      AND i.sla_paused_at IS NULL
+      AND i.sla_escalated_at IS NULL
+      AND (i.sla_breached_at IS NULL OR p.escalation_action <> 'none')
+      AND (
+        (i.sla_responded_at IS NULL AND i.sla_response_due_at < now())
+        OR i.sla_resolution_due_at < now()
+      )
+    FOR UPDATE OF i
+  LOOP
+    IF r.sla_breached_at IS NULL THEN
+      UPDATE issues SET sla_breached_at = now() WHERE id = r.id;
+    END IF;
+
+    CONTINUE WHEN r.escalation_action = 'none';
+
+    -- Unassigned issues and assignees at the top of the hierarchy have nobody
+    -- to escalate to; they are retried once someone is assigned
+    SELECT reports_to_user_id INTO v_manager FROM users WHERE id = r.assigned_to;
+    CONTINUE WHEN v_manager IS NULL;
+
+    v_reason := CASE WHEN r.sla_resolution_due_at < now() THEN 'resolution' ELSE 'response' END;
+
+    IF r.escalation_action = 'reassign_manager' THEN
+      UPDATE issues
+      SET assigned_to = v_manager,
+          assigned_at = now(),
+          assigned_by = NULL,
+          sla_escalated_at = now()
+      WHERE id = r.id;
+    ELSE
+      UPDATE issues SET sla_escalated_at = now() WHERE id = r.id;
+    END IF;
+
+    INSERT INTO issue_escalations (org_id, issue_id, reason, action, escalated_from, escalated_to)
+    VALUES (p_org_id, r.id, v_reason, r.escalation_action, r.assigned_to, v_manager);
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION process_issue_sla_breaches(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION process_issue_sla_breaches(uuid) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION update_issue_sla_policies_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_issue_sla_policies_updated_at
+  BEFORE UPDATE ON issue_sla_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_issue_sla_policies_updated_at();
+
+ALTER TABLE issue_sla_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE issue_sla_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE issue_escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view SLA settings in their org"
+  ON issue_sla_settings FOR SELECT
+  TO authenticated
+  USING (
+    org_id IN (SELECT org_id FROM users WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Admins can manage SLA settings"
+  ON issue_sla_settings FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      JOIN roles r ON r.id = u.role_id
+      WHERE u.id = auth.uid()
+        AND u.org_id = issue_sla_settings.org_id
+        AND r.name IN ('super_admin', 'client_admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users u
+      JOIN roles r ON r.id = u.role_id
+      WHERE u.id = auth.uid()
+        AND u.org_id = issue_sla_settings.org_id
+        AND r.name IN ('super_admin', 'client_admin')
+    )
+  );
+
+CREATE POLICY "Users can view SLA policies in their org"
+  ON issue_sla_policies FOR SELECT
+  TO authenticated
+  USING (
+    org_id IN (SELECT org_id FROM users WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Admins can manage SLA policies"
+  ON issue_sla_policies FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      JOIN roles r ON r.id = u.role_id
+      WHERE u.id = auth.uid()
+        AND u.org_id = issue_sla_policies.org_id
+        AND r.name IN ('super_admin', 'client_admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users u
+      JOIN roles r ON r.id = u.role_id
+      WHERE u.id = auth.uid()
+        AND u.org_id = issue_sla_policies.org_id
+        AND r.name IN ('super_admin', 'client_admin')
+    )
+  );
+
+CREATE POLICY "Users can view escalations in their org"
+  ON issue_escalations FOR SELECT
+  TO authenticated
+  USING (
+    org_id IN (SELECT org_id FROM users WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Managers can acknowledge their escalations"
+  ON issue_escalations FOR UPDATE
+  TO authenticated
+  USING (escalated_to = auth.uid())
+  WITH CHECK (escalated_to = auth.uid());
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'issue-sla-breaches',
+  '*/15 * * * *',
+  $$SELECT process_issue_sla_breaches(id) FROM organizations$$
+);
@@ -0,0 +1,232 @@
+/*
+  # Issue Status Transition Rules
+
+  1. New Tables
+    - `issue_status_transitions`: the allowed from → to status pairs for an org
+      - `from_status_id`, `to_status_id` (issue_statuses)
+      - `allowed_roles` (text[]): role names that may make the change; empty
+        means any role
+      - `require_comment`, `require_action_taken`, `require_attachment`:
+        what must accompany the change
+
+  2. Functions
+    - `transition_issue_status(issue, status, comment, action_taken)`: checks
+      the rule, applies the change and records the comment in
+      `status_change_comments`
+    - `enforce_issue_status_transition` (trigger): once an org has any rules,
+      status changes that bypass `transition_issue_status` are rejected.
+      Writes to the legacy `status` text are mapped to the org's status row
+      of the same name and checked the same way; text with no matching row
+      is rejected
+
+  3. Security
+    - RLS enabled on `issue_status_transitions`
+    - Org members can read rules so the UI can offer only allowed statuses
+    - Only super_admin / client_admin can manage rules
+    - `transition_issue_status` runs as the caller, so the existing issue
+      update policies still apply
+
+  4. Notes
+    - Orgs without rules keep the free-form workflow (any status to any other)
+    - Changes made without a signed-in user (scheduled jobs) are not checked
+*/
+
+CREATE TABLE IF NOT EXISTS issue_status_transitions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  from_status_id uuid NOT NULL REFERENCES issue_statuses(id) ON DELETE CASCADE,
+  to_status_id uuid NOT NULL REFERENCES issue_statuses(id) ON DELETE CASCADE,
+  allowed_roles text[] NOT NULL DEFAULT '{}',
+  require_comment boolean NOT NULL DEFAULT false,
+  require_action_taken boolean NOT NULL DEFAULT false,
+  require_attachment boolean NOT NULL DEFAULT false,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (from_status_id, to_status_id),
+  CONSTRAINT issue_status_transitions_distinct_check CHECK (from_status_id <> to_status_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_issue_status_transitions_org
+  ON issue_status_transitions(org_id, from_status_id);
+
+CREATE OR REPLACE FUNCTION transition_issue_status(
+  p_issue_id uuid,
+  p_status_id uuid,
+  p_comment text DEFAULT NULL,
+  p_action_taken text DEFAULT NULL
+)
+RETURNS issues
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_issue issues%ROWTYPE;
+  v_from issue_statuses%ROWTYPE;
+  v_to issue_statuses%ROWTYPE;
+  v_rule issue_status_transitions%ROWTYPE;
+  v_role text;
+BEGIN
+  SELECT * INTO v_issue FROM issues WHERE id = p_issue_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue not found';
+  END IF;
+
+  SELECT * INTO v_to
+  FROM issue_statuses
+  WHERE id = p_status_id AND org_id = v_issue.org_id AND is_active = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Status not found';
+  END IF;
+
+  IF v_issue.status_id = p_status_id THEN
+    RETURN v_issue;
+  END IF;
+
+  SELECT * INTO v_from FROM issue_statuses WHERE id = v_issue.status_id;
+
+  IF v_issue.status_id IS NOT NULL
+     AND EXISTS (SELECT 1 FROM issue_status_transitions WHERE org_id = v_issue.org_id) THEN
+    SELECT * INTO v_rule
+    FROM issue_status_transitions
+    WHERE org_id = v_issue.org_id
+      AND from_status_id = v_issue.status_id
+      AND to_status_id = p_status_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Moving from "%" to "%" is not allowed', v_from.display_name, v_to.display_name;
+    END IF;
+
+    SELECT r.name INTO v_role
+    FROM users u
+    JOIN roles r ON r.id = u.role_id
+    WHERE u.id = auth.uid();
+
+    IF cardinality(v_rule.allowed_roles) > 0
+       AND v_role IS DISTINCT FROM 'super_admin'
+       AND NOT (COALESCE(v_role, '') = ANY(v_rule.allowed_roles)) THEN
+      RAISE EXCEPTION 'Your role cannot move issues to "%"', v_to.display_name;
+    END IF;
+
+    IF v_rule.require_comment AND COALESCE(btrim(p_comment), '') = '' THEN
+      RAISE EXCEPTION 'A comment is required to move to "%"', v_to.display_name;
+    END IF;
+
+    IF v_rule.require_action_taken AND COALESCE(btrim(p_action_taken), '') = '' THEN
+      RAISE EXCEPTION 'Action taken is required to move to "%"', v_to.display_name;
+    END IF;
+
+    IF v_rule.require_attachment
+       AND NOT EXISTS (SELECT 1 FROM issue_attachments WHERE issue_id = p_issue_id) THEN
+      RAISE EXCEPTION 'Attach a file before moving to "%"', v_to.display_name;
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.issue_status_transition', p_issue_id::text, true);
+
+  UPDATE issues
+  SET status_id = p_status_id,
+      action_taken = COALESCE(NULLIF(btrim(p_action_taken), ''), action_taken),
+      last_modified_by = auth.uid(),
+      last_modified_at = now(),
+      updated_at = now()
+  WHERE id = p_issue_id
+  RETURNING * INTO v_issue;
+
+  PERFORM set_config('app.issue_status_transition', '', true);
+
+  IF COALESCE(btrim(p_comment), '') <> '' THEN
+    INSERT INTO status_change_comments (issue_id, old_status, new_status, comment, changed_by)
+    VALUES (p_issue_id, COALESCE(v_from.name, v_issue.status), v_to.name, p_comment, auth.uid());
+  END IF;
+
+  RETURN v_issue;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION transition_issue_status(uuid, uuid, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION enforce_issue_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_status_id uuid;
+BEGIN
+  IF OLD.status_id IS NULL
+     OR auth.uid() IS NULL
+     OR COALESCE(current_setting('app.issue_status_transition', true), '') = NEW.id::text
+     OR NOT EXISTS (SELECT 1 FROM issue_status_transitions WHERE org_id = NEW.org_id) THEN
+    RETURN NEW;
+  END IF;
+
+  -- A write to the legacy `status` text alone is mapped to the org's status
+  -- row of that name, so it is checked like any other status change
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status_id IS NOT DISTINCT FROM OLD.status_id THEN
+    SELECT id INTO v_status_id
+    FROM issue_statuses
+    WHERE org_id = NEW.org_id AND name = NEW.status;
+
+    IF v_status_id IS NULL THEN
+      RAISE EXCEPTION 'Status changes must follow the configured transition rules';
+    END IF;
+
+    NEW.status_id := v_status_id;
+  END IF;
+
+  IF NEW.status_id IS DISTINCT FROM OLD.status_id THEN
+    RAISE EXCEPTION 'Status changes must follow the configured transition rules';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_enforce_issue_status_transition ON issues;
+CREATE TRIGGER trigger_enforce_issue_status_transition
+  BEFORE UPDATE OF status, status_id ON issues
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_issue_status_transition();
+
+CREATE OR REPLACE FUNCTION update_issue_status_transitions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_issue_status_transitions_updated_at
+  BEFORE UPDATE ON issue_status_transitions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_issue_status_transitions_updated_at();
+
+ALTER TABLE issue_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view status transitions in their org"
+  ON issue_status_transitions FOR SELECT
+  TO authenticated
+  USING (
+    org_id IN (SELECT org_id FROM users WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Admins can manage status transitions"
+  ON issue_status_transitions FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      JOIN roles r ON r.id = u.role_id
+      WHERE u.id = auth.uid()
+        AND u.org_id = issue_status_transitions.org_id
+        AND r.name IN ('super_admin', 'client_admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users u
+      JOIN roles r ON r.id = u.role_id
+      WHERE u.id = auth.uid()
+        AND u.org_id = issue_status_transitions.org_id
+        AND r.name IN ('super_admin', 'client_admin')
+    )
+  );
@@ -0,0 +1,239 @@
+/*
+  # Issue Assignment Rules
+
+  1. New Tables
+    - `issue_assignment_rules`: routes new unassigned issues to an assignee
+      - `sort_order`: rules are tried in ascending order; the first rule that
+        matches and finds an active assignee wins
+      - `category_id`, `priority`, `region_id`, `branch_id`: match conditions;
+        NULL matches anything. Region and branch come from the issue's customer
+      - `strategy`:
+        - `user`: always `target_user_id`
+        - `round_robin`: rotates through `pool_user_ids`, remembering the last
+          pick in `last_assigned_user_id`
+        - `least_loaded`: the member of `team_lead_id`'s team (users reporting
+          to them) with the fewest open issues
+
+  2. Functions
+    - `apply_issue_assignment_rules(issue)`: assigns an unassigned issue using
+      the first matching rule and records the rule in `issue_history` as an
+      `auto_assignment` entry. Returns the issue row
+
+  3. Security
+    - RLS enabled on `issue_assignment_rules`
+    - Org members can read rules; only super_admin / client_admin can manage
+    - `apply_issue_assignment_rules` is SECURITY DEFINER so reporters can be
+      routed to assignees they cannot see, and checks the caller belongs to
+      the issue's org
+
+  4. Notes
+    - Inactive users are skipped; a rule with no active candidate falls
+      through to the next rule
+    - Issues already assigned are left untouched
+*/
+
+CREATE TABLE IF NOT EXISTS issue_assignment_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  category_id uuid REFERENCES issue_categories(id) ON DELETE CASCADE,
+  priority text CHECK (priority IN ('low', 'medium', 'high')),
+  region_id uuid REFERENCES regions(id) ON DELETE CASCADE,
+  branch_id uuid REFERENCES branches(id) ON DELETE CASCADE,
+  strategy text NOT NULL CHECK (strategy IN ('user', 'round_robin', 'least_loaded')),
+  target_user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  pool_user_ids uuid[] NOT NULL DEFAULT '{}',
+  team_lead_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  last_assigned_user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_issue_assignment_rules_org
+  ON issue_assignment_rules(org_id, sort_order)
+  WHERE is_active = true;
+
+CREATE OR REPLACE FUNCTION apply_issue_assignment_rules(p_issue_id uuid)
+RETURNS issues
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_issue issues%ROWTYPE;
+  v_rule issue_assignment_rules%ROWTYPE;
+  v_region_id uuid;
+  v_branch_id uuid;
+  v_assignee uuid;
+  v_assigned_status_id uuid;
+BEGIN
+  SELECT * INTO v_issue FROM issues WHERE id = p_issue_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue not found';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND org_id = v_issue.org_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF v_issue.assigned_to IS NOT NULL THEN
+    RETURN v_issue;
+  END IF;
+
+  SELECT c.region_id, c.branch_id INTO v_region_id, v_branch_id
+  FROM customers c
+  WHERE c.id = v_issue.customer_id;
+
+  FOR v_rule IN
+    SELECT *
+    FROM issue_assignment_rules
+    WHERE org_id = v_issue.org_id
+      AND is_active = true
+      AND (category_id IS NULL OR category_id = v_issue.category_id)
+      AND (priority IS NULL OR priority = v_issue.priority)
+      AND (region_id IS NULL OR region_id = v_region_id)
+      AND (branch_id IS NULL OR branch_id = v_branch_id)
+    ORDER BY sort_order, created_at
+    FOR UPDATE
+  LOOP
+    v_assignee := NULL;
+
+    IF v_rule.strategy = 'user' THEN
+      SELECT u.id INTO v_assignee
+      FROM users u
+      WHERE u.id = v_rule.target_user_id
+        AND u.org_id = v_issue.org_id
+        AND u.status = 'active';
+
+    ELSIF v_rule.strategy = 'round_robin' THEN
+      -- Next active pool member after the last pick, wrapping to the start
+      SELECT pool.user_id INTO v_assignee
+      FROM unnest(v_rule.pool_user_ids) WITH ORDINALITY AS pool(user_id, position)
+      JOIN users u ON u.id = pool.user_id
+      WHERE u.org_id = v_issue.org_id
+        AND u.status = 'active'
+      ORDER BY
+        pool.position <= COALESCE(
+          array_position(v_rule.pool_user_ids, v_rule.last_assigned_user_id), 0
+        ),
+        pool.position
+      LIMIT 1;
+
+    ELSIF v_rule.strategy = 'least_loaded' THEN
+      SELECT u.id INTO v_assignee
+      FROM users u
+      LEFT JOIN issues i
+        ON i.assigned_to = u.id
+       AND i.org_id = v_issue.org_id
+       AND i.id <> v_issue.id
+      LEFT JOIN issue_statuses s ON s.id = i.status_id
+      WHERE u.reports_to_user_id = v_rule.team_lead_id
+        AND u.org_id = v_issue.org_id
+        AND u.status = 'active'
+      GROUP BY u.id, u.full_name
+      ORDER BY
+        COUNT(i.id) FILTER (
+          WHERE COALESCE(s.is_closed, i.status IN ('resolved', 'closed')) = false
+        ),
+        u.full_name
+      LIMIT 1;
+    END IF;
+
+    EXIT WHEN v_assignee IS NOT NULL;
+  END LOOP;
+
+  IF v_assignee IS NULL THEN
+    RETURN v_issue;
+  END IF;
+
+  SELECT id INTO v_assigned_status_id
+  FROM issue_statuses
+  WHERE org_id = v_issue.org_id AND name = 'assigned';
+
+  -- Routing a brand-new issue is not a manual status change
+  PERFORM set_config('app.issue_status_transition', p_issue_id::text, true);
+
+  UPDATE issues
+  SET assigned_to = v_assignee,
+      assigned_by = auth.uid(),
+      assigned_at = now(),
+      status = 'assigned',
+      status_id = COALESCE(v_assigned_status_id, status_id),
+      updated_at = now()
+  WHERE id = p_issue_id
+  RETURNING * INTO v_issue;
+
+  PERFORM set_config('app.issue_status_transition', '', true);
+
+  IF v_rule.strategy = 'round_robin' THEN
+    UPDATE issue_assignment_rules
+    SET last_assigned_user_id = v_assignee
+    WHERE id = v_rule.id;
+  END IF;
+
+  INSERT INTO issue_history (issue_id, changed_by, change_type, old_value, new_value)
+  VALUES (
+    p_issue_id,
+    auth.uid(),
+    'auto_assignment',
+    NULL,
+    jsonb_build_object(
+      'rule_id', v_rule.id,
+      'rule_name', v_rule.name,
+      'strategy', v_rule.strategy,
+      'assigned_to', v_assignee
+    )
+  );
+
+  RETURN v_issue;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION apply_issue_assignment_rules(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION update_issue_assignment_rules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_issue_assignment_rules_updated_at
+  BEFORE UPDATE ON issue_assignment_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_issue_assignment_rules_updated_at();
+
+ALTER TABLE issue_assignment_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view assignment rules in their org"
+  ON issue_assignment_rules FOR SELECT
+  TO authenticated
+  USING (
+    org_id IN (SELECT org_id FROM users WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Admins can manage assignment rules"
+  ON issue_assignment_rules FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      JOIN roles r ON r.id = u.role_id
+      WHERE u.id = auth.uid()
+        AND u.org_id = issue_assignment_rules.org_id
+        AND r.name IN ('super_admin', 'client_admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users u
+      JOIN roles r ON r.id = u.role_id
+      WHERE u.id = auth.uid()
+        AND u.org_id = issue_assignment_rules.org_id
+        AND r.name IN ('super_admin', 'client_admin')
+    )
+  );
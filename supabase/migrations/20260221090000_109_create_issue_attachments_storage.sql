@@ -0,0 +1,211 @@
+/*
+  # Issue Attachments Storage
+
+  1. Storage
+    - Create the `issue-attachments` bucket for photos and documents attached
+      to issues
+    - Objects are stored as `{issue_id}/{attachment_id}.{ext}`
+    - Bucket-level hard limit of 50 MB; per-org limits live in
+      `issue_attachment_settings`
+    - The bucket is private; files are shown and downloaded through
+      short-lived signed URLs
+
+  2. New Tables
+    - `issue_attachment_settings`: one row per org
+      - `max_file_size_mb`: largest file a user may attach
+      - `max_files_per_issue`: attachments allowed on a single issue
+
+  3. Changes
+    - `issue_attachments.storage_path`: object path in the bucket, used for
+      signed links, downloads and deletes. `file_url` keeps the path for new
+      rows, since a stored link would expire
+
+  4. Functions
+    - `enforce_issue_attachment_limits` (trigger): rejects attachments over
+      the org's size or count limit
+    - `track_issue_attachment_changes` (trigger): writes `attachment_added` /
+      `attachment_removed` entries to `issue_history`
+
+  5. Security
+    - Org members can upload and read objects whose first path segment is an
+      issue in their organization
+    - Uploaders and admins can delete objects and attachment rows
+    - Org members read attachment settings; only super_admin / client_admin
+      can change them
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('issue-attachments', 'issue-attachments', false, 52428800)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+CREATE POLICY "Users can upload issue files for their org"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'issue-attachments'
+    AND EXISTS (
+      SELECT 1 FROM issues i
+      WHERE i.id::text = (storage.foldername(name))[1]
+      AND i.org_id IN (
+        SELECT org_id FROM users WHERE id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can read issue files for their org"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'issue-attachments'
+    AND EXISTS (
+      SELECT 1 FROM issues i
+      WHERE i.id::text = (storage.foldername(name))[1]
+      AND i.org_id IN (
+        SELECT org_id FROM users WHERE id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Uploaders and admins can delete issue files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'issue-attachments'
+    AND (
+      owner = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM issues i
+        JOIN users u ON u.org_id = i.org_id
+        JOIN roles r ON r.id = u.role_id
+        WHERE i.id::text = (storage.foldername(name))[1]
+          AND u.id = auth.uid()
+          AND r.name IN ('super_admin', 'client_admin')
+      )
+    )
+  );
+
+ALTER TABLE issue_attachments ADD COLUMN IF NOT EXISTS storage_path text;
+
+CREATE POLICY "Admins can delete attachments in their org"
+  ON issue_attachments FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM issues i
+      JOIN users u ON u.org_id = i.org_id
+      JOIN roles r ON r.id = u.role_id
+      WHERE i.id = issue_attachments.issue_id
+        AND u.id = auth.uid()
+        AND r.name IN ('super_admin', 'client_admin')
+    )
+  );
+
+CREATE TABLE IF NOT EXISTS issue_attachment_settings (
+  org_id uuid PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  max_file_size_mb integer NOT NULL DEFAULT 10 CHECK (max_file_size_mb BETWEEN 1 AND 50),
+  max_files_per_issue integer NOT NULL DEFAULT 20 CHECK (max_files_per_issue BETWEEN 1 AND 100),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION enforce_issue_attachment_limits()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_max_size_mb integer := 10;
+  v_max_files integer := 20;
+BEGIN
+  SELECT s.max_file_size_mb, s.max_files_per_issue
+  INTO v_max_size_mb, v_max_files
+  FROM issues i
+  JOIN issue_attachment_settings s ON s.org_id = i.org_id
+  WHERE i.id = NEW.issue_id;
+
+  v_max_size_mb := COALESCE(v_max_size_mb, 10);
+  v_max_files := COALESCE(v_max_files, 20);
+
+  IF COALESCE(NEW.file_size, 0) > v_max_size_mb * 1024 * 1024 THEN
+    RAISE EXCEPTION '% is larger than % MB', NEW.file_name, v_max_size_mb;
+  END IF;
+
+  IF (SELECT COUNT(*) FROM issue_attachments WHERE issue_id = NEW.issue_id) >= v_max_files THEN
+    RAISE EXCEPTION 'Issues can have at most % attachments', v_max_files;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_enforce_issue_attachment_limits ON issue_attachments;
+CREATE TRIGGER trigger_enforce_issue_attachment_limits
+  BEFORE INSERT ON issue_attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_issue_attachment_limits();
+
+CREATE OR REPLACE FUNCTION track_issue_attachment_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO issue_history (issue_id, changed_by, change_type, old_value, new_value)
+    VALUES (NEW.issue_id, COALESCE(auth.uid(), NEW.uploaded_by), 'attachment_added', NULL,
+            jsonb_build_object('attachment_id', NEW.id, 'file_name', NEW.file_name,
+                               'file_size', NEW.file_size, 'file_type', NEW.file_type));
+    RETURN NEW;
+  END IF;
+
+  -- Skip rows removed because the issue itself is being deleted
+  IF EXISTS (SELECT 1 FROM issues WHERE id = OLD.issue_id) THEN
+    INSERT INTO issue_history (issue_id, changed_by, change_type, old_value, new_value)
+    VALUES (OLD.issue_id, auth.uid(), 'attachment_removed',
+            jsonb_build_object('attachment_id', OLD.id, 'file_name', OLD.file_name), NULL);
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_track_issue_attachment_changes ON issue_attachments;
+CREATE TRIGGER trigger_track_issue_attachment_changes
+  AFTER INSERT OR DELETE ON issue_attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION track_issue_attachment_changes();
+
+ALTER TABLE issue_attachment_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view attachment settings in their org"
+  ON issue_attachment_settings FOR SELECT
+  TO authenticated
+  USING (
+    org_id IN (SELECT org_id FROM users WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Admins can manage attachment settings"
+  ON issue_attachment_settings FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      JOIN roles r ON r.id = u.role_id
+      WHERE u.id = auth.uid()
+        AND u.org_id = issue_attachment_settings.org_id
+        AND r.name IN ('super_admin', 'client_admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users u
+      JOIN roles r ON r.id = u.role_id
+      WHERE u.id = auth.uid()
+        AND u.org_id = issue_attachment_settings.org_id
+        AND r.name IN ('super_admin', 'client_admin')
+    )
+  );
@@ -0,0 +1,186 @@
+/*
+  # Issue Links, Duplicates and Merge
+
+  1. New Tables
+    - `issue_links`: relationships between issues in the same org
+      - `link_type`: `parent` (source is the parent of target) or `related`
+      - A pair of issues can only be linked once, in either direction
+
+  2. Changes
+    - `issues.duplicate_of_id`: the master issue this one duplicates
+    - `issues.merged_at`, `issues.merged_by`: set when the duplicate's work
+      notes, attachments and history were merged into the master
+
+  3. Functions
+    - `mark_issue_duplicate(issue, master, merge)`: closes the issue as a
+      duplicate of the master. With `merge`, work notes and attachments move
+      to the master and the duplicate's history is copied across. Both issues
+      get a history entry
+
+  4. Security
+    - RLS enabled on `issue_links`; org members can read and create links,
+      the creator and admins can remove them
+    - `mark_issue_duplicate` is SECURITY DEFINER because it moves other
+      users' work notes; it allows admins and the duplicate's reporter or
+      assignee
+
+  5. Notes
+    - Masters cannot themselves be duplicates, so chains never form; issues
+      already pointing at the duplicate are re-pointed to the master
+*/
+
+ALTER TABLE issues ADD COLUMN IF NOT EXISTS duplicate_of_id uuid REFERENCES issues(id) ON DELETE SET NULL;
+ALTER TABLE issues ADD COLUMN IF NOT EXISTS merged_at timestamptz;
+ALTER TABLE issues ADD COLUMN IF NOT EXISTS merged_by uuid REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_issues_duplicate_of ON issues(duplicate_of_id) WHERE duplicate_of_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS issue_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  source_issue_id uuid NOT NULL REFERENCES issues(id) ON DELETE CASCADE,
+  target_issue_id uuid NOT NULL REFERENCES issues(id) ON DELETE CASCADE,
+  link_type text NOT NULL CHECK (link_type IN ('parent', 'related')),
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT issue_links_distinct_check CHECK (source_issue_id <> target_issue_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_issue_links_pair
+  ON issue_links (LEAST(source_issue_id, target_issue_id), GREATEST(source_issue_id, target_issue_id));
+
+CREATE INDEX IF NOT EXISTS idx_issue_links_target ON issue_links(target_issue_id);
+
+CREATE OR REPLACE FUNCTION mark_issue_duplicate(
+  p_issue_id uuid,
+  p_master_id uuid,
+  p_merge boolean DEFAULT false
+)
+RETURNS issues
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_issue issues%ROWTYPE;
+  v_master issues%ROWTYPE;
+  v_role text;
+  v_closed_status_id uuid;
+BEGIN
+  IF p_issue_id = p_master_id THEN
+    RAISE EXCEPTION 'An issue cannot duplicate itself';
+  END IF;
+
+  SELECT * INTO v_issue FROM issues WHERE id = p_issue_id FOR UPDATE;
+  SELECT * INTO v_master FROM issues WHERE id = p_master_id FOR UPDATE;
+
+  IF v_issue.id IS NULL OR v_master.id IS NULL OR v_issue.org_id <> v_master.org_id THEN
+    RAISE EXCEPTION 'Issue not found';
+  END IF;
+
+  SELECT r.name INTO v_role
+  FROM users u
+  JOIN roles r ON r.id = u.role_id
+  WHERE u.id = auth.uid() AND u.org_id = v_issue.org_id;
+
+  IF v_role IS NULL THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF v_role NOT IN ('super_admin', 'client_admin', 'regional_admin', 'branch_admin')
+     AND auth.uid() IS DISTINCT FROM v_issue.reported_by
+     AND auth.uid() IS DISTINCT FROM v_issue.assigned_to THEN
+    RAISE EXCEPTION 'Only admins, the reporter or the assignee can mark this issue as a duplicate';
+  END IF;
+
+  IF v_issue.duplicate_of_id IS NOT NULL THEN
+    RAISE EXCEPTION '% is already marked as a duplicate', v_issue.issue_number;
+  END IF;
+
+  IF v_master.duplicate_of_id IS NOT NULL THEN
+    RAISE EXCEPTION '% is itself a duplicate; choose its master instead', v_master.issue_number;
+  END IF;
+
+  IF p_merge THEN
+    UPDATE issue_comments SET issue_id = p_master_id WHERE issue_id = p_issue_id;
+    UPDATE issue_attachments SET issue_id = p_master_id WHERE issue_id = p_issue_id;
+
+    INSERT INTO issue_history (issue_id, changed_by, change_type, old_value, new_value, created_at)
+    SELECT p_master_id, changed_by, change_type, old_value,
+           COALESCE(new_value, '{}'::jsonb) || jsonb_build_object('merged_from', v_issue.issue_number),
+           created_at
+    FROM issue_history
+    WHERE issue_id = p_issue_id;
+  END IF;
+
+  UPDATE issues SET duplicate_of_id = p_master_id WHERE duplicate_of_id = p_issue_id;
+
+  SELECT id INTO v_closed_status_id
+  FROM issue_statuses
+  WHERE org_id = v_issue.org_id AND is_active = true AND is_closed = true
+  ORDER BY (name = 'closed') DESC, sort_order
+  LIMIT 1;
+
+  -- Closing a duplicate is not a workflow step, so transition rules do not apply
+  PERFORM set_config('app.issue_status_transition', p_issue_id::text, true);
+
+  UPDATE issues
+  SET duplicate_of_id = p_master_id,
+      merged_at = CASE WHEN p_merge THEN now() ELSE merged_at END,
+      merged_by = CASE WHEN p_merge THEN auth.uid() ELSE merged_by END,
+      status = 'closed',
+      status_id = COALESCE(v_closed_status_id, status_id),
+      closed_at = now(),
+      closed_by = auth.uid(),
+      last_modified_by = auth.uid(),
+      last_modified_at = now(),
+      updated_at = now()
+  WHERE id = p_issue_id
+  RETURNING * INTO v_issue;
+
+  PERFORM set_config('app.issue_status_transition', '', true);
+
+  INSERT INTO issue_history (issue_id, changed_by, change_type, old_value, new_value)
+  VALUES
+    (p_issue_id, auth.uid(), 'marked_duplicate', NULL,
+     jsonb_build_object('duplicate_of_id', p_master_id, 'duplicate_of', v_master.issue_number, 'merged', p_merge)),
+    (p_master_id, auth.uid(), CASE WHEN p_merge THEN 'issue_merged' ELSE 'duplicate_linked' END, NULL,
+     jsonb_build_object('duplicate_id', p_issue_id, 'duplicate', v_issue.issue_number, 'merged', p_merge));
+
+  RETURN v_issue;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION mark_issue_duplicate(uuid, uuid, boolean) TO authenticated;
+
+ALTER TABLE issue_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view issue links in their org"
+  ON issue_links FOR SELECT
+  TO authenticated
+  USING (
+    org_id IN (SELECT org_id FROM users WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Users can link issues in their org"
+  ON issue_links FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    org_id IN (SELECT org_id FROM users WHERE id = auth.uid())
+    AND EXISTS (SELECT 1 FROM issues WHERE id = source_issue_id AND org_id = issue_links.org_id)
+    AND EXISTS (SELECT 1 FROM issues WHERE id = target_issue_id AND org_id = issue_links.org_id)
+  );
+
+CREATE POLICY "Creators and admins can remove issue links"
+  ON issue_links FOR DELETE
+  TO authenticated
+  USING (
+    created_by = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM users u
+      JOIN roles r ON r.id = u.role_id
+      WHERE u.id = auth.uid()
+        AND u.org_id = issue_links.org_id
+        AND r.name IN ('super_admin', 'client_admin')
+    )
+  );
@@ -0,0 +1,180 @@
+/*
+  # Bulk Issue Updates
+
+  1. Functions
+    - `bulk_update_issues(issue_ids, changes, comment)`: applies one set of
+      changes to many issues in a single call. `changes` may contain:
+      - `assigned_to` (uuid or null to unassign)
+      - `status_id`: applied through `transition_issue_status`, so transition
+        rules (allowed roles, required comment, action taken, attachment)
+        are checked per issue
+      - `priority`, `category_id`, `due_date` (null clears the due date)
+      - `tags_add`, `tags_remove` (text arrays)
+      Each issue is applied in its own savepoint; failures are collected and
+      returned instead of aborting the batch:
+      `{ "updated": [issue_id...], "failed": [{ issue_id, issue_number, error }] }`
+      Every updated issue gets a `bulk_update` entry in `issue_history` with
+      the fields that changed and the comment
+
+  2. Security
+    - SECURITY DEFINER so it can write the `bulk_update` history entries
+      itself; `issue_history` stays closed to direct inserts
+    - Only admins, HQ, BSMs, managers and field supervisors may run bulk
+      updates, and every issue must belong to the caller's organization
+    - Status changes still go through the transition rules for the caller's
+      role
+
+  3. Notes
+    - Issues are processed in the order given; at most 500 per call
+*/
+
+CREATE OR REPLACE FUNCTION bulk_update_issues(
+  p_issue_ids uuid[],
+  p_changes jsonb,
+  p_comment text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role text;
+  v_org_id uuid;
+  v_issue issues%ROWTYPE;
+  v_issue_id uuid;
+  v_old jsonb;
+  v_new jsonb;
+  v_tags text[];
+  v_updated uuid[] := '{}';
+  v_failed jsonb := '[]'::jsonb;
+  v_error text;
+BEGIN
+  SELECT r.name, u.org_id INTO v_role, v_org_id
+  FROM users u
+  JOIN roles r ON r.id = u.role_id
+  WHERE u.id = auth.uid();
+
+  IF v_role IS NULL OR v_role NOT IN (
+    'super_admin', 'client_admin', 'hq', 'bsm', 'regional_admin', 'branch_admin',
+    'regional_manager', 'branch_manager', 'field_supervisor'
+  ) THEN
+    RAISE EXCEPTION 'Your role cannot make bulk changes';
+  END IF;
+
+  IF cardinality(p_issue_ids) > 500 THEN
+    RAISE EXCEPTION 'Select at most 500 issues at a time';
+  END IF;
+
+  IF p_changes IS NULL OR p_changes = '{}'::jsonb THEN
+    RAISE EXCEPTION 'No changes to apply';
+  END IF;
+
+  IF p_changes->>'assigned_to' IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = (p_changes->>'assigned_to')::uuid AND org_id = v_org_id
+  ) THEN
+    RAISE EXCEPTION 'Assignee not found';
+  END IF;
+
+  IF p_changes->>'category_id' IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM issue_categories WHERE id = (p_changes->>'category_id')::uuid AND org_id = v_org_id
+  ) THEN
+    RAISE EXCEPTION 'Category not found';
+  END IF;
+
+  FOREACH v_issue_id IN ARRAY p_issue_ids LOOP
+    v_issue := NULL;
+
+    BEGIN
+      SELECT * INTO v_issue FROM issues WHERE id = v_issue_id FOR UPDATE;
+      IF NOT FOUND OR v_issue.org_id IS DISTINCT FROM v_org_id THEN
+        RAISE EXCEPTION 'Issue not found or you cannot update it';
+      END IF;
+
+      v_old := '{}'::jsonb;
+      v_new := '{}'::jsonb;
+
+      IF p_changes ? 'status_id' AND v_issue.status_id IS DISTINCT FROM (p_changes->>'status_id')::uuid THEN
+        v_old := v_old || jsonb_build_object('status_id', v_issue.status_id);
+        v_new := v_new || jsonb_build_object('status_id', p_changes->>'status_id');
+        PERFORM transition_issue_status(v_issue_id, (p_changes->>'status_id')::uuid, p_comment, NULL);
+      END IF;
+
+      IF p_changes ? 'assigned_to' AND v_issue.assigned_to IS DISTINCT FROM (p_changes->>'assigned_to')::uuid THEN
+        v_old := v_old || jsonb_build_object('assigned_to', v_issue.assigned_to);
+        v_new := v_new || jsonb_build_object('assigned_to', p_changes->'assigned_to');
+        UPDATE issues
+        SET assigned_to = (p_changes->>'assigned_to')::uuid,
+            assigned_by = auth.uid(),
+            assigned_at = now()
+        WHERE id = v_issue_id;
+      END IF;
+
+      IF p_changes ? 'priority' AND v_issue.priority IS DISTINCT FROM p_changes->>'priority' THEN
+        v_old := v_old || jsonb_build_object('priority', v_issue.priority);
+        v_new := v_new || jsonb_build_object('priority', p_changes->>'priority');
+        UPDATE issues SET priority = p_changes->>'priority' WHERE id = v_issue_id;
+      END IF;
+
+      IF p_changes ? 'category_id' AND v_issue.category_id IS DISTINCT FROM (p_changes->>'category_id')::uuid THEN
+        v_old := v_old || jsonb_build_object('category_id', v_issue.category_id);
+        v_new := v_new || jsonb_build_object('category_id', p_changes->'category_id');
+        UPDATE issues SET category_id = (p_changes->>'category_id')::uuid WHERE id = v_issue_id;
+      END IF;
+
+      IF p_changes ? 'due_date' AND v_issue.due_date IS DISTINCT FROM (p_changes->>'due_date')::date THEN
+        v_old := v_old || jsonb_build_object('due_date', v_issue.due_date);
+        v_new := v_new || jsonb_build_object('due_date', p_changes->'due_date');
+        UPDATE issues SET due_date = (p_changes->>'due_date')::date WHERE id = v_issue_id;
+      END IF;
+
+      IF p_changes ? 'tags_add' OR p_changes ? 'tags_remove' THEN
+        SELECT COALESCE(array_agg(DISTINCT tag ORDER BY tag), '{}') INTO v_tags
+        FROM unnest(
+          COALESCE(v_issue.tags, '{}')
+          || ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_changes->'tags_add', '[]'::jsonb)))
+        ) AS tag
+        WHERE tag <> ALL (ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_changes->'tags_remove', '[]'::jsonb))));
+
+        IF v_tags IS DISTINCT FROM COALESCE(v_issue.tags, '{}') THEN
+          v_old := v_old || jsonb_build_object('tags', v_issue.tags);
+          v_new := v_new || jsonb_build_object('tags', v_tags);
+          UPDATE issues SET tags = NULLIF(v_tags, '{}') WHERE id = v_issue_id;
+        END IF;
+      END IF;
+
+      IF v_new <> '{}'::jsonb THEN
+        UPDATE issues
+        SET last_modified_by = auth.uid(),
+            last_modified_at = now(),
+            updated_at = now()
+        WHERE id = v_issue_id;
+
+        INSERT INTO issue_history (issue_id, changed_by, change_type, old_value, new_value)
+        VALUES (
+          v_issue_id,
+          auth.uid(),
+          'bulk_update',
+          v_old,
+          CASE WHEN COALESCE(btrim(p_comment), '') = '' THEN v_new
+               ELSE v_new || jsonb_build_object('comment', p_comment) END
+        );
+      END IF;
+
+      v_updated := v_updated || v_issue_id;
+    EXCEPTION WHEN OTHERS THEN
+      GET STACKED DIAGNOSTICS v_error = MESSAGE_TEXT;
+      v_failed := v_failed || jsonb_build_object(
+        'issue_id', v_issue_id,
+        'issue_number', (SELECT issue_number FROM issues WHERE id = v_issue_id AND org_id = v_org_id),
+        'error', v_error
+      );
+    END;
+  END LOOP;
+
+  RETURN jsonb_build_object('updated', to_jsonb(v_updated), 'failed', v_failed);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION bulk_update_issues(uuid[], jsonb, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION bulk_update_issues(uuid[], jsonb, text) TO authenticated;
@@ -0,0 +1,285 @@
+/*
+  # Recurring and Preventive-Maintenance Issues
+
+  1. New Tables
+    - `issue_recurring_templates`: schedules that generate issues
+      - Issue fields: `title`, `description`, `category_id`, `priority`,
+        optional `assigned_to`, `checklist` (items copied onto each issue)
+      - `customer_ids`: one issue per customer per occurrence; empty means a
+        single issue without a customer
+      - Recurrence: every `interval_count` `frequency` units
+        (daily / weekly / monthly / yearly) counted from `start_date`, until
+        the optional `end_date`. Monthly dates past the end of a shorter month
+        fall on its last day
+      - `lead_days`: how many days before the occurrence the issue is
+        created; the occurrence date becomes the issue's due date
+      - `next_occurrence_index`: the next occurrence to generate (0 is
+        `start_date`)
+
+  2. Changes
+    - `issues.recurring_template_id`, `issues.recurrence_date`: the template
+      and occurrence an issue was generated from
+    - `issues.checklist`: `[{ "item": text, "done": boolean }]`
+
+  3. Functions
+    - `recurring_issue_occurrence(start, frequency, interval, n)`: date of the
+      n-th occurrence
+    - `generate_recurring_issues(org_id)`: creates every issue that is due to
+      be generated and advances the templates. Also run right after a
+      template is saved, so issues already due appear at once
+
+  4. Scheduling
+    - Enables `pg_cron` and schedules the `recurring-issues` job to run
+      `generate_recurring_issues` for every organization at the top of each
+      hour. Scheduling by name replaces an existing job, so reruns are safe
+
+  5. Security
+    - RLS enabled on `issue_recurring_templates`; org members can read,
+      super_admin / client_admin can manage
+    - `generate_recurring_issues` is SECURITY DEFINER; generated issues are
+      reported by the template's creator. Only signed-in members of the org
+      and the scheduler (`service_role`) may execute it
+
+  6. Notes
+    - Occurrences missed while generation did not run are back-filled as
+      overdue issues. Occurrences dated before the template was created are
+      skipped, so a template with an old start date does not flood the
+      tracker
+    - Unassigned templates go through the assignment rules when generation
+      runs for a signed-in user; scheduled runs leave them unassigned
+    - A unique index makes generation safe to run concurrently
+*/
+
+CREATE TABLE IF NOT EXISTS issue_recurring_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  title text NOT NULL,
+  description text,
+  category_id uuid REFERENCES issue_categories(id) ON DELETE SET NULL,
+  priority text NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+  assigned_to uuid REFERENCES users(id) ON DELETE SET NULL,
+  checklist text[] NOT NULL DEFAULT '{}',
+  customer_ids uuid[] NOT NULL DEFAULT '{}',
+  frequency text NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly', 'yearly')),
+  interval_count integer NOT NULL DEFAULT 1 CHECK (interval_count BETWEEN 1 AND 365),
+  start_date date NOT NULL,
+  end_date date,
+  lead_days integer NOT NULL DEFAULT 0 CHECK (lead_days BETWEEN 0 AND 90),
+  next_occurrence_index integer NOT NULL DEFAULT 0,
+  last_generated_at timestamptz,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid NOT NULL REFERENCES users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT issue_recurring_templates_dates_check CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_issue_recurring_templates_org
+  ON issue_recurring_templates(org_id)
+  WHERE is_active = true;
+
+ALTER TABLE issues ADD COLUMN IF NOT EXISTS recurring_template_id uuid REFERENCES issue_recurring_templates(id) ON DELETE SET NULL;
+ALTER TABLE issues ADD COLUMN IF NOT EXISTS recurrence_date date;
+ALTER TABLE issues ADD COLUMN IF NOT EXISTS checklist jsonb;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_issues_recurring_occurrence
+  ON issues (
+    recurring_template_id,
+    recurrence_date,
+    COALESCE(customer_id, '00000000-0000-0000-0000-000000000000'::uuid)
+  )
+  WHERE recurring_template_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION recurring_issue_occurrence(
+  p_start date,
+  p_frequency text,
+  p_interval integer,
+  p_n integer
+)
+RETURNS date
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_frequency
+    WHEN 'daily' THEN p_start + p_n * p_interval
+    WHEN 'weekly' THEN p_start + p_n * p_interval * 7
+    WHEN 'monthly' THEN (p_start + make_interval(months => p_n * p_interval))::date
+    WHEN 'yearly' THEN (p_start + make_interval(years => p_n * p_interval))::date
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION generate_recurring_issues(p_org_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_template issue_recurring_templates%ROWTYPE;
+  v_index integer;
+  v_occurrence date;
+  v_customer_id uuid;
+  v_default_status_id uuid;
+  v_issue_id uuid;
+  v_count integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND org_id = p_org_id
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  SELECT id INTO v_default_status_id
+  FROM issue_statuses
+  WHERE org_id = p_org_id AND is_default = true
+  LIMIT 1;
+
+  FOR v_template IN
+    SELECT * FROM issue_recurring_templates
+    WHERE org_id = p_org_id AND is_active = true
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_index := v_template.next_occurrence_index;
+
+    LOOP
+      v_occurrence := recurring_issue_occurrence(
+        v_template.start_date, v_template.frequency, v_template.interval_count, v_index
+      );
+
+      EXIT WHEN v_template.end_date IS NOT NULL AND v_occurrence > v_template.end_date;
+      EXIT WHEN v_occurrence - v_template.lead_days > current_date;
+
+      IF v_occurrence >= v_template.created_at::date THEN
+        FOR v_customer_id IN
+          SELECT unnest(
+            CASE WHEN cardinality(v_template.customer_ids) = 0 THEN ARRAY[NULL::uuid]
+                 ELSE v_template.customer_ids END
+          )
+        LOOP
+          INSERT INTO issues (
+            org_id, title, description, category_id, priority, status, status_id,
+            customer_id, due_date, reported_by, assigned_to, assigned_by, assigned_at,
+            checklist, recurring_template_id, recurrence_date,
+            last_modified_by, last_modified_at
+          )
+          VALUES (
+            p_org_id,
+            v_template.title,
+            v_template.description,
+            v_template.category_id,
+            v_template.priority,
+            CASE WHEN v_template.assigned_to IS NULL THEN 'new' ELSE 'assigned' END,
+            CASE WHEN v_template.assigned_to IS NULL THEN v_default_status_id
+                 ELSE COALESCE(
+                   (SELECT id FROM issue_statuses WHERE org_id = p_org_id AND name = 'assigned' LIMIT 1),
+                   v_default_status_id
+                 ) END,
+            v_customer_id,
+            v_occurrence,
+            v_template.created_by,
+            v_template.assigned_to,
+            CASE WHEN v_template.assigned_to IS NULL THEN NULL ELSE v_template.created_by END,
+            CASE WHEN v_template.assigned_to IS NULL THEN NULL ELSE now() END,
+            (SELECT COALESCE(jsonb_agg(jsonb_build_object('item', item, 'done', false)), '[]'::jsonb)
+             FROM unnest(v_template.checklist) AS item),
+            v_template.id,
+            v_occurrence,
+            v_template.created_by,
+            now()
+          )
+          ON CONFLICT DO NOTHING
+          RETURNING id INTO v_issue_id;
+
+          IF v_issue_id IS NOT NULL THEN
+            INSERT INTO issue_history (issue_id, changed_by, change_type, old_value, new_value)
+            VALUES (
+              v_issue_id,
+              v_template.created_by,
+              'recurring_generated',
+              NULL,
+              jsonb_build_object(
+                'template_id', v_template.id,
+                'template_name', v_template.name,
+                'occurrence_date', v_occurrence
+              )
+            );
+
+            IF v_template.assigned_to IS NULL AND auth.uid() IS NOT NULL THEN
+              PERFORM apply_issue_assignment_rules(v_issue_id);
+            END IF;
+
+            v_count := v_count + 1;
+          END IF;
+        END LOOP;
+      END IF;
+
+      v_index := v_index + 1;
+    END LOOP;
+
+    IF v_index <> v_template.next_occurrence_index THEN
+      UPDATE issue_recurring_templates
+      SET next_occurrence_index = v_index,
+          last_generated_at = now()
+      WHERE id = v_template.id;
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION generate_recurring_issues(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION generate_recurring_issues(uuid) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION update_issue_recurring_templates_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_issue_recurring_templates_updated_at
+  BEFORE UPDATE ON issue_recurring_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_issue_recurring_templates_updated_at();
+
+ALTER TABLE issue_recurring_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view recurring issue templates in their org"
+  ON issue_recurring_templates FOR SELECT
+  TO authenticated
+  USING (
+    org_id IN (SELECT org_id FROM users WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Admins can manage recurring issue templates"
+  ON issue_recurring_templates FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      JOIN roles r ON r.id = u.role_id
+      WHERE u.id = auth.uid()
+        AND u.org_id = issue_recurring_templates.org_id
+        AND r.name IN ('super_admin', 'client_admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users u
+      JOIN roles r ON r.id = u.role_id
+      WHERE u.id = auth.uid()
+        AND u.org_id = issue_recurring_templates.org_id
+        AND r.name IN ('super_admin', 'client_admin')
+    )
+  );
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'recurring-issues',
+  '0 * * * *',
+  $$SELECT generate_recurring_issues(id) FROM organizations$$
+);
@@ -0,0 +1,327 @@
+/*
+  # Customer Issue Tracking Links
+
+  1. New Tables
+    - `issue_tracking_links`: expiring public links to a read-only view of
+      one issue
+      - Only a SHA-256 hash of the token is stored; the token itself is
+        returned once, when the link is created
+      - `contact_name`: who the link was sent to, used to attribute replies
+        when the issue has no customer
+      - `revoked_at` / `revoked_by`: links can be withdrawn before expiry
+      - `view_count`, `last_viewed_at`: so staff can see the link was opened
+
+  2. Changes
+    - `issue_comments.user_id` is now nullable; customer replies have no
+      user and carry `author_name`, `customer_id` and `tracking_link_id`
+      instead
+    - Existing staff comments are deliberately marked internal. Until now
+      every note was saved with the column default (`false`) and nothing was
+      shown outside the team, so none of them were written for customers.
+      Only notes explicitly shared from now on, and customer replies, appear
+      on the public view
+
+  3. Functions
+    - `create_issue_tracking_link(issue, expires_in_days, contact_name)`:
+      returns `{ id, token, expires_at }`
+    - `get_issue_tracking_view(token)`: public view of the issue with its
+      non-internal comments; callable without signing in
+    - `add_issue_tracking_reply(token, message)`: adds a non-internal comment
+      attributed to the customer; callable without signing in
+    - `revoke_issue_tracking_link(id)`: withdraws a link in the caller's org
+
+  4. Security
+    - RLS enabled on `issue_tracking_links`; org members can read links,
+      which are only created and revoked through the functions above, so the
+      token hash, issue and expiry cannot be edited directly
+    - The public functions only return the fields shown to the customer and
+      reject unknown, expired and revoked tokens alike
+    - Replies are limited to 5000 characters and 10 per link per hour, and
+      are refused once the issue is closed
+*/
+
+CREATE TABLE IF NOT EXISTS issue_tracking_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  issue_id uuid NOT NULL REFERENCES issues(id) ON DELETE CASCADE,
+  token_hash text NOT NULL UNIQUE,
+  contact_name text,
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz,
+  revoked_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  view_count integer NOT NULL DEFAULT 0,
+  last_viewed_at timestamptz,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_issue_tracking_links_issue ON issue_tracking_links(issue_id);
+
+ALTER TABLE issue_comments ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE issue_comments ADD COLUMN IF NOT EXISTS author_name text;
+ALTER TABLE issue_comments ADD COLUMN IF NOT EXISTS customer_id uuid REFERENCES customers(id) ON DELETE SET NULL;
+ALTER TABLE issue_comments ADD COLUMN IF NOT EXISTS tracking_link_id uuid REFERENCES issue_tracking_links(id) ON DELETE SET NULL;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'issue_comments_author_check'
+  ) THEN
+    ALTER TABLE issue_comments
+      ADD CONSTRAINT issue_comments_author_check CHECK (user_id IS NOT NULL OR author_name IS NOT NULL);
+  END IF;
+END $$;
+
+UPDATE issue_comments
+SET is_internal = true
+WHERE is_internal IS DISTINCT FROM true
+  AND user_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION issue_tracking_token_hash(p_token text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT encode(sha256(convert_to(p_token, 'UTF8')), 'hex');
+$$;
+
+CREATE OR REPLACE FUNCTION create_issue_tracking_link(
+  p_issue_id uuid,
+  p_expires_in_days integer DEFAULT 30,
+  p_contact_name text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_issue issues%ROWTYPE;
+  v_token text;
+  v_link issue_tracking_links%ROWTYPE;
+BEGIN
+  SELECT * INTO v_issue FROM issues WHERE id = p_issue_id;
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND org_id = v_issue.org_id
+  ) THEN
+    RAISE EXCEPTION 'Issue not found';
+  END IF;
+
+  IF p_expires_in_days IS NULL OR p_expires_in_days NOT BETWEEN 1 AND 365 THEN
+    RAISE EXCEPTION 'Links must expire within 1 to 365 days';
+  END IF;
+
+  -- Two v4 UUIDs give 244 random bits
+  v_token := replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+
+  INSERT INTO issue_tracking_links (org_id, issue_id, token_hash, contact_name, expires_at, created_by)
+  VALUES (
+    v_issue.org_id,
+    p_issue_id,
+    issue_tracking_token_hash(v_token),
+    NULLIF(btrim(p_contact_name), ''),
+    now() + make_interval(days => p_expires_in_days),
+    auth.uid()
+  )
+  RETURNING * INTO v_link;
+
+  INSERT INTO issue_history (issue_id, changed_by, change_type, old_value, new_value)
+  VALUES (
+    p_issue_id,
+    auth.uid(),
+    'tracking_link_created',
+    NULL,
+    jsonb_build_object('link_id', v_link.id, 'contact_name', v_link.contact_name, 'expires_at', v_link.expires_at)
+  );
+
+  RETURN jsonb_build_object('id', v_link.id, 'token', v_token, 'expires_at', v_link.expires_at);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_issue_tracking_link(uuid, integer, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION revoke_issue_tracking_link(p_link_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link issue_tracking_links%ROWTYPE;
+BEGIN
+  SELECT * INTO v_link FROM issue_tracking_links WHERE id = p_link_id FOR UPDATE;
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND org_id = v_link.org_id
+  ) THEN
+    RAISE EXCEPTION 'Tracking link not found';
+  END IF;
+
+  IF v_link.revoked_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE issue_tracking_links
+  SET revoked_at = now(),
+      revoked_by = auth.uid()
+  WHERE id = p_link_id;
+
+  INSERT INTO issue_history (issue_id, changed_by, change_type, old_value, new_value)
+  VALUES (
+    v_link.issue_id,
+    auth.uid(),
+    'tracking_link_revoked',
+    jsonb_build_object('link_id', v_link.id, 'contact_name', v_link.contact_name),
+    NULL
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION revoke_issue_tracking_link(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_issue_tracking_view(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link issue_tracking_links%ROWTYPE;
+  v_result jsonb;
+BEGIN
+  SELECT * INTO v_link
+  FROM issue_tracking_links
+  WHERE token_hash = issue_tracking_token_hash(p_token)
+    AND revoked_at IS NULL
+    AND expires_at > now();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This tracking link is invalid or has expired';
+  END IF;
+
+  UPDATE issue_tracking_links
+  SET view_count = view_count + 1,
+      last_viewed_at = now()
+  WHERE id = v_link.id;
+
+  SELECT jsonb_build_object(
+    'issue_number', i.issue_number,
+    'title', i.title,
+    'description', i.description,
+    'priority', i.priority,
+    'status', COALESCE(s.display_name, initcap(replace(i.status, '_', ' '))),
+    'status_color', s.color,
+    'is_closed', COALESCE(s.is_closed, i.status = 'closed'),
+    'due_date', i.due_date,
+    'created_at', i.created_at,
+    'updated_at', i.updated_at,
+    'organization_name', o.name,
+    'customer_name', c.customer_name,
+    'expires_at', v_link.expires_at,
+    'comments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', ic.id,
+        'comment_text', ic.comment_text,
+        'created_at', ic.created_at,
+        'from_customer', ic.user_id IS NULL,
+        'author_name', CASE WHEN ic.user_id IS NULL THEN ic.author_name ELSE COALESCE(u.full_name, 'Support team') END
+      ) ORDER BY ic.created_at)
+      FROM issue_comments ic
+      LEFT JOIN users u ON u.id = ic.user_id
+      WHERE ic.issue_id = i.id
+        AND ic.is_internal = false
+    ), '[]'::jsonb)
+  )
+  INTO v_result
+  FROM issues i
+  JOIN organizations o ON o.id = i.org_id
+  LEFT JOIN issue_statuses s ON s.id = i.status_id
+  LEFT JOIN customers c ON c.id = i.customer_id
+  WHERE i.id = v_link.issue_id;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_issue_tracking_view(text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION add_issue_tracking_reply(p_token text, p_message text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link issue_tracking_links%ROWTYPE;
+  v_issue issues%ROWTYPE;
+  v_is_closed boolean;
+  v_author text;
+  v_comment issue_comments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_link
+  FROM issue_tracking_links
+  WHERE token_hash = issue_tracking_token_hash(p_token)
+    AND revoked_at IS NULL
+    AND expires_at > now();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This tracking link is invalid or has expired';
+  END IF;
+
+  IF p_message IS NULL OR btrim(p_message) = '' THEN
+    RAISE EXCEPTION 'Reply cannot be empty';
+  END IF;
+
+  IF length(p_message) > 5000 THEN
+    RAISE EXCEPTION 'Reply is too long (5000 characters at most)';
+  END IF;
+
+  SELECT * INTO v_issue FROM issues WHERE id = v_link.issue_id;
+
+  SELECT COALESCE(s.is_closed, v_issue.status = 'closed') INTO v_is_closed
+  FROM (SELECT 1) AS one
+  LEFT JOIN issue_statuses s ON s.id = v_issue.status_id;
+
+  IF v_is_closed THEN
+    RAISE EXCEPTION 'This issue is closed and no longer accepts replies';
+  END IF;
+
+  IF (
+    SELECT count(*) FROM issue_comments
+    WHERE tracking_link_id = v_link.id AND created_at > now() - interval '1 hour'
+  ) >= 10 THEN
+    RAISE EXCEPTION 'Too many replies; please try again later';
+  END IF;
+
+  SELECT COALESCE(v_link.contact_name, c.customer_name, 'Customer') INTO v_author
+  FROM (SELECT 1) AS one
+  LEFT JOIN customers c ON c.id = v_issue.customer_id;
+
+  INSERT INTO issue_comments (
+    issue_id, user_id, author_name, customer_id, tracking_link_id,
+    comment_text, is_internal, is_work_note
+  )
+  VALUES (
+    v_issue.id, NULL, v_author, v_issue.customer_id, v_link.id,
+    btrim(p_message), false, false
+  )
+  RETURNING * INTO v_comment;
+
+  RETURN jsonb_build_object(
+    'id', v_comment.id,
+    'comment_text', v_comment.comment_text,
+    'created_at', v_comment.created_at,
+    'from_customer', true,
+    'author_name', v_author
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION add_issue_tracking_reply(text, text) TO anon, authenticated;
+
+ALTER TABLE issue_tracking_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view tracking links in their org"
+  ON issue_tracking_links FOR SELECT
+  TO authenticated
+  USING (
+    org_id IN (SELECT org_id FROM users WHERE id = auth.uid())
+  );
@@ -0,0 +1,80 @@
+/*
+  # Lead Deal Value and Forecasting
+
+  1. Changes to `leads`
+    - `deal_value` (numeric): expected deal amount, optional
+    - `currency` (text): ISO 4217 code of the deal amount, defaults to USD
+    - `expected_close_date` (date): month the deal is forecast in
+    - `won_at` (timestamptz): when the lead last moved to `won`; maintained by
+      a trigger and used to report won revenue by month
+
+  2. Changes to `lead_statuses`
+    - `win_probability` (integer, 0-100): chance that a lead in this status
+      closes; the deal value times this probability is the weighted pipeline
+    - Existing default statuses get a probability by key; custom statuses
+      start at 0 until an admin sets one
+
+  3. Backfill
+    - `won_at` of leads already won is taken from their last status change to
+      `won`, or their last update when there is no history
+*/
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS deal_value numeric(14,2) CHECK (deal_value IS NULL OR deal_value >= 0);
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$');
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS expected_close_date date;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS won_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_leads_expected_close_date ON leads(org_id, expected_close_date);
+CREATE INDEX IF NOT EXISTS idx_leads_won_at ON leads(org_id, won_at) WHERE won_at IS NOT NULL;
+
+ALTER TABLE lead_statuses ADD COLUMN IF NOT EXISTS win_probability integer NOT NULL DEFAULT 0
+  CHECK (win_probability >= 0 AND win_probability <= 100);
+
+UPDATE lead_statuses
+SET win_probability = CASE status_key
+  WHEN 'new' THEN 10
+  WHEN 'contacted' THEN 20
+  WHEN 'qualified' THEN 40
+  WHEN 'hot' THEN 60
+  WHEN 'warm' THEN 40
+  WHEN 'mild' THEN 25
+  WHEN 'cold' THEN 10
+  WHEN 'negotiation' THEN 75
+  WHEN 'proposal_sent' THEN 60
+  WHEN 'stale' THEN 5
+  WHEN 'won' THEN 100
+  ELSE 0
+END
+WHERE win_probability = 0;
+
+CREATE OR REPLACE FUNCTION set_lead_won_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'won' THEN
+    IF TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'won' THEN
+      NEW.won_at := now();
+    END IF;
+  ELSE
+    NEW.won_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_set_lead_won_at ON leads;
+CREATE TRIGGER trigger_set_lead_won_at
+  BEFORE INSERT OR UPDATE OF status ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION set_lead_won_at();
+
+UPDATE leads l
+SET won_at = COALESCE(
+  (
+    SELECT max(h.changed_at)
+    FROM lead_status_history h
+    WHERE h.lead_id = l.id AND h.new_status = 'won'
+  ),
+  l.updated_at,
+  l.created_at
+)
+WHERE l.status = 'won' AND l.won_at IS NULL;
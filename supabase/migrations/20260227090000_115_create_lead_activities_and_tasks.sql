@@ -0,0 +1,222 @@
+/*
+  # Lead Activities and Follow-up Tasks
+
+  1. New Tables
+    - `lead_activities`: interactions logged against a lead
+      - `activity_type`: call, meeting, email, visit or note
+      - `outcome`: how the interaction went, optional
+      - `duration_minutes`, `attendees`: for calls and meetings
+      - `location_address`, `location_latitude`, `location_longitude`:
+        where a meeting or visit took place, optional
+      - `occurred_at`: when the interaction happened (defaults to now)
+    - `lead_tasks`: follow-ups to do on a lead
+      - `due_at`: when the follow-up is due
+      - `remind_at`: when the assignee should be reminded, before `due_at`
+      - `completed_at` / `completed_by`: set when the task is done
+
+  2. Automation
+    - Logging a call, meeting, email or visit moves `leads.last_contact_date`
+      forward to the time it happened; notes do not count as contact
+    - `leads.next_followup_date` is kept at the earliest due date of the
+      lead's open tasks, or cleared when none are left
+
+  3. Security
+    - RLS enabled on both tables
+    - Org members can view and add activities and tasks on their org's leads
+    - Authors and admins can edit or delete activities; tasks can also be
+      updated by their assignee, so they can complete them
+*/
+
+CREATE TABLE IF NOT EXISTS lead_activities (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  activity_type text NOT NULL CHECK (activity_type IN ('call', 'meeting', 'email', 'visit', 'note')),
+  subject text NOT NULL,
+  description text,
+  outcome text CHECK (outcome IN ('successful', 'no_answer', 'left_voicemail', 'follow_up_needed', 'not_interested', 'other')),
+  duration_minutes integer CHECK (duration_minutes IS NULL OR duration_minutes >= 0),
+  attendees text[] NOT NULL DEFAULT '{}',
+  location_address text,
+  location_latitude numeric(10,7),
+  location_longitude numeric(10,7),
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS lead_tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  description text,
+  task_type text NOT NULL DEFAULT 'follow_up' CHECK (task_type IN ('call', 'meeting', 'email', 'visit', 'follow_up')),
+  due_at timestamptz NOT NULL,
+  remind_at timestamptz,
+  assigned_to uuid REFERENCES users(id) ON DELETE SET NULL,
+  completed_at timestamptz,
+  completed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT lead_tasks_remind_before_due CHECK (remind_at IS NULL OR remind_at <= due_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_activities_lead ON lead_activities(lead_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lead_activities_org ON lead_activities(org_id);
+CREATE INDEX IF NOT EXISTS idx_lead_tasks_lead ON lead_tasks(lead_id, due_at);
+CREATE INDEX IF NOT EXISTS idx_lead_tasks_open_reminders ON lead_tasks(assigned_to, remind_at) WHERE completed_at IS NULL;
+
+CREATE TRIGGER trigger_update_lead_activities_timestamp
+  BEFORE UPDATE ON lead_activities
+  FOR EACH ROW
+  EXECUTE FUNCTION update_lead_updated_at();
+
+CREATE TRIGGER trigger_update_lead_tasks_timestamp
+  BEFORE UPDATE ON lead_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_lead_updated_at();
+
+CREATE OR REPLACE FUNCTION update_lead_last_contact_from_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.activity_type <> 'note' AND NEW.occurred_at <= now() THEN
+    UPDATE leads
+    SET last_contact_date = NEW.occurred_at
+    WHERE id = NEW.lead_id
+      AND (last_contact_date IS NULL OR last_contact_date < NEW.occurred_at);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_lead_activity_last_contact
+  AFTER INSERT OR UPDATE OF occurred_at, activity_type ON lead_activities
+  FOR EACH ROW
+  EXECUTE FUNCTION update_lead_last_contact_from_activity();
+
+CREATE OR REPLACE FUNCTION update_lead_next_followup_from_tasks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lead_id uuid := COALESCE(NEW.lead_id, OLD.lead_id);
+BEGIN
+  UPDATE leads
+  SET next_followup_date = (
+    SELECT min(due_at) FROM lead_tasks
+    WHERE lead_id = v_lead_id AND completed_at IS NULL
+  )
+  WHERE id = v_lead_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trigger_lead_task_next_followup
+  AFTER INSERT OR UPDATE OF due_at, completed_at OR DELETE ON lead_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_lead_next_followup_from_tasks();
+
+ALTER TABLE lead_activities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view lead activities in their organization"
+  ON lead_activities FOR SELECT
+  TO authenticated
+  USING (
+    org_id IN (SELECT org_id FROM users WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Users can log lead activities in their organization"
+  ON lead_activities FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    org_id IN (SELECT org_id FROM users WHERE id = auth.uid())
+    AND lead_id IN (SELECT id FROM leads WHERE org_id = lead_activities.org_id)
+    AND created_by = auth.uid()
+  );
+
+CREATE POLICY "Authors and admins can update lead activities"
+  ON lead_activities FOR UPDATE
+  TO authenticated
+  USING (
+    created_by = auth.uid()
+    OR org_id IN (
+      SELECT org_id FROM users
+      WHERE id = auth.uid()
+      AND role_id IN (
+        SELECT id FROM roles
+        WHERE name IN ('super_admin', 'client_admin', 'regional_admin', 'branch_admin')
+      )
+    )
+  );
+
+CREATE POLICY "Authors and admins can delete lead activities"
+  ON lead_activities FOR DELETE
+  TO authenticated
+  USING (
+    created_by = auth.uid()
+    OR org_id IN (
+      SELECT org_id FROM users
+      WHERE id = auth.uid()
+      AND role_id IN (
+        SELECT id FROM roles
+        WHERE name IN ('super_admin', 'client_admin', 'regional_admin', 'branch_admin')
+      )
+    )
+  );
+
+CREATE POLICY "Users can view lead tasks in their organization"
+  ON lead_tasks FOR SELECT
+  TO authenticated
+  USING (
+    org_id IN (SELECT org_id FROM users WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Users can create lead tasks in their organization"
+  ON lead_tasks FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    org_id IN (SELECT org_id FROM users WHERE id = auth.uid())
+    AND lead_id IN (SELECT id FROM leads WHERE org_id = lead_tasks.org_id)
+    AND created_by = auth.uid()
+  );
+
+CREATE POLICY "Authors, assignees and admins can update lead tasks"
+  ON lead_tasks FOR UPDATE
+  TO authenticated
+  USING (
+    created_by = auth.uid()
+    OR assigned_to = auth.uid()
+    OR org_id IN (
+      SELECT org_id FROM users
+      WHERE id = auth.uid()
+      AND role_id IN (
+        SELECT id FROM roles
+        WHERE name IN ('super_admin', 'client_admin', 'regional_admin', 'branch_admin')
+      )
+    )
+  );
+
+CREATE POLICY "Authors and admins can delete lead tasks"
+  ON lead_tasks FOR DELETE
+  TO authenticated
+  USING (
+    created_by = auth.uid()
+    OR org_id IN (
+      SELECT org_id FROM users
+      WHERE id = auth.uid()
+      AND role_id IN (
+        SELECT id FROM roles
+        WHERE name IN ('super_admin', 'client_admin', 'regional_admin', 'branch_admin')
+      )
+    )
+  );
@@ -0,0 +1,239 @@
+/*
+  # Lead Duplicate Detection and Merge
+
+  1. Changes
+    - `leads.email_normalized`: trimmed, lower-cased email (generated)
+    - `leads.phone_normalized`: the last nine digits of the phone number, so
+      `+1 (555) 010-2030` and `555.010.2030` compare equal (generated). Numbers
+      with fewer than seven digits are ignored
+
+  2. Functions
+    - `merge_leads(survivor, duplicate, take_fields, take_field_ids)`: folds the
+      duplicate into the survivor and deletes it
+      - `take_fields` lists the lead columns whose value comes from the
+        duplicate; every other column keeps the survivor's value
+      - `take_field_ids` lists the custom form fields whose value comes from the
+        duplicate; custom fields the survivor left blank are filled in from the
+        duplicate either way
+      - Status history, assignments, activities and tasks move to the survivor;
+        notes are combined and `last_contact_date` / `next_followup_date` are
+        recalculated
+      - A `lead_merged` audit log entry on the survivor keeps a snapshot of the
+        deleted duplicate
+
+  3. Security
+    - `merge_leads` is SECURITY DEFINER because it moves other users' activities
+      and deletes the duplicate; it allows admins and reps assigned to both leads
+    - Regional and branch admins may only merge when both leads belong to
+      their own region or branch
+*/
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS email_normalized text
+  GENERATED ALWAYS AS (NULLIF(lower(btrim(email)), '')) STORED;
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS phone_normalized text
+  GENERATED ALWAYS AS (
+    CASE
+      WHEN length(regexp_replace(COALESCE(phone, ''), '\D', '', 'g')) >= 7
+      THEN right(regexp_replace(phone, '\D', '', 'g'), 9)
+    END
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_leads_email_normalized ON leads(org_id, email_normalized) WHERE email_normalized IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_leads_phone_normalized ON leads(org_id, phone_normalized) WHERE phone_normalized IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION merge_leads(
+  p_survivor_id uuid,
+  p_duplicate_id uuid,
+  p_take_fields text[] DEFAULT '{}',
+  p_take_field_ids uuid[] DEFAULT '{}'
+)
+RETURNS leads
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_mergeable_fields text[] := ARRAY[
+    'full_name', 'email', 'phone', 'company', 'status', 'score', 'deal_value', 'currency',
+    'expected_close_date', 'source', 'assigned_to', 'region_id', 'branch_id', 'territory_id',
+    'sub_territory_id', 'picture_url', 'rank_id', 'notes'
+  ];
+  v_survivor leads%ROWTYPE;
+  v_duplicate leads%ROWTYPE;
+  v_merged leads%ROWTYPE;
+  v_role text;
+  v_region_id uuid;
+  v_branch_id uuid;
+  v_unknown text;
+  v_patch jsonb;
+  v_field_values jsonb;
+  v_notes text;
+  v_moved jsonb;
+  v_count integer;
+BEGIN
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A lead cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO v_survivor FROM leads WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO v_duplicate FROM leads WHERE id = p_duplicate_id FOR UPDATE;
+
+  IF v_survivor.id IS NULL OR v_duplicate.id IS NULL OR v_survivor.org_id <> v_duplicate.org_id THEN
+    RAISE EXCEPTION 'Lead not found';
+  END IF;
+
+  SELECT r.name, u.region_id, u.branch_id INTO v_role, v_region_id, v_branch_id
+  FROM users u
+  JOIN roles r ON r.id = u.role_id
+  WHERE u.id = auth.uid() AND u.org_id = v_survivor.org_id;
+
+  IF v_role IS NULL THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF v_role = 'regional_admin' AND (
+    v_region_id IS NULL
+    OR v_survivor.region_id IS DISTINCT FROM v_region_id
+    OR v_duplicate.region_id IS DISTINCT FROM v_region_id
+  ) THEN
+    RAISE EXCEPTION 'Regional admins can only merge leads in their own region';
+  END IF;
+
+  IF v_role = 'branch_admin' AND (
+    v_branch_id IS NULL
+    OR v_survivor.branch_id IS DISTINCT FROM v_branch_id
+    OR v_duplicate.branch_id IS DISTINCT FROM v_branch_id
+  ) THEN
+    RAISE EXCEPTION 'Branch admins can only merge leads in their own branch';
+  END IF;
+
+  IF v_role NOT IN ('super_admin', 'client_admin', 'regional_admin', 'branch_admin')
+     AND (v_survivor.assigned_to IS DISTINCT FROM auth.uid() OR v_duplicate.assigned_to IS DISTINCT FROM auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins or the rep assigned to both leads can merge them';
+  END IF;
+
+  SELECT field INTO v_unknown
+  FROM unnest(COALESCE(p_take_fields, '{}')) AS field
+  WHERE field <> ALL (v_mergeable_fields)
+  LIMIT 1;
+
+  IF v_unknown IS NOT NULL THEN
+    RAISE EXCEPTION 'Field % cannot be merged', v_unknown;
+  END IF;
+
+  SELECT COALESCE(jsonb_object_agg(field, to_jsonb(v_duplicate) -> field), '{}'::jsonb)
+  INTO v_patch
+  FROM unnest(COALESCE(p_take_fields, '{}')) AS field;
+
+  v_merged := jsonb_populate_record(v_survivor, v_patch);
+
+  -- Unless one side's notes were picked, keep both
+  v_notes := v_merged.notes;
+  IF NOT ('notes' = ANY (COALESCE(p_take_fields, '{}')))
+     AND NULLIF(btrim(v_duplicate.notes), '') IS NOT NULL
+     AND v_duplicate.notes IS DISTINCT FROM v_survivor.notes THEN
+    v_notes := concat_ws(E'\n\n', NULLIF(btrim(v_survivor.notes), ''), v_duplicate.notes);
+  END IF;
+
+  SELECT COALESCE(jsonb_object_agg(field_id, field_value), '{}'::jsonb)
+  INTO v_field_values
+  FROM lead_field_values
+  WHERE lead_id = p_duplicate_id;
+
+  INSERT INTO lead_field_values (lead_id, field_id, field_value)
+  SELECT p_survivor_id, d.field_id, d.field_value
+  FROM lead_field_values d
+  WHERE d.lead_id = p_duplicate_id
+    AND NULLIF(btrim(d.field_value), '') IS NOT NULL
+    AND (
+      d.field_id = ANY (COALESCE(p_take_field_ids, '{}'))
+      OR NOT EXISTS (
+        SELECT 1 FROM lead_field_values s
+        WHERE s.lead_id = p_survivor_id
+          AND s.field_id = d.field_id
+          AND NULLIF(btrim(s.field_value), '') IS NOT NULL
+      )
+    )
+  ON CONFLICT (lead_id, field_id) DO UPDATE
+  SET field_value = EXCLUDED.field_value,
+      updated_at = now();
+
+  UPDATE lead_status_history
+  SET lead_id = p_survivor_id,
+      notes = concat_ws(' · ', NULLIF(notes, ''), 'Merged from ' || v_duplicate.full_name)
+  WHERE lead_id = p_duplicate_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_moved := jsonb_build_object('status_history', v_count);
+
+  UPDATE lead_assignments SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_moved := v_moved || jsonb_build_object('assignments', v_count);
+
+  -- Only the surviving owner's assignment stays active
+  UPDATE lead_assignments
+  SET is_active = false,
+      unassigned_at = COALESCE(unassigned_at, now())
+  WHERE lead_id = p_survivor_id
+    AND is_active = true
+    AND user_id IS DISTINCT FROM v_merged.assigned_to;
+
+  UPDATE lead_activities SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_moved := v_moved || jsonb_build_object('activities', v_count);
+
+  UPDATE lead_tasks SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_moved := v_moved || jsonb_build_object('tasks', v_count);
+
+  UPDATE leads
+  SET full_name = v_merged.full_name,
+      email = v_merged.email,
+      phone = v_merged.phone,
+      company = v_merged.company,
+      status = v_merged.status,
+      score = v_merged.score,
+      deal_value = v_merged.deal_value,
+      currency = v_merged.currency,
+      expected_close_date = v_merged.expected_close_date,
+      source = v_merged.source,
+      assigned_to = v_merged.assigned_to,
+      region_id = v_merged.region_id,
+      branch_id = v_merged.branch_id,
+      territory_id = v_merged.territory_id,
+      sub_territory_id = v_merged.sub_territory_id,
+      picture_url = v_merged.picture_url,
+      rank_id = v_merged.rank_id,
+      notes = v_notes,
+      is_qualified = COALESCE(v_survivor.is_qualified, false) OR COALESCE(v_duplicate.is_qualified, false),
+      last_contact_date = GREATEST(v_survivor.last_contact_date, v_duplicate.last_contact_date),
+      next_followup_date = (
+        SELECT min(due_at) FROM lead_tasks
+        WHERE lead_id = p_survivor_id AND completed_at IS NULL
+      )
+  WHERE id = p_survivor_id
+  RETURNING * INTO v_merged;
+
+  PERFORM log_audit_trail(
+    v_survivor.org_id,
+    auth.uid(),
+    'lead_merged',
+    'lead',
+    p_survivor_id,
+    jsonb_build_object(
+      'merged_lead_id', p_duplicate_id,
+      'merged_lead', to_jsonb(v_duplicate),
+      'merged_field_values', v_field_values,
+      'fields_taken', to_jsonb(COALESCE(p_take_fields, '{}')),
+      'custom_fields_taken', to_jsonb(COALESCE(p_take_field_ids, '{}')),
+      'moved', v_moved
+    )
+  );
+
+  DELETE FROM leads WHERE id = p_duplicate_id;
+
+  RETURN v_merged;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_leads(uuid, uuid, text[], uuid[]) TO authenticated;
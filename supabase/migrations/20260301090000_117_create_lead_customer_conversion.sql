@@ -0,0 +1,476 @@
+/*
+  # Lead to Customer Conversion
+
+  1. New Tables
+    - `customer_code_settings`: one row per org
+      - `prefix`: letters/digits put in front of generated codes (default `CUST`)
+      - `padding`: minimum digits in the running number (default 4, so `CUST0001`)
+
+  2. Changes
+    - `leads.customer_id`, `leads.converted_at`, `leads.converted_by`: the
+      customer a won lead was converted into
+    - `customers.lead_id`: the lead a customer was converted from; one
+      customer per lead
+
+  3. Functions
+    - `generate_customer_code(org)`: the next free code for the org's prefix,
+      one past the highest number already in use
+    - `convert_lead_to_customer(lead, customer, form_ids)`: creates the customer
+      from the submitted values, generating the code when none is given, links
+      lead and customer both ways, attaches the given forms and writes a
+      `lead_converted` audit log entry
+    - `merge_leads` is redefined so the survivor keeps the duplicate's
+      customer: `customer_id`, `converted_at` and `converted_by` carry over and
+      `customers.lead_id` is pointed at the survivor. Merging two converted
+      leads is refused
+
+  4. Security
+    - RLS enabled on `customer_code_settings`; org members read it, only
+      super_admin / client_admin change it
+    - `generate_customer_code` reads every customer code in the org, so it only
+      answers for members of that org and cannot be executed anonymously
+    - `convert_lead_to_customer` is SECURITY DEFINER so the lead and customer
+      are written together; it allows the roles that may create customers plus
+      lead admins, and only for won leads that are not converted yet
+    - Regional and branch admins may only convert leads in their own region or
+      branch, into a customer that stays there; the customer's region and
+      branch must belong to the lead's org
+*/
+
+CREATE TABLE IF NOT EXISTS customer_code_settings (
+  org_id uuid PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  prefix text NOT NULL DEFAULT 'CUST' CHECK (prefix ~ '^[A-Z0-9-]{0,10}$'),
+  padding integer NOT NULL DEFAULT 4 CHECK (padding BETWEEN 1 AND 10),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS customer_id uuid REFERENCES customers(id) ON DELETE SET NULL;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS converted_at timestamptz;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS converted_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS lead_id uuid REFERENCES leads(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_leads_customer_id ON leads(customer_id) WHERE customer_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customers_lead_id ON customers(lead_id) WHERE lead_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION generate_customer_code(p_org_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_prefix text := 'CUST';
+  v_padding integer := 4;
+  v_last bigint;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND org_id = p_org_id
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT s.prefix, s.padding INTO v_prefix, v_padding
+  FROM customer_code_settings s
+  WHERE s.org_id = p_org_id;
+
+  v_prefix := COALESCE(v_prefix, 'CUST');
+  v_padding := COALESCE(v_padding, 4);
+
+  SELECT max(substring(customer_code FROM length(v_prefix) + 1)::bigint)
+  INTO v_last
+  FROM customers
+  WHERE org_id = p_org_id
+    AND left(customer_code, length(v_prefix)) = v_prefix
+    AND substring(customer_code FROM length(v_prefix) + 1) ~ '^[0-9]{1,18}$';
+
+  RETURN v_prefix || lpad((COALESCE(v_last, 0) + 1)::text, v_padding, '0');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION generate_customer_code(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION generate_customer_code(uuid) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION convert_lead_to_customer(
+  p_lead_id uuid,
+  p_customer jsonb,
+  p_form_ids uuid[] DEFAULT '{}'
+)
+RETURNS customers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lead leads%ROWTYPE;
+  v_customer customers%ROWTYPE;
+  v_role text;
+  v_region_id uuid;
+  v_branch_id uuid;
+  v_code text := NULLIF(btrim(p_customer->>'customer_code'), '');
+  v_name text := NULLIF(btrim(p_customer->>'customer_name'), '');
+  v_customer_region_id uuid := NULLIF(p_customer->>'region_id', '')::uuid;
+  v_customer_branch_id uuid := NULLIF(p_customer->>'branch_id', '')::uuid;
+  v_forms integer;
+BEGIN
+  SELECT * INTO v_lead FROM leads WHERE id = p_lead_id FOR UPDATE;
+
+  IF v_lead.id IS NULL THEN
+    RAISE EXCEPTION 'Lead not found';
+  END IF;
+
+  SELECT r.name, u.region_id, u.branch_id INTO v_role, v_region_id, v_branch_id
+  FROM users u
+  JOIN roles r ON r.id = u.role_id
+  WHERE u.id = auth.uid() AND u.org_id = v_lead.org_id;
+
+  IF v_role IS NULL OR v_role NOT IN (
+    'super_admin', 'client_admin', 'regional_admin', 'branch_admin',
+    'hq', 'bsm', 'regional_manager', 'branch_manager', 'field_supervisor'
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to create customers';
+  END IF;
+
+  IF v_role = 'regional_admin' AND (
+    v_region_id IS NULL
+    OR v_lead.region_id IS DISTINCT FROM v_region_id
+    OR v_customer_region_id IS DISTINCT FROM v_region_id
+  ) THEN
+    RAISE EXCEPTION 'Regional admins can only convert leads in their own region';
+  END IF;
+
+  IF v_role = 'branch_admin' AND (
+    v_branch_id IS NULL
+    OR v_lead.branch_id IS DISTINCT FROM v_branch_id
+    OR v_customer_branch_id IS DISTINCT FROM v_branch_id
+  ) THEN
+    RAISE EXCEPTION 'Branch admins can only convert leads in their own branch';
+  END IF;
+
+  IF v_customer_region_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM regions WHERE id = v_customer_region_id AND org_id = v_lead.org_id
+  ) THEN
+    RAISE EXCEPTION 'Region not found';
+  END IF;
+
+  IF v_customer_branch_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM branches WHERE id = v_customer_branch_id AND org_id = v_lead.org_id
+  ) THEN
+    RAISE EXCEPTION 'Branch not found';
+  END IF;
+
+  IF v_lead.status <> 'won' AND v_lead.progress_status IS DISTINCT FROM 'won' THEN
+    RAISE EXCEPTION 'Only won leads can be converted to customers';
+  END IF;
+
+  IF v_lead.customer_id IS NOT NULL THEN
+    RAISE EXCEPTION '% has already been converted to a customer', v_lead.full_name;
+  END IF;
+
+  IF v_name IS NULL THEN
+    RAISE EXCEPTION 'Customer name is required';
+  END IF;
+
+  -- Serialise code generation per org so two conversions cannot pick the same number
+  PERFORM pg_advisory_xact_lock(hashtext('customer_code:' || v_lead.org_id::text));
+
+  IF v_code IS NULL THEN
+    v_code := generate_customer_code(v_lead.org_id);
+  ELSIF EXISTS (SELECT 1 FROM customers WHERE org_id = v_lead.org_id AND customer_code = v_code) THEN
+    RAISE EXCEPTION 'Customer code % is already in use', v_code;
+  END IF;
+
+  INSERT INTO customers (
+    org_id, lead_id, customer_name, customer_code, customer_telephone,
+    location_of_outlet, country, latitude, longitude, region_id, branch_id,
+    customer_picture, customer_type, created_by
+  )
+  VALUES (
+    v_lead.org_id,
+    v_lead.id,
+    v_name,
+    v_code,
+    NULLIF(btrim(p_customer->>'customer_telephone'), ''),
+    NULLIF(btrim(p_customer->>'location_of_outlet'), ''),
+    COALESCE(NULLIF(btrim(p_customer->>'country'), ''), 'Kenya'),
+    (p_customer->>'latitude')::numeric,
+    (p_customer->>'longitude')::numeric,
+    v_customer_region_id,
+    v_customer_branch_id,
+    NULLIF(p_customer->>'customer_picture', ''),
+    COALESCE(NULLIF(p_customer->>'customer_type', ''), 'permanent')::customer_type,
+    auth.uid()
+  )
+  RETURNING * INTO v_customer;
+
+  UPDATE leads
+  SET customer_id = v_customer.id,
+      converted_at = now(),
+      converted_by = auth.uid()
+  WHERE id = v_lead.id;
+
+  INSERT INTO form_customer_attachments (form_id, customer_id, attached_by)
+  SELECT f.id, v_customer.id, auth.uid()
+  FROM forms f
+  WHERE f.id = ANY (COALESCE(p_form_ids, '{}'))
+    AND f.org_id = v_lead.org_id
+  ON CONFLICT (form_id, customer_id) DO NOTHING;
+  GET DIAGNOSTICS v_forms = ROW_COUNT;
+
+  PERFORM log_audit_trail(
+    v_lead.org_id,
+    auth.uid(),
+    'lead_converted',
+    'lead',
+    v_lead.id,
+    jsonb_build_object(
+      'customer_id', v_customer.id,
+      'customer_code', v_customer.customer_code,
+      'customer_name', v_customer.customer_name,
+      'forms_attached', v_forms
+    )
+  );
+
+  RETURN v_customer;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION convert_lead_to_customer(uuid, jsonb, uuid[]) TO authenticated;
+
+-- merge_leads (116) now also keeps the conversion link
+CREATE OR REPLACE FUNCTION merge_leads(
+  p_survivor_id uuid,
+  p_duplicate_id uuid,
+  p_take_fields text[] DEFAULT '{}',
+  p_take_field_ids uuid[] DEFAULT '{}'
+)
+RETURNS leads
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_mergeable_fields text[] := ARRAY[
+    'full_name', 'email', 'phone', 'company', 'status', 'score', 'deal_value', 'currency',
+    'expected_close_date', 'source', 'assigned_to', 'region_id', 'branch_id', 'territory_id',
+    'sub_territory_id', 'picture_url', 'rank_id', 'notes'
+  ];
+  v_survivor leads%ROWTYPE;
+  v_duplicate leads%ROWTYPE;
+  v_merged leads%ROWTYPE;
+  v_role text;
+  v_region_id uuid;
+  v_branch_id uuid;
+  v_unknown text;
+  v_patch jsonb;
+  v_field_values jsonb;
+  v_notes text;
+  v_moved jsonb;
+  v_count integer;
+BEGIN
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A lead cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO v_survivor FROM leads WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO v_duplicate FROM leads WHERE id = p_duplicate_id FOR UPDATE;
+
+  IF v_survivor.id IS NULL OR v_duplicate.id IS NULL OR v_survivor.org_id <> v_duplicate.org_id THEN
+    RAISE EXCEPTION 'Lead not found';
+  END IF;
+
+  SELECT r.name, u.region_id, u.branch_id INTO v_role, v_region_id, v_branch_id
+  FROM users u
+  JOIN roles r ON r.id = u.role_id
+  WHERE u.id = auth.uid() AND u.org_id = v_survivor.org_id;
+
+  IF v_role IS NULL THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF v_role = 'regional_admin' AND (
+    v_region_id IS NULL
+    OR v_survivor.region_id IS DISTINCT FROM v_region_id
+    OR v_duplicate.region_id IS DISTINCT FROM v_region_id
+  ) THEN
+    RAISE EXCEPTION 'Regional admins can only merge leads in their own region';
+  END IF;
+
+  IF v_role = 'branch_admin' AND (
+    v_branch_id IS NULL
+    OR v_survivor.branch_id IS DISTINCT FROM v_branch_id
+    OR v_duplicate.branch_id IS DISTINCT FROM v_branch_id
+  ) THEN
+    RAISE EXCEPTION 'Branch admins can only merge leads in their own branch';
+  END IF;
+
+  IF v_role NOT IN ('super_admin', 'client_admin', 'regional_admin', 'branch_admin')
+     AND (v_survivor.assigned_to IS DISTINCT FROM auth.uid() OR v_duplicate.assigned_to IS DISTINCT FROM auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins or the rep assigned to both leads can merge them';
+  END IF;
+
+  IF v_survivor.customer_id IS NOT NULL AND v_duplicate.customer_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Both leads have already been converted to customers';
+  END IF;
+
+  SELECT field INTO v_unknown
+  FROM unnest(COALESCE(p_take_fields, '{}')) AS field
+  WHERE field <> ALL (v_mergeable_fields)
+  LIMIT 1;
+
+  IF v_unknown IS NOT NULL THEN
+    RAISE EXCEPTION 'Field % cannot be merged', v_unknown;
+  END IF;
+
+  SELECT COALESCE(jsonb_object_agg(field, to_jsonb(v_duplicate) -> field), '{}'::jsonb)
+  INTO v_patch
+  FROM unnest(COALESCE(p_take_fields, '{}')) AS field;
+
+  v_merged := jsonb_populate_record(v_survivor, v_patch);
+
+  -- Unless one side's notes were picked, keep both
+  v_notes := v_merged.notes;
+  IF NOT ('notes' = ANY (COALESCE(p_take_fields, '{}')))
+     AND NULLIF(btrim(v_duplicate.notes), '') IS NOT NULL
+     AND v_duplicate.notes IS DISTINCT FROM v_survivor.notes THEN
+    v_notes := concat_ws(E'\n\n', NULLIF(btrim(v_survivor.notes), ''), v_duplicate.notes);
+  END IF;
+
+  SELECT COALESCE(jsonb_object_agg(field_id, field_value), '{}'::jsonb)
+  INTO v_field_values
+  FROM lead_field_values
+  WHERE lead_id = p_duplicate_id;
+
+  INSERT INTO lead_field_values (lead_id, field_id, field_value)
+  SELECT p_survivor_id, d.field_id, d.field_value
+  FROM lead_field_values d
+  WHERE d.lead_id = p_duplicate_id
+    AND NULLIF(btrim(d.field_value), '') IS NOT NULL
+    AND (
+      d.field_id = ANY (COALESCE(p_take_field_ids, '{}'))
+      OR NOT EXISTS (
+        SELECT 1 FROM lead_field_values s
+        WHERE s.lead_id = p_survivor_id
+          AND s.field_id = d.field_id
+          AND NULLIF(btrim(s.field_value), '') IS NOT NULL
+      )
+    )
+  ON CONFLICT (lead_id, field_id) DO UPDATE
+  SET field_value = EXCLUDED.field_value,
+      updated_at = now();
+
+  UPDATE lead_status_history
+  SET lead_id = p_survivor_id,
+      notes = concat_ws(' · ', NULLIF(notes, ''), 'Merged from ' || v_duplicate.full_name)
+  WHERE lead_id = p_duplicate_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_moved := jsonb_build_object('status_history', v_count);
+
+  UPDATE lead_assignments SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_moved := v_moved || jsonb_build_object('assignments', v_count);
+
+  -- Only the surviving owner's assignment stays active
+  UPDATE lead_assignments
+  SET is_active = false,
+      unassigned_at = COALESCE(unassigned_at, now())
+  WHERE lead_id = p_survivor_id
+    AND is_active = true
+    AND user_id IS DISTINCT FROM v_merged.assigned_to;
+
+  UPDATE lead_activities SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_moved := v_moved || jsonb_build_object('activities', v_count);
+
+  UPDATE lead_tasks SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_moved := v_moved || jsonb_build_object('tasks', v_count);
+
+  -- A converted duplicate hands its customer over to the survivor
+  UPDATE customers SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+
+  UPDATE leads
+  SET full_name = v_merged.full_name,
+      email = v_merged.email,
+      phone = v_merged.phone,
+      company = v_merged.company,
+      status = v_merged.status,
+      score = v_merged.score,
+      deal_value = v_merged.deal_value,
+      currency = v_merged.currency,
+      expected_close_date = v_merged.expected_close_date,
+      source = v_merged.source,
+      assigned_to = v_merged.assigned_to,
+      region_id = v_merged.region_id,
+      branch_id = v_merged.branch_id,
+      territory_id = v_merged.territory_id,
+      sub_territory_id = v_merged.sub_territory_id,
+      picture_url = v_merged.picture_url,
+      rank_id = v_merged.rank_id,
+      notes = v_notes,
+      is_qualified = COALESCE(v_survivor.is_qualified, false) OR COALESCE(v_duplicate.is_qualified, false),
+      last_contact_date = GREATEST(v_survivor.last_contact_date, v_duplicate.last_contact_date),
+      next_followup_date = (
+        SELECT min(due_at) FROM lead_tasks
+        WHERE lead_id = p_survivor_id AND completed_at IS NULL
+      ),
+      customer_id = COALESCE(v_survivor.customer_id, v_duplicate.customer_id),
+      converted_at = CASE WHEN v_survivor.customer_id IS NULL THEN v_duplicate.converted_at ELSE v_survivor.converted_at END,
+      converted_by = CASE WHEN v_survivor.customer_id IS NULL THEN v_duplicate.converted_by ELSE v_survivor.converted_by END
+  WHERE id = p_survivor_id
+  RETURNING * INTO v_merged;
+
+  PERFORM log_audit_trail(
+    v_survivor.org_id,
+    auth.uid(),
+    'lead_merged',
+    'lead',
+    p_survivor_id,
+    jsonb_build_object(
+      'merged_lead_id', p_duplicate_id,
+      'merged_lead', to_jsonb(v_duplicate),
+      'merged_field_values', v_field_values,
+      'fields_taken', to_jsonb(COALESCE(p_take_fields, '{}')),
+      'custom_fields_taken', to_jsonb(COALESCE(p_take_field_ids, '{}')),
+      'moved', v_moved
+    )
+  );
+
+  DELETE FROM leads WHERE id = p_duplicate_id;
+
+  RETURN v_merged;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_leads(uuid, uuid, text[], uuid[]) TO authenticated;
+
+ALTER TABLE customer_code_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view customer code settings in their org"
+  ON customer_code_settings FOR SELECT
+  TO authenticated
+  USING (
+    org_id IN (SELECT org_id FROM users WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Admins can manage customer code settings"
+  ON customer_code_settings FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      JOIN roles r ON r.id = u.role_id
+      WHERE u.id = auth.uid()
+        AND u.org_id = customer_code_settings.org_id
+        AND r.name IN ('super_admin', 'client_admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users u
+      JOIN roles r ON r.id = u.role_id
+      WHERE u.id = auth.uid()
+        AND u.org_id = customer_code_settings.org_id
+        AND r.name IN ('super_admin', 'client_admin')
+    )
+  );
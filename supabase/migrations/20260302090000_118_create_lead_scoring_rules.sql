@@ -0,0 +1,359 @@
+/*
+  # Rule-Based Lead Scoring
+
+  1. New Tables
+    - `lead_scoring_rules`: admin-configured rules, each adding (or taking
+      away) points when it matches a lead
+      - `rule_type`:
+        - `source`: the lead came from `source`
+        - `field_value`: the template field `field_id` matches `operator` /
+          `match_value` (equals, not_equals, contains, not_empty, gte, lte);
+          gte and lte need a plain decimal `match_value`
+        - `company_present`: the lead has a company
+        - `recent_activity`: a call, meeting, email or visit was logged in the
+          last `window_days` days
+        - `contact_decay`: loses `points` for every `window_days` days since
+          the last contact (or since the lead was created), up to `max_points`
+      - `points`: -100 to 100; for `contact_decay` the deduction per period
+
+  2. Changes
+    - `leads.score_breakdown` (jsonb): the rules that matched at the last
+      scoring, `[{rule_id, name, rule_type, points, detail}]`
+    - `leads.scored_at`: when the score was last computed
+    - `lead_ranks.min_score` (0-100, optional): leads scoring at least this
+      much get the rank; the highest threshold reached wins
+
+  3. Functions
+    - `evaluate_lead_score(lead)`: the score (clamped to 0-100) and breakdown
+      the org's active rules give a lead, without saving it
+    - `refresh_lead_score(lead)`: saves the evaluated score and breakdown, and
+      moves the lead to the rank whose threshold it reaches, clearing the
+      rank when it reaches none. Orgs without active rules keep their
+      hand-entered scores, and orgs without rank thresholds their hand-picked
+      ranks
+    - `rescore_leads(org)`: refreshes every lead in the org. Called after rules
+      change
+
+  4. Automation
+    - Leads are rescored when created, when their source, company, template
+      or last contact date changes, when their field values change and when
+      activities are logged, edited or deleted
+    - Enables `pg_cron` and schedules the `lead-rescoring` job to run
+      `rescore_leads` for every organization daily at 02:00, so contact decay
+      and activity windows move for leads nobody touches. Scheduling by name
+      replaces an existing job, so reruns are safe
+
+  5. Security
+    - RLS enabled on `lead_scoring_rules`; org members read the rules, lead
+      admins (super_admin, client_admin, regional_admin, branch_admin) manage
+      them, as for lead ranks
+    - `evaluate_lead_score` and `rescore_leads` can only be executed by
+      signed-in org members and the scheduler (`service_role`);
+      `refresh_lead_score` is internal to the triggers and `rescore_leads`
+*/
+
+CREATE TABLE IF NOT EXISTS lead_scoring_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  rule_type text NOT NULL CHECK (rule_type IN ('source', 'field_value', 'company_present', 'recent_activity', 'contact_decay')),
+  source text,
+  field_id uuid REFERENCES lead_form_fields(id) ON DELETE CASCADE,
+  operator text CHECK (operator IN ('equals', 'not_equals', 'contains', 'not_empty', 'gte', 'lte')),
+  match_value text,
+  points integer NOT NULL CHECK (points BETWEEN -100 AND 100),
+  window_days integer CHECK (window_days IS NULL OR window_days > 0),
+  max_points integer CHECK (max_points IS NULL OR max_points BETWEEN 0 AND 100),
+  is_active boolean NOT NULL DEFAULT true,
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT lead_scoring_rules_source_check CHECK (rule_type <> 'source' OR source IS NOT NULL),
+  CONSTRAINT lead_scoring_rules_field_check CHECK (rule_type <> 'field_value' OR (field_id IS NOT NULL AND operator IS NOT NULL)),
+  CONSTRAINT lead_scoring_rules_numeric_check CHECK (
+    operator IS NULL OR operator NOT IN ('gte', 'lte')
+    OR (match_value IS NOT NULL AND btrim(match_value) ~ '^-?[0-9]+(\.[0-9]+)?$')
+  ),
+  CONSTRAINT lead_scoring_rules_window_check CHECK (rule_type NOT IN ('recent_activity', 'contact_decay') OR window_days IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_scoring_rules_org_id ON lead_scoring_rules(org_id, display_order);
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS score_breakdown jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS scored_at timestamptz;
+ALTER TABLE lead_ranks ADD COLUMN IF NOT EXISTS min_score integer CHECK (min_score IS NULL OR min_score BETWEEN 0 AND 100);
+
+CREATE OR REPLACE FUNCTION evaluate_lead_score(p_lead_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lead leads%ROWTYPE;
+  r lead_scoring_rules%ROWTYPE;
+  v_items jsonb := '[]'::jsonb;
+  v_total integer := 0;
+  v_value text;
+  v_matched boolean;
+  v_points integer;
+  v_detail text;
+  v_days integer;
+BEGIN
+  SELECT * INTO v_lead FROM leads WHERE id = p_lead_id;
+
+  IF v_lead.id IS NULL OR (auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND org_id = v_lead.org_id
+  )) THEN
+    RETURN NULL;
+  END IF;
+
+  FOR r IN
+    SELECT * FROM lead_scoring_rules
+    WHERE org_id = v_lead.org_id AND is_active = true
+    ORDER BY display_order, created_at
+  LOOP
+    v_matched := false;
+    v_points := r.points;
+    v_detail := NULL;
+
+    CASE r.rule_type
+      WHEN 'source' THEN
+        v_matched := lower(btrim(v_lead.source)) = lower(btrim(r.source));
+
+      WHEN 'company_present' THEN
+        v_matched := NULLIF(btrim(v_lead.company), '') IS NOT NULL;
+
+      WHEN 'field_value' THEN
+        SELECT NULLIF(btrim(field_value), '') INTO v_value
+        FROM lead_field_values
+        WHERE lead_id = v_lead.id AND field_id = r.field_id;
+
+        v_matched := CASE r.operator
+          WHEN 'not_empty' THEN v_value IS NOT NULL
+          WHEN 'equals' THEN lower(v_value) = lower(btrim(r.match_value))
+          WHEN 'not_equals' THEN v_value IS NOT NULL AND lower(v_value) <> lower(btrim(r.match_value))
+          WHEN 'contains' THEN position(lower(btrim(r.match_value)) IN lower(v_value)) > 0
+          -- AND does not short-circuit in a fixed order, so the casts only
+          -- run inside a CASE branch that has already checked the format
+          WHEN 'gte' THEN CASE
+            WHEN v_value ~ '^-?[0-9]+(\.[0-9]+)?$' AND btrim(r.match_value) ~ '^-?[0-9]+(\.[0-9]+)?$'
+              THEN v_value::numeric >= btrim(r.match_value)::numeric
+            ELSE false
+          END
+          WHEN 'lte' THEN CASE
+            WHEN v_value ~ '^-?[0-9]+(\.[0-9]+)?$' AND btrim(r.match_value) ~ '^-?[0-9]+(\.[0-9]+)?$'
+              THEN v_value::numeric <= btrim(r.match_value)::numeric
+            ELSE false
+          END
+          ELSE false
+        END;
+        v_detail := v_value;
+
+      WHEN 'recent_activity' THEN
+        SELECT count(*)::text INTO v_detail
+        FROM lead_activities
+        WHERE lead_id = v_lead.id
+          AND activity_type <> 'note'
+          AND occurred_at >= now() - make_interval(days => r.window_days);
+
+        v_matched := v_detail <> '0';
+        v_detail := v_detail || ' in the last ' || r.window_days || ' days';
+
+      WHEN 'contact_decay' THEN
+        v_days := GREATEST(0, floor(extract(epoch FROM now() - COALESCE(v_lead.last_contact_date, v_lead.created_at)) / 86400)::integer);
+        v_points := -abs(r.points) * (v_days / r.window_days);
+        IF r.max_points IS NOT NULL THEN
+          v_points := GREATEST(v_points, -r.max_points);
+        END IF;
+
+        v_matched := v_points <> 0;
+        v_detail := v_days || CASE WHEN v_lead.last_contact_date IS NULL THEN ' days since created' ELSE ' days since last contact' END;
+    END CASE;
+
+    IF COALESCE(v_matched, false) THEN
+      v_total := v_total + v_points;
+      v_items := v_items || jsonb_build_object(
+        'rule_id', r.id,
+        'name', r.name,
+        'rule_type', r.rule_type,
+        'points', v_points,
+        'detail', v_detail
+      );
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'score', LEAST(100, GREATEST(0, v_total)),
+    'breakdown', v_items
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION evaluate_lead_score(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION evaluate_lead_score(uuid) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION refresh_lead_score(p_lead_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id uuid;
+  v_result jsonb;
+  v_score integer;
+  v_rank_id uuid;
+BEGIN
+  SELECT org_id INTO v_org_id FROM leads WHERE id = p_lead_id;
+
+  IF v_org_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM lead_scoring_rules WHERE org_id = v_org_id AND is_active = true
+  ) THEN
+    RETURN;
+  END IF;
+
+  v_result := evaluate_lead_score(p_lead_id);
+  v_score := (v_result->>'score')::integer;
+
+  SELECT id INTO v_rank_id
+  FROM lead_ranks
+  WHERE org_id = v_org_id
+    AND is_active = true
+    AND min_score IS NOT NULL
+    AND min_score <= v_score
+  ORDER BY min_score DESC, display_order
+  LIMIT 1;
+
+  UPDATE leads
+  SET score = v_score,
+      score_breakdown = v_result->'breakdown',
+      scored_at = now(),
+      rank_id = CASE
+        WHEN EXISTS (
+          SELECT 1 FROM lead_ranks
+          WHERE org_id = v_org_id AND is_active = true AND min_score IS NOT NULL
+        ) THEN v_rank_id
+        ELSE rank_id
+      END
+  WHERE id = p_lead_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_lead_score(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION rescore_leads(p_org_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lead_id uuid;
+  v_count integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND org_id = p_org_id
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_lead_id IN SELECT id FROM leads WHERE org_id = p_org_id LOOP
+    PERFORM refresh_lead_score(v_lead_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION rescore_leads(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION rescore_leads(uuid) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION trigger_refresh_lead_score()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'leads' THEN
+    PERFORM refresh_lead_score(NEW.id);
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM refresh_lead_score(OLD.lead_id);
+  ELSE
+    PERFORM refresh_lead_score(NEW.lead_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Only the inputs are listed so the score update itself does not re-fire the trigger
+CREATE TRIGGER trigger_score_lead
+  AFTER INSERT OR UPDATE OF source, company, template_id, last_contact_date ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION trigger_refresh_lead_score();
+
+CREATE TRIGGER trigger_score_lead_field_values
+  AFTER INSERT OR UPDATE OR DELETE ON lead_field_values
+  FOR EACH ROW
+  EXECUTE FUNCTION trigger_refresh_lead_score();
+
+CREATE TRIGGER trigger_score_lead_activities
+  AFTER INSERT OR UPDATE OR DELETE ON lead_activities
+  FOR EACH ROW
+  EXECUTE FUNCTION trigger_refresh_lead_score();
+
+CREATE OR REPLACE FUNCTION update_lead_scoring_rules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_lead_scoring_rules_updated_at
+  BEFORE UPDATE ON lead_scoring_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_lead_scoring_rules_updated_at();
+
+ALTER TABLE lead_scoring_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view lead scoring rules in their org"
+  ON lead_scoring_rules FOR SELECT
+  TO authenticated
+  USING (
+    org_id IN (SELECT org_id FROM users WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Admins can manage lead scoring rules"
+  ON lead_scoring_rules FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      JOIN roles r ON r.id = u.role_id
+      WHERE u.id = auth.uid()
+        AND u.org_id = lead_scoring_rules.org_id
+        AND r.name IN ('super_admin', 'client_admin', 'regional_admin', 'branch_admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users u
+      JOIN roles r ON r.id = u.role_id
+      WHERE u.id = auth.uid()
+        AND u.org_id = lead_scoring_rules.org_id
+        AND r.name IN ('super_admin', 'client_admin', 'regional_admin', 'branch_admin')
+    )
+  );
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'lead-rescoring',
+  '0 2 * * *',
+  $$SELECT rescore_leads(id) FROM organizations$$
+);
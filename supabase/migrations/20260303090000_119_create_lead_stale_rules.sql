@@ -0,0 +1,302 @@
+/*
+  # Stale Lead Detection and Recycling
+
+  1. New Tables
+    - `lead_stale_rules`: one rule per lead status
+      - `status_key`: leads in this status are checked
+      - `inactive_days`: days without activity before the lead goes stale.
+        Activity is the latest of creation, last contact, any logged activity
+        and any status change
+      - `recycle_strategy`:
+        - `none`: the lead is only marked stale and keeps its assignee
+        - `pool`: the lead is unassigned, back into the pool of open leads
+        - `round_robin`: rotates through `pool_user_ids`, skipping the current
+          assignee and remembering the last pick in `last_assigned_user_id`
+      - `notify_manager`: also alert the assignee's manager
+        (`users.reports_to_user_id`)
+    - `lead_stale_alerts`: in-app notices raised when a lead goes stale
+      - `reason`: `assignee` (their lead went stale), `manager` (a report's
+        lead went stale) or `new_assignee` (a stale lead was recycled to them)
+      - `acknowledged_at` is set when the recipient dismisses the alert
+
+  2. Changes to `leads`
+    - `stale_at`: when the lead was marked stale
+    - `stale_from_status`: the status it was in, so whoever picks it up can see
+      how far it got
+    - Moving a stale lead to any other status clears `is_stale` and `stale_at`
+
+  3. Functions
+    - `process_stale_leads(org)`: marks inactive leads stale (status `stale`
+      and `is_stale`), recycles them and raises the alerts. Returns the number
+      of leads marked. Admins can also run it from the stale rules settings
+
+  4. Scheduling
+    - Enables `pg_cron` and schedules the `stale-leads` job to run
+      `process_stale_leads` for every organization at the top of each hour.
+      Scheduling by name replaces an existing job, so reruns are safe
+
+  5. Security
+    - RLS enabled on both tables
+    - `process_stale_leads` can only be executed by signed-in org members and
+      the scheduler (`service_role`)
+    - Org members read the rules; lead admins (super_admin, client_admin,
+      regional_admin, branch_admin) manage them, as for lead statuses
+    - Recipients see and acknowledge their own alerts; lead admins see all
+      alerts in their org
+
+  6. Notes
+    - Leads already converted to a customer are never marked stale
+    - Inactive users are skipped in round-robin pools; with nobody left the
+      lead is marked stale and keeps its assignee
+*/
+
+CREATE TABLE IF NOT EXISTS lead_stale_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  status_key text NOT NULL CHECK (status_key <> 'stale'),
+  inactive_days integer NOT NULL CHECK (inactive_days > 0),
+  recycle_strategy text NOT NULL DEFAULT 'none' CHECK (recycle_strategy IN ('none', 'pool', 'round_robin')),
+  pool_user_ids uuid[] NOT NULL DEFAULT '{}',
+  last_assigned_user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  notify_manager boolean NOT NULL DEFAULT true,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT unique_org_stale_rule_status UNIQUE (org_id, status_key)
+);
+
+CREATE TABLE IF NOT EXISTS lead_stale_alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  recipient_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (reason IN ('assignee', 'manager', 'new_assignee')),
+  inactive_days integer NOT NULL,
+  previous_assignee uuid REFERENCES users(id) ON DELETE SET NULL,
+  new_assignee uuid REFERENCES users(id) ON DELETE SET NULL,
+  acknowledged_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_stale_alerts_open
+  ON lead_stale_alerts(recipient_id)
+  WHERE acknowledged_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_lead_stale_alerts_lead ON lead_stale_alerts(lead_id);
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS stale_at timestamptz;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS stale_from_status text;
+
+CREATE OR REPLACE FUNCTION process_stale_leads(p_org_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r record;
+  v_rule lead_stale_rules%ROWTYPE;
+  v_manager uuid;
+  v_new_assignee uuid;
+  v_days integer;
+  v_count integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND org_id = p_org_id
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  FOR r IN
+    SELECT l.id, l.status, l.assigned_to, s.id AS rule_id, activity.last_at
+    FROM leads l
+    JOIN lead_stale_rules s
+      ON s.org_id = l.org_id
+     AND s.status_key = l.status
+     AND s.is_active = true
+    CROSS JOIN LATERAL (
+      SELECT GREATEST(
+        l.created_at,
+        l.last_contact_date,
+        (SELECT max(a.occurred_at) FROM lead_activities a WHERE a.lead_id = l.id),
+        (SELECT max(h.changed_at) FROM lead_status_history h WHERE h.lead_id = l.id)
+      ) AS last_at
+    ) activity
+    WHERE l.org_id = p_org_id
+      AND l.is_stale IS NOT TRUE
+      AND l.customer_id IS NULL
+      AND activity.last_at < now() - make_interval(days => s.inactive_days)
+    FOR UPDATE OF l
+  LOOP
+    -- Re-read the rule each time so round-robin sees the previous pick
+    SELECT * INTO v_rule FROM lead_stale_rules WHERE id = r.rule_id FOR UPDATE;
+
+    v_days := floor(extract(epoch FROM now() - r.last_at) / 86400)::integer;
+    v_new_assignee := NULL;
+
+    SELECT reports_to_user_id INTO v_manager FROM users WHERE id = r.assigned_to;
+
+    IF v_rule.recycle_strategy = 'round_robin' THEN
+      -- Next active pool member after the last pick, wrapping to the start
+      SELECT pool.user_id INTO v_new_assignee
+      FROM unnest(v_rule.pool_user_ids) WITH ORDINALITY AS pool(user_id, position)
+      JOIN users u ON u.id = pool.user_id
+      WHERE u.org_id = p_org_id
+        AND u.status = 'active'
+        AND pool.user_id IS DISTINCT FROM r.assigned_to
+      ORDER BY
+        pool.position <= COALESCE(
+          array_position(v_rule.pool_user_ids, v_rule.last_assigned_user_id), 0
+        ),
+        pool.position
+      LIMIT 1;
+    END IF;
+
+    UPDATE leads
+    SET status = 'stale',
+        is_stale = true,
+        stale_at = now(),
+        stale_from_status = r.status,
+        assigned_to = CASE
+          WHEN v_rule.recycle_strategy = 'pool' THEN NULL
+          ELSE COALESCE(v_new_assignee, assigned_to)
+        END
+    WHERE id = r.id;
+
+    UPDATE lead_status_history
+    SET notes = format('No activity for %s days', v_days)
+    WHERE lead_id = r.id
+      AND new_status = 'stale'
+      AND changed_at = now();
+
+    IF v_rule.recycle_strategy = 'pool' OR v_new_assignee IS NOT NULL THEN
+      UPDATE lead_assignments
+      SET is_active = false,
+          unassigned_at = now()
+      WHERE lead_id = r.id AND is_active = true;
+    END IF;
+
+    IF v_new_assignee IS NOT NULL THEN
+      INSERT INTO lead_assignments (lead_id, user_id, notes)
+      VALUES (r.id, v_new_assignee, format('Recycled after %s days without activity', v_days));
+
+      UPDATE lead_stale_rules SET last_assigned_user_id = v_new_assignee WHERE id = v_rule.id;
+
+      INSERT INTO lead_stale_alerts (org_id, lead_id, recipient_id, reason, inactive_days, previous_assignee, new_assignee)
+      VALUES (p_org_id, r.id, v_new_assignee, 'new_assignee', v_days, r.assigned_to, v_new_assignee);
+    END IF;
+
+    IF r.assigned_to IS NOT NULL THEN
+      INSERT INTO lead_stale_alerts (org_id, lead_id, recipient_id, reason, inactive_days, previous_assignee, new_assignee)
+      VALUES (
+        p_org_id, r.id, r.assigned_to, 'assignee', v_days, r.assigned_to,
+        CASE WHEN v_rule.recycle_strategy = 'pool' THEN NULL ELSE COALESCE(v_new_assignee, r.assigned_to) END
+      );
+    END IF;
+
+    IF v_rule.notify_manager AND v_manager IS NOT NULL THEN
+      INSERT INTO lead_stale_alerts (org_id, lead_id, recipient_id, reason, inactive_days, previous_assignee, new_assignee)
+      VALUES (
+        p_org_id, r.id, v_manager, 'manager', v_days, r.assigned_to,
+        CASE WHEN v_rule.recycle_strategy = 'pool' THEN NULL ELSE COALESCE(v_new_assignee, r.assigned_to) END
+      );
+    END IF;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION process_stale_leads(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION process_stale_leads(uuid) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION clear_lead_stale_flag()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.is_stale := false;
+  NEW.stale_at := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_clear_lead_stale_flag
+  BEFORE UPDATE OF status ON leads
+  FOR EACH ROW
+  WHEN (OLD.status = 'stale' AND NEW.status <> 'stale')
+  EXECUTE FUNCTION clear_lead_stale_flag();
+
+CREATE OR REPLACE FUNCTION update_lead_stale_rules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_lead_stale_rules_updated_at
+  BEFORE UPDATE ON lead_stale_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_lead_stale_rules_updated_at();
+
+ALTER TABLE lead_stale_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_stale_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view lead stale rules in their org"
+  ON lead_stale_rules FOR SELECT
+  TO authenticated
+  USING (
+    org_id IN (SELECT org_id FROM users WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Admins can manage lead stale rules"
+  ON lead_stale_rules FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      JOIN roles r ON r.id = u.role_id
+      WHERE u.id = auth.uid()
+        AND u.org_id = lead_stale_rules.org_id
+        AND r.name IN ('super_admin', 'client_admin', 'regional_admin', 'branch_admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users u
+      JOIN roles r ON r.id = u.role_id
+      WHERE u.id = auth.uid()
+        AND u.org_id = lead_stale_rules.org_id
+        AND r.name IN ('super_admin', 'client_admin', 'regional_admin', 'branch_admin')
+    )
+  );
+
+CREATE POLICY "Users can view their lead stale alerts"
+  ON lead_stale_alerts FOR SELECT
+  TO authenticated
+  USING (
+    recipient_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM users u
+      JOIN roles r ON r.id = u.role_id
+      WHERE u.id = auth.uid()
+        AND u.org_id = lead_stale_alerts.org_id
+        AND r.name IN ('super_admin', 'client_admin', 'regional_admin', 'branch_admin')
+    )
+  );
+
+CREATE POLICY "Recipients can acknowledge their lead stale alerts"
+  ON lead_stale_alerts FOR UPDATE
+  TO authenticated
+  USING (recipient_id = auth.uid())
+  WITH CHECK (recipient_id = auth.uid());
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'stale-leads',
+  '0 * * * *',
+  $$SELECT process_stale_leads(id) FROM organizations$$
+);